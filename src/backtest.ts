@@ -0,0 +1,73 @@
+/**
+ * 📼 策略回测命令行入口
+ * 离线运行，不连接RPC、不加载钱包
+ *
+ * 用法:
+ *   npm run backtest -- --history <历史文件.json> --configs <配置文件.json> [--output <报告.json>]
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BacktestEngine } from './services/backtest/BacktestEngine';
+import { PoolHistoryLoader } from './services/backtest/PoolHistoryLoader';
+import { BacktestReport } from './types/backtest-types';
+
+function parseArgs(argv: string[]): Record<string, string> {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        const key = argv[i]!;
+        if (key.startsWith('--') && i + 1 < argv.length) {
+            args[key.slice(2)] = argv[++i]!;
+        }
+    }
+    return args;
+}
+
+function printSummary(reports: BacktestReport[]): void {
+    console.log('\n📊 回测结果汇总');
+    console.table(reports.map(report => ({
+        配置: report.name,
+        类型: report.strategyType,
+        初始价值: report.initialValueY.toFixed(4),
+        最终价值: report.finalValueY.toFixed(4),
+        '盈亏%': report.netPnLPercentage.toFixed(2),
+        手续费: report.feesEarned.toFixed(4),
+        兑换成本: report.swapCosts.toFixed(4),
+        '最大回撤%': report.maxDrawdownPercentage.toFixed(2),
+        '范围内%': report.timeInRangePercentage.toFixed(1),
+        重建次数: Object.values(report.recreations).reduce((sum, count) => sum + count, 0),
+        止损: report.stopLossTriggered,
+        部分止损: report.partialExits,
+        停止原因: report.stoppedReason || '-'
+    })));
+}
+
+async function main(): Promise<void> {
+    const args = parseArgs(process.argv.slice(2));
+    if (!args.history || !args.configs) {
+        console.error('用法: npm run backtest -- --history <历史文件.json> --configs <配置文件.json> [--output <报告.json>]');
+        process.exit(1);
+    }
+
+    const loader = new PoolHistoryLoader();
+    const history = await loader.loadHistory(args.history);
+    const configFile = await loader.loadConfigs(args.configs);
+
+    console.log(`📂 已加载历史数据: 池 ${history.poolAddress}，${history.snapshots.length} 个快照`);
+    console.log(`🧪 待回测配置: ${configFile.runs.map(run => run.name).join(', ')}`);
+
+    const engine = new BacktestEngine(configFile.options || {});
+    const reports = await engine.runAll(history, configFile.runs);
+
+    printSummary(reports);
+
+    const outputPath = path.resolve(args.output || path.join('data', 'backtest', `backtest_${Date.now()}.json`));
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, JSON.stringify({ generatedAt: Date.now(), reports }, null, 2));
+    console.log(`\n💾 回测报告已保存: ${outputPath}`);
+}
+
+main().catch(error => {
+    console.error('❌ 回测失败:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
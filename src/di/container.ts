@@ -17,6 +17,7 @@ import { DEFAULT_DEV_CONFIG } from '../types/logging';
 
 // 导入内部服务
 import { ConfigService } from '../services/internal/ConfigService';
+import { AuthService } from '../services/internal/AuthService';
 import { StateService } from '../services/internal/StateService';
 import { CacheService } from '../services/internal/CacheService';
 
@@ -36,9 +37,19 @@ import { HeliusService } from '../services/external/HeliusService';
 import { StrategyManager } from '../services/strategy/StrategyManager';
 import { StrategyRegistry } from '../services/strategy/StrategyRegistry';
 import { StrategyScheduler } from '../services/strategy/StrategyScheduler';
+import { RiskBudgetService } from '../services/strategy/RiskBudgetService';
+import { KillSwitchService } from '../services/strategy/KillSwitchService';
 import { StrategyStorage } from '../services/strategy/storage/StrategyStorage';
+import { StrategyJournal } from '../services/strategy/storage/StrategyJournal';
+import { StrategyOperationHistory } from '../services/strategy/storage/StrategyOperationHistory';
+import { StrategyPerformanceService } from '../services/strategy/StrategyPerformanceService';
+import { StrategyConfigHistory } from '../services/strategy/storage/StrategyConfigHistory';
+import { StrategyGroupStorage } from '../services/strategy/storage/StrategyGroupStorage';
 import { SimpleYExecutor } from '../services/strategy/executors/SimpleYExecutor';
 import { ChainPositionExecutor } from '../services/strategy/executors/ChainPositionExecutor';
+import { DualPositionExecutor } from '../services/strategy/executors/DualPositionExecutor';
+import { PriceTriggerExecutor } from '../services/strategy/executors/PriceTriggerExecutor';
+import { LiquidityExecutionService } from '../services/strategy/executors/LiquidityExecutionService';
 
 // 导入SimpleY模块服务
 import { 
@@ -60,6 +71,7 @@ import { PositionInfoService } from '../services/business/PositionInfoService';
 import { PositionFeeHarvester } from '../services/business/PositionFeeHarvester';
 import { ChainPositionManager } from '../services/business/ChainPositionManager';
 import { LiquidityOperationService } from '../services/business/LiquidityOperationService';
+import { PaperTradingService } from '../services/business/PaperTradingService';
 
 // 导入新架构分析服务组件
 import { UnifiedDataProvider } from '../services/business/analytics/UnifiedDataProvider';
@@ -75,15 +87,22 @@ import { InstanceAwareServiceFactory } from '../services/business/InstanceAwareS
 
 // 导入健康检查服务
 import { StrategyHealthChecker } from '../services/strategy/StrategyHealthChecker';
+import { StrategyRotationController } from '../services/strategy/StrategyRotationController';
+import { StrategyBatchService } from '../services/strategy/StrategyBatchService';
+import { StrategyGroupReporter } from '../services/strategy/StrategyGroupReporter';
+import { StrategyPluginLoader } from '../services/strategy/StrategyPluginLoader';
+import { StrategyWorkerPool } from '../services/strategy/isolation/StrategyWorkerPool';
 
 // 导入池爬虫服务
-// import { PoolCrawlerService } from '../services/crawler/PoolCrawlerService';
-// import { PuppeteerWebCrawlerService } from '../services/crawler/PuppeteerWebCrawlerService';
-// import { PoolDataParser } from '../services/crawler/PoolDataParser';
-// import { PoolFilterEngine } from '../services/crawler/PoolFilterEngine';
-// import { TokenFilterManager } from '../services/crawler/TokenFilterManager';
-// import { QualifiedPoolsManager } from '../services/crawler/QualifiedPoolsManager';
-// import { PoolPushStorageManager } from '../services/crawler/PoolPushStorageManager';
+import { PoolCrawlerService } from '../services/crawler/PoolCrawlerService';
+import { PuppeteerWebCrawlerService } from '../services/crawler/PuppeteerWebCrawlerService';
+import { PoolDataParser } from '../services/crawler/PoolDataParser';
+import { PoolFilterEngine } from '../services/crawler/PoolFilterEngine';
+import { TokenFilterManager } from '../services/crawler/TokenFilterManager';
+import { QualifiedPoolsManager } from '../services/crawler/QualifiedPoolsManager';
+import { PoolPushStorageManager } from '../services/crawler/PoolPushStorageManager';
+import { OnChainPoolDiscoveryService } from '../services/crawler/OnChainPoolDiscoveryService';
+import { PoolStrategyLauncher } from '../services/crawler/PoolStrategyLauncher';
 
 /**
  * 依赖注入容器配置类 (修复版)
@@ -146,6 +165,9 @@ export class DIContainer {
         // 配置服务
         container.registerSingleton(TYPES.ConfigService, ConfigService);
 
+        // 认证服务 (操作员账户和JWT)
+        container.registerSingleton(TYPES.AuthService, AuthService);
+
         // 状态服务 (内存存储，替代数据库)
         container.registerSingleton(TYPES.StateService, StateService);
 
@@ -212,9 +234,17 @@ export class DIContainer {
         // 连锁头寸管理器
         container.registerSingleton(ChainPositionManager, ChainPositionManager);
 
+        // 模拟盘交易服务（paper模式策略实例的虚拟账本）
+        container.registerSingleton(PaperTradingService, PaperTradingService);
+
         // 第6层：新策略架构核心组件
         console.log('📦 注册第6层：新策略架构...');
         container.registerSingleton(TYPES.StrategyStorage, StrategyStorage);
+        container.registerSingleton(TYPES.StrategyJournal, StrategyJournal);
+        container.registerSingleton(TYPES.StrategyOperationHistory, StrategyOperationHistory);
+        container.registerSingleton(TYPES.StrategyPerformanceService, StrategyPerformanceService);
+        container.registerSingleton(TYPES.StrategyConfigHistory, StrategyConfigHistory);
+        container.registerSingleton(TYPES.StrategyGroupStorage, StrategyGroupStorage);
         container.registerSingleton(TYPES.StrategyRegistry, StrategyRegistry);
         
         // 🆕 注册SimpleY模块服务（在SimpleYExecutor之前注册）
@@ -236,10 +266,23 @@ export class DIContainer {
         container.registerSingleton(TYPES.SimpleYExecutor, SimpleYExecutor);
         container.registerSingleton(TYPES.ChainPositionExecutor, ChainPositionExecutor);
 
+        // 双向头寸和价格触发策略共用的头寸/兑换/分析服务
+        container.registerSingleton(LiquidityExecutionService, LiquidityExecutionService);
+        container.registerSingleton(TYPES.DualPositionExecutor, DualPositionExecutor);
+        container.registerSingleton(TYPES.PriceTriggerExecutor, PriceTriggerExecutor);
+
         // 第6.5层：策略调度器（依赖注册表）
         console.log('📦 注册第6.5层：策略调度器...');
         container.registerSingleton(TYPES.StrategyScheduler, StrategyScheduler);
 
+        // 第6.8层：风险预算（策略管理器启动实例前检查资金上限）
+        console.log('📦 注册第6.8层：风险预算服务...');
+        container.registerSingleton(TYPES.RiskBudgetService, RiskBudgetService);
+
+        // 第6.9层：策略工作线程池（实例隔离运行，依赖注册表、事件日志和风险预算）
+        console.log('📦 注册第6.9层：策略工作线程池...');
+        container.registerSingleton(TYPES.StrategyWorkerPool, StrategyWorkerPool);
+
         // 第7层：策略管理器（最高层，依赖所有组件）
         console.log('📦 注册第7层：策略管理器...');
         container.registerSingleton(TYPES.StrategyManager, StrategyManager);
@@ -247,23 +290,45 @@ export class DIContainer {
         // 注册接口令牌，用于依赖注入
         container.register('IStrategyManager', { useToken: TYPES.StrategyManager });
 
+        // 第7.5层：全局一键平仓（依赖策略管理器、Gas服务和风险预算）
+        console.log('📦 注册第7.5层：全局一键平仓服务...');
+        container.registerSingleton(TYPES.KillSwitchService, KillSwitchService);
+
         // 第8层：健康检查服务（最高层，依赖所有策略组件）
         console.log('📦 注册第8层：健康检查服务...');
         container.registerSingleton(TYPES.StrategyHealthChecker, StrategyHealthChecker);
 
+        // 第8.5层：策略分组报告（依赖策略管理器和健康检查）
+        console.log('📦 注册第8.5层：策略分组报告...');
+        container.registerSingleton(TYPES.StrategyGroupReporter, StrategyGroupReporter);
+
         // 第9层：重试管理器（模块化组件）
         console.log('📦 注册第9层：重试管理器...');
         container.registerSingleton(TYPES.SynchronousRetryManager, SynchronousRetryManager);
 
         // 第10层：池爬虫系统（模块化组件）
         console.log('📦 注册第10层：池爬虫系统...');
-        // container.registerSingleton('WebCrawlerService', PuppeteerWebCrawlerService);
-        // container.registerSingleton('PoolDataParser', PoolDataParser);
-        // container.registerSingleton('PoolFilterEngine', PoolFilterEngine);
-        // container.registerSingleton('TokenFilterManager', TokenFilterManager);
-        // container.registerSingleton('QualifiedPoolsManager', QualifiedPoolsManager);
-        // container.registerSingleton('PoolPushStorageManager', PoolPushStorageManager);
-        // container.registerSingleton('PoolCrawlerService', PoolCrawlerService);
+        container.registerSingleton('WebCrawlerService', PuppeteerWebCrawlerService);
+        container.registerSingleton('PoolDataParser', PoolDataParser);
+        container.registerSingleton('PoolFilterEngine', PoolFilterEngine);
+        container.registerSingleton('TokenFilterManager', TokenFilterManager);
+        container.registerSingleton('QualifiedPoolsManager', QualifiedPoolsManager);
+        container.registerSingleton('PoolPushStorageManager', PoolPushStorageManager);
+        container.registerSingleton('OnChainPoolDiscoveryService', OnChainPoolDiscoveryService);
+        container.registerSingleton('PoolCrawlerService', PoolCrawlerService);
+        container.registerSingleton('PoolStrategyLauncher', PoolStrategyLauncher);
+
+        // 第11层：策略轮换（依赖策略管理器和池爬虫）
+        console.log('📦 注册第11层：策略轮换控制器...');
+        container.registerSingleton(TYPES.StrategyRotationController, StrategyRotationController);
+
+        // 第12层：策略批量创建（依赖策略管理器和合格池）
+        console.log('📦 注册第12层：策略批量创建服务...');
+        container.registerSingleton(TYPES.StrategyBatchService, StrategyBatchService);
+
+        // 第13层：策略插件加载器（依赖策略注册表、策略管理器和交易服务）
+        console.log('📦 注册第13层：策略插件加载器...');
+        container.registerSingleton(TYPES.StrategyPluginLoader, StrategyPluginLoader);
 
         // 旧架构组件已全部移除，新架构已就绪
 
@@ -32,6 +32,10 @@ import { createJupiterRoutes } from './routes/jupiter-routes';
 import chainPositionRoutes from './routes/chain-position-routes';
 import { createHealthRoutes } from './routes/health-routes';
 import { createPoolCrawlerRoutes } from './routes/pool-crawler-routes';
+import { createAuthRoutes } from './routes/auth-routes';
+import { createRiskBudgetRoutes } from './routes/risk-budget-routes';
+import { createEmergencyRoutes } from './routes/emergency-routes';
+import { createAuthMiddleware } from './middleware/auth-middleware';
 
 /**
  * DLMM API服务器类
@@ -104,6 +108,7 @@ export class DLMMAPIServer {
                 config: getService(TYPES.ConfigService),
                 state: getService(TYPES.StateService),
                 cache: getService(TYPES.CacheService),
+                auth: getService(TYPES.AuthService),
 
                 // 区块链服务
                 solanaWeb3: getService(TYPES.SolanaWeb3Service),
@@ -130,13 +135,24 @@ export class DLMMAPIServer {
                 strategyStorage: getService(TYPES.StrategyStorage),
                 simpleYExecutor: getService(TYPES.SimpleYExecutor),
                 chainPositionExecutor: getService(TYPES.ChainPositionExecutor),
+                dualPositionExecutor: getService(TYPES.DualPositionExecutor),
+                priceTriggerExecutor: getService(TYPES.PriceTriggerExecutor),
                 healthChecker: getService(TYPES.StrategyHealthChecker),
+                groupReporter: getService(TYPES.StrategyGroupReporter),
+                rotationController: getService(TYPES.StrategyRotationController),
+                riskBudget: getService(TYPES.RiskBudgetService),
+                killSwitch: getService(TYPES.KillSwitchService),
+                strategyBatch: getService(TYPES.StrategyBatchService),
+                pluginLoader: getService(TYPES.StrategyPluginLoader),
+                strategyWorkerPool: getService(TYPES.StrategyWorkerPool),
 
                 // 池爬虫服务（使用字符串令牌）
-                // poolCrawler: require('tsyringe').container.resolve('PoolCrawlerService'),
-                // qualifiedPoolsManager: require('tsyringe').container.resolve('QualifiedPoolsManager'),
-                // tokenFilterManager: require('tsyringe').container.resolve('TokenFilterManager'),
-                // poolPushStorageManager: require('tsyringe').container.resolve('PoolPushStorageManager')
+                poolCrawler: require('tsyringe').container.resolve('PoolCrawlerService'),
+                filterEngine: require('tsyringe').container.resolve('PoolFilterEngine'),
+                qualifiedPoolsManager: require('tsyringe').container.resolve('QualifiedPoolsManager'),
+                tokenFilterManager: require('tsyringe').container.resolve('TokenFilterManager'),
+                poolPushStorageManager: require('tsyringe').container.resolve('PoolPushStorageManager'),
+                poolStrategyLauncher: require('tsyringe').container.resolve('PoolStrategyLauncher')
             };
 
             // 立即设置logger引用，以便后续使用
@@ -190,9 +206,18 @@ export class DLMMAPIServer {
 
             await this.logger.logSystem('INFO', '✅ 所有服务初始化完成 (真实服务模式)');
 
+            // 初始化认证服务（失败时终止启动，避免API在无认证状态下暴露）
+            await this.services.auth.initialize();
+
             // 初始化策略管理器
             await this.initializeStrategyManager();
 
+            // 初始化池爬虫服务
+            await this.initializePoolCrawler();
+
+            // 启动策略轮换（依赖爬虫的池评分）
+            await this.initializeStrategyRotation();
+
             this.isInitialized = true;
 
         } catch (error) {
@@ -205,6 +230,28 @@ export class DLMMAPIServer {
         }
     }
 
+    /**
+     * 初始化池爬虫服务（失败不影响策略系统运行）
+     */
+    private async initializePoolCrawler(): Promise<void> {
+        try {
+            await this.services.poolCrawler.initialize();
+        } catch (error) {
+            await this.logger.logError('Server', '⚠️ 池爬虫服务初始化失败', error as Error);
+        }
+    }
+
+    /**
+     * 启动策略轮换控制器（失败不影响策略系统运行）
+     */
+    private async initializeStrategyRotation(): Promise<void> {
+        try {
+            await this.services.rotationController.start();
+        } catch (error) {
+            await this.logger.logError('Server', '⚠️ 策略轮换控制器启动失败', error as Error);
+        }
+    }
+
     /**
      * 初始化策略管理器
      */
@@ -228,6 +275,24 @@ export class DLMMAPIServer {
                 await this.logger.logSystem('INFO', '✅ ChainPositionExecutor注册成功 (类型: chain_position)');
             }
 
+            // ⚖️ 注册双向头寸和价格触发策略
+            const { dualPositionExecutor, priceTriggerExecutor } = this.services;
+            if (strategyRegistry && dualPositionExecutor) {
+                await strategyRegistry.register('dual-position', dualPositionExecutor);
+                await this.logger.logSystem('INFO', '✅ DualPositionExecutor注册成功 (类型: dual-position)');
+            }
+            if (strategyRegistry && priceTriggerExecutor) {
+                await strategyRegistry.register('price-trigger', priceTriggerExecutor);
+                await this.logger.logSystem('INFO', '✅ PriceTriggerExecutor注册成功 (类型: price-trigger)');
+            }
+
+            // 🔌 加载自定义策略插件 - 必须在StrategyManager初始化之前注册，已保存的插件实例才能恢复
+            try {
+                await this.services.pluginLoader.loadPlugins();
+            } catch (error) {
+                await this.logger.logError('Server', '⚠️ 策略插件加载失败，继续使用内置策略', error as Error);
+            }
+
             // 🚀 启动策略调度器 - 必须在StrategyManager初始化之前启动
             const strategyScheduler = this.services.strategyScheduler;
             if (strategyScheduler) {
@@ -249,6 +314,12 @@ export class DLMMAPIServer {
                 await this.logger.logSystem('INFO', '✅ StrategyHealthChecker启动成功');
             }
 
+            // 启动分组报告推送
+            await this.services.groupReporter.start();
+
+            // 初始化全局一键平仓（订阅Socket.IO命令）
+            await this.services.killSwitch.initialize();
+
             await this.logger.logSystem('INFO', '🎯 策略管理器初始化完成');
         } catch (error) {
             if (this.logger && typeof this.logger.logError === 'function') {
@@ -353,6 +424,10 @@ export class DLMMAPIServer {
 
         const apiRouter = express.Router();
 
+        // 认证和角色校验（公开接口在策略表中声明）
+        apiRouter.use(createAuthMiddleware(this.services.auth));
+        apiRouter.use('/auth', createAuthRoutes(this.services));
+
         // 健康检查
         apiRouter.get('/health', (req, res) => {
             const uptime = Date.now() - this.startTime;
@@ -739,6 +814,10 @@ export class DLMMAPIServer {
                             strategyType = 'simple-y';
                         } else if (instanceId.startsWith('chain_position_')) {
                             strategyType = 'chain-position';
+                        } else if (instanceId.startsWith('dual-position_')) {
+                            strategyType = 'dual-position';
+                        } else if (instanceId.startsWith('price-trigger_')) {
+                            strategyType = 'price-trigger';
                         } else {
                             strategyType = 'unknown';
                         }
@@ -922,6 +1001,8 @@ export class DLMMAPIServer {
         apiRouter.use('/monitor', createMonitorRoutes(this.services));
         apiRouter.use('/chain-position', chainPositionRoutes);
         apiRouter.use('/health-check', createHealthRoutes(this.services));
+        apiRouter.use('/risk-budget', createRiskBudgetRoutes(this.services));
+        apiRouter.use('/emergency', createEmergencyRoutes(this.services));
         apiRouter.use('/pool-crawler', createPoolCrawlerRoutes(this.services));
 
         this.app.use('/api', apiRouter);
@@ -1235,7 +1316,7 @@ export class DLMMAPIServer {
             SocketIOService.cleanupExisting(this.socketIOService);
 
             // 🔥 初始化Socket.IO服务
-            this.socketIOService = new SocketIOService(this.server, this.services.eventBus);
+            this.socketIOService = new SocketIOService(this.server, this.services.eventBus, this.services.auth);
             await this.logger.logSystem('INFO', '🔌 Socket.IO服务已初始化（已清理旧实例）');
 
             // 启动服务器（同时支持API和Socket.IO）
@@ -1288,6 +1369,25 @@ export class DLMMAPIServer {
 
 
 
+            // 停止策略轮换
+            if (this.services?.rotationController) {
+                await this.services.rotationController.stop();
+            }
+
+            if (this.services?.killSwitch) {
+                await this.services.killSwitch.shutdown();
+            }
+
+            // 关闭池爬虫服务
+            if (this.services?.poolCrawler) {
+                await this.services.poolCrawler.destroy();
+                await this.logger.logSystem('INFO', '✅ 池爬虫服务已关闭');
+            }
+
+            if (this.services?.groupReporter) {
+                await this.services.groupReporter.stop();
+            }
+
             // 关闭健康检查服务
             if (this.services?.healthChecker) {
                 await this.services.healthChecker.stop();
@@ -1,32 +1,175 @@
 /**
  * 🔐 认证中间件
  * 处理API访问认证和授权
+ *
+ * 挂载在 /api 下，req.path 为去掉 /api 前缀后的路径。
+ * 未命中策略表的请求：GET类只读请求需要viewer，其余修改请求需要operator。
+ * Express路由默认不区分大小写且忽略末尾斜杠，匹配策略前按同样规则规范化路径；
+ * 管理员接口另在各自路由上挂载 requireRole，不只依赖路径匹配。
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { AuthService } from '../../services/internal/AuthService';
+import { AuthUser, UserRole } from '../../types/auth-types';
 
-export function authMiddleware(req: Request, res: Response, next: NextFunction) {
-    // 对于健康检查等公开接口，跳过认证
-    const publicPaths = ['/api/health', '/api/info'];
+declare global {
+    namespace Express {
+        interface Request {
+            user?: AuthUser;
+        }
+    }
+}
+
+interface RoutePolicy {
+    methods?: string[];     // 不填表示所有方法
+    pattern: RegExp;
+    role: UserRole | 'public';
+}
+
+// 无需登录的接口
+const PUBLIC_POLICIES: RoutePolicy[] = [
+    { methods: ['GET'], pattern: /^\/(health|info)$/, role: 'public' },
+    { methods: ['GET'], pattern: /^\/config\/(websocket|frontend)$/, role: 'public' },
+    { methods: ['POST'], pattern: /^\/auth\/login$/, role: 'public' },
+    { methods: ['GET'], pattern: /^\/auth\/status$/, role: 'public' }
+];
+
+// 按顺序匹配，第一条命中的策略生效
+const ROUTE_POLICIES: RoutePolicy[] = [
+    ...PUBLIC_POLICIES,
+
+    // 只读查询但使用POST提交参数
+    { methods: ['POST'], pattern: /^\/positions\/[^/]+\/calculate-value$/, role: 'viewer' },
+    { methods: ['POST'], pattern: /^\/positions\/batch\/onchain$/, role: 'viewer' },
+    { methods: ['POST'], pattern: /^\/jupiter\/(prices|batch-quotes)$/, role: 'viewer' },
+    { methods: ['POST'], pattern: /^\/strategy\/[^/]+\/config\/preview$/, role: 'viewer' },
+
+    // 登录用户管理自己的账户
+    { methods: ['GET'], pattern: /^\/auth\/me$/, role: 'viewer' },
+    { methods: ['POST'], pattern: /^\/auth\/change-password$/, role: 'viewer' },
+
+    // 钱包导入/创建/删除仅限管理员（解锁和锁定属于日常操作）
+    { methods: ['POST'], pattern: /^\/wallet\/(create|import|import-by-key)$/, role: 'admin' },
+    { methods: ['DELETE'], pattern: /^\/wallet\/delete$/, role: 'admin' },
 
-    if (publicPaths.includes(req.path)) {
-        return next();
+    // 配置变更仅限管理员
+    { methods: ['PUT', 'POST', 'DELETE'], pattern: /^\/config\//, role: 'admin' },
+    { methods: ['PUT'], pattern: /^\/pool-crawler\/config$/, role: 'admin' },
+    { methods: ['POST'], pattern: /^\/pool-crawler\/data\/(clear|import)$/, role: 'admin' },
+    { methods: ['PUT'], pattern: /^\/health-check\/config$/, role: 'admin' },
+    { methods: ['PUT'], pattern: /^\/strategy\/rotation\/config$/, role: 'admin' },
+    { methods: ['PUT'], pattern: /^\/risk-budget\/config$/, role: 'admin' },
+    { methods: ['POST'], pattern: /^\/logs\/clear$/, role: 'admin' },
+
+    // 用户管理
+    { pattern: /^\/auth\/users(\/|$)/, role: 'admin' }
+];
+
+const READ_ONLY_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * 按Express的路由匹配规则规范化路径（小写、去掉末尾斜杠）
+ */
+function normalizePath(path: string): string {
+    return path.toLowerCase().replace(/\/+$/, '') || '/';
+}
+
+/**
+ * 查找请求需要的最低角色
+ */
+export function resolveRequiredRole(method: string, path: string): UserRole | 'public' {
+    const normalizedPath = normalizePath(path);
+    const policy = ROUTE_POLICIES.find(item =>
+        (!item.methods || item.methods.includes(method)) && item.pattern.test(normalizedPath)
+    );
+    if (policy) {
+        return policy.role;
     }
+    return READ_ONLY_METHODS.includes(method) ? 'viewer' : 'operator';
+}
+
+/**
+ * 从 Authorization: Bearer <token> 中提取令牌
+ */
+export function extractBearerToken(req: Request): string | null {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        return null;
+    }
+    return authHeader.substring(7).trim() || null;
+}
+
+export function createAuthMiddleware(authService: AuthService) {
+    return function authMiddleware(req: Request, res: Response, next: NextFunction) {
+        const requiredRole = resolveRequiredRole(req.method, req.path);
+
+        // 认证关闭时（仅限本地开发）所有请求按管理员处理
+        if (!authService.isEnabled()) {
+            return next();
+        }
 
-    // 这里可以添加JWT token验证逻辑
-    // 目前暂时跳过认证，因为是本地开发环境
+        const token = extractBearerToken(req);
+        if (token) {
+            try {
+                req.user = authService.verifyToken(token);
+            } catch (error) {
+                if (requiredRole !== 'public') {
+                    return res.status(401).json({
+                        success: false,
+                        error: (error as Error).message,
+                        code: 'INVALID_AUTH_TOKEN'
+                    });
+                }
+            }
+        }
 
-    // const authHeader = req.headers.authorization;
-    // if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    //     return res.status(401).json({
-    //         success: false,
-    //         error: '缺少认证token',
-    //         code: 'MISSING_AUTH_TOKEN'
-    //     });
-    // }
+        if (requiredRole === 'public') {
+            return next();
+        }
+
+        if (!req.user) {
+            return rejectMissingUser(res);
+        }
+
+        if (!authService.hasRole(req.user.role, requiredRole)) {
+            return rejectInsufficientRole(res, requiredRole);
+        }
+
+        next();
+    };
+}
+
+/**
+ * 路由级角色校验，挂载在具体接口上，与全局策略表互为兜底
+ */
+export function requireRole(authService: AuthService, role: UserRole) {
+    return function roleMiddleware(req: Request, res: Response, next: NextFunction) {
+        if (!authService.isEnabled()) {
+            return next();
+        }
+        if (!req.user) {
+            return rejectMissingUser(res);
+        }
+        if (!authService.hasRole(req.user.role, role)) {
+            return rejectInsufficientRole(res, role);
+        }
+        next();
+    };
+}
 
-    // const token = authHeader.substring(7);
-    // 验证token逻辑...
+function rejectMissingUser(res: Response) {
+    return res.status(401).json({
+        success: false,
+        error: '缺少认证token',
+        code: 'MISSING_AUTH_TOKEN'
+    });
+}
 
-    next();
-} 
\ No newline at end of file
+function rejectInsufficientRole(res: Response, requiredRole: UserRole) {
+    return res.status(403).json({
+        success: false,
+        error: `权限不足: 需要${requiredRole}角色`,
+        code: 'INSUFFICIENT_ROLE',
+        requiredRole
+    });
+}
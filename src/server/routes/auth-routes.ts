@@ -0,0 +1,166 @@
+/**
+ * 🔐 认证API路由
+ */
+
+import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import { AuthService } from '../../services/internal/AuthService';
+import { requireRole } from '../middleware/auth-middleware';
+
+export function createAuthRoutes(services: { auth: AuthService }) {
+    const router = Router();
+
+    // 登录接口单独限流，防止暴力破解
+    const loginLimiter = rateLimit({
+        windowMs: 15 * 60 * 1000,
+        max: 20,
+        message: { success: false, error: '登录尝试过于频繁，请稍后再试', code: 'LOGIN_RATE_LIMITED' }
+    });
+
+    // 🔍 认证是否启用（前端据此决定是否显示登录框）
+    router.get('/status', (req, res) => {
+        res.json({
+            success: true,
+            data: {
+                enabled: services.auth.isEnabled(),
+                ...(req.user && { user: req.user })
+            }
+        });
+    });
+
+    // 🔑 登录
+    router.post('/login', loginLimiter, async (req, res) => {
+        try {
+            const { username, password } = req.body || {};
+            if (typeof username !== 'string' || typeof password !== 'string') {
+                return res.status(400).json({
+                    success: false,
+                    error: '缺少用户名或密码',
+                    code: 'MISSING_CREDENTIALS'
+                });
+            }
+
+            const result = await services.auth.login(username, password);
+            return res.json({
+                success: true,
+                data: result
+            });
+        } catch (error: any) {
+            return res.status(401).json({
+                success: false,
+                error: error.message,
+                code: 'LOGIN_FAILED'
+            });
+        }
+    });
+
+    // 👤 当前用户
+    router.get('/me', (req, res) => {
+        if (!req.user) {
+            return res.status(400).json({
+                success: false,
+                error: '认证未启用',
+                code: 'AUTH_DISABLED'
+            });
+        }
+        return res.json({
+            success: true,
+            data: req.user
+        });
+    });
+
+    // 🔑 修改自己的密码（成功后需要重新登录）
+    router.post('/change-password', async (req, res) => {
+        try {
+            if (!req.user) {
+                return res.status(400).json({
+                    success: false,
+                    error: '认证未启用',
+                    code: 'AUTH_DISABLED'
+                });
+            }
+
+            const { currentPassword, newPassword } = req.body || {};
+            await services.auth.changePassword(req.user.username, currentPassword, newPassword);
+            return res.json({
+                success: true,
+                message: '密码已修改，请重新登录'
+            });
+        } catch (error: any) {
+            return res.status(400).json({
+                success: false,
+                error: error.message,
+                code: 'CHANGE_PASSWORD_ERROR'
+            });
+        }
+    });
+
+    const adminOnly = requireRole(services.auth, 'admin');
+
+    // 👥 用户列表
+    router.get('/users', adminOnly, (req, res) => {
+        res.json({
+            success: true,
+            data: services.auth.listUsers()
+        });
+    });
+
+    // ➕ 创建用户
+    router.post('/users', adminOnly, async (req, res) => {
+        try {
+            const { username, password, role } = req.body || {};
+            const user = await services.auth.createUser(username, password, role || 'viewer');
+            res.json({
+                success: true,
+                data: user
+            });
+        } catch (error: any) {
+            res.status(400).json({
+                success: false,
+                error: error.message,
+                code: 'CREATE_USER_ERROR'
+            });
+        }
+    });
+
+    // ✏️ 修改用户角色、禁用状态或重置密码
+    router.put('/users/:username', adminOnly, async (req, res) => {
+        try {
+            const { role, disabled, password } = req.body || {};
+            const user = await services.auth.updateUser(req.params.username, {
+                ...(role !== undefined && { role }),
+                ...(disabled !== undefined && { disabled: Boolean(disabled) }),
+                ...(password !== undefined && { password })
+            });
+            res.json({
+                success: true,
+                data: user
+            });
+        } catch (error: any) {
+            res.status(400).json({
+                success: false,
+                error: error.message,
+                code: 'UPDATE_USER_ERROR'
+            });
+        }
+    });
+
+    // 🗑️ 删除用户
+    router.delete('/users/:username', adminOnly, async (req, res) => {
+        try {
+            await services.auth.deleteUser(req.params.username);
+            res.json({
+                success: true,
+                message: `用户已删除: ${req.params.username}`
+            });
+        } catch (error: any) {
+            res.status(400).json({
+                success: false,
+                error: error.message,
+                code: 'DELETE_USER_ERROR'
+            });
+        }
+    });
+
+    return router;
+}
@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import { container } from 'tsyringe';
 import { ChainPositionManager, ChainPositionParams } from '../../services/business/ChainPositionManager';
 import { ILoggerService, TYPES } from '../../types/interfaces';
+import { RiskBudgetService } from '../../services/strategy/RiskBudgetService';
+import { ChainPositionGeometry, validateChainPositionGeometry } from '../../services/business/ChainPositionGeometry';
 
 /**
  * 连锁头寸API路由
@@ -24,7 +26,8 @@ const router = Router();
  *   "poolAddress": "string",     // 池地址
  *   "totalAmount": number,       // 总金额
  *   "slippageBps": number,       // 滑点 (可选, 默认800 = 8%)
- *   "password": "string"         // 钱包密码 (可选)
+ *   "password": "string",        // 钱包密码 (可选)
+ *   "geometry": object           // 连锁头寸几何 (可选, 默认两个69-bin头寸)
  * }
  */
 router.post('/create', async (req: Request, res: Response) => {
@@ -39,7 +42,7 @@ router.post('/create', async (req: Request, res: Response) => {
         });
 
         // 参数验证
-        const { poolAddress, totalAmount, slippageBps, password } = req.body;
+        const { poolAddress, totalAmount, slippageBps, password, geometry } = req.body;
 
         if (!poolAddress || typeof poolAddress !== 'string') {
             return res.status(400).json({
@@ -67,12 +70,46 @@ router.post('/create', async (req: Request, res: Response) => {
             });
         }
 
+        const geometryErrors = geometry !== undefined ? validateChainPositionGeometry(geometry) : [];
+        if (geometryErrors.length > 0) {
+            return res.status(400).json({
+                success: false,
+                error: `连锁头寸几何配置无效: ${geometryErrors.join('; ')}`,
+                code: 'INVALID_GEOMETRY',
+                data: null,
+                meta: {
+                    timestamp: new Date().toISOString(),
+                    requestId: req.headers['x-request-id'] || 'unknown',
+                    version: '2.0.0'
+                }
+            });
+        }
+
+        // 🛡️ 风险预算检查
+        const riskBudget = container.resolve<RiskBudgetService>(TYPES.RiskBudgetService);
+        try {
+            await riskBudget.assertCanDeploy({ poolAddress, amount: totalAmount });
+        } catch (error) {
+            return res.status(400).json({
+                success: false,
+                error: (error as Error).message,
+                code: 'RISK_BUDGET_EXCEEDED',
+                data: null,
+                meta: {
+                    timestamp: new Date().toISOString(),
+                    requestId: req.headers['x-request-id'] || 'unknown',
+                    version: '2.0.0'
+                }
+            });
+        }
+
         // 构建连锁头寸参数
         const chainPositionParams: ChainPositionParams = {
             poolAddress,
             totalAmount,
             slippageBps: slippageBps || 800,
-            password
+            password,
+            ...(geometry !== undefined && { geometry: geometry as ChainPositionGeometry })
         };
 
         // 创建连锁头寸
@@ -80,22 +117,25 @@ router.post('/create', async (req: Request, res: Response) => {
 
         if (result.success) {
             await logger.logBusinessOperation('✅ 连锁头寸创建成功', {
-                position1Address: result.position1Address,
-                position2Address: result.position2Address,
-                totalBinRange: result.totalBinRange,
-                fundingAllocation: result.fundingAllocation
+                positionAddresses: result.positionAddresses,
+                totalBinRange: result.totalBinRange
             });
 
+            // 每个分段按各自分配的Y资金（X分段为兑换前的Y数量）占用风险预算，分别在关闭时释放
+            for (const segment of result.segments || []) {
+                await riskBudget.commitPosition(segment.positionAddress, { poolAddress, amount: segment.amount + segment.topUpAmount });
+            }
+
             return res.json({
                 success: true,
                 data: {
+                    positionAddresses: result.positionAddresses,
                     position1Address: result.position1Address,
                     position2Address: result.position2Address,
-                    position1Signature: result.position1Signature,
-                    position2BaseSignature: result.position2BaseSignature,
-                    position2CurveSignature: result.position2CurveSignature,
+                    segments: result.segments,
                     totalBinRange: result.totalBinRange,
-                    fundingAllocation: result.fundingAllocation,
+                    monitoredRange: result.monitoredRange,
+                    swapSignature: result.swapSignature,
                     gasUsed: result.gasUsed
                 },
                 meta: {
@@ -141,6 +181,9 @@ router.post('/create', async (req: Request, res: Response) => {
  * 
  * 路径参数：
  * - poolAddress: 池地址
+ *
+ * 查询参数：
+ * - geometry: 连锁头寸几何 JSON (可选, 默认两个69-bin头寸)
  */
 router.get('/calculate-ranges/:poolAddress', async (req: Request, res: Response) => {
     const logger = container.resolve<ILoggerService>(TYPES.LoggerService);
@@ -167,12 +210,35 @@ router.get('/calculate-ranges/:poolAddress', async (req: Request, res: Response)
             });
         }
 
-        const ranges = await chainPositionManager.calculateChainPositionRanges(poolAddress);
+        let geometry: ChainPositionGeometry | undefined;
+        if (typeof req.query.geometry === 'string') {
+            let geometryErrors: string[];
+            try {
+                geometry = JSON.parse(req.query.geometry);
+                geometryErrors = validateChainPositionGeometry(geometry);
+            } catch {
+                geometryErrors = ['geometry 不是有效的JSON'];
+            }
+            if (geometryErrors.length > 0) {
+                return res.status(400).json({
+                    success: false,
+                    error: `连锁头寸几何配置无效: ${geometryErrors.join('; ')}`,
+                    code: 'INVALID_GEOMETRY',
+                    data: null,
+                    meta: {
+                        timestamp: new Date().toISOString(),
+                        requestId: req.headers['x-request-id'] || 'unknown',
+                        version: '2.0.0'
+                    }
+                });
+            }
+        }
+
+        const ranges = await chainPositionManager.calculateChainPositionRanges(poolAddress, geometry);
 
         await logger.logBusinessOperation('✅ 连锁头寸范围计算成功', {
             activeBin: ranges.activeBin,
-            position1Range: `[${ranges.position1Lower}, ${ranges.position1Upper}]`,
-            position2Range: `[${ranges.position2Lower}, ${ranges.position2Upper}]`,
+            segments: ranges.segments.map(segment => `${segment.side}[${segment.lowerBin}, ${segment.upperBin}]`),
             totalBins: ranges.totalBinCount
         });
 
@@ -180,21 +246,21 @@ router.get('/calculate-ranges/:poolAddress', async (req: Request, res: Response)
             success: true,
             data: {
                 activeBin: ranges.activeBin,
-                position1: {
-                    lowerBinId: ranges.position1Lower,
-                    upperBinId: ranges.position1Upper,
-                    binCount: ranges.position1Upper - ranges.position1Lower + 1
-                },
-                position2: {
-                    lowerBinId: ranges.position2Lower,
-                    upperBinId: ranges.position2Upper,
-                    binCount: ranges.position2Upper - ranges.position2Lower + 1
-                },
+                geometry: ranges.geometry,
+                segments: ranges.segments.map(segment => ({
+                    side: segment.side,
+                    lowerBinId: segment.lowerBin,
+                    upperBinId: segment.upperBin,
+                    binCount: segment.binCount,
+                    shape: segment.shape,
+                    ...(segment.topUpShape && { topUpShape: segment.topUpShape })
+                })),
                 total: {
-                    lowerBinId: ranges.position2Lower,
-                    upperBinId: ranges.position1Upper,
+                    lowerBinId: ranges.totalBinRange[0],
+                    upperBinId: ranges.totalBinRange[1],
                     binCount: ranges.totalBinCount
                 },
+                monitoredRange: ranges.monitoredRange,
                 validated: ranges.validated
             },
             meta: {
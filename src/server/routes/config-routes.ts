@@ -4,9 +4,12 @@
  */
 
 import { Router } from 'express';
+import { requireRole } from '../middleware/auth-middleware';
 
 export function createConfigRoutes(services: any) {
     const router = Router();
+    // 配置变更仅限管理员
+    const adminOnly = requireRole(services.auth, 'admin');
 
     // 获取系统配置
     router.get('/system', async (req, res) => {
@@ -33,7 +36,7 @@ export function createConfigRoutes(services: any) {
     });
 
     // 更新系统配置
-    router.put('/system', async (req, res) => {
+    router.put('/system', adminOnly, async (req, res) => {
         try {
             const config = req.body;
             // 这里应该有配置验证和保存逻辑
@@ -75,7 +78,7 @@ export function createConfigRoutes(services: any) {
     });
 
     // 更新用户设置
-    router.put('/user', async (req, res) => {
+    router.put('/user', adminOnly, async (req, res) => {
         try {
             const settings = req.body;
             // 这里应该有设置验证和保存逻辑
@@ -0,0 +1,83 @@
+/**
+ * 🚨 紧急操作API路由（全局一键平仓）
+ */
+
+import { Router } from 'express';
+import { KillSwitchService } from '../../services/strategy/KillSwitchService';
+
+export function createEmergencyRoutes(services: { killSwitch: KillSwitchService }) {
+    const router = Router();
+
+    // 📊 一键平仓状态（是否暂停新头寸、当前进度和最近一次报告）
+    router.get('/kill-switch', async (req, res) => {
+        try {
+            res.json({
+                success: true,
+                data: services.killSwitch.getStatus()
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_KILL_SWITCH_STATUS_ERROR'
+            });
+        }
+    });
+
+    // 📜 历史平仓报告
+    router.get('/kill-switch/reports', async (req, res) => {
+        try {
+            const limit = parseInt(req.query.limit as string) || 10;
+            res.json({
+                success: true,
+                data: services.killSwitch.getReports(limit)
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_KILL_SWITCH_REPORTS_ERROR'
+            });
+        }
+    });
+
+    // 🚨 触发一键平仓（立即返回，进度通过 Socket.IO emergency:kill-switch-update 推送）
+    router.post('/kill-switch', async (req, res) => {
+        try {
+            const { reason } = req.body || {};
+            const report = await services.killSwitch.engage({
+                ...(typeof reason === 'string' && reason && { reason }),
+                ...(req.user && { triggeredBy: req.user.username })
+            });
+            res.json({
+                success: true,
+                data: report
+            });
+        } catch (error: any) {
+            res.status(409).json({
+                success: false,
+                error: error.message,
+                code: 'KILL_SWITCH_ENGAGE_ERROR'
+            });
+        }
+    });
+
+    // ▶️ 解除暂停，恢复新头寸创建
+    router.post('/kill-switch/release', async (req, res) => {
+        try {
+            await services.killSwitch.release(req.user?.username);
+            res.json({
+                success: true,
+                data: services.killSwitch.getStatus()
+            });
+        } catch (error: any) {
+            res.status(409).json({
+                success: false,
+                error: error.message,
+                code: 'KILL_SWITCH_RELEASE_ERROR'
+            });
+        }
+    });
+
+    return router;
+}
@@ -11,7 +11,14 @@ const updateConfigSchema = z.object({
     intervalMinutes: z.number().min(1).max(60).optional(),
     maxRetries: z.number().min(1).max(10).optional(),
     timeout: z.number().min(1000).max(60000).optional(),
-    pages: z.number().min(1).max(10).optional()
+    pages: z.number().min(1).max(10).optional(),
+    sources: z.array(z.enum(['web', 'onchain'])).min(1).optional(),
+    onChain: z.object({
+        quoteMints: z.array(z.string()).min(1).optional(),
+        maxPools: z.number().min(1).max(200).optional(),
+        minLiquidityUsd: z.number().min(0).optional(),
+        snapshotRetentionHours: z.number().min(1).optional()
+    }).optional()
 });
 
 const updateFiltersSchema = z.object({
@@ -67,6 +74,17 @@ const updatePoolStatusSchema = z.object({
     notes: z.string().optional()
 });
 
+const launchStrategySchema = z.object({
+    strategyType: z.enum(['chain_position', 'simple-y']),
+    name: z.string().min(1).optional(),
+    mode: z.enum(['live', 'paper']).optional(),
+    positionAmount: z.number().positive().optional(),
+    binRange: z.number().int().min(1).max(69).optional(),
+    slippageBps: z.number().int().min(100).max(3000).optional(),
+    autoStart: z.boolean().optional(),
+    config: z.record(z.any()).optional()
+});
+
 export function createPoolCrawlerRoutes(services: any) {
     const router = Router();
 
@@ -473,6 +491,88 @@ export function createPoolCrawlerRoutes(services: any) {
         }
     });
 
+    // 获取从该池启动策略的推导参数
+    router.get('/pools/:poolId/launch-defaults', async (req, res) => {
+        try {
+            const { poolId } = req.params;
+            const strategyType = req.query.strategyType === 'chain_position' ? 'chain_position' : 'simple-y';
+            const defaults = await services.poolStrategyLauncher.deriveDefaults(poolId, strategyType);
+
+            res.json({
+                success: true,
+                data: defaults,
+                timestamp: Date.now()
+            });
+        } catch (error: any) {
+            res.status(error.message?.startsWith('池不存在') ? 404 : 500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_LAUNCH_DEFAULTS_ERROR'
+            });
+        }
+    });
+
+    // 从合格池启动策略
+    router.post('/pools/:poolId/launch', async (req, res) => {
+        try {
+            const { poolId } = req.params;
+            const { name, mode, positionAmount, binRange, slippageBps, autoStart, config, strategyType } = launchStrategySchema.parse(req.body);
+
+            const result = await services.poolStrategyLauncher.launch(poolId, {
+                strategyType,
+                ...(name !== undefined && { name }),
+                ...(mode !== undefined && { mode }),
+                ...(positionAmount !== undefined && { positionAmount }),
+                ...(binRange !== undefined && { binRange }),
+                ...(slippageBps !== undefined && { slippageBps }),
+                ...(autoStart !== undefined && { autoStart }),
+                ...(config !== undefined && { config })
+            });
+
+            res.json({
+                success: true,
+                message: result.started ? '策略创建并启动成功' : '策略创建成功',
+                data: result,
+                timestamp: Date.now()
+            });
+        } catch (error: any) {
+            if (error.name === 'ZodError') {
+                res.status(400).json({
+                    success: false,
+                    error: '参数验证失败',
+                    details: error.errors,
+                    code: 'VALIDATION_ERROR'
+                });
+            } else {
+                res.status(error.message?.startsWith('池不存在') ? 404 : 500).json({
+                    success: false,
+                    error: error.message,
+                    code: 'LAUNCH_STRATEGY_ERROR'
+                });
+            }
+        }
+    });
+
+    // 获取从该池启动的策略及其状态
+    router.get('/pools/:poolId/strategies', async (req, res) => {
+        try {
+            const { poolId } = req.params;
+            const strategies = await services.poolStrategyLauncher.getLinkedStrategies(poolId);
+
+            res.json({
+                success: true,
+                data: strategies,
+                timestamp: Date.now()
+            });
+        } catch (error: any) {
+            res.status(error.message?.startsWith('池不存在') ? 404 : 500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_POOL_STRATEGIES_ERROR'
+            });
+        }
+    });
+
     // ================== 配置管理API ==================
 
     // 获取爬虫配置
@@ -497,8 +597,14 @@ export function createPoolCrawlerRoutes(services: any) {
     // 更新爬虫配置
     router.put('/config', async (req, res) => {
         try {
-            const validatedData = updateConfigSchema.parse(req.body);
-            await services.poolCrawler.updateConfig(validatedData);
+            const { maxRetries, pages, ...validatedData } = updateConfigSchema.parse(req.body);
+
+            // 前端字段名映射到CrawlerConfig
+            await services.poolCrawler.updateConfig({
+                ...validatedData,
+                ...(maxRetries !== undefined && { retryCount: maxRetries }),
+                ...(pages !== undefined && { maxPages: pages })
+            });
 
             const newConfig = services.poolCrawler.getConfig();
 
@@ -224,6 +224,17 @@ export function createPositionRoutes(services: any) {
                 password
             } = req.body;
 
+            // 🛡️ 风险预算检查
+            try {
+                await services.riskBudget.assertCanDeploy({ poolAddress, amount: Number(amount), side: 'y' });
+            } catch (error: any) {
+                return res.status(400).json({
+                    success: false,
+                    error: error.message,
+                    code: 'RISK_BUDGET_EXCEEDED'
+                });
+            }
+
             // 注意：获取activeBin的逻辑已经移动到YPositionManager内部
             const result = await services.yPositionManager.createYPosition({
                 poolAddress,
@@ -237,7 +248,10 @@ export function createPositionRoutes(services: any) {
 
             // 直接返回YPositionManager的结果，避免双重嵌套
             if (result.success) {
-                res.json({
+                if (result.positionAddress) {
+                    await services.riskBudget.commitPosition(result.positionAddress, { poolAddress, amount: Number(amount), side: 'y' });
+                }
+                return res.json({
                     success: true,
                     data: {
                         positionAddress: result.positionAddress,
@@ -246,14 +260,14 @@ export function createPositionRoutes(services: any) {
                     }
                 });
             } else {
-                res.status(500).json({
+                return res.status(500).json({
                     success: false,
                     error: result.error,
                     code: 'CREATE_Y_POSITION_ERROR'
                 });
             }
         } catch (error: any) {
-            res.status(500).json({
+            return res.status(500).json({
                 success: false,
                 error: error.message,
                 code: 'CREATE_Y_POSITION_ERROR'
@@ -273,6 +287,17 @@ export function createPositionRoutes(services: any) {
                 password
             } = req.body;
 
+            // 🛡️ 风险预算检查
+            try {
+                await services.riskBudget.assertCanDeploy({ poolAddress, amount: Number(amount), side: 'x' });
+            } catch (error: any) {
+                return res.status(400).json({
+                    success: false,
+                    error: error.message,
+                    code: 'RISK_BUDGET_EXCEEDED'
+                });
+            }
+
             // 注意：获取activeBin的逻辑已经移动到XPositionManager内部
             const result = await services.xPositionManager.createXPosition({
                 poolAddress,
@@ -286,7 +311,10 @@ export function createPositionRoutes(services: any) {
 
             // 直接返回XPositionManager的结果，避免双重嵌套
             if (result.success) {
-                res.json({
+                if (result.positionAddress) {
+                    await services.riskBudget.commitPosition(result.positionAddress, { poolAddress, amount: Number(amount), side: 'x' });
+                }
+                return res.json({
                     success: true,
                     data: {
                         positionAddress: result.positionAddress,
@@ -295,14 +323,14 @@ export function createPositionRoutes(services: any) {
                     }
                 });
             } else {
-                res.status(500).json({
+                return res.status(500).json({
                     success: false,
                     error: result.error,
                     code: 'CREATE_X_POSITION_ERROR'
                 });
             }
         } catch (error: any) {
-            res.status(500).json({
+            return res.status(500).json({
                 success: false,
                 error: error.message,
                 code: 'CREATE_X_POSITION_ERROR'
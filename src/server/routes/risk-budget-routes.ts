@@ -0,0 +1,78 @@
+/**
+ * 🛡️ 风险预算API路由
+ */
+
+import { Router } from 'express';
+import { RiskBudgetService } from '../../services/strategy/RiskBudgetService';
+
+export function createRiskBudgetRoutes(services: { riskBudget: RiskBudgetService }) {
+    const router = Router();
+
+    // 📊 获取当前预算使用情况
+    router.get('/', async (req, res) => {
+        try {
+            res.json({
+                success: true,
+                data: services.riskBudget.getUtilization()
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_RISK_BUDGET_ERROR'
+            });
+        }
+    });
+
+    // 📜 获取已实现盈亏记录
+    router.get('/realized', async (req, res) => {
+        try {
+            const limit = parseInt(req.query.limit as string) || 50;
+            res.json({
+                success: true,
+                data: services.riskBudget.getRealizedHistory(limit)
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_RISK_REALIZED_ERROR'
+            });
+        }
+    });
+
+    // ⚙️ 获取预算配置
+    router.get('/config', async (req, res) => {
+        try {
+            res.json({
+                success: true,
+                data: services.riskBudget.getConfig()
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_RISK_BUDGET_CONFIG_ERROR'
+            });
+        }
+    });
+
+    // ⚙️ 更新预算配置
+    router.put('/config', async (req, res) => {
+        try {
+            const config = await services.riskBudget.updateConfig(req.body || {});
+            res.json({
+                success: true,
+                data: config
+            });
+        } catch (error: any) {
+            res.status(400).json({
+                success: false,
+                error: error.message,
+                code: 'UPDATE_RISK_BUDGET_CONFIG_ERROR'
+            });
+        }
+    });
+
+    return router;
+}
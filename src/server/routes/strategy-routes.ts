@@ -5,8 +5,23 @@
 
 import { Router } from 'express';
 import { IStrategyManager } from '../../services/strategy/StrategyManager';
+import { StrategyRotationController } from '../../services/strategy/StrategyRotationController';
+import { StrategyBatchService } from '../../services/strategy/StrategyBatchService';
+import { StrategyGroupReporter } from '../../services/strategy/StrategyGroupReporter';
+import { StrategyPluginLoader } from '../../services/strategy/StrategyPluginLoader';
+import { StrategyWorkerPool } from '../../services/strategy/isolation/StrategyWorkerPool';
+import { StrategyTriggerStatus, StrategyGroupOperation, StrategyOperationType } from '../../types/strategy';
 
-export function createStrategyRoutes(services: { strategyManager: IStrategyManager }) {
+const OPERATION_TYPES: StrategyOperationType[] = ['position_created', 'position_closed', 'swap', 'yield_extraction', 'stop_loss', 'recreation', 'roll', 'partial_exit', 'hedge'];
+
+export function createStrategyRoutes(services: {
+    strategyManager: IStrategyManager;
+    rotationController: StrategyRotationController;
+    strategyBatch: StrategyBatchService;
+    groupReporter: StrategyGroupReporter;
+    pluginLoader: StrategyPluginLoader;
+    strategyWorkerPool: StrategyWorkerPool;
+}) {
     const router = Router();
 
     // 获取所有策略
@@ -29,16 +44,30 @@ export function createStrategyRoutes(services: { strategyManager: IStrategyManag
     // 创建新策略
     router.post('/create', async (req, res) => {
         try {
-            const { type, name, config } = req.body;
+            const { type, name, config, autoResume } = req.body;
+
+            // 📋 按策略参数Schema校验配置
+            const validation = services.strategyManager.validateConfig(type, config);
+            if (!validation.valid) {
+                return res.status(400).json({
+                    success: false,
+                    error: `策略配置校验失败: ${validation.errors.join('; ')}`,
+                    errors: validation.errors,
+                    code: 'INVALID_STRATEGY_CONFIG'
+                });
+            }
 
             // 🔧 创建策略实例
             const instanceId = await services.strategyManager.createInstance(type, name, config);
+            if (autoResume === true) {
+                await services.strategyManager.setAutoResume(instanceId, true);
+            }
 
             // 🚀 创建后自动启动策略
             try {
                 await services.strategyManager.startInstance(instanceId);
 
-                res.json({
+                return res.json({
                     success: true,
                     data: {
                         instanceId,
@@ -48,7 +77,7 @@ export function createStrategyRoutes(services: { strategyManager: IStrategyManag
                 });
             } catch (startError: any) {
                 // 如果启动失败，返回创建成功但启动失败的信息
-                res.json({
+                return res.json({
                     success: true,
                     data: {
                         instanceId,
@@ -60,7 +89,7 @@ export function createStrategyRoutes(services: { strategyManager: IStrategyManag
             }
 
         } catch (error: any) {
-            res.status(500).json({
+            return res.status(500).json({
                 success: false,
                 error: error.message,
                 code: 'CREATE_STRATEGY_ERROR'
@@ -68,6 +97,460 @@ export function createStrategyRoutes(services: { strategyManager: IStrategyManag
         }
     });
 
+    // 📦 批量创建（基础配置 + 池列表/合格池筛选条件，每个池可覆盖 positionAmount、binRange）
+    router.post('/batch', async (req, res) => {
+        try {
+            const { type, name, baseConfig, pools, poolFilter, autoStart, startIntervalMs } = req.body || {};
+            if (!type || !baseConfig || typeof baseConfig !== 'object') {
+                return res.status(400).json({
+                    success: false,
+                    error: '请提供策略类型 type 和基础配置 baseConfig',
+                    code: 'INVALID_BATCH_REQUEST'
+                });
+            }
+
+            const batch = await services.strategyBatch.createBatch({
+                type,
+                baseConfig,
+                ...(name && { name }),
+                ...(Array.isArray(pools) && { pools }),
+                ...(poolFilter && { poolFilter }),
+                ...(autoStart !== undefined && { autoStart: autoStart === true }),
+                ...(startIntervalMs !== undefined && { startIntervalMs: Number(startIntervalMs) }),
+                ...(req.user && { createdBy: req.user.username })
+            });
+
+            return res.status(batch.success ? 200 : 400).json({
+                success: batch.success,
+                data: batch,
+                ...(!batch.success && { error: '批量创建失败，未保留任何实例', code: 'BATCH_CREATE_FAILED' })
+            });
+        } catch (error: any) {
+            return res.status(400).json({
+                success: false,
+                error: error.message,
+                code: 'INVALID_BATCH_REQUEST'
+            });
+        }
+    });
+
+    // 📦 最近的批量创建记录
+    router.get('/batches', async (req, res) => {
+        try {
+            const limit = parseInt(req.query.limit as string) || 20;
+            return res.json({
+                success: true,
+                data: services.strategyBatch.listBatches(limit)
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_BATCHES_ERROR'
+            });
+        }
+    });
+
+    // 📦 批量创建结果和依次启动进度
+    router.get('/batch/:batchId', async (req, res) => {
+        try {
+            const batch = services.strategyBatch.getBatch(req.params.batchId);
+            if (!batch) {
+                return res.status(404).json({
+                    success: false,
+                    error: `批次不存在: ${req.params.batchId}`,
+                    code: 'BATCH_NOT_FOUND'
+                });
+            }
+
+            return res.json({
+                success: true,
+                data: batch
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_BATCH_ERROR'
+            });
+        }
+    });
+
+    // 🗂️ 策略分组列表
+    router.get('/groups', async (req, res) => {
+        try {
+            return res.json({
+                success: true,
+                data: services.strategyManager.listGroups()
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_GROUPS_ERROR'
+            });
+        }
+    });
+
+    // 🗂️ 创建分组 { name, description?, instanceIds? }
+    router.post('/groups', async (req, res) => {
+        try {
+            const { name, description, instanceIds } = req.body || {};
+            const group = await services.strategyManager.createGroup(name, {
+                ...(description && { description }),
+                ...(instanceIds && { instanceIds })
+            });
+
+            return res.json({
+                success: true,
+                data: group
+            });
+        } catch (error: any) {
+            return res.status(400).json({
+                success: false,
+                error: error.message,
+                code: 'CREATE_GROUP_ERROR'
+            });
+        }
+    });
+
+    router.get('/groups/:groupId', async (req, res) => {
+        try {
+            const group = services.strategyManager.getGroup(req.params.groupId);
+            if (!group) {
+                return res.status(404).json({
+                    success: false,
+                    error: `策略分组不存在: ${req.params.groupId}`,
+                    code: 'GROUP_NOT_FOUND'
+                });
+            }
+
+            return res.json({
+                success: true,
+                data: group
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_GROUP_ERROR'
+            });
+        }
+    });
+
+    // 🗂️ 修改分组名称/描述
+    router.put('/groups/:groupId', async (req, res) => {
+        try {
+            const { name, description } = req.body || {};
+            const group = await services.strategyManager.updateGroup(req.params.groupId, {
+                ...(name !== undefined && { name }),
+                ...(description !== undefined && { description })
+            });
+
+            return res.json({
+                success: true,
+                data: group
+            });
+        } catch (error: any) {
+            return res.status(400).json({
+                success: false,
+                error: error.message,
+                code: 'UPDATE_GROUP_ERROR'
+            });
+        }
+    });
+
+    // 🗂️ 删除分组（不影响分组内的实例）
+    router.delete('/groups/:groupId', async (req, res) => {
+        try {
+            await services.strategyManager.deleteGroup(req.params.groupId);
+            return res.json({
+                success: true,
+                data: { groupId: req.params.groupId, status: 'deleted' }
+            });
+        } catch (error: any) {
+            return res.status(404).json({
+                success: false,
+                error: error.message,
+                code: 'DELETE_GROUP_ERROR'
+            });
+        }
+    });
+
+    // 🗂️ 添加分组成员 { instanceIds }
+    router.post('/groups/:groupId/instances', async (req, res) => {
+        try {
+            const group = await services.strategyManager.addInstancesToGroup(req.params.groupId, req.body?.instanceIds || []);
+            return res.json({
+                success: true,
+                data: group
+            });
+        } catch (error: any) {
+            return res.status(400).json({
+                success: false,
+                error: error.message,
+                code: 'ADD_GROUP_INSTANCES_ERROR'
+            });
+        }
+    });
+
+    // 🗂️ 移除分组成员
+    router.delete('/groups/:groupId/instances/:instanceId', async (req, res) => {
+        try {
+            const group = await services.strategyManager.removeInstancesFromGroup(req.params.groupId, [req.params.instanceId]);
+            return res.json({
+                success: true,
+                data: group
+            });
+        } catch (error: any) {
+            return res.status(404).json({
+                success: false,
+                error: error.message,
+                code: 'REMOVE_GROUP_INSTANCE_ERROR'
+            });
+        }
+    });
+
+    // 📊 分组汇总报告（盈亏、已提取收益、投入资金、健康状态）
+    router.get('/groups/:groupId/report', async (req, res) => {
+        try {
+            if (!services.strategyManager.getGroup(req.params.groupId)) {
+                return res.status(404).json({
+                    success: false,
+                    error: `策略分组不存在: ${req.params.groupId}`,
+                    code: 'GROUP_NOT_FOUND'
+                });
+            }
+
+            const report = await services.groupReporter.getGroupReport(req.params.groupId);
+            return res.json({
+                success: true,
+                data: report
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_GROUP_REPORT_ERROR'
+            });
+        }
+    });
+
+    // 🗂️ 分组批量操作：start / stop / pause / resume / stop-loss
+    const groupOperations: Record<string, StrategyGroupOperation> = {
+        'start': 'start',
+        'stop': 'stop',
+        'pause': 'pause',
+        'resume': 'resume',
+        'stop-loss': 'stop_loss'
+    };
+    for (const [action, operation] of Object.entries(groupOperations)) {
+        router.post(`/groups/:groupId/${action}`, async (req, res) => {
+            try {
+                if (!services.strategyManager.getGroup(req.params.groupId)) {
+                    return res.status(404).json({
+                        success: false,
+                        error: `策略分组不存在: ${req.params.groupId}`,
+                        code: 'GROUP_NOT_FOUND'
+                    });
+                }
+
+                const result = await services.strategyManager.executeGroupOperation(req.params.groupId, operation);
+                return res.json({
+                    success: result.failed === 0,
+                    data: result
+                });
+            } catch (error: any) {
+                return res.status(500).json({
+                    success: false,
+                    error: error.message,
+                    code: 'GROUP_OPERATION_ERROR'
+                });
+            }
+        });
+    }
+
+    // 🔌 已加载的策略插件（含加载失败原因）
+    router.get('/plugins', async (req, res) => {
+        try {
+            return res.json({
+                success: true,
+                data: services.pluginLoader.getPlugins()
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_PLUGINS_ERROR'
+            });
+        }
+    });
+
+    // 🧵 策略工作线程状态（隔离模式、每个线程上的实例和心跳延迟）
+    router.get('/workers', async (req, res) => {
+        try {
+            const config = services.strategyWorkerPool.getConfig();
+            return res.json({
+                success: true,
+                data: {
+                    mode: config.mode,
+                    shardSize: config.shardSize,
+                    strategyTypes: config.strategyTypes,
+                    workers: services.strategyWorkerPool.getWorkers()
+                }
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_STRATEGY_WORKERS_ERROR'
+            });
+        }
+    });
+
+    // 🔓 最近一轮钱包解锁自动恢复的报告（进度通过 Socket.IO strategy:auto-resume 推送）
+    router.get('/auto-resume', async (req, res) => {
+        try {
+            return res.json({
+                success: true,
+                data: services.strategyManager.getAutoResumeReport()
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_AUTO_RESUME_ERROR'
+            });
+        }
+    });
+
+    // 🔄 获取策略轮换状态（差距跟踪、24小时额度和轮换历史）
+    router.get('/rotation/status', async (req, res) => {
+        try {
+            res.json({
+                success: true,
+                data: {
+                    config: services.rotationController.getConfig(),
+                    ...services.rotationController.getStatus()
+                }
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_ROTATION_STATUS_ERROR'
+            });
+        }
+    });
+
+    // 🔄 更新策略轮换配置
+    router.put('/rotation/config', async (req, res) => {
+        try {
+            await services.rotationController.updateConfig(req.body || {});
+
+            res.json({
+                success: true,
+                data: services.rotationController.getConfig()
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'UPDATE_ROTATION_CONFIG_ERROR'
+            });
+        }
+    });
+
+    // ⏰ 触发器列表（可按 instanceId、status 过滤）
+    router.get('/triggers', async (req, res) => {
+        try {
+            const instanceId = req.query.instanceId as string | undefined;
+            const status = req.query.status as StrategyTriggerStatus | undefined;
+            const triggers = services.strategyManager.listTriggers({
+                ...(instanceId && { instanceId }),
+                ...(status && { status })
+            });
+
+            return res.json({
+                success: true,
+                data: triggers
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_TRIGGERS_ERROR'
+            });
+        }
+    });
+
+    // ⏰ 取消待触发的触发器
+    router.delete('/triggers/:triggerId', async (req, res) => {
+        try {
+            const trigger = await services.strategyManager.cancelTrigger(req.params.triggerId);
+            return res.json({
+                success: true,
+                data: trigger
+            });
+        } catch (error: any) {
+            return res.status(409).json({
+                success: false,
+                error: error.message,
+                code: 'CANCEL_TRIGGER_ERROR'
+            });
+        }
+    });
+
+    // ⏰ 实例的触发器
+    router.get('/:instanceId/triggers', async (req, res) => {
+        try {
+            const { instanceId } = req.params;
+            return res.json({
+                success: true,
+                data: services.strategyManager.listTriggers({ instanceId })
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_TRIGGERS_ERROR'
+            });
+        }
+    });
+
+    // ⏰ 为实例添加触发器（time / cron / price / after_instance）
+    router.post('/:instanceId/triggers', async (req, res) => {
+        try {
+            const { instanceId } = req.params;
+            const { action, condition } = req.body || {};
+
+            if (!services.strategyManager.getInstance(instanceId)) {
+                return res.status(404).json({
+                    success: false,
+                    error: `策略实例不存在: ${instanceId}`,
+                    code: 'STRATEGY_NOT_FOUND'
+                });
+            }
+
+            const trigger = await services.strategyManager.addTrigger({
+                instanceId,
+                action,
+                condition,
+                ...(req.user && { createdBy: req.user.username })
+            });
+            return res.json({
+                success: true,
+                data: trigger
+            });
+        } catch (error: any) {
+            return res.status(400).json({
+                success: false,
+                error: error.message,
+                code: 'INVALID_TRIGGER'
+            });
+        }
+    });
+
     // 启动策略
     router.post('/:instanceId/start', async (req, res) => {
         try {
@@ -168,10 +651,11 @@ export function createStrategyRoutes(services: { strategyManager: IStrategyManag
         try {
             const { instanceId } = req.params;
             const status = services.strategyManager.getInstanceStatus(instanceId);
+            const performance = status ? await services.strategyManager.getPerformance(instanceId) : null;
 
             res.json({
                 success: true,
-                data: { instanceId, status }
+                data: { instanceId, status, performance }
             });
         } catch (error: any) {
             res.status(500).json({
@@ -182,6 +666,114 @@ export function createStrategyRoutes(services: { strategyManager: IStrategyManag
         }
     });
 
+    // 📝 获取模拟盘虚拟账户
+    router.get('/:instanceId/paper-account', async (req, res) => {
+        try {
+            const { instanceId } = req.params;
+            const account = await services.strategyManager.getPaperAccount(instanceId);
+
+            res.json({
+                success: true,
+                data: account
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_PAPER_ACCOUNT_ERROR'
+            });
+        }
+    });
+
+    // 📓 获取策略实例事件日志（状态变化、链上操作、崩溃恢复记录）
+    router.get('/:instanceId/journal', async (req, res) => {
+        try {
+            const { instanceId } = req.params;
+            const limit = parseInt(req.query.limit as string) || 100;
+            const entries = await services.strategyManager.getJournal(instanceId, limit);
+
+            res.json({
+                success: true,
+                data: entries
+            });
+        } catch (error: any) {
+            res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_STRATEGY_JOURNAL_ERROR'
+            });
+        }
+    });
+
+    // 📜 分页获取策略实例操作历史（创建/关闭头寸、兑换、收益提取、止损、重建）
+    router.get('/:instanceId/history', async (req, res) => {
+        try {
+            const { instanceId } = req.params;
+            const type = req.query.type as string | undefined;
+            if (type && !OPERATION_TYPES.includes(type as StrategyOperationType)) {
+                return res.status(400).json({
+                    success: false,
+                    error: `不支持的操作类型: ${type}`,
+                    code: 'INVALID_OPERATION_TYPE'
+                });
+            }
+
+            const history = await services.strategyManager.getOperationHistory(instanceId, {
+                page: parseInt(req.query.page as string) || 1,
+                pageSize: parseInt(req.query.pageSize as string) || 50,
+                ...(type && { type: type as StrategyOperationType })
+            });
+
+            return res.json({
+                success: true,
+                data: history
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_STRATEGY_HISTORY_ERROR'
+            });
+        }
+    });
+
+    // 🧬 克隆策略（默认克隆到同一个池，也可指定池列表/合格池筛选条件）
+    router.post('/:instanceId/clone', async (req, res) => {
+        try {
+            const { instanceId } = req.params;
+            if (!services.strategyManager.getInstance(instanceId)) {
+                return res.status(404).json({
+                    success: false,
+                    error: `策略实例不存在: ${instanceId}`,
+                    code: 'STRATEGY_NOT_FOUND'
+                });
+            }
+
+            const { name, overrides, pools, poolFilter, autoStart, startIntervalMs } = req.body || {};
+            const batch = await services.strategyBatch.cloneInstance(instanceId, {
+                ...(name && { name }),
+                ...(overrides && typeof overrides === 'object' && { overrides }),
+                ...(Array.isArray(pools) && { pools }),
+                ...(poolFilter && { poolFilter }),
+                ...(autoStart !== undefined && { autoStart: autoStart === true }),
+                ...(startIntervalMs !== undefined && { startIntervalMs: Number(startIntervalMs) }),
+                ...(req.user && { createdBy: req.user.username })
+            });
+
+            return res.status(batch.success ? 200 : 400).json({
+                success: batch.success,
+                data: batch,
+                ...(!batch.success && { error: '克隆失败，未保留任何实例', code: 'CLONE_STRATEGY_FAILED' })
+            });
+        } catch (error: any) {
+            return res.status(400).json({
+                success: false,
+                error: error.message,
+                code: 'CLONE_STRATEGY_ERROR'
+            });
+        }
+    });
+
     // 删除策略
     router.delete('/:instanceId', async (req, res) => {
         try {
@@ -201,28 +793,84 @@ export function createStrategyRoutes(services: { strategyManager: IStrategyManag
         }
     });
 
-    // 更新策略配置
+    // 🔓 设置实例是否在钱包解锁后自动恢复
+    router.put('/:instanceId/auto-resume', async (req, res) => {
+        try {
+            const { instanceId } = req.params;
+            if (!services.strategyManager.getInstance(instanceId)) {
+                return res.status(404).json({
+                    success: false,
+                    error: `策略实例不存在: ${instanceId}`,
+                    code: 'STRATEGY_NOT_FOUND'
+                });
+            }
+
+            const { enabled } = req.body || {};
+            if (typeof enabled !== 'boolean') {
+                return res.status(400).json({
+                    success: false,
+                    error: 'enabled 必须是布尔值',
+                    code: 'INVALID_AUTO_RESUME'
+                });
+            }
+
+            const instance = await services.strategyManager.setAutoResume(instanceId, enabled);
+            return res.json({
+                success: true,
+                data: { instanceId, autoResume: !!instance.autoResume, autoResumePending: !!instance.autoResumePending }
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'SET_AUTO_RESUME_ERROR'
+            });
+        }
+    });
+
+    // 更新策略配置（已停止的实例可修改任意字段；运行中/暂停的实例只能修改可热更新的字段）
     router.put('/:instanceId/config', async (req, res) => {
         try {
             const { instanceId } = req.params;
             const config = req.body;
 
-            // 检查策略是否存在且已停止
-            const status = services.strategyManager.getInstanceStatus(instanceId);
-            if (status !== 'stopped') {
+            const instance = services.strategyManager.getInstance(instanceId);
+            if (!instance) {
+                return res.status(404).json({
+                    success: false,
+                    error: `策略实例不存在: ${instanceId}`,
+                    code: 'STRATEGY_NOT_FOUND'
+                });
+            }
+
+            // 📋 校验合并后的完整配置
+            const validation = services.strategyManager.validateConfig(instance.type, { ...instance.config, ...config });
+            if (!validation.valid) {
                 return res.status(400).json({
                     success: false,
-                    error: '只能编辑已停止的策略配置',
-                    code: 'STRATEGY_NOT_STOPPED'
+                    error: `策略配置校验失败: ${validation.errors.join('; ')}`,
+                    errors: validation.errors,
+                    code: 'INVALID_STRATEGY_CONFIG'
                 });
             }
 
-            // 更新配置
-            await services.strategyManager.updateInstanceConfig(instanceId, config);
+            // 🔥 运行中的实例：存在需要重启的字段时拒绝更新
+            const changes = services.strategyManager.previewConfigUpdate(instanceId, config);
+            const restartRequired = changes.filter(change => !change.hot);
+            if ((instance.status === 'running' || instance.status === 'paused') && restartRequired.length > 0) {
+                return res.status(409).json({
+                    success: false,
+                    error: `以下配置需要停止策略后才能修改: ${restartRequired.map(change => change.path).join(', ')}`,
+                    data: { changes },
+                    code: 'CONFIG_RESTART_REQUIRED'
+                });
+            }
+
+            const result = await services.strategyManager.updateInstanceConfig(instanceId, config, req.user?.username);
 
             return res.json({
                 success: true,
-                data: { instanceId, status: 'config_updated' }
+                data: { ...result, status: 'config_updated' }
             });
         } catch (error: any) {
             return res.status(500).json({
@@ -233,27 +881,73 @@ export function createStrategyRoutes(services: { strategyManager: IStrategyManag
         }
     });
 
+    // 🔍 预览配置更新：返回字段级差异及每个字段是否可热更新
+    router.post('/:instanceId/config/preview', async (req, res) => {
+        try {
+            const { instanceId } = req.params;
+            return res.json({
+                success: true,
+                data: { changes: services.strategyManager.previewConfigUpdate(instanceId, req.body) }
+            });
+        } catch (error: any) {
+            return res.status(404).json({
+                success: false,
+                error: error.message,
+                code: 'PREVIEW_CONFIG_ERROR'
+            });
+        }
+    });
+
+    // 🗂️ 配置版本历史
+    router.get('/:instanceId/config/versions', async (req, res) => {
+        try {
+            const { instanceId } = req.params;
+            const versions = await services.strategyManager.getConfigVersions(instanceId);
+            return res.json({
+                success: true,
+                data: versions
+            });
+        } catch (error: any) {
+            return res.status(500).json({
+                success: false,
+                error: error.message,
+                code: 'GET_CONFIG_VERSIONS_ERROR'
+            });
+        }
+    });
+
+    // ⏪ 回滚到指定配置版本
+    router.post('/:instanceId/config/rollback', async (req, res) => {
+        try {
+            const { instanceId } = req.params;
+            const version = Number(req.body?.version);
+            if (!Number.isInteger(version) || version < 1) {
+                return res.status(400).json({
+                    success: false,
+                    error: '请提供要回滚的配置版本号',
+                    code: 'INVALID_CONFIG_VERSION'
+                });
+            }
+
+            const result = await services.strategyManager.rollbackConfig(instanceId, version, req.user?.username);
+            return res.json({
+                success: true,
+                data: { ...result, status: 'config_rolled_back' }
+            });
+        } catch (error: any) {
+            return res.status(409).json({
+                success: false,
+                error: error.message,
+                code: 'ROLLBACK_CONFIG_ERROR'
+            });
+        }
+    });
+
     // 获取策略模板
     router.get('/templates', async (req, res) => {
         try {
-            // 返回支持的策略类型模板
-            const templates = [
-                {
-                    id: 'simple-y',
-                    name: '简单Y头寸策略',
-                    description: '在指定价格范围内建立Y头寸的策略',
-                    version: '1.0.0',
-                    parameters: [
-                        { name: 'poolAddress', type: 'string', required: true, description: '池子地址' },
-                        { name: 'yAmount', type: 'number', required: true, description: 'Y代币投入金额' },
-                        { name: 'binRange', type: 'number', required: false, default: 69, description: 'Bin范围(1-69)' },
-                        { name: 'stopLossCount', type: 'number', required: false, default: 1, description: '止损触发次数' },
-                        { name: 'stopLossBinOffset', type: 'number', required: false, default: 35, description: '止损Bin偏移' },
-                        { name: 'upwardTimeout', type: 'number', required: false, default: 300, description: '向上超时时间(秒)' },
-                        { name: 'downwardTimeout', type: 'number', required: false, default: 60, description: '向下超时时间(秒)' }
-                    ]
-                }
-            ];
+            // 模板由各执行器声明的参数Schema生成，与创建/更新时的校验规则一致
+            const templates = services.strategyManager.getTemplates();
 
             res.json({
                 success: true,
@@ -5,6 +5,7 @@
 
 import { Router } from 'express';
 import { z } from 'zod';
+import { requireRole } from '../middleware/auth-middleware';
 
 // 验证schemas
 const createWalletSchema = z.object({
@@ -28,6 +29,8 @@ const importByKeySchema = z.object({
 
 export function createWalletRoutes(services: any) {
     const router = Router();
+    // 钱包创建/导入/删除仅限管理员
+    const adminOnly = requireRole(services.auth, 'admin');
 
     // 获取钱包信息
     router.get('/info', async (req, res) => {
@@ -47,7 +50,7 @@ export function createWalletRoutes(services: any) {
     });
 
     // 创建新钱包
-    router.post('/create', async (req, res) => {
+    router.post('/create', adminOnly, async (req, res) => {
         try {
             const validatedData = createWalletSchema.parse(req.body);
 
@@ -83,7 +86,7 @@ export function createWalletRoutes(services: any) {
     });
 
     // 导入钱包
-    router.post('/import', async (req, res) => {
+    router.post('/import', adminOnly, async (req, res) => {
         try {
             const validatedData = importWalletSchema.parse(req.body);
 
@@ -118,7 +121,7 @@ export function createWalletRoutes(services: any) {
     });
 
     // 通过私钥导入钱包
-    router.post('/import-by-key', async (req, res) => {
+    router.post('/import-by-key', adminOnly, async (req, res) => {
         try {
             const validatedData = importByKeySchema.parse(req.body);
 
@@ -255,7 +258,7 @@ export function createWalletRoutes(services: any) {
     });
 
     // 删除钱包
-    router.delete('/delete', async (req, res) => {
+    router.delete('/delete', adminOnly, async (req, res) => {
         try {
             const { password } = req.body;
 
@@ -1,14 +1,18 @@
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HttpServer } from 'http';
 import { EventBus } from '../infrastructure/EventBus';
+import { AuthService } from '../services/internal/AuthService';
+import { UserRole } from '../types/auth-types';
 
 export class SocketIOService {
     private io: SocketIOServer;
     private eventBus: EventBus;
+    private authService: AuthService;
     private eventBusSubscriptions: string[] = []; // 🔧 修复：跟踪EventBus订阅ID
 
-    constructor(httpServer: HttpServer, eventBus: EventBus) {
+    constructor(httpServer: HttpServer, eventBus: EventBus, authService: AuthService) {
         this.eventBus = eventBus;
+        this.authService = authService;
 
         // 初始化Socket.IO服务器
         this.io = new SocketIOServer(httpServer, {
@@ -26,10 +30,83 @@ export class SocketIOService {
             (this.eventBus as any).setMaxListeners(50);
         }
 
+        this.setupAuthentication();
         this.setupEventHandlers();
         this.bindEventBusListeners();
     }
 
+    /**
+     * 🔐 连接握手时校验JWT（与REST API使用同一令牌，客户端通过 auth.token 传入）
+     */
+    private setupAuthentication() {
+        this.io.use((socket, next) => {
+            if (!this.authService.isEnabled()) {
+                return next();
+            }
+
+            const token = this.getHandshakeToken(socket);
+            if (!token) {
+                return next(new Error('缺少认证token'));
+            }
+
+            try {
+                socket.data.user = this.authService.verifyToken(token);
+                next();
+            } catch (error) {
+                next(new Error((error as Error).message));
+            }
+        });
+    }
+
+    private getHandshakeToken(socket: Socket): string | null {
+        const authToken = socket.handshake.auth?.token;
+        if (typeof authToken === 'string' && authToken) {
+            return authToken;
+        }
+        const header = socket.handshake.headers.authorization;
+        return header && header.startsWith('Bearer ') ? header.substring(7).trim() || null : null;
+    }
+
+    /**
+     * 控制命令的角色校验（重新校验令牌，账户被禁用或修改密码后立即失去控制权限）
+     */
+    private authorizeCommand(
+        socket: Socket,
+        command: string,
+        requiredRole: UserRole,
+        responseEvent: string = 'pool-crawler:command-response'
+    ): boolean {
+        if (!this.authService.isEnabled()) {
+            return true;
+        }
+
+        try {
+            const token = this.getHandshakeToken(socket);
+            const user = this.authService.verifyToken(token || '');
+            socket.data.user = user;
+            if (this.authService.hasRole(user.role, requiredRole)) {
+                return true;
+            }
+        } catch (error) {
+            socket.emit(responseEvent, {
+                success: false,
+                command,
+                message: `认证失败: ${(error as Error).message}`,
+                timestamp: Date.now()
+            });
+            socket.disconnect(true);
+            return false;
+        }
+
+        socket.emit(responseEvent, {
+            success: false,
+            command,
+            message: `权限不足: 需要${requiredRole}角色`,
+            timestamp: Date.now()
+        });
+        return false;
+    }
+
     private setupEventHandlers() {
         this.io.on('connection', (socket) => {
             console.log(`🔌 Socket.IO客户端连接: ${socket.id}`);
@@ -56,6 +133,34 @@ export class SocketIOService {
                 socket.leave('strategy-monitor');
             });
 
+            // 🗂️ 客户端订阅策略分组（每个分组一个房间）
+            socket.on('subscribe:strategy-group', (data) => {
+                const groupId = data?.groupId;
+                if (typeof groupId !== 'string' || !groupId) {
+                    socket.emit('subscribed:strategy-group', {
+                        success: false,
+                        message: '缺少分组ID',
+                        timestamp: Date.now()
+                    });
+                    return;
+                }
+
+                console.log(`🗂️ 客户端订阅策略分组: ${groupId} (${socket.id})`);
+                socket.join(`strategy-group:${groupId}`);
+                socket.emit('subscribed:strategy-group', {
+                    success: true,
+                    groupId,
+                    message: '成功订阅策略分组',
+                    timestamp: Date.now()
+                });
+            });
+
+            socket.on('unsubscribe:strategy-group', (data) => {
+                if (typeof data?.groupId !== 'string') return;
+                console.log(`🗂️ 客户端取消订阅策略分组: ${data.groupId} (${socket.id})`);
+                socket.leave(`strategy-group:${data.groupId}`);
+            });
+
             // 🔥 客户端订阅池爬虫监控
             socket.on('subscribe:pool-crawler', (data) => {
                 console.log(`🏊 客户端订阅池爬虫监控: ${data?.clientId || socket.id}`);
@@ -77,6 +182,7 @@ export class SocketIOService {
 
             // 🔥 池爬虫控制命令
             socket.on('pool-crawler:start', async (data) => {
+                if (!this.authorizeCommand(socket, 'start', 'operator')) return;
                 console.log(`🏊 客户端请求启动池爬虫: ${socket.id}`);
                 try {
                     await this.eventBus.emit('pool-crawler.command.start', data);
@@ -97,6 +203,7 @@ export class SocketIOService {
             });
 
             socket.on('pool-crawler:stop', async (data) => {
+                if (!this.authorizeCommand(socket, 'stop', 'operator')) return;
                 console.log(`🏊 客户端请求停止池爬虫: ${socket.id}`);
                 try {
                     await this.eventBus.emit('pool-crawler.command.stop', data);
@@ -117,6 +224,7 @@ export class SocketIOService {
             });
 
             socket.on('pool-crawler:pause', async (data) => {
+                if (!this.authorizeCommand(socket, 'pause', 'operator')) return;
                 console.log(`🏊 客户端请求暂停池爬虫: ${socket.id}`);
                 try {
                     await this.eventBus.emit('pool-crawler.command.pause', data);
@@ -137,6 +245,7 @@ export class SocketIOService {
             });
 
             socket.on('pool-crawler:resume', async (data) => {
+                if (!this.authorizeCommand(socket, 'resume', 'operator')) return;
                 console.log(`🏊 客户端请求恢复池爬虫: ${socket.id}`);
                 try {
                     await this.eventBus.emit('pool-crawler.command.resume', data);
@@ -157,6 +266,7 @@ export class SocketIOService {
             });
 
             socket.on('pool-crawler:crawl-now', async (data) => {
+                if (!this.authorizeCommand(socket, 'crawl-now', 'operator')) return;
                 console.log(`🏊 客户端请求立即爬取: ${socket.id}`);
                 try {
                     await this.eventBus.emit('pool-crawler.command.crawl-now', data);
@@ -177,6 +287,7 @@ export class SocketIOService {
             });
 
             socket.on('pool-crawler:update-config', async (data) => {
+                if (!this.authorizeCommand(socket, 'update-config', 'admin')) return;
                 console.log(`🏊 客户端请求更新配置: ${socket.id}`);
                 try {
                     await this.eventBus.emit('pool-crawler.command.update-config', data);
@@ -197,6 +308,7 @@ export class SocketIOService {
             });
 
             socket.on('pool-crawler:update-filters', async (data) => {
+                if (!this.authorizeCommand(socket, 'update-filters', 'operator')) return;
                 console.log(`🏊 客户端请求更新筛选器: ${socket.id}`);
                 try {
                     await this.eventBus.emit('pool-crawler.command.update-filters', data);
@@ -216,6 +328,54 @@ export class SocketIOService {
                 }
             });
 
+            // 🚨 全局一键平仓（结果通过 emergency:kill-switch-update 推送到 strategy-monitor 房间）
+            socket.on('emergency:kill-switch', async (data) => {
+                if (!this.authorizeCommand(socket, 'kill-switch', 'operator', 'emergency:command-response')) return;
+                console.log(`🚨 客户端请求全局一键平仓: ${socket.id}`);
+                try {
+                    await this.eventBus.emit('kill-switch.command.engage', {
+                        ...(data?.reason && { reason: data.reason }),
+                        ...(socket.data.user && { triggeredBy: socket.data.user.username })
+                    });
+                    socket.emit('emergency:command-response', {
+                        success: true,
+                        command: 'kill-switch',
+                        message: '一键平仓请求已发送',
+                        timestamp: Date.now()
+                    });
+                } catch (error) {
+                    socket.emit('emergency:command-response', {
+                        success: false,
+                        command: 'kill-switch',
+                        message: `一键平仓失败: ${error}`,
+                        timestamp: Date.now()
+                    });
+                }
+            });
+
+            socket.on('emergency:kill-switch-release', async () => {
+                if (!this.authorizeCommand(socket, 'kill-switch-release', 'operator', 'emergency:command-response')) return;
+                console.log(`🚨 客户端请求解除一键平仓暂停: ${socket.id}`);
+                try {
+                    await this.eventBus.emit('kill-switch.command.release', {
+                        ...(socket.data.user && { triggeredBy: socket.data.user.username })
+                    });
+                    socket.emit('emergency:command-response', {
+                        success: true,
+                        command: 'kill-switch-release',
+                        message: '解除暂停请求已发送',
+                        timestamp: Date.now()
+                    });
+                } catch (error) {
+                    socket.emit('emergency:command-response', {
+                        success: false,
+                        command: 'kill-switch-release',
+                        message: `解除暂停失败: ${error}`,
+                        timestamp: Date.now()
+                    });
+                }
+            });
+
             // 处理断开连接
             socket.on('disconnect', (reason) => {
                 console.log(`🔌 Socket.IO客户端断开: ${socket.id}, 原因: ${reason}`);
@@ -258,6 +418,65 @@ export class SocketIOService {
         });
         this.eventBusSubscriptions.push(smartStopLossSub);
 
+        // 🔓 监听钱包解锁后的策略自动恢复进度
+        const autoResumeSub = this.eventBus.subscribe('strategy.auto-resume.update', async (data) => {
+            console.log('📡 Socket.IO广播策略自动恢复:', data?.event || 'unknown', data?.instanceId || '');
+
+            this.io.to('strategy-monitor').emit('strategy:auto-resume', {
+                type: 'strategy-auto-resume',
+                data: data,
+                timestamp: Date.now()
+            });
+        });
+        this.eventBusSubscriptions.push(autoResumeSub);
+
+        // 🛡️ 监听风险预算使用情况更新
+        const riskBudgetSub = this.eventBus.subscribe('risk.budget.update', async (data) => {
+            console.log('📡 Socket.IO广播风险预算更新:', data?.reason || 'unknown');
+
+            this.io.to('strategy-monitor').emit('risk:budget-update', {
+                type: 'risk-budget-update',
+                data: data,
+                timestamp: Date.now()
+            });
+        });
+        this.eventBusSubscriptions.push(riskBudgetSub);
+
+        // 🚨 监听全局一键平仓进度和报告
+        const killSwitchSub = this.eventBus.subscribe('kill-switch.update', async (data) => {
+            console.log('📡 Socket.IO广播一键平仓更新:', data?.event || 'unknown');
+
+            this.io.to('strategy-monitor').emit('emergency:kill-switch-update', {
+                type: 'kill-switch-update',
+                data: data,
+                timestamp: Date.now()
+            });
+        });
+        this.eventBusSubscriptions.push(killSwitchSub);
+
+        // 🗂️ 监听策略分组报告和成员状态变化（推送到对应分组房间）
+        const groupReportSub = this.eventBus.subscribe('strategy.group.report', async (data) => {
+            if (!data?.groupId) return;
+
+            this.io.to(`strategy-group:${data.groupId}`).emit('strategy:group-report', {
+                type: 'strategy-group-report',
+                data: data,
+                timestamp: Date.now()
+            });
+        });
+        this.eventBusSubscriptions.push(groupReportSub);
+
+        const groupStatusSub = this.eventBus.subscribe('strategy.group.status', async (data) => {
+            if (!data?.groupId) return;
+
+            this.io.to(`strategy-group:${data.groupId}`).emit('strategy:group-status-update', {
+                type: 'strategy-group-status-update',
+                data: data,
+                timestamp: Date.now()
+            });
+        });
+        this.eventBusSubscriptions.push(groupStatusSub);
+
         // 🔥 监听池爬虫状态更新
         const poolCrawlerStatusSub = this.eventBus.subscribe('pool-crawler.status.update', async (data) => {
             console.log('📡 Socket.IO广播池爬虫状态更新:', data?.status || 'unknown');
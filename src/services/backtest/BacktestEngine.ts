@@ -0,0 +1,899 @@
+/**
+ * 📼 回测引擎
+ * 离线回放池子历史数据，驱动与实盘执行器相同的决策模块
+ *
+ * 核心功能：
+ * - 使用模拟时钟驱动SmartStopLossModule和PositionRecreationModule
+ * - 模拟头寸创建/关闭、X代币兑换、手续费收入和收益提取
+ * - 复刻ChainPositionExecutor/SimpleYExecutor的重建和止损处理流程
+ * - 为每个配置输出PnL报告
+ */
+
+import { SmartStopLossModule, SmartStopLossConfig, MarketData, BenchmarkYieldRates, StopLossDecision } from '../modules/SmartStopLossModule';
+import { PositionRecreationModule, PositionRecreationConfig, RecreationCheckParams, RecreationDecision } from '../modules/PositionRecreationModule';
+import { SimulatedPosition, LiquiditySegment, LiquidityShape } from './SimulatedPosition';
+import {
+    ChainLiquidityShape,
+    ChainPositionGeometry,
+    resolveChainPositionGeometry,
+    validateChainPositionGeometry,
+    calculateChainSegmentRanges,
+    calculateChainSegmentFunding,
+    getChainMonitoredRange
+} from '../business/ChainPositionGeometry';
+import type { ChainPositionConfig } from '../strategy/executors/ChainPositionExecutor';
+import type { SimpleYConfig } from '../strategy/executors/SimpleYExecutor';
+import {
+    PoolHistoryFile,
+    PoolHistorySnapshot,
+    BacktestRunConfig,
+    BacktestSimulationOptions,
+    BacktestReport,
+    BacktestEvent,
+    BacktestEventType,
+    BacktestEquityPoint
+} from '../../types/backtest-types';
+
+type BacktestStrategyConfig = ChainPositionConfig | SimpleYConfig;
+
+// 单次回测的运行时状态
+interface BacktestSession {
+    instanceId: string;
+    run: BacktestRunConfig;
+    config: BacktestStrategyConfig;
+    history: PoolHistoryFile;
+    now: number;
+
+    // 决策模块（注入模拟时钟）
+    stopLossModule: SmartStopLossModule;
+    recreationModule: PositionRecreationModule;
+
+    // 模拟钱包与头寸
+    walletX: number;
+    walletY: number;
+    position: SimulatedPosition | null;
+    positionRange: [number, number];       // 监控范围（连锁头寸包含创建时的活跃bin，与ChainPositionExecutor一致）
+    positionCreatedAt: number;
+    positionEntryPrice: number;
+    positionInvestment: number;
+    pendingYield: number;
+    cycleExtractedYield: number;
+    lastExtractionTime: number;
+    isInRange: boolean;
+    stoppedReason: string | null;
+
+    // 基准收益率（与UnifiedDataProvider一致）
+    feeRecords: { timestamp: number; amount: number }[];
+    benchmarkSnapshots: { timestamp: number; benchmarkRate: number }[];
+    benchmarkStartTime: number;
+    benchmarkInRange: boolean;
+    dynamicRecreationSwitchEnabled: boolean;
+
+    // 统计
+    feesEarned: number;
+    swapCosts: number;
+    transactionCosts: number;
+    inRangeTime: number;
+    positionsCreated: number;
+    recreations: Record<string, number>;
+    stopLossTriggered: number;
+    partialExits: number;
+    yieldExtractions: number;
+    events: BacktestEvent[];
+    equityCurve: BacktestEquityPoint[];
+}
+
+export class BacktestEngine {
+    private readonly options: BacktestSimulationOptions;
+
+    // 默认模拟成本参数
+    private static readonly DEFAULT_OPTIONS: BacktestSimulationOptions = {
+        swapFeeBps: 25,
+        swapSlippageBps: 50,
+        transactionCostY: 0,
+        defaultFeeShare: 0.05
+    };
+
+    // 连锁头寸流动性模式到模拟形状的映射
+    private static readonly CHAIN_LIQUIDITY_SHAPES: Record<ChainLiquidityShape, LiquidityShape> = {
+        spot: 'Spot',
+        bidask: 'BidAsk',
+        curve: 'Curve'
+    };
+
+    constructor(options: Partial<BacktestSimulationOptions> = {}) {
+        this.options = { ...BacktestEngine.DEFAULT_OPTIONS, ...options };
+    }
+
+    /**
+     * 🚀 依次回测多个配置
+     */
+    async runAll(history: PoolHistoryFile, runs: BacktestRunConfig[]): Promise<BacktestReport[]> {
+        const reports: BacktestReport[] = [];
+        for (const run of runs) {
+            reports.push(await this.run(history, run));
+        }
+        return reports;
+    }
+
+    /**
+     * 🎯 回测单个配置
+     */
+    async run(history: PoolHistoryFile, run: BacktestRunConfig): Promise<BacktestReport> {
+        this.validateHistory(history);
+        this.validateRunConfig(run);
+
+        const snapshots = history.snapshots;
+        const session = this.createSession(history, run);
+        const monitoringIntervalMs = Math.max(1, session.config.monitoringInterval || 30) * 1000;
+        let lastEvaluationTime = -Infinity;
+
+        for (let i = 0; i < snapshots.length; i++) {
+            const snapshot = snapshots[i]!;
+            const previous = i > 0 ? snapshots[i - 1]! : null;
+            session.now = snapshot.timestamp;
+
+            if (i === 0) {
+                this.openPosition(session, snapshot, Math.min(session.config.positionAmount, session.walletY - this.getCreationCost(session)));
+            } else if (session.position && previous) {
+                this.accrueFees(session, snapshot, previous);
+                this.tryExtractYield(session, snapshot);
+            }
+
+            if (session.position && !session.stoppedReason && snapshot.timestamp - lastEvaluationTime >= monitoringIntervalMs) {
+                lastEvaluationTime = snapshot.timestamp;
+                await this.performMonitoringCycle(session, snapshot);
+            }
+
+            session.equityCurve.push({
+                timestamp: snapshot.timestamp,
+                price: snapshot.price,
+                activeBin: snapshot.activeBin,
+                totalValueY: this.getTotalValue(session, snapshot)
+            });
+        }
+
+        return this.buildReport(session);
+    }
+
+    /**
+     * 🔄 单个监控周期：头寸重建检查 → 动态重建开关 → 智能止损
+     */
+    private async performMonitoringCycle(session: BacktestSession, snapshot: PoolHistorySnapshot): Promise<void> {
+        const position = session.position!;
+        const wasInRange = session.isInRange;
+        session.isInRange = snapshot.activeBin >= session.positionRange[0] && snapshot.activeBin <= session.positionRange[1];
+
+        // 1. 头寸重建检查
+        const marketData = this.buildMarketData(session, snapshot);
+        const recreationParams: RecreationCheckParams = {
+            marketData,
+            positionRange: session.positionRange,
+            outOfRangeStartTime: null,
+            outOfRangeDirection: null,
+            isInRange: wasInRange,
+            strategyConfig: this.buildRecreationStrategyConfig(session.config),
+            instanceId: session.instanceId,
+            phase: 'MONITORING'
+        };
+
+        const recreationDecision = await session.recreationModule.shouldRecreatePosition(recreationParams);
+        if (recreationDecision.shouldRecreate) {
+            this.executePositionRecreation(session, snapshot, recreationDecision);
+            if (!session.position || session.stoppedReason) return;
+        }
+
+        // 2. 动态重建开关
+        this.updateDynamicRecreationSwitch(session, marketData.benchmarkYieldRates);
+
+        // 3. 智能止损
+        if (session.config.enableSmartStopLoss) {
+            // 与执行器的周期缓存一致：未发生重建时复用本周期市场数据
+            const stopLossData = recreationDecision.shouldRecreate ? this.buildMarketData(session, snapshot) : marketData;
+            const decision = await session.stopLossModule.evaluate(stopLossData, session.instanceId);
+            this.handleStopLossDecision(session, snapshot, decision);
+        }
+    }
+
+    /**
+     * 🏗️ 头寸重建流程（与ChainPositionExecutor.executePositionRecreation一致）
+     */
+    private executePositionRecreation(session: BacktestSession, snapshot: PoolHistorySnapshot, decision: RecreationDecision): void {
+        session.recreations[decision.recreationType] = (session.recreations[decision.recreationType] || 0) + 1;
+        this.recordEvent(session, snapshot, 'RECREATION', {
+            recreationType: decision.recreationType,
+            reason: decision.reason,
+            positionRange: session.positionRange
+        });
+
+        this.closePosition(session, snapshot);
+
+        // 方法1（超出范围）保留X代币，其余方法需要先卖出X代币
+        const needTokenSwap = decision.recreationType === 'MARKET_OPPORTUNITY' ||
+            decision.recreationType === 'LOSS_RECOVERY' ||
+            decision.recreationType === 'DYNAMIC_PROFIT';
+
+        if (needTokenSwap) {
+            this.swapAllXToY(session, snapshot);
+
+            const minPrice = session.config.minPriceForRecreation;
+            if (minPrice && minPrice > 0 && snapshot.price < minPrice) {
+                this.stopStrategy(session, snapshot, `价格下限触发: ${snapshot.price} < ${minPrice}`);
+                return;
+            }
+
+            const switchThreshold = session.config.benchmarkYieldThreshold5Min;
+            if (switchThreshold && switchThreshold > 0 && session.dynamicRecreationSwitchEnabled) {
+                this.stopStrategy(session, snapshot, '动态重建开关触发');
+                return;
+            }
+        }
+
+        session.recreationModule.cleanupInstanceState(session.instanceId);
+        this.resetBenchmark(session);
+
+        const amount = Math.min(session.config.positionAmount, session.walletY - this.getCreationCost(session));
+        if (amount <= 0) {
+            this.stopStrategy(session, snapshot, 'Y代币余额不足，无法重建头寸');
+            return;
+        }
+
+        this.openPosition(session, snapshot, amount);
+    }
+
+    /**
+     * 🛑 处理止损决策（PARTIAL_EXIT按比例退出，FULL_EXIT全部退出，与执行器一致）
+     */
+    private handleStopLossDecision(session: BacktestSession, snapshot: PoolHistorySnapshot, decision: StopLossDecision): void {
+        if (decision.action === 'PARTIAL_EXIT') {
+            this.partialExit(session, snapshot, decision);
+            return;
+        }
+        if (decision.action !== 'FULL_EXIT') return;
+
+        session.stopLossTriggered++;
+        this.recordEvent(session, snapshot, 'STOP_LOSS', {
+            confidence: decision.confidence,
+            urgency: decision.urgency,
+            reasoning: decision.reasoning
+        });
+
+        this.closePosition(session, snapshot);
+        this.swapAllXToY(session, snapshot);
+        this.stopStrategy(session, snapshot, '智能止损: 完全退出');
+    }
+
+    /**
+     * ✂️ 部分止损：按比例移除头寸流动性，卖出移除得到的X代币，初始投入按剩余比例重设
+     */
+    private partialExit(session: BacktestSession, snapshot: PoolHistorySnapshot, decision: StopLossDecision): void {
+        const position = session.position;
+        const percentage = decision.suggestedExitPercentage || 50;
+        if (!position || !(percentage > 0 && percentage < 100)) return;
+
+        const fraction = percentage / 100;
+        const { amountX, amountY } = position.removeLiquidity(fraction, snapshot.activeBin);
+        const removeCost = this.options.transactionCostY * this.getPositionCount(session);
+
+        session.walletX += amountX;
+        session.walletY += amountY - removeCost;
+        session.transactionCosts += removeCost;
+        session.positionInvestment *= 1 - fraction;
+        session.partialExits++;
+
+        this.recordEvent(session, snapshot, 'PARTIAL_EXIT', {
+            percentage,
+            amountX,
+            amountY,
+            confidence: decision.confidence,
+            reasoning: decision.reasoning
+        });
+
+        this.swapAllXToY(session, snapshot);
+    }
+
+    /**
+     * 🆕 创建模拟头寸
+     */
+    private openPosition(session: BacktestSession, snapshot: PoolHistorySnapshot, amountY: number): void {
+        const segments = this.calculateSegments(session, snapshot.activeBin, amountY);
+        const creationCost = this.getCreationCost(session);
+
+        session.position = new SimulatedPosition(segments, snapshot.activeBin, snapshot.price, session.history.binStep);
+        session.positionRange = this.calculateMonitoredRange(session, snapshot.activeBin);
+        session.walletY -= amountY + creationCost;
+        session.transactionCosts += creationCost;
+        session.positionCreatedAt = snapshot.timestamp;
+        session.positionEntryPrice = snapshot.price;
+        session.positionInvestment = amountY;
+        session.pendingYield = 0;
+        session.cycleExtractedYield = 0;
+        session.isInRange = true;
+        session.positionsCreated++;
+
+        this.recordEvent(session, snapshot, 'POSITION_CREATED', {
+            amountY,
+            positionRange: session.positionRange
+        });
+    }
+
+    /**
+     * 🔒 关闭模拟头寸（同时领取未提取手续费）
+     */
+    private closePosition(session: BacktestSession, snapshot: PoolHistorySnapshot): void {
+        const position = session.position;
+        if (!position) return;
+
+        const { amountX, amountY } = position.getTokenAmounts(snapshot.activeBin);
+        const closeCost = this.options.transactionCostY * this.getPositionCount(session);
+
+        session.walletX += amountX;
+        session.walletY += amountY + session.pendingYield - closeCost;
+        session.transactionCosts += closeCost;
+        session.position = null;
+
+        this.recordEvent(session, snapshot, 'POSITION_CLOSED', {
+            amountX,
+            amountY,
+            claimedYield: session.pendingYield,
+            holdingMinutes: (snapshot.timestamp - session.positionCreatedAt) / 60000
+        });
+
+        session.pendingYield = 0;
+    }
+
+    /**
+     * 🔄 卖出钱包中全部X代币
+     */
+    private swapAllXToY(session: BacktestSession, snapshot: PoolHistorySnapshot): void {
+        if (session.walletX <= 0) return;
+
+        const grossOutput = session.walletX * snapshot.price;
+        const swapCost = grossOutput * (this.options.swapFeeBps + this.options.swapSlippageBps) / 10000;
+        const outputY = grossOutput - swapCost - this.options.transactionCostY;
+
+        this.recordEvent(session, snapshot, 'SWAP_EXECUTED', {
+            inputAmountX: session.walletX,
+            outputAmountY: outputY,
+            swapCost
+        });
+
+        session.walletY += outputY;
+        session.walletX = 0;
+        session.swapCosts += swapCost;
+        session.transactionCosts += this.options.transactionCostY;
+    }
+
+    /**
+     * ⏹️ 停止策略（剩余资金留在钱包中）
+     */
+    private stopStrategy(session: BacktestSession, snapshot: PoolHistorySnapshot, reason: string): void {
+        session.stoppedReason = reason;
+        session.recreationModule.cleanupInstanceState(session.instanceId);
+        this.recordEvent(session, snapshot, 'STRATEGY_STOPPED', { reason });
+    }
+
+    /**
+     * 💸 按活跃bin流动性份额累计手续费
+     */
+    private accrueFees(session: BacktestSession, snapshot: PoolHistorySnapshot, previous: PoolHistorySnapshot): void {
+        const position = session.position!;
+        const elapsed = snapshot.timestamp - previous.timestamp;
+
+        if (!position.isInRange(previous.activeBin)) return;
+        session.inRangeTime += elapsed;
+
+        if (!snapshot.fees || snapshot.fees <= 0) return;
+
+        const ownLiquidity = position.getActiveBinLiquidityY(previous.activeBin);
+        let share = this.options.defaultFeeShare;
+        if (snapshot.activeBinLiquidity !== undefined) {
+            share = ownLiquidity > 0 ? ownLiquidity / (ownLiquidity + snapshot.activeBinLiquidity) : 0;
+        }
+
+        const earned = snapshot.fees * share;
+        session.pendingYield += earned;
+        session.feesEarned += earned;
+        session.feeRecords.push({ timestamp: snapshot.timestamp, amount: earned });
+    }
+
+    /**
+     * 💰 收益提取（达到阈值且超过时间锁）
+     */
+    private tryExtractYield(session: BacktestSession, snapshot: PoolHistorySnapshot): void {
+        const threshold = parseFloat(session.config.yieldExtractionThreshold || '10');
+        const timeLockMs = (session.config.yieldExtractionTimeLock ?? 1) * 60 * 1000;
+
+        if (session.pendingYield < threshold || snapshot.timestamp - session.lastExtractionTime < timeLockMs) return;
+
+        const extracted = session.pendingYield;
+        session.walletY += extracted - this.options.transactionCostY;
+        session.transactionCosts += this.options.transactionCostY;
+        session.cycleExtractedYield += extracted;
+        session.pendingYield = 0;
+        session.lastExtractionTime = snapshot.timestamp;
+        session.yieldExtractions++;
+
+        this.recordEvent(session, snapshot, 'YIELD_EXTRACTED', { amountY: extracted });
+    }
+
+    /**
+     * 📈 构建与PositionAnalyticsService输出一致的市场数据
+     */
+    private buildMarketData(session: BacktestSession, snapshot: PoolHistorySnapshot): MarketData {
+        const position = session.position!;
+        const [positionLowerBin, positionUpperBin] = session.positionRange;
+        const positionValue = position.getValueY(snapshot.activeBin, snapshot.price);
+        const netPnL = positionValue + session.pendingYield + session.cycleExtractedYield - session.positionInvestment;
+        const netPnLPercentage = session.positionInvestment > 0 ? (netPnL / session.positionInvestment) * 100 : 0;
+
+        const priceHistory = session.history.snapshots
+            .filter(s => s.timestamp <= snapshot.timestamp && s.timestamp >= snapshot.timestamp - 60 * 60 * 1000)
+            .map(s => ({ timestamp: s.timestamp, price: s.price }));
+
+        const priceChangeSince = (minutes: number): number => {
+            const reference = priceHistory.find(p => p.timestamp >= snapshot.timestamp - minutes * 60 * 1000);
+            return reference && reference.price > 0 ? ((snapshot.price - reference.price) / reference.price) * 100 : 0;
+        };
+
+        const feeYieldRate = (minutes: number): number => {
+            const since = snapshot.timestamp - minutes * 60 * 1000;
+            const fees = session.feeRecords.filter(r => r.timestamp > since).reduce((sum, r) => sum + r.amount, 0);
+            return positionValue > 0 ? (fees / positionValue) * (1440 / minutes) * 100 : 0;
+        };
+
+        const fiveMinuteYieldRate = feeYieldRate(5);
+        const priceDrop = session.positionEntryPrice > 0
+            ? ((session.positionEntryPrice - snapshot.price) / session.positionEntryPrice) * 100
+            : 0;
+
+        const marketData: MarketData = {
+            currentPrice: snapshot.price,
+            priceHistory,
+            priceVolatility: this.calculateVolatility(priceHistory.map(p => p.price)),
+            priceDropPercentage: Math.max(0, priceDrop),
+            historicalPriceChanges: {
+                last5Minutes: priceChangeSince(5),
+                last15Minutes: priceChangeSince(15),
+                lastHour: priceChangeSince(60)
+            },
+            totalReturn: netPnL,
+            yieldRate: fiveMinuteYieldRate,
+            yieldTrend: 'stable',
+            yieldGrowthRate: 0,
+            currentPendingYield: session.pendingYield.toString(),
+            totalExtractedYield: session.cycleExtractedYield.toString(),
+            dynamicRecreationSwitchEnabled: session.dynamicRecreationSwitchEnabled,
+            positionValue,
+            initialInvestment: session.positionInvestment,
+            netPnL,
+            netPnLPercentage,
+            activeBin: snapshot.activeBin,
+            positionLowerBin,
+            positionUpperBin,
+            holdingDuration: (snapshot.timestamp - session.positionCreatedAt) / (60 * 60 * 1000),
+            lastUpdateTime: snapshot.timestamp
+        };
+
+        const benchmark = this.calculateBenchmarkYieldRates(session, snapshot.activeBin, positionLowerBin, positionUpperBin, fiveMinuteYieldRate);
+        if (benchmark) {
+            marketData.benchmarkYieldRates = benchmark;
+        }
+
+        return marketData;
+    }
+
+    /**
+     * 🆕 基准收益率计算（复刻UnifiedDataProvider.calculateBenchmarkYieldRates）
+     */
+    private calculateBenchmarkYieldRates(
+        session: BacktestSession,
+        activeBin: number,
+        positionLowerBin: number,
+        positionUpperBin: number,
+        fiveMinuteYieldRate: number
+    ): BenchmarkYieldRates | null {
+        const now = session.now;
+
+        if (activeBin < positionLowerBin || activeBin > positionUpperBin) {
+            if (session.benchmarkInRange) {
+                session.benchmarkSnapshots = [];
+            }
+            session.benchmarkInRange = false;
+            return null;
+        }
+
+        if (!session.benchmarkInRange) {
+            session.benchmarkStartTime = now;
+            session.benchmarkInRange = true;
+        }
+
+        const elapsed = now - session.benchmarkStartTime;
+        if (elapsed < 5 * 60 * 1000) return null;
+
+        const binOffset = Math.abs(positionUpperBin - activeBin);
+        if (binOffset === 0) {
+            return {
+                current5MinuteBenchmark: 0,
+                average5MinuteBenchmark: 0,
+                average15MinuteBenchmark: 0,
+                average30MinuteBenchmark: 0,
+                binOffset: 0,
+                lastCalculationTime: now
+            };
+        }
+
+        const current5MinuteBenchmark = (fiveMinuteYieldRate / 100) / binOffset;
+        session.benchmarkSnapshots.push({ timestamp: now, benchmarkRate: current5MinuteBenchmark });
+        session.benchmarkSnapshots = session.benchmarkSnapshots.filter(s => s.timestamp >= now - 60 * 60 * 1000);
+
+        const average = (minutes: number): number => {
+            const relevant = session.benchmarkSnapshots.filter(s => s.timestamp >= now - minutes * 60 * 1000);
+            return relevant.length > 0 ? relevant.reduce((sum, s) => sum + s.benchmarkRate, 0) / relevant.length : 0;
+        };
+
+        return {
+            current5MinuteBenchmark,
+            average5MinuteBenchmark: elapsed >= 10 * 60 * 1000 ? average(5) : null,
+            average15MinuteBenchmark: elapsed >= 20 * 60 * 1000 ? average(15) : null,
+            average30MinuteBenchmark: elapsed >= 35 * 60 * 1000 ? average(30) : null,
+            binOffset,
+            lastCalculationTime: now
+        };
+    }
+
+    /**
+     * 🔧 重建后清除基准收益率数据
+     */
+    private resetBenchmark(session: BacktestSession): void {
+        session.benchmarkSnapshots = [];
+        session.benchmarkStartTime = session.now;
+        session.benchmarkInRange = true;
+        session.feeRecords = [];
+    }
+
+    /**
+     * 🎚️ 动态重建开关（与ChainPositionExecutor.updateDynamicRecreationSwitch一致）
+     */
+    private updateDynamicRecreationSwitch(session: BacktestSession, benchmark: BenchmarkYieldRates | undefined): void {
+        const threshold = session.config.benchmarkYieldThreshold5Min;
+        if (!threshold || threshold <= 0) return;
+
+        const benchmarkYield = benchmark?.average15MinuteBenchmark;
+        if (benchmarkYield === null || benchmarkYield === undefined) return;
+
+        session.dynamicRecreationSwitchEnabled = (benchmarkYield * 100) < threshold;
+    }
+
+    /**
+     * 📐 计算头寸流动性分段
+     */
+    private calculateSegments(session: BacktestSession, activeBin: number, amountY: number): LiquiditySegment[] {
+        if (session.run.strategyType === 'chain_position') {
+            const geometry = this.getChainGeometry(session);
+            const funding = calculateChainSegmentFunding(geometry, amountY);
+            const shapes = BacktestEngine.CHAIN_LIQUIDITY_SHAPES;
+
+            // 每个分段的base和topUp分别对应一次添加流动性操作
+            return calculateChainSegmentRanges(geometry, activeBin).flatMap((range, index): LiquiditySegment[] => {
+                const { base, topUp } = funding[index]!;
+                const segments: LiquiditySegment[] = [
+                    { lowerBin: range.lowerBin, upperBin: range.upperBin, amountY: base, shape: shapes[range.shape] }
+                ];
+                if (range.topUpShape) {
+                    segments.push({ lowerBin: range.lowerBin, upperBin: range.upperBin, amountY: topUp, shape: shapes[range.topUpShape] });
+                }
+                return segments;
+            });
+        }
+
+        const binRange = session.config.binRange;
+        return [{ lowerBin: activeBin - binRange + 1, upperBin: activeBin, amountY, shape: 'BidAsk' }];
+    }
+
+    /**
+     * 📏 计算监控范围（连锁头寸使用几何的监控范围，包含创建时的活跃bin）
+     */
+    private calculateMonitoredRange(session: BacktestSession, activeBin: number): [number, number] {
+        if (session.run.strategyType === 'chain_position') {
+            return getChainMonitoredRange(calculateChainSegmentRanges(this.getChainGeometry(session), activeBin), activeBin);
+        }
+        return session.position!.getRange();
+    }
+
+    /**
+     * 📐 连锁头寸几何（未配置时使用默认的两个69-bin头寸）
+     */
+    private getChainGeometry(session: BacktestSession): ChainPositionGeometry {
+        return resolveChainPositionGeometry((session.config as ChainPositionConfig).geometry);
+    }
+
+    /**
+     * 🔢 单次操作涉及的头寸数量（连锁头寸为几何分段数量）
+     */
+    private getPositionCount(session: BacktestSession): number {
+        return session.run.strategyType === 'chain_position' ? this.getChainGeometry(session).segments.length : 1;
+    }
+
+    /**
+     * 💸 创建头寸的交易成本（连锁头寸的每个追加流动性需额外一笔交易）
+     */
+    private getCreationCost(session: BacktestSession): number {
+        let transactionCount = 1;
+        if (session.run.strategyType === 'chain_position') {
+            const segments = this.getChainGeometry(session).segments;
+            transactionCount = segments.length + segments.filter(segment => segment.topUp).length;
+        }
+        return this.options.transactionCostY * transactionCount;
+    }
+
+    /**
+     * 📊 总资产价值（钱包 + 头寸 + 未提取手续费）
+     */
+    private getTotalValue(session: BacktestSession, snapshot: PoolHistorySnapshot): number {
+        const positionValue = session.position ? session.position.getValueY(snapshot.activeBin, snapshot.price) : 0;
+        return session.walletY + session.walletX * snapshot.price + positionValue + session.pendingYield;
+    }
+
+    /**
+     * 📉 价格波动率（收益率标准差，百分比）
+     */
+    private calculateVolatility(prices: number[]): number {
+        if (prices.length < 2) return 0;
+
+        const returns: number[] = [];
+        for (let i = 1; i < prices.length; i++) {
+            if (prices[i - 1]! > 0) {
+                returns.push((prices[i]! - prices[i - 1]!) / prices[i - 1]! * 100);
+            }
+        }
+        if (returns.length === 0) return 0;
+
+        const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+        const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / returns.length;
+        return Math.sqrt(variance);
+    }
+
+    /**
+     * 📝 记录回测事件
+     */
+    private recordEvent(session: BacktestSession, snapshot: PoolHistorySnapshot, type: BacktestEventType, details: Record<string, any>): void {
+        session.events.push({
+            timestamp: snapshot.timestamp,
+            type,
+            activeBin: snapshot.activeBin,
+            price: snapshot.price,
+            details
+        });
+    }
+
+    /**
+     * 🏗️ 初始化回测会话
+     */
+    private createSession(history: PoolHistoryFile, run: BacktestRunConfig): BacktestSession {
+        const config = { ...run.config, poolAddress: history.poolAddress } as BacktestStrategyConfig;
+        const firstTimestamp = history.snapshots[0]!.timestamp;
+
+        const session = {
+            instanceId: `backtest_${run.strategyType}_${run.name}`,
+            run,
+            config,
+            history,
+            now: firstTimestamp,
+            walletX: 0,
+            walletY: this.options.initialBalanceY ?? config.positionAmount,
+            position: null,
+            positionRange: [0, 0],
+            positionCreatedAt: firstTimestamp,
+            positionEntryPrice: 0,
+            positionInvestment: 0,
+            pendingYield: 0,
+            cycleExtractedYield: 0,
+            lastExtractionTime: firstTimestamp,
+            isInRange: true,
+            stoppedReason: null,
+            feeRecords: [],
+            benchmarkSnapshots: [],
+            benchmarkStartTime: firstTimestamp,
+            benchmarkInRange: true,
+            dynamicRecreationSwitchEnabled: false,
+            feesEarned: 0,
+            swapCosts: 0,
+            transactionCosts: 0,
+            inRangeTime: 0,
+            positionsCreated: 0,
+            recreations: {},
+            stopLossTriggered: 0,
+            partialExits: 0,
+            yieldExtractions: 0,
+            events: [],
+            equityCurve: []
+        } as Omit<BacktestSession, 'stopLossModule' | 'recreationModule'> as BacktestSession;
+
+        // 🕒 决策模块使用模拟时钟
+        const clock = () => session.now;
+        session.stopLossModule = new SmartStopLossModule(this.buildSmartStopLossConfig(config), clock);
+        session.recreationModule = new PositionRecreationModule(this.buildPositionRecreationConfig(config), clock);
+
+        return session;
+    }
+
+    /**
+     * 🧠 智能止损参数（与执行器initializeSmartStopLoss一致）
+     */
+    private buildSmartStopLossConfig(config: BacktestStrategyConfig): Partial<SmartStopLossConfig> {
+        return {
+            ...config.stopLoss,
+            ...config.smartStopLoss,
+            activeBinSafetyThreshold:
+                config.smartStopLoss?.activeBinSafetyThreshold ||
+                config.stopLoss?.activeBinSafetyThreshold || 50,
+            observationPeriodMinutes:
+                config.smartStopLoss?.observationPeriodMinutes ||
+                config.stopLoss?.observationPeriodMinutes || 15,
+            lossThresholdPercentage:
+                config.smartStopLoss?.lossThresholdPercentage ||
+                config.stopLoss?.lossThresholdPercentage || 5
+        };
+    }
+
+    /**
+     * 🏗️ 头寸重建参数（与执行器initializePositionRecreation一致）
+     */
+    private buildPositionRecreationConfig(config: BacktestStrategyConfig): Partial<PositionRecreationConfig> {
+        const recreation = config.positionRecreation || {};
+
+        const recreationConfig: Partial<PositionRecreationConfig> = {
+            outOfRangeTimeout: config.outOfRangeTimeout,
+            enablePriceCheck: true,
+            enableMarketOpportunityRecreation: recreation.enableMarketOpportunityRecreation ?? true,
+            enableLossRecoveryRecreation: recreation.enableLossRecoveryRecreation ?? false,
+            enableDynamicProfitRecreation: recreation.enableDynamicProfitRecreation ?? false,
+            marketOpportunity: {
+                positionThreshold: recreation.marketOpportunity?.positionThreshold ?? 70,
+                profitThreshold: recreation.marketOpportunity?.profitThreshold ?? 1
+            },
+            lossRecovery: {
+                markPositionThreshold: recreation.lossRecovery?.markPositionThreshold ?? 65,
+                markLossThreshold: recreation.lossRecovery?.markLossThreshold ?? 0.5,
+                triggerPositionThreshold: recreation.lossRecovery?.triggerPositionThreshold ?? 70,
+                triggerProfitThreshold: recreation.lossRecovery?.triggerProfitThreshold ?? 0.5
+            },
+            dynamicProfitRecreation: {
+                positionThreshold: recreation.dynamicProfitRecreation?.positionThreshold ?? 70,
+                benchmarkTier1Max: recreation.dynamicProfitRecreation?.benchmarkTier1Max ?? 0.5,
+                benchmarkTier2Max: recreation.dynamicProfitRecreation?.benchmarkTier2Max ?? 1.5,
+                benchmarkTier3Max: recreation.dynamicProfitRecreation?.benchmarkTier3Max ?? 3.0,
+                benchmarkTier4Max: recreation.dynamicProfitRecreation?.benchmarkTier4Max ?? 999,
+                profitThresholdTier1: recreation.dynamicProfitRecreation?.profitThresholdTier1 ?? 0.5,
+                profitThresholdTier2: recreation.dynamicProfitRecreation?.profitThresholdTier2 ?? 1.5,
+                profitThresholdTier3: recreation.dynamicProfitRecreation?.profitThresholdTier3 ?? 3.0,
+                profitThresholdTier4: recreation.dynamicProfitRecreation?.profitThresholdTier4 ?? 5.0
+            },
+            minRecreationInterval: 10 * 60 * 1000,
+            maxRecreationCost: 0.01,
+            minActiveBinPositionThreshold: config.minActiveBinPositionThreshold ?? 0
+        };
+
+        if (config.maxPriceForRecreation !== undefined) {
+            recreationConfig.maxPriceForRecreation = config.maxPriceForRecreation;
+        }
+        if (config.minPriceForRecreation !== undefined) {
+            recreationConfig.minPriceForRecreation = config.minPriceForRecreation;
+        }
+
+        return recreationConfig;
+    }
+
+    /**
+     * 🔧 重建检查使用的策略配置
+     */
+    private buildRecreationStrategyConfig(config: BacktestStrategyConfig): RecreationCheckParams['strategyConfig'] {
+        const strategyConfig: RecreationCheckParams['strategyConfig'] = {
+            poolAddress: config.poolAddress,
+            outOfRangeTimeout: config.outOfRangeTimeout,
+            monitoringInterval: config.monitoringInterval
+        };
+
+        if (config.maxPriceForRecreation !== undefined) {
+            strategyConfig.maxPriceForRecreation = config.maxPriceForRecreation;
+        }
+        if (config.minPriceForRecreation !== undefined) {
+            strategyConfig.minPriceForRecreation = config.minPriceForRecreation;
+        }
+
+        return strategyConfig;
+    }
+
+    /**
+     * ✅ 校验历史数据
+     */
+    private validateHistory(history: PoolHistoryFile): void {
+        if (!history || !Array.isArray(history.snapshots) || history.snapshots.length < 2) {
+            throw new Error('历史数据至少需要2个快照');
+        }
+        if (!history.binStep || history.binStep <= 0) {
+            throw new Error(`历史数据binStep无效: ${history.binStep}`);
+        }
+
+        for (let i = 1; i < history.snapshots.length; i++) {
+            if (history.snapshots[i]!.timestamp <= history.snapshots[i - 1]!.timestamp) {
+                throw new Error(`历史快照时间戳必须严格递增: 索引${i}`);
+            }
+        }
+    }
+
+    /**
+     * ✅ 校验回测配置
+     */
+    private validateRunConfig(run: BacktestRunConfig): void {
+        if (run.strategyType !== 'chain_position' && run.strategyType !== 'simple-y') {
+            throw new Error(`不支持回测的策略类型: ${run.strategyType}`);
+        }
+        if (!run.config || !(run.config.positionAmount > 0)) {
+            throw new Error(`回测配置positionAmount无效: ${run.name}`);
+        }
+        if (!(run.config.outOfRangeTimeout > 0)) {
+            throw new Error(`回测配置outOfRangeTimeout无效: ${run.name}`);
+        }
+        if (run.strategyType === 'simple-y' && !(run.config.binRange > 0)) {
+            throw new Error(`回测配置binRange无效: ${run.name}`);
+        }
+        if (run.strategyType === 'chain_position' && run.config.geometry) {
+            const errors = validateChainPositionGeometry(run.config.geometry);
+            if (errors.length > 0) {
+                throw new Error(`回测配置geometry无效: ${run.name}: ${errors.join('; ')}`);
+            }
+        }
+    }
+
+    /**
+     * 📋 生成PnL报告
+     */
+    private buildReport(session: BacktestSession): BacktestReport {
+        const snapshots = session.history.snapshots;
+        const first = snapshots[0]!;
+        const last = snapshots[snapshots.length - 1]!;
+        const initialValueY = this.options.initialBalanceY ?? session.config.positionAmount;
+        const finalValueY = this.getTotalValue(session, last);
+        const netPnL = finalValueY - initialValueY;
+
+        let peak = -Infinity;
+        let maxDrawdownPercentage = 0;
+        for (const point of session.equityCurve) {
+            peak = Math.max(peak, point.totalValueY);
+            if (peak > 0) {
+                maxDrawdownPercentage = Math.max(maxDrawdownPercentage, (peak - point.totalValueY) / peak * 100);
+            }
+        }
+
+        const duration = last.timestamp - first.timestamp;
+
+        return {
+            name: session.run.name,
+            strategyType: session.run.strategyType,
+            poolAddress: session.history.poolAddress,
+            startTime: first.timestamp,
+            endTime: last.timestamp,
+            snapshotCount: snapshots.length,
+            initialValueY,
+            finalValueY,
+            netPnL,
+            netPnLPercentage: initialValueY > 0 ? (netPnL / initialValueY) * 100 : 0,
+            holdValueY: initialValueY,
+            maxDrawdownPercentage,
+            feesEarned: session.feesEarned,
+            swapCosts: session.swapCosts,
+            transactionCosts: session.transactionCosts,
+            timeInRangePercentage: duration > 0 ? (session.inRangeTime / duration) * 100 : 0,
+            positionsCreated: session.positionsCreated,
+            recreations: session.recreations,
+            stopLossTriggered: session.stopLossTriggered,
+            partialExits: session.partialExits,
+            yieldExtractions: session.yieldExtractions,
+            stoppedReason: session.stoppedReason,
+            events: session.events,
+            equityCurve: session.equityCurve
+        };
+    }
+}
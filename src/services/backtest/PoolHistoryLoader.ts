@@ -0,0 +1,82 @@
+/**
+ * 📂 池子历史数据加载器
+ * 从本地JSON文件读取回测所需的历史快照和回测配置
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { PoolHistoryFile, PoolHistorySnapshot, BacktestConfigFile } from '../../types/backtest-types';
+
+export class PoolHistoryLoader {
+    /**
+     * 📥 加载池子历史文件（快照按时间排序，重复时间戳只保留最后一条）
+     */
+    async loadHistory(filePath: string): Promise<PoolHistoryFile> {
+        const raw = await this.readJson(filePath);
+
+        if (!raw.poolAddress || typeof raw.poolAddress !== 'string') {
+            throw new Error(`历史文件缺少poolAddress: ${filePath}`);
+        }
+        if (!Array.isArray(raw.snapshots)) {
+            throw new Error(`历史文件缺少snapshots数组: ${filePath}`);
+        }
+
+        const byTimestamp = new Map<number, PoolHistorySnapshot>();
+        raw.snapshots.forEach((item: any, index: number) => {
+            const snapshot = this.parseSnapshot(item, index);
+            byTimestamp.set(snapshot.timestamp, snapshot);
+        });
+
+        const history: PoolHistoryFile = {
+            poolAddress: raw.poolAddress,
+            binStep: Number(raw.binStep),
+            snapshots: Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp)
+        };
+        if (raw.tokenX) history.tokenX = String(raw.tokenX);
+        if (raw.tokenY) history.tokenY = String(raw.tokenY);
+
+        return history;
+    }
+
+    /**
+     * 📥 加载回测配置文件
+     */
+    async loadConfigs(filePath: string): Promise<BacktestConfigFile> {
+        const raw = await this.readJson(filePath);
+
+        if (!Array.isArray(raw.runs) || raw.runs.length === 0) {
+            throw new Error(`回测配置文件缺少runs数组: ${filePath}`);
+        }
+
+        return raw as BacktestConfigFile;
+    }
+
+    /**
+     * 🔧 解析单个快照
+     */
+    private parseSnapshot(item: any, index: number): PoolHistorySnapshot {
+        const timestamp = typeof item.timestamp === 'string' ? Date.parse(item.timestamp) : Number(item.timestamp);
+        const activeBin = Number(item.activeBin);
+        const price = Number(item.price);
+
+        if (!Number.isFinite(timestamp) || !Number.isInteger(activeBin) || !(price > 0)) {
+            throw new Error(`历史快照格式无效: 索引${index}`);
+        }
+
+        const snapshot: PoolHistorySnapshot = { timestamp, activeBin, price };
+        if (item.fees !== undefined) snapshot.fees = Number(item.fees);
+        if (item.activeBinLiquidity !== undefined) snapshot.activeBinLiquidity = Number(item.activeBinLiquidity);
+
+        return snapshot;
+    }
+
+    private async readJson(filePath: string): Promise<any> {
+        const absolutePath = path.resolve(filePath);
+        try {
+            const content = await fs.readFile(absolutePath, 'utf8');
+            return JSON.parse(content);
+        } catch (error) {
+            throw new Error(`读取文件失败: ${absolutePath} - ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
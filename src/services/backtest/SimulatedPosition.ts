@@ -0,0 +1,164 @@
+/**
+ * 🧪 模拟头寸
+ * 按bin记录单边Y流动性，根据活跃bin移动计算X/Y持仓和头寸价值
+ *
+ * 模型说明：
+ * - 每个bin的流动性以创建时的Y数量记录
+ * - 活跃bin下移穿过某个bin时，该bin的Y按bin价格兑换为X；回升时按同一价格换回Y
+ * - 活跃bin及其下方的bin持有Y，上方的bin持有X
+ * - 位于创建时活跃bin上方的分段（X单边流动性）同样以Y价值记录，等价于按bin价格将Y兑换为X
+ */
+
+export type LiquidityShape = 'Spot' | 'Curve' | 'BidAsk';
+
+// 流动性分段（对应链上一次添加流动性操作）
+export interface LiquiditySegment {
+    lowerBin: number;
+    upperBin: number;
+    amountY: number;
+    shape: LiquidityShape;
+}
+
+// 按bin范围移除的流动性比例（对应链上一次部分移除流动性操作）
+export interface LiquidityRemoval {
+    lowerBin: number;
+    upperBin: number;
+    fraction: number;
+}
+
+export class SimulatedPosition {
+    private readonly binLiquidity: Map<number, number> = new Map();
+    private readonly lowerBin: number;
+    private readonly upperBin: number;
+
+    constructor(
+        segments: LiquiditySegment[],
+        private readonly referenceBin: number,
+        private readonly referencePrice: number,
+        private readonly binStep: number,
+        removals: LiquidityRemoval[] = []
+    ) {
+        if (segments.length === 0) {
+            throw new Error('模拟头寸至少需要一个流动性分段');
+        }
+
+        for (const segment of segments) {
+            this.distributeSegment(segment);
+        }
+        for (const removal of removals) {
+            this.removeLiquidity(removal.fraction, removal.lowerBin, [removal.lowerBin, removal.upperBin]);
+        }
+
+        this.lowerBin = Math.min(...segments.map(s => s.lowerBin));
+        this.upperBin = Math.max(...segments.map(s => s.upperBin));
+    }
+
+    /**
+     * 📐 头寸bin范围
+     */
+    getRange(): [number, number] {
+        return [this.lowerBin, this.upperBin];
+    }
+
+    /**
+     * 🔍 活跃bin是否在头寸范围内
+     */
+    isInRange(activeBin: number): boolean {
+        return activeBin >= this.lowerBin && activeBin <= this.upperBin;
+    }
+
+    /**
+     * 💰 当前X/Y持仓
+     */
+    getTokenAmounts(activeBin: number): { amountX: number; amountY: number } {
+        let amountX = 0;
+        let amountY = 0;
+
+        this.binLiquidity.forEach((liquidityY, binId) => {
+            if (binId > activeBin) {
+                amountX += liquidityY / this.getBinPrice(binId);
+            } else {
+                amountY += liquidityY;
+            }
+        });
+
+        return { amountX, amountY };
+    }
+
+    /**
+     * 📊 头寸价值（Y代币计价）
+     */
+    getValueY(activeBin: number, currentPrice: number): number {
+        const { amountX, amountY } = this.getTokenAmounts(activeBin);
+        return amountY + amountX * currentPrice;
+    }
+
+    /**
+     * 🎯 活跃bin中的头寸流动性（Y代币价值）
+     */
+    getActiveBinLiquidityY(activeBin: number): number {
+        return this.binLiquidity.get(activeBin) || 0;
+    }
+
+    /**
+     * ✂️ 按比例移除每个bin的流动性，返回移除的X/Y数量
+     * 指定binRange时只移除该范围内的bin（如只卖出活跃bin上方持有X的部分）
+     */
+    removeLiquidity(fraction: number, activeBin: number, binRange?: [number, number]): { amountX: number; amountY: number } {
+        const ratio = Math.min(1, Math.max(0, fraction));
+        let amountX = 0;
+        let amountY = 0;
+
+        this.binLiquidity.forEach((liquidityY, binId) => {
+            if (binRange && (binId < binRange[0] || binId > binRange[1])) return;
+
+            const removedY = liquidityY * ratio;
+            if (binId > activeBin) {
+                amountX += removedY / this.getBinPrice(binId);
+            } else {
+                amountY += removedY;
+            }
+            this.binLiquidity.set(binId, liquidityY - removedY);
+        });
+
+        return { amountX, amountY };
+    }
+
+    /**
+     * 📈 bin价格（相对创建时的活跃bin推算）
+     */
+    getBinPrice(binId: number): number {
+        return this.referencePrice * Math.pow(1 + this.binStep / 10000, binId - this.referenceBin);
+    }
+
+    /**
+     * 🔧 按流动性形状将分段资金分配到各个bin
+     * distance为bin与创建时活跃bin的距离（Y单边在下方，X单边在上方）
+     */
+    private distributeSegment(segment: LiquiditySegment): void {
+        const binCount = segment.upperBin - segment.lowerBin + 1;
+        if (binCount <= 0 || segment.amountY <= 0) return;
+
+        const weights: number[] = [];
+        for (let binId = segment.lowerBin; binId <= segment.upperBin; binId++) {
+            const distance = Math.abs(this.referenceBin - binId);
+            switch (segment.shape) {
+                case 'Curve':
+                    weights.push(1 / (1 + distance));
+                    break;
+                case 'BidAsk':
+                    weights.push(1 + distance);
+                    break;
+                default:
+                    weights.push(1);
+            }
+        }
+
+        const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+        weights.forEach((weight, index) => {
+            const binId = segment.lowerBin + index;
+            const amount = segment.amountY * weight / totalWeight;
+            this.binLiquidity.set(binId, (this.binLiquidity.get(binId) || 0) + amount);
+        });
+    }
+}
@@ -58,6 +58,9 @@ export class GasService implements IGasService {
     private stopLossModeTimeout: NodeJS.Timeout | null = null;
     private readonly stopLossModeTimeoutMs = 30000; // 30秒后自动退出止损模式
 
+    // 🚨 紧急模式：全局一键平仓期间所有交易使用紧急优先费用，由调用方显式退出
+    private emergencyMode: boolean = false;
+
     constructor(
         @inject(TYPES.ConfigService) private configService: IConfigService,
         @inject(TYPES.LoggerService) private loggerService: ILoggerService,
@@ -223,6 +226,11 @@ export class GasService implements IGasService {
         const operationStart = Date.now();
         this.operationCount++;
         try {
+            // 🚨 紧急模式优先于止损模式
+            if (this.emergencyMode) {
+                return await this.getEmergencyMaxPriorityFee();
+            }
+
             // 🚀 止损模式检查：如果处于止损模式，直接返回止损最高级优先费用
             if (this.stopLossMode) {
                 const stopLossMaxFee = await this.getStopLossMaxPriorityFee();
@@ -324,6 +332,30 @@ export class GasService implements IGasService {
         return this.emergencyPriorityFee;
     }
 
+    /**
+     * 🚨 激活紧急模式
+     * 退出前所有交易都使用紧急优先费用（不会像止损模式一样自动超时退出）
+     */
+    async activateEmergencyMode(): Promise<number> {
+        this.emergencyMode = true;
+        const fee = await this.getEmergencyMaxPriorityFee();
+        await this.loggerService.logSystem('WARN', `🚨 已激活紧急模式，所有交易使用优先费用 ${fee} microlamports`);
+        return fee;
+    }
+
+    /**
+     * 🚨 退出紧急模式
+     */
+    deactivateEmergencyMode(): void {
+        if (!this.emergencyMode) return;
+        this.emergencyMode = false;
+        this.loggerService.logSystem('INFO', '🚨 已退出紧急模式');
+    }
+
+    isEmergencyModeActive(): boolean {
+        return this.emergencyMode;
+    }
+
     /**
      * 🚀 手动激活止损模式
      * 在后续的所有交易中使用最高级优先费用
@@ -497,6 +529,7 @@ export class GasService implements IGasService {
                     finalComputeUnitLimit,
                     newComputeUnitPrice: computeUnitPrice,
                     stopLossMode: this.stopLossMode,
+                    emergencyMode: this.emergencyMode,
                     timestamp: Date.now()
                 });
 
@@ -520,6 +553,7 @@ export class GasService implements IGasService {
                 computeUnitLimit: computeUnitLimit,
                 computeUnitPrice: computeUnitPrice,
                 stopLossMode: this.stopLossMode,
+                emergencyMode: this.emergencyMode,
                 instructionCount: transaction.instructions.length,
                 timestamp: Date.now()
             });
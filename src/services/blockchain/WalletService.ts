@@ -4,8 +4,9 @@ import * as crypto from 'crypto';
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
 import * as path from 'path';
-import { IWalletService, IConfigService, ILoggerService, IStateService, ISolanaWeb3Service, TYPES } from '../../types/interfaces';
+import { IWalletService, IConfigService, ILoggerService, IStateService, ISolanaWeb3Service, IEventBus, TYPES } from '../../types/interfaces';
 import { WalletInfo, ModuleConfig, ModuleHealth, ModuleMetrics } from '../../types/interfaces';
+import { EVENTS } from '../../infrastructure/EventBus';
 import bs58 from 'bs58';
 
 /**
@@ -27,6 +28,7 @@ export class WalletService implements IWalletService {
     private walletPath!: string;
     private currentKeypair: Keypair | null = null;
     private isUnlocked: boolean = false;
+    private unlockCallback: (() => Promise<void>) | null = null; // 解锁成功回调（策略自动恢复）
 
     // 操作统计
     private operationCount: number = 0;
@@ -44,7 +46,8 @@ export class WalletService implements IWalletService {
         @inject(TYPES.ConfigService) private configService: IConfigService,
         @inject(TYPES.LoggerService) private loggerService: ILoggerService,
         @inject(TYPES.StateService) private stateService: IStateService,
-        @inject(TYPES.SolanaWeb3Service) private solanaService: ISolanaWeb3Service
+        @inject(TYPES.SolanaWeb3Service) private solanaService: ISolanaWeb3Service,
+        @inject(TYPES.EventBus) private eventBus: IEventBus
     ) { }
 
     async initialize(config: ModuleConfig): Promise<void> {
@@ -183,6 +186,7 @@ export class WalletService implements IWalletService {
             // 设置当前钱包
             this.currentKeypair = keypair;
             this.isUnlocked = true;
+            this.publishWalletEvent(EVENTS.WALLET_CONNECTED);
 
             const walletInfo: WalletInfo = {
                 address,
@@ -472,6 +476,7 @@ export class WalletService implements IWalletService {
      * 锁定钱包
      */
     lockWallet(): void {
+        const wasUnlocked = this.isUnlocked;
         if (this.currentKeypair) {
             // 清零内存中的私钥 (安全做法)
             this.currentKeypair.secretKey.fill(0);
@@ -484,6 +489,9 @@ export class WalletService implements IWalletService {
         this.loggerService.logBusinessOperation('wallet-locked', {
             timestamp: Date.now()
         });
+        if (wasUnlocked) {
+            this.publishWalletEvent(EVENTS.WALLET_DISCONNECTED);
+        }
     }
 
     /**
@@ -492,7 +500,11 @@ export class WalletService implements IWalletService {
      */
     async unlockWallet(password: string): Promise<boolean> {
         try {
+            const wasUnlocked = this.isUnlocked;
             await this.loadWallet(password);
+            if (!wasUnlocked) {
+                this.notifyUnlocked();
+            }
             return true;
         } catch (error) {
             this.errorCount++;
@@ -501,6 +513,35 @@ export class WalletService implements IWalletService {
         }
     }
 
+    /**
+     * 设置解锁成功回调（由 StrategyManager 设置，避免循环依赖）
+     */
+    setUnlockCallback(callback: () => Promise<void>): void {
+        this.unlockCallback = callback;
+    }
+
+    /**
+     * 通知钱包已解锁：回调在后台执行，不阻塞解锁请求
+     */
+    private notifyUnlocked(): void {
+        this.publishWalletEvent(EVENTS.WALLET_CONNECTED);
+        if (!this.unlockCallback) return;
+
+        this.unlockCallback().catch(error =>
+            this.loggerService.logError('wallet-unlock-callback', '钱包解锁回调执行失败', error as Error)
+        );
+    }
+
+    /**
+     * 📡 广播钱包解锁/锁定（策略工作线程池据此立即同步私钥）
+     */
+    private publishWalletEvent(eventType: typeof EVENTS.WALLET_CONNECTED | typeof EVENTS.WALLET_DISCONNECTED): void {
+        const address = this.currentKeypair?.publicKey.toString();
+        this.eventBus.publish(eventType, { ...(address && { address }), timestamp: Date.now() }, this.name).catch(error =>
+            this.loggerService.logError('wallet-event', '钱包事件广播失败', error as Error)
+        );
+    }
+
     /**
      * 检查钱包是否已解锁
      */
@@ -732,6 +773,25 @@ export class WalletService implements IWalletService {
         return this.currentKeypair;
     }
 
+    /**
+     * 🧵 同步主线程的解锁状态（策略工作线程使用，不读取钱包文件）
+     * @param secretKey 主线程已解锁的私钥，null 表示主线程已锁定
+     */
+    syncKeypair(secretKey: Uint8Array | null): void {
+        if (!secretKey) {
+            if (this.isUnlocked) {
+                this.lockWallet();
+            }
+            return;
+        }
+
+        if (this.currentKeypair) {
+            this.currentKeypair.secretKey.fill(0);
+        }
+        this.currentKeypair = Keypair.fromSecretKey(secretKey);
+        this.isUnlocked = true;
+    }
+
     /**
      * 销毁服务，清理资源
      */
@@ -748,10 +808,15 @@ export class WalletService implements IWalletService {
         try {
             const encryptedData = await fs.readFile(this.walletPath);
             const decryptedSecretKey = await this.decryptWallet(encryptedData, password);
+            // 解密期间可能已被并发的解锁请求解锁，只在首次解锁时通知
+            const wasUnlocked = this.isUnlocked;
             this.currentKeypair = Keypair.fromSecretKey(decryptedSecretKey);
             this.isUnlocked = true;
 
             await this.loggerService.logSystem('INFO', `🔓 钱包已解锁: ${this.currentKeypair?.publicKey.toString()}`);
+            if (!wasUnlocked) {
+                this.notifyUnlocked();
+            }
             return true;
         } catch (error) {
             this.errorCount++;
@@ -790,6 +855,7 @@ export class WalletService implements IWalletService {
             // 更新当前服务状态
             this.currentKeypair = keypair;
             this.isUnlocked = true;
+            this.publishWalletEvent(EVENTS.WALLET_CONNECTED);
 
             const walletInfo: WalletInfo = {
                 address,
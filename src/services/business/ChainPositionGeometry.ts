@@ -0,0 +1,229 @@
+/**
+ * 📐 连锁头寸几何
+ *
+ * 连锁头寸由N个首尾相连的头寸（分段）组成，每个分段可以配置bin数量、流动性形状和资金权重：
+ * - below：分段从活跃bin向下排列，使用Y代币（原固定算法）
+ * - above：分段从活跃bin上方向上排列，使用由Y代币兑换的X代币
+ * - straddle：前 segmentsBelow 个分段在活跃bin下方，其余在上方
+ *
+ * 实盘（ChainPositionManager）、模拟盘（PaperTradingService）、回测（BacktestEngine）
+ * 和 ChainPositionExecutor 的范围监控共用这里的计算。
+ */
+
+export type ChainPositionDirection = 'below' | 'above' | 'straddle';
+
+// 与 LiquidityOperationService 的流动性模式一致
+export type ChainLiquidityShape = 'spot' | 'bidask' | 'curve';
+
+// 单个分段的配置
+export interface ChainPositionSegmentSpec {
+    binCount: number;                        // 头寸宽度（bin数量）
+    shape: ChainLiquidityShape;              // 创建头寸时的流动性分布
+    weight: number;                          // 资金权重（按所有分段权重之和归一化）
+    topUp?: {                                // 头寸创建后追加的流动性（仅Y代币分段）
+        shape: ChainLiquidityShape;
+        weight: number;
+    };
+}
+
+export interface ChainPositionGeometry {
+    direction: ChainPositionDirection;
+    segments: ChainPositionSegmentSpec[];    // 每一侧按从活跃bin向外的顺序排列
+    segmentsBelow?: number;                  // straddle：位于活跃bin下方的分段数量，默认一半（向上取整）
+}
+
+// 按活跃bin展开后的分段
+export interface ChainPositionSegmentRange {
+    index: number;
+    side: 'Y' | 'X';                         // Y：活跃bin及下方；X：活跃bin上方
+    lowerBin: number;
+    upperBin: number;
+    binCount: number;
+    shape: ChainLiquidityShape;
+    topUpShape?: ChainLiquidityShape;
+}
+
+// 分段资金（Y代币数量）
+export interface ChainPositionSegmentFunding {
+    base: number;
+    topUp: number;
+}
+
+export const CHAIN_SEGMENT_MAX_BINS = 69;
+export const CHAIN_MAX_SEGMENTS = 8;
+
+const DIRECTIONS: ChainPositionDirection[] = ['below', 'above', 'straddle'];
+const SHAPES: ChainLiquidityShape[] = ['spot', 'bidask', 'curve'];
+
+// 默认几何：两个69-bin头寸，20% BidAsk + 60% BidAsk + 20% Curve追加
+export const DEFAULT_CHAIN_POSITION_GEOMETRY: ChainPositionGeometry = {
+    direction: 'below',
+    segments: [
+        { binCount: 69, shape: 'bidask', weight: 20 },
+        { binCount: 69, shape: 'bidask', weight: 60, topUp: { shape: 'curve', weight: 20 } }
+    ]
+};
+
+/**
+ * 校验几何配置，返回错误列表（为空表示有效）
+ */
+export function validateChainPositionGeometry(geometry: any): string[] {
+    const errors: string[] = [];
+    if (!geometry || typeof geometry !== 'object') {
+        return ['geometry 必须是对象'];
+    }
+
+    if (!DIRECTIONS.includes(geometry.direction)) {
+        errors.push(`geometry.direction 必须是 ${DIRECTIONS.join('/')}`);
+    }
+
+    const segments = geometry.segments;
+    if (!Array.isArray(segments) || segments.length === 0) {
+        errors.push('geometry.segments 至少需要一个分段');
+        return errors;
+    }
+    if (segments.length > CHAIN_MAX_SEGMENTS) {
+        errors.push(`geometry.segments 最多 ${CHAIN_MAX_SEGMENTS} 个分段`);
+    }
+
+    segments.forEach((segment: any, index: number) => {
+        const path = `geometry.segments[${index}]`;
+        if (!segment || typeof segment !== 'object') {
+            errors.push(`${path} 必须是对象`);
+            return;
+        }
+        if (!Number.isInteger(segment.binCount) || segment.binCount < 1 || segment.binCount > CHAIN_SEGMENT_MAX_BINS) {
+            errors.push(`${path}.binCount 必须是 1-${CHAIN_SEGMENT_MAX_BINS} 的整数`);
+        }
+        if (!SHAPES.includes(segment.shape)) {
+            errors.push(`${path}.shape 必须是 ${SHAPES.join('/')}`);
+        }
+        if (typeof segment.weight !== 'number' || !(segment.weight > 0)) {
+            errors.push(`${path}.weight 必须是正数`);
+        }
+        if (segment.topUp !== undefined) {
+            if (!segment.topUp || !SHAPES.includes(segment.topUp.shape)) {
+                errors.push(`${path}.topUp.shape 必须是 ${SHAPES.join('/')}`);
+            }
+            if (typeof segment.topUp?.weight !== 'number' || !(segment.topUp.weight > 0)) {
+                errors.push(`${path}.topUp.weight 必须是正数`);
+            }
+        }
+    });
+
+    if (geometry.segmentsBelow !== undefined) {
+        if (geometry.direction !== 'straddle') {
+            errors.push('geometry.segmentsBelow 只适用于 straddle');
+        } else if (!Number.isInteger(geometry.segmentsBelow) || geometry.segmentsBelow < 1 || geometry.segmentsBelow >= segments.length) {
+            errors.push(`geometry.segmentsBelow 必须是 1-${segments.length - 1} 的整数`);
+        }
+    }
+    if (geometry.direction === 'straddle' && segments.length < 2) {
+        errors.push('straddle 至少需要两个分段');
+    }
+
+    // 活跃bin上方的分段使用X代币，追加流动性只支持Y代币
+    if (errors.length === 0) {
+        calculateChainSegmentRanges(geometry, 0).forEach(range => {
+            if (range.side === 'X' && range.topUpShape) {
+                errors.push(`geometry.segments[${range.index}] 位于活跃bin上方，不支持 topUp`);
+            }
+        });
+    }
+
+    return errors;
+}
+
+/**
+ * 返回实例使用的几何：未配置时使用默认几何，配置无效时抛出错误
+ */
+export function resolveChainPositionGeometry(geometry?: ChainPositionGeometry | null): ChainPositionGeometry {
+    if (!geometry) {
+        return DEFAULT_CHAIN_POSITION_GEOMETRY;
+    }
+
+    const errors = validateChainPositionGeometry(geometry);
+    if (errors.length > 0) {
+        throw new Error(`连锁头寸几何配置无效: ${errors.join('; ')}`);
+    }
+    return geometry;
+}
+
+/**
+ * 按活跃bin展开分段范围（顺序与 geometry.segments 一致，分段之间无重叠、无间隙）
+ */
+export function calculateChainSegmentRanges(geometry: ChainPositionGeometry, activeBin: number): ChainPositionSegmentRange[] {
+    const belowCount = geometry.direction === 'below'
+        ? geometry.segments.length
+        : geometry.direction === 'above'
+            ? 0
+            : geometry.segmentsBelow ?? Math.ceil(geometry.segments.length / 2);
+
+    let nextUpper = activeBin;       // 下方分段从活跃bin开始向下
+    let nextLower = activeBin + 1;   // 上方分段从活跃bin上一个bin开始向上
+
+    return geometry.segments.map((segment, index) => {
+        let lowerBin: number;
+        let upperBin: number;
+        if (index < belowCount) {
+            upperBin = nextUpper;
+            lowerBin = upperBin - segment.binCount + 1;
+            nextUpper = lowerBin - 1;
+        } else {
+            lowerBin = nextLower;
+            upperBin = lowerBin + segment.binCount - 1;
+            nextLower = upperBin + 1;
+        }
+
+        return {
+            index,
+            side: index < belowCount ? 'Y' : 'X',
+            lowerBin,
+            upperBin,
+            binCount: segment.binCount,
+            shape: segment.shape,
+            ...(segment.topUp && { topUpShape: segment.topUp.shape })
+        };
+    });
+}
+
+/**
+ * 按权重分配资金（Y代币），各分段 base + topUp 之和等于 totalAmount
+ */
+export function calculateChainSegmentFunding(geometry: ChainPositionGeometry, totalAmount: number): ChainPositionSegmentFunding[] {
+    const totalWeight = geometry.segments.reduce((sum, segment) => sum + segment.weight + (segment.topUp?.weight || 0), 0);
+
+    return geometry.segments.map(segment => ({
+        base: totalAmount * segment.weight / totalWeight,
+        topUp: totalAmount * (segment.topUp?.weight || 0) / totalWeight
+    }));
+}
+
+/**
+ * 监控范围：所有分段的合并范围，并包含创建时的活跃bin（above几何的分段从活跃bin上方开始）
+ */
+export function getChainMonitoredRange(ranges: ChainPositionSegmentRange[], activeBin: number): [number, number] {
+    return [
+        Math.min(activeBin, ...ranges.map(range => range.lowerBin)),
+        Math.max(activeBin, ...ranges.map(range => range.upperBin))
+    ];
+}
+
+export function getChainGeometryBinCount(geometry: ChainPositionGeometry): number {
+    return geometry.segments.reduce((sum, segment) => sum + segment.binCount, 0);
+}
+
+/**
+ * 几何摘要（用于日志），如 below: 69(bidask 20%) + 69(bidask 60% + curve 20%)
+ */
+export function describeChainPositionGeometry(geometry: ChainPositionGeometry): string {
+    const funding = calculateChainSegmentFunding(geometry, 100);
+    const segments = geometry.segments.map((segment, index) => {
+        const parts = [`${segment.shape} ${funding[index]!.base.toFixed(0)}%`];
+        if (segment.topUp) {
+            parts.push(`${segment.topUp.shape} ${funding[index]!.topUp.toFixed(0)}%`);
+        }
+        return `${segment.binCount}(${parts.join(' + ')})`;
+    });
+    return `${geometry.direction}: ${segments.join(' + ')}`;
+}
@@ -2,11 +2,17 @@ import { injectable, inject } from 'tsyringe';
 import { PublicKey } from '@solana/web3.js';
 import {
     IConfigService, ILoggerService, IMeteoraService, ISolanaWeb3Service,
-    IWalletService, IYPositionManager, TYPES, ModuleConfig, ModuleHealth,
+    IWalletService, IYPositionManager, IXPositionManager, IJupiterService, TYPES, ModuleConfig, ModuleHealth,
     ModuleMetrics, PositionResult, IService
 } from '../../types/interfaces';
 import { LiquidityOperationService } from './LiquidityOperationService';
 import { SynchronousRetryManager } from '../modules/SynchronousRetryManager';
+import { TokenPrecisionConverter } from '../../utils/TokenPrecisionConverter';
+import {
+    ChainPositionGeometry, ChainPositionSegmentRange, ChainPositionSegmentFunding, ChainLiquidityShape,
+    resolveChainPositionGeometry, calculateChainSegmentRanges, calculateChainSegmentFunding,
+    getChainMonitoredRange, getChainGeometryBinCount, describeChainPositionGeometry
+} from './ChainPositionGeometry';
 
 // 连锁头寸创建参数接口
 export interface ChainPositionParams {
@@ -14,51 +20,68 @@ export interface ChainPositionParams {
     totalAmount: number;
     slippageBps?: number;
     password?: string;
+    geometry?: ChainPositionGeometry;   // 未配置时使用默认几何（两个69-bin头寸）
+}
+
+// 单个Y代币分段的创建参数（向上跟随滚动时在连锁头寸顶部新建分段）
+export interface ChainSegmentParams {
+    poolAddress: string;
+    lowerBin: number;
+    upperBin: number;
+    shape: ChainLiquidityShape;
+    topUpShape?: ChainLiquidityShape;
+    funding: ChainPositionSegmentFunding;   // Y代币数量
+    slippageBps?: number;
+    password?: string;
 }
 
 // 连锁头寸范围计算结果
 export interface ChainPositionRanges {
     activeBin: number;
-    position1Lower: number;
-    position1Upper: number;
-    position2Lower: number;
-    position2Upper: number;
+    geometry: ChainPositionGeometry;
+    segments: ChainPositionSegmentRange[];
+    totalBinRange: [number, number];    // 所有分段的合并范围
+    monitoredRange: [number, number];   // 合并范围并包含创建时的活跃bin
     totalBinCount: number;
     validated: boolean;
 }
 
+// 单个分段的创建结果
+export interface ChainPositionSegmentResult extends ChainPositionSegmentRange {
+    positionAddress: string;
+    signature: string;
+    amount: number;                     // 分段资金（Y代币数量，X分段为兑换前的Y数量）
+    topUpAmount: number;
+    topUpSignature?: string;
+}
+
 // 连锁头寸创建结果
 export interface ChainPositionResult {
     success: boolean;
-    position1Address?: string;
-    position2Address?: string;
-    position1Signature?: string;
-    position2BaseSignature?: string;
-    position2CurveSignature?: string;
+    positionAddresses?: string[];       // 按分段顺序排列
+    segments?: ChainPositionSegmentResult[];
+    position1Address?: string;          // 兼容字段：第1个分段
+    position2Address?: string;          // 兼容字段：第2个分段
     totalBinRange?: [number, number];
-    fundingAllocation?: {
-        position1: number;
-        position2Base: number;
-        position2Curve: number;
-    };
+    monitoredRange?: [number, number];
+    swapSignature?: string;             // X分段资金的Y→X兑换交易
     error?: string;
     gasUsed?: number;
 }
 
 /**
  * 连锁头寸管理器
- * 实现连锁头寸创建方法：通过创建两个连续的69个bin头寸，
- * 形成完整的138个bin范围覆盖，采用差异化资金分配和流动性分布策略
+ * 按几何配置（ChainPositionGeometry）创建N个首尾相连的头寸，
+ * 形成连续的价格范围覆盖，各分段可采用不同的流动性分布和资金权重
  * 
  * 核心特性：
- * - 两个连续头寸：每个头寸覆盖69个bin
- * - 无缝连接：头寸间无重叠、无间隙
- * - 完整覆盖：总共138个bin的连续价格范围
- * - 差异化策略：不同头寸采用不同的资金分配和流动性模式
+ * - 连续分段：每个分段最多69个bin，分段间无重叠、无间隙
+ * - 方向：活跃bin下方（Y代币）、上方（X代币）或跨越活跃bin
+ * - 差异化策略：每个分段单独配置流动性形状、资金权重和追加流动性
  * 
- * 资金分配策略：
- * - 头寸1 (高价格范围): 20%资金，BidAsk模式
- * - 头寸2 (低价格范围): 80%资金，BidAsk基础60% + Curve追加20%
+ * 默认几何（未配置时）：
+ * - 头寸1 (高价格范围): 69个bin，20%资金，BidAsk模式
+ * - 头寸2 (低价格范围): 69个bin，BidAsk基础60% + Curve追加20%
  */
 @injectable()
 export class ChainPositionManager implements IService {
@@ -66,25 +89,13 @@ export class ChainPositionManager implements IService {
     public readonly version = '2.0.0';
     public readonly dependencies = [
         'ConfigService', 'LoggerService', 'MeteoraService',
-        'YPositionManager', 'LiquidityOperationService'
+        'YPositionManager', 'XPositionManager', 'JupiterService', 'LiquidityOperationService'
     ];
 
     private config: any;
     private requestCount: number = 0;
     private errorCount: number = 0;
 
-    // 连锁头寸策略常量
-    private readonly CHAIN_POSITION_CONFIG = {
-        SINGLE_POSITION_BIN_COUNT: 69,
-        TOTAL_BIN_COUNT: 138,
-        POSITION_COUNT: 2,
-        FUNDING_ALLOCATION: {
-            POSITION1_PERCENTAGE: 0.2,      // 20%
-            POSITION2_BASE_PERCENTAGE: 0.6,  // 60%
-            POSITION2_CURVE_PERCENTAGE: 0.2  // 20%
-        }
-    };
-
     constructor(
         @inject(TYPES.ConfigService) private configService: IConfigService,
         @inject(TYPES.LoggerService) private loggerService: ILoggerService,
@@ -93,7 +104,9 @@ export class ChainPositionManager implements IService {
         @inject(TYPES.WalletService) private walletService: IWalletService,
         @inject(TYPES.YPositionManager) private yPositionManager: IYPositionManager,
         @inject(LiquidityOperationService) private liquidityOperationService: LiquidityOperationService,
-        @inject(TYPES.SynchronousRetryManager) private synchronousRetryManager: SynchronousRetryManager
+        @inject(TYPES.SynchronousRetryManager) private synchronousRetryManager: SynchronousRetryManager,
+        @inject(TYPES.XPositionManager) private xPositionManager: IXPositionManager,
+        @inject(TYPES.JupiterService) private jupiterService: IJupiterService
     ) { }
 
     async initialize(config: ModuleConfig): Promise<void> {
@@ -145,18 +158,24 @@ export class ChainPositionManager implements IService {
 
     /**
      * 创建连锁头寸 - 带重试机制的修复版本
-     * 按照指南文档的精确算法创建两个连续的69个bin头寸
+     * 按几何配置创建所有分段头寸
      * 
      * 修复逻辑：
-     * 1. 部分成功场景：1个头寸成功 + 1个头寸失败 → 关闭成功的头寸 → 重试创建连锁头寸
-     * 2. 全部失败场景：2个头寸都失败 → 无需关闭 → 直接使用标准重试模块重试
+     * 1. 部分成功场景：部分分段成功 → 关闭成功的分段 → 重试创建连锁头寸
+     * 2. 全部失败场景：所有分段都失败 → 无需关闭 → 直接使用标准重试模块重试
+     * 
+     * 活跃bin上方的X分段所需的X代币在重试之前一次性由Y代币兑换，重试时复用
      */
     async createChainPosition(params: ChainPositionParams): Promise<ChainPositionResult> {
+        const geometry = resolveChainPositionGeometry(params.geometry);
+        const funding = calculateChainSegmentFunding(geometry, params.totalAmount);
+        const xFunding = await this.prepareXSegmentFunding(params, geometry, funding);
+
         // 设置连锁头寸创建的重试参数
         const retryConfig = {
             maxAttempts: 3,
             retryableErrors: [
-                '头寸1创建失败', '头寸2基础创建失败', '连锁头寸创建失败',
+                '头寸创建失败', '连锁头寸创建失败',
                 '交易验证超时', '交易失败', 'RPC_ERROR', 'NETWORK_ERROR',
                 'SLIPPAGE_ERROR', 'failed to get info about account',
                 '连锁头寸创建部分失败'
@@ -164,159 +183,145 @@ export class ChainPositionManager implements IService {
             delayMs: 15000 // 15秒间隔
         };
 
-        return await this.synchronousRetryManager.executeAsyncWithRetry(
-            {
-                execute: async () => {
-                    return await this.createChainPositionInternal(params);
-                }
-            },
-            'chain.position.create',
-            (params as any).instanceId || 'unknown',
-            retryConfig
-        );
+        try {
+            const result = await this.synchronousRetryManager.executeAsyncWithRetry(
+                {
+                    execute: async () => {
+                        return await this.createChainPositionInternal(params, geometry, funding, xFunding.amountsRaw);
+                    }
+                },
+                'chain.position.create',
+                (params as any).instanceId || 'unknown',
+                retryConfig
+            );
+            return { ...result, ...(xFunding.signature && { swapSignature: xFunding.signature }) };
+        } catch (error) {
+            if (xFunding.signature) {
+                await this.loggerService.logSystem('WARN',
+                    `连锁头寸创建失败，X分段兑换所得的X代币保留在钱包中: ${xFunding.signature}`);
+            }
+            throw error;
+        }
     }
 
     /**
      * 内部连锁头寸创建逻辑 - 带部分成功恢复机制
      */
-    private async createChainPositionInternal(params: ChainPositionParams): Promise<ChainPositionResult> {
+    private async createChainPositionInternal(
+        params: ChainPositionParams,
+        geometry: ChainPositionGeometry,
+        funding: ChainPositionSegmentFunding[],
+        xAmountsRaw: Map<number, string>
+    ): Promise<ChainPositionResult> {
         try {
             await this.loggerService.logBusinessOperation('🔗 开始创建连锁头寸', {
                 poolAddress: params.poolAddress.substring(0, 8) + '...',
-                totalAmount: params.totalAmount
+                totalAmount: params.totalAmount,
+                geometry: describeChainPositionGeometry(geometry)
             });
 
             this.requestCount++;
 
             // 1. 参数验证与范围计算
-            const ranges = await this.calculateChainPositionRanges(params.poolAddress);
+            const ranges = await this.calculateChainPositionRanges(params.poolAddress, geometry);
             if (!ranges.validated) {
                 throw new Error('连锁头寸范围计算验证失败');
             }
 
             await this.loggerService.logBusinessOperation('📊 连锁头寸范围计算完成', {
                 activeBin: ranges.activeBin,
-                position1Range: `[${ranges.position1Lower}, ${ranges.position1Upper}]`,
-                position2Range: `[${ranges.position2Lower}, ${ranges.position2Upper}]`,
+                segments: ranges.segments.map(segment => `${segment.side}[${segment.lowerBin}, ${segment.upperBin}]`),
                 totalBins: ranges.totalBinCount
             });
 
-            // 2. 资金分配计算
-            const fundingAllocation = this.calculateFundingAllocation(params.totalAmount);
-
             await this.loggerService.logBusinessOperation('💰 资金分配策略', {
-                position1Amount: fundingAllocation.position1,
-                position2BaseAmount: fundingAllocation.position2Base,
-                position2CurveAmount: fundingAllocation.position2Curve,
+                segments: funding.map((segmentFunding, index) => ({
+                    segment: index + 1,
+                    base: segmentFunding.base,
+                    topUp: segmentFunding.topUp,
+                    ...(xAmountsRaw.has(index) && { xAmountRaw: xAmountsRaw.get(index) })
+                })),
                 totalAmount: params.totalAmount
             });
 
-            // 3. 并行创建头寸1和头寸2基础部分（优化性能）
-            const [position1Result, position2BaseResult] = await Promise.all([
-                this.createPosition1(params, ranges, fundingAllocation.position1),
-                this.createPosition2Base(params, ranges, fundingAllocation.position2Base)
-            ]);
+            // 2. 并行创建所有分段的基础头寸（优化性能）
+            const segmentResults = await Promise.all(ranges.segments.map(segment =>
+                this.createSegmentPosition(params, ranges.activeBin, segment, segment.side === 'X'
+                    ? xAmountsRaw.get(segment.index)!
+                    : funding[segment.index]!.base.toString())
+            ));
 
             // 🔧 修复：检查部分成功场景并进行恢复
-            const position1Success = position1Result.success;
-            const position2Success = position2BaseResult.success;
-
-            if (position1Success && position2Success) {
-                // 两个头寸都成功 - 继续正常流程
-                await this.loggerService.logBusinessOperation('[CHAIN-POSITION-RETRY] ✅ 两个头寸都创建成功', {
-                    position1Address: position1Result.positionAddress,
-                    position2Address: position2BaseResult.positionAddress
-                });
-            } else if (!position1Success && !position2Success) {
-                // 两个头寸都失败 - 抛出异常让重试机制处理
-                await this.loggerService.logBusinessOperation('[CHAIN-POSITION-RETRY] ❌ 两个头寸都创建失败，触发重试', {
-                    position1Error: position1Result.error,
-                    position2Error: position2BaseResult.error
+            const succeeded = segmentResults.filter(result => result.success);
+
+            if (succeeded.length === segmentResults.length) {
+                await this.loggerService.logBusinessOperation('[CHAIN-POSITION-RETRY] ✅ 所有分段头寸都创建成功', {
+                    positionAddresses: segmentResults.map(result => result.positionAddress)
                 });
-                throw new Error(`连锁头寸创建失败: 头寸1=${position1Result.error}, 头寸2=${position2BaseResult.error}`);
+            } else if (succeeded.length === 0) {
+                // 所有分段都失败 - 抛出异常让重试机制处理
+                const errors = segmentResults.map((result, index) => `头寸${index + 1}=${result.error}`);
+                await this.loggerService.logBusinessOperation('[CHAIN-POSITION-RETRY] ❌ 所有分段头寸都创建失败，触发重试', { errors });
+                throw new Error(`连锁头寸创建失败: ${errors.join(', ')}`);
             } else {
-                // 部分成功场景 - 需要关闭成功的头寸并重试
+                // 部分成功场景 - 需要关闭成功的分段并重试
+                const successNames = segmentResults.flatMap((result, index) => result.success ? [`头寸${index + 1}`] : []);
+                const failedErrors = segmentResults.flatMap((result, index) => result.success ? [] : [`头寸${index + 1}失败=${result.error}`]);
+
                 await this.loggerService.logBusinessOperation('[PARTIAL-SUCCESS-RECOVERY] ⚠️ 检测到部分成功场景', {
-                    position1Success,
-                    position2Success,
-                    position1Address: position1Result.positionAddress,
-                    position2Address: position2BaseResult.positionAddress
+                    successPositions: successNames,
+                    positionAddresses: succeeded.map(result => result.positionAddress),
+                    failedErrors
                 });
 
-                // 确定需要关闭的头寸
-                const successPosition = position1Success ? position1Result.positionAddress : position2BaseResult.positionAddress;
-                const successPositionName = position1Success ? '头寸1' : '头寸2';
-                const failedPositionName = position1Success ? '头寸2' : '头寸1';
-                const failedError = position1Success ? position2BaseResult.error : position1Result.error;
-
-                await this.loggerService.logBusinessOperation('[PARTIAL-SUCCESS-RECOVERY] 🔄 开始关闭成功的头寸', {
-                    successPosition,
-                    successPositionName,
-                    failedPositionName,
-                    failedError
-                });
+                for (const result of succeeded) {
+                    const successPosition = result.positionAddress!;
+                    const closeResult = await this.closeSuccessfulPosition(successPosition);
+
+                    if (!closeResult.success) {
+                        await this.loggerService.logBusinessOperation('[PARTIAL-SUCCESS-RECOVERY] ❌ 关闭成功头寸失败', {
+                            positionAddress: successPosition,
+                            closeError: closeResult.error
+                        });
+                        throw new Error(`关闭成功头寸失败 ${successPosition}: ${closeResult.error}`);
+                    }
 
-                // 关闭成功的头寸
-                const closeResult = await this.closeSuccessfulPosition(successPosition!);
-                
-                if (!closeResult.success) {
-                    await this.loggerService.logBusinessOperation('[PARTIAL-SUCCESS-RECOVERY] ❌ 关闭成功头寸失败', {
+                    await this.loggerService.logBusinessOperation('[PARTIAL-SUCCESS-RECOVERY] ✅ 成功头寸已关闭', {
                         positionAddress: successPosition,
-                        closeError: closeResult.error
+                        signature: closeResult.signature
                     });
-                    throw new Error(`关闭${successPositionName}失败: ${closeResult.error}`);
-                }
 
-                await this.loggerService.logBusinessOperation('[PARTIAL-SUCCESS-RECOVERY] ✅ 成功头寸已关闭', {
-                    positionAddress: successPosition,
-                    signature: closeResult.signature
-                });
-
-                // 清理成功头寸的状态
-                await this.cleanupPositionState(successPosition!);
+                    // 清理成功头寸的状态
+                    await this.cleanupPositionState(successPosition);
+                }
 
                 // 抛出异常触发重试
-                throw new Error(`连锁头寸创建部分失败，已关闭${successPositionName}，重试创建: ${failedPositionName}失败=${failedError}`);
+                throw new Error(`连锁头寸创建部分失败，已关闭${successNames.join('、')}，重试创建: ${failedErrors.join(', ')}`);
             }
 
-            await this.loggerService.logBusinessOperation('✅ 头寸基础创建完成', {
-                position1Address: position1Result.positionAddress,
-                position2Address: position2BaseResult.positionAddress
-            });
-
-            // 4. 向头寸2添加Curve流动性（20%资金）
-            const position2CurveResult = await this.addCurveLiquidityToPosition2(
-                position2BaseResult.positionAddress!,
-                params,
-                fundingAllocation.position2Curve
-            );
-
-            if (!position2CurveResult.success) {
-                await this.loggerService.logSystem('WARN',
-                    `头寸2 Curve流动性添加失败，但基础头寸已创建: ${position2CurveResult.error}`);
+            // 3. 向配置了追加流动性的分段添加流动性
+            const segments: ChainPositionSegmentResult[] = [];
+            for (const segment of ranges.segments) {
+                segments.push(await this.completeSegment(params, segment, segmentResults[segment.index]!, funding[segment.index]!));
             }
 
+            const positionAddresses = segments.map(segment => segment.positionAddress);
+
             await this.loggerService.logBusinessOperation('🎯 连锁头寸创建成功', {
-                position1Address: position1Result.positionAddress,
-                position2Address: position2BaseResult.positionAddress,
-                totalBinRange: [ranges.position2Lower, ranges.position1Upper],
-                fundingStrategy: '20%-60%-20%分配'
+                positionAddresses,
+                totalBinRange: ranges.totalBinRange,
+                fundingStrategy: describeChainPositionGeometry(geometry)
             });
 
             return {
                 success: true,
-                position1Address: position1Result.positionAddress!,
-                position2Address: position2BaseResult.positionAddress!,
-                position1Signature: position1Result.signature!,
-                position2BaseSignature: position2BaseResult.signature!,
-                position2CurveSignature: position2CurveResult.signature || '',
-                totalBinRange: [ranges.position2Lower, ranges.position1Upper],
-                fundingAllocation: {
-                    position1: fundingAllocation.position1,
-                    position2Base: fundingAllocation.position2Base,
-                    position2Curve: fundingAllocation.position2Curve
-                },
-                gasUsed: (position1Result.gasUsed || 0) + (position2BaseResult.gasUsed || 0)
+                positionAddresses,
+                segments,
+                ...(positionAddresses[0] && { position1Address: positionAddresses[0] }),
+                ...(positionAddresses[1] && { position2Address: positionAddresses[1] }),
+                totalBinRange: ranges.totalBinRange,
+                monitoredRange: ranges.monitoredRange,
+                gasUsed: segmentResults.reduce((sum, result) => sum + (result.gasUsed || 0), 0)
             };
 
         } catch (error) {
@@ -329,48 +334,79 @@ export class ChainPositionManager implements IService {
         }
     }
 
+    /**
+     * 在指定范围创建单个Y代币分段（向上跟随滚动时使用，范围由调用方保证位于活跃bin及下方）
+     */
+    async createChainSegment(params: ChainSegmentParams): Promise<ChainPositionResult> {
+        try {
+            this.requestCount++;
+
+            const activeBin = await this.meteoraService.getActiveBin(params.poolAddress);
+            const segment: ChainPositionSegmentRange = {
+                index: 0,
+                side: 'Y',
+                lowerBin: params.lowerBin,
+                upperBin: params.upperBin,
+                binCount: params.upperBin - params.lowerBin + 1,
+                shape: params.shape,
+                ...(params.topUpShape && { topUpShape: params.topUpShape })
+            };
+
+            const result = await this.createSegmentPosition(params, activeBin, segment, params.funding.base.toString());
+            if (!result.success) {
+                throw new Error(result.error || '头寸创建失败');
+            }
+
+            const segmentResult = await this.completeSegment(params, segment, result, params.funding);
+            return {
+                success: true,
+                positionAddresses: [segmentResult.positionAddress],
+                segments: [segmentResult],
+                totalBinRange: [segment.lowerBin, segment.upperBin],
+                gasUsed: result.gasUsed || 0
+            };
+        } catch (error) {
+            this.errorCount++;
+            await this.loggerService.logError('Module', '分段头寸创建失败', error as Error);
+            return { success: false, error: error instanceof Error ? error.message : '分段头寸创建失败' };
+        }
+    }
+
     /**
      * 计算连锁头寸范围
-     * 实现指南文档中的精确算法：
+     * 按几何配置从活跃bin展开各分段，默认几何：
      * - 头寸1 (高价格): [activeBin-68, activeBin] (69个bin)
      * - 头寸2 (低价格): [activeBin-137, activeBin-69] (69个bin)
      */
-    async calculateChainPositionRanges(poolAddress: string): Promise<ChainPositionRanges> {
+    async calculateChainPositionRanges(poolAddress: string, geometry?: ChainPositionGeometry): Promise<ChainPositionRanges> {
         try {
+            const resolvedGeometry = resolveChainPositionGeometry(geometry);
+
             // 获取活跃bin
             const activeBin = await this.meteoraService.getActiveBin(poolAddress);
+            const segments = calculateChainSegmentRanges(resolvedGeometry, activeBin);
 
-            // 按照指南文档的精确计算公式
-            // 头寸1 (高价格范围) - 69个bin
-            const position1Upper = activeBin;           // 上界包含活跃bin
-            const position1Lower = activeBin - 68;      // 下界 (69个bin范围)
-
-            // 头寸2 (低价格范围) - 69个bin
-            const position2Upper = activeBin - 69;      // 上界紧邻头寸1下界
-            const position2Lower = activeBin - 137;     // 下界 (69个bin范围)
-
-            // 验证计算结果
-            const position1BinCount = position1Upper - position1Lower + 1;
-            const position2BinCount = position2Upper - position2Lower + 1;
-            const totalBinCount = position1Upper - position2Lower + 1;
-            const isConnected = position2Upper + 1 === position1Lower;
+            // 验证计算结果：分段宽度与配置一致，且合并后连续无重叠
+            const sorted = [...segments].sort((a, b) => a.lowerBin - b.lowerBin);
+            const isConnected = sorted.every((segment, index) => index === 0 || sorted[index - 1]!.upperBin + 1 === segment.lowerBin);
+            const totalBinRange: [number, number] = [sorted[0]!.lowerBin, sorted[sorted.length - 1]!.upperBin];
+            const totalBinCount = totalBinRange[1] - totalBinRange[0] + 1;
 
             const validated = (
-                position1BinCount === this.CHAIN_POSITION_CONFIG.SINGLE_POSITION_BIN_COUNT &&
-                position2BinCount === this.CHAIN_POSITION_CONFIG.SINGLE_POSITION_BIN_COUNT &&
-                totalBinCount === this.CHAIN_POSITION_CONFIG.TOTAL_BIN_COUNT &&
+                segments.every(segment => segment.upperBin - segment.lowerBin + 1 === segment.binCount) &&
+                totalBinCount === getChainGeometryBinCount(resolvedGeometry) &&
                 isConnected
             );
 
             await this.loggerService.logSystem('DEBUG', '🔍 连锁头寸范围验证结果',
-                `position1BinCount: ${position1BinCount}, position2BinCount: ${position2BinCount}, totalBinCount: ${totalBinCount}, isConnected: ${isConnected}, validated: ${validated}`);
+                `segmentCount: ${segments.length}, totalBinCount: ${totalBinCount}, isConnected: ${isConnected}, validated: ${validated}`);
 
             return {
                 activeBin,
-                position1Lower,
-                position1Upper,
-                position2Lower,
-                position2Upper,
+                geometry: resolvedGeometry,
+                segments,
+                totalBinRange,
+                monitoredRange: getChainMonitoredRange(segments, activeBin),
                 totalBinCount,
                 validated
             };
@@ -382,58 +418,103 @@ export class ChainPositionManager implements IService {
     }
 
     /**
-     * 计算资金分配
-     * 按照20%-60%-20%的策略分配
+     * 为X分段准备X代币：将X分段的Y资金一次性兑换为X，按分段资金比例拆分（原子单位）
      */
-    private calculateFundingAllocation(totalAmount: number): {
-        position1: number;
-        position2Base: number;
-        position2Curve: number;
-    } {
-        const { FUNDING_ALLOCATION } = this.CHAIN_POSITION_CONFIG;
+    private async prepareXSegmentFunding(
+        params: ChainPositionParams,
+        geometry: ChainPositionGeometry,
+        funding: ChainPositionSegmentFunding[]
+    ): Promise<{ amountsRaw: Map<number, string>; signature?: string }> {
+        const amountsRaw = new Map<number, string>();
+        const xSegments = calculateChainSegmentRanges(geometry, 0).filter(segment => segment.side === 'X');
+        if (xSegments.length === 0) {
+            return { amountsRaw };
+        }
 
-        return {
-            position1: totalAmount * FUNDING_ALLOCATION.POSITION1_PERCENTAGE,
-            position2Base: totalAmount * FUNDING_ALLOCATION.POSITION2_BASE_PERCENTAGE,
-            position2Curve: totalAmount * FUNDING_ALLOCATION.POSITION2_CURVE_PERCENTAGE
-        };
+        const keypair = this.walletService.getCurrentKeypair();
+        if (!keypair) {
+            throw new Error('钱包未解锁，无法兑换X分段所需的X代币');
+        }
+
+        const xAmountY = xSegments.reduce((sum, segment) => sum + funding[segment.index]!.base, 0);
+        const reserves = await this.meteoraService.getPoolReserves(params.poolAddress);
+
+        await this.loggerService.logBusinessOperation('🔄 兑换X分段所需的X代币', {
+            poolAddress: params.poolAddress.substring(0, 8) + '...',
+            segments: xSegments.map(segment => segment.index + 1),
+            amountY: xAmountY
+        });
+
+        const swapResult = await this.jupiterService.executeSwap({
+            inputMint: reserves.tokenY,
+            outputMint: reserves.tokenX,
+            amount: TokenPrecisionConverter.formattedToRaw(xAmountY, reserves.tokenYDecimals),
+            slippageBps: params.slippageBps || 1000,
+            userPublicKey: keypair.publicKey.toString(),
+            ...((params as any).instanceId && { instanceId: (params as any).instanceId })
+        });
+
+        // 🚨 验证交易状态（与流动性执行服务一致）
+        const verification = await (this.solanaService as any).verifyTransactionWithRetry(swapResult.signature, 4);
+        if (verification?.status === 'failed') {
+            throw new Error(`X分段兑换交易失败: ${swapResult.signature}`);
+        }
+
+        const outputRaw = Number(swapResult.outputAmount);
+        xSegments.forEach(segment => {
+            const share = funding[segment.index]!.base / xAmountY;
+            amountsRaw.set(segment.index, Math.floor(outputRaw * share).toString());
+        });
+
+        await this.loggerService.logBusinessOperation('✅ X分段兑换完成', {
+            signature: swapResult.signature,
+            outputAmount: swapResult.outputAmount,
+            amountsRaw: Object.fromEntries(amountsRaw)
+        });
+
+        return { amountsRaw, signature: swapResult.signature };
     }
 
     /**
-     * 创建头寸1 (高价格范围，20%资金，BidAsk模式)
+     * 创建单个分段头寸：Y分段使用Y代币（amount为人类可读数量），X分段使用X代币（amount为原子单位）
      */
-    private async createPosition1(
-        params: ChainPositionParams,
-        ranges: ChainPositionRanges,
-        amount: number
+    private async createSegmentPosition(
+        params: Pick<ChainPositionParams, 'poolAddress' | 'password' | 'slippageBps'>,
+        activeBin: number,
+        segment: ChainPositionSegmentRange,
+        amount: string
     ): Promise<PositionResult> {
+        const segmentName = `头寸${segment.index + 1}`;
         try {
             // 获取实例ID（如果存在）
             const instanceId = (params as any).instanceId;
 
-            await this.loggerService.logFilteredInstanceOperation('📈 创建头寸1 (高价格范围)', {
-                range: `[${ranges.position1Lower}, ${ranges.position1Upper}]`,
-                amount: amount,
-                strategy: 'BidAsk',
+            await this.loggerService.logFilteredInstanceOperation(`${segment.side === 'Y' ? '📉' : '📈'} 创建${segmentName} (${segment.side}代币)`, {
+                range: `[${segment.lowerBin}, ${segment.upperBin}]`,
+                amount,
+                strategy: segment.shape,
                 instanceId
             }, instanceId);
 
-            const position1Params = {
+            const segmentParams = {
                 poolAddress: params.poolAddress,
-                lowerBinId: ranges.position1Lower,
-                upperBinId: ranges.position1Upper,
-                amount: amount.toString(),
-                tokenMint: '',  // Y头寸将使用池的tokenY
-                binRange: this.CHAIN_POSITION_CONFIG.SINGLE_POSITION_BIN_COUNT,
-                activeBin: ranges.activeBin,
+                lowerBinId: segment.lowerBin,
+                upperBinId: segment.upperBin,
+                amount,
+                tokenMint: '',  // 使用池的tokenX/tokenY
+                binRange: segment.binCount,
+                activeBin,
+                liquidityMode: segment.shape,
                 password: params.password,
                 slippageBps: params.slippageBps || 800
             };
 
-            const result = await this.yPositionManager.createYPosition(position1Params);
+            const result = segment.side === 'Y'
+                ? await this.yPositionManager.createYPosition(segmentParams)
+                : await this.xPositionManager.createXPosition(segmentParams);
 
             if (result.success) {
-                await this.loggerService.logFilteredInstanceOperation('✅ 头寸1创建成功', {
+                await this.loggerService.logFilteredInstanceOperation(`✅ ${segmentName}创建成功`, {
                     positionAddress: result.positionAddress,
                     signature: result.signature,
                     instanceId
@@ -443,10 +524,10 @@ export class ChainPositionManager implements IService {
             return result;
 
         } catch (error) {
-            await this.loggerService.logError('Module', '❌ 头寸1创建失败:', error as Error);
+            await this.loggerService.logError('Module', `❌ ${segmentName}创建失败:`, error as Error);
             return {
                 success: false,
-                error: `头寸1创建失败: ${error instanceof Error ? error.message : '未知错误'}`,
+                error: `${segmentName}创建失败: ${error instanceof Error ? error.message : '未知错误'}`,
                 signature: '',
                 gasUsed: 0
             };
@@ -454,88 +535,67 @@ export class ChainPositionManager implements IService {
     }
 
     /**
-     * 创建头寸2基础部分 (低价格范围，60%资金，BidAsk模式)
+     * 分段基础头寸创建成功后追加流动性（追加失败只记录警告），生成分段结果
      */
-    private async createPosition2Base(
-        params: ChainPositionParams,
-        ranges: ChainPositionRanges,
-        amount: number
-    ): Promise<PositionResult> {
-        try {
-            // 获取实例ID（如果存在）
-            const instanceId = (params as any).instanceId;
-
-            await this.loggerService.logFilteredInstanceOperation('📉 创建头寸2基础 (低价格范围)', {
-                range: `[${ranges.position2Lower}, ${ranges.position2Upper}]`,
-                amount: amount,
-                strategy: 'BidAsk基础',
-                instanceId
-            }, instanceId);
-
-            const position2BaseParams = {
-                poolAddress: params.poolAddress,
-                lowerBinId: ranges.position2Lower,
-                upperBinId: ranges.position2Upper,
-                amount: amount.toString(),
-                tokenMint: '',  // Y头寸将使用池的tokenY
-                binRange: this.CHAIN_POSITION_CONFIG.SINGLE_POSITION_BIN_COUNT,
-                activeBin: ranges.activeBin,
-                password: params.password,
-                slippageBps: params.slippageBps || 800
-            };
-
-            const result = await this.yPositionManager.createYPosition(position2BaseParams);
-
-            if (result.success) {
-                await this.loggerService.logFilteredInstanceOperation('✅ 头寸2基础创建成功', {
-                    positionAddress: result.positionAddress,
-                    signature: result.signature,
-                    instanceId
-                }, instanceId);
+    private async completeSegment(
+        params: Pick<ChainPositionParams, 'poolAddress' | 'password' | 'slippageBps'>,
+        segment: ChainPositionSegmentRange,
+        result: PositionResult,
+        funding: ChainPositionSegmentFunding
+    ): Promise<ChainPositionSegmentResult> {
+        let topUpSignature: string | undefined;
+
+        if (segment.topUpShape && funding.topUp > 0) {
+            const topUpResult = await this.addTopUpLiquidity(
+                result.positionAddress!, params, funding.topUp, segment.topUpShape, segment.index
+            );
+            if (topUpResult.success) {
+                topUpSignature = topUpResult.signature || '';
+            } else {
+                await this.loggerService.logSystem('WARN',
+                    `头寸${segment.index + 1} ${segment.topUpShape}流动性追加失败，但基础头寸已创建: ${topUpResult.error}`);
             }
-
-            return result;
-
-        } catch (error) {
-            await this.loggerService.logError('Module', '❌ 头寸2基础创建失败:', error as Error);
-            return {
-                success: false,
-                error: `头寸2基础创建失败: ${error instanceof Error ? error.message : '未知错误'}`,
-                signature: '',
-                gasUsed: 0
-            };
         }
+
+        return {
+            ...segment,
+            positionAddress: result.positionAddress!,
+            signature: result.signature || '',
+            amount: funding.base,
+            topUpAmount: topUpSignature !== undefined ? funding.topUp : 0,
+            ...(topUpSignature !== undefined && { topUpSignature })
+        };
     }
 
     /**
-     * 向头寸2添加Curve流动性 (20%资金，Curve模式) - 带重试机制
+     * 向分段头寸追加流动性 - 带重试机制
      */
-    private async addCurveLiquidityToPosition2(
-        position2Address: string,
-        params: ChainPositionParams,
-        amount: number
+    private async addTopUpLiquidity(
+        positionAddress: string,
+        params: Pick<ChainPositionParams, 'poolAddress' | 'password' | 'slippageBps'>,
+        amount: number,
+        liquidityMode: ChainLiquidityShape,
+        segmentIndex: number
     ): Promise<PositionResult> {
         try {
-            await this.loggerService.logBusinessOperation('🔄 向头寸2添加Curve流动性', {
-                positionAddress: position2Address.substring(0, 8) + '...',
+            await this.loggerService.logBusinessOperation(`🔄 向头寸${segmentIndex + 1}追加流动性`, {
+                positionAddress: positionAddress.substring(0, 8) + '...',
                 amount: amount,
-                strategy: 'Curve'
+                strategy: liquidityMode
             });
 
             // 🔥 使用重试机制执行流动性添加操作
             const result = await this.synchronousRetryManager.executeAsyncWithRetry(
                 {
                     execute: async () => {
-                        const curveParams = {
-                            positionAddress: position2Address,
+                        return await this.liquidityOperationService.addLiquidity({
+                            positionAddress,
                             poolAddress: params.poolAddress,
                             amount: amount,
-                            liquidityMode: 'curve' as const,
+                            liquidityMode,
                             password: params.password || '',
                             slippageBps: params.slippageBps || 1500
-                        };
-
-                        return await this.liquidityOperationService.addCurveLiquidity(curveParams);
+                        });
                     },
                     validate: (result: any) => {
                         // 验证操作是否成功
@@ -548,34 +608,34 @@ export class ChainPositionManager implements IService {
             );
 
             if (result.success) {
-                await this.loggerService.logBusinessOperation('✅ Curve流动性添加成功', {
-                    positionAddress: position2Address,
+                await this.loggerService.logBusinessOperation('✅ 追加流动性成功', {
+                    positionAddress,
                     signature: result.signature,
                     addedLiquidity: result.addedLiquidity
                 });
 
                 return {
                     success: true,
-                    positionAddress: position2Address,
+                    positionAddress,
                     signature: result.signature || '',
                     gasUsed: result.gasUsed || 0
                 };
             } else {
                 return {
                     success: false,
-                    error: result.error || 'Curve流动性添加失败',
-                    positionAddress: position2Address,
+                    error: result.error || '追加流动性失败',
+                    positionAddress,
                     signature: '',
                     gasUsed: 0
                 };
             }
 
         } catch (error) {
-            await this.loggerService.logError('Module', '❌ Curve流动性添加失败（重试耗尽）:', error as Error);
+            await this.loggerService.logError('Module', '❌ 追加流动性失败（重试耗尽）:', error as Error);
             return {
                 success: false,
-                error: `Curve流动性添加失败: ${error instanceof Error ? error.message : '未知错误'}`,
-                positionAddress: position2Address,
+                error: `追加流动性失败: ${error instanceof Error ? error.message : '未知错误'}`,
+                positionAddress,
                 signature: '',
                 gasUsed: 0
             };
@@ -19,8 +19,10 @@ import { UnifiedDataProvider } from './analytics/UnifiedDataProvider';
 import { YieldAnalyzer } from './analytics/YieldAnalyzer';
 import { YieldOperator } from './analytics/YieldOperator';
 import { AccumulatedYieldManager } from './analytics/AccumulatedYieldManager';
+import { PaperTradingService } from './PaperTradingService';
 import { SmartStopLossModule } from '../modules/SmartStopLossModule';
 import { SynchronousRetryManager } from '../modules/SynchronousRetryManager';
+import { StrategyPerformanceService } from '../strategy/StrategyPerformanceService';
 
 /**
  * 实例级服务容器
@@ -56,7 +58,9 @@ export class InstanceAwareServiceFactory {
         @inject(TYPES.JupiterService) private jupiterService: IJupiterService,
         @inject(TYPES.WalletService) private walletService: IWalletService,
         @inject(TYPES.SynchronousRetryManager) private retryManager: SynchronousRetryManager,
-        @inject(TYPES.SolanaWeb3Service) private solanaService: ISolanaWeb3Service
+        @inject(TYPES.SolanaWeb3Service) private solanaService: ISolanaWeb3Service,
+        @inject(PaperTradingService) private paperTradingService: PaperTradingService,
+        @inject(TYPES.StrategyPerformanceService) private performanceService: StrategyPerformanceService
     ) {
         // 启动定期清理任务
         this.startCleanupTask();
@@ -112,12 +116,21 @@ export class InstanceAwareServiceFactory {
         const accumulatedYieldManager = new AccumulatedYieldManager(this.loggerService);
         await accumulatedYieldManager.initialize();
 
+        // 📝 模拟盘实例：头寸数据和手续费提取走虚拟账本
+        const isPaper = this.paperTradingService.isPaperInstance(instanceId);
+        const { positionManager, feeHarvester } = isPaper
+            ? this.paperTradingService.createInstanceServices(instanceId, {
+                positionManager: this.positionManager,
+                feeHarvester: this.feeHarvester
+            })
+            : { positionManager: this.positionManager, feeHarvester: this.feeHarvester };
+
         // 🔥 步骤2: 创建独立的UnifiedDataProvider实例
         const unifiedDataProvider = new UnifiedDataProvider(
             this.loggerService,
-            this.feeHarvester,
+            feeHarvester,
             this.meteoraService,
-            this.positionManager,
+            positionManager,
             accumulatedYieldManager
         );
 
@@ -131,15 +144,24 @@ export class InstanceAwareServiceFactory {
         // 🔥 步骤4: 创建独立的YieldOperator实例
         const yieldOperator = new YieldOperator(
             this.loggerService,
-            this.feeHarvester,
+            feeHarvester,
             this.jupiterService,
             this.walletService,
             this.meteoraService,
-            this.positionManager,
+            positionManager,
             this.retryManager,
             this.solanaService, // 🔧 添加缺少的SolanaWeb3Service参数
             accumulatedYieldManager
         );
+        if (isPaper) {
+            yieldOperator.enablePaperTrading(this.paperTradingService, instanceId);
+        }
+        yieldOperator.setExtractionCallback(extraction => this.performanceService.record(instanceId, 'yield_extraction', {
+            success: true,
+            amount: extraction.extractedAmount,
+            ...(extraction.transactionSignature && { signature: extraction.transactionSignature }),
+            cost: { gasUsed: extraction.gasUsed }
+        }));
 
         // 🔥 步骤5: 创建独立的PositionAnalyticsService实例
         const positionAnalyticsService = new PositionAnalyticsService(
@@ -151,7 +173,7 @@ export class InstanceAwareServiceFactory {
             yieldOperator,
             this.meteoraService,
             accumulatedYieldManager,
-            this.positionManager
+            positionManager
         );
 
         // 🆕 设置实例ID，用于实例级日志记录
@@ -169,7 +191,7 @@ export class InstanceAwareServiceFactory {
         };
 
         await this.loggerService.logSystem('DEBUG',
-            `📦 实例 [${instanceId}] 服务容器创建完成 - 包含服务: UnifiedDataProvider, YieldAnalyzer, YieldOperator, AccumulatedYieldManager, PositionAnalyticsService`
+            `📦 实例 [${instanceId}] 服务容器创建完成${isPaper ? '（模拟盘）' : ''} - 包含服务: UnifiedDataProvider, YieldAnalyzer, YieldOperator, AccumulatedYieldManager, PositionAnalyticsService`
         );
 
         return container;
@@ -26,6 +26,39 @@ interface LiquidityOperationResult {
     gasUsed?: number;
 }
 
+// 双边头寸存入时活跃bin与拆分资金时不一致（调用方需要按新的活跃bin重新拆分资金）
+export const TWO_SIDED_ACTIVE_BIN_CHANGED = '双边头寸拆分资金后活跃bin已变化';
+
+/**
+ * 双边头寸的X/Y资金比例（按Y计价）
+ * 活跃bin及下方的bin持有Y，上方的bin持有X；每个bin的资金权重按与活跃bin的距离d计算，
+ * 与模拟盘/回测的 SimulatedPosition 一致：spot 为1，curve 为 1/(1+d)，bidask 为 1+d
+ */
+export function calculateTwoSidedAmountSplit(
+    liquidityMode: 'spot' | 'bidask' | 'curve',
+    lowerBinId: number,
+    upperBinId: number,
+    activeBinId: number
+): { xRatio: number; yRatio: number } {
+    let weightX = 0;
+    let weightY = 0;
+    for (let binId = lowerBinId; binId <= upperBinId; binId++) {
+        const distance = Math.abs(binId - activeBinId);
+        const weight = liquidityMode === 'curve' ? 1 / (1 + distance) : liquidityMode === 'bidask' ? 1 + distance : 1;
+        if (binId > activeBinId) {
+            weightX += weight;
+        } else {
+            weightY += weight;
+        }
+    }
+
+    const totalWeight = weightX + weightY;
+    if (!(totalWeight > 0)) {
+        throw new Error(`头寸范围无效: [${lowerBinId}, ${upperBinId}]`);
+    }
+    return { xRatio: weightX / totalWeight, yRatio: weightY / totalWeight };
+}
+
 /**
  * 流动性操作服务
  * 专门处理向现有头寸添加不同策略模式的流动性
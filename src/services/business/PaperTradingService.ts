@@ -0,0 +1,839 @@
+/**
+ * 📝 模拟盘交易服务
+ *
+ * 职责：
+ * - 为paper模式的策略实例维护虚拟X/Y余额和虚拟头寸
+ * - 承接头寸创建/关闭、按比例移除流动性、手续费提取、Jupiter兑换，记入本地账本并返回模拟签名
+ * - 为实例级分析服务栈提供模拟的头寸和收益数据
+ *
+ * 模拟规则：
+ * - 头寸流动性分布与回测一致（SimulatedPosition），随链上活跃bin变化计算X/Y持仓
+ * - 兑换按Jupiter实时报价成交，报价不可用时按池子活跃价格扣除估算成本成交
+ * - 手续费按头寸在范围内的时长和估算年化费率累计，以Y代币计
+ */
+
+import { injectable, inject } from 'tsyringe';
+import { PublicKey } from '@solana/web3.js';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+    TYPES, ILoggerService, IConfigService, IMeteoraService, IJupiterService, ISolanaWeb3Service,
+    IPositionManager, IPositionFeeHarvester, PositionResult, SwapParams, SwapResult
+} from '../../types/interfaces';
+import {
+    PaperAccount, PaperAccountSummary, PaperLedgerEntry, PaperLedgerEntryType, PaperPosition, PaperTradingSettings
+} from '../../types/paper-trading-types';
+import { SimulatedPosition, LiquiditySegment, LiquidityShape } from '../backtest/SimulatedPosition';
+import { ChainPositionManager, ChainPositionParams, ChainPositionResult, ChainPositionSegmentResult, ChainSegmentParams } from './ChainPositionManager';
+import { ChainLiquidityShape, ChainPositionSegmentRange, ChainPositionSegmentFunding, calculateChainSegmentFunding } from './ChainPositionGeometry';
+import { TokenPrecisionConverter } from '../../utils/TokenPrecisionConverter';
+
+// 连锁头寸分段的流动性模式对应的模拟流动性形状
+const PAPER_LIQUIDITY_SHAPES: Record<ChainLiquidityShape, LiquidityShape> = {
+    spot: 'Spot',
+    bidask: 'BidAsk',
+    curve: 'Curve'
+};
+
+/**
+ * 池子实时状态
+ */
+interface PoolState {
+    activeBin: number;
+    activePrice: number;
+    binStep: number;
+}
+
+@injectable()
+export class PaperTradingService {
+    private static readonly SIGNATURE_PREFIX = 'paper_';
+    private static readonly MAX_LEDGER_ENTRIES = 2000;
+    private static readonly YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+    private static readonly DEFAULT_SETTINGS: PaperTradingSettings = {
+        estimatedFeeApr: 0.5,
+        fallbackSwapCostBps: 50
+    };
+
+    // paper实例注册表：实例ID -> 开户参数
+    private paperInstances: Map<string, { poolAddress: string; initialBalanceY: number }> = new Map();
+    // 已加载的虚拟账户
+    private accounts: Map<string, PaperAccount> = new Map();
+
+    private readonly storagePath: string;
+
+    constructor(
+        @inject(TYPES.LoggerService) private loggerService: ILoggerService,
+        @inject(TYPES.ConfigService) private configService: IConfigService,
+        @inject(TYPES.MeteoraService) private meteoraService: IMeteoraService,
+        @inject(TYPES.JupiterService) private jupiterService: IJupiterService,
+        @inject(TYPES.SolanaWeb3Service) private solanaService: ISolanaWeb3Service,
+        @inject(ChainPositionManager) private chainPositionManager: ChainPositionManager
+    ) {
+        this.storagePath = path.join(process.cwd(), 'data', 'paper-trading');
+    }
+
+    // ================== 实例注册 ==================
+
+    /**
+     * 📌 登记paper实例（虚拟账户在首次交易时创建或从磁盘加载）
+     */
+    registerInstance(instanceId: string, poolAddress: string, initialBalanceY: number): void {
+        this.paperInstances.set(instanceId, { poolAddress, initialBalanceY });
+    }
+
+    /**
+     * 🗑️ 注销paper实例（账本文件保留用于复盘）
+     */
+    unregisterInstance(instanceId: string): void {
+        this.paperInstances.delete(instanceId);
+        this.accounts.delete(instanceId);
+    }
+
+    isPaperInstance(instanceId?: string): boolean {
+        return !!instanceId && this.paperInstances.has(instanceId);
+    }
+
+    isPaperSignature(signature?: string): boolean {
+        return !!signature && signature.startsWith(PaperTradingService.SIGNATURE_PREFIX);
+    }
+
+    // ================== 头寸操作 ==================
+
+    /**
+     * 🎯 创建Y头寸（默认BidAsk分布，与YPositionManager一致）
+     * 范围跨越活跃bin时为双边头寸：上方bin按价格持有X，资金以Y价值记录，不单独模拟兑换
+     */
+    async createYPosition(instanceId: string, params: {
+        lowerBinId: number;
+        upperBinId: number;
+        amount: string;
+        liquidityMode?: ChainLiquidityShape;
+    }): Promise<PositionResult> {
+        try {
+            const account = await this.getAccount(instanceId);
+            const poolState = await this.getPoolState(account.poolAddress);
+            const amountY = parseFloat(params.amount);
+
+            const position = this.openPosition(account, poolState, [{
+                lowerBin: params.lowerBinId,
+                upperBin: params.upperBinId,
+                amountY,
+                shape: PAPER_LIQUIDITY_SHAPES[params.liquidityMode ?? 'bidask']
+            }]);
+            const signature = this.generateSignature();
+
+            this.appendLedger(account, 'POSITION_CREATED', signature, {
+                positionAddress: position.address,
+                range: [position.lowerBinId, position.upperBinId],
+                amountY,
+                activeBin: poolState.activeBin,
+                price: poolState.activePrice
+            });
+            await this.saveAccount(account);
+
+            return { success: true, positionAddress: position.address, signature, gasUsed: 0 };
+        } catch (error) {
+            await this.loggerService.logError('paper-trading', `[PaperTrading] 模拟创建头寸失败: ${instanceId}`, error as Error);
+            return { success: false, error: error instanceof Error ? error.message : '模拟创建头寸失败' };
+        }
+    }
+
+    /**
+     * 🔗 创建连锁头寸（范围和资金分配与ChainPositionManager一致）
+     * X分段以Y价值记录，按bin价格持有X，不单独模拟兑换
+     */
+    async createChainPosition(instanceId: string, params: ChainPositionParams): Promise<ChainPositionResult> {
+        try {
+            const account = await this.getAccount(instanceId);
+            const poolState = await this.getPoolState(account.poolAddress);
+            const ranges = await this.chainPositionManager.calculateChainPositionRanges(account.poolAddress, params.geometry);
+            const funding = calculateChainSegmentFunding(ranges.geometry, params.totalAmount);
+
+            if (params.totalAmount > account.balanceY) {
+                throw new Error(`模拟账户Y余额不足: 需要 ${params.totalAmount}，可用 ${account.balanceY}`);
+            }
+
+            const segments = ranges.segments.map(segment =>
+                this.openChainSegment(account, poolState, segment, funding[segment.index]!)
+            );
+            await this.saveAccount(account);
+
+            const positionAddresses = segments.map(segment => segment.positionAddress);
+            return {
+                success: true,
+                positionAddresses,
+                segments,
+                ...(positionAddresses[0] && { position1Address: positionAddresses[0] }),
+                ...(positionAddresses[1] && { position2Address: positionAddresses[1] }),
+                totalBinRange: ranges.totalBinRange,
+                monitoredRange: ranges.monitoredRange,
+                gasUsed: 0
+            };
+        } catch (error) {
+            await this.loggerService.logError('paper-trading', `[PaperTrading] 模拟创建连锁头寸失败: ${instanceId}`, error as Error);
+            return { success: false, error: error instanceof Error ? error.message : '模拟创建连锁头寸失败' };
+        }
+    }
+
+    /**
+     * 🔗 在指定范围创建单个连锁头寸分段（向上跟随滚动，与ChainPositionManager.createChainSegment一致）
+     */
+    async createChainSegment(instanceId: string, params: ChainSegmentParams): Promise<ChainPositionResult> {
+        try {
+            const account = await this.getAccount(instanceId);
+            const poolState = await this.getPoolState(account.poolAddress);
+            const segment: ChainPositionSegmentRange = {
+                index: 0,
+                side: 'Y',
+                lowerBin: params.lowerBin,
+                upperBin: params.upperBin,
+                binCount: params.upperBin - params.lowerBin + 1,
+                shape: params.shape,
+                ...(params.topUpShape && { topUpShape: params.topUpShape })
+            };
+
+            const segmentResult = this.openChainSegment(account, poolState, segment, params.funding);
+            await this.saveAccount(account);
+
+            return {
+                success: true,
+                positionAddresses: [segmentResult.positionAddress],
+                segments: [segmentResult],
+                totalBinRange: [segment.lowerBin, segment.upperBin],
+                gasUsed: 0
+            };
+        } catch (error) {
+            await this.loggerService.logError('paper-trading', `[PaperTrading] 模拟创建连锁头寸分段失败: ${instanceId}`, error as Error);
+            return { success: false, error: error instanceof Error ? error.message : '模拟创建连锁头寸分段失败' };
+        }
+    }
+
+    /**
+     * 🛑 关闭头寸（取回X/Y流动性和未提取手续费）
+     */
+    async closePosition(instanceId: string, positionAddress: string): Promise<PositionResult> {
+        try {
+            const account = await this.getAccount(instanceId);
+            const position = account.positions[positionAddress];
+            if (!position) {
+                return { success: false, error: `头寸不存在: ${positionAddress}` };
+            }
+
+            const poolState = await this.getPoolState(account.poolAddress);
+            this.accrueFees(position, poolState);
+
+            const { amountX, amountY } = this.toSimulatedPosition(position).getTokenAmounts(poolState.activeBin);
+            account.balanceX += amountX;
+            account.balanceY += amountY + position.pendingFeeY;
+            delete account.positions[positionAddress];
+
+            const signature = this.generateSignature();
+            const closureDetails = {
+                amountX,
+                amountY,
+                feesY: position.pendingFeeY,
+                activeBin: poolState.activeBin,
+                price: poolState.activePrice
+            };
+            this.appendLedger(account, 'POSITION_CLOSED', signature, { positionAddress, ...closureDetails });
+            await this.saveAccount(account);
+
+            return { success: true, positionAddress, signature, gasUsed: 0, closureDetails };
+        } catch (error) {
+            await this.loggerService.logError('paper-trading', `[PaperTrading] 模拟关闭头寸失败: ${positionAddress}`, error as Error);
+            return { success: false, error: error instanceof Error ? error.message : '模拟关闭头寸失败' };
+        }
+    }
+
+    /**
+     * ✂️ 按比例移除头寸流动性（指定binRange时只移除该范围内的bin；头寸保留，未提取手续费留在头寸中）
+     */
+    async removeLiquidity(instanceId: string, positionAddress: string, percentage: number, binRange?: [number, number]): Promise<PositionResult> {
+        try {
+            if (!(percentage > 0 && percentage <= 100)) {
+                return { success: false, error: `移除比例无效: ${percentage}%` };
+            }
+
+            const account = await this.getAccount(instanceId);
+            const position = account.positions[positionAddress];
+            if (!position) {
+                return { success: false, error: `头寸不存在: ${positionAddress}` };
+            }
+
+            const poolState = await this.getPoolState(account.poolAddress);
+            this.accrueFees(position, poolState);
+
+            const fraction = percentage / 100;
+            const { amountX, amountY } = this.toSimulatedPosition(position).removeLiquidity(fraction, poolState.activeBin, binRange);
+            if (binRange) {
+                position.removals = [...(position.removals || []), { lowerBin: binRange[0], upperBin: binRange[1], fraction }];
+            } else {
+                position.segments = position.segments.map(segment => ({ ...segment, amountY: segment.amountY * (1 - fraction) }));
+            }
+            account.balanceX += amountX;
+            account.balanceY += amountY;
+
+            const signature = this.generateSignature();
+            this.appendLedger(account, 'LIQUIDITY_REMOVED', signature, {
+                positionAddress,
+                percentage,
+                ...(binRange && { binRange }),
+                amountX,
+                amountY,
+                activeBin: poolState.activeBin,
+                price: poolState.activePrice
+            });
+            await this.saveAccount(account);
+
+            return { success: true, positionAddress, signature, gasUsed: 0 };
+        } catch (error) {
+            await this.loggerService.logError('paper-trading', `[PaperTrading] 模拟移除流动性失败: ${positionAddress}`, error as Error);
+            return { success: false, error: error instanceof Error ? error.message : '模拟移除流动性失败' };
+        }
+    }
+
+    /**
+     * 💰 池子级别批量提取手续费（返回结构与PositionFeeHarvester.harvestPoolPositionFees一致）
+     */
+    async harvestPoolPositionFees(instanceId: string, poolAddress: string, positionAddresses: string[]): Promise<{
+        success: boolean;
+        positionAddress: string;
+        harvestedFees: { tokenX: string; tokenY: string };
+        totalUsdValue: number;
+        gasUsed: number;
+        signature?: string;
+        error?: string;
+    }> {
+        try {
+            const account = await this.getAccount(instanceId);
+            const poolState = await this.getPoolState(account.poolAddress);
+
+            let totalFeeY = 0;
+            for (const address of positionAddresses) {
+                const position = account.positions[address];
+                if (!position) continue;
+                this.accrueFees(position, poolState);
+                totalFeeY += position.pendingFeeY;
+                position.pendingFeeY = 0;
+            }
+
+            if (totalFeeY <= 0) {
+                return {
+                    success: true,
+                    positionAddress: `pool:${poolAddress}`,
+                    harvestedFees: { tokenX: '0', tokenY: '0' },
+                    totalUsdValue: 0,
+                    gasUsed: 0
+                };
+            }
+
+            account.balanceY += totalFeeY;
+            const signature = this.generateSignature();
+            this.appendLedger(account, 'FEES_HARVESTED', signature, { positionAddresses, feesY: totalFeeY });
+            await this.saveAccount(account);
+
+            return {
+                success: true,
+                positionAddress: `pool:${poolAddress}`,
+                harvestedFees: {
+                    tokenX: '0',
+                    tokenY: TokenPrecisionConverter.formattedToRaw(totalFeeY, account.tokenYDecimals)
+                },
+                totalUsdValue: totalFeeY,
+                gasUsed: 0,
+                signature
+            };
+        } catch (error) {
+            await this.loggerService.logError('paper-trading', `[PaperTrading] 模拟提取手续费失败: ${instanceId}`, error as Error);
+            return {
+                success: false,
+                positionAddress: `pool:${poolAddress}`,
+                harvestedFees: { tokenX: '0', tokenY: '0' },
+                totalUsdValue: 0,
+                gasUsed: 0,
+                error: error instanceof Error ? error.message : '模拟提取手续费失败'
+            };
+        }
+    }
+
+    // ================== 兑换 ==================
+
+    /**
+     * 🔄 模拟Jupiter兑换（参数和返回值均为原子单位，与IJupiterService.executeSwap一致）
+     */
+    async executeSwap(instanceId: string, params: SwapParams): Promise<SwapResult> {
+        const account = await this.getAccount(instanceId);
+        const sellX = params.inputMint === account.tokenXMint;
+        if (!sellX && params.inputMint !== account.tokenYMint) {
+            throw new Error(`模拟盘不支持的兑换代币: ${params.inputMint}`);
+        }
+
+        const inputDecimals = sellX ? account.tokenXDecimals : account.tokenYDecimals;
+        const outputDecimals = sellX ? account.tokenYDecimals : account.tokenXDecimals;
+        const inputAmount = parseFloat(TokenPrecisionConverter.rawToFormatted(params.amount, inputDecimals));
+        const available = sellX ? account.balanceX : account.balanceY;
+        if (inputAmount > available) {
+            throw new Error(`模拟账户余额不足: 需要 ${inputAmount}，可用 ${available}`);
+        }
+
+        const { outAmount, priceImpact, source } = await this.quoteSwap(account, params, sellX);
+        const outputAmount = outAmount / Math.pow(10, outputDecimals);
+
+        if (sellX) {
+            account.balanceX -= inputAmount;
+            account.balanceY += outputAmount;
+        } else {
+            account.balanceY -= inputAmount;
+            account.balanceX += outputAmount;
+        }
+
+        const signature = this.generateSignature();
+        this.appendLedger(account, 'SWAP', signature, {
+            direction: sellX ? 'X_TO_Y' : 'Y_TO_X',
+            inputAmount,
+            outputAmount,
+            priceImpact,
+            quoteSource: source
+        });
+        await this.saveAccount(account);
+
+        return {
+            signature,
+            inputAmount: params.amount,
+            outputAmount: Math.floor(outAmount).toString(),
+            priceImpact
+        };
+    }
+
+    /**
+     * 🔄 卖出指定数量的X代币（人类可读数量）
+     */
+    async swapTokenXToY(instanceId: string, xTokenAmount: string, slippageBps: number): Promise<SwapResult> {
+        const account = await this.getAccount(instanceId);
+        return await this.executeSwap(instanceId, {
+            inputMint: account.tokenXMint,
+            outputMint: account.tokenYMint,
+            amount: TokenPrecisionConverter.formattedToRaw(xTokenAmount, account.tokenXDecimals),
+            slippageBps,
+            userPublicKey: 'paper',
+            instanceId
+        });
+    }
+
+    /**
+     * 🔍 模拟交易验证（与SolanaWeb3Service.verifyTransactionWithRetry返回结构一致）
+     */
+    verifyTransaction(signature: string): { success: boolean; status?: 'finalized'; slot?: number; error?: string } {
+        if (!this.isPaperSignature(signature)) {
+            return { success: false, error: `非模拟交易签名: ${signature}` };
+        }
+        return { success: true, status: 'finalized', slot: 0 };
+    }
+
+    // ================== 查询 ==================
+
+    /**
+     * 💼 虚拟账户代币余额（人类可读格式）
+     */
+    async getTokenBalance(instanceId: string, tokenType: 'X' | 'Y'): Promise<string> {
+        const account = await this.getAccount(instanceId);
+        return (tokenType === 'X' ? account.balanceX : account.balanceY).toString();
+    }
+
+    /**
+     * 📊 虚拟头寸信息（字段与IPositionManager.getPositionOnChainInfo一致，数量为原子单位）
+     */
+    async getPositionOnChainInfo(instanceId: string, positionAddress: string): Promise<Awaited<ReturnType<IPositionManager['getPositionOnChainInfo']>>> {
+        const account = await this.getAccount(instanceId);
+        const position = account.positions[positionAddress];
+        if (!position) {
+            return { success: false, error: `头寸不存在: ${positionAddress}` };
+        }
+
+        const poolState = await this.getPoolState(account.poolAddress);
+        this.accrueFees(position, poolState);
+        const { amountX, amountY } = this.toSimulatedPosition(position).getTokenAmounts(poolState.activeBin);
+
+        return {
+            success: true,
+            data: {
+                address: position.address,
+                owner: 'paper',
+                poolAddress: position.poolAddress,
+                lowerBinId: position.lowerBinId,
+                upperBinId: position.upperBinId,
+                totalXAmount: TokenPrecisionConverter.formattedToRaw(amountX, account.tokenXDecimals),
+                totalYAmount: TokenPrecisionConverter.formattedToRaw(amountY, account.tokenYDecimals),
+                fees: {
+                    feeX: '0',
+                    feeY: TokenPrecisionConverter.formattedToRaw(position.pendingFeeY, account.tokenYDecimals)
+                },
+                inRange: poolState.activeBin >= position.lowerBinId && poolState.activeBin <= position.upperBinId,
+                activeBinId: poolState.activeBin,
+                binCount: position.upperBinId - position.lowerBinId + 1,
+                lastUpdated: Date.now()
+            }
+        };
+    }
+
+    /**
+     * 💰 虚拟头寸未提取手续费（字段与PositionFeeHarvester.getPositionFeesFromChain一致）
+     */
+    async getPositionFees(instanceId: string, positionAddress: string): Promise<any> {
+        const account = await this.getAccount(instanceId);
+        const position = account.positions[positionAddress];
+        if (!position) return null;
+
+        this.accrueFees(position, await this.getPoolState(account.poolAddress));
+        const feeY = TokenPrecisionConverter.formattedToRaw(position.pendingFeeY, account.tokenYDecimals);
+
+        return {
+            feeX: '0',
+            feeY,
+            feeXRaw: '0',
+            feeYRaw: feeY,
+            feeXExcludeTransferFee: '0',
+            feeYExcludeTransferFee: feeY,
+            feeXExcludeTransferFeeRaw: '0',
+            feeYExcludeTransferFeeRaw: feeY,
+            poolAddress: account.poolAddress,
+            tokenXMint: account.tokenXMint,
+            tokenYMint: account.tokenYMint,
+            tokenXDecimals: account.tokenXDecimals,
+            tokenYDecimals: account.tokenYDecimals
+        };
+    }
+
+    /**
+     * 📋 虚拟账户概览
+     */
+    async getAccountSummary(instanceId: string, recentLedgerCount: number = 50): Promise<PaperAccountSummary> {
+        const account = await this.getAccount(instanceId);
+        const poolState = await this.getPoolState(account.poolAddress);
+
+        let positionValueY = 0;
+        let pendingFeesY = 0;
+        for (const position of Object.values(account.positions)) {
+            this.accrueFees(position, poolState);
+            positionValueY += this.toSimulatedPosition(position).getValueY(poolState.activeBin, poolState.activePrice);
+            pendingFeesY += position.pendingFeeY;
+        }
+
+        const totalValueY = account.balanceY + account.balanceX * poolState.activePrice + positionValueY + pendingFeesY;
+        const pnlY = totalValueY - account.initialBalanceY;
+
+        return {
+            instanceId,
+            poolAddress: account.poolAddress,
+            activeBin: poolState.activeBin,
+            currentPrice: poolState.activePrice,
+            balanceX: account.balanceX,
+            balanceY: account.balanceY,
+            openPositions: Object.keys(account.positions),
+            positionValueY,
+            pendingFeesY,
+            totalValueY,
+            initialBalanceY: account.initialBalanceY,
+            pnlY,
+            pnlPercentage: account.initialBalanceY > 0 ? (pnlY / account.initialBalanceY) * 100 : 0,
+            recentLedger: account.ledger.slice(-recentLedgerCount)
+        };
+    }
+
+    /**
+     * 🏭 为实例级分析服务栈包装头寸管理器和手续费提取器
+     * 头寸信息、收益查询和手续费提取走虚拟账本，其余方法仍使用真实服务
+     */
+    createInstanceServices(instanceId: string, live: {
+        positionManager: IPositionManager;
+        feeHarvester: IPositionFeeHarvester;
+    }): { positionManager: IPositionManager; feeHarvester: IPositionFeeHarvester } {
+        const positionManager = this.createOverlay<IPositionManager>(live.positionManager, {
+            getPositionOnChainInfo: (positionAddress: string) => this.getPositionOnChainInfo(instanceId, positionAddress),
+            getBatchPositionsOnChainInfo: async (positionAddresses: string[]) => {
+                const data = await Promise.all(positionAddresses.map(async address => {
+                    const result = await this.getPositionOnChainInfo(instanceId, address);
+                    return result.success
+                        ? { address, success: true, info: result.data }
+                        : { address, success: false, error: result.error || '头寸不存在' };
+                }));
+                const successful = data.filter(item => item.success).length;
+                return {
+                    success: true,
+                    data,
+                    summary: { total: data.length, successful, failed: data.length - successful }
+                };
+            },
+            closePosition: (positionAddress: string) => this.closePosition(instanceId, positionAddress)
+        });
+
+        const feeHarvester = this.createOverlay<IPositionFeeHarvester>(live.feeHarvester, {
+            getPositionFeesFromChain: (positionAddress: string) => this.getPositionFees(instanceId, positionAddress),
+            harvestPoolPositionFees: (poolAddress: string, positionAddresses: string[]) =>
+                this.harvestPoolPositionFees(instanceId, poolAddress, positionAddresses)
+        });
+
+        return { positionManager, feeHarvester };
+    }
+
+    // ================== 内部方法 ==================
+
+    /**
+     * 📂 获取虚拟账户（内存 → 磁盘 → 新开户）
+     */
+    private async getAccount(instanceId: string): Promise<PaperAccount> {
+        const cached = this.accounts.get(instanceId);
+        if (cached) return cached;
+
+        const registration = this.paperInstances.get(instanceId);
+        if (!registration) {
+            throw new Error(`策略实例不是模拟盘模式: ${instanceId}`);
+        }
+
+        const account = await this.loadAccount(instanceId) || await this.openAccount(instanceId, registration.poolAddress, registration.initialBalanceY);
+        this.accounts.set(instanceId, account);
+        return account;
+    }
+
+    /**
+     * 🆕 开设虚拟账户（代币精度从链上读取）
+     */
+    private async openAccount(instanceId: string, poolAddress: string, initialBalanceY: number): Promise<PaperAccount> {
+        const poolInfo = await this.meteoraService.getPoolInfo(poolAddress);
+        const precisionConverter = new TokenPrecisionConverter(this.solanaService.getConnection());
+        const [tokenXDecimals, tokenYDecimals] = await Promise.all([
+            precisionConverter.getTokenDecimals(new PublicKey(poolInfo.tokenX)),
+            precisionConverter.getTokenDecimals(new PublicKey(poolInfo.tokenY))
+        ]);
+
+        const now = Date.now();
+        const account: PaperAccount = {
+            instanceId,
+            poolAddress,
+            tokenXMint: poolInfo.tokenX,
+            tokenYMint: poolInfo.tokenY,
+            tokenXDecimals,
+            tokenYDecimals,
+            initialBalanceY,
+            balanceX: 0,
+            balanceY: initialBalanceY,
+            positions: {},
+            ledger: [],
+            createdAt: now,
+            updatedAt: now
+        };
+
+        this.appendLedger(account, 'ACCOUNT_OPENED', this.generateSignature(), { initialBalanceY });
+        await this.saveAccount(account);
+
+        await this.loggerService.logBusinessOperation('模拟盘开户', {
+            instanceId,
+            poolAddress,
+            initialBalanceY,
+            message: `[PaperTrading] 模拟账户已创建: ${instanceId}`
+        });
+
+        return account;
+    }
+
+    private async loadAccount(instanceId: string): Promise<PaperAccount | null> {
+        try {
+            const data = await fs.readFile(this.getAccountFilePath(instanceId), 'utf-8');
+            return JSON.parse(data) as PaperAccount;
+        } catch (error) {
+            if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+                return null;
+            }
+            await this.loggerService.logError('paper-trading', `[PaperTrading] 加载模拟账户失败: ${instanceId}`, error as Error);
+            throw error;
+        }
+    }
+
+    private async saveAccount(account: PaperAccount): Promise<void> {
+        account.updatedAt = Date.now();
+        await fs.mkdir(this.storagePath, { recursive: true });
+
+        const filePath = this.getAccountFilePath(account.instanceId);
+        const tempPath = filePath + '.tmp';
+
+        // 🔒 原子写入：先写临时文件，再重命名
+        await fs.writeFile(tempPath, JSON.stringify(account, null, 2), 'utf-8');
+        await fs.rename(tempPath, filePath);
+    }
+
+    private getAccountFilePath(instanceId: string): string {
+        return path.join(this.storagePath, `${instanceId}.json`);
+    }
+
+    /**
+     * 📥 登记一个连锁头寸分段（基础流动性 + 追加流动性作为同一个虚拟头寸）
+     */
+    private openChainSegment(
+        account: PaperAccount,
+        poolState: PoolState,
+        segment: ChainPositionSegmentRange,
+        funding: ChainPositionSegmentFunding
+    ): ChainPositionSegmentResult {
+        const liquidity: LiquiditySegment[] = [
+            { lowerBin: segment.lowerBin, upperBin: segment.upperBin, amountY: funding.base, shape: PAPER_LIQUIDITY_SHAPES[segment.shape] }
+        ];
+        if (segment.topUpShape && funding.topUp > 0) {
+            liquidity.push({ lowerBin: segment.lowerBin, upperBin: segment.upperBin, amountY: funding.topUp, shape: PAPER_LIQUIDITY_SHAPES[segment.topUpShape] });
+        }
+
+        const position = this.openPosition(account, poolState, liquidity);
+        const signature = this.generateSignature();
+        const topUpSignature = liquidity.length > 1 ? this.generateSignature() : undefined;
+
+        this.appendLedger(account, 'POSITION_CREATED', signature, {
+            positionAddress: position.address,
+            range: [position.lowerBinId, position.upperBinId],
+            amountY: funding.base + (topUpSignature ? funding.topUp : 0),
+            side: segment.side,
+            ...(topUpSignature && { topUpSignature }),
+            activeBin: poolState.activeBin,
+            price: poolState.activePrice
+        });
+
+        return {
+            ...segment,
+            positionAddress: position.address,
+            signature,
+            amount: funding.base,
+            topUpAmount: topUpSignature ? funding.topUp : 0,
+            ...(topUpSignature && { topUpSignature })
+        };
+    }
+
+    /**
+     * 📥 扣减Y余额并登记虚拟头寸
+     */
+    private openPosition(account: PaperAccount, poolState: PoolState, segments: LiquiditySegment[]): PaperPosition {
+        const amountY = segments.reduce((sum, segment) => sum + segment.amountY, 0);
+        if (!(amountY > 0)) {
+            throw new Error(`头寸金额无效: ${amountY}`);
+        }
+        if (amountY > account.balanceY) {
+            throw new Error(`模拟账户Y余额不足: 需要 ${amountY}，可用 ${account.balanceY}`);
+        }
+
+        const now = Date.now();
+        const position: PaperPosition = {
+            address: `${PaperTradingService.SIGNATURE_PREFIX}pos_${now}_${Math.random().toString(36).substring(2, 10)}`,
+            poolAddress: account.poolAddress,
+            lowerBinId: Math.min(...segments.map(segment => segment.lowerBin)),
+            upperBinId: Math.max(...segments.map(segment => segment.upperBin)),
+            segments,
+            referenceBin: poolState.activeBin,
+            referencePrice: poolState.activePrice,
+            binStep: poolState.binStep,
+            pendingFeeY: 0,
+            lastFeeAccrualAt: now,
+            createdAt: now
+        };
+
+        account.balanceY -= amountY;
+        account.positions[position.address] = position;
+        return position;
+    }
+
+    /**
+     * 💸 累计手续费：仅在活跃bin位于头寸范围内时按估算年化费率计提
+     */
+    private accrueFees(position: PaperPosition, poolState: PoolState): void {
+        const now = Date.now();
+        const elapsed = now - position.lastFeeAccrualAt;
+        position.lastFeeAccrualAt = now;
+
+        if (elapsed <= 0) return;
+        if (poolState.activeBin < position.lowerBinId || poolState.activeBin > position.upperBinId) return;
+
+        const valueY = this.toSimulatedPosition(position).getValueY(poolState.activeBin, poolState.activePrice);
+        position.pendingFeeY += valueY * this.getSettings().estimatedFeeApr * elapsed / PaperTradingService.YEAR_MS;
+    }
+
+    /**
+     * 💱 获取成交数量（原子单位）：优先Jupiter报价，失败时按池子价格估算
+     */
+    private async quoteSwap(account: PaperAccount, params: SwapParams, sellX: boolean): Promise<{
+        outAmount: number;
+        priceImpact: number;
+        source: 'jupiter' | 'pool';
+    }> {
+        try {
+            const quote = await this.jupiterService.getQuote(params.inputMint, params.outputMint, params.amount, params.slippageBps);
+            const outAmount = parseFloat(quote.outAmount);
+            if (outAmount > 0) {
+                return { outAmount, priceImpact: quote.priceImpactPct, source: 'jupiter' };
+            }
+        } catch (error) {
+            await this.loggerService.logSystem('WARN',
+                `[PaperTrading] Jupiter报价不可用，按池子价格成交: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+
+        const poolState = await this.getPoolState(account.poolAddress);
+        const inputDecimals = sellX ? account.tokenXDecimals : account.tokenYDecimals;
+        const outputDecimals = sellX ? account.tokenYDecimals : account.tokenXDecimals;
+        const inputAmount = parseFloat(params.amount) / Math.pow(10, inputDecimals);
+        const grossOutput = sellX ? inputAmount * poolState.activePrice : inputAmount / poolState.activePrice;
+        const netOutput = grossOutput * (1 - this.getSettings().fallbackSwapCostBps / 10000);
+
+        return { outAmount: netOutput * Math.pow(10, outputDecimals), priceImpact: 0, source: 'pool' };
+    }
+
+    private async getPoolState(poolAddress: string): Promise<PoolState> {
+        const poolInfo = await this.meteoraService.getPoolInfo(poolAddress);
+        return {
+            activeBin: poolInfo.activeBin,
+            activePrice: poolInfo.activePrice,
+            binStep: poolInfo.binStep
+        };
+    }
+
+    private toSimulatedPosition(position: PaperPosition): SimulatedPosition {
+        return new SimulatedPosition(position.segments, position.referenceBin, position.referencePrice, position.binStep, position.removals);
+    }
+
+    private appendLedger(account: PaperAccount, type: PaperLedgerEntryType, signature: string, details: Record<string, any>): void {
+        const entry: PaperLedgerEntry = {
+            timestamp: Date.now(),
+            type,
+            signature,
+            balanceX: account.balanceX,
+            balanceY: account.balanceY,
+            details
+        };
+
+        account.ledger.push(entry);
+        if (account.ledger.length > PaperTradingService.MAX_LEDGER_ENTRIES) {
+            account.ledger.splice(0, account.ledger.length - PaperTradingService.MAX_LEDGER_ENTRIES);
+        }
+    }
+
+    private generateSignature(): string {
+        return `${PaperTradingService.SIGNATURE_PREFIX}${Date.now()}_${Math.random().toString(36).substring(2, 12)}`;
+    }
+
+    private getSettings(): PaperTradingSettings {
+        return {
+            ...PaperTradingService.DEFAULT_SETTINGS,
+            ...this.configService.get<Partial<PaperTradingSettings>>('paperTrading', {})
+        };
+    }
+
+    /**
+     * 🧩 用覆盖方法包装真实服务，未覆盖的方法仍调用原服务
+     */
+    private createOverlay<T extends object>(target: T, overrides: Partial<T>): T {
+        return new Proxy(target, {
+            get: (obj, property, receiver) => {
+                if (Object.prototype.hasOwnProperty.call(overrides, property)) {
+                    return (overrides as any)[property];
+                }
+                const value = Reflect.get(obj, property, receiver);
+                return typeof value === 'function' ? value.bind(obj) : value;
+            }
+        });
+    }
+}
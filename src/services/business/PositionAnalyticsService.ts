@@ -9,6 +9,7 @@ import {
     PositionLoss,
     RealPnL,
     AnalyticsReport,
+    HedgeStatistics,
     AnalyticsAlert,
     ConfigurationError,
     AnalyticsServiceError
@@ -52,6 +53,7 @@ export class PositionAnalyticsService implements IPositionAnalyticsService {
     private currentSetupParams: PositionSetupParams | null = null;
     private config: AnalyticsConfig;
     private alerts: AnalyticsAlert[] = [];
+    private hedgeStatistics: HedgeStatistics | null = null;
 
     // 策略日志器（可选，如果设置则使用策略级日志）
     private strategyLogger: IStrategyLogger | null = null;
@@ -244,7 +246,10 @@ export class PositionAnalyticsService implements IPositionAnalyticsService {
                     extractionStatus: this.extractionStatus,
                     lastExtractionTime: this.lastExtractionTime
                 }
-            }])
+            }]),
+
+            // 对冲统计
+            ...(this.hedgeStatistics && { hedging: { ...this.hedgeStatistics } })
         };
 
         await this.logMessage('DEBUG',
@@ -257,7 +262,7 @@ export class PositionAnalyticsService implements IPositionAnalyticsService {
     /**
      * 🔄 更新头寸地址列表（用于头寸重新创建后的同步）
      */
-    async updatePositionAddresses(newPositionAddresses: string[]): Promise<void> {
+    async updatePositionAddresses(newPositionAddresses: string[], monitoredRange?: [number, number]): Promise<void> {
         await this.logMessage('INFO',
             `开始更新头寸地址列表 - 新头寸数量: ${newPositionAddresses.length}`,
             {
@@ -275,8 +280,13 @@ export class PositionAnalyticsService implements IPositionAnalyticsService {
             // 保存旧的头寸地址用于日志
             const oldPositionAddresses = [...this.currentSetupParams.positionAddresses];
 
-            // 更新头寸地址列表
+            // 更新头寸地址列表（监控范围随头寸一起更新，未提供时按头寸合并范围计算）
             this.currentSetupParams.positionAddresses = newPositionAddresses;
+            if (monitoredRange) {
+                this.currentSetupParams.monitoredRange = monitoredRange;
+            } else {
+                delete this.currentSetupParams.monitoredRange;
+            }
 
             // 清除数据提供者的缓存，确保使用新头寸数据
             if (this.dataProvider && typeof this.dataProvider.invalidateCache === 'function') {
@@ -311,6 +321,36 @@ export class PositionAnalyticsService implements IPositionAnalyticsService {
         }
     }
 
+    /**
+     * ⚖️ 更新初始投入（部分退出后按剩余资金重设，使盈亏百分比只反映仍在头寸中的资金）
+     */
+    async updateInitialInvestment(initialInvestmentAmount: string): Promise<void> {
+        if (!this.currentSetupParams) {
+            throw new AnalyticsServiceError('更新初始投入', '未找到当前监控配置');
+        }
+        if (!(parseFloat(initialInvestmentAmount) > 0)) {
+            throw new AnalyticsServiceError('更新初始投入', `初始投入无效: ${initialInvestmentAmount}`);
+        }
+
+        const oldInvestment = this.currentSetupParams.initialInvestmentAmount;
+        if (oldInvestment === initialInvestmentAmount) return;
+        this.currentSetupParams.initialInvestmentAmount = initialInvestmentAmount;
+
+        // 清除数据提供者的缓存，确保盈亏按新投入计算
+        if (this.dataProvider && typeof this.dataProvider.invalidateCache === 'function') {
+            this.dataProvider.invalidateCache();
+        }
+
+        await this.logMessage('INFO', `初始投入已更新: ${oldInvestment} → ${initialInvestmentAmount}`);
+    }
+
+    /**
+     * 🛡️ 设置对冲统计（由策略执行器维护并持久化，报告中单独展示对冲成本）
+     */
+    setHedgeStatistics(statistics: HedgeStatistics): void {
+        this.hedgeStatistics = { ...statistics };
+    }
+
     /**
      * 🔧 统一日志记录方法
      */
@@ -600,7 +640,10 @@ export class PositionAnalyticsService implements IPositionAnalyticsService {
                 },
 
                 // 警报状态
-                alerts: this.alerts
+                alerts: this.alerts,
+
+                // 对冲统计
+                ...(this.hedgeStatistics && { hedging: { ...this.hedgeStatistics } })
             };
 
             const duration = Date.now() - startTime;
@@ -653,7 +696,11 @@ export class PositionAnalyticsService implements IPositionAnalyticsService {
             let validPositionsCount = 0;
 
             try {
-                if (this.currentSetupParams.positionAddresses.length > 0) {
+                const monitoredRange = this.currentSetupParams.monitoredRange;
+                if (monitoredRange) {
+                    // 🎯 策略提供了监控范围（如连锁头寸几何），直接使用，无需查询头寸
+                    [realPositionLowerBin, realPositionUpperBin] = monitoredRange;
+                } else if (this.currentSetupParams.positionAddresses.length > 0) {
                     let minLowerBin = Number.MAX_SAFE_INTEGER;
                     let maxUpperBin = Number.MIN_SAFE_INTEGER;
 
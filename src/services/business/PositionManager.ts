@@ -407,26 +407,7 @@ export class PositionManager implements IPositionManager {
             const connection = this.solanaService.getConnection();
 
             // 🔧 智能钱包管理：只在需要时才要求密码
-            let wallet: any;
-            if (this.walletService.isWalletUnlocked()) {
-                wallet = this.walletService.getCurrentKeypair()!;
-                await this.loggerService.logBusinessOperation('🔑 使用已解锁钱包(关闭头寸)', {
-                    message: '头寸关闭时使用已解锁的钱包'
-                });
-            } else {
-                // 钱包未解锁，需要密码
-                if (!password) {
-                    throw new Error('钱包未解锁，请提供密码');
-                }
-                const unlockSuccess = await this.walletService.unlock(password);
-                if (!unlockSuccess) {
-                    throw new Error('钱包解锁失败，请检查密码');
-                }
-                wallet = this.walletService.getCurrentKeypair()!;
-                await this.loggerService.logBusinessOperation('🔓 钱包解锁成功(关闭头寸)', {
-                    message: '头寸关闭时解锁钱包'
-                });
-            }
+            const wallet = await this.getSigningWallet('关闭头寸', password);
 
             // 2. 获取头寸信息 - 需要先获取池地址
             const positionPublicKey = new PublicKey(positionAddress);
@@ -553,6 +534,118 @@ export class PositionManager implements IPositionManager {
         }
     }
 
+    /**
+     * 按比例移除头寸流动性（保留头寸，手续费留在头寸中）
+     * @param positionAddress 头寸地址
+     * @param percentage 每个bin移除的比例（0-100]
+     * @param binRange 只移除该范围内的bin（可选，默认整个头寸）
+     * @param password 钱包密码（可选）
+     */
+    async removeLiquidity(positionAddress: string, percentage: number, binRange?: [number, number], password?: string): Promise<PositionResult> {
+        const operationStart = Date.now();
+        try {
+            if (!(percentage > 0 && percentage <= 100)) {
+                throw new Error(`移除比例无效: ${percentage}%`);
+            }
+
+            await this.loggerService.logBusinessOperation('🔄 开始按比例移除流动性', {
+                positionAddress: positionAddress.substring(0, 8) + '...',
+                percentage,
+                binRange
+            });
+
+            this.requestCount++;
+
+            const wallet = await this.getSigningWallet('移除流动性', password);
+
+            const userPositions = await this.getUserPositions(wallet.publicKey.toString());
+            const targetPosition = userPositions.find(p => p.address === positionAddress);
+            if (!targetPosition) {
+                throw new Error('头寸不存在或不属于当前用户');
+            }
+
+            // 指定范围时只移除与头寸重叠的bin
+            const fromBinId = Math.max(binRange?.[0] ?? targetPosition.lowerBinId, targetPosition.lowerBinId);
+            const toBinId = Math.min(binRange?.[1] ?? targetPosition.upperBinId, targetPosition.upperBinId);
+            if (fromBinId > toBinId) {
+                throw new Error(`移除范围 [${binRange?.join(', ')}] 与头寸范围不重叠`);
+            }
+
+            const transactions = await this.meteoraService.createRemoveLiquidityTransaction(
+                targetPosition.poolAddress,
+                wallet.publicKey.toString(),
+                positionAddress,
+                [fromBinId, toBinId],
+                Math.round(percentage * 100)
+            );
+
+            let signature = '';
+            for (const tx of transactions) {
+                const result = await this.solanaService.sendTransaction(tx, {
+                    signers: [wallet]
+                });
+                if (!result.success) {
+                    throw new Error(`交易失败: ${result.error}`);
+                }
+                signature = result.signature;
+            }
+
+            // 同步头寸缓存中的代币数量
+            await this.refreshPosition(positionAddress);
+
+            await this.loggerService.logBusinessOperation('✅ 按比例移除流动性成功', {
+                positionAddress: positionAddress.substring(0, 8) + '...',
+                percentage,
+                binRange: [fromBinId, toBinId],
+                signature,
+                operationDuration: Date.now() - operationStart
+            });
+
+            return {
+                success: true,
+                positionAddress,
+                signature,
+                gasUsed: 0
+            };
+
+        } catch (error) {
+            this.errorCount++;
+            await this.loggerService.logError('position-remove-liquidity', '按比例移除流动性失败', error as Error);
+
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : '按比例移除流动性失败',
+                signature: '',
+                gasUsed: 0
+            };
+        }
+    }
+
+    /**
+     * 获取签名钱包：已解锁时直接使用，否则使用密码解锁
+     */
+    private async getSigningWallet(operation: string, password?: string): Promise<any> {
+        if (this.walletService.isWalletUnlocked()) {
+            await this.loggerService.logBusinessOperation(`🔑 使用已解锁钱包(${operation})`, {
+                message: `${operation}时使用已解锁的钱包`
+            });
+            return this.walletService.getCurrentKeypair()!;
+        }
+
+        // 钱包未解锁，需要密码
+        if (!password) {
+            throw new Error('钱包未解锁，请提供密码');
+        }
+        const unlockSuccess = await this.walletService.unlock(password);
+        if (!unlockSuccess) {
+            throw new Error('钱包解锁失败，请检查密码');
+        }
+        await this.loggerService.logBusinessOperation(`🔓 钱包解锁成功(${operation})`, {
+            message: `${operation}时解锁钱包`
+        });
+        return this.walletService.getCurrentKeypair()!;
+    }
+
     /**
      * 获取头寸信息
      * @param positionAddress 头寸地址
@@ -1203,6 +1296,17 @@ export class PositionManager implements IPositionManager {
             // 12. 检查头寸是否在范围内
             const inRange = activeBinId >= lowerBinId && activeBinId <= upperBinId;
 
+            // 活跃bin同时持有X和Y，按bin范围移除流动性（如对冲只移除活跃bin上方）时需要单独扣除
+            let activeBinXAmount = BigInt(0);
+            const activeBinData = inRange ? binDataArray.find(bin => Number(bin.binId) === activeBinId) : undefined;
+            if (activeBinData && activeBinData[xField] !== undefined && activeBinData[xField] !== null) {
+                try {
+                    activeBinXAmount = BigInt(activeBinData[xField].toString());
+                } catch (e) {
+                    await this.loggerService.logSystem('WARN', `⚠️ 无法解析活跃bin的X代币数量: ${activeBinData[xField]}`);
+                }
+            }
+
             // 13. 格式化显示数量（用于日志）
             const formatAmount = (amount: bigint, decimals: number): string => {
                 const divisor = BigInt(10 ** decimals);
@@ -1235,6 +1339,7 @@ export class PositionManager implements IPositionManager {
                 upperBinId,
                 totalXAmount: totalXAmount.toString(),
                 totalYAmount: totalYAmount.toString(),
+                activeBinXAmount: activeBinXAmount.toString(),
                 fees: {
                     feeX: '0', // 收益计算由PositionFeeHarvester负责
                     feeY: '0'  // 收益计算由PositionFeeHarvester负责
@@ -1309,6 +1414,7 @@ export class PositionManager implements IPositionManager {
             upperBinId: number;
             totalXAmount: string;
             totalYAmount: string;
+            activeBinXAmount?: string;  // 活跃bin中的X代币（原子单位）
             fees: {
                 feeX: string;
                 feeY: string;
@@ -1415,6 +1521,7 @@ export class PositionManager implements IPositionManager {
                     upperBinId: onChainInfo.upperBinId,
                     totalXAmount: onChainInfo.totalXAmount,
                     totalYAmount: onChainInfo.totalYAmount,
+                    activeBinXAmount: onChainInfo.activeBinXAmount,
                     fees: onChainInfo.fees,
                     inRange: onChainInfo.inRange,
                     activeBinId: onChainInfo.activeBinId,
@@ -10,6 +10,7 @@ import {
     CreateXPositionParams, PositionResult, PositionInfo,
     ModuleConfig, ModuleHealth, ModuleMetrics, CreatePositionParams
 } from '../../types/interfaces';
+import { RiskBudgetService } from '../strategy/RiskBudgetService';
 
 interface XPositionStrategy {
     name: string;
@@ -106,7 +107,8 @@ export class XPositionManager implements IXPositionManager {
         @inject(TYPES.MeteoraService) private meteoraService: IMeteoraService,
         @inject(TYPES.JupiterService) private jupiterService: IJupiterService,
         @inject(TYPES.SolanaWeb3Service) private solanaService: ISolanaWeb3Service,
-        @inject(TYPES.WalletService) private walletService: IWalletService
+        @inject(TYPES.WalletService) private walletService: IWalletService,
+        @inject(TYPES.RiskBudgetService) private riskBudget: RiskBudgetService
     ) { }
 
     async initialize(config: ModuleConfig): Promise<void> {
@@ -165,6 +167,9 @@ export class XPositionManager implements IXPositionManager {
      */
     async createXPosition(params: CreateXPositionParams): Promise<PositionResult> {
         try {
+            // ⛔ 全局一键平仓期间暂停新头寸
+            this.riskBudget.assertDeploymentsAllowed();
+
             await this.loggerService.logBusinessOperation('🔵 开始创建X代币头寸', {
                 poolAddress: params.poolAddress.substring(0, 8) + '...',
                 amount: params.amount,
@@ -225,10 +230,10 @@ export class XPositionManager implements IXPositionManager {
                 ? params.binRange
                 : this.xTokenDefaults.defaultBinRange;
 
-            const [lowerBinId, upperBinId] = await this.getXPositionRange(
-                activeBin,
-                effectiveBinRange
-            );
+            // 优先使用传入的精确范围参数（用于连锁头寸）
+            const [lowerBinId, upperBinId] = (params.lowerBinId !== undefined && params.upperBinId !== undefined)
+                ? [params.lowerBinId, params.upperBinId]
+                : await this.getXPositionRange(activeBin, effectiveBinRange);
 
             await this.loggerService.logBusinessOperation('📊 X代币头寸范围计算', {
                 activeBin,
@@ -253,7 +258,7 @@ export class XPositionManager implements IXPositionManager {
                 strategy: {
                     minBinId: lowerBinId,
                     maxBinId: upperBinId,
-                    strategyType: DLMMSdk.StrategyType.BidAsk,
+                    strategyType: this.getStrategyType(params.liquidityMode),
                     singleSidedX: true // X代币头寸
                 },
                 slippage: params.slippageBps || 800 // 默认8%滑点
@@ -363,6 +368,20 @@ export class XPositionManager implements IXPositionManager {
         return this.positionManager.closePosition(positionAddress, password);
     }
 
+    /**
+     * 流动性分布映射到SDK策略类型（默认BidAsk）
+     */
+    private getStrategyType(liquidityMode?: 'spot' | 'bidask' | 'curve'): DLMMSdk.StrategyType {
+        switch (liquidityMode) {
+            case 'spot':
+                return DLMMSdk.StrategyType.Spot;
+            case 'curve':
+                return DLMMSdk.StrategyType.Curve;
+            default:
+                return DLMMSdk.StrategyType.BidAsk;
+        }
+    }
+
     /**
      * 获取X代币头寸范围
      * @param activeBin 当前活跃bin
@@ -545,80 +564,6 @@ export class XPositionManager implements IXPositionManager {
         }
     }
 
-    /**
-     * 评估对冲需求
-     * @param poolAddress 池地址
-     * @param amount 头寸金额
-     * @param strategy 策略配置
-     */
-    private async evaluateHedgeRequirement(
-        poolAddress: string,
-        amount: string,
-        strategy: XPositionStrategy
-    ): Promise<any> {
-        try {
-            const amountValue = parseFloat(amount);
-            const poolInfo = await this.meteoraService.getPoolInfo(poolAddress);
-
-            // 基于策略的对冲比例
-            const hedgeRatio = strategy.hedgeRatio;
-            const hedgeAmount = amountValue * hedgeRatio;
-
-            // 评估风险等级
-            let riskLevel = 'low';
-            if (amountValue > 10000000) { // 10M+ lamports
-                riskLevel = 'high';
-            } else if (amountValue > 5000000) { // 5M+ lamports
-                riskLevel = 'medium';
-            }
-
-            return {
-                required: hedgeRatio > 0.3,
-                amount: hedgeAmount.toString(),
-                ratio: hedgeRatio,
-                riskLevel,
-                recommendation: hedgeRatio > 0.5 ? 'immediate' : 'optional',
-                strategy: strategy.dynamicRebalancing ? 'dynamic' : 'static'
-            };
-        } catch (error) {
-            await this.loggerService.logError('Module', '❌ 对冲需求评估失败:', error as Error);
-            return {
-                required: false,
-                amount: '0',
-                ratio: 0,
-                riskLevel: 'unknown',
-                recommendation: 'skip',
-                strategy: 'none'
-            };
-        }
-    }
-
-    /**
-     * 执行对冲策略
-     * @param positionAddress 头寸地址
-     * @param hedgeInfo 对冲信息
-     */
-    private async executeHedgeStrategy(positionAddress: string, hedgeInfo: any): Promise<void> {
-        try {
-            await this.loggerService.logBusinessOperation('🛡️ 执行X代币对冲策略', {
-                positionAddress: positionAddress.substring(0, 8) + '...',
-                hedgeAmount: hedgeInfo.amount,
-                strategy: hedgeInfo.strategy
-            });
-
-            // TODO: 实现实际的对冲逻辑
-            // 可能包括：
-            // 1. 在其他池创建反向头寸
-            // 2. 使用衍生品对冲
-            // 3. 动态调整权重分布
-
-            await this.loggerService.logSystem('WARN', '⚠️  对冲策略执行功能待实现');
-
-        } catch (error) {
-            await this.loggerService.logError('Module', '❌ 对冲策略执行失败:', error as Error);
-        }
-    }
-
     /**
      * 分析X代币头寸表现
      * @param positionAddress 头寸地址
@@ -721,6 +666,10 @@ export class XPositionManager implements IXPositionManager {
         return this.positionManager.closePosition(positionAddress);
     }
 
+    async removeLiquidity(positionAddress: string, percentage: number, binRange?: [number, number], password?: string): Promise<PositionResult> {
+        return this.positionManager.removeLiquidity(positionAddress, percentage, binRange, password);
+    }
+
     async getPosition(positionAddress: string): Promise<PositionInfo | null> {
         return this.positionManager.getPosition(positionAddress);
     }
@@ -6,6 +6,8 @@ import {
     IYPositionManager, IPositionManager, IConfigService, ILoggerService,
     IMeteoraService, IJupiterService, ISolanaWeb3Service, IWalletService, TYPES, PositionResult, ModuleConfig, ModuleHealth, ModuleMetrics, CreatePositionParams, PositionInfo
 } from '../../types/interfaces';
+import { RiskBudgetService } from '../strategy/RiskBudgetService';
+import { TWO_SIDED_ACTIVE_BIN_CHANGED } from './LiquidityOperationService';
 
 // 定义Y代币头寸创建参数
 interface YPositionCreateParams extends CreatePositionParams {
@@ -14,6 +16,9 @@ interface YPositionCreateParams extends CreatePositionParams {
     notes?: string;
     binRange: number;
     password?: string;
+    liquidityMode?: 'spot' | 'bidask' | 'curve';
+    xAmount?: string; // 双边头寸同时存入的X代币（原子单位）
+    activeBin?: number; // 双边头寸拆分资金时的活跃bin
 }
 
 interface YPositionStrategy {
@@ -98,7 +103,8 @@ export class YPositionManager implements IYPositionManager {
         @inject(TYPES.MeteoraService) private meteoraService: IMeteoraService,
         @inject(TYPES.JupiterService) private jupiterService: IJupiterService,
         @inject(TYPES.SolanaWeb3Service) private solanaService: ISolanaWeb3Service,
-        @inject(TYPES.WalletService) private walletService: IWalletService
+        @inject(TYPES.WalletService) private walletService: IWalletService,
+        @inject(TYPES.RiskBudgetService) private riskBudget: RiskBudgetService
     ) {
         if (!this.meteoraService) {
             this.loggerService.logSystem('ERROR', 'MeteoraService aT YPositionManager construction is undefined!');
@@ -163,9 +169,13 @@ export class YPositionManager implements IYPositionManager {
      */
     async createYPosition(params: YPositionCreateParams): Promise<PositionResult> {
         try {
+            // ⛔ 全局一键平仓期间暂停新头寸
+            this.riskBudget.assertDeploymentsAllowed();
+
             await this.loggerService.logBusinessOperation('🟡 开始创建Y代币头寸', {
                 poolAddress: params.poolAddress.substring(0, 8) + '...',
                 amount: params.amount,
+                ...(params.xAmount && { xAmount: params.xAmount }),
                 strategy: params.strategy || 'moderate',
                 binRange: params.binRange
             });
@@ -215,7 +225,15 @@ export class YPositionManager implements IYPositionManager {
             });
 
             // 3. 获取池信息和活跃bin - 这是正确的实现位置
-            const activeBin = await this.meteoraService.getActiveBin(params.poolAddress);
+            // ↕️ 双边头寸的X/Y资金按调用方计算范围时的活跃bin拆分：刚读取的池状态中活跃bin必须仍是该bin，
+            // 否则存入比例与拆分不一致，返回错误由调用方按新的活跃bin重新拆分
+            const isTwoSided = Boolean(params.xAmount) && params.activeBin !== undefined;
+            if (isTwoSided && dlmmPool.lbPair.activeId !== params.activeBin) {
+                throw new Error(`${TWO_SIDED_ACTIVE_BIN_CHANGED}: 拆分时 ${params.activeBin}，当前 ${dlmmPool.lbPair.activeId}`);
+            }
+            const activeBin = isTwoSided
+                ? dlmmPool.lbPair.activeId
+                : await this.meteoraService.getActiveBin(params.poolAddress);
 
             // 4. 计算Y代币头寸范围 (修正版 - 支持连锁头寸)
             let lowerBinId: number;
@@ -258,7 +276,7 @@ export class YPositionManager implements IYPositionManager {
             const yAmount = new BN(yTokenAmount);
 
             await this.loggerService.logSystem('DEBUG', `Y头寸金额转换: ${amountNumber} 代币单位 = ${yTokenAmount} 最小单位 (精度: ${yTokenDecimals})`);
-            const xAmount = new BN(0); // Y头寸只使用Y代币
+            const xAmount = new BN(params.xAmount || '0'); // Y头寸只使用Y代币，双边头寸同时存入X代币
 
             // 6. 创建头寸交易
             const txResult = await dlmmPool.initializePositionAndAddLiquidityByStrategy({
@@ -269,7 +287,7 @@ export class YPositionManager implements IYPositionManager {
                 strategy: {
                     minBinId: lowerBinId,
                     maxBinId: upperBinId,
-                    strategyType: DLMMSdk.StrategyType.BidAsk,
+                    strategyType: this.getStrategyType(params.liquidityMode),
                     singleSidedX: false // Y代币头寸
                 },
                 slippage: params.slippageBps || 800 // 默认8%滑点
@@ -318,7 +336,7 @@ export class YPositionManager implements IYPositionManager {
                     lowerBinId,
                     upperBinId,
                     binIds: Array.from({ length: upperBinId - lowerBinId + 1 }, (_, i) => lowerBinId + i),
-                    totalXAmount: '0', // Y头寸只有Y代币
+                    totalXAmount: xAmount.toString(),
                     totalYAmount: yAmount.toString(),
                     fees: { feeX: '0', feeY: '0' },
                     lastUpdated: Date.now(),
@@ -328,7 +346,7 @@ export class YPositionManager implements IYPositionManager {
                     metadata: {
                         strategy: params.strategy || 'moderate',
                         tags: [],
-                        notes: 'Y代币单边流动性头寸'
+                        notes: xAmount.isZero() ? 'Y代币单边流动性头寸' : 'X/Y双边流动性头寸'
                     }
                 };
 
@@ -383,6 +401,20 @@ export class YPositionManager implements IYPositionManager {
         return this.positionManager.closePosition(positionAddress, password);
     }
 
+    /**
+     * 流动性分布映射到SDK策略类型（默认BidAsk）
+     */
+    private getStrategyType(liquidityMode?: 'spot' | 'bidask' | 'curve'): DLMMSdk.StrategyType {
+        switch (liquidityMode) {
+            case 'spot':
+                return DLMMSdk.StrategyType.Spot;
+            case 'curve':
+                return DLMMSdk.StrategyType.Curve;
+            default:
+                return DLMMSdk.StrategyType.BidAsk;
+        }
+    }
+
     /**
      * 计算Y代币头寸的价格范围 (实现单边流动性)
      * @param activeBin 当前活跃的bin
@@ -607,6 +639,10 @@ export class YPositionManager implements IYPositionManager {
         return this.positionManager.closePosition(positionAddress, password);
     }
 
+    async removeLiquidity(positionAddress: string, percentage: number, binRange?: [number, number], password?: string): Promise<PositionResult> {
+        return this.positionManager.removeLiquidity(positionAddress, percentage, binRange, password);
+    }
+
     async getPosition(positionAddress: string): Promise<PositionInfo | null> {
         return this.positionManager.getPosition(positionAddress);
     }
@@ -3,6 +3,7 @@ import { ILoggerService, IPositionFeeHarvester, IJupiterService, IWalletService,
 import { YieldExtraction, YieldStatistics } from '../../../types/analytics-types';
 import { AccumulatedYieldManager } from './AccumulatedYieldManager';
 import { SynchronousRetryManager, AsyncRetryableOperation } from '../../modules/SynchronousRetryManager';
+import { PaperTradingService } from '../PaperTradingService';
 
 /**
  * 收益提取上下文
@@ -57,11 +58,15 @@ export class YieldOperator implements IBusinessOperator {
 
     // 🆕 缓存清理回调（收益提取完成后清除相关缓存）
     private cacheInvalidationCallback: (() => void) | null = null;
+    private extractionCallback: ((extraction: YieldExtraction) => Promise<void>) | null = null;
 
     // 🔒 时间锁机制（防止重复提取）
     private lastExtractionTime: number = 0;
     private extractionCooldownMs: number = 1 * 60 * 1000; // 默认1分钟冷却时间
 
+    // 📝 模拟盘上下文（余额查询、代币交换和交易验证走虚拟账本）
+    private paperTrading: { service: PaperTradingService; instanceId: string } | null = null;
+
     constructor(
         @inject(TYPES.LoggerService) private loggerService: ILoggerService,
         @inject(TYPES.PositionFeeHarvester) private feeHarvester: IPositionFeeHarvester,
@@ -81,6 +86,13 @@ export class YieldOperator implements IBusinessOperator {
         this.statusCallback = callback;
     }
 
+    /**
+     * 📝 启用模拟盘模式（由InstanceAwareServiceFactory为paper实例调用）
+     */
+    enablePaperTrading(service: PaperTradingService, instanceId: string): void {
+        this.paperTrading = { service, instanceId };
+    }
+
     /**
      * 🔒 通知状态变化
      */
@@ -111,6 +123,13 @@ export class YieldOperator implements IBusinessOperator {
         this.cacheInvalidationCallback = callback;
     }
 
+    /**
+     * 📒 设置提取完成回调（由InstanceAwareServiceFactory注册，写入实例操作历史）
+     */
+    setExtractionCallback(callback: (extraction: YieldExtraction) => Promise<void>): void {
+        this.extractionCallback = callback;
+    }
+
     /**
      * 执行业务操作 - 通用接口
      */
@@ -375,6 +394,16 @@ export class YieldOperator implements IBusinessOperator {
                 context.instanceId
             );
 
+            if (successCount > 0 && this.extractionCallback) {
+                try {
+                    await this.extractionCallback(extraction);
+                } catch (error) {
+                    await this.loggerService.logSystem('WARN',
+                        `收益提取记录失败（不影响主流程）: ${error instanceof Error ? error.message : '未知错误'}`
+                    );
+                }
+            }
+
             // 🔒 重置提取状态为空闲
             this.notifyStatusChange('IDLE');
 
@@ -502,6 +531,10 @@ export class YieldOperator implements IBusinessOperator {
      */
     private async getAccountTokenBalance(poolAddress: string, tokenType: 'X' | 'Y'): Promise<string> {
         try {
+            if (this.paperTrading) {
+                return await this.paperTrading.service.getTokenBalance(this.paperTrading.instanceId, tokenType);
+            }
+
             // 获取池子信息以获取代币mint地址
             const poolInfo = await this.getPoolInfo(poolAddress);
             if (!poolInfo) {
@@ -592,6 +625,19 @@ export class YieldOperator implements IBusinessOperator {
                 return { outputAmount: '0' };
             }
 
+            // 📝 模拟盘：按报价在虚拟账户中成交
+            if (this.paperTrading) {
+                const paperResult = await this.paperTrading.service.swapTokenXToY(
+                    this.paperTrading.instanceId,
+                    xTokenBalance,
+                    this.getSlippageBps(instanceId)
+                );
+                await this.loggerService.logSystem('INFO',
+                    `📝 模拟盘收益提取X代币交换完成 - 输入: ${xTokenBalance}, 输出: ${paperResult.outputAmount}, 签名: ${paperResult.signature}`
+                );
+                return { outputAmount: paperResult.outputAmount, signature: paperResult.signature };
+            }
+
             // 🔍 步骤2: 获取池子信息
             const poolInfo = await this.getPoolInfo(poolAddress);
             if (!poolInfo || !poolInfo.tokenX || !poolInfo.tokenY) {
@@ -839,6 +885,10 @@ export class YieldOperator implements IBusinessOperator {
         error?: string;
     }> {
         try {
+            if (this.paperTrading) {
+                return this.paperTrading.service.verifyTransaction(signature);
+            }
+
             // 🎯 使用SolanaWeb3Service的verifyTransactionWithRetry方法
             // 这个方法内部实现了3s、6s、9s、12s的4次验证
             const verificationResult = await (this.solanaService as any).verifyTransactionWithRetry(signature, 4);
@@ -1006,6 +1056,10 @@ export class YieldOperator implements IBusinessOperator {
         error?: string;
     }> {
         try {
+            if (this.paperTrading) {
+                return this.paperTrading.service.verifyTransaction(signature);
+            }
+
             // 🎯 复用已有的4次验证机制
             const verificationResult = await (this.solanaService as any).verifyTransactionWithRetry(signature, 4);
             return verificationResult;
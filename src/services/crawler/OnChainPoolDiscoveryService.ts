@@ -0,0 +1,357 @@
+/**
+ * ⛓️ 链上池发现服务
+ *
+ * 不依赖第三方网站，直接从链上生成 RawPoolData：
+ * - 通过Meteora程序账户（getProgramAccounts）枚举指定报价代币的DLMM池，按最近交易时间选取候选池
+ * - 通过MeteoraService获取bin步长、活跃bin、价格和储备
+ * - 每轮记录一次快照，价格变化、交易量、费用和APR窗口由相邻快照推算
+ *
+ * 交易量推算：相邻快照之间X、Y储备反向变化视为兑换，取两侧变化的均值；
+ * 同向变化视为增减流动性，不计入交易量。区间内方向相反的兑换会相互抵消，所以结果是下限估计。
+ * 费用按基础费率计算，不含动态费率部分。
+ */
+
+import { injectable, inject } from 'tsyringe';
+import { PublicKey } from '@solana/web3.js';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import bs58 from 'bs58';
+import {
+    TYPES, ILoggerService, IConfigService, ISolanaWeb3Service, IMeteoraService, IJupiterService
+} from '../../types/interfaces';
+import { OnChainDiscoveryConfig, OnChainPoolSnapshot, RawPoolData } from '../../types/pool-crawler-types';
+
+type Timeframe = '5m' | '1h' | '6h' | '24h' | '7d';
+
+const WINDOW_MS: Record<Timeframe, number> = {
+    '5m': 5 * 60 * 1000,
+    '1h': 60 * 60 * 1000,
+    '6h': 6 * 60 * 60 * 1000,
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000
+};
+
+// 常见报价代币的符号（代币列表不可用时使用）
+const KNOWN_SYMBOLS: Record<string, string> = {
+    So11111111111111111111111111111111111111112: 'SOL',
+    EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v: 'USDC',
+    Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB: 'USDT'
+};
+
+@injectable()
+export class OnChainPoolDiscoveryService {
+    // LbPair账户布局：8字节discriminator + StaticParameters(32) + VariableParameters(32) + ...
+    private static readonly LB_PAIR_DISCRIMINATOR = crypto.createHash('sha256').update('account:LbPair').digest().subarray(0, 8);
+    private static readonly LAST_SWAP_TIMESTAMP_OFFSET = 56;   // vParameters.lastUpdateTimestamp (i64)
+    private static readonly TOKEN_Y_MINT_OFFSET = 120;          // tokenYMint
+    private static readonly FULL_RESOLUTION_MS = 6 * 60 * 60 * 1000;
+    private static readonly DOWNSAMPLE_BUCKET_MS = 60 * 60 * 1000;
+
+    private snapshots: Map<string, OnChainPoolSnapshot[]> = new Map();
+    private tokenSymbols: Map<string, string> | null = null;
+    private loaded = false;
+
+    private readonly snapshotPath: string;
+
+    constructor(
+        @inject(TYPES.LoggerService) private loggerService: ILoggerService,
+        @inject(TYPES.ConfigService) private configService: IConfigService,
+        @inject(TYPES.SolanaWeb3Service) private solanaService: ISolanaWeb3Service,
+        @inject(TYPES.MeteoraService) private meteoraService: IMeteoraService,
+        @inject(TYPES.JupiterService) private jupiterService: IJupiterService
+    ) {
+        this.snapshotPath = path.join(process.cwd(), 'data', 'onchain-pool-snapshots.json');
+    }
+
+    /**
+     * 🔍 执行一轮链上发现，返回满足最低流动性的池（按24h交易量排名）
+     */
+    async discoverPools(config: OnChainDiscoveryConfig): Promise<RawPoolData[]> {
+        if (!this.loaded) {
+            await this.loadSnapshots();
+        }
+
+        const candidates = await this.enumerateCandidates(config);
+        const quotePrices = await this.getQuotePrices(config.quoteMints);
+        const symbols = await this.getTokenSymbols();
+
+        const pools: RawPoolData[] = [];
+        let failed = 0;
+
+        // 逐个池查询，避免对RPC造成突发压力
+        for (const poolAddress of candidates) {
+            try {
+                pools.push(await this.buildPoolData(poolAddress, quotePrices, symbols));
+            } catch (error) {
+                failed++;
+                await this.loggerService.logError('OnChainPoolDiscovery', `池数据获取失败: ${poolAddress}`, error as Error);
+            }
+        }
+
+        if (candidates.length > 0 && failed === candidates.length) {
+            throw new Error(`链上池数据获取全部失败 (${failed}个候选池)`);
+        }
+
+        this.pruneSnapshots(config.snapshotRetentionHours);
+        await this.saveSnapshots();
+
+        const result = pools
+            .filter(pool => pool.liquidity >= config.minLiquidityUsd)
+            .sort((a, b) => b.volume['24h'] - a.volume['24h'] || b.liquidity - a.liquidity)
+            .map((pool, index) => ({ ...pool, rank: index + 1 }));
+
+        await this.loggerService.logBusinessOperation('⛓️ 链上池发现完成', {
+            candidates: candidates.length,
+            failed,
+            output: result.length
+        });
+
+        return result;
+    }
+
+    getSnapshots(poolAddress: string): OnChainPoolSnapshot[] {
+        return [...(this.snapshots.get(poolAddress) || [])];
+    }
+
+    // ================== 候选池枚举 ==================
+
+    /**
+     * 枚举以报价代币为Y代币的LbPair账户，只读取最近交易时间字段，取最活跃的前N个
+     */
+    private async enumerateCandidates(config: OnChainDiscoveryConfig): Promise<string[]> {
+        const programId = new PublicKey(this.configService.get<string>('meteora.programId', 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo'));
+        const discriminator = bs58.encode(OnChainPoolDiscoveryService.LB_PAIR_DISCRIMINATOR);
+        const candidates: { address: string; lastSwapAt: number }[] = [];
+
+        for (const quoteMint of config.quoteMints) {
+            const accounts = await this.solanaService.getProgramAccounts(programId, {
+                commitment: 'confirmed',
+                dataSlice: { offset: OnChainPoolDiscoveryService.LAST_SWAP_TIMESTAMP_OFFSET, length: 8 },
+                filters: [
+                    { memcmp: { offset: 0, bytes: discriminator } },
+                    { memcmp: { offset: OnChainPoolDiscoveryService.TOKEN_Y_MINT_OFFSET, bytes: quoteMint } }
+                ]
+            });
+
+            if (!accounts) {
+                throw new Error(`获取Meteora程序账户失败 (报价代币: ${quoteMint})`);
+            }
+
+            for (const { pubkey, account } of accounts) {
+                const data = account.data as Buffer;
+                if (data.length < 8) continue;
+                candidates.push({ address: pubkey.toBase58(), lastSwapAt: Number(data.readBigInt64LE(0)) });
+            }
+        }
+
+        return candidates
+            .sort((a, b) => b.lastSwapAt - a.lastSwapAt)
+            .slice(0, config.maxPools)
+            .map(candidate => candidate.address);
+    }
+
+    // ================== 单池数据 ==================
+
+    private async buildPoolData(
+        poolAddress: string,
+        quotePrices: Record<string, number>,
+        symbols: Map<string, string>
+    ): Promise<RawPoolData> {
+        const info = await this.meteoraService.getPoolInfo(poolAddress);
+        const reserves = await this.meteoraService.getPoolReserves(poolAddress);
+
+        const history = this.snapshots.get(poolAddress) || [];
+        const previous = history[history.length - 1];
+        const priceYUsd = quotePrices[reserves.tokenY] || previous?.priceYUsd || 0;
+
+        const snapshot: OnChainPoolSnapshot = {
+            timestamp: Date.now(),
+            activeBin: info.activeBin,
+            price: info.activePrice,
+            reserveX: Number(reserves.reserveX) / Math.pow(10, reserves.tokenXDecimals),
+            reserveY: Number(reserves.reserveY) / Math.pow(10, reserves.tokenYDecimals),
+            priceYUsd
+        };
+        history.push(snapshot);
+        this.snapshots.set(poolAddress, history);
+
+        const liquidity = (snapshot.reserveX * snapshot.price + snapshot.reserveY) * priceYUsd;
+        const volume = this.computeWindows(history, (from, to) => this.estimateSwapVolumeUsd(from, to));
+        const fees = this.mapWindows(volume, value => value * reserves.baseFeeRatePercentage / 100);
+
+        return {
+            rank: 0,
+            poolAddress,
+            tokenPair: `${this.getSymbol(symbols, reserves.tokenX)}-${this.getSymbol(symbols, reserves.tokenY)}`,
+            meteorScore: 0,
+            liquidity,
+            age: '',
+            fdv: 0,
+            size: 0,
+            in: 0,
+            out: 0,
+            binStep: info.binStep,
+            apr: this.mapWindows(fees, value => (liquidity > 0 ? value / liquidity * 100 : 0)),
+            priceChange: this.computePriceChanges(history),
+            fees,
+            volume,
+            scrapedAt: snapshot.timestamp,
+            url: `https://app.meteora.ag/dlmm/${poolAddress}`,
+            sources: ['onchain']
+        };
+    }
+
+    /**
+     * 相邻快照之间的兑换量（美元）
+     */
+    private estimateSwapVolumeUsd(from: OnChainPoolSnapshot, to: OnChainPoolSnapshot): number {
+        const deltaX = to.reserveX - from.reserveX;
+        const deltaY = to.reserveY - from.reserveY;
+        if (deltaX * deltaY >= 0) {
+            return 0;
+        }
+
+        const volumeY = (Math.abs(deltaX) * to.price + Math.abs(deltaY)) / 2;
+        return volumeY * to.priceYUsd;
+    }
+
+    /**
+     * 按时间窗口累加相邻快照区间的值（区间结束时间落在窗口内即计入）
+     */
+    private computeWindows(
+        history: OnChainPoolSnapshot[],
+        intervalValue: (from: OnChainPoolSnapshot, to: OnChainPoolSnapshot) => number
+    ): RawPoolData['volume'] {
+        const now = history[history.length - 1]!.timestamp;
+        const result = { '5m': 0, '1h': 0, '6h': 0, '24h': 0, '7d': 0 };
+
+        for (let i = 1; i < history.length; i++) {
+            const value = intervalValue(history[i - 1]!, history[i]!);
+            if (value === 0) continue;
+
+            for (const timeframe of Object.keys(WINDOW_MS) as Timeframe[]) {
+                if (now - history[i]!.timestamp < WINDOW_MS[timeframe]) {
+                    result[timeframe] += value;
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * 当前价格相对窗口内最早快照的变化（%）
+     */
+    private computePriceChanges(history: OnChainPoolSnapshot[]): RawPoolData['priceChange'] {
+        const latest = history[history.length - 1]!;
+        const result = { '5m': 0, '1h': 0, '6h': 0, '24h': 0, '7d': 0 };
+
+        for (const timeframe of Object.keys(WINDOW_MS) as Timeframe[]) {
+            const reference = history.find(snapshot => latest.timestamp - snapshot.timestamp <= WINDOW_MS[timeframe]);
+            if (reference && reference !== latest && reference.price > 0) {
+                result[timeframe] = (latest.price / reference.price - 1) * 100;
+            }
+        }
+
+        return result;
+    }
+
+    private mapWindows(values: RawPoolData['volume'], mapper: (value: number) => number): RawPoolData['volume'] {
+        return {
+            '5m': mapper(values['5m']),
+            '1h': mapper(values['1h']),
+            '6h': mapper(values['6h']),
+            '24h': mapper(values['24h']),
+            '7d': mapper(values['7d'])
+        };
+    }
+
+    // ================== 价格与代币符号 ==================
+
+    private async getQuotePrices(quoteMints: string[]): Promise<Record<string, number>> {
+        try {
+            return await this.jupiterService.getTokenPrices(quoteMints);
+        } catch (error) {
+            // 价格不可用时沿用上一个快照中的价格
+            await this.loggerService.logError('OnChainPoolDiscovery', '报价代币价格获取失败，沿用上次价格', error as Error);
+            return {};
+        }
+    }
+
+    private async getTokenSymbols(): Promise<Map<string, string>> {
+        if (this.tokenSymbols) {
+            return this.tokenSymbols;
+        }
+
+        const symbols = new Map<string, string>(Object.entries(KNOWN_SYMBOLS));
+        try {
+            const tokens = await this.jupiterService.getSupportedTokens();
+            for (const token of tokens) {
+                if (token && typeof token === 'object' && token.address && token.symbol) {
+                    symbols.set(token.address, token.symbol);
+                }
+            }
+            this.tokenSymbols = symbols;
+        } catch (error) {
+            await this.loggerService.logError('OnChainPoolDiscovery', '代币列表获取失败，使用地址缩写作为符号', error as Error);
+        }
+
+        return symbols;
+    }
+
+    private getSymbol(symbols: Map<string, string>, mint: string): string {
+        return symbols.get(mint) || mint.slice(0, 6);
+    }
+
+    // ================== 快照持久化 ==================
+
+    /**
+     * 清理过期快照：6小时内保留全部，更早的每小时保留一个
+     */
+    private pruneSnapshots(retentionHours: number): void {
+        const now = Date.now();
+        const cutoff = now - retentionHours * 60 * 60 * 1000;
+
+        for (const [poolAddress, history] of this.snapshots) {
+            const seenBuckets = new Set<number>();
+            const kept = history.filter(snapshot => {
+                if (snapshot.timestamp < cutoff) return false;
+                if (now - snapshot.timestamp <= OnChainPoolDiscoveryService.FULL_RESOLUTION_MS) return true;
+
+                const bucket = Math.floor(snapshot.timestamp / OnChainPoolDiscoveryService.DOWNSAMPLE_BUCKET_MS);
+                if (seenBuckets.has(bucket)) return false;
+                seenBuckets.add(bucket);
+                return true;
+            });
+
+            if (kept.length === 0) {
+                this.snapshots.delete(poolAddress);
+            } else {
+                this.snapshots.set(poolAddress, kept);
+            }
+        }
+    }
+
+    private async loadSnapshots(): Promise<void> {
+        try {
+            const content = await fs.readFile(this.snapshotPath, 'utf-8');
+            const data = JSON.parse(content) as { pools?: Record<string, OnChainPoolSnapshot[]> };
+            this.snapshots = new Map(Object.entries(data.pools || {}));
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                await this.loggerService.logError('OnChainPoolDiscovery', '链上快照加载失败，重新开始记录', error as Error);
+            }
+        }
+        this.loaded = true;
+    }
+
+    private async saveSnapshots(): Promise<void> {
+        await fs.mkdir(path.dirname(this.snapshotPath), { recursive: true });
+
+        const tempPath = this.snapshotPath + '.tmp';
+        const data = { updatedAt: Date.now(), pools: Object.fromEntries(this.snapshots) };
+        await fs.writeFile(tempPath, JSON.stringify(data), 'utf-8');
+        await fs.rename(tempPath, this.snapshotPath);
+    }
+}
@@ -0,0 +1,714 @@
+/**
+ * 🏊 池爬虫服务
+ *
+ * 职责：
+ * - 按配置的间隔从启用的数据来源（solmeteor.ai 页面、链上程序账户）获取池列表，合并后筛选出合格池
+ * - 合格池写入合格池管理器，并通过推送历史避免保留期内重复推送
+ * - 通过事件总线广播状态、发现池、合格池和错误（Socket.IO转发给前端）
+ * - 爬虫配置和筛选器持久化到 data/pool-crawler-settings.json
+ */
+
+import { injectable, inject } from 'tsyringe';
+import fs from 'fs/promises';
+import path from 'path';
+import { TYPES, ILoggerService, IConfigService, IEventBus } from '../../types/interfaces';
+import {
+    CrawlerConfig, CrawlerError, CrawlerStatus, IPoolCrawlerService, PoolDataSource, PoolFilterConfig,
+    ProcessedPoolData, QualifiedPoolRecord, RawPoolData
+} from '../../types/pool-crawler-types';
+import { LoggerService } from '../../infrastructure/logging/LoggerService';
+import { CrawlerLogger } from '../../infrastructure/logging/CrawlerLogger';
+import { PuppeteerWebCrawlerService } from './PuppeteerWebCrawlerService';
+import { PoolDataParser } from './PoolDataParser';
+import { PoolFilterEngine } from './PoolFilterEngine';
+import { TokenFilterManager } from './TokenFilterManager';
+import { QualifiedPoolsManager } from './QualifiedPoolsManager';
+import { PoolPushStorageManager } from './PoolPushStorageManager';
+import { OnChainPoolDiscoveryService } from './OnChainPoolDiscoveryService';
+
+/**
+ * 爬虫运行统计
+ */
+interface CrawlerStats {
+    crawlerRound: number;
+    totalCrawls: number;
+    successfulCrawls: number;
+    failedCrawls: number;
+    consecutiveFailures: number;
+    totalPoolsDiscovered: number;
+    totalQualifiedPushed: number;
+    lastCrawlDuration: number;
+    averageCrawlDuration: number;
+}
+
+type SeriesFilterKey = 'apr' | 'priceChange' | 'fees' | 'volume';
+
+const POOL_DATA_SOURCES: PoolDataSource[] = ['web', 'onchain'];
+
+@injectable()
+export class PoolCrawlerService implements IPoolCrawlerService {
+    private static readonly MAX_ERRORS = 50;
+    private static readonly DEFAULT_CONFIG: CrawlerConfig = {
+        enabled: false,
+        baseUrl: 'https://solmeteor.ai',
+        intervalMinutes: 5,
+        maxPages: 1,
+        requestDelay: 2000,
+        timeout: 30000,
+        retryCount: 3,
+        userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        sources: ['web'],
+        onChain: {
+            quoteMints: ['So11111111111111111111111111111111111111112'],
+            maxPools: 30,
+            minLiquidityUsd: 1000,
+            snapshotRetentionHours: 168
+        }
+    };
+
+    private config: CrawlerConfig = { ...PoolCrawlerService.DEFAULT_CONFIG };
+    private filters: PoolFilterConfig;
+    private status: CrawlerStatus = {
+        isRunning: false,
+        lastCrawlTime: null,
+        nextCrawlTime: null,
+        poolsDiscovered: 0,
+        qualifiedPools: 0,
+        errors: [],
+        status: 'stopped'
+    };
+    private stats: CrawlerStats = {
+        crawlerRound: 0,
+        totalCrawls: 0,
+        successfulCrawls: 0,
+        failedCrawls: 0,
+        consecutiveFailures: 0,
+        totalPoolsDiscovered: 0,
+        totalQualifiedPushed: 0,
+        lastCrawlDuration: 0,
+        averageCrawlDuration: 0
+    };
+
+    private discoveredPools: ProcessedPoolData[] = [];
+    private crawlTimer: NodeJS.Timeout | null = null;
+    private isCrawling = false;
+    private initialized = false;
+    private commandSubscriptions: string[] = [];
+    private crawlerLogger: CrawlerLogger | null = null;
+
+    private readonly settingsPath: string;
+
+    constructor(
+        @inject(TYPES.LoggerService) private loggerService: ILoggerService,
+        @inject(TYPES.ConfigService) private configService: IConfigService,
+        @inject(TYPES.EventBus) private eventBus: IEventBus,
+        @inject('WebCrawlerService') private webCrawler: PuppeteerWebCrawlerService,
+        @inject('PoolDataParser') private dataParser: PoolDataParser,
+        @inject('PoolFilterEngine') private filterEngine: PoolFilterEngine,
+        @inject('TokenFilterManager') private tokenFilterManager: TokenFilterManager,
+        @inject('QualifiedPoolsManager') private qualifiedPoolsManager: QualifiedPoolsManager,
+        @inject('PoolPushStorageManager') private pushStorageManager: PoolPushStorageManager,
+        @inject('OnChainPoolDiscoveryService') private onChainDiscovery: OnChainPoolDiscoveryService
+    ) {
+        this.settingsPath = path.join(process.cwd(), 'data', 'pool-crawler-settings.json');
+        this.filters = this.filterEngine.getDefaultFilters();
+    }
+
+    // ================== 初始化 ==================
+
+    /**
+     * 🚀 加载持久化数据、订阅控制命令，配置启用时自动启动
+     */
+    async initialize(): Promise<void> {
+        if (this.initialized) return;
+
+        this.config = this.mergeConfig(
+            PoolCrawlerService.DEFAULT_CONFIG,
+            this.configService.get<Partial<CrawlerConfig>>('poolCrawler', {})
+        );
+        await this.loadSettings();
+
+        await this.tokenFilterManager.initialize();
+        await this.qualifiedPoolsManager.initialize();
+        await this.qualifiedPoolsManager.cleanup();
+        await this.pushStorageManager.initialize();
+
+        if (this.loggerService instanceof LoggerService) {
+            this.crawlerLogger = this.loggerService.createCrawlerLogger();
+        }
+
+        this.subscribeCommands();
+        this.status.qualifiedPools = this.qualifiedPoolsManager.getAllPools().length;
+        this.initialized = true;
+
+        await this.loggerService.logSystem('INFO', `🏊 池爬虫服务初始化完成 (合格池: ${this.status.qualifiedPools})`);
+
+        if (this.config.enabled) {
+            await this.start();
+        }
+    }
+
+    /**
+     * 🛑 停止爬虫并释放浏览器、定时器和事件订阅
+     */
+    async destroy(): Promise<void> {
+        await this.stop();
+        this.commandSubscriptions.forEach(id => this.eventBus.unsubscribe(id));
+        this.commandSubscriptions = [];
+        await this.pushStorageManager.destroy();
+        await this.webCrawler.close();
+        if (this.crawlerLogger) {
+            await this.crawlerLogger.cleanup();
+        }
+        this.initialized = false;
+    }
+
+    // ================== 生命周期 ==================
+
+    async start(): Promise<void> {
+        if (this.status.isRunning) {
+            return;
+        }
+
+        this.status.isRunning = true;
+        this.status.status = 'running';
+        this.config.isRunning = true;
+        await this.crawlerLogger?.logLifecycle('start', { config: this.config });
+        await this.loggerService.logBusinessOperation('🏊 池爬虫已启动', {
+            intervalMinutes: this.config.intervalMinutes,
+            maxPages: this.config.maxPages
+        });
+
+        // 启动后立即执行一轮，之后按间隔调度
+        this.scheduleNextCrawl(0);
+        await this.publishStatus();
+    }
+
+    async stop(): Promise<void> {
+        this.clearCrawlTimer();
+        if (!this.status.isRunning) {
+            return;
+        }
+
+        this.status.isRunning = false;
+        this.status.status = 'stopped';
+        this.status.nextCrawlTime = null;
+        this.config.isRunning = false;
+        await this.webCrawler.close();
+        await this.crawlerLogger?.logLifecycle('stop');
+        await this.loggerService.logBusinessOperation('🛑 池爬虫已停止', {});
+        await this.publishStatus();
+    }
+
+    async pause(): Promise<void> {
+        if (this.status.status !== 'running') {
+            throw new Error('爬虫未在运行，无法暂停');
+        }
+
+        this.clearCrawlTimer();
+        this.status.status = 'paused';
+        this.status.nextCrawlTime = null;
+        await this.crawlerLogger?.logLifecycle('pause');
+        await this.publishStatus();
+    }
+
+    async resume(): Promise<void> {
+        if (this.status.status !== 'paused') {
+            throw new Error('爬虫未处于暂停状态，无法恢复');
+        }
+
+        this.status.status = 'running';
+        this.scheduleNextCrawl(this.config.intervalMinutes * 60 * 1000);
+        await this.crawlerLogger?.logLifecycle('resume');
+        await this.publishStatus();
+    }
+
+    // ================== 配置与筛选器 ==================
+
+    async updateConfig(config: Partial<CrawlerConfig>): Promise<void> {
+        const { isRunning: _ignored, ...updates } = config;
+        const merged = this.mergeConfig(this.config, updates);
+
+        if (!(merged.intervalMinutes > 0) || !(merged.maxPages > 0) || !(merged.timeout > 0) || merged.retryCount < 0) {
+            throw new Error('爬虫配置无效: 间隔、页数和超时必须为正数，重试次数不能为负数');
+        }
+        if (merged.sources.length === 0 || merged.sources.some(source => !POOL_DATA_SOURCES.includes(source))) {
+            throw new Error(`爬虫配置无效: 数据来源必须是 ${POOL_DATA_SOURCES.join('/')} 中的一个或多个`);
+        }
+        if (!(merged.onChain.maxPools > 0) || merged.onChain.quoteMints.length === 0 || !(merged.onChain.snapshotRetentionHours > 0)) {
+            throw new Error('爬虫配置无效: 链上发现需要至少一个报价代币，池数量和快照保留时间必须为正数');
+        }
+
+        const intervalChanged = merged.intervalMinutes !== this.config.intervalMinutes;
+        this.config = merged;
+        await this.saveSettings();
+        await this.crawlerLogger?.logConfigUpdated({ config: this.config, timestamp: Date.now() });
+
+        // 运行中修改间隔时立即按新间隔重新调度
+        if (intervalChanged && this.status.status === 'running' && !this.isCrawling) {
+            this.scheduleNextCrawl(this.config.intervalMinutes * 60 * 1000);
+            await this.publishStatus();
+        }
+    }
+
+    getConfig(): CrawlerConfig {
+        return { ...this.config, isRunning: this.status.isRunning };
+    }
+
+    /**
+     * 🎯 合并筛选器（时间段筛选按时间段逐项合并），并用新条件重新评估已发现的池
+     */
+    async updateFilters(filters: Partial<PoolFilterConfig>): Promise<void> {
+        const merged: PoolFilterConfig = { ...this.filters };
+
+        for (const [key, value] of Object.entries(filters) as [keyof PoolFilterConfig, any][]) {
+            if (value === undefined) continue;
+            if (key === 'apr' || key === 'priceChange' || key === 'fees' || key === 'volume') {
+                merged[key] = { ...this.filters[key as SeriesFilterKey], ...value };
+            } else {
+                (merged as any)[key] = value;
+            }
+        }
+
+        this.filters = merged;
+        await this.saveSettings();
+
+        if (this.discoveredPools.length > 0) {
+            this.discoveredPools = this.filterEngine.applyFilters(this.discoveredPools, this.getEffectiveFilters());
+        }
+
+        await this.crawlerLogger?.logFiltersUpdated({ filters: this.filters, timestamp: Date.now() });
+        await this.eventBus.publish('pool-crawler.filters.updated', {
+            filters: this.filters,
+            timestamp: Date.now()
+        }, 'PoolCrawlerService');
+    }
+
+    getFilters(): PoolFilterConfig {
+        return this.filters;
+    }
+
+    // ================== 数据获取 ==================
+
+    getDiscoveredPools(): ProcessedPoolData[] {
+        return [...this.discoveredPools];
+    }
+
+    getQualifiedPools(): QualifiedPoolRecord[] {
+        return this.qualifiedPoolsManager.getAllPools();
+    }
+
+    getStatus(): CrawlerStatus {
+        return { ...this.status, errors: [...this.status.errors] };
+    }
+
+    getStats(): CrawlerStats & { discoveredPools: number; qualifiedPools: number } {
+        return {
+            ...this.stats,
+            discoveredPools: this.discoveredPools.length,
+            qualifiedPools: this.qualifiedPoolsManager.getAllPools().length
+        };
+    }
+
+    /**
+     * 🩺 健康检查：连续失败3次以上或处于错误状态视为不健康
+     */
+    async healthCheck(): Promise<{
+        healthy: boolean;
+        status: CrawlerStatus['status'];
+        lastCrawlTime: number | null;
+        consecutiveFailures: number;
+        browserReady: boolean;
+        pushStats: Awaited<ReturnType<PoolPushStorageManager['getPushStats']>>;
+        lastError: CrawlerError | null;
+    }> {
+        return {
+            healthy: this.status.status !== 'error' && this.stats.consecutiveFailures < 3,
+            status: this.status.status,
+            lastCrawlTime: this.status.lastCrawlTime,
+            consecutiveFailures: this.stats.consecutiveFailures,
+            browserReady: this.webCrawler.isBrowserReady(),
+            pushStats: await this.pushStorageManager.getPushStats(),
+            lastError: this.status.errors[this.status.errors.length - 1] || null
+        };
+    }
+
+    // ================== 手动操作 ==================
+
+    async crawlNow(): Promise<void> {
+        if (this.isCrawling) {
+            throw new Error('爬取正在进行中，请稍后再试');
+        }
+        await this.performCrawl();
+    }
+
+    async clearData(): Promise<void> {
+        this.discoveredPools = [];
+        this.status.poolsDiscovered = 0;
+        this.status.qualifiedPools = 0;
+        this.status.errors = [];
+        await this.qualifiedPoolsManager.clear();
+        await this.pushStorageManager.resetPushHistory();
+        await this.crawlerLogger?.logLifecycle('clear-data');
+        await this.publishStatus();
+    }
+
+    // ================== 爬取流程 ==================
+
+    private scheduleNextCrawl(delayMs: number): void {
+        this.clearCrawlTimer();
+        this.status.nextCrawlTime = Date.now() + delayMs;
+
+        this.crawlTimer = setTimeout(async () => {
+            this.crawlTimer = null;
+            if (this.status.status !== 'running') return;
+
+            try {
+                await this.performCrawl();
+            } catch {
+                // 错误已在performCrawl中记录并广播
+            }
+
+            if (this.status.status === 'running') {
+                this.scheduleNextCrawl(this.config.intervalMinutes * 60 * 1000);
+                await this.crawlerLogger?.logScheduleNextCrawl({
+                    nextCrawlTime: this.status.nextCrawlTime || 0,
+                    interval: this.config.intervalMinutes
+                });
+                await this.publishStatus();
+            }
+        }, delayMs);
+    }
+
+    private clearCrawlTimer(): void {
+        if (this.crawlTimer) {
+            clearTimeout(this.crawlTimer);
+            this.crawlTimer = null;
+        }
+    }
+
+    /**
+     * 🔄 执行一轮爬取：各来源获取 -> 合并 -> 筛选 -> 保存合格池 -> 广播
+     */
+    private async performCrawl(): Promise<void> {
+        if (this.isCrawling) return;
+        this.isCrawling = true;
+
+        const startTime = Date.now();
+        this.stats.crawlerRound++;
+        this.stats.totalCrawls++;
+        this.pushStorageManager.setCrawlerRound(this.stats.crawlerRound);
+        await this.crawlerLogger?.logCrawlStart({ round: this.stats.crawlerRound, ...this.config });
+
+        try {
+            const rawPools = this.filterEngine.mergeSources(await this.collectSources());
+            const processed = this.filterEngine.applyFilters(rawPools, this.getEffectiveFilters());
+            const newlyQualified = await this.saveQualifiedPools(processed.filter(pool => pool.isQualified));
+
+            this.discoveredPools = processed;
+            this.status.lastCrawlTime = Date.now();
+            this.status.poolsDiscovered = processed.length;
+            this.status.qualifiedPools = this.qualifiedPoolsManager.getAllPools().length;
+            if (this.status.status === 'error') {
+                this.status.status = this.status.isRunning ? 'running' : 'stopped';
+            }
+
+            this.recordCrawlResult(true, Date.now() - startTime);
+            this.stats.totalPoolsDiscovered += processed.length;
+            this.stats.totalQualifiedPushed += newlyQualified.length;
+
+            await this.crawlerLogger?.logCrawlComplete({
+                round: this.stats.crawlerRound,
+                duration: this.stats.lastCrawlDuration,
+                poolsFound: processed.length,
+                qualifiedPools: processed.filter(pool => pool.isQualified).length,
+                newlyPushed: newlyQualified.length
+            });
+
+            await this.eventBus.publish('pool-crawler.pools.discovered', {
+                pools: processed,
+                total: processed.length,
+                timestamp: Date.now()
+            }, 'PoolCrawlerService');
+
+            if (newlyQualified.length > 0) {
+                await this.eventBus.publish('pool-crawler.pools.qualified', {
+                    pools: newlyQualified,
+                    timestamp: Date.now()
+                }, 'PoolCrawlerService');
+            }
+
+            await this.publishStatus();
+        } catch (error) {
+            this.recordCrawlResult(false, Date.now() - startTime);
+            await this.recordError(error as Error);
+            throw error;
+        } finally {
+            this.isCrawling = false;
+        }
+    }
+
+    /**
+     * 按优先级从各启用来源获取池列表
+     * 单个来源失败只记录错误，只要有来源返回数据本轮就继续；全部失败或都为空时抛出第一个错误
+     */
+    private async collectSources(): Promise<RawPoolData[][]> {
+        const results: RawPoolData[][] = [];
+        const failures: Error[] = [];
+
+        for (const source of this.config.sources) {
+            try {
+                const pools = source === 'onchain'
+                    ? await this.onChainDiscovery.discoverPools(this.config.onChain)
+                    : await this.fetchAllPages();
+                results.push(pools);
+            } catch (error) {
+                failures.push(error as Error);
+            }
+        }
+
+        if (!results.some(pools => pools.length > 0)) {
+            throw failures[0] || Object.assign(new Error('所有数据来源均未返回池数据'), { crawlerErrorType: 'parsing' });
+        }
+
+        for (const failure of failures) {
+            await this.recordError(failure);
+        }
+
+        return results;
+    }
+
+    /**
+     * 抓取并解析所有页面（同一池地址只保留排名最靠前的一条）
+     */
+    private async fetchAllPages(): Promise<RawPoolData[]> {
+        const byAddress = new Map<string, RawPoolData>();
+
+        for (let page = 1; page <= this.config.maxPages; page++) {
+            const url = page === 1 ? this.config.baseUrl : `${this.config.baseUrl}?page=${page}`;
+            const html = await this.fetchWithRetry(url);
+
+            const parseStart = Date.now();
+            const pools = await this.dataParser.parsePoolData(html, url);
+            await this.crawlerLogger?.logDataParsing('parse-page', {
+                page,
+                inputSize: html.length,
+                outputSize: pools.length,
+                parseTime: Date.now() - parseStart
+            });
+
+            if (pools.length === 0) {
+                if (page === 1) {
+                    throw Object.assign(new Error('页面中未解析到任何池数据，页面结构可能已变化'), { crawlerErrorType: 'parsing' });
+                }
+                break;
+            }
+
+            pools.forEach(pool => {
+                const existing = byAddress.get(pool.poolAddress);
+                if (!existing || pool.rank < existing.rank) {
+                    byAddress.set(pool.poolAddress, { ...pool, sources: ['web'] });
+                }
+            });
+
+            if (page < this.config.maxPages) {
+                await this.sleep(this.config.requestDelay);
+            }
+        }
+
+        return Array.from(byAddress.values()).sort((a, b) => a.rank - b.rank);
+    }
+
+    private async fetchWithRetry(url: string): Promise<string> {
+        let lastError: Error | null = null;
+
+        for (let attempt = 0; attempt <= this.config.retryCount; attempt++) {
+            const startTime = Date.now();
+            try {
+                const html = await this.webCrawler.fetchPage(url, {
+                    timeout: this.config.timeout,
+                    userAgent: this.config.userAgent,
+                    waitForSelector: 'table, script#__NEXT_DATA__'
+                });
+                await this.crawlerLogger?.logNetworkRequest(url, 'GET', 200, Date.now() - startTime);
+                return html;
+            } catch (error) {
+                lastError = error as Error;
+                await this.crawlerLogger?.logNetworkRequest(url, 'GET', 0, Date.now() - startTime, lastError.message);
+                if (attempt < this.config.retryCount) {
+                    await this.sleep(this.config.requestDelay * (attempt + 1));
+                }
+            }
+        }
+
+        throw Object.assign(
+            new Error(`页面抓取失败(已重试${this.config.retryCount}次): ${lastError?.message || '未知错误'}`),
+            { crawlerErrorType: 'network' }
+        );
+    }
+
+    /**
+     * 保存合格池，返回本轮新推送的记录（保留期内已推送过的池只刷新数据）
+     */
+    private async saveQualifiedPools(pools: ProcessedPoolData[]): Promise<QualifiedPoolRecord[]> {
+        const newlyPushed: QualifiedPoolRecord[] = [];
+
+        for (const pool of pools) {
+            const record: QualifiedPoolRecord = {
+                id: pool.poolAddress,
+                poolData: pool,
+                discoveredAt: Date.now(),
+                notified: false,
+                rating: 0,
+                notes: '',
+                status: 'new'
+            };
+
+            if (await this.pushStorageManager.hasBeenPushed(pool.poolAddress)) {
+                if (this.qualifiedPoolsManager.hasPool(record.id)) {
+                    await this.qualifiedPoolsManager.update(record.id, { poolData: pool });
+                }
+                continue;
+            }
+
+            record.notified = true;
+            await this.qualifiedPoolsManager.add(record);
+            await this.pushStorageManager.recordPush(pool.poolAddress, pool);
+            newlyPushed.push(this.qualifiedPoolsManager.getPool(record.id) || record);
+
+            await this.crawlerLogger?.logQualifiedPoolAdded({
+                address: pool.poolAddress,
+                reason: pool.matchedFilters.join(', '),
+                criteria: pool.matchedFilters,
+                tokenPair: pool.tokenPair,
+                score: pool.score
+            });
+        }
+
+        return newlyPushed;
+    }
+
+    /**
+     * 筛选器中的代币名单与代币名单管理器合并后使用
+     */
+    private getEffectiveFilters(): PoolFilterConfig {
+        return {
+            ...this.filters,
+            tokenWhitelist: Array.from(new Set([...this.filters.tokenWhitelist, ...this.tokenFilterManager.getWhitelist()])),
+            tokenBlacklist: Array.from(new Set([...this.filters.tokenBlacklist, ...this.tokenFilterManager.getBlacklist()]))
+        };
+    }
+
+    private recordCrawlResult(success: boolean, duration: number): void {
+        if (success) {
+            this.stats.successfulCrawls++;
+            this.stats.consecutiveFailures = 0;
+        } else {
+            this.stats.failedCrawls++;
+            this.stats.consecutiveFailures++;
+        }
+
+        this.stats.lastCrawlDuration = duration;
+        this.stats.averageCrawlDuration = Math.round(
+            (this.stats.averageCrawlDuration * (this.stats.totalCrawls - 1) + duration) / this.stats.totalCrawls
+        );
+    }
+
+    private async recordError(error: Error): Promise<void> {
+        const crawlerError: CrawlerError = {
+            timestamp: Date.now(),
+            type: (error as any).crawlerErrorType || 'unknown',
+            message: error.message
+        };
+
+        this.status.errors.push(crawlerError);
+        if (this.status.errors.length > PoolCrawlerService.MAX_ERRORS) {
+            this.status.errors = this.status.errors.slice(-PoolCrawlerService.MAX_ERRORS);
+        }
+
+        // 连续失败3次标记为错误状态，定时调度继续，成功后自动恢复
+        if (this.stats.consecutiveFailures >= 3 && this.status.isRunning) {
+            this.status.status = 'error';
+        }
+
+        await this.crawlerLogger?.logError(error.message, error);
+        await this.loggerService.logError('PoolCrawler', `❌ 池爬取失败: ${error.message}`, error);
+        await this.eventBus.publish('pool-crawler.error', crawlerError, 'PoolCrawlerService');
+        await this.publishStatus();
+    }
+
+    private async publishStatus(): Promise<void> {
+        await this.eventBus.publish('pool-crawler.status.update', this.getStatus(), 'PoolCrawlerService');
+    }
+
+    // ================== 控制命令 ==================
+
+    /**
+     * 订阅Socket.IO转发的控制命令
+     */
+    private subscribeCommands(): void {
+        const handlers: Record<string, (data: any) => Promise<void>> = {
+            'pool-crawler.command.start': () => this.start(),
+            'pool-crawler.command.stop': () => this.stop(),
+            'pool-crawler.command.pause': () => this.pause(),
+            'pool-crawler.command.resume': () => this.resume(),
+            'pool-crawler.command.crawl-now': () => this.crawlNow(),
+            'pool-crawler.command.update-config': data => this.updateConfig(data?.config || data || {}),
+            'pool-crawler.command.update-filters': data => this.updateFilters(data?.filters || data || {})
+        };
+
+        for (const [eventType, handler] of Object.entries(handlers)) {
+            const subscriptionId = this.eventBus.subscribe(eventType, async (data: any) => {
+                try {
+                    await handler(data);
+                } catch (error) {
+                    await this.loggerService.logError('PoolCrawler', `❌ 执行爬虫命令失败: ${eventType}`, error as Error);
+                }
+            });
+            this.commandSubscriptions.push(subscriptionId);
+        }
+    }
+
+    // ================== 持久化 ==================
+
+    private async loadSettings(): Promise<void> {
+        try {
+            const content = await fs.readFile(this.settingsPath, 'utf-8');
+            const settings = JSON.parse(content) as { config?: Partial<CrawlerConfig>; filters?: Partial<PoolFilterConfig> };
+            if (settings.config) {
+                this.config = { ...this.mergeConfig(this.config, settings.config), isRunning: false };
+            }
+            if (settings.filters) {
+                this.filters = { ...this.filterEngine.getDefaultFilters(), ...settings.filters };
+            }
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                await this.loggerService.logError('PoolCrawler', '爬虫设置加载失败，使用默认设置', error as Error);
+            }
+        }
+    }
+
+    private async saveSettings(): Promise<void> {
+        await fs.mkdir(path.dirname(this.settingsPath), { recursive: true });
+
+        const { isRunning: _ignored, ...config } = this.config;
+        const tempPath = this.settingsPath + '.tmp';
+        await fs.writeFile(tempPath, JSON.stringify({ config, filters: this.filters, updatedAt: Date.now() }, null, 2), 'utf-8');
+        await fs.rename(tempPath, this.settingsPath);
+    }
+
+    /**
+     * 合并部分配置（链上发现配置按字段合并）
+     */
+    private mergeConfig(base: CrawlerConfig, updates: Partial<CrawlerConfig>): CrawlerConfig {
+        return {
+            ...base,
+            ...updates,
+            onChain: { ...base.onChain, ...(updates.onChain || {}) }
+        };
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
@@ -0,0 +1,405 @@
+/**
+ * 🧩 池数据解析器
+ *
+ * 把 solmeteor.ai 的页面内容解析为 RawPoolData：
+ * - 页面内嵌的JSON数据（__NEXT_DATA__ 等 application/json 脚本）
+ * - 渲染后的池列表表格（按表头识别列）
+ * - 直接返回JSON的接口响应
+ *
+ * 解析器不依赖网络和其他服务，可以直接用保存的HTML文件验证
+ */
+
+import { injectable } from 'tsyringe';
+import * as cheerio from 'cheerio';
+import { IPoolDataParser, RawPoolData } from '../../types/pool-crawler-types';
+
+type Timeframe = '5m' | '1h' | '6h' | '24h' | '7d';
+type SeriesField = 'apr' | 'priceChange' | 'fees' | 'volume';
+type ScalarField = 'rank' | 'poolAddress' | 'tokenPair' | 'meteorScore' | 'liquidity' | 'age' | 'fdv' | 'size' | 'in' | 'out' | 'binStep';
+
+/**
+ * 表格列映射
+ */
+interface ColumnMapping {
+    field: ScalarField | SeriesField;
+    timeframe?: Timeframe;
+}
+
+const TIMEFRAMES: Timeframe[] = ['5m', '1h', '6h', '24h', '7d'];
+
+// 表头/JSON字段别名（统一转小写并去掉空格、下划线、短横线后匹配）
+const SCALAR_ALIASES: Record<ScalarField, string[]> = {
+    rank: ['#', 'rank', 'no'],
+    poolAddress: ['pooladdress', 'address', 'pubkey', 'lbpair'],
+    tokenPair: ['pool', 'pair', 'tokenpair', 'name', 'token'],
+    meteorScore: ['meteorscore', 'score', 'meteor'],
+    liquidity: ['liquidity', 'tvl', 'liq'],
+    age: ['age', 'created'],
+    fdv: ['fdv', 'mcap', 'marketcap'],
+    size: ['size'],
+    in: ['in'],
+    out: ['out'],
+    binStep: ['binstep', 'bin', 'step']
+};
+
+const SERIES_ALIASES: Record<SeriesField, string[]> = {
+    apr: ['apr', 'feetvl', 'feetvlratio'],
+    priceChange: ['pricechange', 'change', 'price', 'chg'],
+    fees: ['fees', 'fee'],
+    volume: ['volume', 'vol']
+};
+
+const TIMEFRAME_ALIASES: Record<string, Timeframe> = {
+    '5m': '5m', '5min': '5m', 'm5': '5m',
+    '1h': '1h', '1hr': '1h', 'h1': '1h', '60m': '1h',
+    '6h': '6h', '6hr': '6h', 'h6': '6h',
+    '24h': '24h', '24hr': '24h', 'h24': '24h', '1d': '24h', 'd1': '24h',
+    '7d': '7d', 'd7': '7d', '1w': '7d'
+};
+
+const SOLANA_ADDRESS_PATTERN = /[1-9A-HJ-NP-Za-km-z]{32,44}/;
+
+@injectable()
+export class PoolDataParser implements IPoolDataParser {
+    /**
+     * 📥 解析页面内容（HTML或JSON字符串）
+     */
+    async parsePoolData(html: string, url?: string): Promise<RawPoolData[]> {
+        const content = html.trim();
+        if (!content) {
+            return [];
+        }
+
+        const scrapedAt = Date.now();
+        let pools: RawPoolData[];
+
+        if (content.startsWith('{') || content.startsWith('[')) {
+            pools = this.parseJsonRecords(JSON.parse(content), scrapedAt);
+        } else {
+            const $ = cheerio.load(content);
+            pools = this.parseEmbeddedJson($, scrapedAt);
+            if (pools.length === 0) {
+                pools = this.parseTable($, scrapedAt);
+            }
+        }
+
+        return pools
+            .map(pool => (url ? { ...pool, url } : pool))
+            .filter(pool => this.validatePoolData(pool));
+    }
+
+    /**
+     * ✅ 校验单条池数据
+     */
+    validatePoolData(data: RawPoolData): boolean {
+        if (!data || typeof data.poolAddress !== 'string' || !/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(data.poolAddress)) {
+            return false;
+        }
+        if (typeof data.tokenPair !== 'string' || data.tokenPair.trim().length === 0) {
+            return false;
+        }
+
+        const scalars = [data.rank, data.meteorScore, data.liquidity, data.fdv, data.size, data.in, data.out, data.binStep];
+        if (!scalars.every(value => Number.isFinite(value))) {
+            return false;
+        }
+
+        return (['apr', 'priceChange', 'fees', 'volume'] as SeriesField[]).every(field =>
+            TIMEFRAMES.every(timeframe => Number.isFinite(data[field][timeframe]))
+        );
+    }
+
+    // ================== JSON解析 ==================
+
+    /**
+     * 🔍 从 application/json 脚本中提取池数组
+     */
+    private parseEmbeddedJson($: cheerio.CheerioAPI, scrapedAt: number): RawPoolData[] {
+        const scripts = $('script#__NEXT_DATA__, script[type="application/json"]').toArray();
+
+        for (const script of scripts) {
+            const text = $(script).text().trim();
+            if (!text) continue;
+
+            try {
+                const pools = this.parseJsonRecords(JSON.parse(text), scrapedAt);
+                if (pools.length > 0) {
+                    return pools;
+                }
+            } catch {
+                // 非数据脚本，继续查找
+            }
+        }
+
+        return [];
+    }
+
+    /**
+     * 🔍 在任意JSON结构中查找包含池地址的对象数组
+     */
+    private parseJsonRecords(json: any, scrapedAt: number): RawPoolData[] {
+        const records = this.findPoolArray(json, 0);
+        if (!records) {
+            return [];
+        }
+
+        return records.map((record, index) => this.normalizeJsonRecord(record, index + 1, scrapedAt));
+    }
+
+    private findPoolArray(node: any, depth: number): any[] | null {
+        if (depth > 8 || node === null || typeof node !== 'object') {
+            return null;
+        }
+
+        if (Array.isArray(node)) {
+            if (node.length > 0 && node.every(item => item && typeof item === 'object' && this.findAddressValue(item))) {
+                return node;
+            }
+            for (const item of node) {
+                const found = this.findPoolArray(item, depth + 1);
+                if (found) return found;
+            }
+            return null;
+        }
+
+        for (const value of Object.values(node)) {
+            const found = this.findPoolArray(value, depth + 1);
+            if (found) return found;
+        }
+        return null;
+    }
+
+    private normalizeJsonRecord(record: Record<string, any>, fallbackRank: number, scrapedAt: number): RawPoolData {
+        const pool = this.createEmptyPool(scrapedAt);
+        const normalizedEntries = Object.entries(record).map(([key, value]) => [this.normalizeKey(key), value] as const);
+
+        for (const [key, value] of normalizedEntries) {
+            const scalar = this.matchScalarField(key);
+            if (scalar) {
+                this.assignScalar(pool, scalar, value);
+                continue;
+            }
+
+            const series = this.matchSeriesField(key);
+            if (!series) continue;
+
+            if (series.timeframe) {
+                pool[series.field][series.timeframe] = this.parseNumber(value);
+            } else if (value && typeof value === 'object') {
+                // 形如 { apr: { "24h": 1.2 } } 的嵌套结构
+                for (const [timeKey, timeValue] of Object.entries(value)) {
+                    const timeframe = TIMEFRAME_ALIASES[this.normalizeKey(timeKey)];
+                    if (timeframe) {
+                        pool[series.field][timeframe] = this.parseNumber(timeValue);
+                    }
+                }
+            }
+        }
+
+        if (!pool.poolAddress) {
+            pool.poolAddress = this.findAddressValue(record) || '';
+        }
+        if (!pool.tokenPair) {
+            pool.tokenPair = this.buildTokenPair(record);
+        }
+        if (!pool.rank) {
+            pool.rank = fallbackRank;
+        }
+
+        return pool;
+    }
+
+    private findAddressValue(record: Record<string, any>): string | null {
+        for (const [key, value] of Object.entries(record)) {
+            if (SCALAR_ALIASES.poolAddress.includes(this.normalizeKey(key)) && typeof value === 'string'
+                && SOLANA_ADDRESS_PATTERN.test(value)) {
+                return value;
+            }
+        }
+        return null;
+    }
+
+    private buildTokenPair(record: Record<string, any>): string {
+        const tokenA = record.tokenA || record.tokenX || record.baseSymbol || record.mint_x_symbol;
+        const tokenB = record.tokenB || record.tokenY || record.quoteSymbol || record.mint_y_symbol;
+        return tokenA && tokenB ? `${tokenA}-${tokenB}` : '';
+    }
+
+    // ================== 表格解析 ==================
+
+    /**
+     * 🔍 解析渲染后的池列表表格（取第一个能识别出池地址的表格）
+     */
+    private parseTable($: cheerio.CheerioAPI, scrapedAt: number): RawPoolData[] {
+        for (const table of $('table').toArray()) {
+            const headerCells = $(table).find('thead th').toArray();
+            const headers = (headerCells.length > 0 ? headerCells : $(table).find('tr').first().find('th, td').toArray())
+                .map(cell => $(cell).text().trim());
+            const columns = headers.map(header => this.mapHeader(header));
+
+            const bodyRows = $(table).find('tbody tr').toArray();
+            const rows = bodyRows.length > 0 ? bodyRows : $(table).find('tr').slice(1).toArray();
+
+            const pools = rows
+                .map((row, index) => this.parseRow($, $(row), columns, index + 1, scrapedAt))
+                .filter((pool): pool is RawPoolData => pool !== null);
+
+            if (pools.length > 0) {
+                return pools;
+            }
+        }
+
+        return [];
+    }
+
+    private parseRow(
+        $: cheerio.CheerioAPI,
+        row: cheerio.Cheerio<any>,
+        columns: (ColumnMapping | null)[],
+        fallbackRank: number,
+        scrapedAt: number
+    ): RawPoolData | null {
+        const pool = this.createEmptyPool(scrapedAt);
+        const cells = row.find('td').toArray();
+
+        cells.forEach((cell, index) => {
+            const column = columns[index];
+            if (!column) return;
+
+            const text = $(cell).text().replace(/\s+/g, ' ').trim();
+            if (column.timeframe) {
+                pool[column.field as SeriesField][column.timeframe] = this.parseNumber(text);
+            } else {
+                this.assignScalar(pool, column.field as ScalarField, text);
+            }
+        });
+
+        // 池地址优先取行属性或链接，其次取单元格文本
+        const address = row.attr('data-address') || row.attr('data-pool')
+            || this.extractAddress(row.find('a[href]').toArray().map(link => $(link).attr('href') || '').join(' '))
+            || (pool.poolAddress ? this.extractAddress(pool.poolAddress) : null)
+            || this.extractAddress(row.text());
+
+        if (!address) {
+            return null;
+        }
+
+        pool.poolAddress = address;
+        if (!pool.rank) {
+            pool.rank = fallbackRank;
+        }
+        pool.tokenPair = pool.tokenPair.replace(/\s*[/\s]\s*/g, '-').replace(/-+/g, '-');
+
+        return pool;
+    }
+
+    private mapHeader(header: string): ColumnMapping | null {
+        const normalized = this.normalizeKey(header);
+        if (!normalized) return null;
+
+        const series = this.matchSeriesField(normalized);
+        if (series) {
+            // 没有时间段后缀的系列列按24h处理
+            return { field: series.field, timeframe: series.timeframe || '24h' };
+        }
+
+        const scalar = this.matchScalarField(normalized);
+        return scalar ? { field: scalar } : null;
+    }
+
+    // ================== 字段匹配与取值 ==================
+
+    private matchScalarField(key: string): ScalarField | null {
+        for (const [field, aliases] of Object.entries(SCALAR_ALIASES) as [ScalarField, string[]][]) {
+            if (aliases.includes(key)) {
+                return field;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 识别系列字段，支持 "apr24h"、"volume_1h"、"24hfees" 等写法
+     */
+    private matchSeriesField(key: string): { field: SeriesField; timeframe?: Timeframe } | null {
+        for (const [field, aliases] of Object.entries(SERIES_ALIASES) as [SeriesField, string[]][]) {
+            for (const alias of aliases) {
+                if (key === alias) {
+                    return { field };
+                }
+                for (const [suffix, timeframe] of Object.entries(TIMEFRAME_ALIASES)) {
+                    if (key === alias + suffix || key === suffix + alias) {
+                        return { field, timeframe };
+                    }
+                }
+            }
+        }
+        return null;
+    }
+
+    private assignScalar(pool: RawPoolData, field: ScalarField, value: any): void {
+        switch (field) {
+            case 'poolAddress':
+            case 'tokenPair':
+            case 'age':
+                pool[field] = value === null || value === undefined ? '' : String(value).trim();
+                break;
+            default:
+                pool[field] = this.parseNumber(value);
+        }
+    }
+
+    private extractAddress(text: string): string | null {
+        const match = text.match(SOLANA_ADDRESS_PATTERN);
+        return match ? match[0] : null;
+    }
+
+    /**
+     * 🔢 解析展示格式的数字："$26.1K"、"1.2M"、"-16.68%"、"1,234"、"—"
+     */
+    private parseNumber(value: any): number {
+        if (typeof value === 'number') {
+            return Number.isFinite(value) ? value : 0;
+        }
+        if (value === null || value === undefined) {
+            return 0;
+        }
+
+        const text = String(value).replace(/[$,%\s+]/g, '');
+        const match = text.match(/^(-?\d*\.?\d+)([kmbt])?$/i);
+        if (!match) {
+            return 0;
+        }
+
+        const multipliers: Record<string, number> = { k: 1e3, m: 1e6, b: 1e9, t: 1e12 };
+        const base = parseFloat(match[1]!);
+        const unit = match[2]?.toLowerCase();
+        return unit ? base * multipliers[unit]! : base;
+    }
+
+    private normalizeKey(key: string): string {
+        return key.toLowerCase().replace(/[\s_\-.()]/g, '');
+    }
+
+    private createEmptyPool(scrapedAt: number): RawPoolData {
+        const emptySeries = () => ({ '5m': 0, '1h': 0, '6h': 0, '24h': 0, '7d': 0 });
+        return {
+            rank: 0,
+            poolAddress: '',
+            tokenPair: '',
+            meteorScore: 0,
+            liquidity: 0,
+            age: '',
+            fdv: 0,
+            size: 0,
+            in: 0,
+            out: 0,
+            binStep: 0,
+            apr: emptySeries(),
+            priceChange: emptySeries(),
+            fees: emptySeries(),
+            volume: emptySeries(),
+            scrapedAt
+        };
+    }
+}
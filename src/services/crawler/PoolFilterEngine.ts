@@ -0,0 +1,210 @@
+/**
+ * 🎯 池筛选引擎
+ * 把原始池数据转换为 ProcessedPoolData，并按 PoolFilterConfig 判断是否合格
+ */
+
+import { injectable } from 'tsyringe';
+import {
+    IPoolFilterEngine, NumericFilter, PoolFilterConfig, ProcessedPoolData, RawPoolData
+} from '../../types/pool-crawler-types';
+
+type Timeframe = '5m' | '1h' | '6h' | '24h' | '7d';
+type SeriesFilterKey = 'apr' | 'priceChange' | 'fees' | 'volume';
+
+const TIMEFRAMES: Timeframe[] = ['5m', '1h', '6h', '24h', '7d'];
+const SERIES_KEYS: SeriesFilterKey[] = ['apr', 'priceChange', 'fees', 'volume'];
+
+// 池年龄单位换算（小时）
+const AGE_UNITS: { pattern: RegExp; hours: number }[] = [
+    { pattern: /^(s|sec|secs|second|seconds)$/, hours: 1 / 3600 },
+    { pattern: /^(m|min|mins|minute|minutes)$/, hours: 1 / 60 },
+    { pattern: /^(h|hr|hrs|hour|hours)$/, hours: 1 },
+    { pattern: /^(d|day|days)$/, hours: 24 },
+    { pattern: /^(w|wk|wks|week|weeks)$/, hours: 24 * 7 },
+    { pattern: /^(mo|mos|month|months)$/, hours: 24 * 30 },
+    { pattern: /^(y|yr|yrs|year|years)$/, hours: 24 * 365 }
+];
+
+@injectable()
+export class PoolFilterEngine implements IPoolFilterEngine {
+    /**
+     * 🔍 处理并筛选池列表（返回全部池，合格与否记录在 isQualified 中）
+     */
+    applyFilters(pools: RawPoolData[], filters: PoolFilterConfig): ProcessedPoolData[] {
+        return pools.map(pool => {
+            const processed = this.processPool(pool);
+            const result = this.evaluate(processed, filters);
+            processed.isQualified = result.passed;
+            processed.matchedFilters = result.matchedFilters;
+            return processed;
+        });
+    }
+
+    /**
+     * 📊 综合评分：Meteor评分为主，APR、流动性、交易量为辅
+     */
+    calculateScore(pool: RawPoolData): number {
+        const score = pool.meteorScore * 0.3
+            + Math.min(Math.max(pool.apr['24h'], 0), 200) * 1.5
+            + Math.log10(Math.max(pool.liquidity, 0) + 1) * 5
+            + Math.log10(Math.max(pool.volume['24h'], 0) + 1) * 5;
+
+        return Math.round(score * 100) / 100;
+    }
+
+    /**
+     * 🔗 合并多个来源的池列表（按来源优先级传入）
+     * 同一池地址以优先来源的值为准，缺失的值（0或空）由后续来源补齐；
+     * 只出现在后续来源的池排在优先来源之后
+     */
+    mergeSources(sources: RawPoolData[][]): RawPoolData[] {
+        const merged = new Map<string, RawPoolData>();
+
+        for (const pools of sources) {
+            for (const pool of pools) {
+                const existing = merged.get(pool.poolAddress);
+                merged.set(pool.poolAddress, existing ? this.fillMissing(existing, pool) : { ...pool });
+            }
+        }
+
+        return Array.from(merged.values()).map((pool, index) => ({ ...pool, rank: index + 1 }));
+    }
+
+    /**
+     * 📋 默认筛选器（全部关闭，代币名单为空）
+     */
+    getDefaultFilters(): PoolFilterConfig {
+        const disabled = (): NumericFilter => ({ enabled: false });
+        const series = () => ({
+            '5m': disabled(), '1h': disabled(), '6h': disabled(), '24h': disabled(), '7d': disabled()
+        });
+
+        return {
+            meteorScore: disabled(),
+            liquidity: disabled(),
+            fdv: disabled(),
+            ageInHours: disabled(),
+            apr: series(),
+            priceChange: series(),
+            fees: series(),
+            volume: series(),
+            tokenWhitelist: [],
+            tokenBlacklist: []
+        };
+    }
+
+    /**
+     * ⏱️ 解析池年龄文本（"2 mo"、"13 hrs"、"45m"），无法识别时返回null
+     */
+    parseAgeToHours(age: string): number | null {
+        const match = age.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([a-z]+)/);
+        if (!match) {
+            return null;
+        }
+
+        const value = parseFloat(match[1]!);
+        const unit = AGE_UNITS.find(item => item.pattern.test(match[2]!));
+        return unit ? Math.round(value * unit.hours * 100) / 100 : null;
+    }
+
+    /**
+     * 🔧 原始数据 -> 处理后数据（未筛选）
+     */
+    processPool(pool: RawPoolData): ProcessedPoolData {
+        const [tokenA = '', tokenB = ''] = pool.tokenPair.split('-').map(token => token.trim());
+
+        return {
+            ...pool,
+            id: `${pool.poolAddress}_${pool.rank}`,
+            tokens: { tokenA, tokenB },
+            ageInHours: this.parseAgeToHours(pool.age) ?? 0,
+            isQualified: false,
+            matchedFilters: [],
+            score: this.calculateScore(pool)
+        };
+    }
+
+    /**
+     * ✅ 所有启用的数值条件都满足且通过代币名单才算合格；没有启用任何数值条件时不合格
+     */
+    private evaluate(pool: ProcessedPoolData, filters: PoolFilterConfig): { passed: boolean; matchedFilters: string[] } {
+        const matchedFilters: string[] = [];
+        let enabledCount = 0;
+
+        const check = (name: string, filter: NumericFilter | undefined, value: number): boolean => {
+            if (!filter?.enabled) return true;
+            enabledCount++;
+            if (!this.inRange(filter, value)) return false;
+            matchedFilters.push(name);
+            return true;
+        };
+
+        const scalarChecks: [string, NumericFilter | undefined, number][] = [
+            ['meteorScore', filters.meteorScore, pool.meteorScore],
+            ['liquidity', filters.liquidity, pool.liquidity],
+            ['fdv', filters.fdv, pool.fdv],
+            ['ageInHours', filters.ageInHours, pool.ageInHours]
+        ];
+        for (const [name, filter, value] of scalarChecks) {
+            if (!check(name, filter, value)) {
+                return { passed: false, matchedFilters };
+            }
+        }
+
+        for (const key of SERIES_KEYS) {
+            for (const timeframe of TIMEFRAMES) {
+                if (!check(`${key}.${timeframe}`, filters[key]?.[timeframe], pool[key][timeframe])) {
+                    return { passed: false, matchedFilters };
+                }
+            }
+        }
+
+        const tokens = [pool.tokens.tokenA, pool.tokens.tokenB].map(token => token.toUpperCase());
+        const blacklist = (filters.tokenBlacklist || []).map(token => token.toUpperCase());
+        if (tokens.some(token => blacklist.includes(token))) {
+            return { passed: false, matchedFilters };
+        }
+
+        const whitelist = (filters.tokenWhitelist || []).map(token => token.toUpperCase());
+        if (whitelist.length > 0 && !tokens.some(token => whitelist.includes(token))) {
+            return { passed: false, matchedFilters };
+        }
+
+        return { passed: enabledCount > 0, matchedFilters };
+    }
+
+    private fillMissing(primary: RawPoolData, secondary: RawPoolData): RawPoolData {
+        const pick = <T>(value: T, fallback: T): T => (value === 0 || value === '' ? fallback : value);
+        const pickSeries = (key: SeriesFilterKey): RawPoolData[SeriesFilterKey] => ({
+            '5m': pick(primary[key]['5m'], secondary[key]['5m']),
+            '1h': pick(primary[key]['1h'], secondary[key]['1h']),
+            '6h': pick(primary[key]['6h'], secondary[key]['6h']),
+            '24h': pick(primary[key]['24h'], secondary[key]['24h']),
+            '7d': pick(primary[key]['7d'], secondary[key]['7d'])
+        });
+
+        return {
+            ...primary,
+            tokenPair: pick(primary.tokenPair, secondary.tokenPair),
+            meteorScore: pick(primary.meteorScore, secondary.meteorScore),
+            liquidity: pick(primary.liquidity, secondary.liquidity),
+            age: pick(primary.age, secondary.age),
+            fdv: pick(primary.fdv, secondary.fdv),
+            size: pick(primary.size, secondary.size),
+            in: pick(primary.in, secondary.in),
+            out: pick(primary.out, secondary.out),
+            binStep: pick(primary.binStep, secondary.binStep),
+            apr: pickSeries('apr'),
+            priceChange: pickSeries('priceChange'),
+            fees: pickSeries('fees'),
+            volume: pickSeries('volume'),
+            sources: Array.from(new Set([...(primary.sources || []), ...(secondary.sources || [])]))
+        };
+    }
+
+    private inRange(filter: NumericFilter, value: number): boolean {
+        if (filter.min !== undefined && value < filter.min) return false;
+        if (filter.max !== undefined && value > filter.max) return false;
+        return true;
+    }
+}
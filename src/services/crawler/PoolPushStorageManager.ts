@@ -0,0 +1,195 @@
+/**
+ * 📮 池推送状态存储管理器
+ * 记录合格池的推送历史，避免同一个池在保留期内被重复推送
+ * 持久化到 data/pool-push-history.json
+ */
+
+import { injectable, inject } from 'tsyringe';
+import fs from 'fs/promises';
+import path from 'path';
+import { TYPES, ILoggerService } from '../../types/interfaces';
+import {
+    IPoolPushStorageManager, ProcessedPoolData, PushHistoryData, PushRecord, PushStorageConfig
+} from '../../types/pool-crawler-types';
+
+@injectable()
+export class PoolPushStorageManager implements IPoolPushStorageManager {
+    private static readonly VERSION = '1.0';
+    private static readonly DEFAULT_CONFIG: PushStorageConfig = {
+        retentionHours: 24,
+        cleanupInterval: 60 * 60 * 1000,
+        maxRecords: 5000,
+        enableBackup: false,
+        backupInterval: 24
+    };
+
+    private history: PushHistoryData = PoolPushStorageManager.createEmptyHistory();
+    private config: PushStorageConfig = { ...PoolPushStorageManager.DEFAULT_CONFIG };
+    private crawlerRound = 0;
+    private cleanupTimer: NodeJS.Timeout | null = null;
+    private loaded = false;
+
+    private readonly filePath: string;
+
+    constructor(
+        @inject(TYPES.LoggerService) private loggerService: ILoggerService
+    ) {
+        this.filePath = path.join(process.cwd(), 'data', 'pool-push-history.json');
+    }
+
+    /**
+     * 📥 加载推送历史并启动定期清理
+     */
+    async initialize(config: Partial<PushStorageConfig> = {}): Promise<void> {
+        this.config = { ...PoolPushStorageManager.DEFAULT_CONFIG, ...config };
+
+        if (!this.loaded) {
+            await this.load();
+            this.loaded = true;
+        }
+
+        if (!this.cleanupTimer) {
+            this.cleanupTimer = setInterval(() => {
+                this.cleanupExpiredRecords().catch(error =>
+                    this.loggerService.logError('PoolPushStorageManager', '推送记录定期清理失败', error as Error)
+                );
+            }, this.config.cleanupInterval);
+        }
+    }
+
+    async destroy(): Promise<void> {
+        if (this.cleanupTimer) {
+            clearInterval(this.cleanupTimer);
+            this.cleanupTimer = null;
+        }
+    }
+
+    /**
+     * 🔢 设置当前爬虫轮次（写入之后的推送记录）
+     */
+    setCrawlerRound(round: number): void {
+        this.crawlerRound = round;
+    }
+
+    // ================== IPoolPushStorageManager ==================
+
+    async hasBeenPushed(poolAddress: string): Promise<boolean> {
+        const cutoff = Date.now() - this.config.retentionHours * 60 * 60 * 1000;
+        return this.history.records.some(record => record.poolAddress === poolAddress && record.pushedAt >= cutoff);
+    }
+
+    async recordPush(poolAddress: string, poolData: ProcessedPoolData): Promise<void> {
+        this.history.records.push({
+            poolAddress,
+            pushedAt: Date.now(),
+            crawlerRound: this.crawlerRound,
+            rank: poolData.rank,
+            apr24h: poolData.apr['24h'],
+            volume24h: poolData.volume['24h'],
+            liquidity: poolData.liquidity,
+            meteorScore: poolData.meteorScore
+        });
+        this.history.metadata.totalPushes++;
+
+        if (this.history.records.length > this.config.maxRecords) {
+            this.history.records = this.history.records.slice(-this.config.maxRecords);
+        }
+
+        await this.save();
+    }
+
+    async getPushHistory(poolAddress?: string): Promise<PushRecord[]> {
+        const records = poolAddress
+            ? this.history.records.filter(record => record.poolAddress === poolAddress)
+            : this.history.records;
+        return [...records].sort((a, b) => b.pushedAt - a.pushedAt);
+    }
+
+    /**
+     * 🧹 清理超过保留时间的记录，返回清理数量
+     */
+    async cleanupExpiredRecords(): Promise<number> {
+        const cutoff = Date.now() - this.config.retentionHours * 60 * 60 * 1000;
+        const before = this.history.records.length;
+
+        this.history.records = this.history.records.filter(record => record.pushedAt >= cutoff);
+        this.history.metadata.lastCleanup = Date.now();
+
+        const removed = before - this.history.records.length;
+        await this.save();
+
+        if (removed > 0) {
+            await this.loggerService.logBusinessOperation('🧹 推送记录已清理', {
+                removed,
+                remaining: this.history.records.length
+            });
+        }
+        return removed;
+    }
+
+    async getPushStats(): Promise<{
+        totalRecords: number;
+        pushedToday: number;
+        uniquePools: number;
+        avgPushInterval: number;
+    }> {
+        const startOfDay = new Date();
+        startOfDay.setHours(0, 0, 0, 0);
+
+        const records = this.history.records;
+        const timestamps = records.map(record => record.pushedAt).sort((a, b) => a - b);
+        const avgPushInterval = timestamps.length > 1
+            ? (timestamps[timestamps.length - 1]! - timestamps[0]!) / (timestamps.length - 1)
+            : 0;
+
+        return {
+            totalRecords: records.length,
+            pushedToday: records.filter(record => record.pushedAt >= startOfDay.getTime()).length,
+            uniquePools: new Set(records.map(record => record.poolAddress)).size,
+            avgPushInterval
+        };
+    }
+
+    async resetPushHistory(): Promise<void> {
+        this.history = PoolPushStorageManager.createEmptyHistory();
+        await this.save();
+        await this.loggerService.logBusinessOperation('🔄 推送历史已重置', {});
+    }
+
+    // ================== 内部方法 ==================
+
+    private async load(): Promise<void> {
+        try {
+            const content = await fs.readFile(this.filePath, 'utf-8');
+            const data = JSON.parse(content) as Partial<PushHistoryData>;
+            this.history = {
+                records: Array.isArray(data.records) ? data.records : [],
+                metadata: { ...PoolPushStorageManager.createEmptyHistory().metadata, ...(data.metadata || {}) }
+            };
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                await this.loggerService.logError('PoolPushStorageManager', '推送历史加载失败，使用空历史', error as Error);
+            }
+            this.history = PoolPushStorageManager.createEmptyHistory();
+        }
+    }
+
+    private async save(): Promise<void> {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+        const tempPath = this.filePath + '.tmp';
+        await fs.writeFile(tempPath, JSON.stringify(this.history, null, 2), 'utf-8');
+        await fs.rename(tempPath, this.filePath);
+    }
+
+    private static createEmptyHistory(): PushHistoryData {
+        return {
+            records: [],
+            metadata: {
+                totalPushes: 0,
+                lastCleanup: Date.now(),
+                version: PoolPushStorageManager.VERSION
+            }
+        };
+    }
+}
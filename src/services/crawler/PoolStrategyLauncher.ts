@@ -0,0 +1,261 @@
+/**
+ * 🚀 合格池策略启动器
+ *
+ * 从合格池一键创建连锁头寸或简单Y策略：
+ * - 预填池地址，根据binStep、流动性和价格波动推导bin范围、滑点和投入金额
+ * - 创建的实例ID记录到合格池记录中，便于追踪哪些池实际交易过以及表现如何
+ */
+
+import { injectable, inject } from 'tsyringe';
+import {
+    TYPES, ILoggerService, IConfigService, IMeteoraService, IJupiterService
+} from '../../types/interfaces';
+import {
+    LaunchableStrategyType, PoolStrategyDefaults, PoolStrategyLaunchRequest, PoolStrategyLaunchResult,
+    PoolStrategyLink, PoolStrategyLinkStatus, QualifiedPoolRecord
+} from '../../types/pool-crawler-types';
+import { IStrategyManager } from '../strategy/StrategyManager';
+import { QualifiedPoolsManager } from './QualifiedPoolsManager';
+import {
+    DEFAULT_CHAIN_POSITION_GEOMETRY, resolveChainPositionGeometry,
+    getChainGeometryBinCount, describeChainPositionGeometry
+} from '../business/ChainPositionGeometry';
+
+/**
+ * 启动器配置（config/default.json 的 poolStrategyLaunch 节点）
+ */
+interface PoolStrategyLaunchConfig {
+    defaultPositionAmount: number;   // 默认投入金额（Y代币）
+    minPositionAmount: number;       // 推导金额低于该值时拒绝启动
+    maxLiquidityShare: number;       // 投入金额占池流动性的最大比例
+    defaultMode: 'live' | 'paper';   // 未指定时的交易模式
+}
+
+@injectable()
+export class PoolStrategyLauncher {
+    private static readonly DEFAULT_CONFIG: PoolStrategyLaunchConfig = {
+        defaultPositionAmount: 0.1,
+        minPositionAmount: 0.01,
+        maxLiquidityShare: 0.01,
+        defaultMode: 'paper'
+    };
+    private static readonly SINGLE_POSITION_MAX_BINS = 69;
+    private static readonly MIN_SIMPLE_Y_BINS = 10;
+    private static readonly THIN_LIQUIDITY_USD = 50000;
+
+    constructor(
+        @inject(TYPES.LoggerService) private loggerService: ILoggerService,
+        @inject(TYPES.ConfigService) private configService: IConfigService,
+        @inject(TYPES.StrategyManager) private strategyManager: IStrategyManager,
+        @inject(TYPES.MeteoraService) private meteoraService: IMeteoraService,
+        @inject(TYPES.JupiterService) private jupiterService: IJupiterService,
+        @inject('QualifiedPoolsManager') private qualifiedPoolsManager: QualifiedPoolsManager
+    ) { }
+
+    /**
+     * 📐 根据池数据推导策略参数
+     */
+    async deriveDefaults(poolId: string, strategyType: LaunchableStrategyType): Promise<PoolStrategyDefaults> {
+        const record = this.getRecord(poolId);
+        const pool = record.poolData;
+        const config = this.getLaunchConfig();
+        const notes: string[] = [];
+
+        const poolInfo = await this.meteoraService.getPoolInfo(pool.poolAddress);
+        const binStep = poolInfo.binStep || pool.binStep;
+        const volatilityPct = this.estimateVolatility(record);
+
+        // bin范围：连锁头寸由几何决定（默认两个69-bin头寸）；简单Y覆盖估算的24小时波动
+        let binRange: number;
+        if (strategyType === 'chain_position') {
+            binRange = getChainGeometryBinCount(DEFAULT_CHAIN_POSITION_GEOMETRY);
+            notes.push(`连锁头寸默认几何 ${describeChainPositionGeometry(DEFAULT_CHAIN_POSITION_GEOMETRY)}`);
+        } else if (binStep > 0 && volatilityPct > 0) {
+            const binsForMove = Math.ceil(Math.log(1 + volatilityPct / 100) / Math.log(1 + binStep / 10000));
+            binRange = Math.min(Math.max(binsForMove, PoolStrategyLauncher.MIN_SIMPLE_Y_BINS), PoolStrategyLauncher.SINGLE_POSITION_MAX_BINS);
+            notes.push(`24小时波动约${volatilityPct.toFixed(1)}%，binStep ${binStep} 需要${binsForMove}个bin`);
+        } else {
+            binRange = PoolStrategyLauncher.SINGLE_POSITION_MAX_BINS;
+            notes.push('缺少价格变化数据，使用最大bin范围');
+        }
+
+        // 滑点：bin步长越大、波动越高滑点越大，流动性不足时再放宽50%
+        let slippageBps = 100 + binStep * 4 + volatilityPct * 10;
+        if (pool.liquidity < PoolStrategyLauncher.THIN_LIQUIDITY_USD) {
+            slippageBps *= 1.5;
+            notes.push(`流动性低于$${PoolStrategyLauncher.THIN_LIQUIDITY_USD}，滑点放宽50%`);
+        }
+        slippageBps = Math.min(Math.max(Math.round(slippageBps), 50), 2000);
+
+        // 投入金额：默认金额，但不超过池流动性的一定比例
+        let positionAmount = config.defaultPositionAmount;
+        const prices = await this.jupiterService.getTokenPrices([poolInfo.tokenY]).catch(() => ({} as Record<string, number>));
+        const priceYUsd = prices[poolInfo.tokenY] || 0;
+        if (priceYUsd > 0 && pool.liquidity > 0) {
+            const cap = pool.liquidity * config.maxLiquidityShare / priceYUsd;
+            if (cap < positionAmount) {
+                positionAmount = cap;
+                notes.push(`投入金额限制为池流动性的${config.maxLiquidityShare * 100}%`);
+            }
+        } else {
+            notes.push('无法获取Y代币价格，未按流动性限制投入金额');
+        }
+        positionAmount = Math.floor(positionAmount * 10000) / 10000;
+
+        return { strategyType, binStep, positionAmount, binRange, slippageBps, volatilityPct, notes };
+    }
+
+    /**
+     * 🚀 从合格池创建策略实例并关联到合格池记录
+     */
+    async launch(poolId: string, request: PoolStrategyLaunchRequest): Promise<PoolStrategyLaunchResult> {
+        try {
+            const record = this.getRecord(poolId);
+            const pool = record.poolData;
+            const launchConfig = this.getLaunchConfig();
+            const defaults = await this.deriveDefaults(poolId, request.strategyType);
+
+            const positionAmount = request.positionAmount ?? defaults.positionAmount;
+            if (!(positionAmount >= launchConfig.minPositionAmount)) {
+                throw new Error(`投入金额过低: ${positionAmount} (最低 ${launchConfig.minPositionAmount})，池流动性可能不足`);
+            }
+
+            const mode = request.mode ?? launchConfig.defaultMode;
+            const params = {
+                positionAmount,
+                binRange: request.strategyType === 'chain_position'
+                    ? getChainGeometryBinCount(resolveChainPositionGeometry(request.config?.geometry))
+                    : request.binRange ?? defaults.binRange,
+                slippageBps: request.slippageBps ?? defaults.slippageBps
+            };
+            const config = {
+                ...this.buildBaseConfig(request.strategyType),
+                ...(request.config || {}),
+                ...params,
+                poolAddress: pool.poolAddress,
+                mode
+            };
+
+            const name = request.name || `${pool.tokenPair} ${request.strategyType === 'chain_position' ? '连锁头寸' : '简单Y'}`;
+            const instanceId = await this.strategyManager.createInstance(request.strategyType, name, config);
+
+            const link: PoolStrategyLink = {
+                instanceId,
+                strategyType: request.strategyType,
+                name,
+                mode,
+                launchedAt: Date.now(),
+                params,
+                poolSnapshot: {
+                    liquidity: pool.liquidity,
+                    apr24h: pool.apr['24h'],
+                    volume24h: pool.volume['24h'],
+                    binStep: defaults.binStep,
+                    score: pool.score
+                }
+            };
+            await this.qualifiedPoolsManager.linkStrategy(poolId, link);
+            if (record.status === 'new') {
+                await this.qualifiedPoolsManager.update(poolId, { status: 'reviewed' });
+            }
+
+            let started = false;
+            let startError: string | undefined;
+            if (request.autoStart !== false) {
+                try {
+                    await this.strategyManager.startInstance(instanceId);
+                    started = true;
+                } catch (error) {
+                    startError = (error as Error).message;
+                }
+            }
+
+            await this.loggerService.logBusinessOperation('🚀 从合格池启动策略', {
+                poolId,
+                poolAddress: pool.poolAddress,
+                instanceId,
+                strategyType: request.strategyType,
+                mode,
+                params,
+                started
+            });
+
+            return { instanceId, started, ...(startError !== undefined && { startError }), defaults, config, link };
+        } catch (error) {
+            await this.loggerService.logError('PoolStrategyLauncher', `从合格池启动策略失败: ${poolId}`, error as Error);
+            throw error;
+        }
+    }
+
+    /**
+     * 📊 查询合格池关联策略的当前状态（模拟盘附带虚拟账户收益）
+     */
+    async getLinkedStrategies(poolId: string): Promise<PoolStrategyLinkStatus[]> {
+        const record = this.getRecord(poolId);
+
+        return Promise.all((record.strategies || []).map(async link => {
+            const instance = this.strategyManager.getInstance(link.instanceId);
+            if (!instance) {
+                return { ...link, status: 'deleted' };
+            }
+
+            const linkStatus: PoolStrategyLinkStatus = { ...link, status: instance.status };
+            if (instance.startedAt) linkStatus.startedAt = instance.startedAt;
+            if (instance.stoppedAt) linkStatus.stoppedAt = instance.stoppedAt;
+            if (instance.error) linkStatus.error = instance.error;
+            if (instance.mode === 'paper') {
+                linkStatus.paperAccount = await this.strategyManager.getPaperAccount(link.instanceId);
+            }
+            return linkStatus;
+        }));
+    }
+
+    /**
+     * 估算24小时波动幅度（%）：按随机游走把短周期价格变化换算到24小时，取最大值
+     */
+    private estimateVolatility(record: QualifiedPoolRecord): number {
+        const priceChange = record.poolData.priceChange;
+        return Math.max(
+            Math.abs(priceChange['1h']) * Math.sqrt(24),
+            Math.abs(priceChange['6h']) * 2,
+            Math.abs(priceChange['24h'])
+        );
+    }
+
+    /**
+     * 策略基础配置（与前端创建表单的默认值一致）
+     */
+    private buildBaseConfig(strategyType: LaunchableStrategyType): Record<string, any> {
+        const base = {
+            monitoringInterval: 45,
+            outOfRangeTimeout: 600,
+            yieldExtractionThreshold: '0.1',
+            yieldExtractionTimeLock: 1,
+            enableSmartStopLoss: true,
+            stopLoss: {
+                activeBinSafetyThreshold: 50,
+                observationPeriodMinutes: 15,
+                lossThresholdPercentage: 5
+            }
+        };
+
+        return strategyType === 'chain_position'
+            ? { ...base, chainPositionType: 'DUAL_CHAIN' }
+            : base;
+    }
+
+    private getRecord(poolId: string): QualifiedPoolRecord {
+        const record = this.qualifiedPoolsManager.getPool(poolId);
+        if (!record) {
+            throw new Error(`池不存在: ${poolId}`);
+        }
+        return record;
+    }
+
+    private getLaunchConfig(): PoolStrategyLaunchConfig {
+        return {
+            ...PoolStrategyLauncher.DEFAULT_CONFIG,
+            ...this.configService.get<Partial<PoolStrategyLaunchConfig>>('poolStrategyLaunch', {})
+        };
+    }
+}
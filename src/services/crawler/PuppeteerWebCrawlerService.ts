@@ -0,0 +1,85 @@
+/**
+ * 🌐 网页抓取服务（Puppeteer）
+ * solmeteor.ai 的池列表由前端渲染，需要无头浏览器加载后再取页面内容
+ * 浏览器按需启动并在多次抓取之间复用
+ */
+
+import { injectable } from 'tsyringe';
+import type { Browser } from 'puppeteer';
+
+export interface PageFetchOptions {
+    timeout: number;
+    userAgent: string;
+    waitForSelector?: string;
+}
+
+@injectable()
+export class PuppeteerWebCrawlerService {
+    private browser: Browser | null = null;
+    private launching: Promise<Browser> | null = null;
+
+    /**
+     * 📄 加载页面并返回渲染后的HTML
+     */
+    async fetchPage(url: string, options: PageFetchOptions): Promise<string> {
+        const browser = await this.getBrowser();
+        const page = await browser.newPage();
+
+        try {
+            await page.setUserAgent(options.userAgent);
+            await page.goto(url, { waitUntil: 'networkidle2', timeout: options.timeout });
+
+            if (options.waitForSelector) {
+                await page.waitForSelector(options.waitForSelector, { timeout: options.timeout });
+            }
+
+            return await page.content();
+        } finally {
+            await page.close().catch(() => undefined);
+        }
+    }
+
+    isBrowserReady(): boolean {
+        return this.browser !== null && this.browser.connected;
+    }
+
+    /**
+     * 🛑 关闭浏览器
+     */
+    async close(): Promise<void> {
+        const browser = this.browser;
+        this.browser = null;
+        this.launching = null;
+        if (browser) {
+            await browser.close().catch(() => undefined);
+        }
+    }
+
+    private async getBrowser(): Promise<Browser> {
+        if (this.browser && this.browser.connected) {
+            return this.browser;
+        }
+
+        if (!this.launching) {
+            this.launching = (async () => {
+                // 按需加载puppeteer，未启用爬虫时不引入浏览器依赖
+                const puppeteer = (await import('puppeteer')).default;
+                const browser = await puppeteer.launch({
+                    headless: 'new',
+                    args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
+                });
+                browser.on('disconnected', () => {
+                    if (this.browser === browser) {
+                        this.browser = null;
+                    }
+                });
+                this.browser = browser;
+                return browser;
+            })().finally(() => {
+                this.launching = null;
+            });
+        }
+
+        return this.launching;
+    }
+}
@@ -0,0 +1,293 @@
+/**
+ * 🏆 合格池管理器
+ * 维护爬虫筛选出的合格池记录，持久化到 data/qualified-pools.json
+ */
+
+import { injectable, inject } from 'tsyringe';
+import fs from 'fs/promises';
+import path from 'path';
+import { TYPES, ILoggerService } from '../../types/interfaces';
+import { IQualifiedPoolsManager, PoolStrategyLink, QualifiedPoolRecord, QualifiedPoolsStorage } from '../../types/pool-crawler-types';
+
+interface QualifiedPoolsFile {
+    pools: QualifiedPoolRecord[];
+    config: QualifiedPoolsStorage;
+    metadata: {
+        totalRecords: number;
+        lastSaved: number;
+        version: string;
+    };
+}
+
+@injectable()
+export class QualifiedPoolsManager implements IQualifiedPoolsManager {
+    private static readonly VERSION = '1.0';
+    private static readonly DEFAULT_STORAGE: QualifiedPoolsStorage = {
+        maxRecords: 500,
+        autoCleanupDays: 30,
+        backupEnabled: true
+    };
+
+    private pools: Map<string, QualifiedPoolRecord> = new Map();
+    private storageConfig: QualifiedPoolsStorage = { ...QualifiedPoolsManager.DEFAULT_STORAGE };
+    private lastSaved = 0;
+    private loaded = false;
+
+    private readonly filePath: string;
+    private readonly backupPath: string;
+
+    constructor(
+        @inject(TYPES.LoggerService) private loggerService: ILoggerService
+    ) {
+        this.filePath = path.join(process.cwd(), 'data', 'qualified-pools.json');
+        this.backupPath = path.join(process.cwd(), 'data', 'backups');
+    }
+
+    async initialize(): Promise<void> {
+        if (this.loaded) return;
+        await this.load();
+    }
+
+    // ================== IQualifiedPoolsManager ==================
+
+    async save(pools: QualifiedPoolRecord[]): Promise<void> {
+        this.pools = new Map(pools.map(pool => [pool.id, pool]));
+        await this.persist();
+    }
+
+    async load(): Promise<QualifiedPoolRecord[]> {
+        try {
+            const content = await fs.readFile(this.filePath, 'utf-8');
+            const data = JSON.parse(content) as Partial<QualifiedPoolsFile>;
+            this.pools = new Map((data.pools || []).map(pool => [pool.id, pool]));
+            this.storageConfig = { ...QualifiedPoolsManager.DEFAULT_STORAGE, ...(data.config || {}) };
+            this.lastSaved = data.metadata?.lastSaved || 0;
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                await this.loggerService.logError('QualifiedPoolsManager', '合格池文件加载失败', error as Error);
+                throw new Error(`合格池文件加载失败: ${error.message}`);
+            }
+            this.pools = new Map();
+        }
+
+        this.loaded = true;
+        return this.getAllPools();
+    }
+
+    /**
+     * ➕ 添加合格池（同一池地址已存在时只刷新池数据，保留用户的评分、备注和状态）
+     */
+    async add(pool: QualifiedPoolRecord): Promise<void> {
+        const existing = this.pools.get(pool.id);
+        if (existing) {
+            existing.poolData = pool.poolData;
+        } else {
+            this.pools.set(pool.id, pool);
+            this.trimToMaxRecords();
+        }
+        await this.persist();
+    }
+
+    async update(poolId: string, updates: Partial<QualifiedPoolRecord>): Promise<void> {
+        const existing = this.pools.get(poolId);
+        if (!existing) {
+            throw new Error(`池不存在: ${poolId}`);
+        }
+
+        // 忽略值为undefined的字段，避免覆盖已有数据
+        const definedUpdates = Object.fromEntries(
+            Object.entries(updates).filter(([, value]) => value !== undefined)
+        ) as Partial<QualifiedPoolRecord>;
+
+        this.pools.set(poolId, { ...existing, ...definedUpdates, id: existing.id });
+        await this.persist();
+    }
+
+    /**
+     * 🔗 记录从该池启动的策略实例
+     */
+    async linkStrategy(poolId: string, link: PoolStrategyLink): Promise<void> {
+        const existing = this.pools.get(poolId);
+        if (!existing) {
+            throw new Error(`池不存在: ${poolId}`);
+        }
+
+        existing.strategies = [...(existing.strategies || []), link];
+        await this.persist();
+    }
+
+    async remove(poolId: string): Promise<void> {
+        if (!this.pools.delete(poolId)) {
+            throw new Error(`池不存在: ${poolId}`);
+        }
+        await this.persist();
+    }
+
+    /**
+     * 🧹 清理超过保留天数的记录（收藏的池和启动过策略的池不清理）
+     */
+    async cleanup(): Promise<void> {
+        const cutoff = Date.now() - this.storageConfig.autoCleanupDays * 24 * 60 * 60 * 1000;
+        let removed = 0;
+
+        for (const [id, pool] of this.pools) {
+            if (!this.isRetained(pool) && pool.discoveredAt < cutoff) {
+                this.pools.delete(id);
+                removed++;
+            }
+        }
+
+        if (removed > 0) {
+            await this.backup();
+            await this.persist();
+            await this.loggerService.logBusinessOperation('🧹 合格池过期记录已清理', {
+                removed,
+                remaining: this.pools.size
+            });
+        }
+    }
+
+    // ================== 查询 ==================
+
+    getAllPools(): QualifiedPoolRecord[] {
+        return Array.from(this.pools.values());
+    }
+
+    getPool(poolId: string): QualifiedPoolRecord | undefined {
+        return this.pools.get(poolId);
+    }
+
+    hasPool(poolId: string): boolean {
+        return this.pools.has(poolId);
+    }
+
+    /**
+     * 🔍 按代币对、池地址或备注搜索
+     */
+    searchPools(query: string): QualifiedPoolRecord[] {
+        const keyword = query.trim().toLowerCase();
+        return this.getAllPools().filter(pool =>
+            pool.poolData.tokenPair.toLowerCase().includes(keyword) ||
+            pool.poolData.poolAddress.toLowerCase().includes(keyword) ||
+            pool.notes.toLowerCase().includes(keyword)
+        );
+    }
+
+    getStats(): {
+        total: number;
+        byStatus: Record<QualifiedPoolRecord['status'], number>;
+        averageScore: number;
+        lastSaved: number;
+        storage: QualifiedPoolsStorage;
+    } {
+        const pools = this.getAllPools();
+        const byStatus: Record<QualifiedPoolRecord['status'], number> = { new: 0, reviewed: 0, ignored: 0, favorited: 0 };
+        pools.forEach(pool => byStatus[pool.status]++);
+
+        const averageScore = pools.length > 0
+            ? pools.reduce((sum, pool) => sum + pool.poolData.score, 0) / pools.length
+            : 0;
+
+        return {
+            total: pools.length,
+            byStatus,
+            averageScore: Math.round(averageScore * 100) / 100,
+            lastSaved: this.lastSaved,
+            storage: { ...this.storageConfig }
+        };
+    }
+
+    // ================== 导入导出 ==================
+
+    async exportData(): Promise<QualifiedPoolsFile & { exportedAt: number }> {
+        return {
+            ...this.buildFileData(),
+            exportedAt: Date.now()
+        };
+    }
+
+    /**
+     * 📦 导入合格池记录（按ID合并，导入前备份当前数据）
+     */
+    async importData(pools: QualifiedPoolRecord[]): Promise<void> {
+        const invalid = pools.filter(pool => !pool || typeof pool.id !== 'string' || !pool.poolData?.poolAddress);
+        if (invalid.length > 0) {
+            throw new Error(`导入数据格式无效: ${invalid.length} 条记录缺少id或poolData.poolAddress`);
+        }
+
+        await this.backup();
+        pools.forEach(pool => this.pools.set(pool.id, {
+            ...pool,
+            notified: pool.notified ?? false,
+            rating: pool.rating ?? 0,
+            notes: pool.notes ?? '',
+            status: pool.status ?? 'new',
+            discoveredAt: pool.discoveredAt ?? Date.now()
+        }));
+        this.trimToMaxRecords();
+        await this.persist();
+    }
+
+    async clear(): Promise<void> {
+        await this.backup();
+        this.pools.clear();
+        await this.persist();
+    }
+
+    // ================== 内部方法 ==================
+
+    /**
+     * 超出上限时优先移除最早发现的非收藏记录
+     */
+    private trimToMaxRecords(): void {
+        const overflow = this.pools.size - this.storageConfig.maxRecords;
+        if (overflow <= 0) return;
+
+        this.getAllPools()
+            .filter(pool => !this.isRetained(pool))
+            .sort((a, b) => a.discoveredAt - b.discoveredAt)
+            .slice(0, overflow)
+            .forEach(pool => this.pools.delete(pool.id));
+    }
+
+    /**
+     * 收藏的池和启动过策略的池不参与自动清理
+     */
+    private isRetained(pool: QualifiedPoolRecord): boolean {
+        return pool.status === 'favorited' || (pool.strategies?.length ?? 0) > 0;
+    }
+
+    private buildFileData(): QualifiedPoolsFile {
+        return {
+            pools: this.getAllPools(),
+            config: { ...this.storageConfig },
+            metadata: {
+                totalRecords: this.pools.size,
+                lastSaved: this.lastSaved,
+                version: QualifiedPoolsManager.VERSION
+            }
+        };
+    }
+
+    private async persist(): Promise<void> {
+        this.lastSaved = Date.now();
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+        const tempPath = this.filePath + '.tmp';
+        await fs.writeFile(tempPath, JSON.stringify(this.buildFileData(), null, 2), 'utf-8');
+        await fs.rename(tempPath, this.filePath);
+    }
+
+    private async backup(): Promise<void> {
+        if (!this.storageConfig.backupEnabled || this.pools.size === 0) return;
+
+        try {
+            await fs.mkdir(this.backupPath, { recursive: true });
+            const backupFile = path.join(this.backupPath, `qualified-pools_${Date.now()}.json`);
+            await fs.writeFile(backupFile, JSON.stringify(this.buildFileData(), null, 2), 'utf-8');
+        } catch (error) {
+            // 备份失败不影响主流程
+            await this.loggerService.logError('QualifiedPoolsManager', '合格池备份失败', error as Error);
+        }
+    }
+}
@@ -0,0 +1,188 @@
+/**
+ * 🪙 代币筛选名单管理器
+ * 维护代币白名单/黑名单，持久化到 data/token-filters.json
+ */
+
+import { injectable, inject } from 'tsyringe';
+import fs from 'fs/promises';
+import path from 'path';
+import { TYPES, ILoggerService } from '../../types/interfaces';
+
+type TokenListType = 'whitelist' | 'blacklist';
+
+interface TokenFiltersFile {
+    whitelist: string[];
+    blacklist: string[];
+    lastUpdated: number;
+}
+
+// 常见的Solana代币，作为白名单候选
+const SUGGESTED_TOKENS = ['SOL', 'USDC', 'USDT', 'JUP', 'BONK', 'WIF', 'JTO', 'PYTH', 'RAY', 'ORCA', 'RENDER', 'POPCAT'];
+
+@injectable()
+export class TokenFilterManager {
+    private whitelist: Set<string> = new Set();
+    private blacklist: Set<string> = new Set();
+    private lastUpdated = 0;
+    private loaded = false;
+
+    private readonly filePath: string;
+
+    constructor(
+        @inject(TYPES.LoggerService) private loggerService: ILoggerService
+    ) {
+        this.filePath = path.join(process.cwd(), 'data', 'token-filters.json');
+    }
+
+    /**
+     * 📥 从磁盘加载名单（文件不存在时使用空名单）
+     */
+    async initialize(): Promise<void> {
+        if (this.loaded) return;
+
+        try {
+            const content = await fs.readFile(this.filePath, 'utf-8');
+            const data = JSON.parse(content) as Partial<TokenFiltersFile>;
+            this.whitelist = new Set((data.whitelist || []).map(token => this.normalize(token)));
+            this.blacklist = new Set((data.blacklist || []).map(token => this.normalize(token)));
+            this.lastUpdated = data.lastUpdated || 0;
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                await this.loggerService.logError('TokenFilterManager', '代币名单加载失败，使用空名单', error as Error);
+            }
+        }
+
+        this.loaded = true;
+    }
+
+    getWhitelist(): string[] {
+        return Array.from(this.whitelist);
+    }
+
+    getBlacklist(): string[] {
+        return Array.from(this.blacklist);
+    }
+
+    getStats(): { whitelistCount: number; blacklistCount: number; lastUpdated: number } {
+        return {
+            whitelistCount: this.whitelist.size,
+            blacklistCount: this.blacklist.size,
+            lastUpdated: this.lastUpdated
+        };
+    }
+
+    /**
+     * 💡 尚未加入任何名单的常见代币
+     */
+    getSuggestedTokens(): string[] {
+        return SUGGESTED_TOKENS.filter(token => !this.whitelist.has(token) && !this.blacklist.has(token));
+    }
+
+    async addToWhitelist(tokens: string[]): Promise<void> {
+        await this.addTokens('whitelist', tokens);
+    }
+
+    async addToBlacklist(tokens: string[]): Promise<void> {
+        await this.addTokens('blacklist', tokens);
+    }
+
+    async removeFromWhitelist(tokens: string[]): Promise<void> {
+        await this.removeTokens('whitelist', tokens);
+    }
+
+    async removeFromBlacklist(tokens: string[]): Promise<void> {
+        await this.removeTokens('blacklist', tokens);
+    }
+
+    async clearWhitelist(): Promise<void> {
+        this.whitelist.clear();
+        await this.save();
+    }
+
+    async clearBlacklist(): Promise<void> {
+        this.blacklist.clear();
+        await this.save();
+    }
+
+    /**
+     * 📦 导入代币名单（替换原有名单）
+     */
+    async importTokens(tokens: string[], type: TokenListType): Promise<void> {
+        const validTokens = tokens.filter(token => this.validateTokenSymbol(token).valid).map(token => this.normalize(token));
+        if (type === 'whitelist') {
+            this.whitelist = new Set(validTokens);
+        } else {
+            this.blacklist = new Set(validTokens);
+        }
+        await this.save();
+    }
+
+    /**
+     * ✅ 校验代币符号格式
+     */
+    validateTokenSymbol(token: string): { valid: boolean; normalized: string; reason?: string; inWhitelist: boolean; inBlacklist: boolean } {
+        const normalized = this.normalize(token);
+        const result = {
+            normalized,
+            inWhitelist: this.whitelist.has(normalized),
+            inBlacklist: this.blacklist.has(normalized)
+        };
+
+        if (normalized.length === 0) {
+            return { ...result, valid: false, reason: '代币符号不能为空' };
+        }
+        if (normalized.length > 20) {
+            return { ...result, valid: false, reason: '代币符号长度不能超过20个字符' };
+        }
+        if (!/^[A-Z0-9_$.]+$/.test(normalized)) {
+            return { ...result, valid: false, reason: '代币符号只能包含字母、数字、下划线、$和.' };
+        }
+
+        return { ...result, valid: true };
+    }
+
+    private async addTokens(type: TokenListType, tokens: string[]): Promise<void> {
+        const invalid = tokens.filter(token => !this.validateTokenSymbol(token).valid);
+        if (invalid.length > 0) {
+            throw new Error(`代币符号格式无效: ${invalid.join(', ')}`);
+        }
+
+        const target = type === 'whitelist' ? this.whitelist : this.blacklist;
+        const opposite = type === 'whitelist' ? this.blacklist : this.whitelist;
+        for (const token of tokens.map(item => this.normalize(item))) {
+            target.add(token);
+            // 同一代币不能同时出现在两个名单中
+            opposite.delete(token);
+        }
+        await this.save();
+    }
+
+    private async removeTokens(type: TokenListType, tokens: string[]): Promise<void> {
+        const target = type === 'whitelist' ? this.whitelist : this.blacklist;
+        tokens.forEach(token => target.delete(this.normalize(token)));
+        await this.save();
+    }
+
+    private normalize(token: string): string {
+        return String(token).trim().toUpperCase();
+    }
+
+    private async save(): Promise<void> {
+        this.lastUpdated = Date.now();
+        const data: TokenFiltersFile = {
+            whitelist: this.getWhitelist(),
+            blacklist: this.getBlacklist(),
+            lastUpdated: this.lastUpdated
+        };
+
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = this.filePath + '.tmp';
+        await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+        await fs.rename(tempPath, this.filePath);
+
+        await this.loggerService.logBusinessOperation('🪙 代币名单已更新', {
+            whitelistCount: data.whitelist.length,
+            blacklistCount: data.blacklist.length
+        });
+    }
+}
@@ -1,7 +1,7 @@
 import { injectable, inject } from 'tsyringe';
 import { PublicKey, Transaction, Connection } from '@solana/web3.js';
 import { IMeteoraService, IDLMMMonitorService, IConfigService, ILoggerService, ICacheService, ISolanaWeb3Service, TYPES, BN } from '../../types/interfaces';
-import { PoolInfo, BinInfo, ModuleConfig, ModuleHealth, ModuleMetrics } from '../../types/interfaces';
+import { PoolInfo, PoolReserves, BinInfo, ModuleConfig, ModuleHealth, ModuleMetrics } from '../../types/interfaces';
 import { TokenPrecisionConverter } from '../../utils/TokenPrecisionConverter';
 
 /**
@@ -37,7 +37,6 @@ export class MeteoraService implements IMeteoraService, IDLMMMonitorService {
     private readonly POOL_INSTANCE_TTL = 1800000; // 30分钟
     private readonly CLEANUP_INTERVAL = 300000;   // 5分钟
     private readonly MAX_CACHED_POOLS = 50;       // 最大缓存数量
-    private readonly defaultSlippageTolerance = 0.08; // 默认8%滑点
 
     private cleanupTimer: NodeJS.Timeout | null = null;
 
@@ -266,6 +265,38 @@ export class MeteoraService implements IMeteoraService, IDLMMMonitorService {
         }
     }
 
+    /**
+     * 获取池储备和基础费率 (实时)
+     * 储备直接读取池子的储备代币账户，不使用池实例中缓存的数量
+     */
+    async getPoolReserves(poolAddress: string): Promise<PoolReserves> {
+        try {
+            this.requestCount++;
+            const pool = await this.getPoolInstance(poolAddress);
+
+            const [reserveX, reserveY] = await Promise.all([
+                this.connection.getTokenAccountBalance(new PublicKey(pool.lbPair.reserveX)),
+                this.connection.getTokenAccountBalance(new PublicKey(pool.lbPair.reserveY))
+            ]);
+            const feeInfo = pool.getFeeInfo();
+
+            return {
+                address: poolAddress,
+                tokenX: pool.tokenX.mint.address.toString(),
+                tokenY: pool.tokenY.mint.address.toString(),
+                tokenXDecimals: reserveX.value.decimals,
+                tokenYDecimals: reserveY.value.decimals,
+                reserveX: reserveX.value.amount,
+                reserveY: reserveY.value.amount,
+                baseFeeRatePercentage: Number(feeInfo.baseFeeRatePercentage.toString())
+            };
+        } catch (error) {
+            this.errorCount++;
+            await this.loggerService.logError('get-pool-reserves', '获取池储备失败', error as Error);
+            throw new Error(`获取池储备失败: ${error instanceof Error ? error.message : '未知错误'}`);
+        }
+    }
+
     /**
      * 获取bin信息 (实时)
      */
@@ -444,15 +475,44 @@ export class MeteoraService implements IMeteoraService, IDLMMMonitorService {
         throw new Error('createPositionTransaction 暂未实现');
     }
 
+    /**
+     * 创建移除流动性交易（保留头寸，不领取手续费）
+     * @param binIds 移除流动性的bin范围（取最小和最大bin）
+     * @param bps 每个bin移除的比例（基点，10000为100%）
+     */
     async createRemoveLiquidityTransaction(
         poolAddress: string,
         userAddress: string,
         positionAddress: string,
         binIds: number[],
-        slippageTolerance: number = this.defaultSlippageTolerance
-    ): Promise<Transaction> {
-        // TODO: 实现移除流动性交易
-        throw new Error('createRemoveLiquidityTransaction 暂未实现');
+        bps: number = 10000
+    ): Promise<Transaction[]> {
+        try {
+            this.requestCount++;
+
+            if (binIds.length === 0) {
+                throw new Error('binIds不能为空');
+            }
+            if (!Number.isInteger(bps) || bps <= 0 || bps > 10000) {
+                throw new Error(`移除比例无效: ${bps}bps`);
+            }
+
+            const pool = await this.getPoolInstance(poolAddress);
+            const removeLiquidityTx = await pool.removeLiquidity({
+                user: new PublicKey(userAddress),
+                position: new PublicKey(positionAddress),
+                fromBinId: Math.min(...binIds),
+                toBinId: Math.max(...binIds),
+                bps: new BN(bps),
+                shouldClaimAndClose: false
+            });
+
+            return Array.isArray(removeLiquidityTx) ? removeLiquidityTx : [removeLiquidityTx];
+        } catch (error) {
+            this.errorCount++;
+            await this.loggerService.logError('create-remove-liquidity-tx', '创建移除流动性交易失败', error as Error);
+            throw new Error(`创建移除流动性交易失败: ${error instanceof Error ? error.message : '未知错误'}`);
+        }
     }
 
     /**
@@ -0,0 +1,347 @@
+/**
+ * 🔐 认证服务
+ *
+ * 管理操作员账户并签发/校验JWT：
+ * - 账户持久化到 data/auth-users.json，密码使用bcrypt哈希
+ * - 首次启动时没有账户则创建admin（密码取环境变量AUTH_ADMIN_PASSWORD，否则随机生成并写入仅所有者可读的 data/auth-admin-password）
+ * - 令牌携带tokenVersion，修改密码、角色或禁用账户后旧令牌立即失效
+ */
+
+import { injectable, inject } from 'tsyringe';
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { TYPES, ILoggerService, IConfigService } from '../../types/interfaces';
+import {
+    AuthLoginResult, AuthSettings, AuthTokenPayload, AuthUser, AuthUserRecord, USER_ROLES, UserRole
+} from '../../types/auth-types';
+
+interface AuthUsersFile {
+    users: AuthUserRecord[];
+    metadata: {
+        lastSaved: number;
+        version: string;
+    };
+}
+
+@injectable()
+export class AuthService {
+    private static readonly VERSION = '1.0';
+    private static readonly DEFAULT_SETTINGS: AuthSettings = {
+        enabled: true,
+        jwtSecret: '',
+        tokenExpiresIn: '12h',
+        bcryptRounds: 10,
+        minPasswordLength: 8
+    };
+    private static readonly USERNAME_PATTERN = /^[a-zA-Z0-9_.-]{3,32}$/;
+    private static readonly ROLE_LEVEL: Record<UserRole, number> = { viewer: 1, operator: 2, admin: 3 };
+
+    private users: Map<string, AuthUserRecord> = new Map();
+    private settings: AuthSettings = { ...AuthService.DEFAULT_SETTINGS };
+    private jwtSecret = '';
+    private dummyHash = '';         // 用户不存在时用于消耗同样的比较时间
+    private initialized = false;
+
+    private readonly usersPath: string;
+    private readonly secretPath: string;
+    private readonly adminPasswordPath: string;
+
+    constructor(
+        @inject(TYPES.LoggerService) private loggerService: ILoggerService,
+        @inject(TYPES.ConfigService) private configService: IConfigService
+    ) {
+        this.usersPath = path.join(process.cwd(), 'data', 'auth-users.json');
+        this.secretPath = path.join(process.cwd(), 'data', 'auth-secret');
+        this.adminPasswordPath = path.join(process.cwd(), 'data', 'auth-admin-password');
+    }
+
+    /**
+     * 🚀 加载账户和签名密钥（认证关闭时也会加载，便于运行中开启）
+     */
+    async initialize(): Promise<void> {
+        if (this.initialized) return;
+
+        this.settings = {
+            ...AuthService.DEFAULT_SETTINGS,
+            ...this.configService.get<Partial<AuthSettings>>('auth', {})
+        };
+        this.jwtSecret = await this.resolveSecret();
+        this.dummyHash = await bcrypt.hash(crypto.randomBytes(16).toString('hex'), this.settings.bcryptRounds);
+        await this.loadUsers();
+
+        if (this.users.size === 0) {
+            await this.bootstrapAdmin();
+        }
+
+        this.initialized = true;
+        await this.loggerService.logSystem('INFO',
+            `🔐 认证服务初始化完成: ${this.settings.enabled ? '已启用' : '已关闭'}，账户数 ${this.users.size}`);
+    }
+
+    isEnabled(): boolean {
+        return this.settings.enabled;
+    }
+
+    /**
+     * 角色是否满足最低要求
+     */
+    hasRole(role: UserRole, required: UserRole): boolean {
+        return AuthService.ROLE_LEVEL[role] >= AuthService.ROLE_LEVEL[required];
+    }
+
+    // ================== 登录与令牌 ==================
+
+    async login(username: string, password: string): Promise<AuthLoginResult> {
+        const record = this.users.get(username);
+        // 用户不存在时仍执行一次比较，避免通过响应时间枚举用户名
+        const valid = await bcrypt.compare(password || '', record?.passwordHash || this.dummyHash);
+        if (!record || !valid) {
+            await this.loggerService.logBusinessOperation('⚠️ 登录失败', { username });
+            throw new Error('用户名或密码错误');
+        }
+        if (record.disabled) {
+            throw new Error('账户已禁用');
+        }
+
+        record.lastLoginAt = Date.now();
+        await this.persist();
+
+        const payload: AuthTokenPayload = { sub: record.username, role: record.role, ver: record.tokenVersion };
+        const token = jwt.sign(payload, this.jwtSecret, {
+            expiresIn: this.settings.tokenExpiresIn
+        } as jwt.SignOptions);
+
+        await this.loggerService.logBusinessOperation('🔑 用户登录', { username, role: record.role });
+        return { token, expiresIn: this.settings.tokenExpiresIn, user: this.toPublic(record) };
+    }
+
+    /**
+     * 🔍 校验令牌，返回当前用户（账户被删除、禁用或令牌版本过期时拒绝）
+     */
+    verifyToken(token: string): AuthUser {
+        let payload: AuthTokenPayload;
+        try {
+            payload = jwt.verify(token, this.jwtSecret) as AuthTokenPayload;
+        } catch (error) {
+            throw new Error(error instanceof jwt.TokenExpiredError ? '令牌已过期' : '令牌无效');
+        }
+
+        const record = this.users.get(payload.sub);
+        if (!record || record.disabled || record.tokenVersion !== payload.ver) {
+            throw new Error('令牌已失效');
+        }
+        return this.toPublic(record);
+    }
+
+    // ================== 账户管理 ==================
+
+    listUsers(): AuthUser[] {
+        return Array.from(this.users.values()).map(record => this.toPublic(record));
+    }
+
+    getUser(username: string): AuthUser | undefined {
+        const record = this.users.get(username);
+        return record ? this.toPublic(record) : undefined;
+    }
+
+    async createUser(username: string, password: string, role: UserRole): Promise<AuthUser> {
+        if (!AuthService.USERNAME_PATTERN.test(username || '')) {
+            throw new Error('用户名须为3-32位字母、数字或 _ . -');
+        }
+        if (this.users.has(username)) {
+            throw new Error(`用户已存在: ${username}`);
+        }
+        this.validateRole(role);
+        this.validatePassword(password);
+
+        const now = Date.now();
+        const record: AuthUserRecord = {
+            username,
+            passwordHash: await bcrypt.hash(password, this.settings.bcryptRounds),
+            role,
+            disabled: false,
+            tokenVersion: 1,
+            createdAt: now,
+            updatedAt: now
+        };
+        this.users.set(username, record);
+        await this.persist();
+
+        await this.loggerService.logBusinessOperation('👤 创建用户', { username, role });
+        return this.toPublic(record);
+    }
+
+    /**
+     * ✏️ 管理员修改账户（角色、禁用状态或重置密码），任何修改都会使该账户的旧令牌失效
+     */
+    async updateUser(username: string, updates: { role?: UserRole; disabled?: boolean; password?: string }): Promise<AuthUser> {
+        const record = this.getRecord(username);
+
+        if (updates.role !== undefined) {
+            this.validateRole(updates.role);
+        }
+        if (updates.password !== undefined) {
+            this.validatePassword(updates.password);
+        }
+
+        const losesAdmin = record.role === 'admin' && !record.disabled &&
+            ((updates.role !== undefined && updates.role !== 'admin') || updates.disabled === true);
+        if (losesAdmin && this.countActiveAdmins() <= 1) {
+            throw new Error('至少需要保留一个可用的管理员账户');
+        }
+
+        if (updates.role !== undefined) record.role = updates.role;
+        if (updates.disabled !== undefined) record.disabled = updates.disabled;
+        if (updates.password !== undefined) {
+            record.passwordHash = await bcrypt.hash(updates.password, this.settings.bcryptRounds);
+        }
+        record.tokenVersion++;
+        record.updatedAt = Date.now();
+        await this.persist();
+
+        await this.loggerService.logBusinessOperation('✏️ 修改用户', {
+            username,
+            ...(updates.role !== undefined && { role: updates.role }),
+            ...(updates.disabled !== undefined && { disabled: updates.disabled }),
+            passwordReset: updates.password !== undefined
+        });
+        return this.toPublic(record);
+    }
+
+    async deleteUser(username: string): Promise<void> {
+        const record = this.getRecord(username);
+        if (record.role === 'admin' && !record.disabled && this.countActiveAdmins() <= 1) {
+            throw new Error('至少需要保留一个可用的管理员账户');
+        }
+
+        this.users.delete(username);
+        await this.persist();
+        await this.loggerService.logBusinessOperation('🗑️ 删除用户', { username });
+    }
+
+    /**
+     * 🔑 用户修改自己的密码（需要验证当前密码）
+     */
+    async changePassword(username: string, currentPassword: string, newPassword: string): Promise<void> {
+        const record = this.getRecord(username);
+        if (!(await bcrypt.compare(currentPassword || '', record.passwordHash))) {
+            throw new Error('当前密码错误');
+        }
+        this.validatePassword(newPassword);
+
+        record.passwordHash = await bcrypt.hash(newPassword, this.settings.bcryptRounds);
+        record.tokenVersion++;
+        record.updatedAt = Date.now();
+        await this.persist();
+
+        await this.loggerService.logBusinessOperation('🔑 用户修改密码', { username });
+    }
+
+    // ================== 内部方法 ==================
+
+    /**
+     * 签名密钥优先级：环境变量JWT_SECRET > 配置auth.jwtSecret > data/auth-secret（不存在时生成）
+     */
+    private async resolveSecret(): Promise<string> {
+        const configured = process.env.JWT_SECRET || this.settings.jwtSecret;
+        if (configured) return configured;
+
+        try {
+            const stored = (await fs.readFile(this.secretPath, 'utf-8')).trim();
+            if (stored) return stored;
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                throw new Error(`JWT密钥文件读取失败: ${error.message}`);
+            }
+        }
+
+        const secret = crypto.randomBytes(48).toString('hex');
+        await fs.mkdir(path.dirname(this.secretPath), { recursive: true });
+        await fs.writeFile(this.secretPath, secret, { encoding: 'utf-8', mode: 0o600 });
+        await this.loggerService.logSystem('INFO', '🔐 已生成JWT签名密钥: data/auth-secret');
+        return secret;
+    }
+
+    private async bootstrapAdmin(): Promise<void> {
+        const envPassword = process.env.AUTH_ADMIN_PASSWORD;
+        const password = envPassword || crypto.randomBytes(12).toString('base64url');
+        await this.createUser('admin', password, 'admin');
+
+        if (envPassword) {
+            await this.loggerService.logSystem('INFO', '🔐 已使用AUTH_ADMIN_PASSWORD创建初始管理员账户: admin');
+        } else {
+            // 随机密码只写入仅所有者可读的文件，不输出到控制台或日志
+            await fs.mkdir(path.dirname(this.adminPasswordPath), { recursive: true });
+            await fs.writeFile(this.adminPasswordPath, password + '\n', { encoding: 'utf-8', mode: 0o600 });
+            await this.loggerService.logSystem('WARN',
+                '🔐 已创建初始管理员账户: admin，随机密码保存在 data/auth-admin-password，登录并修改密码后请删除该文件');
+        }
+    }
+
+    private async loadUsers(): Promise<void> {
+        try {
+            const content = await fs.readFile(this.usersPath, 'utf-8');
+            const data = JSON.parse(content) as Partial<AuthUsersFile>;
+            this.users = new Map((data.users || []).map(user => [user.username, user]));
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                await this.loggerService.logError('AuthService', '用户文件加载失败', error as Error);
+                throw new Error(`用户文件加载失败: ${error.message}`);
+            }
+            this.users = new Map();
+        }
+    }
+
+    private async persist(): Promise<void> {
+        const data: AuthUsersFile = {
+            users: Array.from(this.users.values()),
+            metadata: {
+                lastSaved: Date.now(),
+                version: AuthService.VERSION
+            }
+        };
+
+        await fs.mkdir(path.dirname(this.usersPath), { recursive: true });
+        const tempPath = this.usersPath + '.tmp';
+        await fs.writeFile(tempPath, JSON.stringify(data, null, 2), { encoding: 'utf-8', mode: 0o600 });
+        await fs.rename(tempPath, this.usersPath);
+    }
+
+    private getRecord(username: string): AuthUserRecord {
+        const record = this.users.get(username);
+        if (!record) {
+            throw new Error(`用户不存在: ${username}`);
+        }
+        return record;
+    }
+
+    private countActiveAdmins(): number {
+        return Array.from(this.users.values()).filter(user => user.role === 'admin' && !user.disabled).length;
+    }
+
+    private validateRole(role: UserRole): void {
+        if (!USER_ROLES.includes(role)) {
+            throw new Error(`无效的角色: ${role}，可选值: ${USER_ROLES.join(', ')}`);
+        }
+    }
+
+    private validatePassword(password: string): void {
+        if (typeof password !== 'string' || password.length < this.settings.minPasswordLength) {
+            throw new Error(`密码长度不能少于${this.settings.minPasswordLength}位`);
+        }
+    }
+
+    private toPublic(record: AuthUserRecord): AuthUser {
+        return {
+            username: record.username,
+            role: record.role,
+            disabled: record.disabled,
+            createdAt: record.createdAt,
+            updatedAt: record.updatedAt,
+            ...(record.lastLoginAt !== undefined && { lastLoginAt: record.lastLoginAt })
+        };
+    }
+}
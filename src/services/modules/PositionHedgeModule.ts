@@ -0,0 +1,106 @@
+/**
+ * 🛡️ 头寸对冲模块
+ * 独立的对冲决策引擎，可以嵌入到任何Y单边头寸策略中
+ *
+ * 核心功能：
+ * - 价格下跌穿过Y单边头寸时，头寸中的Y逐步兑换为X，形成X代币敞口
+ * - X敞口占比 = X代币价值 / 头寸总价值（Y计价）
+ * - 占比超过 hedgeRatio 时，建议卖出超出部分使占比回到 hedgeRatio
+ *
+ * 设计原则：
+ * - 只负责决策，交易执行（移除流动性、Jupiter兑换）由策略执行器完成
+ * - 不保存实例状态，上次对冲时间由调用方传入
+ */
+
+// 对冲配置接口
+export interface PositionHedgeConfig {
+    hedgeRatio: number;                  // X敞口占头寸价值的上限(%)
+    minHedgePercentage: number;          // 单次对冲的最小卖出价值（占头寸价值的%），避免频繁小额交易
+    minHedgeIntervalSeconds: number;     // 两次对冲的最小间隔（秒）
+}
+
+// 对冲检查参数接口
+export interface HedgeCheckParams {
+    amountX: number;                     // 头寸中的X代币数量
+    amountY: number;                     // 头寸中的Y代币数量
+    currentPrice: number;                // X代币价格（Y计价）
+    lastHedgeAt: number | null;          // 上次对冲时间（毫秒）
+    now?: number;
+}
+
+// 对冲决策接口
+export interface HedgeDecision {
+    shouldHedge: boolean;
+    exposureRatio: number;               // 当前X敞口占比(%)
+    positionValueY: number;              // 头寸总价值（Y计价）
+    exposureValueY: number;              // X代币价值（Y计价）
+    sellValueY: number;                  // 建议卖出的X代币价值（Y计价），不对冲时为0
+    sellFraction: number;                // 建议卖出的X敞口比例（0-1），不对冲时为0
+    reason: string;
+}
+
+export class PositionHedgeModule {
+
+    constructor(private config: PositionHedgeConfig) {
+        this.validateConfig(config);
+    }
+
+    /**
+     * 🔍 评估是否需要对冲
+     */
+    evaluate(params: HedgeCheckParams): HedgeDecision {
+        const exposureValueY = params.amountX * params.currentPrice;
+        const positionValueY = exposureValueY + params.amountY;
+        const exposureRatio = positionValueY > 0 ? exposureValueY / positionValueY * 100 : 0;
+        const hold = (reason: string): HedgeDecision => ({
+            shouldHedge: false,
+            exposureRatio,
+            positionValueY,
+            exposureValueY,
+            sellValueY: 0,
+            sellFraction: 0,
+            reason
+        });
+
+        if (!(params.currentPrice > 0) || !(positionValueY > 0)) {
+            return hold('头寸价值或价格无效');
+        }
+        if (exposureRatio <= this.config.hedgeRatio) {
+            return hold(`X敞口 ${exposureRatio.toFixed(2)}% 未超过对冲比例 ${this.config.hedgeRatio}%`);
+        }
+
+        // 卖出价值S后：(X价值 - S) / (头寸价值 - S) = 对冲比例
+        const ratio = this.config.hedgeRatio / 100;
+        const sellValueY = Math.min(exposureValueY, (exposureValueY - ratio * positionValueY) / (1 - ratio));
+
+        if (sellValueY < positionValueY * this.config.minHedgePercentage / 100) {
+            return hold(`卖出价值 ${sellValueY.toFixed(6)} 低于最小对冲规模 ${this.config.minHedgePercentage}%`);
+        }
+
+        const now = params.now ?? Date.now();
+        if (params.lastHedgeAt !== null && now - params.lastHedgeAt < this.config.minHedgeIntervalSeconds * 1000) {
+            return hold(`距上次对冲不足 ${this.config.minHedgeIntervalSeconds} 秒`);
+        }
+
+        return {
+            shouldHedge: true,
+            exposureRatio,
+            positionValueY,
+            exposureValueY,
+            sellValueY,
+            sellFraction: sellValueY / exposureValueY,
+            reason: `X敞口 ${exposureRatio.toFixed(2)}% 超过对冲比例 ${this.config.hedgeRatio}%`
+        };
+    }
+
+    updateConfig(config: PositionHedgeConfig): void {
+        this.validateConfig(config);
+        this.config = config;
+    }
+
+    private validateConfig(config: PositionHedgeConfig): void {
+        if (!(config.hedgeRatio >= 0 && config.hedgeRatio < 100)) {
+            throw new Error(`对冲比例无效: ${config.hedgeRatio}%`);
+        }
+    }
+}
@@ -79,7 +79,9 @@ export interface RecreationCheckParams {
     // 🔥 头寸状态信息
     position1Address?: string | null;
     position2Address?: string | null;
+    positionAddresses?: string[];        // 多头寸策略（如连锁头寸）的全部头寸地址
     positionRange: [number, number];
+    thresholdRange?: [number, number];   // 位置阈值判断使用的范围（默认positionRange，超出范围判断始终使用positionRange）
 
     // 🔥 超出范围状态
     outOfRangeStartTime?: Date | null;
@@ -158,6 +160,16 @@ export interface RecreationResult {
     skippedReason?: string;
 }
 
+/**
+ * 实例级重建状态快照（用于事件日志持久化与崩溃恢复）
+ */
+export interface RecreationStateSnapshot {
+    outOfRangeStartTime: string | null;
+    outOfRangeDirection: 'ABOVE' | 'BELOW' | null;
+    lossRecoveryMarked: boolean;
+    lastRecreationTime: number;
+}
+
 /**
  * 头寸重建模块主类
  */
@@ -209,8 +221,12 @@ export class PositionRecreationModule {
         }
     };
 
-    constructor(config: Partial<PositionRecreationConfig> = {}) {
+    // 🕒 时钟函数（回测时注入模拟时间，默认使用系统时间）
+    private readonly now: () => number;
+
+    constructor(config: Partial<PositionRecreationConfig> = {}, clock: () => number = Date.now) {
         this.config = { ...PositionRecreationModule.DEFAULT_CONFIG, ...config };
+        this.now = clock;
     }
 
     /**
@@ -222,7 +238,7 @@ export class PositionRecreationModule {
 
         // 🆕 步骤0: 通用最低活跃bin位置检查（适用于所有方法）
         if (this.config.minActiveBinPositionThreshold && this.config.minActiveBinPositionThreshold > 0) {
-            const [lowerBin, upperBin] = positionRange;
+            const [lowerBin, upperBin] = params.thresholdRange ?? positionRange;
             const activeBin = marketData.activeBin;
             const totalRange = upperBin - lowerBin;
             const positionPercentage = totalRange > 0
@@ -347,7 +363,7 @@ export class PositionRecreationModule {
 
         if (decision.outOfRangeDetails?.shouldStartTimeout) {
             // 开始计时
-            state.outOfRangeStartTime = new Date();
+            state.outOfRangeStartTime = new Date(this.now());
             state.outOfRangeDirection = decision.outOfRangeDetails.direction;
         } else if (decision.recreationType === 'OUT_OF_RANGE' && decision.confidence === 0) {
             // 回到范围内，重置状态
@@ -378,6 +394,31 @@ export class PositionRecreationModule {
         this.instanceStates.delete(instanceId);
     }
 
+    /**
+     * 💾 导出实例状态（超出范围计时、止损反弹标记、最后重建时间）
+     */
+    public exportInstanceState(instanceId: string): RecreationStateSnapshot {
+        const state = this.instanceStates.get(instanceId);
+        return {
+            outOfRangeStartTime: state?.outOfRangeStartTime ? state.outOfRangeStartTime.toISOString() : null,
+            outOfRangeDirection: state?.outOfRangeDirection ?? null,
+            lossRecoveryMarked: state?.lossRecoveryMarked ?? false,
+            lastRecreationTime: this.lastRecreationTime
+        };
+    }
+
+    /**
+     * ♻️ 从快照恢复实例状态（超出范围计时从原始开始时间继续）
+     */
+    public restoreInstanceState(instanceId: string, snapshot: RecreationStateSnapshot): void {
+        this.instanceStates.set(instanceId, {
+            outOfRangeStartTime: snapshot.outOfRangeStartTime ? new Date(snapshot.outOfRangeStartTime) : null,
+            outOfRangeDirection: snapshot.outOfRangeDirection,
+            lossRecoveryMarked: snapshot.lossRecoveryMarked
+        });
+        this.lastRecreationTime = snapshot.lastRecreationTime || 0;
+    }
+
     /**
      * 🔍 第一个智能判断方法：检查超出范围情况 - 完全复制原始逻辑
      */
@@ -422,7 +463,7 @@ export class PositionRecreationModule {
         }
 
         // 🔥 计算超出范围的时间
-        const timeElapsed = Math.floor((Date.now() - outOfRangeStartTime.getTime()) / 1000);
+        const timeElapsed = Math.floor((this.now() - outOfRangeStartTime.getTime()) / 1000);
         const timeRemaining = strategyConfig.outOfRangeTimeout - timeElapsed;
 
         // 🔥 检查是否超过超时阈值
@@ -520,7 +561,7 @@ export class PositionRecreationModule {
         const { marketData, positionRange } = params;
 
         // 🧠 智能头寸重建逻辑：当活跃bin在头寸范围内低于配置阈值时，且盈亏百分比大于配置阈值时，执行头寸重建
-        const [lowerBin, upperBin] = positionRange;
+        const [lowerBin, upperBin] = params.thresholdRange ?? positionRange;
         const activeBin = marketData.activeBin;
 
         // 🏗️ 获取配置参数（使用配置或默认值）
@@ -601,7 +642,7 @@ export class PositionRecreationModule {
         }
 
         const { marketData, positionRange, instanceId } = params;
-        const [lowerBin, upperBin] = positionRange;
+        const [lowerBin, upperBin] = params.thresholdRange ?? positionRange;
         const activeBin = marketData.activeBin;
 
         // 🏗️ 获取配置参数（使用配置或默认值）
@@ -706,7 +747,7 @@ export class PositionRecreationModule {
      */
     private async checkFourthSmartJudgment(params: RecreationCheckParams): Promise<RecreationDecision> {
         const { marketData, positionRange } = params;
-        const [lowerBin, upperBin] = positionRange;
+        const [lowerBin, upperBin] = params.thresholdRange ?? positionRange;
         const activeBin = marketData.activeBin;
         const netPnLPercentage = marketData.netPnLPercentage;
 
@@ -841,7 +882,7 @@ export class PositionRecreationModule {
      * 🔧 检查重建间隔
      */
     canRecreate(): boolean {
-        const timeSinceLastRecreation = Date.now() - this.lastRecreationTime;
+        const timeSinceLastRecreation = this.now() - this.lastRecreationTime;
         return timeSinceLastRecreation >= this.config.minRecreationInterval;
     }
 
@@ -21,6 +21,10 @@ export interface SmartStopLossConfig {
     observationPeriodMinutes: number;    // 观察期时长(分钟)
     lossThresholdPercentage: number;     // 亏损阈值百分比（用户配置）
 
+    // 部分止损：观察期止损（盈利回落）时先退出一部分，亏损超过阈值时仍完全止损
+    partialExitPercentage: number;       // 每次部分止损退出的百分比，0为关闭（观察期止损直接完全退出）
+    maxPartialExits: number;             // 连续部分止损次数上限，达到后观察期止损改为完全退出
+
     // 风险评估参数
     riskFactors: {
         priceDropWeight: number;        // 价格下跌权重
@@ -177,6 +181,9 @@ export class SmartStopLossModule {
         strategyId: string;
     }> = new Map();
 
+    // 本轮风险期内已建议的部分止损次数（活跃bin回到安全区域后清零）
+    private partialExitCounts: Map<string, number> = new Map();
+
     // 默认配置
     private static readonly DEFAULT_CONFIG: SmartStopLossConfig = {
         riskThreshold: 70,
@@ -205,11 +212,17 @@ export class SmartStopLossModule {
 
         activeBinSafetyThreshold: 50,
         observationPeriodMinutes: 15,
-        lossThresholdPercentage: 5
+        lossThresholdPercentage: 5,
+        partialExitPercentage: 0,
+        maxPartialExits: 2
     };
 
-    constructor(config: Partial<SmartStopLossConfig> = {}) {
+    // 🕒 时钟函数（回测时注入模拟时间，默认使用系统时间）
+    private readonly now: () => number;
+
+    constructor(config: Partial<SmartStopLossConfig> = {}, clock: () => number = Date.now) {
         this.config = { ...SmartStopLossModule.DEFAULT_CONFIG, ...config };
+        this.now = clock;
     }
 
     /**
@@ -229,7 +242,7 @@ export class SmartStopLossModule {
         const shouldStopLoss = this.evaluateSimplifiedStopLossConditions(marketData, positionPercentage, fixedStrategyId);
 
         // 生成决策
-        const decision = this.generateSimplifiedDecision(shouldStopLoss, riskAssessment, marketData, positionPercentage);
+        const decision = this.generateSimplifiedDecision(shouldStopLoss, riskAssessment, marketData, positionPercentage, fixedStrategyId);
 
         // 记录评估历史
         this.evaluationHistory.push(decision);
@@ -382,7 +395,7 @@ export class SmartStopLossModule {
      * ⏱️ 管理观察期
      */
     private manageObservationPeriod(strategyId: string, currentPosition: number, currentProfitPercentage: number): boolean {
-        const now = Date.now();
+        const now = this.now();
         const observationDuration = this.config.observationPeriodMinutes * 60 * 1000; // 可配置观察期
 
         // 检查是否已在观察期内
@@ -430,7 +443,8 @@ export class SmartStopLossModule {
         shouldStopLoss: boolean,
         riskAssessment: RiskAssessment,
         marketData: MarketData,
-        positionPercentage: number
+        positionPercentage: number,
+        strategyId: string
     ): StopLossDecision {
         const reasoning: string[] = [];
         let action: StopLossDecision['action'] = 'HOLD';
@@ -441,6 +455,7 @@ export class SmartStopLossModule {
         // 🔥 简化的决策逻辑
         if (positionPercentage > this.config.activeBinSafetyThreshold) {
             // 安全区域
+            this.partialExitCounts.delete(strategyId);
             action = 'HOLD';
             confidence = 90;
             urgency = 'LOW';
@@ -452,6 +467,14 @@ export class SmartStopLossModule {
                 confidence = 85;
                 urgency = 'HIGH';
                 reasoning.push(`立即止损: 位置${positionPercentage.toFixed(1)}%且亏损${Math.abs(marketData.netPnLPercentage).toFixed(1)}%超过阈值${this.config.lossThresholdPercentage}%`);
+            } else if (this.config.partialExitPercentage > 0 && (this.partialExitCounts.get(strategyId) || 0) < this.config.maxPartialExits) {
+                const partialExits = (this.partialExitCounts.get(strategyId) || 0) + 1;
+                this.partialExitCounts.set(strategyId, partialExits);
+                action = 'PARTIAL_EXIT';
+                confidence = 75;
+                urgency = 'MEDIUM';
+                suggestedExitPercentage = this.config.partialExitPercentage;
+                reasoning.push(`观察期部分止损: 盈利水平降低，位置${positionPercentage.toFixed(1)}%，退出${this.config.partialExitPercentage}%（第${partialExits}/${this.config.maxPartialExits}次）`);
             } else {
                 action = 'FULL_EXIT';
                 confidence = 75;
@@ -473,7 +496,7 @@ export class SmartStopLossModule {
             reasoning,
             suggestedExitPercentage,
             urgency,
-            nextEvaluationTime: Date.now() + (this.config.evaluationInterval * 1000),
+            nextEvaluationTime: this.now() + (this.config.evaluationInterval * 1000),
             analysis: {
                 priceRisk: riskAssessment.priceRisk,
                 volatilityRisk: riskAssessment.volatilityRisk,
@@ -505,7 +528,7 @@ export class SmartStopLossModule {
         }
 
         // 🔥 清理过期的观察期（超过1小时的）
-        const now = Date.now();
+        const now = this.now();
         const oneHour = 60 * 60 * 1000;
 
         // 使用Array.from避免编译错误
@@ -0,0 +1,101 @@
+/**
+ * ⏰ 简易cron表达式（5段：分 时 日 月 周，按服务器本地时区匹配）
+ *
+ * 每段支持 *、数字、范围 a-b、列表 a,b 和步长 a-b/n（* 也可以带步长）；周字段 0 和 7 都表示周日。
+ * 与标准cron一致：日和周都不是 * 时，任意一个匹配即可。
+ */
+export class CronExpression {
+    private static readonly FIELD_RANGES: [number, number][] = [
+        [0, 59],  // 分
+        [0, 23],  // 时
+        [1, 31],  // 日
+        [1, 12],  // 月
+        [0, 7]    // 周
+    ];
+
+    private constructor(
+        private readonly fields: Set<number>[],
+        private readonly dayOfMonthAny: boolean,
+        private readonly dayOfWeekAny: boolean
+    ) { }
+
+    static parse(expression: string): CronExpression {
+        const parts = expression.trim().split(/\s+/);
+        if (parts.length !== 5) {
+            throw new Error(`cron表达式需要5段（分 时 日 月 周）: ${expression}`);
+        }
+
+        const fields = parts.map((part, index) => CronExpression.parseField(part, CronExpression.FIELD_RANGES[index]!, expression));
+        // 周日统一为0
+        if (fields[4]!.has(7)) {
+            fields[4]!.delete(7);
+            fields[4]!.add(0);
+        }
+
+        return new CronExpression(fields, parts[2] === '*', parts[4] === '*');
+    }
+
+    /**
+     * 判断时间所在的分钟是否匹配
+     */
+    matches(date: Date): boolean {
+        const [minutes, hours, daysOfMonth, months, daysOfWeek] = this.fields as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+        if (!minutes.has(date.getMinutes()) || !hours.has(date.getHours()) || !months.has(date.getMonth() + 1)) {
+            return false;
+        }
+
+        const dayOfMonthMatch = daysOfMonth.has(date.getDate());
+        const dayOfWeekMatch = daysOfWeek.has(date.getDay());
+        if (this.dayOfMonthAny || this.dayOfWeekAny) {
+            return dayOfMonthMatch && dayOfWeekMatch;
+        }
+        return dayOfMonthMatch || dayOfWeekMatch;
+    }
+
+    /**
+     * 查找 (from, to] 区间内第一个匹配的分钟（最多向后查找 maxMinutes 分钟）
+     */
+    findMatchBetween(from: number, to: number, maxMinutes = 24 * 60): number | null {
+        const minute = 60 * 1000;
+        let cursor = Math.max(Math.floor(from / minute) + 1, Math.floor(to / minute) - maxMinutes + 1) * minute;
+        for (; cursor <= to; cursor += minute) {
+            if (this.matches(new Date(cursor))) {
+                return cursor;
+            }
+        }
+        return null;
+    }
+
+    private static parseField(field: string, [min, max]: [number, number], expression: string): Set<number> {
+        const values = new Set<number>();
+
+        for (const item of field.split(',')) {
+            const [rangePart, stepPart] = item.split('/');
+            const step = stepPart === undefined ? 1 : Number(stepPart);
+            let start: number;
+            let end: number;
+
+            if (rangePart === '*') {
+                start = min;
+                end = max;
+            } else if (rangePart!.includes('-')) {
+                const [a, b] = rangePart!.split('-');
+                start = Number(a);
+                end = Number(b);
+            } else {
+                start = Number(rangePart);
+                end = stepPart === undefined ? start : max;
+            }
+
+            if (![start, end, step].every(Number.isInteger) || step < 1 || start < min || end > max || start > end) {
+                throw new Error(`cron表达式无效: ${expression}（字段 "${field}" 超出范围 ${min}-${max}）`);
+            }
+
+            for (let value = start; value <= end; value += step) {
+                values.add(value);
+            }
+        }
+
+        return values;
+    }
+}
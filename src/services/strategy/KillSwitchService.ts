@@ -0,0 +1,393 @@
+/**
+ * 🚨 全局一键平仓（Kill Switch）
+ * 暂停全系统新资金投入，以紧急优先费用对所有运行中、以及暂停/出错但仍持有头寸的实例并发执行手动止损，
+ * 并汇总每个实例关闭的头寸、卖出的代币和失败项。暂停状态需要手动解除
+ */
+
+import { injectable, inject } from 'tsyringe';
+import fs from 'fs/promises';
+import path from 'path';
+import { ILoggerService, IConfigService, IEventBus, IGasService, TYPES } from '../../types/interfaces';
+import { IStrategyManager, StrategyInstance, StrategyStatus } from './StrategyManager';
+import { StopLossResult } from './StrategyRegistry';
+import { RiskBudgetService, DeploymentHalt } from './RiskBudgetService';
+
+// 一键平仓配置（config/default.json 的 killSwitch 节点）
+export interface KillSwitchConfig {
+    maxParallel: number;                 // 同时止损的实例数
+    strategyTypes: string[];             // 支持手动止损的策略类型
+}
+
+// 单个实例的平仓结果
+export interface KillSwitchInstanceResult {
+    instanceId: string;
+    name: string;
+    type: string;
+    mode: 'live' | 'paper';
+    poolAddress?: string;
+    status: 'pending' | 'success' | 'failed' | 'skipped';
+    closedPositions: StopLossResult['closedPositions'];
+    failedPositions: StopLossResult['failedPositions'];
+    swap?: StopLossResult['swap'];
+    error?: string;
+    startedAt?: number;
+    finishedAt?: number;
+    durationMs?: number;
+}
+
+// 汇总报告
+export interface KillSwitchReport {
+    id: string;
+    reason: string;
+    triggeredBy?: string;
+    status: 'running' | 'completed';
+    startedAt: number;
+    finishedAt?: number;
+    durationMs?: number;
+    priorityFee: number;                 // 本次使用的紧急优先费用（microlamports）
+    maxParallel: number;
+    summary: {
+        total: number;
+        succeeded: number;
+        failed: number;
+        skipped: number;
+        positionsClosed: number;
+        positionsFailed: number;
+        swapsExecuted: number;
+        swapsFailed: number;
+    };
+    instances: KillSwitchInstanceResult[];
+}
+
+export interface KillSwitchStatus {
+    halted: boolean;
+    halt: DeploymentHalt | null;
+    running: boolean;
+    currentReport: KillSwitchReport | null;
+    lastReport: KillSwitchReport | null;
+}
+
+@injectable()
+export class KillSwitchService {
+    private config: KillSwitchConfig;
+    private reports: KillSwitchReport[] = [];
+    private currentReport: KillSwitchReport | null = null;
+    private running = false;
+    private subscriptions: string[] = [];
+    private initialized = false;
+
+    private readonly reportsPath: string;
+
+    // 默认配置
+    private static readonly DEFAULT_CONFIG: KillSwitchConfig = {
+        maxParallel: 3,
+        strategyTypes: ['chain_position', 'simple-y', 'dual-position', 'price-trigger']
+    };
+    private static readonly REPORT_LIMIT = 20;
+
+    constructor(
+        @inject(TYPES.LoggerService) private logger: ILoggerService,
+        @inject(TYPES.ConfigService) private configService: IConfigService,
+        @inject(TYPES.EventBus) private eventBus: IEventBus,
+        @inject('IStrategyManager') private strategyManager: IStrategyManager,
+        @inject(TYPES.GasService) private gasService: IGasService,
+        @inject(TYPES.RiskBudgetService) private riskBudget: RiskBudgetService
+    ) {
+        this.config = { ...KillSwitchService.DEFAULT_CONFIG };
+        this.reportsPath = path.join(process.cwd(), 'data', 'kill-switch-reports.json');
+    }
+
+    /**
+     * 🚀 加载配置和历史报告，订阅Socket.IO转发的控制命令
+     */
+    async initialize(): Promise<void> {
+        if (this.initialized) return;
+        this.initialized = true;
+
+        this.config = { ...this.config, ...this.configService.get<Partial<KillSwitchConfig>>('killSwitch', {}) };
+        await this.loadReports();
+
+        const handlers: Record<string, (data: any) => Promise<unknown>> = {
+            'kill-switch.command.engage': data => this.engage({
+                ...(data?.reason && { reason: String(data.reason) }),
+                ...(data?.triggeredBy && { triggeredBy: String(data.triggeredBy) })
+            }),
+            'kill-switch.command.release': data => this.release(data?.triggeredBy)
+        };
+        for (const [eventType, handler] of Object.entries(handlers)) {
+            this.subscriptions.push(this.eventBus.subscribe(eventType, async (data: any) => {
+                try {
+                    await handler(data);
+                } catch (error) {
+                    await this.logger.logError('kill-switch', `[KillSwitch] 执行命令失败: ${eventType}`, error as Error);
+                    await this.eventBus.publish('kill-switch.update', {
+                        event: 'error',
+                        command: eventType,
+                        error: (error as Error).message
+                    }, 'KillSwitchService');
+                }
+            }));
+        }
+    }
+
+    async shutdown(): Promise<void> {
+        this.subscriptions.forEach(id => this.eventBus.unsubscribe(id));
+        this.subscriptions = [];
+        this.initialized = false;
+    }
+
+    /**
+     * 🚨 触发一键平仓
+     * 暂停新资金投入并激活紧急费用后立即返回运行中的报告，平仓在后台进行，
+     * 进度通过 kill-switch.update 事件推送。再次触发会重试未停止的实例（例如上次失败的）
+     */
+    async engage(options: { reason?: string; triggeredBy?: string } = {}): Promise<KillSwitchReport> {
+        await this.initialize();
+        if (this.running) {
+            throw new Error('一键平仓正在执行中');
+        }
+        this.running = true;
+
+        const reason = options.reason || '手动触发全局一键平仓';
+
+        // 先暂停新资金投入，避免列出实例后又有新实例启动或执行器重建头寸
+        let priorityFee: number;
+        try {
+            await this.riskBudget.haltDeployments(reason, options.triggeredBy);
+            priorityFee = await this.gasService.activateEmergencyMode();
+        } catch (error) {
+            this.gasService.deactivateEmergencyMode();
+            this.running = false;
+            throw error;
+        }
+
+        // 暂停（包括重启后等待恢复的）和出错的实例只要执行器状态中仍有头寸，同样需要平仓
+        const targets = this.strategyManager.listInstances().filter(item =>
+            item.status === StrategyStatus.RUNNING ||
+            (item.status !== StrategyStatus.STOPPED && this.strategyManager.getPositionAddresses(item.id).length > 0)
+        );
+        // 平仓期间和平仓失败后都不应自动恢复这些实例
+        for (const instance of targets) {
+            try {
+                await this.strategyManager.cancelAutoResume(instance.id, 'kill_switch');
+            } catch (error) {
+                await this.logger.logError('kill-switch', `[KillSwitch] 取消自动恢复失败: ${instance.id}`, error as Error);
+            }
+        }
+        const report: KillSwitchReport = {
+            id: `kill_${Date.now()}`,
+            reason,
+            ...(options.triggeredBy && { triggeredBy: options.triggeredBy }),
+            status: 'running',
+            startedAt: Date.now(),
+            priorityFee,
+            maxParallel: Math.max(1, Math.floor(this.config.maxParallel) || 1),
+            summary: {
+                total: targets.length,
+                succeeded: 0,
+                failed: 0,
+                skipped: 0,
+                positionsClosed: 0,
+                positionsFailed: 0,
+                swapsExecuted: 0,
+                swapsFailed: 0
+            },
+            instances: targets.map(instance => this.createInstanceResult(instance))
+        };
+        this.currentReport = report;
+
+        await this.logger.logBusinessOperation('🚨 全局一键平仓-开始', {
+            reportId: report.id,
+            reason,
+            triggeredBy: options.triggeredBy,
+            instances: targets.length,
+            maxParallel: report.maxParallel,
+            priorityFee
+        });
+        await this.publishUpdate(report);
+
+        this.unwindAll(report).catch(async error => {
+            await this.logger.logError('kill-switch', '[KillSwitch] 一键平仓执行异常', error as Error);
+        });
+
+        return this.cloneReport(report);
+    }
+
+    /**
+     * ▶️ 解除全局暂停，恢复新头寸创建（平仓进行中不允许解除）
+     */
+    async release(releasedBy?: string): Promise<void> {
+        if (this.running) {
+            throw new Error('一键平仓正在执行中，完成后才能解除暂停');
+        }
+        await this.riskBudget.resumeDeployments(releasedBy);
+        await this.eventBus.publish('kill-switch.update', { event: 'released', ...this.getStatus() }, 'KillSwitchService');
+    }
+
+    getStatus(): KillSwitchStatus {
+        const halt = this.riskBudget.getHalt();
+        const lastReport = this.reports[this.reports.length - 1];
+        return {
+            halted: halt !== null,
+            halt,
+            running: this.running,
+            currentReport: this.currentReport ? this.cloneReport(this.currentReport) : null,
+            lastReport: lastReport ? this.cloneReport(lastReport) : null
+        };
+    }
+
+    getReports(limit = 10): KillSwitchReport[] {
+        return this.reports.slice(-limit).reverse().map(report => this.cloneReport(report));
+    }
+
+    // ================== 内部方法 ==================
+
+    /**
+     * 按 maxParallel 并发处理所有实例
+     */
+    private async unwindAll(report: KillSwitchReport): Promise<void> {
+        try {
+            const queue = [...report.instances];
+            const workers = Array.from({ length: Math.min(report.maxParallel, queue.length) }, async () => {
+                let item = queue.shift();
+                while (item) {
+                    await this.unwindInstance(report, item);
+                    item = queue.shift();
+                }
+            });
+            await Promise.all(workers);
+        } finally {
+            this.gasService.deactivateEmergencyMode();
+
+            report.status = 'completed';
+            report.finishedAt = Date.now();
+            report.durationMs = report.finishedAt - report.startedAt;
+            this.currentReport = null;
+            this.running = false;
+            this.reports.push(report);
+            if (this.reports.length > KillSwitchService.REPORT_LIMIT) {
+                this.reports = this.reports.slice(-KillSwitchService.REPORT_LIMIT);
+            }
+
+            try {
+                await this.saveReports();
+            } catch (error) {
+                await this.logger.logError('kill-switch', '[KillSwitch] 平仓报告保存失败', error as Error);
+            }
+
+            await this.logger.logBusinessOperation('🚨 全局一键平仓-完成', {
+                reportId: report.id,
+                durationMs: report.durationMs,
+                ...report.summary
+            });
+            await this.publishUpdate(report);
+        }
+    }
+
+    /**
+     * 对单个实例执行手动止损，成功后停止实例；失败时保留实例状态以便再次触发时重试
+     */
+    private async unwindInstance(report: KillSwitchReport, item: KillSwitchInstanceResult): Promise<void> {
+        item.startedAt = Date.now();
+
+        if (!this.config.strategyTypes.includes(item.type)) {
+            item.status = 'skipped';
+            item.error = `策略类型 ${item.type} 不支持一键平仓`;
+        } else {
+            try {
+                const result = await this.strategyManager.executeManualStopLoss(item.instanceId);
+                item.closedPositions = result?.closedPositions || [];
+                item.failedPositions = result?.failedPositions || [];
+                if (result?.swap) item.swap = result.swap;
+
+                if (result && !result.success) {
+                    throw new Error(result.error || '止损未完成');
+                }
+
+                item.status = 'success';
+                try {
+                    await this.strategyManager.stopInstance(item.instanceId);
+                } catch (error) {
+                    await this.logger.logError('kill-switch', `[KillSwitch] 止损后停止实例失败: ${item.instanceId}`, error as Error);
+                }
+            } catch (error) {
+                item.status = 'failed';
+                item.error = error instanceof Error ? error.message : String(error);
+            }
+        }
+
+        item.finishedAt = Date.now();
+        item.durationMs = item.finishedAt - item.startedAt;
+        this.applyToSummary(report, item);
+
+        await this.logger.logBusinessOperation('🚨 全局一键平仓-实例处理完成', {
+            reportId: report.id,
+            instanceId: item.instanceId,
+            status: item.status,
+            closedPositions: item.closedPositions.length,
+            failedPositions: item.failedPositions.length,
+            swapped: !!item.swap && !item.swap.error,
+            error: item.error
+        });
+        await this.publishUpdate(report);
+    }
+
+    private applyToSummary(report: KillSwitchReport, item: KillSwitchInstanceResult): void {
+        const summary = report.summary;
+        if (item.status === 'success') summary.succeeded++;
+        if (item.status === 'failed') summary.failed++;
+        if (item.status === 'skipped') summary.skipped++;
+        summary.positionsClosed += item.closedPositions.length;
+        summary.positionsFailed += item.failedPositions.length;
+        if (item.swap) {
+            if (item.swap.error) {
+                summary.swapsFailed++;
+            } else {
+                summary.swapsExecuted++;
+            }
+        }
+    }
+
+    private createInstanceResult(instance: StrategyInstance): KillSwitchInstanceResult {
+        return {
+            instanceId: instance.id,
+            name: instance.name,
+            type: instance.type,
+            mode: instance.mode || 'live',
+            ...(instance.config?.poolAddress && { poolAddress: instance.config.poolAddress }),
+            status: 'pending',
+            closedPositions: [],
+            failedPositions: []
+        };
+    }
+
+    private async publishUpdate(report: KillSwitchReport): Promise<void> {
+        await this.eventBus.publish('kill-switch.update', {
+            event: report.status === 'completed' ? 'completed' : 'progress',
+            report: this.cloneReport(report)
+        }, 'KillSwitchService');
+    }
+
+    private cloneReport(report: KillSwitchReport): KillSwitchReport {
+        return JSON.parse(JSON.stringify(report));
+    }
+
+    private async loadReports(): Promise<void> {
+        try {
+            const content = await fs.readFile(this.reportsPath, 'utf-8');
+            this.reports = (JSON.parse(content) as { reports?: KillSwitchReport[] }).reports || [];
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                await this.logger.logError('kill-switch', '[KillSwitch] 平仓报告加载失败', error as Error);
+            }
+        }
+    }
+
+    private async saveReports(): Promise<void> {
+        await fs.mkdir(path.dirname(this.reportsPath), { recursive: true });
+
+        const tempPath = this.reportsPath + '.tmp';
+        await fs.writeFile(tempPath, JSON.stringify({ reports: this.reports, updatedAt: Date.now() }, null, 2), 'utf-8');
+        await fs.rename(tempPath, this.reportsPath);
+    }
+}
@@ -0,0 +1,602 @@
+/**
+ * 🛡️ 风险预算服务
+ * 跟踪每个策略实例（以及手动创建的头寸）占用的资金，按总部署资金、单实例、单池、单代币
+ * 和每日已实现亏损上限检查新的资金投入；超出任一上限时拒绝启动实例或创建头寸
+ * 全局一键平仓会暂停所有新的资金投入（不受 enabled 影响），直到手动解除
+ */
+
+import { injectable, inject } from 'tsyringe';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+    ILoggerService, IConfigService, IEventBus, IMeteoraService, IJupiterService, TYPES
+} from '../../types/interfaces';
+
+// 风险预算配置（config/default.json 的 riskBudget 节点，上限为0表示不限制）
+export interface RiskBudgetConfig {
+    enabled: boolean;
+    includePaperInstances: boolean;      // 模拟盘实例是否占用预算
+    maxTotalDeployedUsd: number;         // 全部已部署资金上限
+    maxInstanceUsd: number;              // 单个实例/头寸资金上限
+    maxPoolExposureUsd: number;          // 单池敞口上限
+    defaultTokenCapUsd: number;          // 单代币敞口默认上限（不适用于quoteMints）
+    tokenCaps: Record<string, number>;   // 按代币mint单独设置的敞口上限
+    quoteMints: string[];                // 计价代币（SOL/USDC等），未在tokenCaps中设置时不限制
+    dailyRealizedLossLimitUsd: number;   // 当日净已实现亏损上限
+}
+
+// 资金占用记录
+export interface RiskCommitment {
+    id: string;                          // 实例ID，手动头寸为 position:<地址>
+    kind: 'instance' | 'position';
+    instanceId?: string;
+    positionAddress?: string;
+    poolAddress: string;
+    tokenMints: string[];                // 池的X/Y代币，敞口同时计入两者
+    depositMint: string;                 // 投入资金的代币
+    amount: number;                      // 投入数量（depositMint单位）
+    priceUsd: number;                    // 占用时的代币价格
+    valueUsd: number;
+    committedAt: number;
+    lastNetPnL?: number;                 // 最近一次智能止损数据中的净盈亏（depositMint单位）
+}
+
+// 已实现盈亏记录
+export interface RealizedPnLRecord {
+    timestamp: number;
+    commitmentId: string;
+    poolAddress: string;
+    reason: string;
+    pnl: number;                         // depositMint单位
+    pnlUsd: number;
+}
+
+// 资金投入请求
+export interface RiskDeployRequest {
+    poolAddress: string;
+    amount: number;
+    side?: 'x' | 'y';                    // 投入X代币还是Y代币，默认Y
+}
+
+// 全局暂停新资金投入
+export interface DeploymentHalt {
+    reason: string;
+    haltedAt: number;
+    haltedBy?: string;
+}
+
+export interface RiskExposureItem {
+    key: string;
+    valueUsd: number;
+    capUsd: number;
+    utilizationPct: number;
+}
+
+// 预算使用情况
+export interface RiskBudgetUtilization {
+    enabled: boolean;
+    halt: DeploymentHalt | null;
+    total: RiskExposureItem & { commitments: number };
+    byPool: RiskExposureItem[];
+    byToken: RiskExposureItem[];
+    commitments: RiskCommitment[];
+    dailyLoss: {
+        day: string;
+        realizedPnlUsd: number;
+        lossUsd: number;
+        limitUsd: number;
+        utilizationPct: number;
+        limitReached: boolean;
+    };
+    timestamp: number;
+}
+
+interface RiskBudgetFile {
+    commitments: RiskCommitment[];
+    realized: RealizedPnLRecord[];
+    halt?: DeploymentHalt | null;
+    lastSaved: number;
+}
+
+@injectable()
+export class RiskBudgetService {
+    private config: RiskBudgetConfig;
+    private commitments: Map<string, RiskCommitment> = new Map();
+    private realized: RealizedPnLRecord[] = [];
+    private halt: DeploymentHalt | null = null;
+    private subscriptions: string[] = [];
+    private lock: Promise<unknown> = Promise.resolve();
+    private initialized = false;
+
+    private readonly filePath: string;
+
+    // 默认配置
+    private static readonly DEFAULT_CONFIG: RiskBudgetConfig = {
+        enabled: true,
+        includePaperInstances: false,
+        maxTotalDeployedUsd: 5000,
+        maxInstanceUsd: 1000,
+        maxPoolExposureUsd: 1500,
+        defaultTokenCapUsd: 1500,
+        tokenCaps: {},
+        quoteMints: [
+            'So11111111111111111111111111111111111111112',
+            'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+            'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB'
+        ],
+        dailyRealizedLossLimitUsd: 250
+    };
+    private static readonly REALIZED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+    // 执行器广播的这些停止原因表示头寸已平仓，净盈亏已实现
+    private static readonly EXIT_REASONS = [
+        'smart_stop_loss_completed',
+        'stop_loss_completed',
+        'price_limit_triggered',
+        'dynamic_recreation_switch_triggered'
+    ];
+
+    constructor(
+        @inject(TYPES.LoggerService) private logger: ILoggerService,
+        @inject(TYPES.ConfigService) private configService: IConfigService,
+        @inject(TYPES.EventBus) private eventBus: IEventBus,
+        @inject(TYPES.MeteoraService) private meteoraService: IMeteoraService,
+        @inject(TYPES.JupiterService) private jupiterService: IJupiterService
+    ) {
+        this.config = { ...RiskBudgetService.DEFAULT_CONFIG };
+        this.filePath = path.join(process.cwd(), 'data', 'risk-budget.json');
+    }
+
+    /**
+     * 🚀 加载配置和持久化的占用记录，订阅策略事件以跟踪已实现盈亏
+     */
+    async initialize(): Promise<void> {
+        if (this.initialized) return;
+
+        this.config = { ...this.config, ...this.configService.get<Partial<RiskBudgetConfig>>('riskBudget', {}) };
+        await this.load();
+
+        this.subscriptions.push(
+            this.eventBus.subscribe('strategy.smart-stop-loss.update', (data: any) => this.trackNetPnL(data)),
+            this.eventBus.subscribe('strategy.status.update', (data: any) => this.handleStatusUpdate(data)),
+            this.eventBus.subscribe('position:closed', (data: any) => this.handlePositionClosed(data))
+        );
+
+        this.initialized = true;
+        await this.logger.logSystem('INFO',
+            `[RiskBudget] 风险预算已${this.config.enabled ? '启用' : '禁用'} - 总上限: $${this.config.maxTotalDeployedUsd}, 单池: $${this.config.maxPoolExposureUsd}, 每日亏损: $${this.config.dailyRealizedLossLimitUsd}, 当前占用 ${this.commitments.size} 项`);
+        if (this.halt) {
+            await this.logger.logSystem('WARN', `[RiskBudget] 新资金投入仍处于暂停状态: ${this.halt.reason}`);
+        }
+    }
+
+    async shutdown(): Promise<void> {
+        this.subscriptions.forEach(id => this.eventBus.unsubscribe(id));
+        this.subscriptions = [];
+        this.initialized = false;
+    }
+
+    /**
+     * 🔒 为策略实例占用预算（已占用时直接返回）
+     */
+    async reserveInstance(instanceId: string, config: any, mode: 'live' | 'paper' = 'live'): Promise<void> {
+        this.assertDeploymentsAllowed();
+        if (mode === 'paper' && !this.config.includePaperInstances) return;
+
+        await this.withLock(async () => {
+            if (this.commitments.has(instanceId)) return;
+
+            const commitment = await this.buildCommitment(
+                instanceId,
+                { poolAddress: config.poolAddress, amount: Number(config.positionAmount), side: 'y' }
+            );
+            commitment.kind = 'instance';
+            commitment.instanceId = instanceId;
+
+            try {
+                this.assertWithinBudget(commitment);
+            } catch (error) {
+                await this.logger.logBusinessOperation('🛡️ 风险预算-拒绝启动', {
+                    instanceId,
+                    poolAddress: commitment.poolAddress,
+                    valueUsd: commitment.valueUsd,
+                    reason: (error as Error).message
+                });
+                throw error;
+            }
+            this.commitments.set(commitment.id, commitment);
+            await this.persist();
+
+            await this.logger.logBusinessOperation('🛡️ 风险预算-实例占用', {
+                instanceId,
+                poolAddress: commitment.poolAddress,
+                valueUsd: commitment.valueUsd
+            });
+        });
+        await this.publishUpdate('instance_reserved');
+    }
+
+    /**
+     * 🔍 手动创建头寸前检查预算（不占用）
+     */
+    async assertCanDeploy(request: RiskDeployRequest): Promise<void> {
+        this.assertDeploymentsAllowed();
+        await this.withLock(async () => {
+            const commitment = await this.buildCommitment('pending', request);
+            this.assertWithinBudget(commitment);
+        });
+    }
+
+    /**
+     * 🔒 记录手动创建的头寸（头寸关闭事件到达时释放）
+     * 头寸已经上链，记录失败只写日志，不影响创建结果
+     */
+    async commitPosition(positionAddress: string, request: RiskDeployRequest): Promise<void> {
+        try {
+            await this.withLock(async () => {
+                const commitment = await this.buildCommitment(`position:${positionAddress}`, request);
+                commitment.kind = 'position';
+                commitment.positionAddress = positionAddress;
+                this.commitments.set(commitment.id, commitment);
+                await this.persist();
+            });
+            await this.publishUpdate('position_committed');
+        } catch (error) {
+            await this.logger.logError('risk-budget', `[RiskBudget] 头寸占用记录失败: ${positionAddress}`, error as Error);
+        }
+    }
+
+    /**
+     * 🔓 释放占用（实例停止、删除或启动失败时调用）
+     */
+    async release(commitmentId: string, reason: string): Promise<void> {
+        const released = await this.withLock(async () => {
+            const commitment = this.commitments.get(commitmentId);
+            if (!commitment) return false;
+
+            this.commitments.delete(commitmentId);
+            await this.persist();
+            await this.logger.logBusinessOperation('🛡️ 风险预算-释放占用', {
+                commitmentId,
+                reason,
+                valueUsd: commitment.valueUsd
+            });
+            return true;
+        });
+        if (released) {
+            await this.publishUpdate(reason);
+        }
+    }
+
+    /**
+     * 🧹 启动时清理已不存在或未运行实例的占用
+     */
+    async reconcile(activeInstanceIds: string[]): Promise<void> {
+        const active = new Set(activeInstanceIds);
+        const stale = Array.from(this.commitments.values())
+            .filter(item => item.kind === 'instance' && !active.has(item.id))
+            .map(item => item.id);
+
+        for (const id of stale) {
+            await this.release(id, 'reconcile');
+        }
+    }
+
+    /**
+     * ⛔ 暂停所有新的资金投入（启动实例、手动建仓、执行器重建头寸）
+     */
+    async haltDeployments(reason: string, haltedBy?: string): Promise<void> {
+        this.halt = { reason, haltedAt: Date.now(), ...(haltedBy && { haltedBy }) };
+        await this.persist();
+        await this.logger.logBusinessOperation('⛔ 风险预算-暂停新资金投入', { ...this.halt });
+        await this.publishUpdate('deployments_halted');
+    }
+
+    /**
+     * ▶️ 解除暂停
+     */
+    async resumeDeployments(resumedBy?: string): Promise<void> {
+        if (!this.halt) return;
+
+        const halt = this.halt;
+        this.halt = null;
+        await this.persist();
+        await this.logger.logBusinessOperation('▶️ 风险预算-恢复新资金投入', {
+            haltReason: halt.reason,
+            haltedMinutes: Math.round((Date.now() - halt.haltedAt) / 60000),
+            ...(resumedBy && { resumedBy })
+        });
+        await this.publishUpdate('deployments_resumed');
+    }
+
+    getHalt(): DeploymentHalt | null {
+        return this.halt ? { ...this.halt } : null;
+    }
+
+    /**
+     * 🧵 同步主线程的暂停状态（策略工作线程使用，不持久化）
+     */
+    syncHalt(halt: DeploymentHalt | null): void {
+        this.halt = halt ? { ...halt } : null;
+    }
+
+    /**
+     * 暂停期间拒绝任何新头寸（头寸管理器创建前同步调用）
+     */
+    assertDeploymentsAllowed(): void {
+        if (this.halt) {
+            throw new Error(`新资金投入已暂停: ${this.halt.reason}`);
+        }
+    }
+
+    getConfig(): RiskBudgetConfig {
+        return { ...this.config, tokenCaps: { ...this.config.tokenCaps }, quoteMints: [...this.config.quoteMints] };
+    }
+
+    async updateConfig(config: Partial<RiskBudgetConfig>): Promise<RiskBudgetConfig> {
+        const numericKeys: (keyof RiskBudgetConfig)[] = [
+            'maxTotalDeployedUsd', 'maxInstanceUsd', 'maxPoolExposureUsd', 'defaultTokenCapUsd', 'dailyRealizedLossLimitUsd'
+        ];
+        for (const key of numericKeys) {
+            const value = config[key];
+            if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+                throw new Error(`${key} 必须是非负数（0表示不限制）`);
+            }
+        }
+        if (config.tokenCaps !== undefined &&
+            Object.values(config.tokenCaps).some(value => typeof value !== 'number' || value < 0)) {
+            throw new Error('tokenCaps 的值必须是非负数');
+        }
+        if (config.quoteMints !== undefined && !Array.isArray(config.quoteMints)) {
+            throw new Error('quoteMints 必须是数组');
+        }
+
+        this.config = { ...this.config, ...config };
+        await this.logger.logBusinessOperation('🛡️ 风险预算配置已更新', { config: this.config });
+        await this.publishUpdate('config_updated');
+        return this.getConfig();
+    }
+
+    /**
+     * 📊 当前预算使用情况
+     */
+    getUtilization(): RiskBudgetUtilization {
+        const commitments = Array.from(this.commitments.values());
+        const byPool = new Map<string, number>();
+        const byToken = new Map<string, number>();
+
+        for (const item of commitments) {
+            byPool.set(item.poolAddress, (byPool.get(item.poolAddress) || 0) + item.valueUsd);
+            for (const mint of item.tokenMints) {
+                byToken.set(mint, (byToken.get(mint) || 0) + item.valueUsd);
+            }
+        }
+
+        const totalValue = commitments.reduce((sum, item) => sum + item.valueUsd, 0);
+        const { realizedPnlUsd, lossUsd } = this.getDailyRealized();
+        const limitUsd = this.config.dailyRealizedLossLimitUsd;
+
+        return {
+            enabled: this.config.enabled,
+            halt: this.getHalt(),
+            total: { ...this.buildExposure('total', totalValue, this.config.maxTotalDeployedUsd), commitments: commitments.length },
+            byPool: Array.from(byPool.entries())
+                .map(([pool, value]) => this.buildExposure(pool, value, this.config.maxPoolExposureUsd))
+                .sort((a, b) => b.valueUsd - a.valueUsd),
+            byToken: Array.from(byToken.entries())
+                .map(([mint, value]) => this.buildExposure(mint, value, this.getTokenCap(mint)))
+                .sort((a, b) => b.valueUsd - a.valueUsd),
+            commitments,
+            dailyLoss: {
+                day: this.getDayKey(Date.now()),
+                realizedPnlUsd: this.round(realizedPnlUsd),
+                lossUsd: this.round(lossUsd),
+                limitUsd,
+                utilizationPct: limitUsd > 0 ? this.round(lossUsd / limitUsd * 100) : 0,
+                limitReached: limitUsd > 0 && lossUsd >= limitUsd
+            },
+            timestamp: Date.now()
+        };
+    }
+
+    getRealizedHistory(limit = 50): RealizedPnLRecord[] {
+        return this.realized.slice(-limit).reverse();
+    }
+
+    // ================== 内部方法 ==================
+
+    /**
+     * 检查新占用加上现有占用是否超出任一上限
+     */
+    private assertWithinBudget(candidate: RiskCommitment): void {
+        if (!this.config.enabled) return;
+
+        const { lossUsd } = this.getDailyRealized();
+        const lossLimit = this.config.dailyRealizedLossLimitUsd;
+        if (lossLimit > 0 && lossUsd >= lossLimit) {
+            throw new Error(`风险预算: 今日已实现亏损 $${lossUsd.toFixed(2)} 已达上限 $${lossLimit}，暂停新的资金投入`);
+        }
+
+        const value = candidate.valueUsd;
+        if (this.config.maxInstanceUsd > 0 && value > this.config.maxInstanceUsd) {
+            throw new Error(`风险预算: 投入 $${value.toFixed(2)} 超过单实例上限 $${this.config.maxInstanceUsd}`);
+        }
+
+        const existing = Array.from(this.commitments.values()).filter(item => item.id !== candidate.id);
+        const total = existing.reduce((sum, item) => sum + item.valueUsd, 0) + value;
+        if (this.config.maxTotalDeployedUsd > 0 && total > this.config.maxTotalDeployedUsd) {
+            throw new Error(`风险预算: 总部署资金将达到 $${total.toFixed(2)}，超过上限 $${this.config.maxTotalDeployedUsd}`);
+        }
+
+        const poolTotal = existing
+            .filter(item => item.poolAddress === candidate.poolAddress)
+            .reduce((sum, item) => sum + item.valueUsd, 0) + value;
+        if (this.config.maxPoolExposureUsd > 0 && poolTotal > this.config.maxPoolExposureUsd) {
+            throw new Error(`风险预算: 池 ${candidate.poolAddress.substring(0, 8)}... 敞口将达到 $${poolTotal.toFixed(2)}，超过上限 $${this.config.maxPoolExposureUsd}`);
+        }
+
+        for (const mint of candidate.tokenMints) {
+            const cap = this.getTokenCap(mint);
+            if (cap <= 0) continue;
+            const tokenTotal = existing
+                .filter(item => item.tokenMints.includes(mint))
+                .reduce((sum, item) => sum + item.valueUsd, 0) + value;
+            if (tokenTotal > cap) {
+                throw new Error(`风险预算: 代币 ${mint.substring(0, 8)}... 敞口将达到 $${tokenTotal.toFixed(2)}，超过上限 $${cap}`);
+            }
+        }
+    }
+
+    /**
+     * 按池信息和Jupiter价格估算投入资金的美元价值（价格不可用时拒绝，避免绕过上限）
+     */
+    private async buildCommitment(id: string, request: RiskDeployRequest): Promise<RiskCommitment> {
+        if (!request.poolAddress) {
+            throw new Error('风险预算: 缺少池地址');
+        }
+        if (!(request.amount > 0)) {
+            throw new Error(`风险预算: 投入数量无效: ${request.amount}`);
+        }
+
+        const poolInfo = await this.meteoraService.getPoolInfo(request.poolAddress);
+        const depositMint = request.side === 'x' ? poolInfo.tokenX : poolInfo.tokenY;
+        const priceUsd = await this.getPriceUsd(depositMint);
+        if (this.config.enabled && !(priceUsd > 0)) {
+            throw new Error(`风险预算: 无法获取代币价格 ${depositMint}，拒绝投入`);
+        }
+
+        return {
+            id,
+            kind: 'instance',
+            poolAddress: request.poolAddress,
+            tokenMints: [poolInfo.tokenX, poolInfo.tokenY],
+            depositMint,
+            amount: request.amount,
+            priceUsd,
+            valueUsd: this.round(request.amount * priceUsd),
+            committedAt: Date.now()
+        };
+    }
+
+    private async getPriceUsd(mint: string): Promise<number> {
+        try {
+            const prices = await this.jupiterService.getTokenPrices([mint]);
+            return prices[mint] || 0;
+        } catch {
+            return 0;
+        }
+    }
+
+    private trackNetPnL(data: any): void {
+        const commitment = data?.instanceId ? this.commitments.get(data.instanceId) : undefined;
+        const netPnL = Number(data?.marketData?.netPnL);
+        if (commitment && Number.isFinite(netPnL)) {
+            commitment.lastNetPnL = netPnL;
+        }
+    }
+
+    /**
+     * 执行器完成止损/平仓后，把最近的净盈亏计为已实现并释放占用
+     */
+    private async handleStatusUpdate(data: any): Promise<void> {
+        if (data?.status !== 'stopped' || !RiskBudgetService.EXIT_REASONS.includes(data.reason)) return;
+
+        const commitment = this.commitments.get(data.instanceId);
+        if (!commitment) return;
+
+        if (commitment.lastNetPnL !== undefined) {
+            const priceUsd = (await this.getPriceUsd(commitment.depositMint)) || commitment.priceUsd;
+            this.realized.push({
+                timestamp: Date.now(),
+                commitmentId: commitment.id,
+                poolAddress: commitment.poolAddress,
+                reason: data.reason,
+                pnl: commitment.lastNetPnL,
+                pnlUsd: this.round(commitment.lastNetPnL * priceUsd)
+            });
+            const cutoff = Date.now() - RiskBudgetService.REALIZED_RETENTION_MS;
+            this.realized = this.realized.filter(record => record.timestamp >= cutoff);
+        }
+
+        await this.release(commitment.id, data.reason);
+    }
+
+    private async handlePositionClosed(data: any): Promise<void> {
+        if (data?.positionAddress) {
+            await this.release(`position:${data.positionAddress}`, 'position_closed');
+        }
+    }
+
+    private getDailyRealized(): { realizedPnlUsd: number; lossUsd: number } {
+        const today = this.getDayKey(Date.now());
+        const realizedPnlUsd = this.realized
+            .filter(record => this.getDayKey(record.timestamp) === today)
+            .reduce((sum, record) => sum + record.pnlUsd, 0);
+        return { realizedPnlUsd, lossUsd: Math.max(-realizedPnlUsd, 0) };
+    }
+
+    private getTokenCap(mint: string): number {
+        if (this.config.tokenCaps[mint] !== undefined) {
+            return this.config.tokenCaps[mint]!;
+        }
+        return this.config.quoteMints.includes(mint) ? 0 : this.config.defaultTokenCapUsd;
+    }
+
+    private buildExposure(key: string, valueUsd: number, capUsd: number): RiskExposureItem {
+        return {
+            key,
+            valueUsd: this.round(valueUsd),
+            capUsd,
+            utilizationPct: capUsd > 0 ? this.round(valueUsd / capUsd * 100) : 0
+        };
+    }
+
+    private async publishUpdate(reason: string): Promise<void> {
+        await this.eventBus.publish('risk.budget.update', { reason, ...this.getUtilization() }, 'RiskBudgetService');
+    }
+
+    /**
+     * 串行执行检查和占用，避免并发启动同时通过检查
+     */
+    private withLock<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.lock.then(task, task);
+        this.lock = run.catch(() => undefined);
+        return run;
+    }
+
+    private getDayKey(timestamp: number): string {
+        const date = new Date(timestamp);
+        return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+
+    private async load(): Promise<void> {
+        try {
+            const content = await fs.readFile(this.filePath, 'utf-8');
+            const data = JSON.parse(content) as Partial<RiskBudgetFile>;
+            this.commitments = new Map((data.commitments || []).map(item => [item.id, item]));
+            this.realized = data.realized || [];
+            this.halt = data.halt || null;
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                await this.logger.logError('risk-budget', '[RiskBudget] 风险预算文件加载失败', error as Error);
+            }
+        }
+    }
+
+    private async persist(): Promise<void> {
+        const data: RiskBudgetFile = {
+            commitments: Array.from(this.commitments.values()),
+            realized: this.realized,
+            halt: this.halt,
+            lastSaved: Date.now()
+        };
+
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = this.filePath + '.tmp';
+        await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+        await fs.rename(tempPath, this.filePath);
+    }
+}
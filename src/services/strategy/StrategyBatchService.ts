@@ -0,0 +1,351 @@
+/**
+ * 📦 策略批量创建与克隆
+ * 以一份基础配置在多个池上批量创建实例（池列表或按合格池条件筛选），
+ * 每个池可单独覆盖投入金额和bin范围；全部校验通过后才创建，任一创建失败则回滚本批次已创建的实例。
+ * 可选按间隔依次启动，避免同时启动造成RPC和Gas峰值
+ */
+
+import { injectable, inject } from 'tsyringe';
+import { ILoggerService, IConfigService, TYPES } from '../../types/interfaces';
+import { QualifiedPoolRecord } from '../../types/pool-crawler-types';
+import { IStrategyManager, StrategyStatus } from './StrategyManager';
+import { QualifiedPoolsManager } from '../crawler/QualifiedPoolsManager';
+
+// 批量配置
+export interface StrategyBatchConfig {
+    maxItems: number;                // 单批次最多创建的实例数
+    defaultStartIntervalMs: number;  // 默认启动间隔（毫秒）
+}
+
+// 单个池（未提供的参数使用基础配置）
+export interface StrategyBatchPoolItem {
+    poolAddress: string;
+    name?: string;
+    positionAmount?: number;
+    binRange?: number;
+}
+
+// 合格池筛选条件
+export interface StrategyBatchPoolFilter {
+    status?: QualifiedPoolRecord['status'];
+    minScore?: number;
+    minLiquidity?: number;
+    minApr24h?: number;
+    limit?: number;                  // 按评分从高到低取前N个
+}
+
+// 批量创建请求
+export interface StrategyBatchRequest {
+    type: string;
+    name?: string;                   // 实例名称前缀
+    baseConfig: Record<string, any>;
+    pools?: StrategyBatchPoolItem[];
+    poolFilter?: StrategyBatchPoolFilter;
+    autoStart?: boolean;
+    startIntervalMs?: number;
+    createdBy?: string;
+}
+
+// 克隆请求（基础配置取自源实例，overrides 覆盖其中的字段；未指定池时克隆到源实例的池）
+export interface StrategyCloneRequest {
+    name?: string;
+    overrides?: Record<string, any>;
+    pools?: StrategyBatchPoolItem[];
+    poolFilter?: StrategyBatchPoolFilter;
+    autoStart?: boolean;
+    startIntervalMs?: number;
+    createdBy?: string;
+}
+
+/**
+ * 单项状态
+ * - created: 已创建
+ * - invalid: 配置校验失败（整批未创建）
+ * - failed: 创建失败（整批已回滚）
+ * - rolled_back: 已创建但因其他项失败被删除
+ * - skipped: 因其他项失败未创建
+ */
+export type StrategyBatchItemStatus = 'created' | 'invalid' | 'failed' | 'rolled_back' | 'skipped';
+
+export interface StrategyBatchItemResult {
+    index: number;
+    poolAddress: string;
+    name: string;
+    status: StrategyBatchItemStatus;
+    instanceId?: string;
+    error?: string;
+    startStatus?: 'pending' | 'started' | 'skipped' | 'failed';
+    startError?: string;
+    startedAt?: number;
+}
+
+export interface StrategyBatchResult {
+    batchId: string;
+    type: string;
+    success: boolean;                // 全部创建成功
+    createdAt: number;
+    createdBy?: string;
+    sourceInstanceId?: string;       // 克隆时的源实例
+    autoStart: boolean;
+    startIntervalMs: number;
+    startCompletedAt?: number;
+    items: StrategyBatchItemResult[];
+}
+
+interface ResolvedBatchItem {
+    poolAddress: string;
+    name: string;
+    config: Record<string, any>;
+}
+
+@injectable()
+export class StrategyBatchService {
+    private batches: Map<string, StrategyBatchResult> = new Map();
+
+    private static readonly DEFAULT_CONFIG: StrategyBatchConfig = {
+        maxItems: 50,
+        defaultStartIntervalMs: 15000
+    };
+    private static readonly BATCH_HISTORY_LIMIT = 50;
+
+    constructor(
+        @inject(TYPES.LoggerService) private logger: ILoggerService,
+        @inject(TYPES.ConfigService) private configService: IConfigService,
+        @inject('IStrategyManager') private strategyManager: IStrategyManager,
+        @inject('QualifiedPoolsManager') private qualifiedPoolsManager: QualifiedPoolsManager
+    ) { }
+
+    /**
+     * 📦 批量创建实例
+     */
+    async createBatch(request: StrategyBatchRequest, sourceInstanceId?: string): Promise<StrategyBatchResult> {
+        const config = this.getConfig();
+        const items = this.resolveItems(request);
+        if (items.length === 0) {
+            throw new Error('没有可创建的池：请提供池列表或筛选条件');
+        }
+        if (items.length > config.maxItems) {
+            throw new Error(`单批次最多创建 ${config.maxItems} 个实例，当前 ${items.length} 个`);
+        }
+
+        const autoStart = request.autoStart === true;
+        const startIntervalMs = Number.isFinite(request.startIntervalMs) ? Math.max(0, request.startIntervalMs!) : config.defaultStartIntervalMs;
+        const batch: StrategyBatchResult = {
+            batchId: `batch_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+            type: request.type,
+            success: false,
+            createdAt: Date.now(),
+            autoStart,
+            startIntervalMs,
+            items: items.map((item, index) => ({ index, poolAddress: item.poolAddress, name: item.name, status: 'skipped' })),
+            ...(request.createdBy && { createdBy: request.createdBy }),
+            ...(sourceInstanceId && { sourceInstanceId })
+        };
+
+        // 1️⃣ 先校验全部配置，有任何一项不通过则整批不创建
+        let allValid = true;
+        items.forEach((item, index) => {
+            const validation = this.strategyManager.validateConfig(request.type, item.config);
+            if (!validation.valid) {
+                allValid = false;
+                batch.items[index]!.status = 'invalid';
+                batch.items[index]!.error = validation.errors.join('; ');
+            }
+        });
+        if (!allValid) {
+            this.recordBatch(batch);
+            await this.logger.logSystem('WARN', `[StrategyBatch] 批量创建校验失败，未创建任何实例: ${batch.batchId}`);
+            return batch;
+        }
+
+        // 2️⃣ 依次创建，任一失败则回滚本批次已创建的实例
+        const created: string[] = [];
+        for (let index = 0; index < items.length; index++) {
+            const item = items[index]!;
+            const result = batch.items[index]!;
+            try {
+                const instanceId = await this.strategyManager.createInstance(request.type, item.name, item.config);
+                created.push(instanceId);
+                result.status = 'created';
+                result.instanceId = instanceId;
+            } catch (error) {
+                result.status = 'failed';
+                result.error = (error as Error).message;
+                await this.rollback(batch, created);
+                this.recordBatch(batch);
+                return batch;
+            }
+        }
+
+        batch.success = true;
+        if (autoStart) {
+            batch.items.forEach(item => item.startStatus = 'pending');
+        }
+        this.recordBatch(batch);
+
+        await this.logger.logBusinessOperation('📦 批量创建策略', {
+            batchId: batch.batchId,
+            type: request.type,
+            count: created.length,
+            sourceInstanceId,
+            autoStart,
+            startIntervalMs
+        });
+
+        // 3️⃣ 后台按间隔依次启动，进度通过 getBatch 查询
+        if (autoStart) {
+            this.startStaggered(batch).catch(async error => {
+                await this.logger.logError('strategy-batch', `[StrategyBatch] 批量启动异常: ${batch.batchId}`, error as Error);
+            });
+        }
+
+        return batch;
+    }
+
+    /**
+     * 🧬 克隆实例（可克隆到多个池）
+     */
+    async cloneInstance(instanceId: string, request: StrategyCloneRequest): Promise<StrategyBatchResult> {
+        const source = this.strategyManager.getInstance(instanceId);
+        if (!source) {
+            throw new Error(`策略实例不存在: ${instanceId}`);
+        }
+
+        const hasTargets = (request.pools && request.pools.length > 0) || request.poolFilter;
+        const batchRequest: StrategyBatchRequest = {
+            type: source.type,
+            name: request.name || `${source.name} 副本`,
+            baseConfig: { ...source.config, ...(request.overrides || {}) },
+            pools: hasTargets ? (request.pools || []) : [{ poolAddress: source.config.poolAddress, name: request.name || `${source.name} 副本` }],
+            ...(request.poolFilter && { poolFilter: request.poolFilter }),
+            ...(request.autoStart !== undefined && { autoStart: request.autoStart }),
+            ...(request.startIntervalMs !== undefined && { startIntervalMs: request.startIntervalMs }),
+            ...(request.createdBy && { createdBy: request.createdBy })
+        };
+
+        return this.createBatch(batchRequest, instanceId);
+    }
+
+    getBatch(batchId: string): StrategyBatchResult | null {
+        return this.batches.get(batchId) || null;
+    }
+
+    listBatches(limit = 20): StrategyBatchResult[] {
+        return Array.from(this.batches.values()).slice(-limit).reverse();
+    }
+
+    /**
+     * 展开池列表和筛选条件（按池地址去重，显式列出的池优先）
+     */
+    private resolveItems(request: StrategyBatchRequest): ResolvedBatchItem[] {
+        const prefix = request.name || request.type;
+        const baseConfig = request.baseConfig || {};
+        const items: ResolvedBatchItem[] = [];
+        const seen = new Set<string>();
+
+        const addItem = (pool: StrategyBatchPoolItem, label: string) => {
+            if (!pool || typeof pool.poolAddress !== 'string' || !pool.poolAddress) {
+                throw new Error(`第 ${items.length + 1} 个池缺少 poolAddress`);
+            }
+            if (seen.has(pool.poolAddress)) {
+                return;
+            }
+            seen.add(pool.poolAddress);
+
+            items.push({
+                poolAddress: pool.poolAddress,
+                name: pool.name || `${prefix} ${label}`,
+                config: {
+                    ...baseConfig,
+                    poolAddress: pool.poolAddress,
+                    ...(pool.positionAmount !== undefined && { positionAmount: pool.positionAmount }),
+                    ...(pool.binRange !== undefined && { binRange: pool.binRange })
+                }
+            });
+        };
+
+        for (const pool of request.pools || []) {
+            addItem(pool, pool?.poolAddress?.substring(0, 6) || '');
+        }
+        if (request.poolFilter) {
+            for (const record of this.filterQualifiedPools(request.poolFilter)) {
+                addItem({ poolAddress: record.poolData.poolAddress }, record.poolData.tokenPair);
+            }
+        }
+
+        return items;
+    }
+
+    private filterQualifiedPools(filter: StrategyBatchPoolFilter): QualifiedPoolRecord[] {
+        const pools = this.qualifiedPoolsManager.getAllPools()
+            .filter(record => record.status !== 'ignored')
+            .filter(record => !filter.status || record.status === filter.status)
+            .filter(record => filter.minScore === undefined || record.poolData.score >= filter.minScore)
+            .filter(record => filter.minLiquidity === undefined || record.poolData.liquidity >= filter.minLiquidity)
+            .filter(record => filter.minApr24h === undefined || record.poolData.apr['24h'] >= filter.minApr24h)
+            .sort((a, b) => b.poolData.score - a.poolData.score);
+
+        return filter.limit && filter.limit > 0 ? pools.slice(0, filter.limit) : pools;
+    }
+
+    private async rollback(batch: StrategyBatchResult, created: string[]): Promise<void> {
+        for (const instanceId of created) {
+            const item = batch.items.find(i => i.instanceId === instanceId)!;
+            try {
+                await this.strategyManager.deleteInstance(instanceId);
+                item.status = 'rolled_back';
+                delete item.instanceId;
+            } catch (error) {
+                // 删除失败时保留实例ID，便于手动清理
+                item.error = `回滚失败: ${(error as Error).message}`;
+            }
+        }
+
+        await this.logger.logSystem('WARN', `[StrategyBatch] 批量创建失败，已回滚 ${created.length} 个实例: ${batch.batchId}`);
+    }
+
+    /**
+     * 按间隔依次启动（实例已被删除或已不是新建状态时跳过）
+     */
+    private async startStaggered(batch: StrategyBatchResult): Promise<void> {
+        for (let index = 0; index < batch.items.length; index++) {
+            const item = batch.items[index]!;
+            if (index > 0 && batch.startIntervalMs > 0) {
+                await new Promise(resolve => setTimeout(resolve, batch.startIntervalMs));
+            }
+
+            const instance = item.instanceId ? this.strategyManager.getInstance(item.instanceId) : null;
+            if (!instance || instance.status !== StrategyStatus.CREATED) {
+                item.startStatus = 'skipped';
+                continue;
+            }
+
+            try {
+                await this.strategyManager.startInstance(instance.id);
+                item.startStatus = 'started';
+                item.startedAt = Date.now();
+            } catch (error) {
+                item.startStatus = 'failed';
+                item.startError = (error as Error).message;
+            }
+        }
+
+        batch.startCompletedAt = Date.now();
+        const started = batch.items.filter(item => item.startStatus === 'started').length;
+        await this.logger.logSystem('INFO', `[StrategyBatch] 批量启动完成: ${batch.batchId} (${started}/${batch.items.length})`);
+    }
+
+    private recordBatch(batch: StrategyBatchResult): void {
+        this.batches.set(batch.batchId, batch);
+        while (this.batches.size > StrategyBatchService.BATCH_HISTORY_LIMIT) {
+            this.batches.delete(this.batches.keys().next().value!);
+        }
+    }
+
+    private getConfig(): StrategyBatchConfig {
+        return {
+            ...StrategyBatchService.DEFAULT_CONFIG,
+            ...this.configService.get<Partial<StrategyBatchConfig>>('strategy.batch', {})
+        };
+    }
+}
@@ -0,0 +1,229 @@
+/**
+ * 📊 策略分组报告
+ * 汇总分组内实例的盈亏、已提取收益、投入资金和健康状态，
+ * 定期通过事件总线发布（Socket.IO 转发到各分组房间），成员状态变化时立即转发
+ */
+
+import { injectable, inject } from 'tsyringe';
+import { ILoggerService, IConfigService, IEventBus, TYPES } from '../../types/interfaces';
+import { StrategyGroup, StrategyGroupMemberReport, StrategyGroupReport } from '../../types/strategy';
+import { IStrategyManager, StrategyInstance, StrategyStatus } from './StrategyManager';
+import { StrategyHealthChecker } from './StrategyHealthChecker';
+import { InstanceAwareServiceFactory } from '../business/InstanceAwareServiceFactory';
+
+// 报告配置
+export interface StrategyGroupReportConfig {
+    reportInterval: number;          // 推送间隔（毫秒）
+    maxDataAgeMs: number;            // 缓存的盈亏数据超过该时长时重新向分析服务查询
+}
+
+// 实例最近一次盈亏数据（来自分析服务）
+interface InstanceMarketSnapshot {
+    positionValue: number;
+    initialInvestment?: number;
+    netPnL: number;
+    netPnLPercentage: number;
+    extractedYield: number;
+    pendingYield: number;
+    updatedAt: number;
+}
+
+@injectable()
+export class StrategyGroupReporter {
+    private config: StrategyGroupReportConfig;
+    private snapshots: Map<string, InstanceMarketSnapshot> = new Map();
+    private subscriptions: string[] = [];
+    private reportTimer: NodeJS.Timeout | null = null;
+    private isReporting = false;
+
+    private static readonly DEFAULT_CONFIG: StrategyGroupReportConfig = {
+        reportInterval: 60000,
+        maxDataAgeMs: 300000
+    };
+
+    constructor(
+        @inject(TYPES.LoggerService) private logger: ILoggerService,
+        @inject(TYPES.ConfigService) private configService: IConfigService,
+        @inject(TYPES.EventBus) private eventBus: IEventBus,
+        @inject('IStrategyManager') private strategyManager: IStrategyManager,
+        @inject(TYPES.StrategyHealthChecker) private healthChecker: StrategyHealthChecker,
+        @inject(InstanceAwareServiceFactory) private serviceFactory: InstanceAwareServiceFactory
+    ) {
+        this.config = { ...StrategyGroupReporter.DEFAULT_CONFIG };
+    }
+
+    async start(): Promise<void> {
+        if (this.reportTimer) return;
+
+        this.config = {
+            ...StrategyGroupReporter.DEFAULT_CONFIG,
+            ...this.configService.get<Partial<StrategyGroupReportConfig>>('strategy.groups', {})
+        };
+
+        // 执行器每个监控周期广播的智能止损数据包含分析服务计算的盈亏，直接缓存避免重复查询
+        this.subscriptions.push(
+            this.eventBus.subscribe('strategy.smart-stop-loss.update', (data: any) => this.cacheMarketData(data)),
+            this.eventBus.subscribe('strategy.status.update', (data: any) => this.forwardStatusUpdate(data))
+        );
+
+        this.reportTimer = setInterval(async () => {
+            try {
+                await this.publishReports();
+            } catch (error) {
+                await this.logger.logError('strategy-group-reporter', '[StrategyGroupReporter] 推送分组报告失败', error as Error);
+            }
+        }, this.config.reportInterval);
+
+        await this.logger.logSystem('INFO', `[StrategyGroupReporter] 分组报告已启动，推送间隔 ${this.config.reportInterval / 1000}s`);
+    }
+
+    async stop(): Promise<void> {
+        if (this.reportTimer) {
+            clearInterval(this.reportTimer);
+            this.reportTimer = null;
+        }
+        this.subscriptions.forEach(id => this.eventBus.unsubscribe(id));
+        this.subscriptions = [];
+    }
+
+    /**
+     * 📊 生成分组报告
+     */
+    async getGroupReport(groupId: string): Promise<StrategyGroupReport> {
+        const group = this.strategyManager.getGroup(groupId);
+        if (!group) {
+            throw new Error(`策略分组不存在: ${groupId}`);
+        }
+        return this.buildReport(group);
+    }
+
+    private async buildReport(group: StrategyGroup): Promise<StrategyGroupReport> {
+        const members: StrategyGroupMemberReport[] = [];
+        for (const instanceId of group.instanceIds) {
+            const instance = this.strategyManager.getInstance(instanceId);
+            if (instance) {
+                members.push(await this.buildMemberReport(instance));
+            }
+        }
+
+        const sum = (values: (number | undefined)[]) => values.reduce<number>((total, value) => total + (value || 0), 0);
+        const capitalDeployed = sum(members.map(m => m.capitalDeployed));
+        const netPnL = sum(members.map(m => m.netPnL));
+        const byStatus: Record<string, number> = {};
+        const health: StrategyGroupReport['health'] = { healthy: 0, warning: 0, critical: 0, error: 0, unknown: 0 };
+        for (const member of members) {
+            byStatus[member.status] = (byStatus[member.status] || 0) + 1;
+            health[member.health]++;
+        }
+
+        return {
+            groupId: group.id,
+            name: group.name,
+            generatedAt: Date.now(),
+            totals: {
+                instances: members.length,
+                byStatus,
+                capitalDeployed,
+                positionValue: sum(members.map(m => m.positionValue)),
+                netPnL,
+                netPnLPercentage: capitalDeployed > 0 ? netPnL / capitalDeployed * 100 : 0,
+                extractedYield: sum(members.map(m => m.extractedYield)),
+                pendingYield: sum(members.map(m => m.pendingYield))
+            },
+            health,
+            members
+        };
+    }
+
+    private async buildMemberReport(instance: StrategyInstance): Promise<StrategyGroupMemberReport> {
+        const active = instance.status === StrategyStatus.RUNNING || instance.status === StrategyStatus.PAUSED;
+        const snapshot = active ? await this.getMarketSnapshot(instance.id) : this.snapshots.get(instance.id);
+
+        const history = this.healthChecker.getInstanceHistory(instance.id);
+        const lastHealth = history.length > 0 ? history[history.length - 1]! : null;
+
+        return {
+            instanceId: instance.id,
+            name: instance.name,
+            type: instance.type,
+            status: instance.status,
+            ...(instance.mode && { mode: instance.mode }),
+            capitalDeployed: active ? (snapshot?.initialInvestment ?? (Number(instance.config?.positionAmount) || 0)) : 0,
+            ...(snapshot && {
+                positionValue: snapshot.positionValue,
+                netPnL: snapshot.netPnL,
+                netPnLPercentage: snapshot.netPnLPercentage,
+                extractedYield: snapshot.extractedYield,
+                pendingYield: snapshot.pendingYield,
+                dataUpdatedAt: snapshot.updatedAt
+            }),
+            health: lastHealth ? lastHealth.status : 'unknown',
+            healthIssues: lastHealth ? lastHealth.issues.length : 0
+        };
+    }
+
+    /**
+     * 优先使用缓存，缓存缺失或过期时向实例的分析服务查询
+     */
+    private async getMarketSnapshot(instanceId: string): Promise<InstanceMarketSnapshot | undefined> {
+        const cached = this.snapshots.get(instanceId);
+        if (cached && Date.now() - cached.updatedAt <= this.config.maxDataAgeMs) {
+            return cached;
+        }
+
+        const analytics = this.serviceFactory.getInstanceContainer(instanceId)?.positionAnalyticsService;
+        if (!analytics) {
+            return cached;
+        }
+
+        try {
+            const marketData = await analytics.getSmartStopLossData('StrategyGroupReporter');
+            this.cacheMarketData({ instanceId, marketData });
+            return this.snapshots.get(instanceId);
+        } catch (error) {
+            await this.logger.logError('strategy-group-reporter', `[StrategyGroupReporter] 获取实例盈亏数据失败: ${instanceId}`, error as Error);
+            return cached;
+        }
+    }
+
+    private cacheMarketData(data: any): void {
+        const marketData = data?.marketData;
+        if (!data?.instanceId || !marketData || !Number.isFinite(Number(marketData.netPnL))) return;
+
+        const initialInvestment = Number(marketData.initialInvestment);
+        this.snapshots.set(data.instanceId, {
+            positionValue: Number(marketData.positionValue) || 0,
+            ...(Number.isFinite(initialInvestment) && initialInvestment > 0 && { initialInvestment }),
+            netPnL: Number(marketData.netPnL),
+            netPnLPercentage: Number(marketData.netPnLPercentage) || 0,
+            extractedYield: parseFloat(marketData.totalExtractedYield) || 0,
+            pendingYield: parseFloat(marketData.currentPendingYield) || 0,
+            updatedAt: Date.now()
+        });
+    }
+
+    /**
+     * 成员实例状态变化时转发到所属分组
+     */
+    private async forwardStatusUpdate(data: any): Promise<void> {
+        if (!data?.instanceId) return;
+
+        for (const group of this.strategyManager.getInstanceGroups(data.instanceId)) {
+            await this.eventBus.publish('strategy.group.status', { groupId: group.id, ...data });
+        }
+    }
+
+    private async publishReports(): Promise<void> {
+        if (this.isReporting) return;
+        this.isReporting = true;
+
+        try {
+            for (const group of this.strategyManager.listGroups()) {
+                const report = await this.buildReport(group);
+                await this.eventBus.publish('strategy.group.report', report);
+            }
+        } finally {
+            this.isReporting = false;
+        }
+    }
+}
@@ -1,20 +1,40 @@
 import 'reflect-metadata';
 import { injectable, inject } from 'tsyringe';
-import { TYPES, ILoggerService } from '../../types/interfaces';
-import { StrategyRegistry } from './StrategyRegistry';
-import { StrategyScheduler } from './StrategyScheduler';
+import { TYPES, ILoggerService, IConfigService, IEventBus, IWalletService } from '../../types/interfaces';
+import { StrategyRegistry, StopLossResult, RecoveryResult, IStrategyExecutor } from './StrategyRegistry';
+import { StrategyScheduler, StrategyTriggerInput } from './StrategyScheduler';
 import { StrategyStorage } from './storage/StrategyStorage';
+import { StrategyJournal, StrategyJournalEntry } from './storage/StrategyJournal';
+import { StrategyConfigHistory } from './storage/StrategyConfigHistory';
+import { StrategyGroupStorage } from './storage/StrategyGroupStorage';
+import { PaperTradingService } from '../business/PaperTradingService';
+import { RiskBudgetService } from './RiskBudgetService';
+import { StrategyPerformanceService } from './StrategyPerformanceService';
+import { StrategyWorkerPool } from './isolation/StrategyWorkerPool';
+import { TradingMode, PaperAccountSummary } from '../../types/paper-trading-types';
+import { StrategyTemplate, StrategyValidationResult, StrategyConfigChange, StrategyConfigVersion, StrategyConfigUpdateResult, StrategyTrigger, StrategyTriggerStatus,
+    StrategyGroup, StrategyGroupOperation, StrategyGroupOperationResult, StrategyPerformanceMetrics, StrategyOperationPage, StrategyOperationType,
+    StrategyAutoResumeConfig, StrategyAutoResumeResult, StrategyAutoResumeReport
+} from '../../types/strategy';
 
 export interface StrategyInstance {
     id: string;
     type: string;
     name: string;
     config: any;
+    mode?: TradingMode;     // 交易模式，缺省为live
     status: StrategyStatus;
     createdAt: Date;
     startedAt?: Date;
     stoppedAt?: Date;
     error?: string;
+    autoResume?: boolean;         // 重启后暂停的实例在钱包解锁时自动恢复
+    autoResumePending?: boolean;  // 重启时已暂停，等待钱包解锁后自动恢复
+    recovery?: {            // 最近一次崩溃恢复/暂停恢复的结果
+        status: RecoveryResult['status'];
+        reason: string;
+        at: number;
+    };
 }
 
 export enum StrategyStatus {
@@ -33,13 +53,42 @@ export interface IStrategyManager {
     pauseInstance(instanceId: string): Promise<void>;
     resumeInstance(instanceId: string): Promise<void>;
     deleteInstance(instanceId: string): Promise<void>;
-    executeManualStopLoss(instanceId: string): Promise<void>;
-    updateInstanceConfig(instanceId: string, config: any): Promise<void>;
+    executeManualStopLoss(instanceId: string): Promise<StopLossResult>;
+    updateInstanceConfig(instanceId: string, config: any, updatedBy?: string): Promise<StrategyConfigUpdateResult>;
+    previewConfigUpdate(instanceId: string, config: any): StrategyConfigChange[];
+    rollbackConfig(instanceId: string, version: number, updatedBy?: string): Promise<StrategyConfigUpdateResult>;
+    getConfigVersions(instanceId: string): Promise<StrategyConfigVersion[]>;
+    setAutoResume(instanceId: string, enabled: boolean): Promise<StrategyInstance>;
+    cancelAutoResume(instanceId: string, reason: string): Promise<void>;
+
+    // 触发器（定时/条件启停）
+    addTrigger(input: StrategyTriggerInput): Promise<StrategyTrigger>;
+    listTriggers(filter?: { instanceId?: string; status?: StrategyTriggerStatus }): StrategyTrigger[];
+    cancelTrigger(triggerId: string): Promise<StrategyTrigger>;
+
+    // 策略分组
+    createGroup(name: string, options?: { description?: string; instanceIds?: string[] }): Promise<StrategyGroup>;
+    updateGroup(groupId: string, updates: { name?: string; description?: string }): Promise<StrategyGroup>;
+    deleteGroup(groupId: string): Promise<void>;
+    addInstancesToGroup(groupId: string, instanceIds: string[]): Promise<StrategyGroup>;
+    removeInstancesFromGroup(groupId: string, instanceIds: string[]): Promise<StrategyGroup>;
+    getGroup(groupId: string): StrategyGroup | null;
+    listGroups(): StrategyGroup[];
+    getInstanceGroups(instanceId: string): StrategyGroup[];
+    executeGroupOperation(groupId: string, operation: StrategyGroupOperation): Promise<StrategyGroupOperationResult>;
 
     // 查询接口
     getInstance(instanceId: string): StrategyInstance | null;
     listInstances(): StrategyInstance[];
     getInstanceStatus(instanceId: string): StrategyStatus | null;
+    getPositionAddresses(instanceId: string): string[];
+    getPaperAccount(instanceId: string): Promise<PaperAccountSummary>;
+    getJournal(instanceId: string, limit?: number): Promise<StrategyJournalEntry[]>;
+    getPerformance(instanceId: string): Promise<StrategyPerformanceMetrics>;
+    getOperationHistory(instanceId: string, options?: { page?: number; pageSize?: number; type?: StrategyOperationType }): Promise<StrategyOperationPage>;
+    getAutoResumeReport(): StrategyAutoResumeReport | null;
+    getTemplates(): StrategyTemplate[];
+    validateConfig(type: string, config: any): StrategyValidationResult;
 
     // 系统管理
     initialize(): Promise<void>;
@@ -49,14 +98,27 @@ export interface IStrategyManager {
 @injectable()
 export class StrategyManager implements IStrategyManager {
     private instances: Map<string, StrategyInstance> = new Map();
+    private groups: Map<string, StrategyGroup> = new Map();
     private creatingStrategies: Map<string, boolean> = new Map(); // 🔒 防重复创建标记
     private isInitialized = false;
+    private autoResumeRunning = false;
+    private lastAutoResumeReport: StrategyAutoResumeReport | null = null;
 
     constructor(
         @inject(TYPES.LoggerService) private logger: ILoggerService,
         @inject(TYPES.StrategyRegistry) private registry: StrategyRegistry,
         @inject(TYPES.StrategyScheduler) private scheduler: StrategyScheduler,
-        @inject(TYPES.StrategyStorage) private storage: StrategyStorage
+        @inject(TYPES.StrategyStorage) private storage: StrategyStorage,
+        @inject(PaperTradingService) private paperTradingService: PaperTradingService,
+        @inject(TYPES.RiskBudgetService) private riskBudget: RiskBudgetService,
+        @inject(TYPES.StrategyJournal) private journal: StrategyJournal,
+        @inject(TYPES.ConfigService) private configService: IConfigService,
+        @inject(TYPES.StrategyConfigHistory) private configHistory: StrategyConfigHistory,
+        @inject(TYPES.StrategyGroupStorage) private groupStorage: StrategyGroupStorage,
+        @inject(TYPES.StrategyPerformanceService) private performance: StrategyPerformanceService,
+        @inject(TYPES.StrategyWorkerPool) private workerPool: StrategyWorkerPool,
+        @inject(TYPES.EventBus) private eventBus: IEventBus,
+        @inject(TYPES.WalletService) private walletService: IWalletService
     ) { }
 
     async initialize(): Promise<void> {
@@ -72,11 +134,33 @@ export class StrategyManager implements IStrategyManager {
             this.scheduler.setGetInstanceCallback((instanceId: string) => {
                 return this.instances.get(instanceId) || null;
             });
+            this.scheduler.setTriggerActionCallback(async (trigger: StrategyTrigger) => {
+                await this.journal.append(trigger.instanceId, 'status', 'trigger_fired', {
+                    triggerId: trigger.id,
+                    action: trigger.action,
+                    condition: trigger.condition
+                });
+                if (trigger.action === 'start') {
+                    await this.startInstance(trigger.instanceId);
+                } else {
+                    await this.stopInstance(trigger.instanceId);
+                }
+            });
+
+            // 🧵 工作线程隔离：替换注册表中的执行器，必须在设置实例配置之前
+            this.workerPool.setStopInstanceCallback(instanceId => this.stopInstance(instanceId));
+            this.workerPool.setWorkerFailureCallback((instanceIds, reason) => this.handleWorkerFailure(instanceIds, reason));
+            await this.workerPool.initialize();
 
             // 加载已存在的策略实例
+            await this.journal.initialize();
+            await this.configHistory.initialize();
+            const recoveryEnabled = this.configService.get<boolean>('strategy.recovery.enabled', true);
+            const interruptedInstances: StrategyInstance[] = [];
             const savedInstances = await this.storage.loadInstances();
             for (const instance of savedInstances) {
                 this.instances.set(instance.id, instance);
+                this.registerTradingMode(instance);
 
                 // 重新设置执行器的实例配置（重要！）
                 const executor = this.registry.getExecutor(instance.type);
@@ -84,19 +168,52 @@ export class StrategyManager implements IStrategyManager {
                     (executor as any).setInstanceConfig(instance.id, instance.config);
                 }
 
-                // 如果实例之前在运行，暂停它们等待用户手动启动（避免钱包未解锁问题）
+                // 如果实例之前在运行：支持崩溃恢复的执行器在调度器启动后尝试接管链上头寸，
+                // 其余实例暂停等待用户手动启动（避免钱包未解锁问题）
                 if (instance.status === StrategyStatus.RUNNING) {
-                    instance.status = StrategyStatus.PAUSED;
-                    await this.storage.saveInstance(instance);
-                    await this.logger.logSystem('INFO', `[StrategyManager] 策略实例已暂停等待手动启动: ${instance.id}`);
+                    if (recoveryEnabled && executor && this.supportsRecovery(executor)) {
+                        interruptedInstances.push(instance);
+                        continue;
+                    }
+                    await this.pauseForRestart(instance);
                 }
             }
 
+            // 加载策略分组（移除已不存在的实例）
+            for (const group of await this.groupStorage.loadGroups()) {
+                group.instanceIds = group.instanceIds.filter(id => this.instances.has(id));
+                this.groups.set(group.id, group);
+            }
+
+            // 风险预算：只保留运行中和暂停实例的资金占用
+            await this.riskBudget.initialize();
+            await this.riskBudget.reconcile(
+                Array.from(this.instances.values())
+                    .filter(instance => instance.status === StrategyStatus.RUNNING || instance.status === StrategyStatus.PAUSED)
+                    .map(instance => instance.id)
+            );
+
+            // 操作历史：在恢复实例之前订阅止损和盈亏事件
+            await this.performance.initialize();
+
             // 启动调度器
             await this.scheduler.start();
 
+            // ♻️ 崩溃恢复：逐个接管中断前运行中的实例
+            for (const instance of interruptedInstances) {
+                await this.recoverInterruptedInstance(instance);
+            }
+
             this.isInitialized = true;
             await this.logger.logSystem('INFO', `[StrategyManager] 策略管理器初始化完成，加载 ${this.instances.size} 个实例`);
+
+            // 🔓 钱包解锁后自动恢复重启时暂停的实例（钱包已解锁时立即开始）
+            this.walletService.setUnlockCallback(() => this.runAutoResume());
+            if (this.walletService.isWalletUnlocked()) {
+                this.runAutoResume().catch(error =>
+                    this.logger.logError('strategy-manager', '[StrategyManager] 自动恢复失败', error as Error)
+                );
+            }
         } catch (error) {
             await this.logger.logError('strategy-manager', '[StrategyManager] 初始化失败', error as Error);
             throw error;
@@ -121,6 +238,12 @@ export class StrategyManager implements IStrategyManager {
                 throw new Error(`不支持的策略类型: ${type}`);
             }
 
+            // 按执行器声明的参数Schema校验配置
+            this.assertValidConfig(type, config);
+
+            // 交易模式（paper模式使用虚拟账户）
+            const mode = this.resolveTradingMode(config);
+
             // 生成实例ID
             const instanceId = this.generateInstanceId(type);
 
@@ -130,9 +253,11 @@ export class StrategyManager implements IStrategyManager {
                 type,
                 name,
                 config,
+                mode,
                 status: StrategyStatus.CREATED,
                 createdAt: new Date()
             };
+            this.registerTradingMode(instance);
 
             // 初始化执行器
             await executor.initialize(config);
@@ -145,11 +270,13 @@ export class StrategyManager implements IStrategyManager {
             // 保存实例
             this.instances.set(instanceId, instance);
             await this.storage.saveInstance(instance);
+            await this.configHistory.append(instanceId, { config, source: 'create', changes: [] });
 
             await this.logger.logBusinessOperation('策略创建', {
                 instanceId,
                 name,
                 type,
+                mode,
                 message: `[StrategyManager] 策略实例创建成功: ${instanceId} (${name})`
             });
             return instanceId;
@@ -173,14 +300,19 @@ export class StrategyManager implements IStrategyManager {
             return;
         }
 
+        // 🛡️ 风险预算检查（超出上限时拒绝启动，实例状态保持不变）
+        await this.riskBudget.reserveInstance(instanceId, instance.config, instance.mode);
+
         try {
             // 更新状态
             instance.status = StrategyStatus.RUNNING;
             instance.startedAt = new Date();
             delete instance.error; // 清除error字段
+            delete instance.autoResumePending;
 
             // 保存状态
             await this.storage.saveInstance(instance);
+            await this.journal.append(instanceId, 'status', 'started', { status: instance.status });
 
             // 🔧 关键修复：设置执行器的实例配置
             const executor = this.registry.getExecutor(instance.type);
@@ -222,6 +354,8 @@ export class StrategyManager implements IStrategyManager {
             instance.status = StrategyStatus.ERROR;
             instance.error = (error as Error).message;
             await this.storage.saveInstance(instance);
+            await this.journal.append(instanceId, 'status', 'start_failed', { status: instance.status, error: instance.error });
+            await this.riskBudget.release(instanceId, 'start_failed');
 
             await this.logger.logError('strategy-manager', `[StrategyManager] 启动策略实例失败: ${instanceId}`, error as Error);
             throw error;
@@ -241,9 +375,12 @@ export class StrategyManager implements IStrategyManager {
             // 更新状态
             instance.status = StrategyStatus.STOPPED;
             instance.stoppedAt = new Date();
+            delete instance.autoResumePending;
 
             // 保存状态
             await this.storage.saveInstance(instance);
+            await this.journal.append(instanceId, 'status', 'stopped', { status: instance.status });
+            await this.riskBudget.release(instanceId, 'instance_stopped');
 
             await this.logger.logBusinessOperation('策略停止', {
                 instanceId,
@@ -274,6 +411,7 @@ export class StrategyManager implements IStrategyManager {
 
             // 保存状态
             await this.storage.saveInstance(instance);
+            await this.journal.append(instanceId, 'status', 'paused', { status: instance.status });
 
             await this.logger.logBusinessOperation('策略暂停', {
                 instanceId,
@@ -295,14 +433,10 @@ export class StrategyManager implements IStrategyManager {
             throw new Error(`只能恢复暂停的策略实例`);
         }
 
-        try {
-            // 更新状态
-            instance.status = StrategyStatus.RUNNING;
-            instance.startedAt = new Date();
-
-            // 保存状态
-            await this.storage.saveInstance(instance);
+        // 🛡️ 暂停期间占用保持不变，重启后丢失占用记录时重新检查
+        await this.riskBudget.reserveInstance(instanceId, instance.config, instance.mode);
 
+        try {
             // 🔧 关键修复：设置执行器的实例配置
             const executor = this.registry.getExecutor(instance.type);
             if (executor && typeof (executor as any).setInstanceConfig === 'function') {
@@ -320,6 +454,23 @@ export class StrategyManager implements IStrategyManager {
                 await this.logger.logSystem('INFO', `[StrategyManager] 策略实例配置已设置: ${instanceId}`);
             }
 
+            // ♻️ 根据事件日志接管暂停前的链上头寸，避免恢复时重复创建
+            if (executor && this.supportsRecovery(executor)) {
+                const recovery = await this.runRecovery(instance, executor);
+                if (recovery.status === 'blocked') {
+                    throw new Error(`无法恢复策略实例: ${recovery.reason}`);
+                }
+            }
+
+            // 更新状态
+            instance.status = StrategyStatus.RUNNING;
+            instance.startedAt = new Date();
+            delete instance.autoResumePending;
+
+            // 保存状态
+            await this.storage.saveInstance(instance);
+            await this.journal.append(instanceId, 'status', 'resumed', { status: instance.status });
+
             // 添加到调度器
             await this.scheduler.scheduleStrategy(instanceId);
 
@@ -353,7 +504,14 @@ export class StrategyManager implements IStrategyManager {
 
             // 删除实例
             this.instances.delete(instanceId);
+            this.paperTradingService.unregisterInstance(instanceId);
             await this.storage.deleteInstance(instanceId);
+            await this.journal.deleteJournal(instanceId);
+            await this.configHistory.deleteHistory(instanceId);
+            await this.performance.deleteInstance(instanceId);
+            await this.scheduler.removeTriggersForInstance(instanceId);
+            await this.removeInstanceFromGroups(instanceId);
+            await this.riskBudget.release(instanceId, 'instance_deleted');
 
             await this.logger.logBusinessOperation('策略删除', {
                 instanceId,
@@ -368,14 +526,15 @@ export class StrategyManager implements IStrategyManager {
     /**
      * 🛑 执行手动止损
      */
-    async executeManualStopLoss(instanceId: string): Promise<void> {
+    async executeManualStopLoss(instanceId: string): Promise<StopLossResult> {
         const instance = this.instances.get(instanceId);
         if (!instance) {
             throw new Error(`策略实例不存在: ${instanceId}`);
         }
 
-        if (instance.status !== StrategyStatus.RUNNING) {
-            throw new Error(`只能对运行中的策略执行手动止损`);
+        // 暂停/出错的实例执行器状态中仍有头寸时同样允许止损（例如一键平仓）
+        if (instance.status !== StrategyStatus.RUNNING && this.getPositionAddresses(instanceId).length === 0) {
+            throw new Error(`只能对运行中或仍持有头寸的策略执行手动止损`);
         }
 
         try {
@@ -391,17 +550,18 @@ export class StrategyManager implements IStrategyManager {
             }
 
             // 检查执行器是否支持手动止损
-            if (typeof (executor as any).executeManualStopLoss === 'function') {
-                // 直接调用执行器的手动止损方法
-                await (executor as any).executeManualStopLoss(instanceId);
-            } else {
+            if (typeof (executor as any).executeManualStopLoss !== 'function') {
                 throw new Error(`策略类型 ${instance.type} 不支持手动止损功能`);
             }
 
+            // 直接调用执行器的手动止损方法
+            const result: StopLossResult = await (executor as any).executeManualStopLoss(instanceId);
+
             await this.logger.logBusinessOperation('手动止损', {
                 instanceId,
-                message: `[StrategyManager] 手动止损执行成功: ${instanceId}`
+                message: `[StrategyManager] 手动止损执行${result?.success ? '成功' : '结束'}: ${instanceId}`
             });
+            return result;
         } catch (error) {
             await this.logger.logError('strategy-manager', `[StrategyManager] 手动止损执行失败: ${instanceId}`, error as Error);
             throw error;
@@ -411,42 +571,267 @@ export class StrategyManager implements IStrategyManager {
     /**
      * 更新策略实例配置
      */
-    async updateInstanceConfig(instanceId: string, config: any): Promise<void> {
+    async updateInstanceConfig(instanceId: string, config: any, updatedBy?: string): Promise<StrategyConfigUpdateResult> {
         const instance = this.instances.get(instanceId);
         if (!instance) {
             throw new Error(`策略实例不存在: ${instanceId}`);
         }
 
-        if (instance.status !== StrategyStatus.STOPPED) {
-            throw new Error(`只能更新已停止的策略实例配置`);
+        return this.applyConfig(instance, { ...instance.config, ...config }, { source: 'update', ...(updatedBy && { updatedBy }) });
+    }
+
+    /**
+     * 预览配置更新的字段级差异（不修改实例）
+     */
+    previewConfigUpdate(instanceId: string, config: any): StrategyConfigChange[] {
+        const instance = this.instances.get(instanceId);
+        if (!instance) {
+            throw new Error(`策略实例不存在: ${instanceId}`);
         }
 
-        try {
-            await this.logger.logBusinessOperation('配置更新', {
-                instanceId,
-                message: `[StrategyManager] 开始更新策略配置: ${instanceId}`
-            });
+        return this.registry.diffConfig(instance.type, instance.config, { ...instance.config, ...config });
+    }
 
-            // 更新实例配置
-            instance.config = { ...instance.config, ...config };
+    /**
+     * ⏪ 回滚到指定配置版本（回滚本身也会生成一个新版本）
+     */
+    async rollbackConfig(instanceId: string, version: number, updatedBy?: string): Promise<StrategyConfigUpdateResult> {
+        const instance = this.instances.get(instanceId);
+        if (!instance) {
+            throw new Error(`策略实例不存在: ${instanceId}`);
+        }
 
-            // 保存更新后的实例
-            await this.storage.saveInstance(instance);
+        const target = await this.configHistory.getVersion(instanceId, version);
+        if (!target) {
+            throw new Error(`配置版本不存在: ${instanceId} v${version}`);
+        }
 
-            // 更新执行器配置
-            const executor = this.registry.getExecutor(instance.type);
-            if (executor && typeof (executor as any).setInstanceConfig === 'function') {
-                (executor as any).setInstanceConfig(instanceId, instance.config);
+        return this.applyConfig(instance, target.config, { source: 'rollback', rollbackOf: version, ...(updatedBy && { updatedBy }) });
+    }
+
+    async getConfigVersions(instanceId: string): Promise<StrategyConfigVersion[]> {
+        if (!this.instances.has(instanceId)) {
+            throw new Error(`策略实例不存在: ${instanceId}`);
+        }
+
+        return this.configHistory.getVersions(instanceId);
+    }
+
+    /**
+     * 🔓 设置实例是否在钱包解锁后自动恢复（关闭时同时取消等待中的自动恢复）
+     */
+    async setAutoResume(instanceId: string, enabled: boolean): Promise<StrategyInstance> {
+        const instance = this.instances.get(instanceId);
+        if (!instance) {
+            throw new Error(`策略实例不存在: ${instanceId}`);
+        }
+
+        instance.autoResume = enabled;
+        if (!enabled) {
+            delete instance.autoResumePending;
+        }
+        await this.storage.saveInstance(instance);
+        await this.logger.logSystem('INFO', `[StrategyManager] 策略实例自动恢复已${enabled ? '开启' : '关闭'}: ${instanceId}`);
+        return instance;
+    }
+
+    /**
+     * 🔒 取消实例等待中的自动恢复（保留自动恢复开关，下次重启仍然生效）
+     */
+    async cancelAutoResume(instanceId: string, reason: string): Promise<void> {
+        const instance = this.instances.get(instanceId);
+        if (!instance) {
+            throw new Error(`策略实例不存在: ${instanceId}`);
+        }
+        if (!instance.autoResumePending) return;
+
+        delete instance.autoResumePending;
+        await this.storage.saveInstance(instance);
+        await this.journal.append(instanceId, 'status', 'auto_resume_cancelled', { status: instance.status, reason });
+        await this.logger.logSystem('INFO', `[StrategyManager] 策略实例等待中的自动恢复已取消: ${instanceId} - ${reason}`);
+    }
+
+    /**
+     * 最近一轮钱包解锁自动恢复的报告
+     */
+    getAutoResumeReport(): StrategyAutoResumeReport | null {
+        return this.lastAutoResumeReport;
+    }
+
+    /**
+     * ⏰ 添加触发器，由调度器在条件满足时启动/停止实例
+     */
+    async addTrigger(input: StrategyTriggerInput): Promise<StrategyTrigger> {
+        return this.scheduler.addTrigger(input);
+    }
+
+    listTriggers(filter: { instanceId?: string; status?: StrategyTriggerStatus } = {}): StrategyTrigger[] {
+        return this.scheduler.listTriggers(filter);
+    }
+
+    async cancelTrigger(triggerId: string): Promise<StrategyTrigger> {
+        return this.scheduler.cancelTrigger(triggerId);
+    }
+
+    /**
+     * 🗂️ 创建策略分组
+     */
+    async createGroup(name: string, options: { description?: string; instanceIds?: string[] } = {}): Promise<StrategyGroup> {
+        const groupName = this.assertGroupName(name);
+        const instanceIds = this.assertGroupMembers(options.instanceIds || []);
+        const now = Date.now();
+        const group: StrategyGroup = {
+            id: `group_${now}_${Math.random().toString(36).substring(2, 8)}`,
+            name: groupName,
+            instanceIds,
+            createdAt: now,
+            updatedAt: now,
+            ...(options.description && { description: options.description })
+        };
+
+        this.groups.set(group.id, group);
+        await this.saveGroups();
+        await this.logger.logSystem('INFO', `[StrategyManager] 🗂️ 创建策略分组: ${group.name} (${instanceIds.length} 个实例)`);
+        return group;
+    }
+
+    async updateGroup(groupId: string, updates: { name?: string; description?: string }): Promise<StrategyGroup> {
+        const group = this.requireGroup(groupId);
+        if (updates.name !== undefined) {
+            group.name = this.assertGroupName(updates.name, groupId);
+        }
+        if (updates.description !== undefined) {
+            if (updates.description) {
+                group.description = updates.description;
+            } else {
+                delete group.description;
             }
+        }
 
-            await this.logger.logBusinessOperation('配置更新', {
-                instanceId,
-                message: `[StrategyManager] 策略配置更新成功: ${instanceId}`
-            });
-        } catch (error) {
-            await this.logger.logError('strategy-manager', `[StrategyManager] 更新策略配置失败: ${instanceId}`, error as Error);
-            throw error;
+        group.updatedAt = Date.now();
+        await this.saveGroups();
+        return group;
+    }
+
+    /**
+     * 删除分组（不影响分组内的实例）
+     */
+    async deleteGroup(groupId: string): Promise<void> {
+        const group = this.requireGroup(groupId);
+        this.groups.delete(groupId);
+        await this.saveGroups();
+        await this.logger.logSystem('INFO', `[StrategyManager] 🗂️ 删除策略分组: ${group.name}`);
+    }
+
+    async addInstancesToGroup(groupId: string, instanceIds: string[]): Promise<StrategyGroup> {
+        const group = this.requireGroup(groupId);
+        for (const instanceId of this.assertGroupMembers(instanceIds)) {
+            if (!group.instanceIds.includes(instanceId)) {
+                group.instanceIds.push(instanceId);
+            }
         }
+
+        group.updatedAt = Date.now();
+        await this.saveGroups();
+        return group;
+    }
+
+    async removeInstancesFromGroup(groupId: string, instanceIds: string[]): Promise<StrategyGroup> {
+        const group = this.requireGroup(groupId);
+        group.instanceIds = group.instanceIds.filter(id => !instanceIds.includes(id));
+        group.updatedAt = Date.now();
+        await this.saveGroups();
+        return group;
+    }
+
+    getGroup(groupId: string): StrategyGroup | null {
+        return this.groups.get(groupId) || null;
+    }
+
+    listGroups(): StrategyGroup[] {
+        return Array.from(this.groups.values()).sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    getInstanceGroups(instanceId: string): StrategyGroup[] {
+        return this.listGroups().filter(group => group.instanceIds.includes(instanceId));
+    }
+
+    /**
+     * 🗂️ 对分组内的实例逐个执行操作
+     * 实例状态不适用的记为 skipped，单个实例失败不影响其他实例
+     */
+    async executeGroupOperation(groupId: string, operation: StrategyGroupOperation): Promise<StrategyGroupOperationResult> {
+        const group = this.requireGroup(groupId);
+        const applicableStatuses: Record<StrategyGroupOperation, StrategyStatus[]> = {
+            start: [StrategyStatus.CREATED, StrategyStatus.STOPPED, StrategyStatus.ERROR],
+            stop: [StrategyStatus.RUNNING, StrategyStatus.PAUSED],
+            pause: [StrategyStatus.RUNNING],
+            resume: [StrategyStatus.PAUSED],
+            stop_loss: [StrategyStatus.RUNNING]
+        };
+        if (!applicableStatuses[operation]) {
+            throw new Error(`不支持的分组操作: ${operation}`);
+        }
+
+        const result: StrategyGroupOperationResult = { groupId, operation, succeeded: 0, failed: 0, skipped: 0, results: [] };
+        for (const instanceId of [...group.instanceIds]) {
+            const instance = this.instances.get(instanceId);
+            if (!instance || !applicableStatuses[operation].includes(instance.status)) {
+                result.skipped++;
+                result.results.push({ instanceId, result: 'skipped', ...(instance && { status: instance.status }) });
+                continue;
+            }
+
+            try {
+                switch (operation) {
+                    case 'start':
+                        await this.startInstance(instanceId);
+                        break;
+                    case 'stop':
+                        await this.stopInstance(instanceId);
+                        break;
+                    case 'pause':
+                        await this.pauseInstance(instanceId);
+                        break;
+                    case 'resume':
+                        await this.resumeInstance(instanceId);
+                        break;
+                    case 'stop_loss': {
+                        const stopLoss = await this.executeManualStopLoss(instanceId);
+                        if (!stopLoss.success) {
+                            throw new Error(stopLoss.error || '手动止损失败');
+                        }
+                        break;
+                    }
+                }
+                result.succeeded++;
+                result.results.push({ instanceId, result: 'success', status: instance.status });
+            } catch (error) {
+                result.failed++;
+                result.results.push({ instanceId, result: 'failed', status: instance.status, error: (error as Error).message });
+            }
+        }
+
+        await this.logger.logBusinessOperation('🗂️ 分组操作', {
+            groupId,
+            name: group.name,
+            operation,
+            succeeded: result.succeeded,
+            failed: result.failed,
+            skipped: result.skipped
+        });
+        return result;
+    }
+
+    /**
+     * 获取所有策略模板（参数Schema由各执行器声明）
+     */
+    getTemplates(): StrategyTemplate[] {
+        return this.registry.getTemplates();
+    }
+
+    validateConfig(type: string, config: any): StrategyValidationResult {
+        return this.registry.validateConfig(type, config);
     }
 
     getInstance(instanceId: string): StrategyInstance | null {
@@ -462,6 +847,63 @@ export class StrategyManager implements IStrategyManager {
         return instance ? instance.status : null;
     }
 
+    /**
+     * 执行器状态中仍持有的头寸地址（执行器没有该实例状态时为空）
+     */
+    getPositionAddresses(instanceId: string): string[] {
+        const instance = this.instances.get(instanceId);
+        const executor = instance ? this.registry.getExecutor(instance.type) : null;
+        return executor?.getStatus(instanceId).positionAddresses || [];
+    }
+
+    /**
+     * 📝 获取模拟盘实例的虚拟账户概览
+     */
+    async getPaperAccount(instanceId: string): Promise<PaperAccountSummary> {
+        const instance = this.instances.get(instanceId);
+        if (!instance) {
+            throw new Error(`策略实例不存在: ${instanceId}`);
+        }
+        if (instance.mode !== 'paper') {
+            throw new Error(`策略实例不是模拟盘模式: ${instanceId}`);
+        }
+
+        return await this.paperTradingService.getAccountSummary(instanceId);
+    }
+
+    /**
+     * 📓 获取策略实例事件日志（最近limit条）
+     */
+    async getJournal(instanceId: string, limit?: number): Promise<StrategyJournalEntry[]> {
+        if (!this.instances.has(instanceId)) {
+            throw new Error(`策略实例不存在: ${instanceId}`);
+        }
+
+        return await this.journal.read(instanceId, limit !== undefined ? { limit } : {});
+    }
+
+    /**
+     * 📈 获取实例绩效指标（由操作历史计算）
+     */
+    async getPerformance(instanceId: string): Promise<StrategyPerformanceMetrics> {
+        if (!this.instances.has(instanceId)) {
+            throw new Error(`策略实例不存在: ${instanceId}`);
+        }
+
+        return await this.performance.getPerformance(instanceId);
+    }
+
+    /**
+     * 📜 分页获取实例操作历史（最新的在前）
+     */
+    async getOperationHistory(instanceId: string, options: { page?: number; pageSize?: number; type?: StrategyOperationType } = {}): Promise<StrategyOperationPage> {
+        if (!this.instances.has(instanceId)) {
+            throw new Error(`策略实例不存在: ${instanceId}`);
+        }
+
+        return await this.performance.getHistory(instanceId, options);
+    }
+
     async shutdown(): Promise<void> {
         try {
             await this.logger.logSystem('INFO', '[StrategyManager] 关闭策略管理器...');
@@ -476,6 +918,8 @@ export class StrategyManager implements IStrategyManager {
 
             // 关闭调度器
             await this.scheduler.stop();
+            await this.workerPool.shutdown();
+            await this.performance.shutdown();
 
             this.isInitialized = false;
             await this.logger.logSystem('INFO', '[StrategyManager] 策略管理器已关闭');
@@ -485,6 +929,344 @@ export class StrategyManager implements IStrategyManager {
         }
     }
 
+    /**
+     * 💥 工作线程崩溃或卡死：运行中的实例标记为错误，链上头寸保持不变，需要手动重新启动
+     * （支持崩溃恢复的策略重新启动时会接管原有头寸）
+     */
+    private async handleWorkerFailure(instanceIds: string[], reason: string): Promise<void> {
+        for (const instanceId of instanceIds) {
+            const instance = this.instances.get(instanceId);
+            if (!instance || instance.status !== StrategyStatus.RUNNING) continue;
+
+            try {
+                await this.scheduler.unscheduleStrategy(instanceId);
+            } catch (error) {
+                await this.logger.logSystem('WARN', `[StrategyManager] 移除调度失败: ${instanceId} - ${(error as Error).message}`);
+            }
+
+            instance.status = StrategyStatus.ERROR;
+            instance.error = `策略工作线程失效: ${reason}`;
+            await this.storage.saveInstance(instance);
+            await this.journal.append(instanceId, 'status', 'worker_failed', { status: instance.status, reason });
+            await this.logger.logError('strategy-manager', `[StrategyManager] 策略实例所在工作线程失效: ${instanceId}`, new Error(reason));
+        }
+    }
+
+    private supportsRecovery(executor: IStrategyExecutor): executor is IStrategyExecutor & { recoverInstance(instanceId: string): Promise<RecoveryResult> } {
+        return typeof (executor as any).recoverInstance === 'function';
+    }
+
+    /**
+     * ♻️ 调用执行器恢复实例状态，并记录恢复结果
+     */
+    private async runRecovery(instance: StrategyInstance, executor: IStrategyExecutor & { recoverInstance(instanceId: string): Promise<RecoveryResult> }): Promise<RecoveryResult> {
+        let result: RecoveryResult;
+        try {
+            result = await executor.recoverInstance(instance.id);
+        } catch (error) {
+            result = { status: 'blocked', reason: `恢复失败: ${(error as Error).message}`, positions: [] };
+        }
+
+        instance.recovery = { status: result.status, reason: result.reason, at: Date.now() };
+        await this.storage.saveInstance(instance);
+        await this.journal.append(instance.id, 'recovery', result.status, result);
+
+        const level = result.status === 'blocked' ? 'WARN' : 'INFO';
+        await this.logger.logSystem(level, `[StrategyManager] 策略实例恢复结果: ${instance.id} ${result.status} - ${result.reason}`);
+        return result;
+    }
+
+    /**
+     * ♻️ 启动时接管中断前运行中的实例：头寸核对通过则继续运行，否则暂停等待手动处理
+     */
+    private async recoverInterruptedInstance(instance: StrategyInstance): Promise<void> {
+        const executor = this.registry.getExecutor(instance.type);
+        if (executor && this.supportsRecovery(executor)) {
+            const result = await this.runRecovery(instance, executor);
+            if (result.status === 'recovered') {
+                try {
+                    await this.scheduler.scheduleStrategy(instance.id);
+                    await this.logger.logBusinessOperation('策略崩溃恢复', {
+                        instanceId: instance.id,
+                        message: `[StrategyManager] 策略实例已恢复运行: ${instance.id}`
+                    });
+                    return;
+                } catch (error) {
+                    await this.logger.logError('strategy-manager', `[StrategyManager] 恢复后调度失败: ${instance.id}`, error as Error);
+                    if (typeof (executor as any).stop === 'function') {
+                        await (executor as any).stop(instance.id);
+                    }
+                }
+            }
+        }
+
+        // 全新启动（fresh）也需要用户确认，与重启前的行为一致
+        await this.pauseForRestart(instance);
+    }
+
+    /**
+     * ⏸️ 重启时暂停中断前运行中的实例：开启自动恢复的实例等待钱包解锁，其余等待手动启动
+     */
+    private async pauseForRestart(instance: StrategyInstance): Promise<void> {
+        instance.status = StrategyStatus.PAUSED;
+        if (instance.autoResume) {
+            instance.autoResumePending = true;
+        }
+        await this.storage.saveInstance(instance);
+        await this.journal.append(instance.id, 'status', 'paused', { status: instance.status, reason: 'restart', autoResume: !!instance.autoResume });
+
+        const waitingFor = instance.autoResume ? '钱包解锁后自动恢复' : '手动启动';
+        await this.logger.logSystem('INFO', `[StrategyManager] 策略实例已暂停等待${waitingFor}: ${instance.id}`);
+    }
+
+    /**
+     * 🔓 钱包解锁后按间隔依次恢复等待中的实例
+     * 恢复走 resumeInstance：重新检查风险预算，支持崩溃恢复的执行器先按事件日志核对链上头寸
+     */
+    private async runAutoResume(): Promise<void> {
+        const config: StrategyAutoResumeConfig = {
+            enabled: true,
+            staggerMs: 10000,
+            ...this.configService.get<Partial<StrategyAutoResumeConfig>>('strategy.autoResume', {})
+        };
+        if (!config.enabled || this.autoResumeRunning || !this.isInitialized) {
+            return;
+        }
+
+        // 按中断前的启动顺序恢复
+        const candidates = Array.from(this.instances.values())
+            .filter(instance => instance.status === StrategyStatus.PAUSED && instance.autoResume && instance.autoResumePending)
+            .sort((a, b) => new Date(a.startedAt || a.createdAt).getTime() - new Date(b.startedAt || b.createdAt).getTime());
+        if (candidates.length === 0) {
+            return;
+        }
+
+        this.autoResumeRunning = true;
+        const report: StrategyAutoResumeReport = {
+            startedAt: Date.now(),
+            instanceIds: candidates.map(instance => instance.id),
+            results: []
+        };
+        this.lastAutoResumeReport = report;
+
+        try {
+            await this.logger.logSystem('INFO', `[StrategyManager] 🔓 钱包已解锁，开始自动恢复 ${candidates.length} 个策略实例 (间隔: ${config.staggerMs}ms)`);
+            await this.eventBus.publish('strategy.auto-resume.update', { event: 'started', report }, 'StrategyManager');
+
+            for (let i = 0; i < candidates.length; i++) {
+                if (i > 0 && config.staggerMs > 0) {
+                    await new Promise(resolve => setTimeout(resolve, config.staggerMs));
+                }
+
+                const result = await this.autoResumeInstance(candidates[i]!);
+                report.results.push(result);
+                await this.eventBus.publish('strategy.auto-resume.update', { event: 'instance', instanceId: result.instanceId, result, report }, 'StrategyManager');
+            }
+        } finally {
+            this.autoResumeRunning = false;
+        }
+
+        report.completedAt = Date.now();
+        const resumed = report.results.filter(result => result.result === 'resumed').length;
+        const failed = report.results.filter(result => result.result === 'failed').length;
+        await this.eventBus.publish('strategy.auto-resume.update', { event: 'completed', report }, 'StrategyManager');
+        await this.logger.logBusinessOperation('策略自动恢复', {
+            resumed,
+            failed,
+            skipped: report.results.length - resumed - failed,
+            message: `[StrategyManager] 自动恢复完成: 成功 ${resumed}，失败 ${failed}`
+        });
+    }
+
+    private async autoResumeInstance(instance: StrategyInstance): Promise<StrategyAutoResumeResult> {
+        let result: StrategyAutoResumeResult;
+
+        if (instance.status !== StrategyStatus.PAUSED || !instance.autoResumePending) {
+            // 等待期间已被手动启动、停止或删除
+            result = { instanceId: instance.id, result: 'skipped', status: instance.status, reason: '实例状态已变化', at: Date.now() };
+        } else if (!this.walletService.isWalletUnlocked()) {
+            // 恢复过程中钱包又被锁定：保留等待标记，下次解锁时继续
+            result = { instanceId: instance.id, result: 'skipped', status: instance.status, reason: '钱包已锁定', at: Date.now() };
+        } else {
+            try {
+                await this.resumeInstance(instance.id);
+                result = { instanceId: instance.id, result: 'resumed', status: instance.status, at: Date.now() };
+            } catch (error) {
+                // 核对失败或超出风险预算：保持暂停，需要手动处理
+                delete instance.autoResumePending;
+                await this.storage.saveInstance(instance);
+                result = { instanceId: instance.id, result: 'failed', status: instance.status, reason: (error as Error).message, at: Date.now() };
+            }
+        }
+
+        if (this.instances.has(instance.id)) {
+            await this.journal.append(instance.id, 'status', 'auto_resume', result);
+        }
+        return result;
+    }
+
+    private supportsHotConfig(executor: IStrategyExecutor): executor is IStrategyExecutor & { applyHotConfig(instanceId: string, config: any, changes: StrategyConfigChange[]): Promise<void> } {
+        return typeof (executor as any).applyHotConfig === 'function';
+    }
+
+    /**
+     * 🔧 应用新配置并记录版本
+     * - 已停止的实例：任意字段均可修改，下次启动生效
+     * - 运行中/暂停的实例：只允许修改hot字段，运行中的实例立即热更新到执行器
+     */
+    private async applyConfig(
+        instance: StrategyInstance,
+        nextConfig: any,
+        version: { source: 'update' | 'rollback'; rollbackOf?: number; updatedBy?: string }
+    ): Promise<StrategyConfigUpdateResult> {
+        // 校验完整配置，校验失败不修改实例
+        this.assertValidConfig(instance.type, nextConfig);
+
+        const executor = this.registry.getExecutor(instance.type);
+        const changes = this.registry.diffConfig(instance.type, instance.config, nextConfig);
+        const isActive = instance.status === StrategyStatus.RUNNING || instance.status === StrategyStatus.PAUSED;
+        const canApplyHot = !!executor && this.supportsHotConfig(executor);
+
+        if (changes.length === 0) {
+            const versions = await this.configHistory.getVersions(instance.id);
+            return {
+                instanceId: instance.id,
+                version: versions.length > 0 ? versions[versions.length - 1]!.version : 0,
+                changes,
+                appliedHot: false
+            };
+        }
+
+        if (isActive) {
+            const restartRequired = changes.filter(change => !change.hot || !canApplyHot).map(change => change.path);
+            if (restartRequired.length > 0) {
+                throw new Error(`以下配置需要停止策略后才能修改: ${restartRequired.join(', ')}`);
+            }
+        }
+
+        try {
+            await this.logger.logBusinessOperation('配置更新', {
+                instanceId: instance.id,
+                source: version.source,
+                changes: changes.map(change => change.path),
+                message: `[StrategyManager] 开始更新策略配置: ${instance.id}`
+            });
+
+            // 旧实例没有版本历史时先补记当前配置，保证可以回滚到更新前
+            const history = await this.configHistory.getVersions(instance.id);
+            if (history.length === 0) {
+                await this.configHistory.append(instance.id, { config: instance.config, source: 'create', changes: [] });
+            }
+
+            // 运行中的实例先热更新执行器，失败则不保存
+            const appliedHot = instance.status === StrategyStatus.RUNNING;
+            if (appliedHot && executor && this.supportsHotConfig(executor)) {
+                await executor.applyHotConfig(instance.id, nextConfig, changes);
+            } else if (executor && typeof (executor as any).setInstanceConfig === 'function') {
+                (executor as any).setInstanceConfig(instance.id, nextConfig);
+            }
+
+            // 更新实例配置
+            instance.config = nextConfig;
+            instance.mode = this.resolveTradingMode(instance.config);
+            this.registerTradingMode(instance);
+
+            // 保存更新后的实例和配置版本
+            await this.storage.saveInstance(instance);
+            const record = await this.configHistory.append(instance.id, { config: nextConfig, changes, ...version });
+            await this.journal.append(instance.id, 'config', version.source === 'rollback' ? 'config_rolled_back' : 'config_updated', {
+                version: record.version,
+                appliedHot,
+                changes
+            });
+
+            await this.logger.logBusinessOperation('配置更新', {
+                instanceId: instance.id,
+                version: record.version,
+                appliedHot,
+                message: `[StrategyManager] 策略配置更新成功: ${instance.id} v${record.version}`
+            });
+
+            return { instanceId: instance.id, version: record.version, changes, appliedHot };
+        } catch (error) {
+            await this.logger.logError('strategy-manager', `[StrategyManager] 更新策略配置失败: ${instance.id}`, error as Error);
+            throw error;
+        }
+    }
+
+    private assertValidConfig(type: string, config: any): void {
+        const validation = this.registry.validateConfig(type, config);
+        if (!validation.valid) {
+            throw new Error(`策略配置校验失败: ${validation.errors.join('; ')}`);
+        }
+    }
+
+    private resolveTradingMode(config: any): TradingMode {
+        const mode = config?.mode ?? 'live';
+        if (mode !== 'live' && mode !== 'paper') {
+            throw new Error(`不支持的交易模式: ${mode}`);
+        }
+        return mode;
+    }
+
+    /**
+     * 📝 paper实例登记到模拟盘服务，live实例确保已注销
+     */
+    private registerTradingMode(instance: StrategyInstance): void {
+        if (instance.mode === 'paper') {
+            const initialBalanceY = Number(instance.config.paperInitialBalanceY ?? instance.config.positionAmount);
+            this.paperTradingService.registerInstance(instance.id, instance.config.poolAddress, initialBalanceY);
+        } else {
+            this.paperTradingService.unregisterInstance(instance.id);
+        }
+    }
+
+    private requireGroup(groupId: string): StrategyGroup {
+        const group = this.groups.get(groupId);
+        if (!group) {
+            throw new Error(`策略分组不存在: ${groupId}`);
+        }
+        return group;
+    }
+
+    private assertGroupName(name: string, excludeGroupId?: string): string {
+        const groupName = typeof name === 'string' ? name.trim() : '';
+        if (!groupName) {
+            throw new Error('分组名称不能为空');
+        }
+        const duplicate = Array.from(this.groups.values()).find(group => group.name === groupName && group.id !== excludeGroupId);
+        if (duplicate) {
+            throw new Error(`分组名称已存在: ${groupName}`);
+        }
+        return groupName;
+    }
+
+    private assertGroupMembers(instanceIds: string[]): string[] {
+        if (!Array.isArray(instanceIds)) {
+            throw new Error('instanceIds 必须是数组');
+        }
+        const missing = instanceIds.filter(id => !this.instances.has(id));
+        if (missing.length > 0) {
+            throw new Error(`策略实例不存在: ${missing.join(', ')}`);
+        }
+        return Array.from(new Set(instanceIds));
+    }
+
+    private async removeInstanceFromGroups(instanceId: string): Promise<void> {
+        const groups = this.getInstanceGroups(instanceId);
+        if (groups.length === 0) return;
+
+        for (const group of groups) {
+            group.instanceIds = group.instanceIds.filter(id => id !== instanceId);
+            group.updatedAt = Date.now();
+        }
+        await this.saveGroups();
+    }
+
+    private async saveGroups(): Promise<void> {
+        await this.groupStorage.saveGroups(this.listGroups());
+    }
+
     private generateInstanceId(type: string): string {
         const timestamp = Date.now();
         const random = Math.random().toString(36).substring(2, 8);
@@ -0,0 +1,237 @@
+/**
+ * 📈 策略操作历史与绩效指标
+ *
+ * 执行器在创建/关闭头寸、兑换代币、提取收益和重建头寸后调用 record() 写入操作历史，
+ * 止损由执行器广播的停止状态（strategy.status.update）自动记录。
+ * 每条记录附带该实例最近一次的盈亏快照（来自 strategy.smart-stop-loss.update），
+ * 绩效指标（收益率、最大回撤、胜率、交易数）完全由操作历史计算。
+ */
+
+import { injectable, inject } from 'tsyringe';
+import { ILoggerService, IEventBus, TYPES } from '../../types/interfaces';
+import { StrategyOperationRecord, StrategyOperationType, StrategyPerformanceMetrics, StrategyOperationPage } from '../../types/strategy';
+import { StrategyOperationHistory } from './storage/StrategyOperationHistory';
+import { PaperTradingService } from '../business/PaperTradingService';
+
+// record() 的参数：seq、时间、盈亏快照和模拟盘标记由服务填写
+export type StrategyOperationInput = Omit<StrategyOperationRecord, 'seq' | 'timestamp' | 'instanceId' | 'type' | 'pnl' | 'paper'>;
+
+@injectable()
+export class StrategyPerformanceService {
+    private pnlSnapshots: Map<string, NonNullable<StrategyOperationRecord['pnl']>> = new Map();
+    private metricsCache: Map<string, StrategyPerformanceMetrics> = new Map();
+    private subscriptions: string[] = [];
+    private initialized = false;
+
+    private static readonly OPERATION_TYPES: StrategyOperationType[] = [
+        'position_created', 'position_closed', 'swap', 'yield_extraction', 'stop_loss', 'recreation', 'roll', 'partial_exit', 'hedge'
+    ];
+    // 执行器广播的这些停止原因表示已止损/平仓（与 RiskBudgetService 一致）
+    private static readonly STOP_LOSS_REASONS = [
+        'smart_stop_loss_completed',
+        'stop_loss_completed',
+        'price_limit_triggered',
+        'dynamic_recreation_switch_triggered'
+    ];
+
+    constructor(
+        @inject(TYPES.LoggerService) private logger: ILoggerService,
+        @inject(TYPES.EventBus) private eventBus: IEventBus,
+        @inject(TYPES.StrategyOperationHistory) private history: StrategyOperationHistory,
+        @inject(PaperTradingService) private paperTradingService: PaperTradingService
+    ) { }
+
+    async initialize(): Promise<void> {
+        if (this.initialized) return;
+
+        await this.history.initialize();
+        this.subscriptions.push(
+            this.eventBus.subscribe('strategy.smart-stop-loss.update', (data: any) => this.trackPnL(data)),
+            this.eventBus.subscribe('strategy.status.update', (data: any) => this.handleStatusUpdate(data))
+        );
+
+        this.initialized = true;
+        await this.logger.logSystem('INFO', '[StrategyPerformance] 操作历史记录已启动');
+    }
+
+    async shutdown(): Promise<void> {
+        this.subscriptions.forEach(id => this.eventBus.unsubscribe(id));
+        this.subscriptions = [];
+        this.initialized = false;
+    }
+
+    /**
+     * 📒 记录一次操作（写入失败不影响策略执行）
+     */
+    async record(instanceId: string, type: StrategyOperationType, input: StrategyOperationInput): Promise<void> {
+        const pnl = this.pnlSnapshots.get(instanceId);
+        const record = await this.history.append({
+            timestamp: Date.now(),
+            instanceId,
+            type,
+            ...input,
+            ...(pnl && { pnl: { ...pnl } }),
+            ...(this.paperTradingService.isPaperInstance(instanceId) && { paper: true })
+        });
+        if (record) {
+            this.metricsCache.delete(instanceId);
+        }
+    }
+
+    /**
+     * 📊 获取实例绩效指标（按操作历史计算，历史不变时使用缓存）
+     */
+    async getPerformance(instanceId: string): Promise<StrategyPerformanceMetrics> {
+        const cached = this.metricsCache.get(instanceId);
+        if (cached) return cached;
+
+        const metrics = StrategyPerformanceService.computeMetrics(await this.history.read(instanceId));
+        this.metricsCache.set(instanceId, metrics);
+        return metrics;
+    }
+
+    /**
+     * 📜 分页获取操作历史（最新的在前）
+     */
+    async getHistory(instanceId: string, options: { page?: number; pageSize?: number; type?: StrategyOperationType } = {}): Promise<StrategyOperationPage> {
+        const page = Math.max(1, Math.floor(options.page || 1));
+        const pageSize = Math.min(200, Math.max(1, Math.floor(options.pageSize || 50)));
+
+        const records = (await this.history.read(instanceId))
+            .filter(record => !options.type || record.type === options.type)
+            .reverse();
+
+        return {
+            records: records.slice((page - 1) * pageSize, page * pageSize),
+            total: records.length,
+            page,
+            pageSize
+        };
+    }
+
+    async deleteInstance(instanceId: string): Promise<void> {
+        this.pnlSnapshots.delete(instanceId);
+        this.metricsCache.delete(instanceId);
+        await this.history.deleteHistory(instanceId);
+    }
+
+    /**
+     * 由操作历史计算绩效
+     * - 交易：实例从无头寸到建仓为开始，全部头寸关闭（或止损）为结束，盈亏为结束与开始时净盈亏快照之差
+     * - 最大回撤：以 100 + 净收益率 为净值，取操作记录时盈亏快照序列的最大回撤
+     */
+    private static computeMetrics(records: StrategyOperationRecord[]): StrategyPerformanceMetrics {
+        const operations = Object.fromEntries(
+            StrategyPerformanceService.OPERATION_TYPES.map(type => [type, 0])
+        ) as Record<StrategyOperationType, number>;
+        let failedOperations = 0;
+        let extractedYield = 0;
+        let totalGasUsed = 0;
+        const priceImpacts: number[] = [];
+
+        let lastPnL: StrategyOperationRecord['pnl'];
+        let peakEquity = 100;
+        let maxDrawdown = 0;
+
+        const openPositions = new Set<string>();
+        let tradeStartPnL: number | null = null;
+        let totalTrades = 0;
+        const tradeResults: number[] = [];
+
+        const closeTrade = () => {
+            if (tradeStartPnL === null) return;
+            totalTrades++;
+            if (lastPnL) {
+                tradeResults.push(lastPnL.netPnL - tradeStartPnL);
+            }
+            tradeStartPnL = null;
+            openPositions.clear();
+        };
+
+        for (const record of records) {
+            operations[record.type] = (operations[record.type] || 0) + 1;
+            if (record.cost?.gasUsed) totalGasUsed += record.cost.gasUsed;
+            if (record.cost?.priceImpact !== undefined) priceImpacts.push(record.cost.priceImpact);
+
+            if (record.pnl) {
+                lastPnL = record.pnl;
+                const equity = 100 + record.pnl.netPnLPercentage;
+                peakEquity = Math.max(peakEquity, equity);
+                if (peakEquity > 0) {
+                    maxDrawdown = Math.max(maxDrawdown, (peakEquity - equity) / peakEquity * 100);
+                }
+            }
+
+            if (!record.success) {
+                failedOperations++;
+                continue;
+            }
+
+            switch (record.type) {
+                case 'position_created':
+                    if (tradeStartPnL === null) {
+                        tradeStartPnL = lastPnL?.netPnL ?? 0;
+                    }
+                    (record.positionAddresses || []).forEach(address => openPositions.add(address));
+                    break;
+                case 'position_closed':
+                    (record.positionAddresses || []).forEach(address => openPositions.delete(address));
+                    if (openPositions.size === 0) closeTrade();
+                    break;
+                case 'roll':
+                    // 滚动替换交易中的头寸，不结束交易
+                    (record.closedPositionAddresses || []).forEach(address => openPositions.delete(address));
+                    (record.positionAddresses || []).forEach(address => openPositions.add(address));
+                    break;
+                case 'stop_loss':
+                    closeTrade();
+                    break;
+                case 'yield_extraction':
+                    extractedYield += parseFloat(record.amount || '0') || 0;
+                    break;
+            }
+        }
+
+        const wins = tradeResults.filter(result => result > 0).length;
+        const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+        return {
+            totalReturn: round(lastPnL?.netPnLPercentage ?? 0),
+            netPnL: round(lastPnL?.netPnL ?? 0),
+            maxDrawdown: round(maxDrawdown),
+            winRate: tradeResults.length > 0 ? round(wins / tradeResults.length * 100) : 0,
+            avgProfit: tradeResults.length > 0 ? round(tradeResults.reduce((sum, value) => sum + value, 0) / tradeResults.length) : 0,
+            totalTrades,
+            openTrade: tradeStartPnL !== null,
+            operations,
+            failedOperations,
+            extractedYield: round(extractedYield),
+            costs: {
+                totalGasUsed,
+                avgPriceImpact: priceImpacts.length > 0 ? round(priceImpacts.reduce((sum, value) => sum + value, 0) / priceImpacts.length) : 0
+            },
+            ...(records.length > 0 && {
+                firstOperationAt: records[0]!.timestamp,
+                lastOperationAt: records[records.length - 1]!.timestamp
+            })
+        };
+    }
+
+    private trackPnL(data: any): void {
+        const marketData = data?.marketData;
+        const netPnL = Number(marketData?.netPnL);
+        if (!data?.instanceId || !Number.isFinite(netPnL)) return;
+
+        this.pnlSnapshots.set(data.instanceId, {
+            netPnL,
+            netPnLPercentage: Number(marketData.netPnLPercentage) || 0,
+            positionValue: Number(marketData.positionValue) || 0
+        });
+    }
+
+    private async handleStatusUpdate(data: any): Promise<void> {
+        if (data?.status !== 'stopped' || !StrategyPerformanceService.STOP_LOSS_REASONS.includes(data.reason)) return;
+
+        await this.record(data.instanceId, 'stop_loss', { success: true, reason: data.reason });
+    }
+}
@@ -0,0 +1,494 @@
+/**
+ * 🔌 策略插件加载器
+ * 启动时从插件目录发现执行器模块，校验插件接口版本和 IStrategyExecutor 实现后注册到 StrategyRegistry。
+ * 插件拿到的是受限的服务门面：只能操作自己策略类型的实例、自己创建的头寸和实例池的代币。
+ * 门面只约束正常编写的插件，不是安全边界：插件与系统运行在同一进程，仍可通过 require 访问任意模块，只加载可信的插件
+ */
+
+import { injectable, inject } from 'tsyringe';
+import { PublicKey } from '@solana/web3.js';
+import fs from 'fs';
+import path from 'path';
+import {
+    TYPES, ILoggerService, IConfigService, IEventBus, IMeteoraService, IJupiterService,
+    IWalletService, IPositionManager, IYPositionManager, IXPositionManager, ISolanaWeb3Service, PositionResult, SwapResult
+} from '../../types/interfaces';
+import { StrategyPluginContext, StrategyPluginModule, StrategyPluginRecord, StrategyPluginPositionParams } from '../../types/strategy-plugin-types';
+import { StrategyRegistry, IStrategyExecutor } from './StrategyRegistry';
+import { IStrategyManager } from './StrategyManager';
+import { PaperTradingService } from '../business/PaperTradingService';
+import { InstanceAwareServiceFactory } from '../business/InstanceAwareServiceFactory';
+import { StrategyPerformanceService } from './StrategyPerformanceService';
+import { TokenPrecisionConverter } from '../../utils/TokenPrecisionConverter';
+
+// 插件接口版本（插件的 apiVersion 必须一致）
+export const STRATEGY_PLUGIN_API_VERSION = 1;
+
+// 插件配置（config/default.json 的 strategy.plugins 节点）
+export interface StrategyPluginConfig {
+    enabled: boolean;
+    directory: string;                          // 插件目录（相对于工作目录）
+    settings: Record<string, Record<string, any>>;  // 按插件名传入的配置
+}
+
+// 插件通过门面对单个实例的操作记录（重启后从实例操作历史恢复）
+interface PluginInstanceLedger {
+    positions: Set<string>;                     // 通过门面创建且尚未关闭的头寸
+    swappedValueY: number;                      // 累计兑换输入价值（按Y计）
+}
+
+@injectable()
+export class StrategyPluginLoader {
+    private plugins: Map<string, StrategyPluginRecord> = new Map();
+
+    private static readonly DEFAULT_CONFIG: StrategyPluginConfig = {
+        enabled: false,
+        directory: 'plugins/strategies',
+        settings: {}
+    };
+    private static readonly REQUIRED_METHODS = ['getType', 'getVersion', 'getConfigSchema', 'initialize', 'execute', 'cleanup', 'getStatus'];
+    private static readonly VERSION_PATTERN = /^\d+\.\d+\.\d+/;
+
+    constructor(
+        @inject(TYPES.LoggerService) private logger: ILoggerService,
+        @inject(TYPES.ConfigService) private configService: IConfigService,
+        @inject(TYPES.EventBus) private eventBus: IEventBus,
+        @inject(TYPES.StrategyRegistry) private registry: StrategyRegistry,
+        @inject('IStrategyManager') private strategyManager: IStrategyManager,
+        @inject(TYPES.MeteoraService) private meteoraService: IMeteoraService,
+        @inject(TYPES.JupiterService) private jupiterService: IJupiterService,
+        @inject(TYPES.WalletService) private walletService: IWalletService,
+        @inject(TYPES.PositionManager) private positionManager: IPositionManager,
+        @inject(TYPES.YPositionManager) private yPositionManager: IYPositionManager,
+        @inject(TYPES.XPositionManager) private xPositionManager: IXPositionManager,
+        @inject(PaperTradingService) private paperTradingService: PaperTradingService,
+        @inject(InstanceAwareServiceFactory) private serviceFactory: InstanceAwareServiceFactory,
+        @inject(TYPES.StrategyPerformanceService) private performanceService: StrategyPerformanceService,
+        @inject(TYPES.SolanaWeb3Service) private solanaService: ISolanaWeb3Service
+    ) { }
+
+    /**
+     * 🔌 加载插件目录中的全部插件（需在内置执行器注册之后、StrategyManager 初始化之前调用）
+     * 单个插件加载失败只记录错误，不影响其他插件和系统启动
+     */
+    async loadPlugins(): Promise<StrategyPluginRecord[]> {
+        const config = this.getConfig();
+        if (!config.enabled) {
+            await this.logger.logSystem('INFO', '[StrategyPluginLoader] 策略插件已禁用');
+            return [];
+        }
+
+        const directory = path.resolve(process.cwd(), config.directory);
+        if (!fs.existsSync(directory)) {
+            await this.logger.logSystem('INFO', `[StrategyPluginLoader] 插件目录不存在，跳过: ${directory}`);
+            return [];
+        }
+
+        for (const file of this.discoverModules(directory)) {
+            const record = await this.loadPlugin(file, config);
+            this.plugins.set(record.name, record);
+        }
+
+        const loaded = this.getPlugins().filter(plugin => plugin.status === 'loaded').length;
+        await this.logger.logSystem('INFO', `[StrategyPluginLoader] 插件加载完成: ${loaded}/${this.plugins.size}`);
+        return this.getPlugins();
+    }
+
+    getPlugins(): StrategyPluginRecord[] {
+        return Array.from(this.plugins.values());
+    }
+
+    /**
+     * 插件模块：目录下的 .js 文件，或包含 index.js 的子目录
+     */
+    private discoverModules(directory: string): string[] {
+        return fs.readdirSync(directory, { withFileTypes: true })
+            .map(entry => {
+                const fullPath = path.join(directory, entry.name);
+                if (entry.isFile() && entry.name.endsWith('.js')) return fullPath;
+                if (entry.isDirectory() && fs.existsSync(path.join(fullPath, 'index.js'))) return path.join(fullPath, 'index.js');
+                return null;
+            })
+            .filter((file): file is string => file !== null)
+            .sort();
+    }
+
+    private async loadPlugin(file: string, config: StrategyPluginConfig): Promise<StrategyPluginRecord> {
+        const fallbackName = path.basename(file === path.join(path.dirname(file), 'index.js') ? path.dirname(file) : file, '.js');
+        let name = fallbackName;
+
+        try {
+            const loaded = await import(file);
+            const plugin: StrategyPluginModule = loaded && loaded.default ? loaded.default : loaded;
+            this.assertPluginModule(plugin);
+            name = plugin.name;
+
+            if (this.plugins.has(name)) {
+                throw new Error(`插件名称重复: ${name}`);
+            }
+
+            const ownedTypes = new Set<string>();
+            const context = this.createContext(name, config.settings[name] || {}, ownedTypes);
+            const executor = await plugin.createExecutor(context);
+            const strategyType = this.assertExecutor(executor);
+            if (this.registry.isSupported(strategyType)) {
+                throw new Error(`策略类型已被注册，插件不能覆盖: ${strategyType}`);
+            }
+
+            ownedTypes.add(strategyType);
+            await this.registry.register(strategyType, executor);
+            await this.logger.logSystem('INFO', `[StrategyPluginLoader] ✅ 插件已加载: ${name} v${plugin.version} (策略类型: ${strategyType})`);
+
+            return {
+                name,
+                file,
+                status: 'loaded',
+                version: plugin.version,
+                strategyType,
+                loadedAt: Date.now(),
+                ...(plugin.description && { description: plugin.description })
+            };
+        } catch (error) {
+            await this.logger.logError('strategy-plugin-loader', `[StrategyPluginLoader] 插件加载失败: ${file}`, error as Error);
+            return {
+                name: this.plugins.has(name) ? `${name}@${file}` : name,
+                file,
+                status: 'failed',
+                error: (error as Error).message,
+                loadedAt: Date.now()
+            };
+        }
+    }
+
+    private assertPluginModule(plugin: any): asserts plugin is StrategyPluginModule {
+        if (!plugin || typeof plugin !== 'object') {
+            throw new Error('插件必须导出一个对象');
+        }
+        if (plugin.apiVersion !== STRATEGY_PLUGIN_API_VERSION) {
+            throw new Error(`插件接口版本不兼容: ${plugin.apiVersion}（当前支持 ${STRATEGY_PLUGIN_API_VERSION}）`);
+        }
+        if (typeof plugin.name !== 'string' || !plugin.name.trim()) {
+            throw new Error('插件缺少 name');
+        }
+        if (typeof plugin.version !== 'string' || !StrategyPluginLoader.VERSION_PATTERN.test(plugin.version)) {
+            throw new Error(`插件版本号无效: ${plugin.version}`);
+        }
+        if (typeof plugin.createExecutor !== 'function') {
+            throw new Error('插件缺少 createExecutor(context)');
+        }
+    }
+
+    /**
+     * 校验执行器实现了 IStrategyExecutor，并返回策略类型
+     */
+    private assertExecutor(executor: any): string {
+        if (!executor || typeof executor !== 'object') {
+            throw new Error('createExecutor 必须返回执行器对象');
+        }
+
+        const missing = StrategyPluginLoader.REQUIRED_METHODS.filter(method => typeof executor[method] !== 'function');
+        if (missing.length > 0) {
+            throw new Error(`执行器缺少方法: ${missing.join(', ')}`);
+        }
+
+        const strategyType = executor.getType();
+        if (typeof strategyType !== 'string' || !/^[a-z0-9_-]+$/i.test(strategyType)) {
+            throw new Error(`执行器策略类型无效: ${strategyType}`);
+        }
+        if (typeof executor.getVersion() !== 'string') {
+            throw new Error('执行器 getVersion() 必须返回字符串');
+        }
+
+        const schema = executor.getConfigSchema();
+        if (!schema || typeof schema.name !== 'string' || !Array.isArray(schema.parameters)) {
+            throw new Error('执行器 getConfigSchema() 必须返回 { name, description, parameters[] }');
+        }
+
+        return strategyType;
+    }
+
+    /**
+     * 🧰 构建插件服务门面（只暴露函数，不暴露服务对象本身）
+     */
+    private createContext(pluginName: string, settings: Record<string, any>, ownedTypes: Set<string>): StrategyPluginContext {
+        const source = `plugin:${pluginName}`;
+
+        // 只允许操作本插件策略类型的实例
+        const assertOwnInstance = (instanceId: string): void => {
+            const instance = this.strategyManager.getInstance(instanceId);
+            if (!instance || !ownedTypes.has(instance.type)) {
+                throw new Error(`插件 ${pluginName} 无权操作实例: ${instanceId}`);
+            }
+        };
+        const isPaper = (instanceId: string) => this.paperTradingService.isPaperInstance(instanceId);
+
+        // 通过门面创建的头寸和累计兑换价值（按实例记录）：只能关闭这些头寸，兑换总额不超过预算
+        const ledgers = new Map<string, Promise<PluginInstanceLedger>>();
+        const getLedger = (instanceId: string): Promise<PluginInstanceLedger> => {
+            let ledger = ledgers.get(instanceId);
+            if (!ledger) {
+                // 重启后从实例操作历史恢复（并发调用共用同一次加载）
+                ledger = this.loadInstanceLedger(instanceId, source);
+                ledgers.set(instanceId, ledger);
+                ledger.catch(() => ledgers.delete(instanceId));
+            }
+            return ledger;
+        };
+
+        // 插件的头寸和兑换操作同样写入实例操作历史
+        const recordPosition = async (instanceId: string, type: 'position_created' | 'position_closed', result: PositionResult, positionAddress?: string) => {
+            const address = result.positionAddress || positionAddress;
+            await this.performanceService.record(instanceId, type, {
+                success: result.success,
+                ...(address && { positionAddresses: [address] }),
+                ...(result.signature && { signature: result.signature }),
+                ...(result.error && { error: result.error }),
+                reason: source
+            });
+            return result;
+        };
+
+        const createPosition = async (instanceId: string, side: 'Y' | 'X', params: StrategyPluginPositionParams) => {
+            assertOwnInstance(instanceId);
+            const createParams = {
+                poolAddress: params.poolAddress,
+                lowerBinId: params.lowerBinId,
+                upperBinId: params.upperBinId,
+                amount: params.amount,
+                tokenMint: '',
+                binRange: params.upperBinId - params.lowerBinId + 1,
+                activeBin: side === 'Y' ? params.upperBinId + 1 : params.lowerBinId - 1,
+                slippageBps: params.slippageBps ?? 800,
+                strategy: source
+            };
+
+            const owned = (await getLedger(instanceId)).positions;
+            let result: PositionResult;
+            if (isPaper(instanceId)) {
+                if (side === 'X') {
+                    throw new Error('模拟盘暂不支持X头寸');
+                }
+                result = await this.paperTradingService.createYPosition(instanceId, createParams);
+            } else {
+                result = side === 'Y'
+                    ? await this.yPositionManager.createYPosition(createParams)
+                    : await this.xPositionManager.createXPosition(createParams);
+            }
+            if (result.success && result.positionAddress) {
+                owned.add(result.positionAddress);
+            }
+            return recordPosition(instanceId, 'position_created', result);
+        };
+
+        const closePosition = async (instanceId: string, positionAddress: string) => {
+            assertOwnInstance(instanceId);
+            const owned = (await getLedger(instanceId)).positions;
+            if (!owned.has(positionAddress)) {
+                throw new Error(`插件 ${pluginName} 无权关闭头寸: ${positionAddress}（不是该实例通过插件创建的头寸）`);
+            }
+
+            const result = isPaper(instanceId)
+                ? await this.paperTradingService.closePosition(instanceId, positionAddress)
+                : await this.positionManager.closePosition(positionAddress);
+            if (result.success) {
+                owned.delete(positionAddress);
+            }
+            return recordPosition(instanceId, 'position_closed', result, positionAddress);
+        };
+
+        // 兑换只允许实例池的X/Y代币互换，累计输入价值（按Y计）不超过实例占用的预算 positionAmount
+        // 校验通过时返回本次输入价值，并已计入累计兑换价值（兑换失败时由调用方退回）
+        const reserveSwapBudget = async (instanceId: string, params: { inputMint: string; outputMint: string; amount: string }): Promise<number> => {
+            const config = this.strategyManager.getInstance(instanceId)?.config || {};
+            if (!config.poolAddress) {
+                throw new Error(`实例缺少池地址，无法兑换: ${instanceId}`);
+            }
+
+            const poolInfo = await this.meteoraService.getPoolInfo(config.poolAddress);
+            const poolMints = [poolInfo.tokenX, poolInfo.tokenY];
+            if (params.inputMint === params.outputMint || !poolMints.includes(params.inputMint) || !poolMints.includes(params.outputMint)) {
+                throw new Error(`插件 ${pluginName} 只能兑换实例池的代币: ${poolInfo.tokenX} / ${poolInfo.tokenY}`);
+            }
+
+            const budgetY = Number(config.positionAmount);
+            const rawAmount = Number(params.amount);
+            if (!(budgetY > 0)) {
+                throw new Error(`实例未设置投入数量，无法兑换: ${instanceId}`);
+            }
+            if (!(rawAmount > 0)) {
+                throw new Error(`兑换数量无效: ${params.amount}`);
+            }
+
+            const precisionConverter = new TokenPrecisionConverter(this.solanaService.getConnection());
+            const decimals = await precisionConverter.getTokenDecimals(new PublicKey(params.inputMint));
+            const inputAmount = rawAmount / Math.pow(10, decimals);
+            const valueY = params.inputMint === poolInfo.tokenY ? inputAmount : inputAmount * poolInfo.activePrice;
+
+            const ledger = await getLedger(instanceId);
+            if (!(ledger.swappedValueY + valueY <= budgetY)) {
+                throw new Error(`累计兑换数量超过实例预算: 已兑换约 ${ledger.swappedValueY.toFixed(6)} Y，本次约 ${valueY.toFixed(6)} Y，预算 ${budgetY} Y`);
+            }
+            ledger.swappedValueY += valueY;
+            return valueY;
+        };
+
+        const getAnalytics = (instanceId: string) => {
+            assertOwnInstance(instanceId);
+            const analytics = this.serviceFactory.getInstanceContainer(instanceId)?.positionAnalyticsService;
+            if (!analytics) {
+                throw new Error(`实例未设置头寸监控: ${instanceId}`);
+            }
+            return analytics;
+        };
+
+        const logData = (data?: any) => ({ plugin: pluginName, ...(data !== undefined && { data }) });
+
+        return deepFreeze<StrategyPluginContext>({
+            pluginName,
+            settings: JSON.parse(JSON.stringify(settings)),
+
+            logger: {
+                info: (message, data) => this.logger.logSystem('INFO', `[${source}] ${message}${data !== undefined ? ` ${JSON.stringify(logData(data))}` : ''}`),
+                warn: (message, data) => this.logger.logSystem('WARN', `[${source}] ${message}${data !== undefined ? ` ${JSON.stringify(logData(data))}` : ''}`),
+                error: (message, error) => this.logger.logError(source, `[${source}] ${message}`, error),
+                forInstance: (instanceId) => {
+                    assertOwnInstance(instanceId);
+                    const strategyLogger = this.logger.createStrategyLogger(instanceId);
+                    return {
+                        operation: (message, details) => strategyLogger.logOperation(message, logData(details)),
+                        monitoring: (metric, value) => strategyLogger.logMonitoring(metric, value),
+                        error: (message, error) => strategyLogger.logError(message, error)
+                    };
+                }
+            },
+
+            market: {
+                getActiveBin: (poolAddress) => this.meteoraService.getActiveBin(poolAddress),
+                getPoolInfo: (poolAddress) => this.meteoraService.getPoolInfo(poolAddress),
+                getPoolPriceAndBin: async (poolAddress) => {
+                    if (!this.meteoraService.getPoolPriceAndBin) {
+                        throw new Error('MeteoraService 不支持查询池价格');
+                    }
+                    const { activeBin, activePrice, binStep } = await this.meteoraService.getPoolPriceAndBin(poolAddress);
+                    return { activeBin, activePrice, binStep };
+                },
+                getTokenPrices: (mints) => this.jupiterService.getTokenPrices(mints)
+            },
+
+            positions: {
+                createYPosition: (instanceId, params) => createPosition(instanceId, 'Y', params),
+                createXPosition: (instanceId, params) => createPosition(instanceId, 'X', params),
+                closePosition: (instanceId, positionAddress) => closePosition(instanceId, positionAddress),
+                getPositionInfo: async (instanceId, positionAddress) => {
+                    assertOwnInstance(instanceId);
+                    return isPaper(instanceId)
+                        ? this.paperTradingService.getPositionOnChainInfo(instanceId, positionAddress)
+                        : this.positionManager.getPositionOnChainInfo(positionAddress);
+                }
+            },
+
+            swaps: {
+                swap: async (instanceId, params) => {
+                    assertOwnInstance(instanceId);
+                    const valueY = await reserveSwapBudget(instanceId, params);
+                    let result: SwapResult;
+                    try {
+                        if (isPaper(instanceId)) {
+                            result = await this.paperTradingService.executeSwap(instanceId, { ...params, userPublicKey: 'paper', instanceId });
+                        } else {
+                            // 只在门面内部读取公钥，密钥不离开钱包服务
+                            const keypair = this.walletService.getCurrentKeypair();
+                            if (!keypair) {
+                                throw new Error('用户钱包未解锁');
+                            }
+                            result = await this.jupiterService.executeSwap({ ...params, userPublicKey: keypair.publicKey.toString(), instanceId });
+                        }
+                    } catch (error) {
+                        (await getLedger(instanceId)).swappedValueY -= valueY;
+                        throw error;
+                    }
+
+                    await this.performanceService.record(instanceId, 'swap', {
+                        success: true,
+                        signature: result.signature,
+                        amount: valueY.toString(),
+                        inputAmount: result.inputAmount,
+                        outputAmount: result.outputAmount,
+                        cost: { priceImpact: result.priceImpact },
+                        reason: source
+                    });
+                    return result;
+                }
+            },
+
+            analytics: {
+                setupMonitoring: async (instanceId, params) => {
+                    assertOwnInstance(instanceId);
+                    const analytics = await this.serviceFactory.createAnalyticsServiceForInstance(instanceId);
+                    await analytics.setupPositionMonitoring(params);
+                },
+                getMarketData: (instanceId) => getAnalytics(instanceId).getSmartStopLossData(source),
+                getYieldStatistics: (instanceId) => getAnalytics(instanceId).getYieldStatistics(),
+                stopMonitoring: async (instanceId) => {
+                    assertOwnInstance(instanceId);
+                    await this.serviceFactory.cleanupInstance(instanceId);
+                }
+            },
+
+            events: {
+                publishStatus: async (instanceId, data) => {
+                    assertOwnInstance(instanceId);
+                    await this.eventBus.publish('strategy.status.update', { ...data, instanceId, timestamp: Date.now() }, source);
+                }
+            },
+
+            isPaperInstance: (instanceId) => isPaper(instanceId)
+        });
+    }
+
+    /**
+     * 从实例操作历史中找出插件创建且尚未关闭的头寸，并累计插件的兑换输入价值
+     */
+    private async loadInstanceLedger(instanceId: string, source: string): Promise<PluginInstanceLedger> {
+        const owned = new Set<string>();
+        const closed = new Set<string>();
+        let swappedValueY = 0;
+        for (let page = 1; ; page++) {
+            // 历史按最新在前返回，先遇到的关闭记录会排除更早的创建记录
+            const { records, total, pageSize } = await this.performanceService.getHistory(instanceId, { page, pageSize: 200 });
+            for (const record of records) {
+                if (record.reason !== source || !record.success) continue;
+                if (record.type === 'swap') {
+                    swappedValueY += parseFloat(record.amount || '0') || 0;
+                }
+                for (const address of record.positionAddresses || []) {
+                    if (record.type === 'position_closed') {
+                        closed.add(address);
+                    } else if (record.type === 'position_created' && !closed.has(address)) {
+                        owned.add(address);
+                    }
+                }
+            }
+            if (page * pageSize >= total) break;
+        }
+        return { positions: owned, swappedValueY };
+    }
+
+    private getConfig(): StrategyPluginConfig {
+        return {
+            ...StrategyPluginLoader.DEFAULT_CONFIG,
+            ...this.configService.get<Partial<StrategyPluginConfig>>('strategy.plugins', {})
+        };
+    }
+}
+
+/**
+ * 递归冻结门面对象，插件无法替换其中的函数
+ */
+function deepFreeze<T>(value: T): T {
+    if (value && typeof value === 'object') {
+        Object.values(value as Record<string, unknown>).forEach(child => deepFreeze(child));
+        Object.freeze(value);
+    }
+    return value;
+}
@@ -1,11 +1,13 @@
 import 'reflect-metadata';
 import { injectable, inject } from 'tsyringe';
 import { TYPES, ILoggerService } from '../../types/interfaces';
+import { StrategyConfigSchema, StrategyParameterSchema, StrategyTemplate, StrategyValidationResult, StrategyConfigChange } from '../../types/strategy';
 
 export interface IStrategyExecutor {
     // 执行器基本信息
     getType(): string;
     getVersion(): string;
+    getConfigSchema(): StrategyConfigSchema;
 
     // 执行接口
     initialize(config: any): Promise<void>;
@@ -14,6 +16,9 @@ export interface IStrategyExecutor {
 
     // 状态查询
     getStatus(instanceId: string): ExecutorStatus;
+
+    // 参数Schema无法表达的配置校验（可选），返回错误列表
+    validateConfig?(config: any): string[];
 }
 
 export interface ExecutorStatus {
@@ -22,8 +27,48 @@ export interface ExecutorStatus {
     nextExecutionTime?: Date;
     error?: string | null;
     metrics?: any;
+    positionAddresses?: string[];   // 执行器状态中仍持有的头寸（一键平仓据此筛选实例）
+}
+
+// 手动止损结果（执行器的 executeManualStopLoss 返回）
+export interface StopLossResult {
+    success: boolean;
+    closedPositions: { address: string; signature?: string }[];
+    failedPositions: { address: string; error: string }[];
+    swap?: {
+        inputAmount: string;
+        outputAmount?: string;
+        signature?: string;
+        error?: string;
+    };
+    error?: string;
+}
+
+// 崩溃恢复结果（执行器的 recoverInstance 返回）
+// - recovered: 已根据事件日志恢复状态并核对链上头寸，继续监控
+// - fresh:     没有需要接管的头寸，按全新启动处理
+// - blocked:   日志与链上状态不一致，需要人工处理
+export interface RecoveryResult {
+    status: 'recovered' | 'fresh' | 'blocked';
+    reason: string;
+    phase?: string;
+    positions: { address: string; onChain: boolean; error?: string }[];
 }
 
+// 所有策略类型共用的参数（由StrategyManager处理）
+const COMMON_PARAMETERS: StrategyParameterSchema[] = [
+    {
+        name: 'mode',
+        type: 'select',
+        description: '交易模式',
+        default: 'live',
+        options: [
+            { value: 'live', label: '实盘' },
+            { value: 'paper', label: '模拟盘' }
+        ]
+    }
+];
+
 @injectable()
 export class StrategyRegistry {
     private executors: Map<string, IStrategyExecutor> = new Map();
@@ -75,6 +120,143 @@ export class StrategyRegistry {
         }));
     }
 
+    /**
+     * 获取策略模板（由执行器声明的参数Schema生成）
+     */
+    getTemplate(type: string): StrategyTemplate | null {
+        const executor = this.executors.get(type);
+        if (!executor) {
+            return null;
+        }
+
+        const schema = executor.getConfigSchema();
+        return {
+            id: type,
+            name: schema.name,
+            description: schema.description,
+            version: executor.getVersion(),
+            parameters: [...schema.parameters, ...COMMON_PARAMETERS]
+        };
+    }
+
+    getTemplates(): StrategyTemplate[] {
+        return this.getSupportedTypes()
+            .map(type => this.getTemplate(type))
+            .filter((template): template is StrategyTemplate => template !== null);
+    }
+
+    /**
+     * 按参数Schema校验策略配置（未声明的字段不校验，兼容旧配置中的附加字段），再由执行器补充结构校验
+     */
+    validateConfig(type: string, config: any): StrategyValidationResult {
+        const template = this.getTemplate(type);
+        if (!template) {
+            return { valid: false, errors: [`不支持的策略类型: ${type}`] };
+        }
+        if (!config || typeof config !== 'object' || Array.isArray(config)) {
+            return { valid: false, errors: ['策略配置必须是对象'] };
+        }
+
+        const errors: string[] = [];
+        this.validateParameters(template.parameters, config, '', errors);
+        errors.push(...(this.executors.get(type)?.validateConfig?.(config) || []));
+        return { valid: errors.length === 0, errors };
+    }
+
+    private validateParameters(parameters: StrategyParameterSchema[], values: Record<string, any>, prefix: string, errors: string[]): void {
+        for (const param of parameters) {
+            const path = prefix + param.name;
+            const value = values[param.name];
+
+            // null 与未填写等价（前端关闭止损时会提交 stopLoss: null）
+            if (value === undefined || value === null) {
+                if (param.required) {
+                    errors.push(`${path}(${param.description}) 为必填参数`);
+                }
+                continue;
+            }
+
+            switch (param.type) {
+                case 'number': {
+                    const numeric = typeof value === 'number'
+                        ? value
+                        : (param.numericString && typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN);
+                    if (!Number.isFinite(numeric)) {
+                        errors.push(`${path}(${param.description}) 必须是数字`);
+                    } else if (param.integer && !Number.isInteger(numeric)) {
+                        errors.push(`${path}(${param.description}) 必须是整数`);
+                    } else if (param.min !== undefined && numeric < param.min) {
+                        errors.push(`${path}(${param.description}) 不能小于 ${param.min}`);
+                    } else if (param.max !== undefined && numeric > param.max) {
+                        errors.push(`${path}(${param.description}) 不能大于 ${param.max}`);
+                    }
+                    break;
+                }
+                case 'string':
+                    if (typeof value !== 'string') {
+                        errors.push(`${path}(${param.description}) 必须是字符串`);
+                    } else if (param.pattern && !new RegExp(param.pattern).test(value)) {
+                        errors.push(`${path}(${param.description}) 格式不正确`);
+                    }
+                    break;
+                case 'boolean':
+                    if (typeof value !== 'boolean') {
+                        errors.push(`${path}(${param.description}) 必须是布尔值`);
+                    }
+                    break;
+                case 'select':
+                    if (!param.options?.some(option => option.value === value)) {
+                        errors.push(`${path}(${param.description}) 必须是 ${param.options?.map(option => option.value).join(' / ')} 之一`);
+                    }
+                    break;
+                case 'object':
+                    if (typeof value !== 'object' || Array.isArray(value)) {
+                        errors.push(`${path}(${param.description}) 必须是对象`);
+                    } else {
+                        this.validateParameters(param.parameters || [], value, `${path}.`, errors);
+                    }
+                    break;
+            }
+        }
+    }
+
+    /**
+     * 计算字段级配置差异，并按参数Schema的hot标记分类
+     * Schema中未声明的顶层字段视为需要重启；hot对象下的子字段继承hot标记
+     */
+    diffConfig(type: string, oldConfig: any, newConfig: any): StrategyConfigChange[] {
+        const template = this.getTemplate(type);
+        const changes: StrategyConfigChange[] = [];
+        this.collectChanges(template?.parameters || [], oldConfig || {}, newConfig || {}, '', false, changes);
+        return changes;
+    }
+
+    private collectChanges(
+        parameters: StrategyParameterSchema[],
+        oldValues: Record<string, any>,
+        newValues: Record<string, any>,
+        prefix: string,
+        inheritedHot: boolean,
+        changes: StrategyConfigChange[]
+    ): void {
+        const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+        const keys = new Set([...Object.keys(oldValues), ...Object.keys(newValues)]);
+
+        for (const key of keys) {
+            const param = parameters.find(p => p.name === key);
+            const path = prefix + key;
+            const hot = param?.hot ?? inheritedHot;
+            const oldValue = oldValues[key];
+            const newValue = newValues[key];
+
+            if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+                this.collectChanges(param?.parameters || [], oldValue, newValue, `${path}.`, hot, changes);
+            } else if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+                changes.push({ path, oldValue, newValue, hot });
+            }
+        }
+    }
+
     /**
      * 取消注册执行器
      */
@@ -0,0 +1,394 @@
+/**
+ * 🔄 策略轮换控制器
+ * 定期比较运行中实例的实际手续费收益率与爬虫评分最高的池，
+ * 收益差距持续存在时止损旧实例，并以相同配置在更好的池上重新启动
+ */
+
+import { injectable, inject } from 'tsyringe';
+import fs from 'fs/promises';
+import path from 'path';
+import { ILoggerService, IConfigService, IEventBus, TYPES } from '../../types/interfaces';
+import { ProcessedPoolData } from '../../types/pool-crawler-types';
+import { IStrategyManager, StrategyInstance, StrategyStatus } from './StrategyManager';
+import { InstanceAwareServiceFactory } from '../business/InstanceAwareServiceFactory';
+import { PoolCrawlerService } from '../crawler/PoolCrawlerService';
+import { QualifiedPoolsManager } from '../crawler/QualifiedPoolsManager';
+
+// 轮换配置
+export interface RotationConfig {
+    enabled: boolean;
+    checkInterval: number;           // 检查间隔（毫秒）
+    strategyTypes: string[];         // 参与轮换的策略类型
+    minYieldGapPct: number;          // 候选池24h APR与实例日化收益率的最小差距（%）
+    gapPersistenceMinutes: number;   // 差距需持续的时间（分钟）
+    minHoldingMinutes: number;       // 实例最短持有时间（分钟）
+    maxRotationsPerDay: number;      // 24小时内最多轮换次数
+    minCandidateScore: number;       // 候选池最低综合评分
+}
+
+// 收益差距跟踪状态
+export interface RotationGapState {
+    instanceId: string;
+    firstDetectedAt: number;
+    lastCheckedAt: number;
+    candidatePoolAddress: string;
+    instanceYieldPct: number;
+    candidateYieldPct: number;
+    gapPct: number;
+}
+
+// 轮换记录
+export interface RotationRecord {
+    timestamp: number;
+    fromInstanceId: string;
+    toInstanceId?: string;
+    fromPoolAddress: string;
+    toPoolAddress: string;
+    instanceYieldPct: number;
+    candidateYieldPct: number;
+    candidateScore: number;
+    success: boolean;
+    error?: string;
+}
+
+@injectable()
+export class StrategyRotationController {
+    private config: RotationConfig;
+    private checkTimer: NodeJS.Timeout | null = null;
+    private gapStates: Map<string, RotationGapState> = new Map();
+    private history: RotationRecord[] = [];
+    private isRunning = false;
+    private isChecking = false;
+    private configLoaded = false;
+    private lastCheckTime = 0;
+
+    private readonly historyPath: string;
+
+    // 默认配置
+    private static readonly DEFAULT_CONFIG: RotationConfig = {
+        enabled: false,
+        checkInterval: 300000,       // 5分钟检查一次
+        strategyTypes: ['chain_position'],
+        minYieldGapPct: 0.5,
+        gapPersistenceMinutes: 60,
+        minHoldingMinutes: 240,
+        maxRotationsPerDay: 3,
+        minCandidateScore: 0
+    };
+    private static readonly HISTORY_LIMIT = 200;
+    private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+
+    constructor(
+        @inject(TYPES.LoggerService) private logger: ILoggerService,
+        @inject(TYPES.ConfigService) private configService: IConfigService,
+        @inject(TYPES.EventBus) private eventBus: IEventBus,
+        @inject('IStrategyManager') private strategyManager: IStrategyManager,
+        @inject(InstanceAwareServiceFactory) private serviceFactory: InstanceAwareServiceFactory,
+        @inject('PoolCrawlerService') private poolCrawler: PoolCrawlerService,
+        @inject('QualifiedPoolsManager') private qualifiedPoolsManager: QualifiedPoolsManager
+    ) {
+        this.config = { ...StrategyRotationController.DEFAULT_CONFIG };
+        this.historyPath = path.join(process.cwd(), 'data', 'strategy-rotation-history.json');
+    }
+
+    /**
+     * 🚀 启动轮换检查（配置来自 config/default.json 的 strategy.rotation 节点）
+     */
+    async start(config?: Partial<RotationConfig>): Promise<void> {
+        if (this.isRunning) {
+            await this.logger.logSystem('WARN', '[StrategyRotation] 轮换控制器已在运行中');
+            return;
+        }
+
+        if (!this.configLoaded) {
+            this.config = { ...this.config, ...this.configService.get<Partial<RotationConfig>>('strategy.rotation', {}) };
+            this.configLoaded = true;
+            await this.loadHistory();
+        }
+        if (config) {
+            this.config = { ...this.config, ...config };
+        }
+
+        if (!this.config.enabled) {
+            await this.logger.logSystem('INFO', '[StrategyRotation] 策略轮换已禁用');
+            return;
+        }
+
+        this.isRunning = true;
+        this.checkTimer = setInterval(async () => {
+            try {
+                await this.performCheck();
+            } catch (error) {
+                await this.logger.logError('strategy-rotation', '[StrategyRotation] 轮换检查执行失败', error as Error);
+            }
+        }, this.config.checkInterval);
+
+        await this.logger.logSystem('INFO',
+            `[StrategyRotation] 轮换控制器已启动 - 检查间隔: ${this.config.checkInterval / 1000}秒, 收益差距: ${this.config.minYieldGapPct}%, 每日上限: ${this.config.maxRotationsPerDay}次`);
+    }
+
+    /**
+     * 🛑 停止轮换检查
+     */
+    async stop(): Promise<void> {
+        if (this.checkTimer) {
+            clearInterval(this.checkTimer);
+            this.checkTimer = null;
+        }
+        this.isRunning = false;
+        this.gapStates.clear();
+        await this.logger.logSystem('INFO', '[StrategyRotation] 轮换控制器已停止');
+    }
+
+    /**
+     * ⚙️ 更新配置（启用状态或检查间隔变化时重启定时器）
+     */
+    async updateConfig(config: Partial<RotationConfig>): Promise<void> {
+        const merged = { ...this.config, ...config };
+        if (!(merged.checkInterval >= 10000) || merged.minYieldGapPct < 0 || merged.maxRotationsPerDay < 0 ||
+            merged.minHoldingMinutes < 0 || merged.gapPersistenceMinutes < 0) {
+            throw new Error('轮换配置无效: 检查间隔不能小于10秒，其余阈值不能为负数');
+        }
+        if (!Array.isArray(merged.strategyTypes)) {
+            throw new Error('轮换配置无效: strategyTypes必须是策略类型数组');
+        }
+
+        const wasRunning = this.isRunning;
+        if (wasRunning) {
+            await this.stop();
+        }
+        this.config = merged;
+        if (wasRunning || merged.enabled) {
+            await this.start();
+        }
+    }
+
+    getConfig(): RotationConfig {
+        return { ...this.config };
+    }
+
+    getStatus(): {
+        isRunning: boolean;
+        lastCheckTime: number;
+        rotationsLast24h: number;
+        remainingBudget: number;
+        gapStates: RotationGapState[];
+        history: RotationRecord[];
+    } {
+        const rotationsLast24h = this.countRecentRotations();
+        return {
+            isRunning: this.isRunning,
+            lastCheckTime: this.lastCheckTime,
+            rotationsLast24h,
+            remainingBudget: Math.max(this.config.maxRotationsPerDay - rotationsLast24h, 0),
+            gapStates: Array.from(this.gapStates.values()),
+            history: [...this.history]
+        };
+    }
+
+    /**
+     * 🔍 执行一轮检查
+     */
+    async performCheck(): Promise<void> {
+        if (this.isChecking) return;
+        this.isChecking = true;
+
+        try {
+            this.lastCheckTime = Date.now();
+
+            const instances = this.strategyManager.listInstances()
+                .filter(instance => instance.status === StrategyStatus.RUNNING && this.config.strategyTypes.includes(instance.type));
+
+            // 清理已不再运行的实例的差距状态
+            const runningIds = new Set(instances.map(instance => instance.id));
+            for (const instanceId of this.gapStates.keys()) {
+                if (!runningIds.has(instanceId)) this.gapStates.delete(instanceId);
+            }
+
+            for (const instance of instances) {
+                const candidate = this.selectCandidate();
+                if (!candidate) {
+                    this.gapStates.clear();
+                    return;
+                }
+
+                const gapState = await this.evaluateInstance(instance, candidate);
+                if (gapState && this.isRotationDue(instance, gapState)) {
+                    await this.rotate(instance, candidate, gapState);
+                }
+            }
+        } finally {
+            this.isChecking = false;
+        }
+    }
+
+    /**
+     * 候选池：爬虫最近一轮中合格且未被任何活跃实例使用的最高评分池
+     */
+    private selectCandidate(): ProcessedPoolData | null {
+        const usedPools = new Set(this.strategyManager.listInstances()
+            .filter(instance => instance.status !== StrategyStatus.STOPPED && instance.status !== StrategyStatus.ERROR)
+            .map(instance => instance.config?.poolAddress));
+
+        return this.poolCrawler.getDiscoveredPools()
+            .filter(pool => pool.isQualified && pool.score >= this.config.minCandidateScore && !usedPools.has(pool.poolAddress))
+            .sort((a, b) => b.score - a.score)[0] || null;
+    }
+
+    /**
+     * 计算实例收益差距并更新跟踪状态，差距不足时清除状态
+     * 实例收益率取分析服务的过去1小时日化手续费收益率，候选池取24h APR（同为日收益率%）
+     */
+    private async evaluateInstance(instance: StrategyInstance, candidate: ProcessedPoolData): Promise<RotationGapState | null> {
+        const analytics = this.serviceFactory.getInstanceContainer(instance.id)?.positionAnalyticsService;
+        if (!analytics) {
+            return null;
+        }
+
+        let instanceYieldPct: number;
+        try {
+            const yieldStats = await analytics.getYieldStatistics();
+            instanceYieldPct = yieldStats.dualYieldRates.feeYieldEfficiency.lastHour;
+        } catch (error) {
+            await this.logger.logError('strategy-rotation', `[StrategyRotation] 获取实例收益率失败: ${instance.id}`, error as Error);
+            return null;
+        }
+
+        const candidateYieldPct = candidate.apr['24h'];
+        const gapPct = candidateYieldPct - instanceYieldPct;
+        const now = Date.now();
+
+        if (gapPct < this.config.minYieldGapPct) {
+            this.gapStates.delete(instance.id);
+            return null;
+        }
+
+        const existing = this.gapStates.get(instance.id);
+        const gapState: RotationGapState = {
+            instanceId: instance.id,
+            firstDetectedAt: existing?.firstDetectedAt ?? now,
+            lastCheckedAt: now,
+            candidatePoolAddress: candidate.poolAddress,
+            instanceYieldPct,
+            candidateYieldPct,
+            gapPct
+        };
+        this.gapStates.set(instance.id, gapState);
+        return gapState;
+    }
+
+    private isRotationDue(instance: StrategyInstance, gapState: RotationGapState): boolean {
+        const now = Date.now();
+        const startedAt = instance.startedAt ? new Date(instance.startedAt).getTime() : now;
+
+        if (now - startedAt < this.config.minHoldingMinutes * 60 * 1000) return false;
+        if (now - gapState.firstDetectedAt < this.config.gapPersistenceMinutes * 60 * 1000) return false;
+        return this.countRecentRotations() < this.config.maxRotationsPerDay;
+    }
+
+    /**
+     * 🔄 止损旧实例并在候选池上以相同配置重新启动
+     * 价格重建上下限以旧池价格计价，不带到新池
+     */
+    private async rotate(instance: StrategyInstance, candidate: ProcessedPoolData, gapState: RotationGapState): Promise<void> {
+        const record: RotationRecord = {
+            timestamp: Date.now(),
+            fromInstanceId: instance.id,
+            fromPoolAddress: instance.config?.poolAddress,
+            toPoolAddress: candidate.poolAddress,
+            instanceYieldPct: gapState.instanceYieldPct,
+            candidateYieldPct: gapState.candidateYieldPct,
+            candidateScore: candidate.score,
+            success: false
+        };
+
+        try {
+            await this.logger.logBusinessOperation('🔄 策略轮换开始', { ...record });
+
+            await this.strategyManager.executeManualStopLoss(instance.id);
+            try {
+                await this.strategyManager.stopInstance(instance.id);
+            } catch (error) {
+                await this.logger.logError('strategy-rotation', `[StrategyRotation] 停止旧实例失败: ${instance.id}`, error as Error);
+            }
+
+            const { maxPriceForRecreation: _max, minPriceForRecreation: _min, ...baseConfig } = instance.config || {};
+            const config = { ...baseConfig, poolAddress: candidate.poolAddress };
+            const name = `${instance.name.split(' → ')[0]} → ${candidate.tokenPair}`;
+
+            const toInstanceId = await this.strategyManager.createInstance(instance.type, name, config);
+            record.toInstanceId = toInstanceId;
+            await this.strategyManager.startInstance(toInstanceId);
+            record.success = true;
+
+            await this.linkQualifiedPool(candidate, toInstanceId, instance.type, name, config);
+            await this.logger.logBusinessOperation('✅ 策略轮换完成', { ...record });
+        } catch (error) {
+            record.error = (error as Error).message;
+            await this.logger.logError('strategy-rotation', `[StrategyRotation] 策略轮换失败: ${instance.id}`, error as Error);
+        } finally {
+            // 止损已执行即计入每日额度，无论重新启动是否成功
+            this.gapStates.delete(instance.id);
+            this.history.push(record);
+            if (this.history.length > StrategyRotationController.HISTORY_LIMIT) {
+                this.history = this.history.slice(-StrategyRotationController.HISTORY_LIMIT);
+            }
+            await this.saveHistory();
+            await this.eventBus.publish('strategy.rotation', record, 'StrategyRotationController');
+        }
+    }
+
+    /**
+     * 新实例记录到合格池（池仍在合格池列表中时）
+     */
+    private async linkQualifiedPool(candidate: ProcessedPoolData, instanceId: string, strategyType: string, name: string, config: any): Promise<void> {
+        if (!this.qualifiedPoolsManager.hasPool(candidate.poolAddress) ||
+            (strategyType !== 'chain_position' && strategyType !== 'simple-y')) {
+            return;
+        }
+
+        await this.qualifiedPoolsManager.linkStrategy(candidate.poolAddress, {
+            instanceId,
+            strategyType,
+            name,
+            mode: config.mode === 'paper' ? 'paper' : 'live',
+            launchedAt: Date.now(),
+            params: {
+                positionAmount: config.positionAmount,
+                binRange: config.binRange,
+                slippageBps: config.slippageBps
+            },
+            poolSnapshot: {
+                liquidity: candidate.liquidity,
+                apr24h: candidate.apr['24h'],
+                volume24h: candidate.volume['24h'],
+                binStep: candidate.binStep,
+                score: candidate.score
+            }
+        });
+    }
+
+    private countRecentRotations(): number {
+        const cutoff = Date.now() - StrategyRotationController.DAY_MS;
+        return this.history.filter(record => record.timestamp >= cutoff).length;
+    }
+
+    private async loadHistory(): Promise<void> {
+        try {
+            const content = await fs.readFile(this.historyPath, 'utf-8');
+            this.history = (JSON.parse(content) as { records?: RotationRecord[] }).records || [];
+        } catch (error: any) {
+            if (error.code !== 'ENOENT') {
+                await this.logger.logError('strategy-rotation', '[StrategyRotation] 轮换历史加载失败', error as Error);
+            }
+        }
+    }
+
+    private async saveHistory(): Promise<void> {
+        await fs.mkdir(path.dirname(this.historyPath), { recursive: true });
+
+        const tempPath = this.historyPath + '.tmp';
+        await fs.writeFile(tempPath, JSON.stringify({ records: this.history, updatedAt: Date.now() }, null, 2), 'utf-8');
+        await fs.rename(tempPath, this.historyPath);
+    }
+}
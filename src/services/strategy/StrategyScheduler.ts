@@ -1,7 +1,11 @@
 import 'reflect-metadata';
 import { injectable, inject } from 'tsyringe';
-import { TYPES, ILoggerService } from '../../types/interfaces';
+import { TYPES, ILoggerService, IConfigService, IMeteoraService } from '../../types/interfaces';
 import { StrategyRegistry, IStrategyExecutor } from './StrategyRegistry';
+import { StrategyTrigger, StrategyTriggerAction, StrategyTriggerCondition, StrategyTriggerStatus } from '../../types/strategy';
+import { CronExpression } from './CronExpression';
+import fs from 'fs/promises';
+import path from 'path';
 
 export interface StrategyRuntime {
     instanceId: string;
@@ -16,12 +20,26 @@ export interface SchedulerConfig {
     maxConcurrency: number;
     retryDelayMs: number;
     maxRetries: number;
+    triggerCheckInterval: number;   // 触发器检查间隔（毫秒）
+}
+
+// 新建触发器参数（time触发器可传ISO时间字符串，price触发器未指定池地址时使用实例配置中的池）
+export interface StrategyTriggerInput {
+    instanceId: string;
+    action: StrategyTriggerAction;
+    condition: StrategyTriggerCondition
+    | { type: 'time'; at: number | string }
+    | { type: 'price'; poolAddress?: string; above?: number; below?: number };
+    createdBy?: string;
 }
 
 /**
  * 事件驱动策略调度器 v2.0
  * 负责策略的一次性启动，不进行重复调度
  * 每个策略内部自主管理监控和事件响应
+ *
+ * 触发器：按时间、cron、池价格或其他实例停止等条件自动启停实例，
+ * 条件满足时通过 StrategyManager 设置的回调执行 startInstance/stopInstance
  */
 @injectable()
 export class StrategyScheduler {
@@ -32,16 +50,27 @@ export class StrategyScheduler {
 
     // 存储实例信息的回调函数，避免循环依赖
     private getInstanceCallback?: (instanceId: string) => any;
+    private triggerActionCallback?: (trigger: StrategyTrigger) => Promise<void>;
+
+    // ⏰ 触发器
+    private triggers: Map<string, StrategyTrigger> = new Map();
+    private triggerTimer: NodeJS.Timeout | null = null;
+    private isEvaluatingTriggers = false;
+    private readonly triggersPath: string;
 
     constructor(
         @inject(TYPES.LoggerService) private logger: ILoggerService,
-        @inject(TYPES.StrategyRegistry) private registry: StrategyRegistry
+        @inject(TYPES.StrategyRegistry) private registry: StrategyRegistry,
+        @inject(TYPES.ConfigService) private configService: IConfigService,
+        @inject(TYPES.MeteoraService) private meteoraService: IMeteoraService
     ) {
         this.config = {
             maxConcurrency: 10,
             retryDelayMs: 5000,
-            maxRetries: 3
+            maxRetries: 3,
+            triggerCheckInterval: 30000
         };
+        this.triggersPath = path.join(process.cwd(), 'data', 'strategy-triggers.json');
     }
 
     // 设置获取实例信息的回调函数，避免循环依赖
@@ -49,6 +78,11 @@ export class StrategyScheduler {
         this.getInstanceCallback = callback;
     }
 
+    // 设置触发器动作回调（由StrategyManager调用startInstance/stopInstance）
+    setTriggerActionCallback(callback: (trigger: StrategyTrigger) => Promise<void>): void {
+        this.triggerActionCallback = callback;
+    }
+
     async start(): Promise<void> {
         if (this.isRunning) {
             await this.logger.logSystem('WARN', '[StrategyScheduler] 调度器已在运行');
@@ -56,7 +90,19 @@ export class StrategyScheduler {
         }
 
         this.isRunning = true;
-        await this.logger.logSystem('INFO', '[StrategyScheduler] 事件驱动调度器启动成功 v2.0');
+
+        // ⏰ 加载并开始检查触发器
+        this.config.triggerCheckInterval = this.configService.get<number>('strategy.triggers.checkInterval', this.config.triggerCheckInterval);
+        await this.loadTriggers();
+        this.triggerTimer = setInterval(async () => {
+            try {
+                await this.evaluateTriggers();
+            } catch (error) {
+                await this.logger.logError('strategy-scheduler', '[StrategyScheduler] 触发器检查失败', error as Error);
+            }
+        }, this.config.triggerCheckInterval);
+
+        await this.logger.logSystem('INFO', `[StrategyScheduler] 事件驱动调度器启动成功 v2.0 (待触发: ${this.listTriggers({ status: 'pending' }).length})`);
     }
 
     async stop(): Promise<void> {
@@ -64,6 +110,11 @@ export class StrategyScheduler {
             return;
         }
 
+        if (this.triggerTimer) {
+            clearInterval(this.triggerTimer);
+            this.triggerTimer = null;
+        }
+
         // 停止所有活跃策略
         for (const [instanceId, runtime] of this.runtimeMap) {
             if (runtime.isActive) {
@@ -228,4 +279,323 @@ export class StrategyScheduler {
             .filter(([_, runtime]) => runtime.isActive && runtime.executionStatus === 'running')
             .map(([instanceId, _]) => instanceId);
     }
+
+    // ==================== ⏰ 触发器 ====================
+
+    /**
+     * 添加触发器（校验实例和条件，条件满足时自动启动/停止实例）
+     */
+    async addTrigger(input: StrategyTriggerInput): Promise<StrategyTrigger> {
+        const instance = this.getInstanceCallback ? this.getInstanceCallback(input.instanceId) : null;
+        if (!instance) {
+            throw new Error(`策略实例不存在: ${input.instanceId}`);
+        }
+        if (input.action !== 'start' && input.action !== 'stop') {
+            throw new Error(`不支持的触发动作: ${input.action}`);
+        }
+
+        const condition = this.normalizeCondition(input.condition, instance);
+        const trigger: StrategyTrigger = {
+            id: `trigger_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+            instanceId: input.instanceId,
+            action: input.action,
+            condition,
+            status: 'pending',
+            createdAt: Date.now(),
+            fireCount: 0,
+            ...(input.createdBy && { createdBy: input.createdBy })
+        };
+
+        this.triggers.set(trigger.id, trigger);
+        await this.saveTriggers();
+        await this.logger.logSystem('INFO', `[StrategyScheduler] ⏰ 添加触发器: ${trigger.id} (${trigger.action} ${input.instanceId}, ${this.describeCondition(condition)})`);
+        return trigger;
+    }
+
+    listTriggers(filter: { instanceId?: string; status?: StrategyTriggerStatus } = {}): StrategyTrigger[] {
+        return Array.from(this.triggers.values())
+            .filter(trigger => !filter.instanceId || trigger.instanceId === filter.instanceId)
+            .filter(trigger => !filter.status || trigger.status === filter.status)
+            .sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    getTrigger(triggerId: string): StrategyTrigger | null {
+        return this.triggers.get(triggerId) || null;
+    }
+
+    /**
+     * 取消待触发的触发器
+     */
+    async cancelTrigger(triggerId: string): Promise<StrategyTrigger> {
+        const trigger = this.triggers.get(triggerId);
+        if (!trigger) {
+            throw new Error(`触发器不存在: ${triggerId}`);
+        }
+        if (trigger.status !== 'pending') {
+            throw new Error(`触发器已结束，无法取消: ${triggerId} (${trigger.status})`);
+        }
+
+        trigger.status = 'cancelled';
+        await this.saveTriggers();
+        await this.logger.logSystem('INFO', `[StrategyScheduler] ⏰ 触发器已取消: ${triggerId}`);
+        return trigger;
+    }
+
+    /**
+     * 删除实例相关的全部触发器（实例被删除时调用）
+     * 依赖该实例的 after_instance 触发器一并标记为失败
+     */
+    async removeTriggersForInstance(instanceId: string): Promise<void> {
+        let changed = false;
+        for (const trigger of Array.from(this.triggers.values())) {
+            if (trigger.instanceId === instanceId) {
+                this.triggers.delete(trigger.id);
+                changed = true;
+            } else if (trigger.status === 'pending' && trigger.condition.type === 'after_instance' && trigger.condition.instanceId === instanceId) {
+                trigger.status = 'failed';
+                trigger.error = `依赖的策略实例已删除: ${instanceId}`;
+                changed = true;
+            }
+        }
+
+        if (changed) {
+            await this.saveTriggers();
+        }
+    }
+
+    /**
+     * 检查所有待触发的触发器（定时器调用）
+     */
+    async evaluateTriggers(now: number = Date.now()): Promise<void> {
+        if (this.isEvaluatingTriggers) {
+            return;
+        }
+        this.isEvaluatingTriggers = true;
+
+        try {
+            const pending = this.listTriggers({ status: 'pending' });
+            if (pending.length === 0) {
+                return;
+            }
+
+            // 同一轮检查中每个池只查询一次价格
+            const prices = new Map<string, Promise<number>>();
+            for (const trigger of pending) {
+                // 触发器可能在上一个触发器执行期间被取消
+                if (trigger.status !== 'pending') continue;
+
+                let firedAt: number | null = null;
+                try {
+                    firedAt = await this.checkCondition(trigger, now, prices);
+                } catch (error) {
+                    await this.logger.logError('strategy-scheduler', `[StrategyScheduler] 触发器条件检查失败: ${trigger.id}`, error as Error);
+                }
+                trigger.lastCheckedAt = now;
+
+                if (firedAt !== null) {
+                    await this.fireTrigger(trigger, firedAt);
+                }
+            }
+
+            await this.saveTriggers();
+        } finally {
+            this.isEvaluatingTriggers = false;
+        }
+    }
+
+    /**
+     * 判断触发条件是否满足，满足时返回触发时间
+     */
+    private async checkCondition(trigger: StrategyTrigger, now: number, prices: Map<string, Promise<number>>): Promise<number | null> {
+        const condition = trigger.condition;
+
+        switch (condition.type) {
+            case 'time':
+                return now >= condition.at ? now : null;
+
+            case 'cron': {
+                const from = trigger.lastCheckedAt || trigger.createdAt;
+                return CronExpression.parse(condition.expression).findMatchBetween(from, now) !== null ? now : null;
+            }
+
+            case 'price': {
+                if (!prices.has(condition.poolAddress)) {
+                    prices.set(condition.poolAddress, this.getPoolPrice(condition.poolAddress));
+                }
+                const price = await prices.get(condition.poolAddress)!;
+                trigger.lastPrice = price;
+                const aboveOk = condition.above === undefined || price >= condition.above;
+                const belowOk = condition.below === undefined || price <= condition.below;
+                return aboveOk && belowOk ? now : null;
+            }
+
+            case 'after_instance': {
+                const target = this.getInstanceCallback ? this.getInstanceCallback(condition.instanceId) : null;
+                if (!target) {
+                    trigger.status = 'failed';
+                    trigger.error = `依赖的策略实例不存在: ${condition.instanceId}`;
+                    return null;
+                }
+                return target.status === 'stopped' ? now : null;
+            }
+        }
+    }
+
+    /**
+     * 执行触发动作
+     * 实例状态不适用时（如启动已运行的实例）记为 skipped；cron 触发器执行后继续等待下一次
+     */
+    private async fireTrigger(trigger: StrategyTrigger, firedAt: number): Promise<void> {
+        const repeat = trigger.condition.type === 'cron';
+        const instance = this.getInstanceCallback ? this.getInstanceCallback(trigger.instanceId) : null;
+
+        trigger.lastFiredAt = firedAt;
+        trigger.fireCount++;
+        if (!repeat) {
+            trigger.status = 'fired';
+        }
+
+        if (!instance) {
+            trigger.status = 'failed';
+            trigger.lastResult = 'failed';
+            trigger.error = `策略实例不存在: ${trigger.instanceId}`;
+            return;
+        }
+
+        const applicable = trigger.action === 'start'
+            ? ['created', 'stopped', 'error'].includes(instance.status)
+            : ['running', 'paused'].includes(instance.status);
+        if (!applicable) {
+            trigger.lastResult = 'skipped';
+            await this.logger.logSystem('INFO', `[StrategyScheduler] ⏰ 触发器 ${trigger.id} 条件满足，实例 ${trigger.instanceId} 当前状态 ${instance.status}，跳过${trigger.action === 'start' ? '启动' : '停止'}`);
+            return;
+        }
+
+        try {
+            if (!this.triggerActionCallback) {
+                throw new Error('触发器动作回调未设置');
+            }
+            await this.triggerActionCallback(trigger);
+            trigger.lastResult = 'executed';
+            delete trigger.error;
+            await this.logger.logSystem('INFO', `[StrategyScheduler] ⏰ 触发器 ${trigger.id} 已执行: ${trigger.action} ${trigger.instanceId} (${this.describeCondition(trigger.condition)})`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            trigger.lastResult = 'failed';
+            trigger.error = errorMessage;
+            if (!repeat) {
+                trigger.status = 'failed';
+            }
+            await this.logger.logError('strategy-scheduler', `[StrategyScheduler] 触发器执行失败: ${trigger.id}`, error as Error);
+        }
+    }
+
+    private async getPoolPrice(poolAddress: string): Promise<number> {
+        if (!this.meteoraService.getPoolPriceAndBin) {
+            throw new Error('MeteoraService 不支持查询池价格');
+        }
+        const { activePrice } = await this.meteoraService.getPoolPriceAndBin(poolAddress);
+        return activePrice;
+    }
+
+    /**
+     * 校验并补全触发条件
+     */
+    private normalizeCondition(condition: StrategyTriggerInput['condition'], instance: any): StrategyTriggerCondition {
+        if (!condition || typeof condition !== 'object') {
+            throw new Error('缺少触发条件');
+        }
+
+        switch (condition.type) {
+            case 'time': {
+                const at = typeof condition.at === 'string' ? Date.parse(condition.at) : Number(condition.at);
+                if (!Number.isFinite(at)) {
+                    throw new Error('time触发器需要有效的时间 at');
+                }
+                if (at <= Date.now()) {
+                    throw new Error('time触发器的时间必须晚于当前时间');
+                }
+                return { type: 'time', at };
+            }
+
+            case 'cron':
+                if (typeof condition.expression !== 'string') {
+                    throw new Error('cron触发器需要 expression');
+                }
+                CronExpression.parse(condition.expression);
+                return { type: 'cron', expression: condition.expression.trim() };
+
+            case 'price': {
+                const poolAddress = condition.poolAddress || instance.config?.poolAddress;
+                if (!poolAddress || typeof poolAddress !== 'string') {
+                    throw new Error('price触发器需要池地址 poolAddress');
+                }
+                const above = condition.above === undefined || condition.above === null ? undefined : Number(condition.above);
+                const below = condition.below === undefined || condition.below === null ? undefined : Number(condition.below);
+                if (above === undefined && below === undefined) {
+                    throw new Error('price触发器需要设置 above 或 below');
+                }
+                if ((above !== undefined && !(above >= 0)) || (below !== undefined && !(below >= 0))) {
+                    throw new Error('price触发器的价格必须是非负数');
+                }
+                if (above !== undefined && below !== undefined && above > below) {
+                    throw new Error('price触发器的 above 不能大于 below');
+                }
+                return {
+                    type: 'price',
+                    poolAddress,
+                    ...(above !== undefined && { above }),
+                    ...(below !== undefined && { below })
+                };
+            }
+
+            case 'after_instance': {
+                if (!condition.instanceId || condition.instanceId === instance.id) {
+                    throw new Error('after_instance触发器需要指定另一个策略实例');
+                }
+                const target = this.getInstanceCallback ? this.getInstanceCallback(condition.instanceId) : null;
+                if (!target) {
+                    throw new Error(`依赖的策略实例不存在: ${condition.instanceId}`);
+                }
+                return { type: 'after_instance', instanceId: condition.instanceId };
+            }
+
+            default:
+                throw new Error(`不支持的触发条件类型: ${(condition as any).type}`);
+        }
+    }
+
+    private describeCondition(condition: StrategyTriggerCondition): string {
+        switch (condition.type) {
+            case 'time':
+                return `时间 ${new Date(condition.at).toISOString()}`;
+            case 'cron':
+                return `cron "${condition.expression}"`;
+            case 'price':
+                return `价格${condition.above !== undefined ? ` >= ${condition.above}` : ''}${condition.below !== undefined ? ` <= ${condition.below}` : ''}`;
+            case 'after_instance':
+                return `实例 ${condition.instanceId} 停止后`;
+        }
+    }
+
+    private async loadTriggers(): Promise<void> {
+        try {
+            const content = await fs.readFile(this.triggersPath, 'utf-8');
+            const triggers = JSON.parse(content) as StrategyTrigger[];
+            this.triggers = new Map(triggers.map(trigger => [trigger.id, trigger]));
+        } catch (error) {
+            if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+                return;
+            }
+            await this.logger.logError('strategy-scheduler', '[StrategyScheduler] 加载触发器失败', error as Error);
+        }
+    }
+
+    private async saveTriggers(): Promise<void> {
+        // 🔒 原子写入：先写临时文件，再重命名
+        await fs.mkdir(path.dirname(this.triggersPath), { recursive: true });
+        const tempPath = this.triggersPath + '.tmp';
+        await fs.writeFile(tempPath, JSON.stringify(Array.from(this.triggers.values()), null, 2), 'utf-8');
+        await fs.rename(tempPath, this.triggersPath);
+    }
 } 
\ No newline at end of file
@@ -10,16 +10,31 @@
 
 import 'reflect-metadata';
 import { injectable, inject } from 'tsyringe';
-import { TYPES, ILoggerService, IEventBus, IStrategyLogger, IPositionManager, IDLMMMonitorService, ISolanaWeb3Service, IWalletService, IJupiterService, IGasService } from '../../../types/interfaces';
-import { IStrategyExecutor, ExecutorStatus } from '../StrategyRegistry';
+import { TYPES, ILoggerService, IEventBus, IStrategyLogger, IPositionManager, IDLMMMonitorService, ISolanaWeb3Service, IWalletService, IJupiterService, IGasService, PositionResult } from '../../../types/interfaces';
+import { IStrategyExecutor, ExecutorStatus, StopLossResult, RecoveryResult } from '../StrategyRegistry';
+import { StrategyJournal } from '../storage/StrategyJournal';
+import { StrategyPerformanceService } from '../StrategyPerformanceService';
+import { buildPositionStrategyParameters } from './PositionStrategyParameters';
+import { StrategyConfigSchema, StrategyConfigChange } from '../../../types/strategy';
 import { ChainPositionManager } from '../../business/ChainPositionManager';
+import {
+    ChainPositionGeometry, DEFAULT_CHAIN_POSITION_GEOMETRY, CHAIN_MAX_SEGMENTS, CHAIN_SEGMENT_MAX_BINS, resolveChainPositionGeometry,
+    validateChainPositionGeometry, calculateChainSegmentRanges, calculateChainSegmentFunding, getChainMonitoredRange, getChainGeometryBinCount
+} from '../../business/ChainPositionGeometry';
 import { SmartStopLossModule, MarketData } from '../../modules/SmartStopLossModule';
-import { PositionRecreationModule, PositionRecreationConfig, RecreationCheckParams, RecreationDecision } from '../../modules/PositionRecreationModule';
+import { PositionRecreationModule, PositionRecreationConfig, RecreationCheckParams, RecreationDecision, RecreationStateSnapshot } from '../../modules/PositionRecreationModule';
+import { PositionHedgeModule, PositionHedgeConfig, HedgeDecision } from '../../modules/PositionHedgeModule';
 import { PositionAnalyticsService } from '../../business/PositionAnalyticsService';
-import { PositionSetupParams, AnalyticsReport } from '../../../types/analytics-types';
+import { PositionSetupParams, AnalyticsReport, HedgeStatistics } from '../../../types/analytics-types';
 import { AccumulatedYieldManager } from '../../business/analytics/AccumulatedYieldManager';
 import { SynchronousRetryMixin } from './mixins/SynchronousRetryMixin';
 import { InstanceAwareServiceFactory } from '../../business/InstanceAwareServiceFactory';
+import { PaperTradingService } from '../../business/PaperTradingService';
+
+// 代币交换的业务场景（日志标签和操作历史中的reason）
+type SwapContext = 'STOP_LOSS' | 'POSITION_RECREATION' | 'HEDGE';
+const SWAP_CONTEXT_LABELS: Record<SwapContext, string> = { STOP_LOSS: '止损', POSITION_RECREATION: '头寸重建', HEDGE: '对冲' };
+const SWAP_CONTEXT_REASONS: Record<SwapContext, string> = { STOP_LOSS: 'stop_loss', POSITION_RECREATION: 'position_recreation', HEDGE: 'hedge' };
 
 // 连锁头寸策略配置接口
 export interface ChainPositionConfig {
@@ -27,6 +42,18 @@ export interface ChainPositionConfig {
     chainPositionType: 'Y_CHAIN' | 'X_CHAIN' | 'DUAL_CHAIN';
     positionAmount: number;
     binRange: number;
+    geometry?: ChainPositionGeometry;  // 连锁头寸几何，未配置时为两个69-bin头寸
+    trailing?: {                       // 向上跟随：价格向上脱离范围时滚动分段（仅below几何）
+        enabled?: boolean;
+        minRollIntervalSeconds?: number;   // 两次滚动的最小间隔（秒），默认300
+        maxRollsPerHour?: number;          // 每小时最多滚动次数，默认4
+    };
+    hedging?: {                        // X敞口对冲：通过Jupiter逐步卖出头寸中累积的X代币（仅below几何）
+        enabled?: boolean;
+        hedgeRatio?: number;               // X敞口占头寸价值的上限(%)，默认50
+        minHedgePercentage?: number;       // 单次对冲的最小卖出价值（占头寸价值的%），默认2
+        minHedgeIntervalSeconds?: number;  // 两次对冲的最小间隔（秒），默认300
+    };
     monitoringInterval: number;
     outOfRangeTimeout: number;
     yieldExtractionThreshold?: string; // 收益提取阈值，可选参数
@@ -42,11 +69,15 @@ export interface ChainPositionConfig {
         activeBinSafetyThreshold?: number;
         observationPeriodMinutes?: number;
         lossThresholdPercentage?: number;
+        partialExitPercentage?: number;
+        maxPartialExits?: number;
     };
     smartStopLoss?: {    // 智能止损配置路径
         activeBinSafetyThreshold?: number;
         observationPeriodMinutes?: number;
         lossThresholdPercentage?: number;
+        partialExitPercentage?: number;
+        maxPartialExits?: number;
     };
 
     // 🏗️ 头寸重建配置
@@ -78,14 +109,21 @@ export interface ChainPositionConfig {
     };
 }
 
+// 单个分段的范围（与 positionAddresses 顺序一致）
+export interface ChainPositionSegmentState {
+    lowerBin: number;
+    upperBin: number;
+    specIndex: number;                    // 对应 geometry.segments 的下标，滚动时沿用该分段的宽度、形状和资金
+}
+
 // 策略状态接口 - 简化，移除决策相关状态
 export interface ChainPositionState {
     instanceId: string;
     config: ChainPositionConfig;
     phase: 'CREATED' | 'CREATING' | 'MONITORING' | 'ANALYZING' | 'STOPPING' | 'STOPPED' | 'ERROR' | 'CLEANING';
-    position1Address?: string | null;
-    position2Address?: string | null;
-    positionRange: [number, number] | null;
+    positionAddresses: string[];          // 按几何分段顺序排列
+    segments?: ChainPositionSegmentState[];
+    positionRange: [number, number] | null; // 监控范围：所有分段的合并范围，包含创建时的活跃bin
     currentActiveBin: number | null;
     isInRange: boolean;
     createdAt: Date;
@@ -105,6 +143,37 @@ export interface ChainPositionState {
     dynamicRecreationSwitchEnabled?: boolean;  // 动态重建开关状态（true=开启=禁止重建，false=关闭=允许重建）
     lastBenchmarkYield5Min?: number;           // 最后一次15分钟平均基准收益率
     lastSwitchUpdateTime?: Date;               // 开关状态最后更新时间
+
+    // 🪜 向上跟随滚动
+    rollTimestamps?: number[];                 // 最近一小时内的滚动时间（毫秒）
+
+    // ✂️ 部分止损 / 🛡️ 对冲
+    remainingFraction?: number;                // 部分止损或对冲后头寸中剩余的投入比例（未移除过流动性时不设置）
+    hedge?: HedgeStatistics;                   // 对冲统计（跨头寸重建累计）
+}
+
+// 事件日志中的状态快照 - 仅包含重启后需要恢复的字段（日期序列化为ISO字符串）
+export interface ChainPositionStateSnapshot {
+    phase: ChainPositionState['phase'];
+    positionAddresses?: string[];
+    position1Address?: string | null;     // 旧版本快照字段，恢复时兼容读取
+    position2Address?: string | null;
+    segments?: ChainPositionSegmentState[];
+    positionRange: [number, number] | null;
+    hasBeenCreated: boolean;
+    isActive: boolean;
+    stoppingReason: ChainPositionState['stoppingReason'];
+    cleanupRetryCount?: number;
+    cleanupTargets?: string[];
+    lastCleanupAttempt?: string;
+    dynamicRecreationSwitchEnabled?: boolean;
+    lastBenchmarkYield5Min?: number;
+    lastSwitchUpdateTime?: string;
+    rollTimestamps?: number[];
+    remainingFraction?: number;
+    hedge?: HedgeStatistics;
+    createdAt: string;
+    recreation?: RecreationStateSnapshot;
 }
 
 /**
@@ -113,18 +182,31 @@ export interface ChainPositionState {
  * ✅ 修复说明：
  * - 不再使用有问题的 PositionManager.createPosition()
  * - 改用专门的 ChainPositionManager.createChainPosition()
- * - 支持真正的138个bin连锁头寸创建
- * - 正确处理两个头寸地址的状态管理
+ * - 按几何配置（geometry）创建N个连续头寸，默认两个69-bin头寸共138个bin
+ * - 正确处理所有分段头寸地址的状态管理
  * 
  * 🎯 功能特性：
- * - 自动创建连锁头寸（两个连续的69个bin头寸）
- * - 差异化资金分配策略（20%-60%-20%）
+ * - 自动创建连锁头寸（分段宽度、方向、流动性形状和资金权重可配置）
+ * - 差异化资金分配策略（默认20%-60%-20%）
  * - 实时监控和范围检查
  * - 智能止损和重新创建机制
  */
 @injectable()
 export class ChainPositionExecutor extends SynchronousRetryMixin implements IStrategyExecutor {
 
+    // 向上跟随的成本控制默认值
+    private static readonly TRAILING_DEFAULTS = {
+        minRollIntervalSeconds: 300,
+        maxRollsPerHour: 4
+    };
+
+    // X敞口对冲默认值
+    private static readonly HEDGING_DEFAULTS = {
+        hedgeRatio: 50,
+        minHedgePercentage: 2,
+        minHedgeIntervalSeconds: 300
+    };
+
     getType(): string {
         return 'chain_position';
     }
@@ -133,6 +215,86 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         return 'vv2.0.0-event-driven';
     }
 
+    getConfigSchema(): StrategyConfigSchema {
+        return {
+            name: '连锁头寸策略',
+            description: '按几何配置创建多个连续头寸（默认两个69-bin头寸，覆盖138个bin），支持智能止损和头寸重建',
+            parameters: buildPositionStrategyParameters(
+                { name: 'binRange', type: 'number', description: 'bin范围（由连锁头寸几何决定，默认138）', default: 138, min: 1, max: CHAIN_SEGMENT_MAX_BINS * CHAIN_MAX_SEGMENTS, integer: true },
+                [
+                    {
+                        name: 'chainPositionType',
+                        type: 'select',
+                        description: '连锁头寸类型',
+                        default: 'DUAL_CHAIN',
+                        options: [
+                            { value: 'Y_CHAIN', label: 'Y连锁' },
+                            { value: 'X_CHAIN', label: 'X连锁' },
+                            { value: 'DUAL_CHAIN', label: '双连锁' }
+                        ]
+                    },
+                    {
+                        name: 'geometry',
+                        type: 'object',
+                        description: '连锁头寸几何（不填为两个69-bin头寸，20%-60%-20%资金分配）',
+                        help: 'segments为分段数组，每个分段包含binCount、shape(spot/bidask/curve)、weight和可选的topUp',
+                        parameters: [
+                            {
+                                name: 'direction',
+                                type: 'select',
+                                description: '分段方向',
+                                required: true,
+                                options: [
+                                    { value: 'below', label: '活跃bin下方（Y代币）' },
+                                    { value: 'above', label: '活跃bin上方（X代币）' },
+                                    { value: 'straddle', label: '跨越活跃bin' }
+                                ]
+                            },
+                            { name: 'segmentsBelow', type: 'number', description: '跨越时位于下方的分段数量', min: 1, max: CHAIN_MAX_SEGMENTS - 1, integer: true }
+                        ]
+                    },
+                    {
+                        name: 'trailing',
+                        type: 'object',
+                        description: '向上跟随：价格向上脱离范围时关闭最低的分段，在活跃bin下方新建分段',
+                        hot: true,
+                        parameters: [
+                            { name: 'enabled', type: 'boolean', description: '启用向上跟随', default: false },
+                            { name: 'minRollIntervalSeconds', type: 'number', description: '两次滚动的最小间隔(秒)', default: ChainPositionExecutor.TRAILING_DEFAULTS.minRollIntervalSeconds, min: 30, integer: true },
+                            { name: 'maxRollsPerHour', type: 'number', description: '每小时最多滚动次数', default: ChainPositionExecutor.TRAILING_DEFAULTS.maxRollsPerHour, min: 1, max: 60, integer: true }
+                        ]
+                    },
+                    {
+                        name: 'hedging',
+                        type: 'object',
+                        description: 'X敞口对冲：价格下跌使头寸中的X代币超过比例时，移除活跃bin上方的部分流动性并通过Jupiter卖出X代币',
+                        hot: true,
+                        parameters: [
+                            { name: 'enabled', type: 'boolean', description: '启用X敞口对冲', default: false },
+                            { name: 'hedgeRatio', type: 'number', description: 'X敞口占头寸价值的上限(%)', default: ChainPositionExecutor.HEDGING_DEFAULTS.hedgeRatio, min: 0, max: 95 },
+                            { name: 'minHedgePercentage', type: 'number', description: '单次对冲最小卖出价值(占头寸价值%)', default: ChainPositionExecutor.HEDGING_DEFAULTS.minHedgePercentage, min: 0, max: 50 },
+                            { name: 'minHedgeIntervalSeconds', type: 'number', description: '两次对冲的最小间隔(秒)', default: ChainPositionExecutor.HEDGING_DEFAULTS.minHedgeIntervalSeconds, min: 30, integer: true }
+                        ]
+                    }
+                ]
+            )
+        };
+    }
+
+    /**
+     * 几何分段为数组结构，参数Schema无法表达，在这里完整校验
+     */
+    validateConfig(config: ChainPositionConfig): string[] {
+        const errors = config.geometry ? validateChainPositionGeometry(config.geometry) : [];
+        if (config.trailing?.enabled && config.geometry && config.geometry.direction !== 'below') {
+            errors.push('trailing 只支持 direction 为 below 的几何（滚动新建的分段使用Y代币）');
+        }
+        if (config.hedging?.enabled && config.geometry && config.geometry.direction !== 'below') {
+            errors.push('hedging 只支持 direction 为 below 的几何（活跃bin上方的分段本身持有X代币）');
+        }
+        return errors;
+    }
+
     async initialize(config: ChainPositionConfig): Promise<void> {
         // 执行器级别的初始化（如果需要）
     }
@@ -144,6 +306,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
     private instanceLoggers: Map<string, IStrategyLogger> = new Map();
     private smartStopLossModules: Map<string, SmartStopLossModule> = new Map();
     private positionRecreationModules: Map<string, PositionRecreationModule> = new Map(); // 🔥 新增：头寸重建模块
+    private hedgeModules: Map<string, PositionHedgeModule> = new Map(); // 🛡️ X敞口对冲模块
     private monitoringTimers: Map<string, NodeJS.Timeout> = new Map();
     private analyticsServiceSetup: Map<string, boolean> = new Map(); // 跟踪分析服务设置状态
     private positionAnalyticsServices: Map<string, PositionAnalyticsService> = new Map(); // 🔑 每个实例独立的分析服务
@@ -180,7 +343,10 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         @inject(TYPES.WalletService) private walletService: IWalletService,
         @inject(TYPES.JupiterService) private jupiterService: IJupiterService,
         @inject(InstanceAwareServiceFactory) private instanceAwareServiceFactory: InstanceAwareServiceFactory,
-        @inject(TYPES.GasService) private gasService: IGasService
+        @inject(TYPES.GasService) private gasService: IGasService,
+        @inject(PaperTradingService) private paperTradingService: PaperTradingService,
+        @inject(TYPES.StrategyJournal) private journal: StrategyJournal,
+        @inject(TYPES.StrategyPerformanceService) private performanceService: StrategyPerformanceService
     ) {
         super(); // 调用SynchronousRetryMixin的构造函数
     }
@@ -207,8 +373,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             const existingState = this.instanceStates.get(instanceId);
             if (existingState && existingState.hasBeenCreated) {
                 await this.getInstanceLogger(instanceId)?.logMonitoring(`策略实例已创建过连锁头寸，跳过重复创建`, {
-                    position1Address: existingState.position1Address,
-                    position2Address: existingState.position2Address,
+                    positionAddresses: existingState.positionAddresses,
                     phase: existingState.phase,
                     hasBeenCreated: existingState.hasBeenCreated
                 });
@@ -225,8 +390,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                 instanceId,
                 config,
                 phase: 'CREATING',
-                position1Address: null,
-                position2Address: null,
+                positionAddresses: [],
                 positionRange: null,
                 currentActiveBin: null,
                 isInRange: false,
@@ -240,6 +404,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
 
             // 🆕 初始化动态重建开关状态
             this.initializeDynamicRecreationSwitch(instanceId);
+            await this.recordState(instanceId, 'create_started');
 
             // 🎯 步骤1: 创建连锁头寸
             await this.createChainPosition(instanceId);
@@ -295,11 +460,14 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                 totalAmount: config.positionAmount,
                 password: '',  // 策略执行使用解锁的钱包
                 slippageBps: 800,
+                ...(config.geometry && { geometry: config.geometry }),
                 instanceId // 🔑 传递实例ID
             };
 
-            // 调用ChainPositionManager创建连锁头寸
-            const result = await this.chainPositionManager.createChainPosition(createParams);
+            // 调用ChainPositionManager创建连锁头寸（模拟盘实例记入虚拟账本）
+            const result = this.paperTradingService.isPaperInstance(instanceId)
+                ? await this.paperTradingService.createChainPosition(instanceId, createParams)
+                : await this.chainPositionManager.createChainPosition(createParams);
 
             if (!result.success) {
                 throw new Error(`连锁头寸创建失败: ${result.error}`);
@@ -308,17 +476,47 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             // 保存结果到状态
             const state = this.instanceStates.get(instanceId);
             if (state) {
-                state.position1Address = result.position1Address || null;
-                state.position2Address = result.position2Address || null;
+                state.positionAddresses = result.positionAddresses || [];
+                state.segments = (result.segments || []).map(segment => ({
+                    lowerBin: segment.lowerBin,
+                    upperBin: segment.upperBin,
+                    specIndex: segment.index
+                }));
+                delete state.remainingFraction;
+                const firstSignature = result.segments?.[0]?.signature;
+
+                // 📓 头寸已上链，先记入事件日志再做后续计算
+                await this.recordAction(instanceId, 'chain_position_created', {
+                    positionAddresses: state.positionAddresses,
+                    segments: (result.segments || []).map(segment => ({
+                        address: segment.positionAddress,
+                        side: segment.side,
+                        range: [segment.lowerBin, segment.upperBin],
+                        signature: segment.signature,
+                        ...(segment.topUpSignature && { topUpSignature: segment.topUpSignature })
+                    })),
+                    ...(result.swapSignature && { swapSignature: result.swapSignature })
+                });
+                await this.performanceService.record(instanceId, 'position_created', {
+                    success: true,
+                    positionAddresses: state.positionAddresses,
+                    ...(firstSignature && { signature: firstSignature }),
+                    amount: String(config.positionAmount),
+                    ...(result.gasUsed && { cost: { gasUsed: result.gasUsed } })
+                });
 
-                // 🔧 设置头寸范围（修复范围检查被绕过的问题）
-                const binRangeData = await this.calculateChainPositionBinRange(instanceId);
-                state.positionRange = [binRangeData.positionLowerBin, binRangeData.positionUpperBin];
+                // 🔧 设置头寸范围（按几何计算的监控范围，修复范围检查被绕过的问题）
+                if (result.monitoredRange) {
+                    state.positionRange = result.monitoredRange;
+                } else {
+                    const binRangeData = await this.calculateChainPositionBinRange(instanceId);
+                    state.positionRange = [binRangeData.positionLowerBin, binRangeData.positionUpperBin];
+                }
+                await this.recordState(instanceId, 'positions_created');
 
                 // 记录成功到实例日志
                 await logger.logOperation('🎯 连锁头寸创建成功，准备启动监控', {
-                    position1Address: result.position1Address,
-                    position2Address: result.position2Address,
+                    positionAddresses: state.positionAddresses,
                     positionRange: state.positionRange,
                     totalBinRange: result.totalBinRange || '未知',
                     instanceId
@@ -329,6 +527,9 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             const state = this.instanceStates.get(instanceId);
             if (state) {
                 state.phase = 'ERROR';
+                await this.recordState(instanceId, 'create_failed', {
+                    error: error instanceof Error ? error.message : String(error)
+                });
             }
 
             await logger?.logError(`创建连锁头寸失败: ${error instanceof Error ? error.message : '未知错误'}`, error instanceof Error ? error : undefined);
@@ -368,13 +569,13 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             await logger.logMonitoring('🔄 启动事件驱动监控系统', {
                 monitoringInterval: state.config.monitoringInterval,
                 enableSmartStopLoss: state.config.enableSmartStopLoss,
-                position1Address: state.position1Address,
-                position2Address: state.position2Address,
+                positionAddresses: state.positionAddresses,
                 analyticsServiceSetup: this.analyticsServiceSetup.get(instanceId)
             });
 
             // 🎯 步骤3: 启动定时监控循环
             this.startMonitoringLoop(instanceId);
+            await this.recordState(instanceId, 'monitoring_started');
 
         } catch (error) {
             await logger.logError(`❌ 启动监控失败: ${error instanceof Error ? error.message : String(error)}`);
@@ -429,6 +630,11 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         // 🔥 清除上一个周期的市场数据缓存
         this.instanceMarketDataCache.delete(instanceId);
 
+        // 🛡️ 上次对冲未卖出的X代币每个周期重试卖出（与本周期的对冲决策无关）
+        if (state.hedge?.unsoldX) {
+            await this.retryUnsoldHedgeX(instanceId);
+        }
+
         // CLEANING状态处理逻辑
         if (state.phase === 'CLEANING') {
             await logger.logMonitoring('🧹 检测到CLEANING状态，执行清理重试', {
@@ -481,7 +687,12 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             // 2. 检查活跃bin位置
             await this.checkActiveBinPosition(instanceId);
 
-            // 3. 更新动态重建开关状态
+            // 3. X敞口对冲（头寸重建等操作改变阶段后跳过）
+            if (state.config.hedging?.enabled && state.phase === 'MONITORING') {
+                await this.checkHedgeRequirement(instanceId);
+            }
+
+            // 4. 更新动态重建开关状态
             await logger.logMonitoring('🔍 检查动态重建开关配置', {
                 benchmarkYieldThreshold5Min: state.config.benchmarkYieldThreshold5Min,
                 condition: !!(state.config.benchmarkYieldThreshold5Min && state.config.benchmarkYieldThreshold5Min > 0)
@@ -523,7 +734,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                 });
             }
 
-            // 4. 如果启用智能止损，执行完整分析
+            // 5. 如果启用智能止损，执行完整分析
             if (state.config.enableSmartStopLoss) {
                 await this.performSmartStopLossAnalysis(instanceId);
             }
@@ -666,7 +877,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             if (analyticsService) {
                 await logger?.logMonitoring('📊 开始调用PositionAnalyticsService获取分析数据', {
                     poolAddress: state.config.poolAddress,
-                    positionCount: [state.position1Address, state.position2Address].filter(Boolean).length,
+                    positionCount: state.positionAddresses.length,
                     cycleId: currentCycle
                 });
 
@@ -693,7 +904,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                         // 🎯 记录收益数据获取开始（监控轮询）
                         await logger?.logMonitoring('收益数据获取开始', {
                             poolAddress: state.config.poolAddress,
-                            positionCount: [state.position1Address, state.position2Address].filter(Boolean).length
+                            positionCount: state.positionAddresses.length
                         });
 
                         const completeReport = await analyticsService.getCompleteAnalyticsReport();
@@ -706,7 +917,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
 
                         await logger?.logMonitoring('开始获取完整分析报告 - 使用统一数据流', {
                             poolAddress: state.config.poolAddress,
-                            positionCount: [state.position1Address, state.position2Address].filter(Boolean).length
+                            positionCount: state.positionAddresses.length
                         });
 
                         // 🔧 构建MarketData，包含收益数据
@@ -927,15 +1138,13 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                 };
             }
 
-            // 如果没有保存的范围数据（可能是旧版本或创建失败），使用默认值
+            // 如果没有保存的范围数据（可能是旧版本或创建失败），按几何配置以当前活跃bin计算
             const logger = this.getInstanceLogger(instanceId);
             await logger?.logError('⚠️ 未找到连锁头寸bin范围数据，使用默认计算方法');
 
-            // 🎯 连锁头寸正确的bin范围计算：
-            // - 上边界 = 活跃bin（价格高的头寸上边界）
-            // - 下边界 = 活跃bin - 137（价格低的头寸下边界，总共138个bin）
-            const positionUpperBin = activeBin;
-            const positionLowerBin = activeBin - 137;
+            // 🎯 默认几何：上边界 = 活跃bin，下边界 = 活跃bin - 137（总共138个bin）
+            const geometry = resolveChainPositionGeometry(state.config.geometry);
+            const [positionLowerBin, positionUpperBin] = getChainMonitoredRange(calculateChainSegmentRanges(geometry, activeBin), activeBin);
 
             return {
                 activeBin,
@@ -945,10 +1154,11 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
 
         } catch (error) {
             // 出错时返回默认值
+            const binCount = getChainGeometryBinCount(state.config.geometry ?? DEFAULT_CHAIN_POSITION_GEOMETRY);
             return {
                 activeBin: 0,
-                positionLowerBin: -69,
-                positionUpperBin: 69
+                positionLowerBin: -Math.ceil(binCount / 2),
+                positionUpperBin: Math.ceil(binCount / 2)
             };
         }
     }
@@ -968,8 +1178,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                 phase: state.phase,
                 isActive: state.isActive,
                 stoppingReason: state.stoppingReason,
-                position1Address: state.position1Address,
-                position2Address: state.position2Address,
+                positionAddresses: state.positionAddresses,
                 lastUpdateTime: Date.now(),
                 timestamp: Date.now()
             };
@@ -1035,7 +1244,10 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                     benchmarkYieldRates: marketData.benchmarkYieldRates || null,
 
                     // 🔥 新增：动态重建开关状态
-                    dynamicRecreationSwitchEnabled: marketData.dynamicRecreationSwitchEnabled || false
+                    dynamicRecreationSwitchEnabled: marketData.dynamicRecreationSwitchEnabled || false,
+
+                    // 🛡️ 对冲统计（对冲成本单独展示）
+                    hedging: this.instanceStates.get(instanceId)?.hedge || null
                 },
                 stopLossDecision: {
                     action: decision.action,
@@ -1092,14 +1304,22 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                 });
                 break;
 
-            case 'PARTIAL_EXIT':
+            case 'PARTIAL_EXIT': {
+                const exitPercentage = decision.suggestedExitPercentage;
+                if (typeof exitPercentage !== 'number' || !(exitPercentage > 0 && exitPercentage <= 100)) {
+                    await logger.logError(`部分止损决策缺少有效的退出比例，跳过本次部分止损: ${exitPercentage}`);
+                    break;
+                }
+
                 await logger.logMonitoring('🔄 建议部分止损', {
-                    建议退出百分比: `${decision.suggestedExitPercentage || 50}%`,
+                    建议退出百分比: `${exitPercentage}%`,
                     紧急程度: decision.urgency === 'LOW' ? '低' :
                         decision.urgency === 'MEDIUM' ? '中' : '高'
                 });
-                // TODO: 实现部分止损逻辑
+
+                await this.executePartialStopLoss(instanceId, exitPercentage);
                 break;
+            }
 
             case 'FULL_EXIT':
                 await logger.logMonitoring('🛑 建议完全止损', {
@@ -1126,7 +1346,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
     /**
      * 🛑 手动止损入口 - 复用现有的完整止损流程
      */
-    async executeManualStopLoss(instanceId: string): Promise<void> {
+    async executeManualStopLoss(instanceId: string): Promise<StopLossResult> {
         const state = this.instanceStates.get(instanceId);
         const logger = this.getInstanceLogger(instanceId);
         if (!logger) {
@@ -1148,79 +1368,68 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         await this.broadcastStrategyStatusUpdate(instanceId, 'stopping', 'manual_stop_loss_started');
 
         // 直接调用现有的完整止损流程
-        await this.executeFullStopLoss(instanceId);
+        return await this.executeFullStopLoss(instanceId);
     }
 
     /**
      * 🛑 执行完全止损
      */
-    private async executeFullStopLoss(instanceId: string): Promise<void> {
+    private async executeFullStopLoss(instanceId: string): Promise<StopLossResult> {
+        const result: StopLossResult = { success: false, closedPositions: [], failedPositions: [] };
         const state = this.instanceStates.get(instanceId);
         const logger = this.getInstanceLogger(instanceId);
-        if (!state || !logger) return;
+        if (!state || !logger) {
+            result.error = `策略实例状态不存在: ${instanceId}`;
+            return result;
+        }
 
         try {
             state.phase = 'STOPPING';
+            await this.recordState(instanceId, 'stop_loss_started');
 
             // 🚀 预先优化Gas费用：为止损操作使用最高级优先费用
             await this.optimizeGasForStopLoss(instanceId, '智能止损-预优化');
 
             await logger.logOperation('🛑 开始执行智能止损', {
-                position1Address: state.position1Address,
-                position2Address: state.position2Address,
+                positionAddresses: state.positionAddresses,
                 reason: 'smart_stop_loss_triggered'
             });
 
-            // 🔥 步骤1: 并行关闭所有头寸（连锁头寸有两个头寸）
+            // 🔥 步骤1: 并行关闭所有分段头寸
             const closeResults: any[] = [];
-            const closePromises: Promise<any>[] = [];
-
-            if (state.position1Address) {
-                await logger.logOperation('🔄 开始关闭头寸1', {
-                    address: state.position1Address
-                });
-
-                const closePromise1 = this.executeAsyncStopLossWithRetry(
-                    async () => {
-                        const result = await this.positionManager.closePosition(state.position1Address!);
-                        if (!result.success) {
-                            throw new Error(`头寸1关闭失败: ${result.error || '未知错误'}`);
-                        }
-                        return { ...result, positionType: 'position1' };
-                    },
-                    instanceId
-                );
-                closePromises.push(closePromise1);
-            }
-
-            if (state.position2Address) {
-                await logger.logOperation('🔄 开始关闭头寸2', {
-                    address: state.position2Address
+            const closePromises = state.positionAddresses.map(async (positionAddress, index) => {
+                const positionType = `position${index + 1}`;
+                await logger.logOperation(`🔄 开始关闭头寸${index + 1}`, {
+                    address: positionAddress
                 });
 
-                const closePromise2 = this.executeAsyncStopLossWithRetry(
+                return this.executeAsyncStopLossWithRetry(
                     async () => {
-                        const result = await this.positionManager.closePosition(state.position2Address!);
+                        const result = await this.closePositionForInstance(instanceId, positionAddress);
                         if (!result.success) {
-                            throw new Error(`头寸2关闭失败: ${result.error || '未知错误'}`);
+                            throw new Error(`头寸${index + 1}关闭失败: ${result.error || '未知错误'}`);
                         }
-                        return { ...result, positionType: 'position2' };
+                        return { ...result, positionType, positionAddress };
                     },
                     instanceId
                 );
-                closePromises.push(closePromise2);
-            }
+            });
 
             // 等待所有头寸关闭完成 - 使用容错策略
             if (closePromises.length > 0) {
                 const results = await Promise.allSettled(closePromises);
 
                 // 收集成功的结果
-                for (const result of results) {
-                    if (result.status === 'fulfilled') {
-                        closeResults.push(result.value);
+                results.forEach((settled, index) => {
+                    if (settled.status === 'fulfilled') {
+                        closeResults.push(settled.value);
+                    } else {
+                        result.failedPositions.push({
+                            address: state.positionAddresses[index] || '',
+                            error: settled.reason instanceof Error ? settled.reason.message : String(settled.reason)
+                        });
                     }
-                }
+                });
 
                 // 如果有失败但有成功的，继续执行后续流程
                 const successCount = closeResults.length;
@@ -1237,12 +1446,21 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
 
                 // 只记录成功关闭的头寸
                 for (const successResult of closeResults) {
-                    const positionAddress = successResult.positionType === 'position1' ? state.position1Address : state.position2Address;
+                    const positionAddress: string = successResult.positionAddress;
+                    result.closedPositions.push({
+                        address: positionAddress,
+                        ...(successResult.signature && { signature: successResult.signature })
+                    });
+                    await this.recordAction(instanceId, 'position_closed', {
+                        address: positionAddress,
+                        signature: successResult.signature,
+                        reason: 'stop_loss'
+                    });
                     await this.loggerService.logStrategyOperationWithEcho(
                         instanceId,
                         `🛑 智能止损-${successResult.positionType}关闭完成`,
                         {
-                            positionAddress: positionAddress?.substring(0, 8) + '...',
+                            positionAddress: positionAddress.substring(0, 8) + '...',
                             positionType: successResult.positionType,
                             signature: successResult.signature,
                             gasUsed: successResult.gasUsed,
@@ -1280,6 +1498,13 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                     signature: swapResult.signature,
                     poolAddress: state.config.poolAddress
                 });
+                result.swap = {
+                    inputAmount: xTokenBalance,
+                    outputAmount: swapResult.outputAmount,
+                    signature: swapResult.signature
+                };
+                await this.recordAction(instanceId, 'swap_executed', { ...result.swap, reason: 'stop_loss' });
+                this.settleUnsoldHedgeX(instanceId);
             } else {
                 await logger.logOperation('ℹ️ 未检测到X代币余额，跳过卖出操作', {
                     xTokenBalance: xTokenBalance
@@ -1290,6 +1515,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             state.phase = 'STOPPED';
             state.isActive = false;
             state.stoppingReason = null; // 🔥 清除止损标识
+            await this.recordState(instanceId, 'stop_loss_completed');
 
             await logger.logOperation('✅ 智能止损执行完成', {
                 reason: 'smart_stop_loss_triggered',
@@ -1304,10 +1530,16 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             // 停止监控
             await this.stopMonitoring(instanceId);
 
+            result.success = true;
+            return result;
+
         } catch (error) {
             await logger.logError(`智能止损执行失败: ${error instanceof Error ? error.message : String(error)}`);
             state.phase = 'ERROR';
             state.stoppingReason = null; // 🔥 清除止损标识
+            await this.recordState(instanceId, 'stop_loss_failed', {
+                error: error instanceof Error ? error.message : String(error)
+            });
 
             // 即使失败也要停止监控，避免继续触发
             await this.stopMonitoring(instanceId);
@@ -1316,6 +1548,203 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         }
     }
 
+    /**
+     * ✂️ 执行部分止损：按比例移除每个分段的流动性并卖出移除得到的X代币，剩余头寸继续监控
+     * 卖出数量按头寸自身移除前后的X数量计算，不受钱包中其他X代币影响
+     */
+    private async executePartialStopLoss(instanceId: string, percentage: number): Promise<void> {
+        const state = this.instanceStates.get(instanceId);
+        const logger = this.getInstanceLogger(instanceId);
+        if (!state || !logger) return;
+
+        if (!(percentage > 0 && percentage <= 100)) {
+            await logger.logError(`部分止损比例无效: ${percentage}%`);
+            return;
+        }
+
+        try {
+            await this.recordState(instanceId, 'partial_exit_started', { percentage });
+            await this.optimizeGasForStopLoss(instanceId, '部分止损-预优化');
+
+            await logger.logOperation('✂️ 开始执行部分止损', {
+                positionAddresses: state.positionAddresses,
+                percentage
+            });
+
+            // 移除前各头寸持有的X，只卖出本次从头寸中移除的X代币
+            const exposuresBefore = await this.getPositionExposures(instanceId);
+            const segmentShares = this.getSegmentInvestmentShares(state);
+
+            // 🔥 步骤1: 并行移除所有分段头寸的流动性
+            const isPaper = this.paperTradingService.isPaperInstance(instanceId);
+            const results = await Promise.allSettled(state.positionAddresses.map(positionAddress =>
+                this.executeAsyncStopLossWithRetry(
+                    async () => {
+                        const result = isPaper
+                            ? await this.paperTradingService.removeLiquidity(instanceId, positionAddress, percentage)
+                            : await this.positionManager.removeLiquidity(positionAddress, percentage);
+                        if (!result.success) {
+                            throw new Error(`头寸移除流动性失败: ${result.error || '未知错误'}`);
+                        }
+                        return { ...result, positionAddress };
+                    },
+                    instanceId
+                )
+            ));
+
+            const removed = results.flatMap(settled => settled.status === 'fulfilled' ? [settled.value] : []);
+            const failed = results.flatMap((settled, index) => settled.status === 'rejected'
+                ? [{ address: state.positionAddresses[index] || '', error: settled.reason instanceof Error ? settled.reason.message : String(settled.reason) }]
+                : []);
+            if (removed.length === 0) {
+                throw new Error(`所有头寸移除流动性失败: ${failed.map(item => item.error).join('; ')}`);
+            }
+
+            const gasUsed = removed.reduce((sum, result) => sum + (result.gasUsed || 0), 0);
+            await this.recordAction(instanceId, 'partial_exit_liquidity_removed', {
+                percentage,
+                positionAddresses: removed.map(result => result.positionAddress),
+                signatures: removed.map(result => result.signature),
+                ...(failed.length > 0 && { failedPositions: failed })
+            });
+            await this.performanceService.record(instanceId, 'partial_exit', {
+                success: true,
+                positionAddresses: removed.map(result => result.positionAddress),
+                exitPercentage: percentage,
+                ...(removed[0]?.signature && { signature: removed[0].signature }),
+                ...(failed.length > 0 && { error: failed.map(item => `${item.address}: ${item.error}`).join('; ') }),
+                ...(gasUsed > 0 && { cost: { gasUsed } })
+            });
+
+            // 🔥 步骤2: 卖出本次移除得到的X代币（失败不影响部分止损结果）
+            let withdrawnX = 0;
+            try {
+                const removedAddresses = removed.map(result => result.positionAddress);
+                withdrawnX = await this.getWithdrawnX(instanceId, exposuresBefore, removedAddresses);
+            } catch (exposureError) {
+                await logger.logError(`部分止损-无法确认移除的X代币数量，跳过卖出: ${exposureError instanceof Error ? exposureError.message : String(exposureError)}`);
+            }
+            if (withdrawnX > 0) {
+                const xTokenAmount = withdrawnX.toString();
+                try {
+                    const swapResult = await this.executeStopLossTokenSwapWithRetry(
+                        async () => await this.swapAllXTokensToY(instanceId, xTokenAmount),
+                        instanceId
+                    );
+                    await this.recordAction(instanceId, 'swap_executed', {
+                        inputAmount: xTokenAmount,
+                        outputAmount: swapResult.outputAmount,
+                        signature: swapResult.signature,
+                        reason: 'partial_exit'
+                    });
+                } catch (swapError) {
+                    await logger.logError(`部分止损-X代币卖出失败，剩余X代币留在钱包中: ${swapError instanceof Error ? swapError.message : String(swapError)}`);
+                }
+            } else {
+                await logger.logOperation('ℹ️ 本次移除未得到X代币，跳过卖出操作', {
+                    removedPositions: removed.map(result => result.positionAddress)
+                });
+            }
+
+            // 🔥 步骤3: 按实际移除的投入重设分析服务的初始投入（失败的分段不计入），剩余头寸继续监控
+            const removedShare = removed.reduce((sum, result) =>
+                sum + (segmentShares[state.positionAddresses.indexOf(result.positionAddress)] || 0), 0);
+            state.remainingFraction = (state.remainingFraction ?? 1) * (1 - removedShare * percentage / 100);
+            this.instanceMarketDataCache.delete(instanceId);
+            try {
+                await this.positionAnalyticsServices.get(instanceId)?.updateInitialInvestment(this.getInvestedAmount(state).toString());
+            } catch (analyticsError) {
+                await logger.logError(`部分止损后重设初始投入失败: ${analyticsError instanceof Error ? analyticsError.message : String(analyticsError)}`);
+            }
+
+            await this.recordState(instanceId, 'partial_exit_completed', {
+                percentage,
+                removedShare,
+                remainingFraction: state.remainingFraction
+            });
+            await logger.logOperation('✅ 部分止损执行完成', {
+                percentage,
+                removedPositions: removed.length,
+                failedPositions: failed.length,
+                withdrawnX,
+                remainingInvestment: this.getInvestedAmount(state)
+            });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            await logger.logError(`部分止损执行失败: ${errorMessage}`);
+            await this.performanceService.record(instanceId, 'partial_exit', {
+                success: false,
+                positionAddresses: [...state.positionAddresses],
+                exitPercentage: percentage,
+                error: errorMessage
+            });
+            await this.recordState(instanceId, 'partial_exit_failed', { percentage, error: errorMessage });
+        }
+    }
+
+    /**
+     * 💰 当前头寸对应的投入（部分止损后按剩余比例计算）
+     */
+    private getInvestedAmount(state: ChainPositionState): number {
+        return state.config.positionAmount * (state.remainingFraction ?? 1);
+    }
+
+    /**
+     * 📊 各头寸占投入的比例（与 positionAddresses 顺序一致，按几何分段的资金权重计算）
+     * 恢复自旧版本快照、没有分段信息的头寸按平均分配处理
+     */
+    private getSegmentInvestmentShares(state: ChainPositionState): number[] {
+        const count = state.positionAddresses.length;
+        const segments = state.segments;
+        if (!segments || segments.length !== count) {
+            return state.positionAddresses.map(() => 1 / count);
+        }
+
+        const funding = calculateChainSegmentFunding(resolveChainPositionGeometry(state.config.geometry), 1);
+        const amounts = segments.map(segment => {
+            const segmentFunding = funding[Math.min(segment.specIndex, funding.length - 1)]!;
+            return segmentFunding.base + segmentFunding.topUp;
+        });
+        const total = amounts.reduce((sum, amount) => sum + amount, 0);
+        return total > 0 ? amounts.map(amount => amount / total) : state.positionAddresses.map(() => 1 / count);
+    }
+
+    /**
+     * 🔍 本次从指定头寸中移除的X代币数量（头寸自身移除前后的差值，UI单位）
+     */
+    private async getWithdrawnX(
+        instanceId: string,
+        exposuresBefore: Awaited<ReturnType<ChainPositionExecutor['getPositionExposures']>>,
+        positionAddresses: string[]
+    ): Promise<number> {
+        const exposuresAfter = await this.getPositionExposures(instanceId);
+        return positionAddresses.reduce((sum, address) => {
+            const before = exposuresBefore.find(exposure => exposure.address === address);
+            const after = exposuresAfter.find(exposure => exposure.address === address);
+            if (!before || !after) return sum;
+            return sum + Math.max(0, before.amountX - after.amountX);
+        }, 0);
+    }
+
+    /**
+     * 🛑 关闭单个头寸（模拟盘实例记入虚拟账本）
+     */
+    private async closePositionForInstance(instanceId: string, positionAddress: string): Promise<PositionResult> {
+        const result = this.paperTradingService.isPaperInstance(instanceId)
+            ? await this.paperTradingService.closePosition(instanceId, positionAddress)
+            : await this.positionManager.closePosition(positionAddress);
+
+        await this.performanceService.record(instanceId, 'position_closed', {
+            success: result.success,
+            positionAddresses: [positionAddress],
+            ...(result.signature && { signature: result.signature }),
+            ...(result.error && { error: result.error }),
+            ...(result.gasUsed && { cost: { gasUsed: result.gasUsed } })
+        });
+        return result;
+    }
+
     /**
      * 🔍 获取账户X代币余额
      */
@@ -1325,6 +1754,10 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         if (!state || !logger) return '0';
 
         try {
+            if (this.paperTradingService.isPaperInstance(instanceId)) {
+                return await this.paperTradingService.getTokenBalance(instanceId, 'X');
+            }
+
             // 获取池子信息以获取X代币mint地址
             const poolInfo = await this.dlmmMonitor.getPoolInfo(state.config.poolAddress);
             if (!poolInfo || !poolInfo.tokenX) {
@@ -1430,12 +1863,11 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             }
 
             // 构建新的头寸地址列表
-            const newPositionAddresses: string[] = [];
-            if (state.position1Address) newPositionAddresses.push(state.position1Address);
-            if (state.position2Address) newPositionAddresses.push(state.position2Address);
+            const newPositionAddresses = [...state.positionAddresses];
 
-            // 更新头寸监控配置
-            await analyticsService.updatePositionAddresses(newPositionAddresses);
+            // 更新头寸监控配置（监控范围随几何一起更新，初始投入随新头寸恢复）
+            await analyticsService.updatePositionAddresses(newPositionAddresses, state.positionRange ?? undefined);
+            await analyticsService.updateInitialInvestment(this.getInvestedAmount(state).toString());
 
             // 🆕 头寸重建完成后清除基准收益率数据，重新开始记录
             try {
@@ -1454,8 +1886,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             }
 
             await logger.logMonitoring('📊 头寸分析服务已更新', {
-                newPosition1Address: state.position1Address,
-                newPosition2Address: state.position2Address,
+                newPositionAddresses,
                 newPositionCount: newPositionAddresses.length,
                 updateReason: 'out_of_range_timeout_recovery'
             });
@@ -1514,9 +1945,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
 
         try {
             // 构建头寸设置参数
-            const positionAddresses: string[] = [];
-            if (state.position1Address) positionAddresses.push(state.position1Address);
-            if (state.position2Address) positionAddresses.push(state.position2Address);
+            const positionAddresses = [...state.positionAddresses];
 
             // 🔧 获取策略实例的代币精度缓存
             const tokenPrecision = await this.getInstanceTokenPrecision(instanceId);
@@ -1524,7 +1953,8 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             const setupParams: PositionSetupParams = {
                 poolAddress: state.config.poolAddress,
                 positionAddresses: positionAddresses,
-                initialInvestmentAmount: state.config.positionAmount.toString(),
+                initialInvestmentAmount: this.getInvestedAmount(state).toString(),
+                ...(state.positionRange && { monitoredRange: state.positionRange }),
                 tokenPrecision: tokenPrecision,
                 config: {
                     // 价格监控配置 - 使用用户设置的监控间隔
@@ -1555,6 +1985,9 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             // 设置头寸监控
             const analyticsService = await this.getOrCreatePositionAnalyticsService(instanceId);
             await analyticsService.setupPositionMonitoring(setupParams);
+            if (state.hedge) {
+                analyticsService.setHedgeStatistics(state.hedge);
+            }
             this.analyticsServiceSetup.set(instanceId, true);
 
             await logger.logMonitoring('📊 头寸分析服务已设置', {
@@ -1579,22 +2012,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         const state = this.instanceStates.get(instanceId);
         if (!state) return;
 
-        // 🔥 合并前端配置的智能止损参数 (修复配置路径，支持多个配置源)
-        const smartStopLossConfig = {
-            // 合并多个可能的配置源
-            ...state.config.stopLoss,
-            ...state.config.smartStopLoss,
-            // 确保关键参数有默认值
-            activeBinSafetyThreshold:
-                state.config.smartStopLoss?.activeBinSafetyThreshold ||
-                state.config.stopLoss?.activeBinSafetyThreshold || 50,
-            observationPeriodMinutes:
-                state.config.smartStopLoss?.observationPeriodMinutes ||
-                state.config.stopLoss?.observationPeriodMinutes || 15,
-            lossThresholdPercentage:
-                state.config.smartStopLoss?.lossThresholdPercentage ||
-                state.config.stopLoss?.lossThresholdPercentage || 5  // 默认5%亏损阈值
-        };
+        const smartStopLossConfig = this.buildSmartStopLossConfig(state.config);
 
         // 🏭 使用服务工厂创建实例隔离的智能止损模块
         const stopLossModule = this.instanceAwareServiceFactory.createSmartStopLossModuleForInstance(
@@ -1616,6 +2034,28 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         }
     }
 
+    /**
+     * 🧠 构建智能止损模块参数
+     */
+    private buildSmartStopLossConfig(config: ChainPositionConfig) {
+        // 🔥 合并前端配置的智能止损参数 (修复配置路径，支持多个配置源)
+        return {
+            // 合并多个可能的配置源
+            ...config.stopLoss,
+            ...config.smartStopLoss,
+            // 确保关键参数有默认值
+            activeBinSafetyThreshold:
+                config.smartStopLoss?.activeBinSafetyThreshold ||
+                config.stopLoss?.activeBinSafetyThreshold || 50,
+            observationPeriodMinutes:
+                config.smartStopLoss?.observationPeriodMinutes ||
+                config.stopLoss?.observationPeriodMinutes || 15,
+            lossThresholdPercentage:
+                config.smartStopLoss?.lossThresholdPercentage ||
+                config.stopLoss?.lossThresholdPercentage || 5  // 默认5%亏损阈值
+        };
+    }
+
     /**
      * 🏗️ 初始化头寸重建模块
      */
@@ -1623,11 +2063,40 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         const state = this.instanceStates.get(instanceId);
         if (!state) return;
 
+        const recreationConfig = this.buildRecreationConfig(state.config);
+
+        // 🏭 创建头寸重建模块实例
+        const recreationModule = new PositionRecreationModule(recreationConfig);
+        this.positionRecreationModules.set(instanceId, recreationModule);
+
+        const logger = this.getInstanceLogger(instanceId);
+        if (logger) {
+            await logger.logMonitoring('🏗️ 头寸重建模块已初始化', {
+                instanceId,
+                outOfRangeTimeout: recreationConfig.outOfRangeTimeout,
+                maxPriceForRecreation: recreationConfig.maxPriceForRecreation,
+                minPriceForRecreation: recreationConfig.minPriceForRecreation,
+                enablePriceCheck: recreationConfig.enablePriceCheck,
+                enableMarketOpportunityRecreation: recreationConfig.enableMarketOpportunityRecreation,
+                enableLossRecoveryRecreation: recreationConfig.enableLossRecoveryRecreation,
+                enableDynamicProfitRecreation: recreationConfig.enableDynamicProfitRecreation,
+                marketOpportunity: recreationConfig.marketOpportunity,
+                lossRecovery: recreationConfig.lossRecovery,
+                dynamicProfitRecreation: recreationConfig.dynamicProfitRecreation,
+                minRecreationInterval: recreationConfig.minRecreationInterval
+            });
+        }
+    }
+
+    /**
+     * 🏗️ 构建头寸重建模块参数
+     */
+    private buildRecreationConfig(config: ChainPositionConfig): Partial<PositionRecreationConfig> {
         // 🔥 配置头寸重建模块参数
-        const positionRecreationConfig = state.config.positionRecreation || {};
+        const positionRecreationConfig = config.positionRecreation || {};
 
         const recreationConfig: Partial<PositionRecreationConfig> = {
-            outOfRangeTimeout: state.config.outOfRangeTimeout,
+            outOfRangeTimeout: config.outOfRangeTimeout,
             enablePriceCheck: true,
             // 🏗️ 从前端配置读取方法2、方法3和方法4的启用状态
             enableMarketOpportunityRecreation: positionRecreationConfig.enableMarketOpportunityRecreation ?? true, // 🧠 智能头寸重建（方法2），默认启用
@@ -1663,40 +2132,20 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
 
             minRecreationInterval: 10 * 60 * 1000, // 10分钟
             maxRecreationCost: 0.01, // 1%
-            minActiveBinPositionThreshold: state.config.minActiveBinPositionThreshold ?? 0 // 🆕 最低活跃bin位置阈值
+            minActiveBinPositionThreshold: config.minActiveBinPositionThreshold ?? 0 // 🆕 最低活跃bin位置阈值
         };
 
         // 🔥 只有当maxPriceForRecreation有值时才设置
-        if (state.config.maxPriceForRecreation !== undefined) {
-            recreationConfig.maxPriceForRecreation = state.config.maxPriceForRecreation;
+        if (config.maxPriceForRecreation !== undefined) {
+            recreationConfig.maxPriceForRecreation = config.maxPriceForRecreation;
         }
 
         // 🔥 只有当minPriceForRecreation有值时才设置
-        if (state.config.minPriceForRecreation !== undefined) {
-            recreationConfig.minPriceForRecreation = state.config.minPriceForRecreation;
+        if (config.minPriceForRecreation !== undefined) {
+            recreationConfig.minPriceForRecreation = config.minPriceForRecreation;
         }
 
-        // 🏭 创建头寸重建模块实例
-        const recreationModule = new PositionRecreationModule(recreationConfig);
-        this.positionRecreationModules.set(instanceId, recreationModule);
-
-        const logger = this.getInstanceLogger(instanceId);
-        if (logger) {
-            await logger.logMonitoring('🏗️ 头寸重建模块已初始化', {
-                instanceId,
-                outOfRangeTimeout: recreationConfig.outOfRangeTimeout,
-                maxPriceForRecreation: recreationConfig.maxPriceForRecreation,
-                minPriceForRecreation: recreationConfig.minPriceForRecreation,
-                enablePriceCheck: recreationConfig.enablePriceCheck,
-                enableMarketOpportunityRecreation: recreationConfig.enableMarketOpportunityRecreation,
-                enableLossRecoveryRecreation: recreationConfig.enableLossRecoveryRecreation,
-                enableDynamicProfitRecreation: recreationConfig.enableDynamicProfitRecreation,
-                marketOpportunity: recreationConfig.marketOpportunity,
-                lossRecovery: recreationConfig.lossRecovery,
-                dynamicProfitRecreation: recreationConfig.dynamicProfitRecreation,
-                minRecreationInterval: recreationConfig.minRecreationInterval
-            });
-        }
+        return recreationConfig;
     }
 
     async cleanup(instanceId: string): Promise<void> {
@@ -1747,6 +2196,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         this.executorStatuses.delete(instanceId);
         this.smartStopLossModules.delete(instanceId);
         this.positionRecreationModules.delete(instanceId);
+        this.hedgeModules.delete(instanceId);
         this.instanceLoggers.delete(instanceId);
         this.positionAnalyticsServices.delete(instanceId);
         this.analyticsServiceSetup.delete(instanceId);
@@ -1763,12 +2213,160 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         await this.stopMonitoring(instanceId);
         const state = this.instanceStates.get(instanceId);
         if (state) {
+            const previousPhase = state.phase;
             state.phase = 'STOPPED';
             state.isActive = false;
             state.stoppingReason = null; // 🔥 清除任何stopping标识
+
+            // 📓 止损完成后头寸已关闭；其余情况头寸仍在链上，只是暂停了监控
+            if (previousPhase === 'STOPPED') {
+                await this.recordState(instanceId, 'stopped', { reason: 'executor_stop' });
+            } else {
+                await this.recordState(instanceId, 'monitoring_suspended', { previousPhase });
+            }
         }
     }
 
+    /**
+     * ♻️ 崩溃恢复：根据事件日志中的最后一次状态快照重建执行器状态
+     *
+     * 快照中的头寸全部在链上确认存在时恢复监控（不会重新创建头寸）；
+     * 快照与链上不一致、或中断发生在创建/止损/重建过程中时返回blocked，等待人工处理。
+     * 调用前需要先通过 setInstanceConfig 设置实例配置。
+     */
+    async recoverInstance(instanceId: string): Promise<RecoveryResult> {
+        const config = this.instanceConfigs.get(instanceId);
+        if (!config) {
+            throw new Error(`策略配置不存在: ${instanceId}`);
+        }
+        if (!this.getInstanceLogger(instanceId)) {
+            this.createInstanceLogger(instanceId);
+        }
+        const logger = this.getInstanceLogger(instanceId)!;
+
+        const entry = await this.journal.getLastSnapshot(instanceId);
+        if (!entry) {
+            return { status: 'fresh', reason: '事件日志中没有状态快照', positions: [] };
+        }
+
+        const snapshot = entry.data as ChainPositionStateSnapshot & { context?: Record<string, any> };
+        // 暂停监控时头寸仍在链上，按暂停前的阶段恢复
+        const phase: ChainPositionState['phase'] = entry.event === 'monitoring_suspended' && snapshot.context?.previousPhase
+            ? snapshot.context.previousPhase
+            : snapshot.phase;
+        const snapshotAddresses = snapshot.positionAddresses
+            ?? [snapshot.position1Address, snapshot.position2Address].filter((address): address is string => !!address);
+        const addresses = Array.from(new Set([
+            ...snapshotAddresses,
+            ...(phase === 'CLEANING' ? snapshot.cleanupTargets || [] : [])
+        ]));
+
+        if (phase === 'STOPPED') {
+            return { status: 'fresh', reason: `最后状态为已停止 (${entry.event})`, phase, positions: [] };
+        }
+
+        if (addresses.length === 0) {
+            if (phase === 'CREATING') {
+                return {
+                    status: 'blocked',
+                    reason: '头寸创建过程中中断，链上可能存在未记录的头寸，请核对钱包后停止并重新启动策略',
+                    phase,
+                    positions: []
+                };
+            }
+            return { status: 'fresh', reason: `最后状态 ${phase} 没有需要接管的头寸`, phase, positions: [] };
+        }
+
+        const positions = await this.reconcilePositions(instanceId, addresses);
+
+        await logger.logOperation('♻️ 崩溃恢复：链上头寸核对', {
+            snapshotEvent: entry.event,
+            snapshotTime: new Date(entry.timestamp).toISOString(),
+            phase,
+            positions
+        });
+
+        if (phase === 'STOPPING') {
+            return {
+                status: 'blocked',
+                reason: `${snapshot.stoppingReason === 'POSITION_RECREATION' ? '头寸重建' : '止损'}过程中中断，请核对链上头寸和代币余额后手动处理`,
+                phase,
+                positions
+            };
+        }
+
+        const remaining = positions.filter(position => position.onChain).map(position => position.address);
+        if (phase === 'CLEANING') {
+            if (remaining.length === 0) {
+                return { status: 'fresh', reason: '待清理的头寸已全部关闭', phase, positions };
+            }
+        } else if (remaining.length !== positions.length) {
+            return {
+                status: 'blocked',
+                reason: `链上头寸与事件日志不一致: ${positions.length - remaining.length}/${positions.length} 个头寸未找到`,
+                phase,
+                positions
+            };
+        }
+
+        // 🔑 重建执行器状态，hasBeenCreated=true 保证后续 execute() 不会重复创建头寸
+        const state: ChainPositionState = {
+            instanceId,
+            config,
+            phase: 'CREATED',
+            positionAddresses: snapshotAddresses,
+            ...(snapshot.segments?.length === snapshotAddresses.length && { segments: snapshot.segments }),
+            positionRange: snapshot.positionRange,
+            currentActiveBin: null,
+            isInRange: false,
+            createdAt: new Date(snapshot.createdAt),
+            lastMonitoringTime: null,
+            isActive: true,
+            hasBeenCreated: true,
+            stoppingReason: null,
+            dynamicRecreationSwitchEnabled: snapshot.dynamicRecreationSwitchEnabled === true,
+            ...(snapshot.lastBenchmarkYield5Min !== undefined && { lastBenchmarkYield5Min: snapshot.lastBenchmarkYield5Min }),
+            ...(snapshot.lastSwitchUpdateTime && { lastSwitchUpdateTime: new Date(snapshot.lastSwitchUpdateTime) }),
+            ...(snapshot.rollTimestamps && { rollTimestamps: snapshot.rollTimestamps }),
+            ...(snapshot.remainingFraction !== undefined && { remainingFraction: snapshot.remainingFraction }),
+            ...(snapshot.hedge && { hedge: snapshot.hedge })
+        };
+        this.instanceStates.set(instanceId, state);
+
+        // 头寸已上链但范围尚未记录（创建后立即中断）时重新计算
+        if (!state.positionRange) {
+            const binRangeData = await this.calculateChainPositionBinRange(instanceId);
+            state.positionRange = [binRangeData.positionLowerBin, binRangeData.positionUpperBin];
+        }
+
+        await this.startEventDrivenMonitoring(instanceId);
+
+        // 恢复超出范围计时等重建模块状态（计时从原始开始时间继续）
+        if (snapshot.recreation) {
+            this.positionRecreationModules.get(instanceId)?.restoreInstanceState(instanceId, snapshot.recreation);
+        }
+
+        // CLEANING状态由监控循环继续执行清理重试
+        if (phase === 'CLEANING') {
+            state.phase = 'CLEANING';
+            state.cleanupTargets = remaining;
+            state.cleanupRetryCount = snapshot.cleanupRetryCount || 0;
+            if (snapshot.lastCleanupAttempt) {
+                state.lastCleanupAttempt = new Date(snapshot.lastCleanupAttempt);
+            }
+        }
+
+        await this.recordState(instanceId, 'recovered', { fromEvent: entry.event, fromSeq: entry.seq });
+        await this.broadcastStrategyStatusUpdate(instanceId, 'running', 'crash_recovery');
+
+        return {
+            status: 'recovered',
+            reason: `已接管 ${remaining.length} 个链上头寸，继续${state.phase === 'CLEANING' ? '清理' : '监控'}`,
+            phase,
+            positions
+        };
+    }
+
     setConfig(instanceId: string, config: ChainPositionConfig): void {
         this.instanceConfigs.set(instanceId, config);
     }
@@ -1777,6 +2375,49 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         this.instanceConfigs.set(instanceId, config);
     }
 
+    /**
+     * 🔥 热更新运行中实例的配置（changes只包含参数Schema中标记为hot的字段）
+     * 其余读取 state.config 的参数（滑点、基准收益率阈值、重建价格限制）在下一个监控周期自动生效
+     */
+    async applyHotConfig(instanceId: string, config: ChainPositionConfig, changes: StrategyConfigChange[]): Promise<void> {
+        this.instanceConfigs.set(instanceId, config);
+        const state = this.instanceStates.get(instanceId);
+        if (!state) return;
+
+        state.config = config;
+        const changed = (...paths: string[]) => changes.some(change => paths.some(path => change.path === path || change.path.startsWith(`${path}.`)));
+
+        // 🧠 智能止损：已有模块直接更新参数，运行中开启时初始化模块
+        if (changed('enableSmartStopLoss', 'stopLoss', 'smartStopLoss') && config.enableSmartStopLoss) {
+            const stopLossModule = this.smartStopLossModules.get(instanceId);
+            if (stopLossModule) {
+                stopLossModule.updateConfig(this.buildSmartStopLossConfig(config));
+            } else {
+                await this.initializeSmartStopLoss(instanceId);
+            }
+        }
+
+        // 🏗️ 头寸重建：更新参数，保留超出范围计时等实例状态
+        if (changed('positionRecreation', 'outOfRangeTimeout', 'minActiveBinPositionThreshold', 'maxPriceForRecreation', 'minPriceForRecreation')) {
+            this.positionRecreationModules.get(instanceId)?.updateConfig(this.buildRecreationConfig(config));
+        }
+
+        // 🛡️ 对冲：已有模块直接更新参数（未创建时在下一次对冲检查时创建）
+        if (changed('hedging')) {
+            this.hedgeModules.get(instanceId)?.updateConfig(this.buildHedgeConfig(config));
+        }
+
+        // ⏰ 监控间隔：重启监控定时器
+        if (changed('monitoringInterval') && this.monitoringTimers.has(instanceId)) {
+            this.startMonitoringLoop(instanceId);
+        }
+
+        await this.getInstanceLogger(instanceId)?.logOperation('🔥 配置热更新已生效', {
+            instanceId,
+            changes: changes.map(change => ({ path: change.path, oldValue: change.oldValue, newValue: change.newValue }))
+        });
+    }
+
     getStatus(instanceId: string): ExecutorStatus {
         const state = this.instanceStates.get(instanceId);
         const status: ExecutorStatus = {
@@ -1785,6 +2426,9 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         if (state?.lastMonitoringTime) {
             status.lastExecutionTime = state.lastMonitoringTime;
         }
+        if (state && state.positionAddresses.length > 0) {
+            status.positionAddresses = [...state.positionAddresses];
+        }
         return this.executorStatuses.get(instanceId) || status;
     }
 
@@ -1797,6 +2441,68 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         return this.instanceLoggers.get(instanceId);
     }
 
+    /**
+     * 📓 写入状态快照到事件日志
+     */
+    private async recordState(instanceId: string, event: string, context?: Record<string, any>): Promise<void> {
+        const state = this.instanceStates.get(instanceId);
+        if (!state) return;
+
+        const recreationModule = this.positionRecreationModules.get(instanceId);
+        const snapshot: ChainPositionStateSnapshot = {
+            phase: state.phase,
+            positionAddresses: [...state.positionAddresses],
+            ...(state.segments && { segments: state.segments.map(segment => ({ ...segment })) }),
+            positionRange: state.positionRange,
+            hasBeenCreated: state.hasBeenCreated,
+            isActive: state.isActive,
+            stoppingReason: state.stoppingReason ?? null,
+            createdAt: state.createdAt.toISOString(),
+            ...(state.cleanupRetryCount !== undefined && { cleanupRetryCount: state.cleanupRetryCount }),
+            ...(state.cleanupTargets && { cleanupTargets: [...state.cleanupTargets] }),
+            ...(state.lastCleanupAttempt && { lastCleanupAttempt: state.lastCleanupAttempt.toISOString() }),
+            ...(state.dynamicRecreationSwitchEnabled !== undefined && { dynamicRecreationSwitchEnabled: state.dynamicRecreationSwitchEnabled }),
+            ...(state.lastBenchmarkYield5Min !== undefined && { lastBenchmarkYield5Min: state.lastBenchmarkYield5Min }),
+            ...(state.lastSwitchUpdateTime && { lastSwitchUpdateTime: state.lastSwitchUpdateTime.toISOString() }),
+            ...(state.rollTimestamps?.length && { rollTimestamps: [...state.rollTimestamps] }),
+            ...(state.remainingFraction !== undefined && { remainingFraction: state.remainingFraction }),
+            ...(state.hedge && { hedge: { ...state.hedge } }),
+            ...(recreationModule && { recreation: recreationModule.exportInstanceState(instanceId) })
+        };
+
+        await this.journal.append(instanceId, 'state', event, context ? { ...snapshot, context } : snapshot);
+    }
+
+    /**
+     * 📓 写入链上操作记录到事件日志
+     */
+    private async recordAction(instanceId: string, event: string, data: Record<string, any>): Promise<void> {
+        await this.journal.append(instanceId, 'action', event, data);
+    }
+
+    /**
+     * 🔍 核对头寸是否仍在链上（模拟盘实例查询虚拟账本）
+     */
+    private async reconcilePositions(instanceId: string, addresses: string[]): Promise<RecoveryResult['positions']> {
+        if (this.paperTradingService.isPaperInstance(instanceId)) {
+            return Promise.all(addresses.map(async address => {
+                const result = await this.paperTradingService.getPositionOnChainInfo(instanceId, address);
+                return result.success
+                    ? { address, onChain: true }
+                    : { address, onChain: false, error: result.error || '头寸不存在' };
+            }));
+        }
+
+        const batch = await this.positionManager.getBatchPositionsOnChainInfo(addresses);
+        return addresses.map(address => {
+            const item = batch.data?.find(info => info.address === address);
+            if (item?.success) {
+                return { address, onChain: true };
+            }
+            return { address, onChain: false, error: item?.error || '链上头寸查询失败' };
+        });
+    }
+
     /**
      * 🔧 公共方法：确保实例日志器被创建（用于测试）
      */
@@ -1847,6 +2553,11 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         const wasInRange = state.isInRange;
         state.isInRange = activeBin >= lowerBin && activeBin <= upperBin;
 
+        // 🪜 向上跟随：价格向上脱离范围时优先滚动分段，未能滚动时按超时重建处理
+        if (activeBin > upperBin && state.config.trailing?.enabled && await this.rollChainPosition(instanceId)) {
+            return;
+        }
+
         // 🔥 收集市场数据
         let marketData: MarketData;
         try {
@@ -1880,8 +2591,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
 
         const recreationParams: RecreationCheckParams = {
             marketData: marketData,
-            position1Address: state.position1Address || null,
-            position2Address: state.position2Address || null,
+            positionAddresses: state.positionAddresses,
             positionRange: state.positionRange,
             outOfRangeStartTime: null, // 模块内部管理状态
             outOfRangeDirection: null, // 模块内部管理状态
@@ -1892,12 +2602,515 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         };
 
         // 🔥 使用头寸重建模块进行决策
+        const timerStateBefore = recreationModule.exportInstanceState(instanceId);
         const decision = await recreationModule.shouldRecreatePosition(recreationParams);
 
+        // 📓 超出范围计时开始/重置、止损反弹标记变化时写入状态快照，重启后计时不丢失
+        const timerStateAfter = recreationModule.exportInstanceState(instanceId);
+        if (timerStateBefore.outOfRangeStartTime !== timerStateAfter.outOfRangeStartTime ||
+            timerStateBefore.lossRecoveryMarked !== timerStateAfter.lossRecoveryMarked) {
+            await this.recordState(instanceId, 'recreation_timer_changed', {
+                recreationType: decision.recreationType
+            });
+        }
+
         // 🔥 简化处理：只执行操作，不处理决策逻辑
         await this.executeRecreationAction(instanceId, decision);
     }
 
+    /**
+     * 🪜 向上跟随滚动：关闭最低的分段，在活跃bin及下方新建一个分段，使连锁头寸跟随价格上移
+     * 新分段沿用被关闭分段在几何中的宽度、形状和资金；返回是否改变了头寸（改变后本周期不再做重建检查）
+     */
+    private async rollChainPosition(instanceId: string): Promise<boolean> {
+        const state = this.instanceStates.get(instanceId);
+        const logger = this.getInstanceLogger(instanceId);
+        if (!state || !logger || state.currentActiveBin === null) return false;
+
+        const trailing = state.config.trailing || {};
+        const geometry = resolveChainPositionGeometry(state.config.geometry);
+        const segments = state.segments;
+
+        // 恢复自旧版本快照的头寸没有分段范围，X分段无法用Y代币滚动
+        if (geometry.direction !== 'below' || !segments || segments.length === 0 || segments.length !== state.positionAddresses.length) {
+            await logger.logMonitoring('🪜 向上跟随不可用，按超时重建处理', {
+                direction: geometry.direction,
+                segmentCount: segments?.length ?? 0,
+                positionCount: state.positionAddresses.length
+            });
+            return false;
+        }
+
+        // 💸 成本控制：最小间隔和每小时次数上限（失败的滚动同样计入）
+        const now = Date.now();
+        const minIntervalMs = (trailing.minRollIntervalSeconds ?? ChainPositionExecutor.TRAILING_DEFAULTS.minRollIntervalSeconds) * 1000;
+        const maxRollsPerHour = trailing.maxRollsPerHour ?? ChainPositionExecutor.TRAILING_DEFAULTS.maxRollsPerHour;
+        const recentRolls = (state.rollTimestamps || []).filter(timestamp => now - timestamp < 60 * 60 * 1000);
+        state.rollTimestamps = recentRolls;
+
+        const lastRoll = recentRolls[recentRolls.length - 1];
+        if (lastRoll !== undefined && now - lastRoll < minIntervalMs) {
+            await logger.logMonitoring('⏳ 向上跟随：未到最小滚动间隔', {
+                secondsSinceLastRoll: Math.floor((now - lastRoll) / 1000),
+                minRollIntervalSeconds: minIntervalMs / 1000
+            });
+            return false;
+        }
+        if (recentRolls.length >= maxRollsPerHour) {
+            await logger.logMonitoring('⏳ 向上跟随：已达到每小时滚动上限', {
+                rollsInLastHour: recentRolls.length,
+                maxRollsPerHour
+            });
+            return false;
+        }
+
+        // 最低的分段（lowerBin最小）
+        const lowestIndex = segments.reduce((lowest, segment, index) => segment.lowerBin < segments[lowest]!.lowerBin ? index : lowest, 0);
+        const lowest = segments[lowestIndex]!;
+        const closedAddress = state.positionAddresses[lowestIndex]!;
+        const specIndex = Math.min(lowest.specIndex, geometry.segments.length - 1);
+        const spec = geometry.segments[specIndex]!;
+        const funding = calculateChainSegmentFunding(geometry, this.getInvestedAmount(state))[specIndex]!;
+        const activeBin = state.currentActiveBin;
+        const newSegment: ChainPositionSegmentState = {
+            lowerBin: activeBin - spec.binCount + 1,
+            upperBin: activeBin,
+            specIndex
+        };
+
+        state.rollTimestamps.push(now);
+        await this.loggerService.logStrategyOperationWithEcho(
+            instanceId,
+            '🪜 向上跟随：开始滚动连锁头寸',
+            {
+                activeBin,
+                positionRange: state.positionRange,
+                closeSegment: { address: closedAddress, range: [lowest.lowerBin, lowest.upperBin] },
+                newSegment: { range: [newSegment.lowerBin, newSegment.upperBin], shape: spec.shape, amount: funding.base + funding.topUp }
+            },
+            `🪜 [${instanceId}] 活跃bin(${activeBin})向上脱离范围，滚动分段 [${lowest.lowerBin}, ${lowest.upperBin}] → [${newSegment.lowerBin}, ${newSegment.upperBin}]`
+        );
+
+        // 1. 关闭最低的分段（价格在其上方，取回的全部是Y代币）
+        const closeResult = this.paperTradingService.isPaperInstance(instanceId)
+            ? await this.paperTradingService.closePosition(instanceId, closedAddress)
+            : await this.positionManager.closePosition(closedAddress);
+
+        if (!closeResult.success) {
+            await logger.logError(`向上跟随滚动失败，关闭最低分段失败: ${closeResult.error}`);
+            await this.performanceService.record(instanceId, 'roll', {
+                success: false,
+                closedPositionAddresses: [closedAddress],
+                error: `关闭分段失败: ${closeResult.error}`
+            });
+            await this.recordState(instanceId, 'roll_failed', { closedPositionAddress: closedAddress, error: closeResult.error });
+            return false;
+        }
+
+        const previousRange = state.positionRange;
+        state.positionAddresses.splice(lowestIndex, 1);
+        segments.splice(lowestIndex, 1);
+        await this.recordState(instanceId, 'roll_segment_closed', { closedPositionAddress: closedAddress });
+
+        // 2. 在活跃bin及下方新建分段
+        const segmentParams = {
+            poolAddress: state.config.poolAddress,
+            lowerBin: newSegment.lowerBin,
+            upperBin: newSegment.upperBin,
+            shape: spec.shape,
+            ...(spec.topUp && { topUpShape: spec.topUp.shape }),
+            funding,
+            slippageBps: 800,
+            password: '',
+            instanceId
+        };
+        const createResult = this.paperTradingService.isPaperInstance(instanceId)
+            ? await this.paperTradingService.createChainSegment(instanceId, segmentParams)
+            : await this.chainPositionManager.createChainSegment(segmentParams);
+        const newAddress = createResult.success ? createResult.positionAddresses?.[0] : undefined;
+
+        if (newAddress) {
+            state.positionAddresses.unshift(newAddress);
+            segments.unshift(newSegment);
+        }
+
+        // 新建失败且没有剩余分段时保留原范围，由超出范围超时重建恢复头寸
+        state.positionRange = segments.length > 0
+            ? [Math.min(...segments.map(segment => segment.lowerBin)), Math.max(...segments.map(segment => segment.upperBin))]
+            : previousRange;
+        state.isInRange = activeBin >= state.positionRange![0] && activeBin <= state.positionRange![1];
+
+        const createdSegment = createResult.segments?.[0];
+        const gasUsed = (closeResult.gasUsed || 0) + (createResult.gasUsed || 0);
+        await this.recordAction(instanceId, 'chain_position_rolled', {
+            closedPositionAddress: closedAddress,
+            closedRange: [lowest.lowerBin, lowest.upperBin],
+            ...(newAddress && { positionAddress: newAddress, range: [newSegment.lowerBin, newSegment.upperBin] }),
+            ...(createdSegment?.signature && { signature: createdSegment.signature }),
+            ...(createResult.error && { error: createResult.error })
+        });
+        await this.performanceService.record(instanceId, 'roll', {
+            success: !!newAddress,
+            closedPositionAddresses: [closedAddress],
+            ...(newAddress && { positionAddresses: [newAddress] }),
+            ...(createdSegment?.signature && { signature: createdSegment.signature }),
+            ...(createdSegment && { amount: String(createdSegment.amount + createdSegment.topUpAmount) }),
+            ...(!newAddress && { error: `新建分段失败: ${createResult.error}` }),
+            ...(gasUsed && { cost: { gasUsed } })
+        });
+
+        // 3. 同步分析服务的头寸列表和监控范围
+        await this.positionAnalyticsServices.get(instanceId)?.updatePositionAddresses([...state.positionAddresses], state.positionRange ?? undefined);
+
+        if (newAddress) {
+            await logger.logOperation('✅ 向上跟随滚动完成', {
+                positionAddresses: state.positionAddresses,
+                positionRange: state.positionRange,
+                rollsInLastHour: state.rollTimestamps.length
+            });
+            await this.recordState(instanceId, 'roll_completed');
+        } else {
+            await logger.logError(`向上跟随滚动失败，新建分段失败（Y代币保留在钱包中）: ${createResult.error}`);
+            await this.recordState(instanceId, 'roll_failed', { closedPositionAddress: closedAddress, error: createResult.error });
+        }
+
+        return true;
+    }
+
+    /**
+     * 🛡️ 构建对冲模块参数
+     */
+    private buildHedgeConfig(config: ChainPositionConfig): PositionHedgeConfig {
+        const hedging = config.hedging || {};
+        return {
+            hedgeRatio: hedging.hedgeRatio ?? ChainPositionExecutor.HEDGING_DEFAULTS.hedgeRatio,
+            minHedgePercentage: hedging.minHedgePercentage ?? ChainPositionExecutor.HEDGING_DEFAULTS.minHedgePercentage,
+            minHedgeIntervalSeconds: hedging.minHedgeIntervalSeconds ?? ChainPositionExecutor.HEDGING_DEFAULTS.minHedgeIntervalSeconds
+        };
+    }
+
+    /**
+     * 🛡️ 检查头寸中累积的X代币敞口，超过对冲比例时卖出部分X代币
+     */
+    private async checkHedgeRequirement(instanceId: string): Promise<void> {
+        const state = this.instanceStates.get(instanceId);
+        const logger = this.getInstanceLogger(instanceId);
+        if (!state || !logger || state.currentActiveBin === null || state.positionAddresses.length === 0) return;
+
+        try {
+            let hedgeModule = this.hedgeModules.get(instanceId);
+            if (!hedgeModule) {
+                hedgeModule = new PositionHedgeModule(this.buildHedgeConfig(state.config));
+                this.hedgeModules.set(instanceId, hedgeModule);
+            }
+
+            const exposures = await this.getPositionExposures(instanceId);
+            const poolInfo = await this.dlmmMonitor.getPoolInfo(state.config.poolAddress);
+            const currentPrice = poolInfo.activePrice;
+
+            const decision = hedgeModule.evaluate({
+                amountX: exposures.reduce((sum, exposure) => sum + exposure.amountX, 0),
+                amountY: exposures.reduce((sum, exposure) => sum + exposure.amountY, 0),
+                currentPrice,
+                lastHedgeAt: state.hedge?.lastHedgeAt ?? null
+            });
+
+            await logger.logMonitoring('🛡️ X敞口检查', {
+                X敞口占比: `${decision.exposureRatio.toFixed(2)}%`,
+                头寸价值: decision.positionValueY,
+                X代币价值: decision.exposureValueY,
+                是否对冲: decision.shouldHedge,
+                原因: decision.reason
+            });
+
+            if (decision.shouldHedge) {
+                await this.executeHedge(instanceId, decision, exposures, currentPrice);
+            }
+        } catch (error) {
+            await logger.logError(`X敞口对冲检查失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * 📊 读取每个分段头寸中的X/Y代币数量（模拟盘实例读取虚拟账本）
+     */
+    private async getPositionExposures(instanceId: string): Promise<Array<{
+        address: string;
+        lowerBinId: number;
+        upperBinId: number;
+        amountX: number;
+        amountY: number;
+        activeBinX: number;
+    }>> {
+        const state = this.instanceStates.get(instanceId);
+        if (!state) return [];
+
+        const results = this.paperTradingService.isPaperInstance(instanceId)
+            ? await Promise.all(state.positionAddresses.map(async address => {
+                const result = await this.paperTradingService.getPositionOnChainInfo(instanceId, address);
+                return { address, success: result.success, info: result.data, error: result.error };
+            }))
+            : (await this.positionManager.getBatchPositionsOnChainInfo(state.positionAddresses)).data || [];
+
+        // 任一分段读取失败时敞口不完整，本轮不做决策
+        const failed = state.positionAddresses.filter(address => !results.some(result => result.address === address && result.success && result.info));
+        if (failed.length > 0) {
+            throw new Error(`获取头寸代币数量失败: ${failed.join(', ')}`);
+        }
+
+        const { tokenXDecimals, tokenYDecimals } = await this.getInstanceTokenPrecision(instanceId);
+        return results.map(result => ({
+            address: result.address,
+            lowerBinId: result.info.lowerBinId,
+            upperBinId: result.info.upperBinId,
+            amountX: parseFloat(result.info.totalXAmount) / Math.pow(10, tokenXDecimals),
+            amountY: parseFloat(result.info.totalYAmount) / Math.pow(10, tokenYDecimals),
+            // 活跃bin中的X不在对冲移除范围内（模拟盘模型中X只在活跃bin上方）
+            activeBinX: parseFloat(result.info.activeBinXAmount || '0') / Math.pow(10, tokenXDecimals)
+        }));
+    }
+
+    /**
+     * 🛡️ 执行对冲：按比例移除活跃bin上方（持有X代币）的流动性，再通过Jupiter卖出得到的X代币
+     * 移除比例按目标bin中实际持有的X计算（活跃bin中的X不移除），使卖出数量达到决策的卖出价值
+     * 移除的流动性离开头寸，投入按移除时的价值下调；对冲成本（滑点和兑换手续费）单独统计
+     * 卖出数量按头寸自身移除前后的X数量计算；兑换失败时X代币留在钱包中，记为 unsoldX，
+     * 由后续监控周期重试卖出（止损时随钱包中的X代币一并卖出）
+     */
+    private async executeHedge(
+        instanceId: string,
+        decision: HedgeDecision,
+        exposures: Awaited<ReturnType<ChainPositionExecutor['getPositionExposures']>>,
+        currentPrice: number
+    ): Promise<void> {
+        const state = this.instanceStates.get(instanceId);
+        const logger = this.getInstanceLogger(instanceId);
+        if (!state || !logger || state.currentActiveBin === null) return;
+
+        const activeBin = state.currentActiveBin;
+        const targets = exposures
+            .map(exposure => ({ ...exposure, targetX: Math.max(0, exposure.amountX - exposure.activeBinX) }))
+            .filter(exposure => exposure.targetX > 0 && exposure.upperBinId > activeBin);
+        if (targets.length === 0) {
+            await logger.logMonitoring('ℹ️ 活跃bin上方没有持有X代币的流动性，跳过对冲', { activeBin });
+            return;
+        }
+
+        // 需要卖出的X按目标bin中的X换算移除比例；链上移除比例为基点，向上取整到0.01%
+        const sellX = decision.sellValueY / currentPrice;
+        const targetX = targets.reduce((sum, target) => sum + target.targetX, 0);
+        const percentage = Math.min(100, Math.ceil(sellX / targetX * 10000) / 100);
+
+        try {
+            await this.recordState(instanceId, 'hedge_started', {
+                percentage,
+                exposureRatio: decision.exposureRatio,
+                sellValueY: decision.sellValueY
+            });
+            await this.optimizeGasForTransaction(instanceId, '对冲');
+
+            await logger.logOperation('🛡️ 开始执行X敞口对冲', {
+                positionAddresses: targets.map(target => target.address),
+                percentage,
+                exposureRatio: decision.exposureRatio,
+                sellValueY: decision.sellValueY,
+                sellX,
+                targetX,
+                activeBin
+            });
+
+            // 🔥 步骤1: 移除活跃bin上方的流动性
+            const isPaper = this.paperTradingService.isPaperInstance(instanceId);
+            const results = await Promise.allSettled(targets.map(async target => {
+                const binRange: [number, number] = [Math.max(target.lowerBinId, activeBin + 1), target.upperBinId];
+                const result = isPaper
+                    ? await this.paperTradingService.removeLiquidity(instanceId, target.address, percentage, binRange)
+                    : await this.positionManager.removeLiquidity(target.address, percentage, binRange);
+                if (!result.success) {
+                    throw new Error(`头寸移除流动性失败: ${result.error || '未知错误'}`);
+                }
+                return { ...result, positionAddress: target.address, binRange };
+            }));
+
+            const removed = results.flatMap(settled => settled.status === 'fulfilled' ? [settled.value] : []);
+            const failed = results.flatMap((settled, index) => settled.status === 'rejected'
+                ? [{ address: targets[index]?.address || '', error: settled.reason instanceof Error ? settled.reason.message : String(settled.reason) }]
+                : []);
+            if (removed.length === 0) {
+                throw new Error(`所有头寸移除流动性失败: ${failed.map(item => item.error).join('; ')}`);
+            }
+
+            await this.recordAction(instanceId, 'hedge_liquidity_removed', {
+                percentage,
+                positions: removed.map(result => ({ address: result.positionAddress, binRange: result.binRange })),
+                signatures: removed.map(result => result.signature),
+                ...(failed.length > 0 && { failedPositions: failed })
+            });
+
+            // 本次从头寸中移除的X（exposures为移除前的头寸数量）
+            const inputX = await this.getWithdrawnX(instanceId, exposures, removed.map(result => result.positionAddress));
+            if (!(inputX > 0)) {
+                throw new Error('移除流动性未得到X代币');
+            }
+
+            // 🔥 步骤2: 移除的流动性离开头寸，按移除时的价值下调投入
+            const removedValueY = inputX * currentPrice;
+            const investedAfter = this.getInvestedAmount(state) - removedValueY;
+            if (investedAfter > 0) {
+                state.remainingFraction = investedAfter / state.config.positionAmount;
+                this.instanceMarketDataCache.delete(instanceId);
+                try {
+                    await this.positionAnalyticsServices.get(instanceId)?.updateInitialInvestment(investedAfter.toString());
+                } catch (analyticsError) {
+                    await logger.logError(`对冲后重设初始投入失败: ${analyticsError instanceof Error ? analyticsError.message : String(analyticsError)}`);
+                }
+            }
+
+            // 🔥 步骤3: 通过Jupiter卖出本次移除的X代币
+            // 兑换前先计入未卖出，兑换失败时由后续监控周期重试
+            const carriedX = state.hedge?.unsoldX || 0;
+            const xTokenAmount = inputX.toString();
+            state.hedge = {
+                ...(state.hedge || { hedgeCount: 0, totalInputX: 0, totalOutputY: 0, totalCostY: 0, lastHedgeAt: null }),
+                unsoldX: carriedX + inputX
+            };
+            const swapResult = await this.executeSwapWithLock(instanceId, () => this.swapXTokensToYCore(instanceId, xTokenAmount, 'HEDGE'), 'HEDGE');
+            await this.recordAction(instanceId, 'swap_executed', {
+                inputAmount: xTokenAmount,
+                outputAmount: swapResult.outputAmount,
+                signature: swapResult.signature,
+                reason: 'hedge'
+            });
+
+            // 🔥 步骤4: 累计对冲统计，成本 = 按池子价格计算的X价值 - 实际得到的Y
+            const { tokenYDecimals } = await this.getInstanceTokenPrecision(instanceId);
+            const outputY = parseFloat(swapResult.outputAmount) / Math.pow(10, tokenYDecimals);
+            const costY = inputX * currentPrice - outputY;
+            state.hedge = {
+                hedgeCount: (state.hedge?.hedgeCount || 0) + 1,
+                totalInputX: (state.hedge?.totalInputX || 0) + inputX,
+                totalOutputY: (state.hedge?.totalOutputY || 0) + outputY,
+                totalCostY: (state.hedge?.totalCostY || 0) + costY,
+                lastHedgeAt: Date.now(),
+                ...(carriedX > 0 && { unsoldX: carriedX })
+            };
+            this.positionAnalyticsServices.get(instanceId)?.setHedgeStatistics(state.hedge);
+
+            const gasUsed = removed.reduce((sum, result) => sum + (result.gasUsed || 0), 0);
+            await this.performanceService.record(instanceId, 'hedge', {
+                success: true,
+                positionAddresses: removed.map(result => result.positionAddress),
+                signature: swapResult.signature,
+                inputAmount: xTokenAmount,
+                outputAmount: swapResult.outputAmount,
+                exitPercentage: percentage,
+                reason: decision.reason,
+                ...(failed.length > 0 && { error: failed.map(item => `${item.address}: ${item.error}`).join('; ') }),
+                ...(gasUsed > 0 && { cost: { gasUsed } })
+            });
+
+            await this.recordState(instanceId, 'hedge_completed', {
+                percentage,
+                inputX,
+                outputY,
+                costY
+            });
+            await logger.logOperation('✅ X敞口对冲完成', {
+                percentage,
+                inputX,
+                ...(carriedX > 0 && { unsoldX: carriedX }),
+                outputY,
+                costY,
+                hedgeCount: state.hedge.hedgeCount,
+                totalCostY: state.hedge.totalCostY,
+                remainingInvestment: this.getInvestedAmount(state)
+            });
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            await logger.logError(`X敞口对冲失败: ${errorMessage}`);
+            if (state.hedge?.unsoldX) {
+                this.positionAnalyticsServices.get(instanceId)?.setHedgeStatistics(state.hedge);
+                await logger.logOperation('⏳ 未卖出的X代币留待下个监控周期重试', { unsoldX: state.hedge.unsoldX });
+            }
+            await this.performanceService.record(instanceId, 'hedge', {
+                success: false,
+                positionAddresses: targets.map(target => target.address),
+                exitPercentage: percentage,
+                error: errorMessage
+            });
+            await this.recordState(instanceId, 'hedge_failed', {
+                percentage,
+                error: errorMessage,
+                ...(state.hedge?.unsoldX && { unsoldX: state.hedge.unsoldX })
+            });
+        }
+    }
+
+    /**
+     * 🔁 重试卖出上次对冲未卖出的X代币（不超过钱包中的X余额），成本按当前池子价格计入对冲统计
+     */
+    private async retryUnsoldHedgeX(instanceId: string): Promise<void> {
+        const state = this.instanceStates.get(instanceId);
+        const logger = this.getInstanceLogger(instanceId);
+        const unsoldX = state?.hedge?.unsoldX;
+        if (!state?.hedge || !logger || !unsoldX) return;
+
+        try {
+            const sellAmountX = Math.min(unsoldX, parseFloat(await this.getAccountXTokenBalance(instanceId)) || 0);
+            if (!(sellAmountX > 0)) {
+                await logger.logOperation('ℹ️ 钱包中已没有未卖出的对冲X代币，清除记录', { unsoldX });
+                this.settleUnsoldHedgeX(instanceId);
+                await this.recordState(instanceId, 'hedge_unsold_cleared', { unsoldX });
+                return;
+            }
+
+            const poolInfo = await this.dlmmMonitor.getPoolInfo(state.config.poolAddress);
+            const xTokenAmount = sellAmountX.toString();
+            const swapResult = await this.executeSwapWithLock(instanceId, () => this.swapXTokensToYCore(instanceId, xTokenAmount, 'HEDGE'), 'HEDGE');
+            await this.recordAction(instanceId, 'swap_executed', {
+                inputAmount: xTokenAmount,
+                outputAmount: swapResult.outputAmount,
+                signature: swapResult.signature,
+                reason: 'hedge_retry'
+            });
+
+            const { tokenYDecimals } = await this.getInstanceTokenPrecision(instanceId);
+            const outputY = parseFloat(swapResult.outputAmount) / Math.pow(10, tokenYDecimals);
+            const costY = sellAmountX * poolInfo.activePrice - outputY;
+            const { unsoldX: _ignored, ...hedge } = state.hedge;
+            state.hedge = {
+                ...hedge,
+                totalInputX: hedge.totalInputX + sellAmountX,
+                totalOutputY: hedge.totalOutputY + outputY,
+                totalCostY: hedge.totalCostY + costY
+            };
+            this.positionAnalyticsServices.get(instanceId)?.setHedgeStatistics(state.hedge);
+
+            await this.recordState(instanceId, 'hedge_unsold_sold', { inputX: sellAmountX, outputY, costY });
+            await logger.logOperation('✅ 上次对冲未卖出的X代币已卖出', {
+                inputX: sellAmountX,
+                outputY,
+                costY,
+                totalCostY: state.hedge.totalCostY
+            });
+        } catch (error) {
+            await logger.logError(`重试卖出对冲X代币失败，下个监控周期继续重试: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * 🧾 止损或重建卖出钱包中全部X代币后，清除对冲未卖出记录（这部分X已随之卖出）
+     */
+    private settleUnsoldHedgeX(instanceId: string): void {
+        const state = this.instanceStates.get(instanceId);
+        if (!state?.hedge?.unsoldX) return;
+
+        const { unsoldX: _ignored, ...hedge } = state.hedge;
+        state.hedge = hedge;
+        this.positionAnalyticsServices.get(instanceId)?.setHedgeStatistics(state.hedge);
+    }
+
     /**
      * 🏗️ 头寸重建决策处理：根据模块决策结果执行相应操作
      */
@@ -2051,10 +3264,12 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             state.phase = 'STOPPING';
             // 🔥 设置头寸重建原因标识
             state.stoppingReason = 'POSITION_RECREATION';
+            await this.recordState(instanceId, 'recreation_started', {
+                recreationType: decision.recreationType
+            });
 
             await logger.logOperation('🚨 头寸重建核心流程开始', {
-                position1Address: state.position1Address,
-                position2Address: state.position2Address,
+                positionAddresses: state.positionAddresses,
                 reason: 'position_recreation_execution'
             });
 
@@ -2067,7 +3282,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
 
                     const result = await this.executeAsyncClosePositionWithRetry(
                         async () => {
-                            const closeResult = await this.positionManager.closePosition(positionAddress);
+                            const closeResult = await this.closePositionForInstance(instanceId, positionAddress);
                             if (!closeResult.success) {
                                 throw new Error(`${positionName}关闭失败: ${closeResult.error || '未知错误'}`);
                             }
@@ -2101,27 +3316,25 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                 }
             };
 
-            // 🛑 步骤1: 并行关闭所有头寸
-            const [pos1Result, pos2Result] = await Promise.all([
-                state.position1Address ?
-                    closePositionSafely(state.position1Address, '头寸1') :
-                    Promise.resolve({ success: true, skipped: true } as PositionCloseResult),
-                state.position2Address ?
-                    closePositionSafely(state.position2Address, '头寸2') :
-                    Promise.resolve({ success: true, skipped: true } as PositionCloseResult)
-            ]);
+            // 🛑 步骤1: 并行关闭所有分段头寸
+            const closeResults = await Promise.all(state.positionAddresses.map((positionAddress, index) =>
+                closePositionSafely(positionAddress, `头寸${index + 1}`)
+            ));
+            const closeSummary = Object.fromEntries(closeResults.map((closeResult, index) => [
+                `position${index + 1}`,
+                closeResult.success ? (closeResult.alreadyClosed ? '已关闭' : closeResult.skipped ? '跳过' : '关闭成功') : '关闭失败'
+            ]));
 
             // 🔥 严格判断：所有头寸都必须成功关闭才能继续
-            const canProceed = pos1Result.success && pos2Result.success;
+            const canProceed = closeResults.every(closeResult => closeResult.success);
 
             if (!canProceed) {
-                const failedPositions = [];
-                if (!pos1Result.success) failedPositions.push(`头寸1=${pos1Result.error || '未处理'}`);
-                if (!pos2Result.success) failedPositions.push(`头寸2=${pos2Result.error || '未处理'}`);
+                const failedPositions = closeResults.flatMap((closeResult, index) =>
+                    closeResult.success ? [] : [`头寸${index + 1}=${closeResult.error || '未处理'}`]
+                );
 
                 await logger.logOperation('📊 头寸关闭结果汇总', {
-                    position1: pos1Result.success ? (pos1Result.alreadyClosed ? '已关闭' : pos1Result.skipped ? '跳过' : '关闭成功') : '关闭失败',
-                    position2: pos2Result.success ? (pos2Result.alreadyClosed ? '已关闭' : pos2Result.skipped ? '跳过' : '关闭成功') : '关闭失败',
+                    ...closeSummary,
                     canProceed: false,
                     reason: '存在头寸关闭失败，不能创建新头寸'
                 });
@@ -2133,12 +3346,14 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                 });
 
                 state.phase = 'STOPPING';
+                await this.recordState(instanceId, 'recreation_close_failed', {
+                    failedPositions
+                });
                 return;
             }
 
             await logger.logOperation('📊 头寸关闭结果汇总', {
-                position1: pos1Result.success ? (pos1Result.alreadyClosed ? '已关闭' : pos1Result.skipped ? '跳过' : '关闭成功') : '关闭失败',
-                position2: pos2Result.success ? (pos2Result.alreadyClosed ? '已关闭' : pos2Result.skipped ? '跳过' : '关闭成功') : '关闭失败',
+                ...closeSummary,
                 canProceed: true,
                 reason: '所有头寸关闭成功，可以创建新头寸'
             });
@@ -2175,6 +3390,13 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                             recreationType: decision.recreationType,
                             context: 'position_recreation'
                         });
+                        await this.recordAction(instanceId, 'swap_executed', {
+                            inputAmount: xTokenBalance,
+                            outputAmount: swapResult.outputAmount,
+                            signature: swapResult.signature,
+                            reason: 'position_recreation'
+                        });
+                        this.settleUnsoldHedgeX(instanceId);
                     } catch (swapError) {
                         // 🚨 代币交换失败不应阻止头寸重建，但要记录错误
                         await logger.logError(`❌ X代币卖出失败，但继续执行头寸重建: ${swapError instanceof Error ? swapError.message : String(swapError)}`);
@@ -2219,6 +3441,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                         state.phase = 'STOPPED';
                         state.isActive = false;
                         state.stoppingReason = 'MANUAL_STOP'; // 标记为止损类型的停止
+                        await this.recordState(instanceId, 'stopped', { reason: 'price_limit_triggered' });
 
                         // 🔥 广播策略状态更新到前端（价格下限触发停止）
                         await this.broadcastStrategyStatusUpdate(instanceId, 'stopped', 'price_limit_triggered');
@@ -2283,6 +3506,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                     state.phase = 'STOPPED';
                     state.isActive = false;
                     state.stoppingReason = 'MANUAL_STOP'; // 标记为止损类型的停止
+                    await this.recordState(instanceId, 'stopped', { reason: 'dynamic_recreation_switch_triggered' });
 
                     // 🔥 广播策略状态更新到前端（动态重建开关触发停止）
                     await this.broadcastStrategyStatusUpdate(instanceId, 'stopped', 'dynamic_recreation_switch_triggered');
@@ -2330,13 +3554,12 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
 
             // 重置状态为创建阶段
             state.phase = 'CREATING';
-            state.position1Address = null;
-            state.position2Address = null;
+            state.positionAddresses = [];
+            state.segments = [];
             state.positionRange = null;
             state.currentActiveBin = null;
             state.isInRange = false;
-
-
+            await this.recordState(instanceId, 'recreation_creating');
 
             // 重新创建连锁头寸
             await this.createChainPosition(instanceId);
@@ -2349,10 +3572,10 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             state.stoppingReason = null; // 🔥 清除头寸重建标识
 
             await logger.logOperation('✅ 头寸重建完成', {
-                newPosition1Address: state.position1Address,
-                newPosition2Address: state.position2Address,
+                newPositionAddresses: state.positionAddresses,
                 newPositionRange: state.positionRange
             });
+            await this.performanceService.record(instanceId, 'recreation', { success: true, reason: decision.recreationType });
 
             // 🔧 重要修复：重建完成后重置PositionRecreationModule的超时状态
             const recreationModule = this.positionRecreationModules.get(instanceId);
@@ -2364,11 +3587,15 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                     resetTime: new Date().toISOString()
                 });
             }
+            await this.recordState(instanceId, 'recreation_completed');
 
         } catch (error) {
             await logger.logError(`头寸重建失败: ${error instanceof Error ? error.message : String(error)}`);
             state.phase = 'ERROR';
             state.stoppingReason = null; // 🔥 清除头寸重建标识
+            await this.recordState(instanceId, 'recreation_failed', {
+                error: error instanceof Error ? error.message : String(error)
+            });
         }
     }
 
@@ -2438,6 +3665,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         // 如果开关状态发生变化，记录日志
         if (previousSwitchEnabled !== currentSwitchEnabled) {
             state.dynamicRecreationSwitchEnabled = currentSwitchEnabled;
+            await this.recordState(instanceId, 'recreation_switch_changed');
 
             // 🔍 调试日志：状态变化
             await logger.logMonitoring('🔍 动态重建开关状态发生变化', {
@@ -2556,14 +3784,13 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         const errorMsg = error instanceof Error ? error.message : String(error);
 
         // 检查是否为部分创建成功的情况
-        if (errorMsg.includes('头寸1创建失败') || errorMsg.includes('头寸2基础创建失败')) {
+        if (/头寸\d+创建失败/.test(errorMsg)) {
             // 解析可能成功创建的头寸地址
             const cleanupTargets: string[] = [];
 
             // 这里可以通过更精确的错误解析来确定哪些头寸需要清理
             // 简化处理：如果有任何头寸地址存在，都加入清理列表
-            if (state.position1Address) cleanupTargets.push(state.position1Address);
-            if (state.position2Address) cleanupTargets.push(state.position2Address);
+            cleanupTargets.push(...state.positionAddresses);
 
             if (cleanupTargets.length > 0) {
                 await logger.logOperation('🧹 检测到部分创建成功，启动清理流程', {
@@ -2576,6 +3803,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                 state.cleanupRetryCount = 0;
                 state.cleanupTargets = cleanupTargets;
                 state.lastCleanupAttempt = new Date();
+                await this.recordState(instanceId, 'cleanup_scheduled', { error: errorMsg });
 
                 // 立即尝试第一次清理
                 await this.executeCleanupRetry(instanceId);
@@ -2623,8 +3851,9 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             delete state.lastCleanupAttempt;
 
             // 清理状态中的头寸地址
-            state.position1Address = null;
-            state.position2Address = null;
+            state.positionAddresses = [];
+            state.segments = [];
+            await this.recordState(instanceId, 'cleanup_completed');
 
         } catch (error) {
             // 更新重试计数
@@ -2634,7 +3863,11 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             if (state.cleanupRetryCount >= 3) {
                 await logger.logError(`🚨 清理重试次数超限(3次)，进入ERROR状态`);
                 state.phase = 'ERROR';
-            } else {
+            }
+            await this.recordState(instanceId, 'cleanup_failed', {
+                error: error instanceof Error ? error.message : String(error)
+            });
+            if (state.phase === 'CLEANING') {
                 await logger.logOperation('⚠️ 清理失败，等待下次重试', {
                     error: error instanceof Error ? error.message : String(error),
                     nextRetryCount: state.cleanupRetryCount + 1
@@ -2656,7 +3889,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         });
 
         // 直接调用头寸关闭，不再嵌套重试（重试由上层管理）
-        const closeResult = await this.positionManager.closePosition(positionAddress);
+        const closeResult = await this.closePositionForInstance(instanceId, positionAddress);
         if (!closeResult.success) {
             throw new Error(`头寸关闭失败: ${closeResult.error || '未知错误'}`);
         }
@@ -2741,7 +3974,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
     private async executeSwapWithLock<T>(
         instanceId: string,
         operation: () => Promise<T>,
-        operationType: 'STOP_LOSS' | 'POSITION_RECREATION'
+        operationType: SwapContext
     ): Promise<T> {
         const logger = this.getInstanceLogger(instanceId);
 
@@ -2781,7 +4014,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
     private async swapXTokensToYCore(
         instanceId: string,
         xTokenAmount: string,
-        context: 'STOP_LOSS' | 'POSITION_RECREATION'
+        context: SwapContext
     ): Promise<{
         outputAmount: string;
         signature: string;
@@ -2793,6 +4026,22 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
         }
 
         try {
+            // 📝 模拟盘：按报价在虚拟账户中成交
+            if (this.paperTradingService.isPaperInstance(instanceId)) {
+                const paperResult = await this.paperTradingService.swapTokenXToY(instanceId, xTokenAmount, state.config.slippageBps || 2000);
+                await logger.logOperation(`📝 模拟盘${SWAP_CONTEXT_LABELS[context]}X代币交换完成`, {
+                    inputAmount: xTokenAmount,
+                    outputAmount: paperResult.outputAmount,
+                    signature: paperResult.signature,
+                    context: context
+                });
+                await this.recordSwap(instanceId, xTokenAmount, paperResult.outputAmount, paperResult.signature, paperResult.priceImpact, context);
+                return {
+                    outputAmount: paperResult.outputAmount,
+                    signature: paperResult.signature
+                };
+            }
+
             // 获取池子信息以获取代币mint地址
             const poolInfo = await this.dlmmMonitor.getPoolInfo(state.config.poolAddress);
             if (!poolInfo || !poolInfo.tokenX || !poolInfo.tokenY) {
@@ -2826,7 +4075,7 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             const atomicAmountFloat = parseFloat(xTokenAmount) * Math.pow(10, xTokenDecimals);
             const atomicAmount = Math.round(atomicAmountFloat).toString();
 
-            await logger.logOperation(`🔄 开始执行${context === 'STOP_LOSS' ? '止损' : '头寸重建'}X代币交换`, {
+            await logger.logOperation(`🔄 开始执行${SWAP_CONTEXT_LABELS[context]}X代币交换`, {
                 inputMint: poolInfo.tokenX,
                 outputMint: poolInfo.tokenY,
                 humanReadableAmount: xTokenAmount,
@@ -2851,11 +4100,11 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
             // 🚨 验证交易状态 - 与YieldOperator保持一致
             const verificationResult = await (this.solanaService as any).verifyTransactionWithRetry(swapResult.signature, 4);
             if (verificationResult.status === 'failed') {
-                await logger.logError(`❌ ${context === 'STOP_LOSS' ? '止损' : '头寸重建'}代币交换交易执行失败 - 签名: ${swapResult.signature}, 状态: ${verificationResult.status}`);
+                await logger.logError(`❌ ${SWAP_CONTEXT_LABELS[context]}代币交换交易执行失败 - 签名: ${swapResult.signature}, 状态: ${verificationResult.status}`);
                 throw new Error(`交易失败`); // 抛出可重试的错误
             }
 
-            await logger.logOperation(`✅ ${context === 'STOP_LOSS' ? '止损' : '头寸重建'}X代币交换成功`, {
+            await logger.logOperation(`✅ ${SWAP_CONTEXT_LABELS[context]}X代币交换成功`, {
                 inputAmount: xTokenAmount,
                 inputAtomicAmount: atomicAmount,
                 inputDecimals: xTokenDecimals,
@@ -2866,17 +4115,38 @@ export class ChainPositionExecutor extends SynchronousRetryMixin implements IStr
                 context: context
             });
 
+            await this.recordSwap(instanceId, xTokenAmount, swapResult.outputAmount, swapResult.signature, swapResult.priceImpact, context);
             return {
                 outputAmount: swapResult.outputAmount,
                 signature: swapResult.signature
             };
 
         } catch (error) {
-            await logger.logError(`${context === 'STOP_LOSS' ? '止损' : '头寸重建'}X代币交换失败: ${error instanceof Error ? error.message : String(error)}`);
+            await logger.logError(`${SWAP_CONTEXT_LABELS[context]}X代币交换失败: ${error instanceof Error ? error.message : String(error)}`);
+            await this.performanceService.record(instanceId, 'swap', {
+                success: false,
+                inputAmount: xTokenAmount,
+                error: error instanceof Error ? error.message : String(error),
+                reason: SWAP_CONTEXT_REASONS[context]
+            });
             throw error;
         }
     }
 
+    /**
+     * 📒 兑换成功后写入操作历史
+     */
+    private async recordSwap(instanceId: string, inputAmount: string, outputAmount: string, signature: string, priceImpact: number, context: SwapContext): Promise<void> {
+        await this.performanceService.record(instanceId, 'swap', {
+            success: true,
+            signature,
+            inputAmount,
+            outputAmount,
+            cost: { priceImpact },
+            reason: SWAP_CONTEXT_REASONS[context]
+        });
+    }
+
     /**
      * 🔄 卖出所有X代币为Y代币 - 止损专用（已重构使用核心逻辑）
      */
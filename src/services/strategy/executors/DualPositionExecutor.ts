@@ -0,0 +1,620 @@
+/**
+ * ⚖️ 双向头寸策略执行器
+ *
+ * 在活跃bin两侧同时持有一对单边头寸：
+ * - Y头寸：从活跃bin向下（YPositionManager），价格下跌时买入X代币
+ * - X头寸：从活跃bin上方向上（XPositionManager），价格上涨时卖出X代币
+ * 创建时先按 xAllocationPercentage 把部分Y代币兑换为X代币。
+ *
+ * 活跃bin离开两个头寸的合并范围超过 outOfRangeTimeout 后，关闭两个头寸、卖出X代币并围绕新的活跃bin重新建仓；
+ * 智能止损与分析数据复用实例级的 SmartStopLossModule 和 PositionAnalyticsService。
+ * 模拟盘账本只支持Y代币头寸，该策略仅支持实盘。
+ */
+
+import 'reflect-metadata';
+import { injectable, inject } from 'tsyringe';
+import { TYPES, ILoggerService, IStrategyLogger } from '../../../types/interfaces';
+import { IStrategyExecutor, ExecutorStatus, StopLossResult } from '../StrategyRegistry';
+import { SmartStopLossModule, StopLossDecision } from '../../modules/SmartStopLossModule';
+import { SynchronousRetryMixin } from './mixins/SynchronousRetryMixin';
+import { SMART_STOP_LOSS_PARAMETERS } from './PositionStrategyParameters';
+import { LiquidityExecutionService, LiquidityStopLossConfig } from './LiquidityExecutionService';
+import { StrategyConfigSchema, StrategyConfigChange } from '../../../types/strategy';
+
+// 双向头寸策略配置
+export interface DualPositionConfig extends LiquidityStopLossConfig {
+    poolAddress: string;
+    positionAmount: number;             // 总投入（Y代币）
+    yBinRange: number;                  // Y头寸bin数量
+    xBinRange: number;                  // X头寸bin数量
+    xAllocationPercentage: number;      // 兑换为X代币用于X头寸的比例(%)
+    monitoringInterval: number;         // 秒
+    outOfRangeTimeout: number;          // 秒
+    enableRebalance: boolean;
+    maxRebalances: number;              // 0为不限制
+    slippageBps?: number;
+    yieldExtractionThreshold?: string | number;
+    yieldExtractionTimeLock?: number;
+}
+
+// 双向头寸策略状态
+export interface DualPositionState {
+    instanceId: string;
+    config: DualPositionConfig;
+    phase: 'CREATED' | 'CREATING' | 'MONITORING' | 'REBALANCING' | 'STOPPING' | 'STOPPED' | 'ERROR';
+    yPositionAddress: string | null;
+    xPositionAddress: string | null;
+    yRange: [number, number] | null;
+    xRange: [number, number] | null;
+    currentActiveBin: number | null;
+    isInRange: boolean;
+    outOfRangeSince: number | null;
+    rebalanceCount: number;
+    createdAt: Date;
+    lastMonitoringTime: Date | null;
+    isActive: boolean;
+    hasBeenCreated: boolean;
+    stoppingReason?: 'STOP_LOSS' | 'MANUAL_STOP' | null;
+    error?: string;
+}
+
+@injectable()
+export class DualPositionExecutor extends SynchronousRetryMixin implements IStrategyExecutor {
+    private static readonly DEFAULT_CONFIG: Omit<DualPositionConfig, 'poolAddress' | 'positionAmount'> = {
+        yBinRange: 69,
+        xBinRange: 69,
+        xAllocationPercentage: 50,
+        monitoringInterval: 45,
+        outOfRangeTimeout: 600,
+        enableRebalance: true,
+        maxRebalances: 0,
+        slippageBps: 1000,
+        enableSmartStopLoss: true
+    };
+    private static readonly RETRYABLE_ERRORS = [
+        '头寸创建失败', '交易验证超时', '交易失败', 'RPC_ERROR', 'NETWORK_ERROR', 'SLIPPAGE_ERROR',
+        'failed to get info about account'
+    ];
+
+    private instanceConfigs: Map<string, DualPositionConfig> = new Map();
+    private instanceStates: Map<string, DualPositionState> = new Map();
+    private instanceLoggers: Map<string, IStrategyLogger> = new Map();
+    private stopLossModules: Map<string, SmartStopLossModule> = new Map();
+    private monitoringTimers: Map<string, NodeJS.Timeout> = new Map();
+    private runningCycles: Set<string> = new Set();
+
+    constructor(
+        @inject(TYPES.LoggerService) private loggerService: ILoggerService,
+        @inject(LiquidityExecutionService) private liquidityService: LiquidityExecutionService
+    ) {
+        super();
+    }
+
+    getType(): string {
+        return 'dual-position';
+    }
+
+    getVersion(): string {
+        return 'v1.0.0';
+    }
+
+    getConfigSchema(): StrategyConfigSchema {
+        return {
+            name: '双向头寸策略',
+            description: '在活跃bin两侧同时持有Y头寸和X头寸，脱离范围超时后重新平衡（仅支持实盘）',
+            parameters: [
+                { name: 'poolAddress', type: 'string', description: '池子地址', required: true, pattern: '^[1-9A-HJ-NP-Za-km-z]{32,44}$' },
+                { name: 'positionAmount', type: 'number', description: '总投入金额(Y代币)', required: true, min: 0.001 },
+                { name: 'yBinRange', type: 'number', description: 'Y头寸bin范围（活跃bin向下）', default: 69, min: 1, max: 69, integer: true },
+                { name: 'xBinRange', type: 'number', description: 'X头寸bin范围（活跃bin向上）', default: 69, min: 1, max: 69, integer: true },
+                { name: 'xAllocationPercentage', type: 'number', description: '兑换为X代币用于X头寸的比例(%)', default: 50, min: 10, max: 90 },
+                { name: 'monitoringInterval', type: 'number', description: '监控间隔(秒)', default: 45, min: 5, hot: true },
+                { name: 'outOfRangeTimeout', type: 'number', description: '超出范围超时(秒)', default: 600, min: 60, hot: true },
+                { name: 'enableRebalance', type: 'boolean', description: '超出范围超时后重新平衡', default: true, hot: true },
+                { name: 'maxRebalances', type: 'number', description: '最多重新平衡次数（0为不限制）', default: 0, min: 0, integer: true, hot: true },
+                { name: 'slippageBps', type: 'number', description: '兑换滑点(基点)', default: 1000, min: 100, max: 3000, integer: true, hot: true },
+                { name: 'yieldExtractionThreshold', type: 'number', description: '收益提取阈值', default: 0.1, min: 0.001, numericString: true },
+                { name: 'yieldExtractionTimeLock', type: 'number', description: '收益提取时间锁(分钟)', default: 1, min: 1, max: 60, integer: true },
+                { name: 'enableSmartStopLoss', type: 'boolean', description: '启用智能止损', default: true, hot: true },
+                { name: 'stopLoss', type: 'object', description: '智能止损参数', hot: true, parameters: SMART_STOP_LOSS_PARAMETERS },
+                { name: 'smartStopLoss', type: 'object', description: '智能止损参数（优先于stopLoss）', hot: true, parameters: SMART_STOP_LOSS_PARAMETERS }
+            ]
+        };
+    }
+
+    async initialize(config: DualPositionConfig): Promise<void> {
+        // 执行器级别的初始化
+    }
+
+    setInstanceConfig(instanceId: string, config: DualPositionConfig): void {
+        this.instanceConfigs.set(instanceId, { ...DualPositionExecutor.DEFAULT_CONFIG, ...config });
+    }
+
+    /**
+     * 🚀 创建双向头寸并启动监控（重复调用时只恢复监控）
+     */
+    async execute(instanceId: string): Promise<void> {
+        const logger = this.getLogger(instanceId);
+        const config = this.instanceConfigs.get(instanceId);
+        if (!config) {
+            throw new Error(`策略配置不存在: ${instanceId}`);
+        }
+
+        const existing = this.instanceStates.get(instanceId);
+        if (existing?.hasBeenCreated || existing?.phase === 'CREATING') {
+            if (existing.hasBeenCreated && (existing.phase === 'CREATED' || existing.phase === 'STOPPED') && existing.yPositionAddress) {
+                existing.isActive = true;
+                await this.startMonitoring(instanceId);
+            }
+            return;
+        }
+
+        if (this.liquidityService.isPaperInstance(instanceId)) {
+            throw new Error('双向头寸策略暂不支持模拟盘（模拟账本只支持Y代币头寸）');
+        }
+
+        const state: DualPositionState = {
+            instanceId,
+            config,
+            phase: 'CREATING',
+            yPositionAddress: null,
+            xPositionAddress: null,
+            yRange: null,
+            xRange: null,
+            currentActiveBin: null,
+            isInRange: true,
+            outOfRangeSince: null,
+            rebalanceCount: 0,
+            createdAt: new Date(),
+            lastMonitoringTime: null,
+            isActive: true,
+            hasBeenCreated: false
+        };
+        this.instanceStates.set(instanceId, state);
+
+        try {
+            await this.openPositions(state);
+            state.hasBeenCreated = true;
+            state.phase = 'CREATED';
+
+            await this.startMonitoring(instanceId);
+            await this.liquidityService.publishStatus(instanceId, 'running', 'dual_positions_created', this.describePositions(state));
+        } catch (error) {
+            state.phase = 'ERROR';
+            state.error = error instanceof Error ? error.message : String(error);
+            await logger.logError(`双向头寸策略启动失败: ${state.error}`);
+            throw error;
+        }
+    }
+
+    async stop(instanceId: string): Promise<void> {
+        this.stopMonitoringLoop(instanceId);
+        const state = this.instanceStates.get(instanceId);
+        if (state) {
+            state.phase = 'STOPPED';
+            state.isActive = false;
+            state.stoppingReason = null;
+        }
+    }
+
+    async cleanup(instanceId: string): Promise<void> {
+        this.stopMonitoringLoop(instanceId);
+
+        try {
+            await this.liquidityService.stopAnalytics(instanceId);
+        } catch (error) {
+            await this.instanceLoggers.get(instanceId)?.logError(`服务工厂清理失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        this.instanceStates.delete(instanceId);
+        this.instanceConfigs.delete(instanceId);
+        this.stopLossModules.delete(instanceId);
+        this.instanceLoggers.delete(instanceId);
+        this.runningCycles.delete(instanceId);
+    }
+
+    getStatus(instanceId: string): ExecutorStatus {
+        const state = this.instanceStates.get(instanceId);
+        if (!state) {
+            return { isRunning: false };
+        }
+
+        return {
+            isRunning: this.monitoringTimers.has(instanceId),
+            ...(state.lastMonitoringTime && { lastExecutionTime: state.lastMonitoringTime }),
+            error: state.error || null,
+            positionAddresses: [state.yPositionAddress, state.xPositionAddress].filter((address): address is string => !!address),
+            metrics: {
+                phase: state.phase,
+                ...this.describePositions(state),
+                currentActiveBin: state.currentActiveBin,
+                isInRange: state.isInRange,
+                rebalanceCount: state.rebalanceCount
+            }
+        };
+    }
+
+    /**
+     * 🔥 热更新运行中实例的配置（changes只包含参数Schema中标记为hot的字段）
+     */
+    async applyHotConfig(instanceId: string, config: DualPositionConfig, changes: StrategyConfigChange[]): Promise<void> {
+        this.setInstanceConfig(instanceId, config);
+        const resolved = this.instanceConfigs.get(instanceId)!;
+        const state = this.instanceStates.get(instanceId);
+        if (!state) return;
+
+        state.config = resolved;
+        const changed = (...paths: string[]) => changes.some(change => paths.some(path => change.path === path || change.path.startsWith(`${path}.`)));
+
+        if (changed('enableSmartStopLoss', 'stopLoss', 'smartStopLoss') && resolved.enableSmartStopLoss) {
+            const module = this.stopLossModules.get(instanceId);
+            if (module) {
+                module.updateConfig(this.liquidityService.buildStopLossConfig(resolved));
+            } else if (state.hasBeenCreated) {
+                this.stopLossModules.set(instanceId, this.liquidityService.createStopLossModule(instanceId, resolved));
+            }
+        }
+
+        if (changed('monitoringInterval') && this.monitoringTimers.has(instanceId)) {
+            this.startMonitoringLoop(instanceId);
+        }
+
+        await this.getLogger(instanceId).logOperation('🔥 双向头寸配置热更新已生效', {
+            instanceId,
+            changes: changes.map(change => ({ path: change.path, oldValue: change.oldValue, newValue: change.newValue }))
+        });
+    }
+
+    /**
+     * 🔧 手动止损：关闭两个头寸并卖出X代币
+     */
+    async executeManualStopLoss(instanceId: string): Promise<StopLossResult> {
+        const state = this.instanceStates.get(instanceId);
+        if (!state) {
+            throw new Error(`双向头寸策略实例状态不存在: ${instanceId}`);
+        }
+
+        await this.getLogger(instanceId).logOperation('🔧 双向头寸手动止损触发', { instanceId, triggerType: 'user_manual' });
+        return this.executeFullExit(state, 'MANUAL_STOP');
+    }
+
+    // ================== 头寸管理 ==================
+
+    /**
+     * 🏗️ 围绕当前活跃bin创建Y头寸和X头寸，任一步骤失败时回滚已创建的头寸
+     */
+    private async openPositions(state: DualPositionState): Promise<void> {
+        const { instanceId, config } = state;
+        const logger = this.getLogger(instanceId);
+        const retryConfig = { maxAttempts: 3, retryableErrors: DualPositionExecutor.RETRYABLE_ERRORS, delayMs: 15000 };
+
+        const { activeBin } = await this.liquidityService.getPoolPrice(config.poolAddress);
+        const xAllocation = config.positionAmount * config.xAllocationPercentage / 100;
+        const yAmount = config.positionAmount - xAllocation;
+        const yRange: [number, number] = [activeBin - config.yBinRange + 1, activeBin];
+
+        await logger.logOperation('⚖️ 开始创建双向头寸', {
+            poolAddress: config.poolAddress,
+            activeBin,
+            yAmount,
+            xAllocation,
+            yRange,
+            xBinRange: config.xBinRange
+        });
+
+        try {
+            const yResult = await this.executeAsyncCreatePositionWithRetry(
+                () => this.liquidityService.createYPosition(instanceId, {
+                    poolAddress: config.poolAddress,
+                    lowerBinId: yRange[0],
+                    upperBinId: yRange[1],
+                    amount: yAmount,
+                    ...(config.slippageBps && { slippageBps: config.slippageBps }),
+                    strategy: 'dual-position'
+                }),
+                instanceId,
+                retryConfig
+            );
+            state.yPositionAddress = yResult.positionAddress!;
+            state.yRange = yRange;
+            await logger.logOperation('✅ Y头寸创建成功', { positionAddress: state.yPositionAddress, signature: yResult.signature, yRange });
+
+            const swap = await this.liquidityService.swapYToX(instanceId, config.poolAddress, xAllocation, config.slippageBps || 1000);
+            await logger.logOperation('🔄 Y代币已兑换为X代币', { inputAmount: swap.inputAmount, outputAmount: swap.outputAmount, signature: swap.signature });
+
+            const xResult = await this.executeAsyncCreatePositionWithRetry(
+                () => this.liquidityService.createXPosition(instanceId, {
+                    poolAddress: config.poolAddress,
+                    binRange: config.xBinRange,
+                    activeBin,
+                    amountRaw: swap.outputAmount,
+                    ...(config.slippageBps && { slippageBps: config.slippageBps }),
+                    strategy: 'dual-position'
+                }),
+                instanceId,
+                retryConfig
+            );
+            state.xPositionAddress = xResult.positionAddress!;
+            state.xRange = [activeBin + 1, activeBin + config.xBinRange];
+            await logger.logOperation('✅ X头寸创建成功', { positionAddress: state.xPositionAddress, signature: xResult.signature, xRange: state.xRange });
+        } catch (error) {
+            await logger.logError(`双向头寸创建失败，回滚已创建的头寸: ${error instanceof Error ? error.message : String(error)}`);
+            await this.closePositions(state);
+            await this.liquidityService.sellAllX(instanceId, config.poolAddress, config.slippageBps || 1000, logger);
+            throw error;
+        }
+
+        state.currentActiveBin = activeBin;
+        state.isInRange = true;
+        state.outOfRangeSince = null;
+    }
+
+    /**
+     * 🛑 关闭当前持有的头寸，返回关闭结果
+     */
+    private async closePositions(state: DualPositionState): Promise<Pick<StopLossResult, 'closedPositions' | 'failedPositions'>> {
+        const closedPositions: StopLossResult['closedPositions'] = [];
+        const failedPositions: StopLossResult['failedPositions'] = [];
+        const logger = this.getLogger(state.instanceId);
+
+        for (const key of ['yPositionAddress', 'xPositionAddress'] as const) {
+            const address = state[key];
+            if (!address) continue;
+
+            try {
+                const result = await this.executeAsyncClosePositionWithRetry(
+                    async () => {
+                        const closeResult = await this.liquidityService.closePosition(state.instanceId, address);
+                        if (!closeResult.success) {
+                            throw new Error(`头寸关闭失败: ${closeResult.error || '未知错误'}`);
+                        }
+                        return closeResult;
+                    },
+                    state.instanceId,
+                    { maxAttempts: 3, retryableErrors: ['头寸关闭失败', '交易验证超时', '交易失败', 'RPC_ERROR', 'NETWORK_ERROR'], delayMs: 10000 }
+                );
+                state[key] = null;
+                closedPositions.push({ address, ...(result.signature && { signature: result.signature }) });
+                await logger.logOperation('✅ 头寸已关闭', { positionAddress: address, signature: result.signature, alreadyClosed: !!result.alreadyClosed });
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                failedPositions.push({ address, error: message });
+                await logger.logError(`头寸关闭失败: ${address} - ${message}`);
+            }
+        }
+
+        if (!state.yPositionAddress) state.yRange = null;
+        if (!state.xPositionAddress) state.xRange = null;
+        return { closedPositions, failedPositions };
+    }
+
+    /**
+     * ♻️ 重新平衡：关闭两个头寸、卖出X代币后围绕新的活跃bin重新建仓
+     */
+    private async rebalance(state: DualPositionState): Promise<void> {
+        const { instanceId, config } = state;
+        const logger = this.getLogger(instanceId);
+
+        state.phase = 'REBALANCING';
+        await logger.logOperation('♻️ 活跃bin超出范围超时，开始重新平衡', {
+            activeBin: state.currentActiveBin,
+            yRange: state.yRange,
+            xRange: state.xRange,
+            rebalanceCount: state.rebalanceCount
+        });
+
+        const { failedPositions } = await this.closePositions(state);
+        if (failedPositions.length > 0) {
+            // 保持REBALANCING阶段，下个监控周期重试关闭
+            throw new Error(`重新平衡时头寸关闭失败: ${failedPositions.map(p => p.address).join(', ')}`);
+        }
+        await this.liquidityService.sellAllX(instanceId, config.poolAddress, config.slippageBps || 1000, logger);
+
+        await this.openPositions(state);
+        state.rebalanceCount++;
+        await this.setupAnalytics(state);
+
+        state.phase = 'MONITORING';
+        await logger.logOperation('✅ 双向头寸重新平衡完成', { ...this.describePositions(state), rebalanceCount: state.rebalanceCount });
+        await this.liquidityService.publishStatus(instanceId, 'running', 'dual_position_rebalanced', this.describePositions(state));
+    }
+
+    /**
+     * 🛑 完全退出：停止监控、关闭两个头寸并卖出X代币
+     */
+    private async executeFullExit(state: DualPositionState, reason: 'STOP_LOSS' | 'MANUAL_STOP'): Promise<StopLossResult> {
+        const { instanceId, config } = state;
+        const logger = this.getLogger(instanceId);
+
+        state.phase = 'STOPPING';
+        state.stoppingReason = reason;
+        this.stopMonitoringLoop(instanceId);
+        await this.liquidityService.publishStatus(instanceId, 'stopping', reason === 'STOP_LOSS' ? 'smart_stop_loss_started' : 'manual_stop_loss_started');
+
+        const result: StopLossResult = { success: false, ...(await this.closePositions(state)) };
+        try {
+            const swap = await this.liquidityService.sellAllX(instanceId, config.poolAddress, config.slippageBps || 1000, logger);
+            if (swap) result.swap = swap;
+        } catch (error) {
+            result.swap = { inputAmount: '0', error: error instanceof Error ? error.message : String(error) };
+        }
+
+        result.success = result.failedPositions.length === 0;
+        if (!result.success) {
+            result.error = `头寸关闭失败: ${result.failedPositions.map(p => p.address).join(', ')}`;
+        }
+
+        state.phase = 'STOPPED';
+        state.isActive = false;
+        await logger.logOperation(result.success ? '✅ 双向头寸完全止损执行成功' : '❌ 双向头寸完全止损部分失败', {
+            instanceId,
+            reason,
+            closedPositions: result.closedPositions,
+            failedPositions: result.failedPositions
+        });
+        await this.liquidityService.publishStatus(instanceId, 'stopped',
+            reason === 'STOP_LOSS' ? 'smart_stop_loss_completed' : 'stop_loss_completed', this.describePositions(state));
+
+        return result;
+    }
+
+    // ================== 监控 ==================
+
+    private async startMonitoring(instanceId: string): Promise<void> {
+        const state = this.instanceStates.get(instanceId);
+        if (!state) {
+            throw new Error(`实例状态不存在: ${instanceId}`);
+        }
+
+        await this.setupAnalytics(state);
+        this.startMonitoringLoop(instanceId);
+        state.phase = 'MONITORING';
+
+        await this.getLogger(instanceId).logMonitoring('🔄 双向头寸监控已启动', {
+            monitoringInterval: state.config.monitoringInterval,
+            enableSmartStopLoss: state.config.enableSmartStopLoss,
+            ...this.describePositions(state)
+        });
+    }
+
+    /**
+     * 📊 设置分析服务和智能止损模块（头寸变化后重新设置）
+     */
+    private async setupAnalytics(state: DualPositionState): Promise<void> {
+        const { instanceId, config } = state;
+        await this.liquidityService.stopAnalytics(instanceId);
+        await this.liquidityService.setupAnalytics(instanceId, {
+            poolAddress: config.poolAddress,
+            positionAddresses: [state.yPositionAddress, state.xPositionAddress].filter((address): address is string => !!address),
+            initialInvestment: config.positionAmount,
+            monitoringInterval: config.monitoringInterval,
+            ...(config.yieldExtractionThreshold !== undefined && { yieldExtractionThreshold: config.yieldExtractionThreshold }),
+            ...(config.yieldExtractionTimeLock !== undefined && { yieldExtractionTimeLock: config.yieldExtractionTimeLock })
+        }, this.getLogger(instanceId));
+
+        this.stopLossModules.delete(instanceId);
+        if (config.enableSmartStopLoss) {
+            this.stopLossModules.set(instanceId, this.liquidityService.createStopLossModule(instanceId, config));
+        }
+    }
+
+    private startMonitoringLoop(instanceId: string): void {
+        const state = this.instanceStates.get(instanceId);
+        if (!state) return;
+
+        this.stopMonitoringLoop(instanceId);
+        const timer = setInterval(async () => {
+            try {
+                await this.performMonitoringCycle(instanceId);
+            } catch (error) {
+                await this.instanceLoggers.get(instanceId)?.logError(`监控循环错误: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }, state.config.monitoringInterval * 1000);
+        this.monitoringTimers.set(instanceId, timer);
+    }
+
+    private stopMonitoringLoop(instanceId: string): void {
+        const timer = this.monitoringTimers.get(instanceId);
+        if (timer) {
+            clearInterval(timer);
+            this.monitoringTimers.delete(instanceId);
+        }
+    }
+
+    /**
+     * 📊 监控周期：检查活跃bin位置、处理重新平衡和智能止损
+     */
+    private async performMonitoringCycle(instanceId: string): Promise<void> {
+        const state = this.instanceStates.get(instanceId);
+        if (!state || !state.isActive || this.runningCycles.has(instanceId)) return;
+        if (state.phase !== 'MONITORING' && state.phase !== 'REBALANCING') return;
+
+        this.runningCycles.add(instanceId);
+        try {
+            const logger = this.getLogger(instanceId);
+            const config = state.config;
+            state.lastMonitoringTime = new Date();
+
+            // 上次重新平衡未完成（头寸关闭或建仓失败），继续重试
+            if (state.phase === 'REBALANCING') {
+                await this.rebalance(state);
+                return;
+            }
+
+            const { activeBin } = await this.liquidityService.getPoolPrice(config.poolAddress);
+            state.currentActiveBin = activeBin;
+            const lower = state.yRange ? state.yRange[0] : activeBin;
+            const upper = state.xRange ? state.xRange[1] : activeBin;
+            state.isInRange = activeBin >= lower && activeBin <= upper;
+
+            if (state.isInRange) {
+                if (state.outOfRangeSince) {
+                    await logger.logMonitoring('✅ 活跃bin回到双向头寸范围内', { activeBin, range: [lower, upper] });
+                }
+                state.outOfRangeSince = null;
+            } else {
+                state.outOfRangeSince = state.outOfRangeSince || Date.now();
+                const elapsedSeconds = Math.floor((Date.now() - state.outOfRangeSince) / 1000);
+                await logger.logMonitoring('⏰ 活跃bin超出双向头寸范围', {
+                    activeBin,
+                    range: [lower, upper],
+                    direction: activeBin > upper ? '向上超出' : '向下超出',
+                    elapsedSeconds,
+                    timeoutSeconds: config.outOfRangeTimeout
+                });
+
+                const canRebalance = config.enableRebalance && (config.maxRebalances === 0 || state.rebalanceCount < config.maxRebalances);
+                if (elapsedSeconds >= config.outOfRangeTimeout && canRebalance) {
+                    await this.rebalance(state);
+                    return;
+                }
+            }
+
+            const stopLossModule = this.stopLossModules.get(instanceId);
+            if (config.enableSmartStopLoss && stopLossModule) {
+                const marketData = await this.liquidityService.collectMarketData(instanceId, config.monitoringInterval, '双向头寸策略监控');
+                const decision = await stopLossModule.evaluate(marketData, instanceId);
+                await this.liquidityService.publishStopLossData(instanceId, marketData, decision);
+                await this.handleStopLossDecision(state, decision);
+            }
+        } finally {
+            this.runningCycles.delete(instanceId);
+        }
+    }
+
+    private async handleStopLossDecision(state: DualPositionState, decision: StopLossDecision): Promise<void> {
+        const logger = this.getLogger(state.instanceId);
+
+        await logger.logMonitoring('🧠 双向头寸智能止损分析完成', {
+            决策行动: decision.action,
+            置信度: `${decision.confidence.toFixed(2)}%`,
+            风险评分: decision.riskScore.toFixed(2),
+            分析原因: decision.reasoning
+        });
+
+        // 双向头寸全进全出，部分止损只记录建议
+        if (decision.action === 'FULL_EXIT') {
+            await this.executeFullExit(state, 'STOP_LOSS');
+        }
+    }
+
+    // ================== 工具 ==================
+
+    private describePositions(state: DualPositionState) {
+        return {
+            yPositionAddress: state.yPositionAddress,
+            xPositionAddress: state.xPositionAddress,
+            yRange: state.yRange,
+            xRange: state.xRange
+        };
+    }
+
+    private getLogger(instanceId: string): IStrategyLogger {
+        let logger = this.instanceLoggers.get(instanceId);
+        if (!logger) {
+            logger = this.loggerService.createStrategyLogger(instanceId);
+            this.instanceLoggers.set(instanceId, logger);
+        }
+        return logger;
+    }
+}
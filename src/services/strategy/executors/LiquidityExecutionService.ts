@@ -0,0 +1,490 @@
+/**
+ * 💧 流动性策略通用执行服务
+ *
+ * 双向头寸策略和价格触发策略共用的交易与监控能力：
+ * - 头寸创建/关闭（模拟盘实例自动走虚拟账本）
+ * - X/Y代币余额查询和Jupiter兑换
+ * - 实例级分析服务（PositionAnalyticsService）和智能止损模块（SmartStopLossModule）的创建与数据收集
+ * - 智能止损数据和策略状态广播
+ * - 头寸和兑换操作写入实例操作历史
+ */
+
+import 'reflect-metadata';
+import { injectable, inject } from 'tsyringe';
+import { PublicKey } from '@solana/web3.js';
+import { getAssociatedTokenAddress, getAccount } from '@solana/spl-token';
+import {
+    TYPES, ILoggerService, IEventBus, IMeteoraService, IJupiterService, IWalletService, ISolanaWeb3Service,
+    IPositionManager, IYPositionManager, IXPositionManager, IStrategyLogger, PositionResult
+} from '../../../types/interfaces';
+import { PositionSetupParams } from '../../../types/analytics-types';
+import { PaperTradingService } from '../../business/PaperTradingService';
+import { InstanceAwareServiceFactory } from '../../business/InstanceAwareServiceFactory';
+import { PositionAnalyticsService } from '../../business/PositionAnalyticsService';
+import { SmartStopLossModule, MarketData, StopLossDecision } from '../../modules/SmartStopLossModule';
+import { TokenPrecisionConverter } from '../../../utils/TokenPrecisionConverter';
+import { StrategyPerformanceService } from '../StrategyPerformanceService';
+
+// 池子代币信息
+export interface PoolTokens {
+    tokenXMint: string;
+    tokenYMint: string;
+    tokenXDecimals: number;
+    tokenYDecimals: number;
+}
+
+// 智能止损参数（与简单Y、连锁头寸策略一致）
+export interface LiquidityStopLossConfig {
+    enableSmartStopLoss: boolean;
+    stopLoss?: {
+        activeBinSafetyThreshold?: number;
+        observationPeriodMinutes?: number;
+        lossThresholdPercentage?: number;
+    };
+    smartStopLoss?: {
+        activeBinSafetyThreshold?: number;
+        observationPeriodMinutes?: number;
+        lossThresholdPercentage?: number;
+    };
+}
+
+// 分析服务设置参数
+export interface LiquidityAnalyticsParams {
+    poolAddress: string;
+    positionAddresses: string[];
+    initialInvestment: number;          // 初始投入（Y代币）
+    monitoringInterval: number;         // 秒
+    yieldExtractionThreshold?: string | number;
+    yieldExtractionTimeLock?: number;
+}
+
+// 兑换结果（原子单位）
+export interface LiquiditySwapResult {
+    inputAmount: string;
+    outputAmount: string;
+    signature: string;
+    priceImpact?: number;
+}
+
+@injectable()
+export class LiquidityExecutionService {
+    private static readonly TOKEN_CACHE_TTL = 10 * 60 * 1000;
+
+    private poolTokenCache: Map<string, PoolTokens & { cachedAt: number }> = new Map();
+
+    constructor(
+        @inject(TYPES.LoggerService) private loggerService: ILoggerService,
+        @inject(TYPES.EventBus) private eventBus: IEventBus,
+        @inject(TYPES.MeteoraService) private meteoraService: IMeteoraService,
+        @inject(TYPES.JupiterService) private jupiterService: IJupiterService,
+        @inject(TYPES.WalletService) private walletService: IWalletService,
+        @inject(TYPES.SolanaWeb3Service) private solanaService: ISolanaWeb3Service,
+        @inject(TYPES.PositionManager) private positionManager: IPositionManager,
+        @inject(TYPES.YPositionManager) private yPositionManager: IYPositionManager,
+        @inject(TYPES.XPositionManager) private xPositionManager: IXPositionManager,
+        @inject(PaperTradingService) private paperTradingService: PaperTradingService,
+        @inject(InstanceAwareServiceFactory) private instanceAwareServiceFactory: InstanceAwareServiceFactory,
+        @inject(TYPES.StrategyPerformanceService) private performanceService: StrategyPerformanceService
+    ) { }
+
+    isPaperInstance(instanceId: string): boolean {
+        return this.paperTradingService.isPaperInstance(instanceId);
+    }
+
+    // ================== 行情 ==================
+
+    /**
+     * 📈 获取池子当前活跃bin和价格
+     */
+    async getPoolPrice(poolAddress: string): Promise<{ activeBin: number; activePrice: number }> {
+        if (this.meteoraService.getPoolPriceAndBin) {
+            const { activeBin, activePrice } = await this.meteoraService.getPoolPriceAndBin(poolAddress);
+            return { activeBin, activePrice };
+        }
+        const poolInfo = await this.meteoraService.getPoolInfo(poolAddress);
+        return { activeBin: poolInfo.activeBin, activePrice: poolInfo.activePrice };
+    }
+
+    /**
+     * 🪙 获取池子代币地址和精度（缓存10分钟）
+     */
+    async getPoolTokens(poolAddress: string): Promise<PoolTokens> {
+        const cached = this.poolTokenCache.get(poolAddress);
+        if (cached && Date.now() - cached.cachedAt < LiquidityExecutionService.TOKEN_CACHE_TTL) {
+            return cached;
+        }
+
+        const reserves = await this.meteoraService.getPoolReserves(poolAddress);
+        const tokens: PoolTokens = {
+            tokenXMint: reserves.tokenX,
+            tokenYMint: reserves.tokenY,
+            tokenXDecimals: reserves.tokenXDecimals,
+            tokenYDecimals: reserves.tokenYDecimals
+        };
+        this.poolTokenCache.set(poolAddress, { ...tokens, cachedAt: Date.now() });
+        return tokens;
+    }
+
+    // ================== 头寸 ==================
+
+    /**
+     * 🟡 创建单边Y头寸（amount为人类可读数量）
+     */
+    async createYPosition(instanceId: string, params: {
+        poolAddress: string;
+        lowerBinId: number;
+        upperBinId: number;
+        amount: number;
+        slippageBps?: number;
+        strategy: string;
+    }): Promise<PositionResult> {
+        const createParams = {
+            poolAddress: params.poolAddress,
+            lowerBinId: params.lowerBinId,
+            upperBinId: params.upperBinId,
+            amount: params.amount.toString(),
+            tokenMint: '',  // Y头寸使用池的tokenY
+            binRange: params.upperBinId - params.lowerBinId + 1,
+            activeBin: params.upperBinId,
+            slippageBps: params.slippageBps || 800,
+            strategy: params.strategy,
+            password: '' // 策略执行使用解锁的钱包
+        };
+
+        const result = this.isPaperInstance(instanceId)
+            ? await this.paperTradingService.createYPosition(instanceId, createParams)
+            : await this.yPositionManager.createYPosition(createParams);
+        await this.recordPositionResult(instanceId, 'position_created', result, { amount: createParams.amount, reason: 'y_position' });
+        if (!result.success || !result.positionAddress) {
+            throw new Error(`Y头寸创建失败: ${result.error || '未返回头寸地址'}`);
+        }
+        return result;
+    }
+
+    /**
+     * 🔵 创建单边X头寸（amountRaw为X代币原子单位，范围从活跃bin上方开始）
+     * 模拟盘账本只记录Y代币头寸，暂不支持X头寸
+     */
+    async createXPosition(instanceId: string, params: {
+        poolAddress: string;
+        binRange: number;
+        activeBin: number;
+        amountRaw: string;
+        slippageBps?: number;
+        strategy: string;
+    }): Promise<PositionResult> {
+        if (this.isPaperInstance(instanceId)) {
+            throw new Error('模拟盘暂不支持X头寸');
+        }
+
+        const createParams = {
+            poolAddress: params.poolAddress,
+            lowerBinId: params.activeBin + 1,
+            upperBinId: params.activeBin + params.binRange,
+            amount: params.amountRaw,
+            tokenMint: '',
+            binRange: params.binRange,
+            activeBin: params.activeBin,
+            slippageBps: params.slippageBps || 800,
+            strategy: params.strategy,
+            password: ''
+        };
+        const result = await this.xPositionManager.createXPosition(createParams);
+        await this.recordPositionResult(instanceId, 'position_created', result, { reason: 'x_position' });
+        if (!result.success || !result.positionAddress) {
+            throw new Error(`X头寸创建失败: ${result.error || '未返回头寸地址'}`);
+        }
+        return result;
+    }
+
+    /**
+     * 🛑 关闭头寸，头寸已不存在时视为成功
+     */
+    async closePosition(instanceId: string, positionAddress: string): Promise<PositionResult & { alreadyClosed?: boolean }> {
+        const result = this.isPaperInstance(instanceId)
+            ? await this.paperTradingService.closePosition(instanceId, positionAddress)
+            : await this.positionManager.closePosition(positionAddress);
+
+        if (!result.success && /不存在|not found|already closed|could not find account/i.test(result.error || '')) {
+            await this.performanceService.record(instanceId, 'position_closed', { success: true, positionAddresses: [positionAddress], reason: 'already_closed' });
+            return { ...result, success: true, alreadyClosed: true };
+        }
+        await this.recordPositionResult(instanceId, 'position_closed', { ...result, positionAddress });
+        return result;
+    }
+
+    // ================== 余额与兑换 ==================
+
+    /**
+     * 💰 查询钱包（或模拟账户）的X/Y代币余额，返回人类可读数量
+     */
+    async getTokenBalance(instanceId: string, poolAddress: string, tokenType: 'X' | 'Y'): Promise<string> {
+        if (this.isPaperInstance(instanceId)) {
+            return this.paperTradingService.getTokenBalance(instanceId, tokenType);
+        }
+
+        const keypair = this.walletService.getCurrentKeypair();
+        if (!keypair) {
+            throw new Error('用户钱包未解锁');
+        }
+
+        const tokens = await this.getPoolTokens(poolAddress);
+        const mint = tokenType === 'X' ? tokens.tokenXMint : tokens.tokenYMint;
+        const decimals = tokenType === 'X' ? tokens.tokenXDecimals : tokens.tokenYDecimals;
+        const tokenAccount = await getAssociatedTokenAddress(new PublicKey(mint), keypair.publicKey);
+
+        try {
+            const account = await getAccount(this.solanaService.getConnection(), tokenAccount);
+            return TokenPrecisionConverter.rawToFormatted(account.amount.toString(), decimals);
+        } catch (error) {
+            // 关联代币账户不存在时余额为0
+            if (error instanceof Error && /TokenAccountNotFound|could not find account/i.test(error.name + error.message)) {
+                return '0';
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * 🔄 Y代币兑换为X代币（amount为人类可读数量）
+     */
+    async swapYToX(instanceId: string, poolAddress: string, amount: number, slippageBps: number): Promise<LiquiditySwapResult> {
+        const tokens = await this.getPoolTokens(poolAddress);
+        return this.recordSwap(instanceId, tokens.tokenYDecimals, () => this.executeSwap(instanceId, tokens.tokenYMint, tokens.tokenXMint,
+            TokenPrecisionConverter.formattedToRaw(amount, tokens.tokenYDecimals), slippageBps));
+    }
+
+    /**
+     * 🔄 X代币兑换为Y代币（amount为人类可读数量）
+     */
+    async swapXToY(instanceId: string, poolAddress: string, amount: string, slippageBps: number): Promise<LiquiditySwapResult> {
+        const tokens = await this.getPoolTokens(poolAddress);
+        return this.recordSwap(instanceId, tokens.tokenXDecimals, () => this.executeSwap(instanceId, tokens.tokenXMint, tokens.tokenYMint,
+            TokenPrecisionConverter.formattedToRaw(amount, tokens.tokenXDecimals), slippageBps));
+    }
+
+    /**
+     * 🧹 退出后卖出全部X代币（与简单Y止损一致：卖出失败不影响退出结果）
+     */
+    async sellAllX(instanceId: string, poolAddress: string, slippageBps: number, logger: IStrategyLogger): Promise<{
+        inputAmount: string; outputAmount?: string; signature?: string; error?: string
+    } | undefined> {
+        const xBalance = await this.getTokenBalance(instanceId, poolAddress, 'X');
+        if (!(parseFloat(xBalance) > 0)) {
+            await logger.logOperation('ℹ️ 未检测到X代币余额，跳过卖出操作', { xBalance });
+            return undefined;
+        }
+
+        try {
+            const result = await this.swapXToY(instanceId, poolAddress, xBalance, slippageBps);
+            await logger.logOperation('✅ X代币已卖出为Y代币', { inputAmount: xBalance, outputAmount: result.outputAmount, signature: result.signature });
+            return { inputAmount: xBalance, outputAmount: result.outputAmount, signature: result.signature };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            await logger.logError(`❌ X代币卖出失败: ${message}`);
+            return { inputAmount: xBalance, error: message };
+        }
+    }
+
+    private async executeSwap(instanceId: string, inputMint: string, outputMint: string, amount: string, slippageBps: number): Promise<LiquiditySwapResult> {
+        if (this.isPaperInstance(instanceId)) {
+            const result = await this.paperTradingService.executeSwap(instanceId, {
+                inputMint, outputMint, amount, slippageBps, userPublicKey: 'paper', instanceId
+            });
+            return { inputAmount: amount, outputAmount: result.outputAmount, signature: result.signature, priceImpact: result.priceImpact };
+        }
+
+        const keypair = this.walletService.getCurrentKeypair();
+        if (!keypair) {
+            throw new Error('用户钱包未解锁');
+        }
+
+        const result = await this.jupiterService.executeSwap({
+            inputMint, outputMint, amount, slippageBps, userPublicKey: keypair.publicKey.toString(), instanceId
+        });
+
+        // 🚨 验证交易状态（与简单Y、连锁头寸策略一致）
+        const verification = await (this.solanaService as any).verifyTransactionWithRetry(result.signature, 4);
+        if (verification?.status === 'failed') {
+            throw new Error(`兑换交易失败: ${result.signature}`);
+        }
+        return { inputAmount: amount, outputAmount: result.outputAmount, signature: result.signature, priceImpact: result.priceImpact };
+    }
+
+    // ================== 操作历史 ==================
+
+    private async recordPositionResult(
+        instanceId: string,
+        type: 'position_created' | 'position_closed',
+        result: PositionResult,
+        extra: { amount?: string; reason?: string } = {}
+    ): Promise<void> {
+        await this.performanceService.record(instanceId, type, {
+            success: result.success,
+            ...(result.positionAddress && { positionAddresses: [result.positionAddress] }),
+            ...(result.signature && { signature: result.signature }),
+            ...(result.error && { error: result.error }),
+            ...(result.gasUsed && { cost: { gasUsed: result.gasUsed } }),
+            ...(extra.amount && { amount: extra.amount }),
+            ...(extra.reason && { reason: extra.reason })
+        });
+    }
+
+    /**
+     * 执行兑换并记录（输入按人类可读数量记录）
+     */
+    private async recordSwap(instanceId: string, inputDecimals: number, swap: () => Promise<LiquiditySwapResult>): Promise<LiquiditySwapResult> {
+        try {
+            const result = await swap();
+            await this.performanceService.record(instanceId, 'swap', {
+                success: true,
+                signature: result.signature,
+                inputAmount: TokenPrecisionConverter.rawToFormatted(result.inputAmount, inputDecimals),
+                outputAmount: result.outputAmount,
+                ...(result.priceImpact !== undefined && { cost: { priceImpact: result.priceImpact } })
+            });
+            return result;
+        } catch (error) {
+            await this.performanceService.record(instanceId, 'swap', { success: false, error: error instanceof Error ? error.message : String(error) });
+            throw error;
+        }
+    }
+
+    // ================== 分析与止损 ==================
+
+    /**
+     * 📊 为实例设置头寸分析服务（重复调用时按新的头寸列表重新设置）
+     */
+    async setupAnalytics(instanceId: string, params: LiquidityAnalyticsParams, logger: IStrategyLogger): Promise<PositionAnalyticsService> {
+        const analyticsService = await this.instanceAwareServiceFactory.createAnalyticsServiceForInstance(instanceId);
+        analyticsService.setStrategyLogger(logger);
+
+        const tokens = await this.getPoolTokens(params.poolAddress);
+        const setupParams: PositionSetupParams = {
+            poolAddress: params.poolAddress,
+            positionAddresses: params.positionAddresses,
+            initialInvestmentAmount: params.initialInvestment.toString(),
+            tokenPrecision: tokens,
+            config: {
+                priceMonitorInterval: params.monitoringInterval * 1000,
+                yieldExtractionThreshold: params.yieldExtractionThreshold !== undefined ? String(params.yieldExtractionThreshold) : '10',
+                yieldExtractionTimeLock: params.yieldExtractionTimeLock !== undefined ? params.yieldExtractionTimeLock : 1
+            }
+        };
+        await analyticsService.setupPositionMonitoring(setupParams);
+
+        await logger.logMonitoring('📊 头寸分析服务已设置', {
+            poolAddress: params.poolAddress,
+            positionAddresses: params.positionAddresses,
+            initialInvestment: params.initialInvestment
+        });
+        return analyticsService;
+    }
+
+    /**
+     * 🧠 创建实例隔离的智能止损模块（需先设置分析服务）
+     */
+    createStopLossModule(instanceId: string, config: LiquidityStopLossConfig): SmartStopLossModule {
+        return this.instanceAwareServiceFactory.createSmartStopLossModuleForInstance(instanceId, this.buildStopLossConfig(config));
+    }
+
+    /**
+     * 🧠 合并智能止损参数（smartStopLoss优先于stopLoss）
+     */
+    buildStopLossConfig(config: LiquidityStopLossConfig) {
+        return {
+            ...config.stopLoss,
+            ...config.smartStopLoss,
+            activeBinSafetyThreshold: config.smartStopLoss?.activeBinSafetyThreshold ?? config.stopLoss?.activeBinSafetyThreshold ?? 50,
+            observationPeriodMinutes: config.smartStopLoss?.observationPeriodMinutes ?? config.stopLoss?.observationPeriodMinutes ?? 15,
+            lossThresholdPercentage: config.smartStopLoss?.lossThresholdPercentage ?? config.stopLoss?.lossThresholdPercentage ?? 5
+        };
+    }
+
+    /**
+     * 📊 开始新的轮询周期并收集分析数据（含收益数据）
+     */
+    async collectMarketData(instanceId: string, monitoringInterval: number, caller: string): Promise<MarketData> {
+        const analyticsService = this.instanceAwareServiceFactory.getInstanceContainer(instanceId)?.positionAnalyticsService;
+        if (!analyticsService) {
+            throw new Error(`实例分析服务未设置: ${instanceId}`);
+        }
+
+        const dataProvider = (analyticsService as any).dataProvider;
+        if (dataProvider && typeof dataProvider.startNewPollingCycle === 'function') {
+            dataProvider.startNewPollingCycle(monitoringInterval * 1000);
+        }
+
+        const marketData = await analyticsService.getSmartStopLossData(caller);
+        try {
+            const yieldStatistics = await analyticsService.getYieldStatistics();
+            return {
+                ...marketData,
+                currentPendingYield: yieldStatistics.currentPendingYield,
+                totalExtractedYield: yieldStatistics.totalExtractedYield
+            };
+        } catch (error) {
+            return marketData;
+        }
+    }
+
+    async stopAnalytics(instanceId: string): Promise<void> {
+        await this.instanceAwareServiceFactory.cleanupInstance(instanceId);
+    }
+
+    // ================== 广播 ==================
+
+    /**
+     * 📡 广播智能止损数据（Socket.IO、分组报告和风险预算订阅该事件）
+     */
+    async publishStopLossData(instanceId: string, marketData: MarketData, decision: StopLossDecision): Promise<void> {
+        await this.eventBus.publish('strategy.smart-stop-loss.update', {
+            instanceId,
+            marketData: {
+                currentPrice: marketData.currentPrice,
+                positionValue: marketData.positionValue,
+                initialInvestment: marketData.initialInvestment,
+                netPnL: marketData.netPnL,
+                netPnLPercentage: marketData.netPnLPercentage,
+                activeBin: marketData.activeBin,
+                positionLowerBin: marketData.positionLowerBin,
+                positionUpperBin: marketData.positionUpperBin,
+                holdingDuration: marketData.holdingDuration,
+                lastUpdateTime: marketData.lastUpdateTime,
+                currentPendingYield: marketData.currentPendingYield || '0',
+                totalExtractedYield: marketData.totalExtractedYield || '0',
+                historicalPriceChanges: marketData.historicalPriceChanges || { last5Minutes: 0, last15Minutes: 0, lastHour: 0 },
+                benchmarkYieldRates: marketData.benchmarkYieldRates || null
+            },
+            stopLossDecision: {
+                action: decision.action,
+                actionLabel: decision.action === 'HOLD' ? '继续持有' :
+                    decision.action === 'ALERT' ? '风险警告' :
+                        decision.action === 'PARTIAL_EXIT' ? '部分止损' : '完全止损',
+                confidence: decision.confidence,
+                riskScore: decision.riskScore,
+                urgency: decision.urgency,
+                reasoning: decision.reasoning || ['当前风险可控，继续持有']
+            },
+            timestamp: Date.now()
+        });
+    }
+
+    /**
+     * 📡 广播策略状态更新
+     */
+    async publishStatus(instanceId: string, status: string, reason: string, data: Record<string, any> = {}): Promise<void> {
+        try {
+            await this.eventBus.publish('strategy.status.update', {
+                instanceId,
+                status,
+                reason,
+                ...data,
+                lastUpdateTime: Date.now(),
+                timestamp: Date.now()
+            });
+        } catch (error) {
+            await this.loggerService.logError('liquidity-execution', `[LiquidityExecutionService] 广播策略状态失败: ${instanceId}`, error as Error);
+        }
+    }
+}
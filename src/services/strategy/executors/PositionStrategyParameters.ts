@@ -0,0 +1,97 @@
+/**
+ * 📋 头寸类策略（连锁头寸、简单Y）共用的参数Schema
+ *
+ * 默认值与执行器内部的回退值保持一致，范围与前端创建表单的校验规则一致。
+ * 执行器在 getConfigSchema() 中组合这些参数，StrategyRegistry 据此校验配置并生成模板。
+ * 标记 hot 的参数由执行器的 applyHotConfig() 在运行中生效，其余参数需要停止策略后修改。
+ */
+
+import { StrategyParameterSchema } from '../../../types/strategy';
+
+export const SMART_STOP_LOSS_PARAMETERS: StrategyParameterSchema[] = [
+    { name: 'activeBinSafetyThreshold', type: 'number', description: '活跃bin位置安全阈值(%)', default: 50, min: -100, max: 100 },
+    { name: 'observationPeriodMinutes', type: 'number', description: '观察期时长(分钟)', default: 15, min: 0, max: 60 },
+    { name: 'lossThresholdPercentage', type: 'number', description: '亏损止损阈值(%)', default: 5, min: 1, max: 100 }
+];
+
+// 部分止损只在头寸类策略中执行（按比例移除流动性），双向头寸和价格触发策略不支持
+const POSITION_SMART_STOP_LOSS_PARAMETERS: StrategyParameterSchema[] = [
+    ...SMART_STOP_LOSS_PARAMETERS,
+    { name: 'partialExitPercentage', type: 'number', description: '观察期止损时部分退出的百分比（0为直接完全退出）', default: 0, min: 0, max: 90 },
+    { name: 'maxPartialExits', type: 'number', description: '连续部分止损次数上限，之后完全退出', default: 2, min: 1, max: 10, integer: true }
+];
+
+const POSITION_RECREATION_PARAMETER: StrategyParameterSchema = {
+    name: 'positionRecreation',
+    type: 'object',
+    description: '头寸重建配置',
+    hot: true,
+    parameters: [
+        { name: 'enableMarketOpportunityRecreation', type: 'boolean', description: '方法2：智能头寸重建', default: true },
+        { name: 'enableLossRecoveryRecreation', type: 'boolean', description: '方法3：止损后反弹重建', default: false },
+        { name: 'enableDynamicProfitRecreation', type: 'boolean', description: '方法4：动态盈利阈值重建', default: false },
+        {
+            name: 'marketOpportunity',
+            type: 'object',
+            description: '方法2参数',
+            parameters: [
+                { name: 'positionThreshold', type: 'number', description: '活跃bin位置阈值(%)', default: 70, min: 1, max: 99 },
+                { name: 'profitThreshold', type: 'number', description: '盈利阈值(%)', default: 1, min: 0.1, max: 10 }
+            ]
+        },
+        {
+            name: 'lossRecovery',
+            type: 'object',
+            description: '方法3参数',
+            parameters: [
+                { name: 'markPositionThreshold', type: 'number', description: '标记时位置阈值(%)', default: 65, min: 1, max: 99 },
+                { name: 'markLossThreshold', type: 'number', description: '标记时亏损阈值(%)', default: 0.5, min: 0.1, max: 5 },
+                { name: 'triggerPositionThreshold', type: 'number', description: '触发时位置阈值(%)', default: 70, min: 1, max: 99 },
+                { name: 'triggerProfitThreshold', type: 'number', description: '触发时盈利阈值(%)', default: 0.5, min: 0.1, max: 5 }
+            ]
+        },
+        {
+            name: 'dynamicProfitRecreation',
+            type: 'object',
+            description: '方法4参数',
+            parameters: [
+                { name: 'positionThreshold', type: 'number', description: '活跃bin位置阈值(%)', default: 70, min: 1, max: 99 },
+                { name: 'benchmarkTier1Max', type: 'number', description: '基准收益率第一档最大值(%)', default: 0.5, min: 0.1, max: 5 },
+                { name: 'benchmarkTier2Max', type: 'number', description: '基准收益率第二档最大值(%)', default: 1.5, min: 0.5, max: 10 },
+                { name: 'benchmarkTier3Max', type: 'number', description: '基准收益率第三档最大值(%)', default: 3.0, min: 1, max: 20 },
+                { name: 'benchmarkTier4Max', type: 'number', description: '基准收益率第四档最大值(%)', default: 999, min: 2, max: 999 },
+                { name: 'profitThresholdTier1', type: 'number', description: '第一档盈利阈值(%)', default: 0.5, min: 0.1, max: 5 },
+                { name: 'profitThresholdTier2', type: 'number', description: '第二档盈利阈值(%)', default: 1.5, min: 0.5, max: 10 },
+                { name: 'profitThresholdTier3', type: 'number', description: '第三档盈利阈值(%)', default: 3.0, min: 1, max: 10 },
+                { name: 'profitThresholdTier4', type: 'number', description: '第四档盈利阈值(%)', default: 5.0, min: 2, max: 15 }
+            ]
+        }
+    ]
+};
+
+/**
+ * 组合头寸类策略的完整参数列表
+ * @param binRange 各策略自己的bin范围参数
+ * @param extra 策略专有参数（放在基础参数之后）
+ */
+export function buildPositionStrategyParameters(binRange: StrategyParameterSchema, extra: StrategyParameterSchema[] = []): StrategyParameterSchema[] {
+    return [
+        { name: 'poolAddress', type: 'string', description: '池子地址', required: true, pattern: '^[1-9A-HJ-NP-Za-km-z]{32,44}$' },
+        { name: 'positionAmount', type: 'number', description: '投入金额(Y代币)', required: true, min: 0.001 },
+        binRange,
+        ...extra,
+        { name: 'monitoringInterval', type: 'number', description: '监控间隔(秒)', required: true, default: 45, min: 5, hot: true },
+        { name: 'outOfRangeTimeout', type: 'number', description: '超出范围超时(秒)', required: true, default: 600, min: 60, hot: true },
+        { name: 'yieldExtractionThreshold', type: 'number', description: '收益提取阈值', default: 0.1, min: 0.001, numericString: true },
+        { name: 'yieldExtractionTimeLock', type: 'number', description: '收益提取时间锁(分钟)', default: 1, min: 1, max: 60, integer: true },
+        { name: 'maxPriceForRecreation', type: 'number', description: '重建最高价格限制（0为不限制）', default: 0, min: 0, hot: true },
+        { name: 'minPriceForRecreation', type: 'number', description: '重建最低价格限制（0为不限制）', default: 0, min: 0, hot: true },
+        { name: 'benchmarkYieldThreshold5Min', type: 'number', description: '15分钟平均基准收益率阈值(%)，低于该值禁止重建（0为关闭）', default: 0, min: 0, max: 10, hot: true },
+        { name: 'minActiveBinPositionThreshold', type: 'number', description: '最低活跃bin位置阈值(%)，低于该值禁止重建', default: 0, min: 0, max: 100, hot: true },
+        { name: 'slippageBps', type: 'number', description: 'X代币卖出滑点(基点)，未设置时按2000', default: 1000, min: 100, max: 3000, integer: true, hot: true },
+        { name: 'enableSmartStopLoss', type: 'boolean', description: '启用智能止损', default: true, hot: true },
+        { name: 'stopLoss', type: 'object', description: '智能止损参数', hot: true, parameters: POSITION_SMART_STOP_LOSS_PARAMETERS },
+        { name: 'smartStopLoss', type: 'object', description: '智能止损参数（优先于stopLoss）', hot: true, parameters: POSITION_SMART_STOP_LOSS_PARAMETERS },
+        POSITION_RECREATION_PARAMETER
+    ];
+}
@@ -0,0 +1,519 @@
+/**
+ * 🎯 价格触发策略执行器
+ *
+ * 按用户设定的价格阈值开关流动性：
+ * - 等待入场：池子价格到达或穿越 entryPrice（entryDirection 决定向下还是向上穿越）时，在活跃bin下方创建Y头寸
+ * - 持仓：价格到达 exitPriceAbove / exitPriceBelow 时关闭头寸并卖出X代币
+ * - repeat 为 true 时退出后重新等待入场，否则策略完成
+ * 持仓期间复用实例级的 SmartStopLossModule 和 PositionAnalyticsService 做智能止损。
+ */
+
+import 'reflect-metadata';
+import { injectable, inject } from 'tsyringe';
+import { TYPES, ILoggerService, IStrategyLogger } from '../../../types/interfaces';
+import { IStrategyExecutor, ExecutorStatus, StopLossResult } from '../StrategyRegistry';
+import { SmartStopLossModule } from '../../modules/SmartStopLossModule';
+import { SynchronousRetryMixin } from './mixins/SynchronousRetryMixin';
+import { SMART_STOP_LOSS_PARAMETERS } from './PositionStrategyParameters';
+import { LiquidityExecutionService, LiquidityStopLossConfig } from './LiquidityExecutionService';
+import { StrategyConfigSchema, StrategyConfigChange } from '../../../types/strategy';
+
+// 价格触发策略配置
+export interface PriceTriggerConfig extends LiquidityStopLossConfig {
+    poolAddress: string;
+    positionAmount: number;
+    binRange: number;
+    entryPrice: number;
+    entryDirection: 'below' | 'above';  // below: 价格跌到entryPrice及以下时入场；above: 涨到entryPrice及以上时入场
+    exitPriceAbove: number;             // 0为不设置
+    exitPriceBelow: number;             // 0为不设置
+    repeat: boolean;
+    monitoringInterval: number;         // 秒
+    slippageBps?: number;
+    yieldExtractionThreshold?: string | number;
+    yieldExtractionTimeLock?: number;
+}
+
+// 价格触发策略状态
+export interface PriceTriggerState {
+    instanceId: string;
+    config: PriceTriggerConfig;
+    phase: 'WAITING_ENTRY' | 'ENTERING' | 'IN_POSITION' | 'EXITING' | 'COMPLETED' | 'STOPPED' | 'ERROR';
+    positionAddress: string | null;
+    positionRange: [number, number] | null;
+    lastPrice: number | null;
+    entryCount: number;
+    lastEntry?: { price: number; activeBin: number; timestamp: number };
+    lastExit?: { price: number; reason: string; timestamp: number };
+    createdAt: Date;
+    lastMonitoringTime: Date | null;
+    isActive: boolean;
+    error?: string;
+}
+
+@injectable()
+export class PriceTriggerExecutor extends SynchronousRetryMixin implements IStrategyExecutor {
+    private static readonly DEFAULT_CONFIG: Omit<PriceTriggerConfig, 'poolAddress' | 'positionAmount' | 'entryPrice'> = {
+        binRange: 69,
+        entryDirection: 'below',
+        exitPriceAbove: 0,
+        exitPriceBelow: 0,
+        repeat: false,
+        monitoringInterval: 30,
+        slippageBps: 1000,
+        enableSmartStopLoss: true
+    };
+
+    private instanceConfigs: Map<string, PriceTriggerConfig> = new Map();
+    private instanceStates: Map<string, PriceTriggerState> = new Map();
+    private instanceLoggers: Map<string, IStrategyLogger> = new Map();
+    private stopLossModules: Map<string, SmartStopLossModule> = new Map();
+    private monitoringTimers: Map<string, NodeJS.Timeout> = new Map();
+    private runningCycles: Set<string> = new Set();
+
+    constructor(
+        @inject(TYPES.LoggerService) private loggerService: ILoggerService,
+        @inject(LiquidityExecutionService) private liquidityService: LiquidityExecutionService
+    ) {
+        super();
+    }
+
+    getType(): string {
+        return 'price-trigger';
+    }
+
+    getVersion(): string {
+        return 'v1.0.0';
+    }
+
+    getConfigSchema(): StrategyConfigSchema {
+        return {
+            name: '价格触发策略',
+            description: '池子价格到达入场价时创建Y头寸，到达退出价时关闭头寸',
+            parameters: [
+                { name: 'poolAddress', type: 'string', description: '池子地址', required: true, pattern: '^[1-9A-HJ-NP-Za-km-z]{32,44}$' },
+                { name: 'positionAmount', type: 'number', description: '头寸金额(Y代币)', required: true, min: 0.001 },
+                { name: 'binRange', type: 'number', description: 'bin范围（活跃bin向下）', default: 69, min: 1, max: 69, integer: true },
+                { name: 'entryPrice', type: 'number', description: '入场价格', required: true, min: 0, hot: true },
+                {
+                    name: 'entryDirection', type: 'select', description: '入场方向（below: 跌到入场价及以下时入场；above: 涨到入场价及以上时入场）',
+                    default: 'below', options: [{ value: 'below', label: '向下穿越' }, { value: 'above', label: '向上穿越' }], hot: true
+                },
+                { name: 'exitPriceAbove', type: 'number', description: '价格涨到该值及以上时退出（0为不设置）', default: 0, min: 0, hot: true },
+                { name: 'exitPriceBelow', type: 'number', description: '价格跌到该值及以下时退出（0为不设置）', default: 0, min: 0, hot: true },
+                { name: 'repeat', type: 'boolean', description: '退出后重新等待入场', default: false, hot: true },
+                { name: 'monitoringInterval', type: 'number', description: '监控间隔(秒)', default: 30, min: 5, hot: true },
+                { name: 'slippageBps', type: 'number', description: '滑点(基点)', default: 1000, min: 100, max: 3000, integer: true, hot: true },
+                { name: 'yieldExtractionThreshold', type: 'number', description: '收益提取阈值', default: 0.1, min: 0.001, numericString: true },
+                { name: 'yieldExtractionTimeLock', type: 'number', description: '收益提取时间锁(分钟)', default: 1, min: 1, max: 60, integer: true },
+                { name: 'enableSmartStopLoss', type: 'boolean', description: '启用智能止损', default: true, hot: true },
+                { name: 'stopLoss', type: 'object', description: '智能止损参数', hot: true, parameters: SMART_STOP_LOSS_PARAMETERS },
+                { name: 'smartStopLoss', type: 'object', description: '智能止损参数（优先于stopLoss）', hot: true, parameters: SMART_STOP_LOSS_PARAMETERS }
+            ]
+        };
+    }
+
+    async initialize(config: PriceTriggerConfig): Promise<void> {
+        // 执行器级别的初始化
+    }
+
+    setInstanceConfig(instanceId: string, config: PriceTriggerConfig): void {
+        const resolved: PriceTriggerConfig = { ...PriceTriggerExecutor.DEFAULT_CONFIG, ...config };
+        if (resolved.exitPriceAbove > 0 && resolved.exitPriceBelow > 0 && resolved.exitPriceBelow >= resolved.exitPriceAbove) {
+            throw new Error(`退出价格设置无效: exitPriceBelow(${resolved.exitPriceBelow}) 必须小于 exitPriceAbove(${resolved.exitPriceAbove})`);
+        }
+        this.instanceConfigs.set(instanceId, resolved);
+    }
+
+    /**
+     * 🚀 启动价格监控（重复调用时保持当前阶段）
+     */
+    async execute(instanceId: string): Promise<void> {
+        const config = this.instanceConfigs.get(instanceId);
+        if (!config) {
+            throw new Error(`策略配置不存在: ${instanceId}`);
+        }
+
+        let state = this.instanceStates.get(instanceId);
+        if (state && this.monitoringTimers.has(instanceId)) {
+            return;
+        }
+
+        if (!state) {
+            state = {
+                instanceId,
+                config,
+                phase: 'WAITING_ENTRY',
+                positionAddress: null,
+                positionRange: null,
+                lastPrice: null,
+                entryCount: 0,
+                createdAt: new Date(),
+                lastMonitoringTime: null,
+                isActive: true
+            };
+            this.instanceStates.set(instanceId, state);
+        } else if (state.phase === 'COMPLETED') {
+            return;
+        }
+
+        state.isActive = true;
+        if (state.phase === 'STOPPED') {
+            state.phase = state.positionAddress ? 'IN_POSITION' : 'WAITING_ENTRY';
+        }
+
+        await this.getLogger(instanceId).logOperation('🎯 价格触发策略启动', {
+            poolAddress: config.poolAddress,
+            phase: state.phase,
+            entryPrice: config.entryPrice,
+            entryDirection: config.entryDirection,
+            exitPriceAbove: config.exitPriceAbove || null,
+            exitPriceBelow: config.exitPriceBelow || null,
+            repeat: config.repeat
+        });
+
+        // 首个周期立即执行，已满足入场条件时不必等待一个监控间隔
+        await this.performMonitoringCycle(instanceId);
+        this.startMonitoringLoop(instanceId);
+    }
+
+    async stop(instanceId: string): Promise<void> {
+        this.stopMonitoringLoop(instanceId);
+        const state = this.instanceStates.get(instanceId);
+        if (state && state.phase !== 'COMPLETED') {
+            state.phase = 'STOPPED';
+            state.isActive = false;
+        }
+    }
+
+    async cleanup(instanceId: string): Promise<void> {
+        this.stopMonitoringLoop(instanceId);
+
+        try {
+            await this.liquidityService.stopAnalytics(instanceId);
+        } catch (error) {
+            await this.instanceLoggers.get(instanceId)?.logError(`服务工厂清理失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        this.instanceStates.delete(instanceId);
+        this.instanceConfigs.delete(instanceId);
+        this.stopLossModules.delete(instanceId);
+        this.instanceLoggers.delete(instanceId);
+        this.runningCycles.delete(instanceId);
+    }
+
+    getStatus(instanceId: string): ExecutorStatus {
+        const state = this.instanceStates.get(instanceId);
+        if (!state) {
+            return { isRunning: false };
+        }
+
+        return {
+            isRunning: this.monitoringTimers.has(instanceId),
+            ...(state.lastMonitoringTime && { lastExecutionTime: state.lastMonitoringTime }),
+            error: state.error || null,
+            positionAddresses: state.positionAddress ? [state.positionAddress] : [],
+            metrics: {
+                phase: state.phase,
+                positionAddress: state.positionAddress,
+                positionRange: state.positionRange,
+                lastPrice: state.lastPrice,
+                entryCount: state.entryCount,
+                lastEntry: state.lastEntry || null,
+                lastExit: state.lastExit || null
+            }
+        };
+    }
+
+    /**
+     * 🔥 热更新运行中实例的配置（changes只包含参数Schema中标记为hot的字段）
+     */
+    async applyHotConfig(instanceId: string, config: PriceTriggerConfig, changes: StrategyConfigChange[]): Promise<void> {
+        this.setInstanceConfig(instanceId, config);
+        const resolved = this.instanceConfigs.get(instanceId)!;
+        const state = this.instanceStates.get(instanceId);
+        if (!state) return;
+
+        state.config = resolved;
+        const changed = (...paths: string[]) => changes.some(change => paths.some(path => change.path === path || change.path.startsWith(`${path}.`)));
+
+        if (changed('enableSmartStopLoss', 'stopLoss', 'smartStopLoss') && resolved.enableSmartStopLoss) {
+            const module = this.stopLossModules.get(instanceId);
+            if (module) {
+                module.updateConfig(this.liquidityService.buildStopLossConfig(resolved));
+            } else if (state.positionAddress) {
+                this.stopLossModules.set(instanceId, this.liquidityService.createStopLossModule(instanceId, resolved));
+            }
+        }
+
+        if (changed('monitoringInterval') && this.monitoringTimers.has(instanceId)) {
+            this.startMonitoringLoop(instanceId);
+        }
+
+        await this.getLogger(instanceId).logOperation('🔥 价格触发配置热更新已生效', {
+            instanceId,
+            changes: changes.map(change => ({ path: change.path, oldValue: change.oldValue, newValue: change.newValue }))
+        });
+    }
+
+    /**
+     * 🔧 手动止损：关闭当前头寸并卖出X代币，策略结束
+     */
+    async executeManualStopLoss(instanceId: string): Promise<StopLossResult> {
+        const state = this.instanceStates.get(instanceId);
+        if (!state) {
+            throw new Error(`价格触发策略实例状态不存在: ${instanceId}`);
+        }
+
+        await this.getLogger(instanceId).logOperation('🔧 价格触发手动止损触发', { instanceId, triggerType: 'user_manual' });
+        this.stopMonitoringLoop(instanceId);
+        const result = await this.exitPosition(state, 'manual_stop_loss');
+        await this.completeStrategy(state, 'stop_loss_completed');
+        return result;
+    }
+
+    // ================== 入场与退出 ==================
+
+    private isEntryTriggered(config: PriceTriggerConfig, price: number): boolean {
+        return config.entryDirection === 'below' ? price <= config.entryPrice : price >= config.entryPrice;
+    }
+
+    private getExitReason(config: PriceTriggerConfig, price: number): string | null {
+        if (config.exitPriceAbove > 0 && price >= config.exitPriceAbove) return 'exit_price_above';
+        if (config.exitPriceBelow > 0 && price <= config.exitPriceBelow) return 'exit_price_below';
+        return null;
+    }
+
+    /**
+     * 📥 入场：在活跃bin下方创建Y头寸并设置分析服务和智能止损
+     */
+    private async enterPosition(state: PriceTriggerState, price: number, activeBin: number): Promise<void> {
+        const { instanceId, config } = state;
+        const logger = this.getLogger(instanceId);
+        const range: [number, number] = [activeBin - config.binRange + 1, activeBin];
+
+        state.phase = 'ENTERING';
+        await logger.logOperation('📥 价格到达入场条件，创建头寸', {
+            price,
+            entryPrice: config.entryPrice,
+            entryDirection: config.entryDirection,
+            activeBin,
+            range
+        });
+
+        try {
+            const result = await this.executeAsyncCreatePositionWithRetry(
+                () => this.liquidityService.createYPosition(instanceId, {
+                    poolAddress: config.poolAddress,
+                    lowerBinId: range[0],
+                    upperBinId: range[1],
+                    amount: config.positionAmount,
+                    ...(config.slippageBps && { slippageBps: config.slippageBps }),
+                    strategy: 'price-trigger'
+                }),
+                instanceId,
+                {
+                    maxAttempts: 3,
+                    retryableErrors: ['头寸创建失败', '交易验证超时', '交易失败', 'RPC_ERROR', 'NETWORK_ERROR', 'SLIPPAGE_ERROR'],
+                    delayMs: 15000
+                }
+            );
+
+            state.positionAddress = result.positionAddress!;
+            state.positionRange = range;
+            state.entryCount++;
+            state.lastEntry = { price, activeBin, timestamp: Date.now() };
+            state.phase = 'IN_POSITION';
+            delete state.error;
+        } catch (error) {
+            // 保持等待入场，下个监控周期价格仍满足条件时重试
+            state.phase = 'WAITING_ENTRY';
+            state.error = error instanceof Error ? error.message : String(error);
+            await logger.logError(`价格触发入场失败: ${state.error}`);
+            return;
+        }
+
+        await this.liquidityService.setupAnalytics(instanceId, {
+            poolAddress: config.poolAddress,
+            positionAddresses: [state.positionAddress],
+            initialInvestment: config.positionAmount,
+            monitoringInterval: config.monitoringInterval,
+            ...(config.yieldExtractionThreshold !== undefined && { yieldExtractionThreshold: config.yieldExtractionThreshold }),
+            ...(config.yieldExtractionTimeLock !== undefined && { yieldExtractionTimeLock: config.yieldExtractionTimeLock })
+        }, logger);
+        if (config.enableSmartStopLoss) {
+            this.stopLossModules.set(instanceId, this.liquidityService.createStopLossModule(instanceId, config));
+        }
+
+        await logger.logOperation('✅ 价格触发头寸创建成功', { positionAddress: state.positionAddress, range, entryCount: state.entryCount });
+        await this.liquidityService.publishStatus(instanceId, 'running', 'price_trigger_entered', {
+            positionAddress: state.positionAddress,
+            price
+        });
+    }
+
+    /**
+     * 📤 退出：关闭头寸、卖出X代币并停止分析服务
+     */
+    private async exitPosition(state: PriceTriggerState, reason: string): Promise<StopLossResult> {
+        const { instanceId, config } = state;
+        const logger = this.getLogger(instanceId);
+        const result: StopLossResult = { success: true, closedPositions: [], failedPositions: [] };
+
+        state.phase = 'EXITING';
+        const address = state.positionAddress;
+        if (address) {
+            try {
+                const closeResult = await this.executeAsyncClosePositionWithRetry(
+                    async () => {
+                        const r = await this.liquidityService.closePosition(instanceId, address);
+                        if (!r.success) {
+                            throw new Error(`头寸关闭失败: ${r.error || '未知错误'}`);
+                        }
+                        return r;
+                    },
+                    instanceId,
+                    { maxAttempts: 3, retryableErrors: ['头寸关闭失败', '交易验证超时', '交易失败', 'RPC_ERROR', 'NETWORK_ERROR'], delayMs: 10000 }
+                );
+                result.closedPositions.push({ address, ...(closeResult.signature && { signature: closeResult.signature }) });
+                state.positionAddress = null;
+                state.positionRange = null;
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                result.failedPositions.push({ address, error: message });
+                result.success = false;
+                result.error = message;
+                state.phase = 'IN_POSITION';
+                await logger.logError(`价格触发退出时头寸关闭失败: ${message}`);
+                return result;
+            }
+        }
+
+        try {
+            const swap = await this.liquidityService.sellAllX(instanceId, config.poolAddress, config.slippageBps || 1000, logger);
+            if (swap) result.swap = swap;
+        } catch (error) {
+            result.swap = { inputAmount: '0', error: error instanceof Error ? error.message : String(error) };
+        }
+
+        await this.liquidityService.stopAnalytics(instanceId);
+        this.stopLossModules.delete(instanceId);
+
+        state.lastExit = { price: state.lastPrice || 0, reason, timestamp: Date.now() };
+        await logger.logOperation('📤 价格触发头寸已退出', { reason, closedPositions: result.closedPositions, swap: result.swap });
+        return result;
+    }
+
+    private async completeStrategy(state: PriceTriggerState, reason: string): Promise<void> {
+        this.stopMonitoringLoop(state.instanceId);
+        state.phase = 'COMPLETED';
+        state.isActive = false;
+        await this.liquidityService.publishStatus(state.instanceId, 'stopped', reason, {
+            lastExit: state.lastExit || null,
+            entryCount: state.entryCount
+        });
+    }
+
+    // ================== 监控 ==================
+
+    private startMonitoringLoop(instanceId: string): void {
+        const state = this.instanceStates.get(instanceId);
+        if (!state || state.phase === 'COMPLETED') return;
+
+        this.stopMonitoringLoop(instanceId);
+        const timer = setInterval(async () => {
+            try {
+                await this.performMonitoringCycle(instanceId);
+            } catch (error) {
+                await this.instanceLoggers.get(instanceId)?.logError(`监控循环错误: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }, state.config.monitoringInterval * 1000);
+        this.monitoringTimers.set(instanceId, timer);
+    }
+
+    private stopMonitoringLoop(instanceId: string): void {
+        const timer = this.monitoringTimers.get(instanceId);
+        if (timer) {
+            clearInterval(timer);
+            this.monitoringTimers.delete(instanceId);
+        }
+    }
+
+    /**
+     * 📊 监控周期：按当前阶段检查入场或退出条件，持仓时执行智能止损
+     */
+    private async performMonitoringCycle(instanceId: string): Promise<void> {
+        const state = this.instanceStates.get(instanceId);
+        if (!state || !state.isActive || this.runningCycles.has(instanceId)) return;
+        if (state.phase !== 'WAITING_ENTRY' && state.phase !== 'IN_POSITION') return;
+
+        this.runningCycles.add(instanceId);
+        try {
+            const config = state.config;
+            const logger = this.getLogger(instanceId);
+            const { activeBin, activePrice } = await this.liquidityService.getPoolPrice(config.poolAddress);
+            state.lastPrice = activePrice;
+            state.lastMonitoringTime = new Date();
+
+            if (state.phase === 'WAITING_ENTRY') {
+                await logger.logMonitoring('🎯 等待入场价格', { price: activePrice, entryPrice: config.entryPrice, entryDirection: config.entryDirection });
+                if (this.isEntryTriggered(config, activePrice)) {
+                    await this.enterPosition(state, activePrice, activeBin);
+                }
+                return;
+            }
+
+            const exitReason = this.getExitReason(config, activePrice);
+            if (exitReason) {
+                await logger.logOperation('🚨 价格到达退出条件', {
+                    price: activePrice,
+                    exitPriceAbove: config.exitPriceAbove || null,
+                    exitPriceBelow: config.exitPriceBelow || null
+                });
+                const result = await this.exitPosition(state, exitReason);
+                if (!result.success) return;
+
+                if (config.repeat) {
+                    state.phase = 'WAITING_ENTRY';
+                    await this.liquidityService.publishStatus(instanceId, 'running', 'price_trigger_rearmed', { lastExit: state.lastExit });
+                } else {
+                    await this.completeStrategy(state, 'price_limit_triggered');
+                }
+                return;
+            }
+
+            const stopLossModule = this.stopLossModules.get(instanceId);
+            if (config.enableSmartStopLoss && stopLossModule) {
+                const marketData = await this.liquidityService.collectMarketData(instanceId, config.monitoringInterval, '价格触发策略监控');
+                const decision = await stopLossModule.evaluate(marketData, instanceId);
+                await this.liquidityService.publishStopLossData(instanceId, marketData, decision);
+
+                await logger.logMonitoring('🧠 价格触发智能止损分析完成', {
+                    决策行动: decision.action,
+                    置信度: `${decision.confidence.toFixed(2)}%`,
+                    风险评分: decision.riskScore.toFixed(2),
+                    分析原因: decision.reasoning
+                });
+
+                // 单头寸策略全进全出，部分止损只记录建议
+                if (decision.action === 'FULL_EXIT') {
+                    const result = await this.exitPosition(state, 'smart_stop_loss');
+                    if (result.success) {
+                        await this.completeStrategy(state, 'smart_stop_loss_completed');
+                    }
+                }
+            }
+        } finally {
+            this.runningCycles.delete(instanceId);
+        }
+    }
+
+    private getLogger(instanceId: string): IStrategyLogger {
+        let logger = this.instanceLoggers.get(instanceId);
+        if (!logger) {
+            logger = this.loggerService.createStrategyLogger(instanceId);
+            this.instanceLoggers.set(instanceId, logger);
+        }
+        return logger;
+    }
+}
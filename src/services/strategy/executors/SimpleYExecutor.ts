@@ -17,13 +17,15 @@
 import 'reflect-metadata';
 import { injectable, inject } from 'tsyringe';
 import { TYPES, ILoggerService, IEventBus, IStrategyLogger, IPositionManager, IDLMMMonitorService, ISolanaWeb3Service, IWalletService, IJupiterService, IGasService } from '../../../types/interfaces';
-import { IStrategyExecutor, ExecutorStatus } from '../StrategyRegistry';
+import { IStrategyExecutor, ExecutorStatus, StopLossResult } from '../StrategyRegistry';
 import { ChainPositionManager } from '../../business/ChainPositionManager';
 import { SmartStopLossModule, MarketData } from '../../modules/SmartStopLossModule';
 import { PositionRecreationModule } from '../../modules/PositionRecreationModule';
 import { PositionAnalyticsService } from '../../business/PositionAnalyticsService';
 import { SynchronousRetryMixin } from './mixins/SynchronousRetryMixin';
 import { InstanceAwareServiceFactory } from '../../business/InstanceAwareServiceFactory';
+import { buildPositionStrategyParameters } from './PositionStrategyParameters';
+import { StrategyConfigSchema, StrategyConfigChange } from '../../../types/strategy';
 
 // 🆕 导入模块化服务
 import { 
@@ -52,17 +54,26 @@ export interface SimpleYConfig {
     benchmarkYieldThreshold5Min?: number;
     minActiveBinPositionThreshold?: number;
     slippageBps?: number;
+    twoSided?: {                       // 双边头寸：范围跨越活跃bin，初始资金按流动性分布兑换出所需的X代币
+        enabled: boolean;
+        binsAbove?: number;            // 活跃bin上方的bin数量，默认 binRange 的一半（向下取整）
+        liquidityMode?: 'spot' | 'bidask' | 'curve';   // 默认bidask
+    };
     enableSmartStopLoss: boolean;
     stopLossConfig?: any;
     stopLoss?: {
         activeBinSafetyThreshold?: number;
         observationPeriodMinutes?: number;
         lossThresholdPercentage?: number;
+        partialExitPercentage?: number;
+        maxPartialExits?: number;
     };
     smartStopLoss?: {
         activeBinSafetyThreshold?: number;
         observationPeriodMinutes?: number;
         lossThresholdPercentage?: number;
+        partialExitPercentage?: number;
+        maxPartialExits?: number;
     };
     positionRecreation?: {
         enableMarketOpportunityRecreation?: boolean;
@@ -118,6 +129,12 @@ export interface SimpleYState {
     dynamicRecreationSwitchEnabled?: boolean;  // 动态重建开关状态
     lastBenchmarkYield5Min?: number;           // 最后一次基准收益率
     lastSwitchUpdateTime?: Date;               // 开关状态最后更新时间
+
+    // ✂️ 部分止损
+    remainingFraction?: number;                // 部分止损后头寸中剩余的投入比例（未部分退出时不设置）
+
+    // ↕️ 双边头寸
+    positionActiveBin?: number;                // 创建头寸时的活跃bin，双边头寸以此划分X侧和Y侧
 }
 
 /**
@@ -134,6 +151,49 @@ export class SimpleYExecutor extends SynchronousRetryMixin implements IStrategyE
         return 'v3.0.0-modular';
     }
 
+    getConfigSchema(): StrategyConfigSchema {
+        return {
+            name: '简单Y头寸策略',
+            description: '创建单个Y代币头寸，超出范围后自动止损并重建',
+            parameters: buildPositionStrategyParameters(
+                { name: 'binRange', type: 'number', description: 'bin范围', required: true, default: 69, min: 1, max: 69, integer: true },
+                [
+                    {
+                        name: 'twoSided',
+                        type: 'object',
+                        description: '双边头寸：范围跨越活跃bin，初始资金通过Jupiter按流动性分布兑换为X/Y两种代币',
+                        parameters: [
+                            { name: 'enabled', type: 'boolean', description: '启用双边头寸', default: false },
+                            { name: 'binsAbove', type: 'number', description: '活跃bin上方的bin数量（默认bin范围的一半）', min: 1, max: 68, integer: true },
+                            {
+                                name: 'liquidityMode',
+                                type: 'select',
+                                description: '流动性分布',
+                                default: 'bidask',
+                                options: [
+                                    { value: 'spot', label: 'Spot（均匀分布）' },
+                                    { value: 'curve', label: 'Curve（集中在活跃bin附近）' },
+                                    { value: 'bidask', label: 'BidAsk（集中在范围两端）' }
+                                ]
+                            }
+                        ]
+                    }
+                ]
+            )
+        };
+    }
+
+    /**
+     * 双边头寸需要活跃bin及下方至少保留一个bin，参数Schema无法表达与binRange的关系，在这里校验
+     */
+    validateConfig(config: SimpleYConfig): string[] {
+        const binsAbove = config.twoSided?.binsAbove;
+        if (config.twoSided?.enabled && binsAbove !== undefined && binsAbove >= config.binRange) {
+            return [`twoSided.binsAbove 必须小于 binRange（${config.binRange}）`];
+        }
+        return [];
+    }
+
     async initialize(config: SimpleYConfig): Promise<void> {
         // 执行器级别的初始化
     }
@@ -358,8 +418,48 @@ export class SimpleYExecutor extends SynchronousRetryMixin implements IStrategyE
         this.instanceConfigs.set(instanceId, config);
     }
 
+    /**
+     * 🔥 热更新运行中实例的配置（changes只包含参数Schema中标记为hot的字段）
+     * 模块化服务每个周期从 instanceConfigs 读取配置，其余hot参数在下一个监控周期自动生效
+     */
+    async applyHotConfig(instanceId: string, config: SimpleYConfig, changes: StrategyConfigChange[]): Promise<void> {
+        this.instanceConfigs.set(instanceId, config);
+        const state = this.instanceStates.get(instanceId);
+        if (!state) return;
+
+        state.config = config;
+        const changed = (...paths: string[]) => changes.some(change => paths.some(path => change.path === path || change.path.startsWith(`${path}.`)));
+
+        // 🧠 智能止损：已有模块直接更新参数，运行中开启时初始化模块
+        if (changed('enableSmartStopLoss', 'stopLoss', 'smartStopLoss') && config.enableSmartStopLoss) {
+            const stopLossModule = this.smartStopLossModules.get(instanceId);
+            if (stopLossModule) {
+                stopLossModule.updateConfig(this.buildSmartStopLossConfig(config));
+            } else {
+                await this.initializeSmartStopLoss(instanceId);
+            }
+        }
+
+        // 🏗️ 头寸重建：更新参数，保留超出范围计时等实例状态
+        if (changed('positionRecreation', 'outOfRangeTimeout', 'minActiveBinPositionThreshold', 'maxPriceForRecreation', 'minPriceForRecreation')) {
+            await this.positionService.updateRecreationConfig(this.createModuleContext(instanceId, config, state));
+        }
+
+        // ⏰ 监控间隔：重启监控定时器
+        if (changed('monitoringInterval') && this.monitoringTimers.has(instanceId)) {
+            this.startMonitoringLoop(instanceId);
+        }
+
+        await this.getInstanceLogger(instanceId)?.logOperation('🔥 简单Y配置热更新已生效', {
+            instanceId,
+            changes: changes.map(change => ({ path: change.path, oldValue: change.oldValue, newValue: change.newValue }))
+        });
+    }
+
     getStatus(instanceId: string): ExecutorStatus {
-        return this.executorStatuses.get(instanceId) || { isRunning: false };
+        const status = this.executorStatuses.get(instanceId) || { isRunning: false };
+        const positionAddress = this.instanceStates.get(instanceId)?.positionAddress;
+        return positionAddress ? { ...status, positionAddresses: [positionAddress] } : status;
     }
 
     private getInstanceLogger(instanceId: string): IStrategyLogger | undefined {
@@ -493,7 +593,12 @@ export class SimpleYExecutor extends SynchronousRetryMixin implements IStrategyE
             const marketData = await this.monitoringService.collectMarketData(context);
 
             // 2. 执行智能止损分析（传入instanceId确保观察期状态正确维持）
-            const decision = await stopLossModule.evaluate(marketData, instanceId);
+            // 双边头寸只按Y侧范围计算活跃bin位置：向上脱离后头寸全部为Y，向下穿过Y侧时与单边Y头寸一致
+            const ySideRange = this.positionService.getYSideRange(context);
+            const decision = await stopLossModule.evaluate(
+                ySideRange ? { ...marketData, positionLowerBin: ySideRange[0], positionUpperBin: ySideRange[1] } : marketData,
+                instanceId
+            );
 
             await logger.logMonitoring('🧠 简单Y智能止损分析完成', {
                 决策行动: decision.action === 'HOLD' ? '继续持有' :
@@ -554,7 +659,8 @@ export class SimpleYExecutor extends SynchronousRetryMixin implements IStrategyE
                     紧急程度: decision.urgency === 'LOW' ? '低' :
                         decision.urgency === 'MEDIUM' ? '中' : '高'
                 });
-                // 简单Y策略采用全进全出策略，不实现部分止损功能
+
+                await this.executePartialStopLoss(instanceId, decision.suggestedExitPercentage || 50);
                 break;
 
             case 'FULL_EXIT':
@@ -615,12 +721,16 @@ export class SimpleYExecutor extends SynchronousRetryMixin implements IStrategyE
     /**
      * 🆕 执行完全止损 - 委托给风险服务
      */
-    private async executeFullStopLoss(instanceId: string): Promise<void> {
+    private async executeFullStopLoss(instanceId: string): Promise<StopLossResult> {
+        const stopLossResult: StopLossResult = { success: false, closedPositions: [], failedPositions: [] };
         const logger = this.getInstanceLogger(instanceId);
         const config = this.instanceConfigs.get(instanceId);
         const state = this.instanceStates.get(instanceId);
         
-        if (!logger || !config || !state) return;
+        if (!logger || !config || !state) {
+            stopLossResult.error = `简单Y策略实例状态不存在: ${instanceId}`;
+            return stopLossResult;
+        }
 
         try {
             // 🔧 关键修复：在开始止损前立即停止监控循环，防止干扰
@@ -644,6 +754,19 @@ export class SimpleYExecutor extends SynchronousRetryMixin implements IStrategyE
             // 委托给风险服务执行止损
             const context = this.createModuleContext(instanceId, config, state);
             const result = await this.riskService.executeStopLoss(context);
+            stopLossResult.success = result.success;
+            if (result.positionAddress) {
+                if (result.success) {
+                    stopLossResult.closedPositions.push({
+                        address: result.positionAddress,
+                        ...(result.signature && { signature: result.signature })
+                    });
+                } else {
+                    stopLossResult.failedPositions.push({ address: result.positionAddress, error: result.error || '未知错误' });
+                }
+            }
+            if (result.swap) stopLossResult.swap = result.swap;
+            if (result.error) stopLossResult.error = result.error;
 
             if (result.success) {
                 await logger.logOperation('✅ 简单Y完全止损执行成功', {
@@ -676,6 +799,8 @@ export class SimpleYExecutor extends SynchronousRetryMixin implements IStrategyE
 
         } catch (error) {
             await logger.logError(`简单Y完全止损执行异常: ${error instanceof Error ? error.message : String(error)}`);
+            stopLossResult.success = false;
+            stopLossResult.error = error instanceof Error ? error.message : String(error);
             
             // 🔧 确保异常情况下也停止监控
             try {
@@ -684,12 +809,39 @@ export class SimpleYExecutor extends SynchronousRetryMixin implements IStrategyE
                 console.error('停止监控时发生异常:', stopError);
             }
         }
+
+        return stopLossResult;
+    }
+
+    /**
+     * ✂️ 执行部分止损 - 委托给风险服务，成功后按剩余比例重设分析服务的初始投入
+     */
+    private async executePartialStopLoss(instanceId: string, percentage: number): Promise<void> {
+        const logger = this.getInstanceLogger(instanceId);
+        const config = this.instanceConfigs.get(instanceId);
+        const state = this.instanceStates.get(instanceId);
+        if (!logger || !config || !state) return;
+
+        const context = this.createModuleContext(instanceId, config, state);
+        const result = await this.riskService.executePartialExit(context, percentage);
+        if (!result.success) {
+            await logger.logError(`简单Y部分止损执行失败，头寸继续监控: ${result.error || '未知错误'}`);
+            return;
+        }
+
+        this.instanceMarketDataCache.delete(instanceId);
+        try {
+            const analyticsService = this.instanceAwareServiceFactory.getInstanceContainer(instanceId)?.positionAnalyticsService;
+            await analyticsService?.updateInitialInvestment((config.positionAmount * (state.remainingFraction ?? 1)).toString());
+        } catch (error) {
+            await logger.logError(`简单Y部分止损后重设初始投入失败: ${error instanceof Error ? error.message : String(error)}`);
+        }
     }
 
     /**
      * 🆕 手动止损入口 - 复用现有的完整止损流程
      */
-    async executeManualStopLoss(instanceId: string): Promise<void> {
+    async executeManualStopLoss(instanceId: string): Promise<StopLossResult> {
         const state = this.instanceStates.get(instanceId);
         const logger = this.getInstanceLogger(instanceId);
         if (!logger) {
@@ -719,7 +871,7 @@ export class SimpleYExecutor extends SynchronousRetryMixin implements IStrategyE
         await this.broadcastStrategyStatusUpdate(instanceId, 'stopping', 'manual_stop_loss_started');
 
         // 直接调用现有的完整止损流程
-        await this.executeFullStopLoss(instanceId);
+        return await this.executeFullStopLoss(instanceId);
     }
 
     /**
@@ -834,22 +986,7 @@ export class SimpleYExecutor extends SynchronousRetryMixin implements IStrategyE
         const logger = this.getInstanceLogger(instanceId);
         if (!state || !logger) return;
 
-        // 🔥 合并前端配置的智能止损参数 (修复配置路径，支持多个配置源)
-        const smartStopLossConfig = {
-            // 合并多个可能的配置源
-            ...state.config.stopLoss,
-            ...state.config.smartStopLoss,
-            // 确保关键参数有默认值
-            activeBinSafetyThreshold:
-                state.config.smartStopLoss?.activeBinSafetyThreshold ||
-                state.config.stopLoss?.activeBinSafetyThreshold || 50,
-            observationPeriodMinutes:
-                state.config.smartStopLoss?.observationPeriodMinutes ||
-                state.config.stopLoss?.observationPeriodMinutes || 15,
-            lossThresholdPercentage:
-                state.config.smartStopLoss?.lossThresholdPercentage ||
-                state.config.stopLoss?.lossThresholdPercentage || 5  // 默认5%亏损阈值
-        };
+        const smartStopLossConfig = this.buildSmartStopLossConfig(state.config);
 
         // 🏭 使用服务工厂创建实例隔离的智能止损模块
         const stopLossModule = this.instanceAwareServiceFactory.createSmartStopLossModuleForInstance(
@@ -868,6 +1005,28 @@ export class SimpleYExecutor extends SynchronousRetryMixin implements IStrategyE
         });
     }
 
+    /**
+     * 🧠 构建智能止损模块参数
+     */
+    private buildSmartStopLossConfig(config: SimpleYConfig) {
+        // 🔥 合并前端配置的智能止损参数 (修复配置路径，支持多个配置源)
+        return {
+            // 合并多个可能的配置源
+            ...config.stopLoss,
+            ...config.smartStopLoss,
+            // 确保关键参数有默认值
+            activeBinSafetyThreshold:
+                config.smartStopLoss?.activeBinSafetyThreshold ||
+                config.stopLoss?.activeBinSafetyThreshold || 50,
+            observationPeriodMinutes:
+                config.smartStopLoss?.observationPeriodMinutes ||
+                config.stopLoss?.observationPeriodMinutes || 15,
+            lossThresholdPercentage:
+                config.smartStopLoss?.lossThresholdPercentage ||
+                config.stopLoss?.lossThresholdPercentage || 5  // 默认5%亏损阈值
+        };
+    }
+
     private async initializePositionRecreation(instanceId: string): Promise<void> {
         const logger = this.getInstanceLogger(instanceId);
         const config = this.instanceConfigs.get(instanceId);
@@ -577,7 +577,7 @@ export class SimpleYMonitoringService implements ISimpleYMonitoringService {
             const setupParams: PositionSetupParams = {
                 poolAddress: context.config.poolAddress,
                 positionAddresses: positionAddresses,
-                initialInvestmentAmount: context.config.positionAmount.toString(),
+                initialInvestmentAmount: (context.config.positionAmount * (context.state.remainingFraction ?? 1)).toString(),
                 tokenPrecision: tokenPrecision,
                 config: {
                     priceMonitorInterval: (context.config.monitoringInterval || 30) * 1000,
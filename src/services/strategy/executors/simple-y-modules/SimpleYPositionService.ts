@@ -10,11 +10,15 @@
 
 import 'reflect-metadata';
 import { injectable, inject } from 'tsyringe';
-import { TYPES, IPositionManager, IDLMMMonitorService, ILoggerService, IEventBus, IYPositionManager } from '../../../../types/interfaces';
-import { ISimpleYPositionService, SimpleYModuleContext } from './types';
+import { TYPES, IPositionManager, IDLMMMonitorService, ILoggerService, IEventBus, IYPositionManager, PositionResult } from '../../../../types/interfaces';
+import { ISimpleYPositionService, ISimpleYRiskService, SimpleYModuleContext } from './types';
 import { PositionRecreationModule, PositionRecreationConfig, RecreationCheckParams, RecreationDecision } from '../../../modules/PositionRecreationModule';
 import { MarketData } from '../../../modules/SmartStopLossModule';
 import { SynchronousRetryMixin } from '../mixins/SynchronousRetryMixin';
+import { PaperTradingService } from '../../../business/PaperTradingService';
+import { StrategyPerformanceService } from '../../StrategyPerformanceService';
+import { calculateTwoSidedAmountSplit, TWO_SIDED_ACTIVE_BIN_CHANGED } from '../../../business/LiquidityOperationService';
+import { SimpleYRiskService } from './SimpleYRiskService';
 
 @injectable()
 export class SimpleYPositionService extends SynchronousRetryMixin implements ISimpleYPositionService {
@@ -36,7 +40,10 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
         @inject(TYPES.DLMMMonitorService) private dlmmMonitor: IDLMMMonitorService,
         @inject(TYPES.LoggerService) private loggerService: ILoggerService,
         @inject(TYPES.EventBus) private eventBus: IEventBus,
-        @inject(TYPES.YPositionManager) private yPositionManager: IYPositionManager
+        @inject(TYPES.YPositionManager) private yPositionManager: IYPositionManager,
+        @inject(PaperTradingService) private paperTradingService: PaperTradingService,
+        @inject(TYPES.StrategyPerformanceService) private performanceService: StrategyPerformanceService,
+        @inject(SimpleYRiskService) private riskService: ISimpleYRiskService
     ) {
         super(); // 调用父类的构造函数
     }
@@ -52,6 +59,24 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
         return this.strategyLoggerCache.get(instanceId);
     }
 
+    /**
+     * 🛑 关闭单个头寸（模拟盘实例记入虚拟账本）
+     */
+    private async closePositionForInstance(instanceId: string, positionAddress: string): Promise<PositionResult> {
+        const result = this.paperTradingService.isPaperInstance(instanceId)
+            ? await this.paperTradingService.closePosition(instanceId, positionAddress)
+            : await this.positionManager.closePosition(positionAddress);
+
+        await this.performanceService.record(instanceId, 'position_closed', {
+            success: result.success,
+            positionAddresses: [positionAddress],
+            ...(result.signature && { signature: result.signature }),
+            ...(result.error && { error: result.error }),
+            ...(result.gasUsed && { cost: { gasUsed: result.gasUsed } })
+        });
+        return result;
+    }
+
     /**
      * 🔧 修复：创建简单Y头寸，使用缓存的日志器
      */
@@ -71,57 +96,112 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
             });
 
             // 🔧 计算Y头寸的bin范围
-            const binRangeData = await this.calculatePositionRange(context);
+            let binRangeData = await this.calculatePositionRange(context);
 
             // 🔑 关键修复：使用构造函数注入的YPositionManager实例
             if (!this.yPositionManager) {
                 throw new Error('YPositionManager服务不可用');
             }
 
+            // ↕️ 双边头寸的流动性分布（单边Y头寸使用YPositionManager默认分布）
+            const liquidityMode = context.config.twoSided?.enabled ? context.config.twoSided.liquidityMode ?? 'bidask' : undefined;
+
             // 创建Y头寸参数（适配YPositionManager接口）
-            const createParams = {
+            const buildCreateParams = (range: typeof binRangeData) => ({
                 poolAddress: context.config.poolAddress,
-                lowerBinId: binRangeData.positionLowerBin,
-                upperBinId: binRangeData.positionUpperBin,
+                lowerBinId: range.positionLowerBin,
+                upperBinId: range.positionUpperBin,
                 amount: context.config.positionAmount.toString(),
                 tokenMint: '',  // Y头寸将使用池的tokenY
                 binRange: context.config.binRange,
-                activeBin: binRangeData.activeBin,
+                activeBin: range.activeBin,
                 slippageBps: context.config.slippageBps || 800,
                 strategy: 'simple-y',
-                password: '' // 策略执行使用解锁的钱包
-            };
+                password: '', // 策略执行使用解锁的钱包
+                ...(liquidityMode && { liquidityMode })
+            });
+            const createParams = buildCreateParams(binRangeData);
+
+            // ↕️ 实盘双边头寸：先兑换出X侧所需的X代币（创建重试时复用）
+            // 模拟盘直接按总金额创建，上方bin按价格持有X，不单独模拟兑换
+            // 存入时活跃bin已偏离拆分资金所用的活跃bin：把X换回Y，下一次尝试按新的活跃bin重新计算范围并拆分
+            const isPaper = this.paperTradingService.isPaperInstance(context.instanceId);
+            let twoSidedFunding = liquidityMode && !isPaper
+                ? await this.prepareTwoSidedFunding(context, binRangeData, liquidityMode)
+                : null;
 
             // 🔑 调用YPositionManager.createYPosition() - 单Y头寸创建，无添加流动性操作
-            const result = await this.executeAsyncCreatePositionWithRetry(
-                async () => {
-                    const createResult = await this.yPositionManager.createYPosition(createParams);
-                    if (!createResult.success) {
-                        throw new Error(`简单Y头寸创建失败: ${createResult.error || '未知错误'}`);
+            let result;
+            try {
+                result = await this.executeAsyncCreatePositionWithRetry(
+                    async () => {
+                        if (isPaper) {
+                            const paperResult = await this.paperTradingService.createYPosition(context.instanceId, createParams);
+                            if (!paperResult.success) {
+                                throw new Error(`简单Y头寸创建失败: ${paperResult.error || '未知错误'}`);
+                            }
+                            return paperResult;
+                        }
+
+                        if (liquidityMode && !twoSidedFunding) {
+                            binRangeData = await this.calculatePositionRange(context);
+                            twoSidedFunding = await this.prepareTwoSidedFunding(context, binRangeData, liquidityMode);
+                        }
+                        const createResult = await this.yPositionManager.createYPosition({
+                            ...buildCreateParams(binRangeData),
+                            ...twoSidedFunding
+                        });
+                        if (!createResult.success && twoSidedFunding && createResult.error?.includes(TWO_SIDED_ACTIVE_BIN_CHANGED)) {
+                            const reverted = await this.revertTwoSidedFunding(context, twoSidedFunding.xAmount);
+                            twoSidedFunding = null;
+                            if (!reverted) {
+                                throw new Error(`${createResult.error}，拆分的X代币换回Y失败，停止重新拆分`);
+                            }
+                        }
+                        if (!createResult.success) {
+                            throw new Error(`简单Y头寸创建失败: ${createResult.error || '未知错误'}`);
+                        }
+                        return createResult;
+                    },
+                    context.instanceId,
+                    {
+                        maxAttempts: 3,
+                        retryableErrors: [
+                            'Y头寸创建失败', '交易验证超时', '交易失败', 
+                            'RPC_ERROR', 'NETWORK_ERROR', 'SLIPPAGE_ERROR',
+                            'failed to get info about account'
+                        ],
+                        delayMs: 15000 // 15秒间隔，与连锁头寸策略保持一致
                     }
-                    return createResult;
-                },
-                context.instanceId,
-                {
-                    maxAttempts: 3,
-                    retryableErrors: [
-                        'Y头寸创建失败', '交易验证超时', '交易失败', 
-                        'RPC_ERROR', 'NETWORK_ERROR', 'SLIPPAGE_ERROR',
-                        'failed to get info about account'
-                    ],
-                    delayMs: 15000 // 15秒间隔，与连锁头寸策略保持一致
+                );
+            } catch (error) {
+                // ↕️ 重试后仍创建失败：把拆分兑换出的X代币换回Y，避免X留在钱包中
+                if (twoSidedFunding) {
+                    await this.revertTwoSidedFunding(context, twoSidedFunding.xAmount);
                 }
-            );
+                throw error;
+            }
 
             // 更新上下文状态
             context.state.positionAddress = result.positionAddress || null;
+            delete context.state.remainingFraction;
             context.state.positionRange = [binRangeData.positionLowerBin, binRangeData.positionUpperBin];
+            context.state.positionActiveBin = binRangeData.activeBin;
+
+            await this.performanceService.record(context.instanceId, 'position_created', {
+                success: true,
+                ...(result.positionAddress && { positionAddresses: [result.positionAddress] }),
+                ...(result.signature && { signature: result.signature }),
+                amount: createParams.amount,
+                ...(result.gasUsed && { cost: { gasUsed: result.gasUsed } })
+            });
 
             await logger.logOperation('✅ 简单Y头寸创建成功', {
                 positionAddress: result.positionAddress?.substring(0, 8) + '...',
                 signature: result.signature,
                 gasUsed: result.gasUsed,
                 binRange: `[${binRangeData.positionLowerBin}, ${binRangeData.positionUpperBin}]`,
+                ...(liquidityMode && { twoSided: true, liquidityMode }),
                 method: 'YPositionManager.createYPosition'
             });
 
@@ -139,6 +219,54 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
         }
     }
 
+    /**
+     * ↕️ 双边头寸资金准备：按流动性分布计算X侧资金占比，通过Jupiter将这部分Y兑换为X
+     * 返回留在Y侧的Y代币数量和兑换得到的X代币（原子单位）
+     */
+    private async prepareTwoSidedFunding(
+        context: SimpleYModuleContext,
+        range: { activeBin: number; positionLowerBin: number; positionUpperBin: number },
+        liquidityMode: 'spot' | 'bidask' | 'curve'
+    ): Promise<{ amount: string; xAmount: string }> {
+        const split = calculateTwoSidedAmountSplit(liquidityMode, range.positionLowerBin, range.positionUpperBin, range.activeBin);
+        const swapAmountY = context.config.positionAmount * split.xRatio;
+
+        const swapResult = await this.riskService.swapYTokensForTwoSidedPosition(context, swapAmountY.toString());
+
+        await this.getCachedLogger(context.instanceId).logOperation('↕️ 双边头寸资金拆分完成', {
+            liquidityMode,
+            xRatio: `${(split.xRatio * 100).toFixed(2)}%`,
+            swappedY: swapAmountY,
+            receivedX: swapResult.outputAmount,
+            signature: swapResult.signature
+        });
+
+        return {
+            amount: (context.config.positionAmount - swapAmountY).toString(),
+            xAmount: swapResult.outputAmount
+        };
+    }
+
+    /**
+     * ↕️ 回退双边头寸资金拆分：将兑换得到的X代币换回Y。换回失败时X代币留在钱包中，
+     * 只记录日志和失败的兑换历史并返回false，不覆盖头寸创建的原始错误
+     */
+    private async revertTwoSidedFunding(context: SimpleYModuleContext, xAmount: string): Promise<boolean> {
+        const logger = this.getCachedLogger(context.instanceId);
+        try {
+            const swapResult = await this.riskService.revertTwoSidedFunding(context, xAmount);
+            await logger.logOperation('↕️ 双边头寸未能创建，已将拆分的X代币换回Y', {
+                xAmount,
+                outputAmount: swapResult.outputAmount,
+                signature: swapResult.signature
+            });
+            return true;
+        } catch (error) {
+            await logger.logError(`双边头寸未能创建，X代币换回Y失败，${xAmount}（原子单位）X代币留在钱包中: ${error instanceof Error ? error.message : String(error)}`);
+            return false;
+        }
+    }
+
     /**
      * 🆕 初始化头寸重建模块 - 从连锁头寸策略完整复制
      */
@@ -146,55 +274,7 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
         const logger = this.getCachedLogger(context.instanceId);
         
         try {
-            // 创建头寸重建模块实例 - 传递完整的配置参数
-            const recreationConfig: Partial<PositionRecreationConfig> = {
-                outOfRangeTimeout: context.config.outOfRangeTimeout,
-                enablePriceCheck: true,
-                // 🔧 修复：与连锁头寸策略保持一致的默认配置
-                enableMarketOpportunityRecreation: context.config.positionRecreation?.enableMarketOpportunityRecreation ?? true,  // 方法2：默认启用
-                enableLossRecoveryRecreation: context.config.positionRecreation?.enableLossRecoveryRecreation ?? false,         // 方法3：默认禁用  
-                enableDynamicProfitRecreation: context.config.positionRecreation?.enableDynamicProfitRecreation ?? false        // 方法4：默认禁用
-            };
-
-            // 🔧 修复：传递用户的具体参数配置（类型兼容处理）
-            if (context.config.positionRecreation?.marketOpportunity) {
-                recreationConfig.marketOpportunity = {
-                    positionThreshold: context.config.positionRecreation.marketOpportunity.positionThreshold ?? 70,
-                    profitThreshold: context.config.positionRecreation.marketOpportunity.profitThreshold ?? 1
-                };
-            }
-            
-            if (context.config.positionRecreation?.lossRecovery) {
-                recreationConfig.lossRecovery = {
-                    markPositionThreshold: context.config.positionRecreation.lossRecovery.markPositionThreshold ?? 65,
-                    markLossThreshold: context.config.positionRecreation.lossRecovery.markLossThreshold ?? 0.5,
-                    triggerPositionThreshold: context.config.positionRecreation.lossRecovery.triggerPositionThreshold ?? 70,
-                    triggerProfitThreshold: context.config.positionRecreation.lossRecovery.triggerProfitThreshold ?? 0.5
-                };
-            }
-            
-            if (context.config.positionRecreation?.dynamicProfitRecreation) {
-                recreationConfig.dynamicProfitRecreation = {
-                    positionThreshold: context.config.positionRecreation.dynamicProfitRecreation.positionThreshold ?? 70,
-                    benchmarkTier1Max: context.config.positionRecreation.dynamicProfitRecreation.benchmarkTier1Max ?? 0.5,
-                    benchmarkTier2Max: context.config.positionRecreation.dynamicProfitRecreation.benchmarkTier2Max ?? 1.5,
-                    benchmarkTier3Max: context.config.positionRecreation.dynamicProfitRecreation.benchmarkTier3Max ?? 3.0,
-                    benchmarkTier4Max: context.config.positionRecreation.dynamicProfitRecreation.benchmarkTier4Max ?? 999,
-                    profitThresholdTier1: context.config.positionRecreation.dynamicProfitRecreation.profitThresholdTier1 ?? 0.5,
-                    profitThresholdTier2: context.config.positionRecreation.dynamicProfitRecreation.profitThresholdTier2 ?? 1.5,
-                    profitThresholdTier3: context.config.positionRecreation.dynamicProfitRecreation.profitThresholdTier3 ?? 3.0,
-                    profitThresholdTier4: context.config.positionRecreation.dynamicProfitRecreation.profitThresholdTier4 ?? 5.0
-                };
-            }
-
-            // 只有当值存在时才添加到配置中
-            if (context.config.maxPriceForRecreation !== undefined) {
-                recreationConfig.maxPriceForRecreation = context.config.maxPriceForRecreation;
-            }
-            if (context.config.minPriceForRecreation !== undefined) {
-                recreationConfig.minPriceForRecreation = context.config.minPriceForRecreation;
-            }
-
+            const recreationConfig = this.buildRecreationConfig(context.config);
             const positionRecreationModule = new PositionRecreationModule(recreationConfig);
 
             this.positionRecreationModules.set(context.instanceId, positionRecreationModule);
@@ -220,6 +300,76 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
         }
     }
 
+    /**
+     * 🏗️ 构建头寸重建模块参数
+     */
+    private buildRecreationConfig(config: SimpleYModuleContext['config']): Partial<PositionRecreationConfig> {
+        // 传递完整的配置参数
+        const recreationConfig: Partial<PositionRecreationConfig> = {
+            outOfRangeTimeout: config.outOfRangeTimeout,
+            enablePriceCheck: true,
+            // 🔧 修复：与连锁头寸策略保持一致的默认配置
+            enableMarketOpportunityRecreation: config.positionRecreation?.enableMarketOpportunityRecreation ?? true,  // 方法2：默认启用
+            enableLossRecoveryRecreation: config.positionRecreation?.enableLossRecoveryRecreation ?? false,         // 方法3：默认禁用  
+            enableDynamicProfitRecreation: config.positionRecreation?.enableDynamicProfitRecreation ?? false        // 方法4：默认禁用
+        };
+
+        // 🔧 修复：传递用户的具体参数配置（类型兼容处理）
+        if (config.positionRecreation?.marketOpportunity) {
+            recreationConfig.marketOpportunity = {
+                positionThreshold: config.positionRecreation.marketOpportunity.positionThreshold ?? 70,
+                profitThreshold: config.positionRecreation.marketOpportunity.profitThreshold ?? 1
+            };
+        }
+        
+        if (config.positionRecreation?.lossRecovery) {
+            recreationConfig.lossRecovery = {
+                markPositionThreshold: config.positionRecreation.lossRecovery.markPositionThreshold ?? 65,
+                markLossThreshold: config.positionRecreation.lossRecovery.markLossThreshold ?? 0.5,
+                triggerPositionThreshold: config.positionRecreation.lossRecovery.triggerPositionThreshold ?? 70,
+                triggerProfitThreshold: config.positionRecreation.lossRecovery.triggerProfitThreshold ?? 0.5
+            };
+        }
+        
+        if (config.positionRecreation?.dynamicProfitRecreation) {
+            recreationConfig.dynamicProfitRecreation = {
+                positionThreshold: config.positionRecreation.dynamicProfitRecreation.positionThreshold ?? 70,
+                benchmarkTier1Max: config.positionRecreation.dynamicProfitRecreation.benchmarkTier1Max ?? 0.5,
+                benchmarkTier2Max: config.positionRecreation.dynamicProfitRecreation.benchmarkTier2Max ?? 1.5,
+                benchmarkTier3Max: config.positionRecreation.dynamicProfitRecreation.benchmarkTier3Max ?? 3.0,
+                benchmarkTier4Max: config.positionRecreation.dynamicProfitRecreation.benchmarkTier4Max ?? 999,
+                profitThresholdTier1: config.positionRecreation.dynamicProfitRecreation.profitThresholdTier1 ?? 0.5,
+                profitThresholdTier2: config.positionRecreation.dynamicProfitRecreation.profitThresholdTier2 ?? 1.5,
+                profitThresholdTier3: config.positionRecreation.dynamicProfitRecreation.profitThresholdTier3 ?? 3.0,
+                profitThresholdTier4: config.positionRecreation.dynamicProfitRecreation.profitThresholdTier4 ?? 5.0
+            };
+        }
+
+        // 只有当值存在时才添加到配置中
+        if (config.maxPriceForRecreation !== undefined) {
+            recreationConfig.maxPriceForRecreation = config.maxPriceForRecreation;
+        }
+        if (config.minPriceForRecreation !== undefined) {
+            recreationConfig.minPriceForRecreation = config.minPriceForRecreation;
+        }
+
+        return recreationConfig;
+    }
+
+    /**
+     * 🔥 热更新头寸重建模块参数（保留超出范围计时等实例状态，模块不存在时下次检查按新配置创建）
+     */
+    async updateRecreationConfig(context: SimpleYModuleContext): Promise<void> {
+        const recreationModule = this.positionRecreationModules.get(context.instanceId);
+        if (!recreationModule) return;
+
+        recreationModule.updateConfig(this.buildRecreationConfig(context.config));
+        await this.getCachedLogger(context.instanceId).logMonitoring('🔥 简单Y头寸重建模块配置已热更新', {
+            instanceId: context.instanceId,
+            outOfRangeTimeout: context.config.outOfRangeTimeout
+        });
+    }
+
     /**
      * 🆕 检查是否需要重建头寸 - 从连锁头寸策略适配
      */
@@ -265,11 +415,13 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
             strategyConfig.minPriceForRecreation = context.config.minPriceForRecreation;
         }
 
+        const ySideRange = this.getYSideRange(context);
         const recreationParams: RecreationCheckParams = {
             marketData: marketData,
             position1Address: context.state.positionAddress || null, // 确保类型正确
             position2Address: null, // 简单Y没有第二个头寸
             positionRange: context.state.positionRange || [0, 0], // 提供默认值
+            ...(ySideRange && { thresholdRange: ySideRange }), // 双边头寸的位置阈值按Y侧判断，超出范围仍按整个头寸判断
             outOfRangeStartTime: null, // 模块内部管理状态
             outOfRangeDirection: null, // 模块内部管理状态
             isInRange: context.state.isInRange,
@@ -658,6 +810,11 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
                     newPositionAddress: context.state.positionAddress,
                     reason: 'position_recreation_success'
                 });
+                await this.performanceService.record(context.instanceId, 'recreation', {
+                    success: true,
+                    ...(context.state.positionAddress && { positionAddresses: [context.state.positionAddress] }),
+                    reason: 'position_recreation'
+                });
 
                 return {
                     success: true,
@@ -793,8 +950,9 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
                 addressesToUpdate: newPositionAddresses
             });
             
-            // 更新头寸监控配置
+            // 更新头寸监控配置（初始投入随新头寸恢复）
             await analyticsService.updatePositionAddresses(newPositionAddresses);
+            await analyticsService.updateInitialInvestment(context.config.positionAmount.toString());
             
             await logger.logOperation('✅ [DEBUG] updatePositionAddresses执行成功', {
                 updatedAddresses: newPositionAddresses
@@ -881,7 +1039,7 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
             // 使用统一的重试机制包装
             const closeResult = await this.executeAsyncClosePositionWithRetry(
                 async () => {
-                    const result = await this.positionManager.closePosition(positionAddress);
+                    const result = await this.closePositionForInstance(context.instanceId, positionAddress);
                     if (!result.success) {
                         throw new Error(`${positionName}关闭失败: ${result.error || '未知错误'}`);
                     }
@@ -978,8 +1136,10 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
             // 🎯 简单Y头寸的bin范围计算：
             // Y头寸是价格下跌方向的头寸，应该从活跃bin开始向下创建
             // 这样当价格下跌时，X代币可以逐步换成Y代币获得手续费
-            const positionUpperBin = activeBin;
-            const positionLowerBin = activeBin - context.config.binRange + 1; // +1 因为包含activeBin本身
+            // 双边头寸：活跃bin上方保留 binsAbove 个bin（持有X），其余bin在活跃bin及下方（持有Y）
+            const binsAbove = this.getTwoSidedBinsAbove(context.config);
+            const positionUpperBin = activeBin + binsAbove;
+            const positionLowerBin = positionUpperBin - context.config.binRange + 1; // +1 因为包含上边界本身
 
             await this.getCachedLogger(context.instanceId).logOperation(
                 '🎯 计算简单Y头寸bin范围',
@@ -989,7 +1149,7 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
                     positionLowerBin,
                     positionUpperBin,
                     totalBins: positionUpperBin - positionLowerBin + 1,
-                    strategy: '从活跃bin向下创建Y头寸'
+                    strategy: binsAbove > 0 ? `跨越活跃bin创建双边头寸（上方${binsAbove}个bin）` : '从活跃bin向下创建Y头寸'
                 }
             );
 
@@ -1009,6 +1169,28 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
         }
     }
 
+    /**
+     * ↕️ 双边头寸的Y侧范围（创建时活跃bin及下方），单边Y头寸返回null
+     * 价格向上脱离时X全部换成Y，没有下跌风险；止损和重建的位置阈值只在Y侧计算，与单边Y头寸含义一致
+     */
+    getYSideRange(context: SimpleYModuleContext): [number, number] | null {
+        const { positionRange, positionActiveBin } = context.state;
+        if (!context.config.twoSided?.enabled || !positionRange || positionActiveBin === undefined) {
+            return null;
+        }
+        return [positionRange[0], Math.min(positionRange[1], positionActiveBin)];
+    }
+
+    /**
+     * 双边头寸位于活跃bin上方的bin数量（单边Y头寸为0）
+     */
+    private getTwoSidedBinsAbove(config: SimpleYModuleContext['config']): number {
+        if (!config.twoSided?.enabled) {
+            return 0;
+        }
+        return Math.min(config.twoSided.binsAbove ?? Math.floor(config.binRange / 2), config.binRange - 1);
+    }
+
     /**
      * 关闭头寸
      */
@@ -1027,7 +1209,7 @@ export class SimpleYPositionService extends SynchronousRetryMixin implements ISi
             // 🔧 使用统一的重试机制包装
             const result = await this.executeAsyncClosePositionWithRetry(
                 async () => {
-                    const closeResult = await this.positionManager.closePosition(context.state.positionAddress!);
+                    const closeResult = await this.closePositionForInstance(context.instanceId, context.state.positionAddress!);
                     if (!closeResult.success) {
                         // 检查是否是头寸不存在的情况（视为成功）
                         const errorMsg = closeResult.error || '';
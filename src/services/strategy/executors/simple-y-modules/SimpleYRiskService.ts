@@ -10,9 +10,19 @@
 
 import 'reflect-metadata';
 import { injectable, inject } from 'tsyringe';
-import { TYPES, IPositionManager, ILoggerService, IGasService, IEventBus, IJupiterService, IMeteoraService, ISolanaWeb3Service, IWalletService } from '../../../../types/interfaces';
+import { TYPES, IPositionManager, ILoggerService, IGasService, IEventBus, IJupiterService, IMeteoraService, ISolanaWeb3Service, IWalletService, PositionResult } from '../../../../types/interfaces';
 import { ISimpleYRiskService, SimpleYModuleContext } from './types';
 import { SynchronousRetryMixin } from '../mixins/SynchronousRetryMixin';
+import { PaperTradingService } from '../../../business/PaperTradingService';
+import { StrategyPerformanceService } from '../../StrategyPerformanceService';
+
+// 操作历史中兑换记录的原因
+const SWAP_RECORD_REASONS = {
+    STOP_LOSS: 'stop_loss',
+    POSITION_RECREATION: 'position_recreation',
+    TWO_SIDED_SPLIT: 'two_sided_split',
+    TWO_SIDED_REVERT: 'two_sided_revert'
+} as const;
 
 @injectable()
 export class SimpleYRiskService extends SynchronousRetryMixin implements ISimpleYRiskService {
@@ -45,7 +55,9 @@ export class SimpleYRiskService extends SynchronousRetryMixin implements ISimple
         @inject(TYPES.JupiterService) private jupiterService: IJupiterService,
         @inject(TYPES.MeteoraService) private meteoraService: IMeteoraService,
         @inject(TYPES.SolanaWeb3Service) private solanaService: ISolanaWeb3Service,
-        @inject(TYPES.WalletService) private walletService: IWalletService
+        @inject(TYPES.WalletService) private walletService: IWalletService,
+        @inject(PaperTradingService) private paperTradingService: PaperTradingService,
+        @inject(TYPES.StrategyPerformanceService) private performanceService: StrategyPerformanceService
     ) {
         super(); // 调用父类的构造函数
     }
@@ -61,6 +73,25 @@ export class SimpleYRiskService extends SynchronousRetryMixin implements ISimple
         return this.strategyLoggerCache.get(instanceId);
     }
 
+    /**
+     * 🛑 关闭单个头寸（模拟盘实例记入虚拟账本）
+     */
+    private async closePositionForInstance(instanceId: string, positionAddress: string): Promise<PositionResult> {
+        const result = this.paperTradingService.isPaperInstance(instanceId)
+            ? await this.paperTradingService.closePosition(instanceId, positionAddress)
+            : await this.positionManager.closePosition(positionAddress);
+
+        await this.performanceService.record(instanceId, 'position_closed', {
+            success: result.success,
+            positionAddresses: [positionAddress],
+            ...(result.signature && { signature: result.signature }),
+            ...(result.error && { error: result.error }),
+            ...(result.gasUsed && { cost: { gasUsed: result.gasUsed } }),
+            reason: 'stop_loss'
+        });
+        return result;
+    }
+
     /**
      * 执行止损操作
      */
@@ -68,8 +99,12 @@ export class SimpleYRiskService extends SynchronousRetryMixin implements ISimple
         success: boolean;
         signature?: string;
         error?: string;
+        positionAddress?: string;
+        swap?: { inputAmount: string; outputAmount?: string; signature?: string; error?: string };
     }> {
         const logger = this.getCachedLogger(context.instanceId);
+        const positionAddress = context.state.positionAddress || undefined;
+        let swap: { inputAmount: string; outputAmount?: string; signature?: string; error?: string } | undefined;
         
         try {
             if (!context.state.positionAddress) {
@@ -92,7 +127,8 @@ export class SimpleYRiskService extends SynchronousRetryMixin implements ISimple
             if (!closeResult.success && !closeResult.alreadyClosed) {
                 return {
                     success: false,
-                    error: `头寸关闭失败: ${closeResult.error}`
+                    error: `头寸关闭失败: ${closeResult.error}`,
+                    ...(positionAddress && { positionAddress })
                 };
             }
 
@@ -131,7 +167,9 @@ export class SimpleYRiskService extends SynchronousRetryMixin implements ISimple
                         poolAddress: context.config.poolAddress,
                         context: 'stop_loss_cleanup'
                     });
+                    swap = { inputAmount: xTokenBalance, outputAmount: swapResult.outputAmount, signature: swapResult.signature };
                 } catch (swapError) {
+                    swap = { inputAmount: xTokenBalance, error: swapError instanceof Error ? swapError.message : String(swapError) };
                     // 🚨 代币交换失败不应阻止止损完成，但要记录错误
                     await logger.logError(`❌ 简单Y止损-X代币卖出失败，但止损仍视为成功: ${swapError instanceof Error ? swapError.message : String(swapError)}`);
                 }
@@ -160,7 +198,9 @@ export class SimpleYRiskService extends SynchronousRetryMixin implements ISimple
 
             return {
                 success: true,
-                ...(closeResult.signature && { signature: closeResult.signature })
+                ...(closeResult.signature && { signature: closeResult.signature }),
+                ...(positionAddress && { positionAddress }),
+                ...(swap && { swap })
             };
 
         } catch (error) {
@@ -168,11 +208,123 @@ export class SimpleYRiskService extends SynchronousRetryMixin implements ISimple
             
             return {
                 success: false,
-                error: error instanceof Error ? error.message : String(error)
+                error: error instanceof Error ? error.message : String(error),
+                ...(positionAddress && { positionAddress }),
+                ...(swap && { swap })
             };
         }
     }
 
+    /**
+     * ✂️ 执行部分止损：按比例移除头寸流动性并卖出移除得到的X代币，头寸保留继续监控
+     */
+    async executePartialExit(context: SimpleYModuleContext, percentage: number): Promise<{
+        success: boolean;
+        signature?: string;
+        error?: string;
+        swap?: { inputAmount: string; outputAmount?: string; signature?: string; error?: string };
+    }> {
+        const logger = this.getCachedLogger(context.instanceId);
+        const positionAddress = context.state.positionAddress;
+        let swap: { inputAmount: string; outputAmount?: string; signature?: string; error?: string } | undefined;
+
+        if (!positionAddress) {
+            return { success: false, error: '没有有效的头寸地址' };
+        }
+        if (!(percentage > 0 && percentage < 100)) {
+            return { success: false, error: `部分止损比例无效: ${percentage}%` };
+        }
+
+        try {
+            await logger.logOperation('✂️ 开始执行简单Y部分止损', {
+                instanceId: context.instanceId,
+                positionAddress,
+                percentage
+            });
+
+            await this.gasService.optimizeGasForOperation('stop_loss');
+
+            // 移除前的X余额，只卖出本次移除得到的X代币
+            const { container } = await import('tsyringe');
+            const utilityService = container.resolve<any>('SimpleYUtilityService');
+            const xBalanceBefore = parseFloat(await utilityService.getAccountXTokenBalance(context)) || 0;
+
+            // 🔥 步骤1: 按比例移除头寸流动性
+            const removeResult = await this.executeAsyncClosePositionWithRetry(
+                async () => {
+                    const result = this.paperTradingService.isPaperInstance(context.instanceId)
+                        ? await this.paperTradingService.removeLiquidity(context.instanceId, positionAddress, percentage)
+                        : await this.positionManager.removeLiquidity(positionAddress, percentage);
+                    if (!result.success) {
+                        throw new Error(`简单Y头寸移除流动性失败: ${result.error || '未知错误'}`);
+                    }
+                    return result;
+                },
+                context.instanceId,
+                {
+                    maxAttempts: 3,
+                    retryableErrors: ['移除流动性失败', '交易失败', 'RPC_ERROR', 'NETWORK_ERROR'],
+                    delayMs: 15000
+                }
+            );
+
+            await this.performanceService.record(context.instanceId, 'partial_exit', {
+                success: true,
+                positionAddresses: [positionAddress],
+                exitPercentage: percentage,
+                ...(removeResult.signature && { signature: removeResult.signature }),
+                ...(removeResult.gasUsed && { cost: { gasUsed: removeResult.gasUsed } })
+            });
+
+            // 🔥 步骤2: 卖出本次移除得到的X代币（失败不影响部分止损结果）
+            const xBalanceAfter = parseFloat(await utilityService.getAccountXTokenBalance(context)) || 0;
+            const withdrawnX = xBalanceAfter - xBalanceBefore;
+            if (withdrawnX > 0) {
+                const xTokenAmount = withdrawnX.toString();
+                try {
+                    const swapResult = await this.executeSwapWithLock(
+                        context,
+                        () => this.executeTokenSwapWithCustomRetry(context, xTokenAmount, 'STOP_LOSS'),
+                        'STOP_LOSS'
+                    );
+                    swap = { inputAmount: xTokenAmount, outputAmount: swapResult.outputAmount, signature: swapResult.signature };
+                } catch (swapError) {
+                    swap = { inputAmount: xTokenAmount, error: swapError instanceof Error ? swapError.message : String(swapError) };
+                    await logger.logError(`❌ 简单Y部分止损-X代币卖出失败，剩余X代币留在钱包中: ${swap.error}`);
+                }
+            }
+
+            // 🔥 步骤3: 记录剩余投入比例，头寸继续监控
+            context.state.remainingFraction = (context.state.remainingFraction ?? 1) * (1 - percentage / 100);
+
+            await logger.logOperation('✅ 简单Y部分止损执行完成', {
+                instanceId: context.instanceId,
+                signature: removeResult.signature,
+                percentage,
+                withdrawnX: Math.max(0, withdrawnX),
+                remainingFraction: context.state.remainingFraction
+            });
+
+            return {
+                success: true,
+                ...(removeResult.signature && { signature: removeResult.signature }),
+                ...(swap && { swap })
+            };
+
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            await logger.logError(`简单Y部分止损执行失败: ${errorMessage}`);
+            await this.performanceService.record(context.instanceId, 'partial_exit', {
+                success: false,
+                positionAddresses: [positionAddress],
+                exitPercentage: percentage,
+                error: errorMessage
+            });
+
+            return { success: false, error: errorMessage, ...(swap && { swap }) };
+        }
+    }
+
     /**
      * 🆕 卖出X代币为Y代币 - 止损专用（带锁定机制）
      */
@@ -217,7 +369,7 @@ export class SimpleYRiskService extends SynchronousRetryMixin implements ISimple
             // 🔧 使用统一的重试机制包装
             const closeResult = await this.executeAsyncClosePositionWithRetry(
                 async () => {
-                    const result = await this.positionManager.closePosition(positionAddress);
+                    const result = await this.closePositionForInstance(context.instanceId, positionAddress);
                     if (!result.success) {
                         throw new Error(`${positionName}关闭失败: ${result.error || '未知错误'}`);
                     }
@@ -276,13 +428,33 @@ export class SimpleYRiskService extends SynchronousRetryMixin implements ISimple
         }
     }
 
+    /**
+     * ↕️ 双边头寸资金拆分：将Y代币兑换为X代币（带锁定机制），返回的X数量为原子单位
+     */
+    async swapYTokensForTwoSidedPosition(context: SimpleYModuleContext, yTokenAmount: string): Promise<{
+        outputAmount: string;
+        signature: string;
+    }> {
+        return await this.executeSwapWithLock(context, () => this.swapYTokensToXCore(context, yTokenAmount), 'TWO_SIDED_SPLIT');
+    }
+
+    /**
+     * ↕️ 双边头寸创建最终失败时，将资金拆分兑换出的X代币（原子单位）换回Y代币（带锁定机制）
+     */
+    async revertTwoSidedFunding(context: SimpleYModuleContext, xAtomicAmount: string): Promise<{
+        outputAmount: string;
+        signature: string;
+    }> {
+        return await this.executeSwapWithLock(context, () => this.swapTwoSidedXTokensBackCore(context, xAtomicAmount), 'TWO_SIDED_REVERT');
+    }
+
     /**
      * 🆕 执行代币交换（带锁定机制） - 防止并发操作
      */
     private async executeSwapWithLock<T>(
         context: SimpleYModuleContext,
         operation: () => Promise<T>,
-        operationType: 'STOP_LOSS' | 'POSITION_RECREATION'
+        operationType: 'STOP_LOSS' | 'POSITION_RECREATION' | 'TWO_SIDED_SPLIT' | 'TWO_SIDED_REVERT'
     ): Promise<T> {
         const logger = this.getCachedLogger(context.instanceId);
 
@@ -437,6 +609,22 @@ export class SimpleYRiskService extends SynchronousRetryMixin implements ISimple
         const logger = this.getCachedLogger(context.instanceId);
 
         try {
+            // 📝 模拟盘：按报价在虚拟账户中成交
+            if (this.paperTradingService.isPaperInstance(context.instanceId)) {
+                const paperResult = await this.paperTradingService.swapTokenXToY(context.instanceId, xTokenAmount, context.config.slippageBps || 2000);
+                await logger.logOperation(`📝 简单Y-模拟盘${swapContext === 'STOP_LOSS' ? '止损' : '头寸重建'}X代币交换完成`, {
+                    inputAmount: xTokenAmount,
+                    outputAmount: paperResult.outputAmount,
+                    signature: paperResult.signature,
+                    context: swapContext
+                });
+                await this.recordSwap(context.instanceId, xTokenAmount, paperResult.outputAmount, paperResult.signature, paperResult.priceImpact, swapContext);
+                return {
+                    outputAmount: paperResult.outputAmount,
+                    signature: paperResult.signature
+                };
+            }
+
             // 获取池子信息以获取代币mint地址
             const { container } = await import('tsyringe');
             const dlmmMonitor = container.resolve<any>('DLMMMonitorService');
@@ -514,6 +702,7 @@ export class SimpleYRiskService extends SynchronousRetryMixin implements ISimple
                 context: swapContext
             });
 
+            await this.recordSwap(context.instanceId, xTokenAmount, swapResult.outputAmount, swapResult.signature, swapResult.priceImpact, swapContext);
             return {
                 outputAmount: swapResult.outputAmount,
                 signature: swapResult.signature
@@ -521,10 +710,186 @@ export class SimpleYRiskService extends SynchronousRetryMixin implements ISimple
 
         } catch (error) {
             await logger.logError(`简单Y-${swapContext === 'STOP_LOSS' ? '止损' : '头寸重建'}X代币交换失败: ${error instanceof Error ? error.message : String(error)}`);
+            await this.performanceService.record(context.instanceId, 'swap', {
+                success: false,
+                inputAmount: xTokenAmount,
+                error: error instanceof Error ? error.message : String(error),
+                reason: swapContext === 'STOP_LOSS' ? 'stop_loss' : 'position_recreation'
+            });
             throw error;
         }
     }
 
+    /**
+     * ↕️ Y代币兑换为X代币核心逻辑（双边头寸资金拆分，仅实盘：模拟盘创建双边头寸时不单独模拟兑换）
+     */
+    private async swapYTokensToXCore(context: SimpleYModuleContext, yTokenAmount: string): Promise<{
+        outputAmount: string;
+        signature: string;
+    }> {
+        const logger = this.getCachedLogger(context.instanceId);
+
+        try {
+            const { container } = await import('tsyringe');
+            const dlmmMonitor = container.resolve<any>('DLMMMonitorService');
+            const poolInfo = await dlmmMonitor.getPoolInfo(context.config.poolAddress);
+            if (!poolInfo || !poolInfo.tokenX || !poolInfo.tokenY) {
+                throw new Error(`无法获取池子信息: ${context.config.poolAddress}`);
+            }
+
+            const userKeypair = this.walletService.getCurrentKeypair();
+            if (!userKeypair) {
+                throw new Error('用户钱包未解锁');
+            }
+
+            const connection = this.solanaService.getConnection();
+            const { PublicKey } = await import('@solana/web3.js');
+            const { getMint } = await import('@solana/spl-token');
+            const yTokenDecimals = (await getMint(connection, new PublicKey(poolInfo.tokenY))).decimals;
+
+            const slippageBps = context.config.slippageBps || 2000;
+            const atomicAmount = Math.round(parseFloat(yTokenAmount) * Math.pow(10, yTokenDecimals)).toString();
+
+            await logger.logOperation('🔄 开始执行简单Y-双边头寸Y代币兑换X', {
+                inputMint: poolInfo.tokenY,
+                outputMint: poolInfo.tokenX,
+                humanReadableAmount: yTokenAmount,
+                atomicAmount,
+                decimals: yTokenDecimals,
+                slippageBps
+            });
+
+            const swapResult = await this.jupiterService.executeSwap({
+                inputMint: poolInfo.tokenY,
+                outputMint: poolInfo.tokenX,
+                amount: atomicAmount,
+                slippageBps,
+                userPublicKey: userKeypair.publicKey.toString(),
+                instanceId: context.instanceId
+            });
+
+            const verificationResult = await (this.solanaService as any).verifyTransactionWithRetry(swapResult.signature, 4);
+            if (verificationResult.status === 'failed') {
+                throw new Error(`交易失败: ${swapResult.signature}`);
+            }
+
+            await logger.logOperation('✅ 简单Y-双边头寸Y代币兑换X成功', {
+                inputAmount: yTokenAmount,
+                outputAmount: swapResult.outputAmount,
+                signature: swapResult.signature
+            });
+
+            await this.recordSwap(context.instanceId, yTokenAmount, swapResult.outputAmount, swapResult.signature, swapResult.priceImpact, 'TWO_SIDED_SPLIT');
+            return {
+                outputAmount: swapResult.outputAmount,
+                signature: swapResult.signature
+            };
+
+        } catch (error) {
+            await logger.logError(`简单Y-双边头寸Y代币兑换X失败: ${error instanceof Error ? error.message : String(error)}`);
+            await this.performanceService.record(context.instanceId, 'swap', {
+                success: false,
+                inputAmount: yTokenAmount,
+                error: error instanceof Error ? error.message : String(error),
+                reason: SWAP_RECORD_REASONS.TWO_SIDED_SPLIT
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * ↕️ X代币换回Y代币核心逻辑（双边头寸创建失败后回退资金拆分，输入为兑换得到的X原子单位）
+     */
+    private async swapTwoSidedXTokensBackCore(context: SimpleYModuleContext, xAtomicAmount: string): Promise<{
+        outputAmount: string;
+        signature: string;
+    }> {
+        const logger = this.getCachedLogger(context.instanceId);
+        let inputAmount = xAtomicAmount;
+
+        try {
+            const { container } = await import('tsyringe');
+            const dlmmMonitor = container.resolve<any>('DLMMMonitorService');
+            const poolInfo = await dlmmMonitor.getPoolInfo(context.config.poolAddress);
+            if (!poolInfo || !poolInfo.tokenX || !poolInfo.tokenY) {
+                throw new Error(`无法获取池子信息: ${context.config.poolAddress}`);
+            }
+
+            const userKeypair = this.walletService.getCurrentKeypair();
+            if (!userKeypair) {
+                throw new Error('用户钱包未解锁');
+            }
+
+            const connection = this.solanaService.getConnection();
+            const { PublicKey } = await import('@solana/web3.js');
+            const { getMint } = await import('@solana/spl-token');
+            const xTokenDecimals = (await getMint(connection, new PublicKey(poolInfo.tokenX))).decimals;
+            // 操作历史中的兑换输入为人类可读数量
+            inputAmount = (Number(xAtomicAmount) / Math.pow(10, xTokenDecimals)).toString();
+
+            const slippageBps = context.config.slippageBps || 2000;
+
+            await logger.logOperation('🔄 开始执行简单Y-双边头寸X代币换回Y', {
+                inputMint: poolInfo.tokenX,
+                outputMint: poolInfo.tokenY,
+                humanReadableAmount: inputAmount,
+                atomicAmount: xAtomicAmount,
+                decimals: xTokenDecimals,
+                slippageBps
+            });
+
+            const swapResult = await this.jupiterService.executeSwap({
+                inputMint: poolInfo.tokenX,
+                outputMint: poolInfo.tokenY,
+                amount: xAtomicAmount,
+                slippageBps,
+                userPublicKey: userKeypair.publicKey.toString(),
+                instanceId: context.instanceId
+            });
+
+            const verificationResult = await (this.solanaService as any).verifyTransactionWithRetry(swapResult.signature, 4);
+            if (verificationResult.status === 'failed') {
+                throw new Error(`交易失败: ${swapResult.signature}`);
+            }
+
+            await logger.logOperation('✅ 简单Y-双边头寸X代币换回Y成功', {
+                inputAmount,
+                outputAmount: swapResult.outputAmount,
+                signature: swapResult.signature
+            });
+
+            await this.recordSwap(context.instanceId, inputAmount, swapResult.outputAmount, swapResult.signature, swapResult.priceImpact, 'TWO_SIDED_REVERT');
+            return {
+                outputAmount: swapResult.outputAmount,
+                signature: swapResult.signature
+            };
+
+        } catch (error) {
+            await logger.logError(`简单Y-双边头寸X代币换回Y失败: ${error instanceof Error ? error.message : String(error)}`);
+            await this.performanceService.record(context.instanceId, 'swap', {
+                success: false,
+                inputAmount,
+                error: error instanceof Error ? error.message : String(error),
+                reason: SWAP_RECORD_REASONS.TWO_SIDED_REVERT
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * 📒 兑换成功后写入操作历史
+     */
+    private async recordSwap(instanceId: string, inputAmount: string, outputAmount: string, signature: string, priceImpact: number, swapContext: keyof typeof SWAP_RECORD_REASONS): Promise<void> {
+        await this.performanceService.record(instanceId, 'swap', {
+            success: true,
+            signature,
+            inputAmount,
+            outputAmount,
+            cost: { priceImpact },
+            reason: SWAP_RECORD_REASONS[swapContext]
+        });
+    }
+
     /**
      * 🆕 广播风险事件
      */
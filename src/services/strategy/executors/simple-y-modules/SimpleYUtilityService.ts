@@ -14,6 +14,8 @@ import { TYPES, IPositionManager, ILoggerService, IEventBus, ISolanaWeb3Service,
 import { ISimpleYUtilityService, SimpleYModuleContext } from './types';
 import { SynchronousRetryMixin } from '../mixins/SynchronousRetryMixin';
 import { TokenPrecisionConverter } from '../../../../utils/TokenPrecisionConverter';
+import { PaperTradingService } from '../../../business/PaperTradingService';
+import { StrategyPerformanceService } from '../../StrategyPerformanceService';
 
 @injectable()
 export class SimpleYUtilityService extends SynchronousRetryMixin implements ISimpleYUtilityService {
@@ -36,7 +38,9 @@ export class SimpleYUtilityService extends SynchronousRetryMixin implements ISim
         @inject(TYPES.EventBus) private eventBus: IEventBus,
         @inject(TYPES.SolanaWeb3Service) private solanaService: ISolanaWeb3Service,
         @inject(TYPES.DLMMMonitorService) private dlmmMonitor: IDLMMMonitorService,
-        @inject(TYPES.GasService) private gasService: IGasService
+        @inject(TYPES.GasService) private gasService: IGasService,
+        @inject(PaperTradingService) private paperTradingService: PaperTradingService,
+        @inject(TYPES.StrategyPerformanceService) private performanceService: StrategyPerformanceService
     ) {
         super(); // 调用父类的构造函数
     }
@@ -482,6 +486,10 @@ export class SimpleYUtilityService extends SynchronousRetryMixin implements ISim
         const logger = this.getCachedLogger(context.instanceId);
 
         try {
+            if (this.paperTradingService.isPaperInstance(context.instanceId)) {
+                return await this.paperTradingService.getTokenBalance(context.instanceId, 'X');
+            }
+
             // 获取池子信息以获取X代币mint地址
             const poolInfo = await this.dlmmMonitor.getPoolInfo(context.config.poolAddress);
             if (!poolInfo || !poolInfo.tokenX) {
@@ -561,6 +569,10 @@ export class SimpleYUtilityService extends SynchronousRetryMixin implements ISim
         const logger = this.getCachedLogger(context.instanceId);
 
         try {
+            if (this.paperTradingService.isPaperInstance(context.instanceId)) {
+                return await this.paperTradingService.getTokenBalance(context.instanceId, 'Y');
+            }
+
             // 获取池子信息以获取Y代币mint地址
             const poolInfo = await this.dlmmMonitor.getPoolInfo(context.config.poolAddress);
             if (!poolInfo || !poolInfo.tokenY) {
@@ -738,6 +750,14 @@ export class SimpleYUtilityService extends SynchronousRetryMixin implements ISim
         // 🔧 使用统一的重试机制包装
         const closeResult = await this.executeAsyncClosePositionWithRetry(
             async () => {
+                if (this.paperTradingService.isPaperInstance(context.instanceId)) {
+                    const paperResult = await this.paperTradingService.closePosition(context.instanceId, positionAddress);
+                    if (!paperResult.success) {
+                        throw new Error(`简单Y头寸清理失败: ${paperResult.error || '未知错误'}`);
+                    }
+                    return paperResult;
+                }
+
                 // 获取PositionManager实例
                 const { container } = await import('tsyringe');
                 const positionManager = container.resolve<any>('PositionManager');
@@ -767,6 +787,14 @@ export class SimpleYUtilityService extends SynchronousRetryMixin implements ISim
             instanceId: context.instanceId
         });
 
+        await this.performanceService.record(context.instanceId, 'position_closed', {
+            success: true,
+            positionAddresses: [positionAddress],
+            ...(closeResult.signature && { signature: closeResult.signature }),
+            ...(closeResult.gasUsed && { cost: { gasUsed: closeResult.gasUsed } }),
+            reason: 'cleanup'
+        });
+
         return closeResult;
     }
 
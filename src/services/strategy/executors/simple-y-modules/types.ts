@@ -27,6 +27,8 @@ export interface ISimpleYPositionService {
         positionLowerBin: number;
         positionUpperBin: number;
     }>;
+
+    getYSideRange(context: SimpleYModuleContext): [number, number] | null;
     
     closePosition(context: SimpleYModuleContext): Promise<{
         success: boolean;
@@ -42,6 +44,7 @@ export interface ISimpleYPositionService {
 
     // 🆕 头寸重建相关方法
     initializePositionRecreation(context: SimpleYModuleContext): Promise<void>;
+    updateRecreationConfig(context: SimpleYModuleContext): Promise<void>;
     shouldRecreatePosition(context: SimpleYModuleContext, marketData: any): Promise<any>;
     cleanupRecreationModule(context: SimpleYModuleContext): Promise<void>;
 }
@@ -61,6 +64,15 @@ export interface ISimpleYRiskService {
         success: boolean;
         signature?: string;
         error?: string;
+        positionAddress?: string;
+        swap?: { inputAmount: string; outputAmount?: string; signature?: string; error?: string };
+    }>;
+    
+    executePartialExit(context: SimpleYModuleContext, percentage: number): Promise<{
+        success: boolean;
+        signature?: string;
+        error?: string;
+        swap?: { inputAmount: string; outputAmount?: string; signature?: string; error?: string };
     }>;
     
     swapTokens(context: SimpleYModuleContext, amount: string, swapType: 'STOP_LOSS' | 'RECREATION'): Promise<{
@@ -69,7 +81,17 @@ export interface ISimpleYRiskService {
         signature?: string;
         error?: string;
     }>;
-    
+
+    swapYTokensForTwoSidedPosition(context: SimpleYModuleContext, yTokenAmount: string): Promise<{
+        outputAmount: string;
+        signature: string;
+    }>;
+
+    revertTwoSidedFunding(context: SimpleYModuleContext, xAtomicAmount: string): Promise<{
+        outputAmount: string;
+        signature: string;
+    }>;
+
     broadcastRiskEvent(context: SimpleYModuleContext, eventData: any): Promise<void>;
 }
 
@@ -0,0 +1,651 @@
+/**
+ * 🧵 策略工作线程池
+ *
+ * strategy.isolation.mode = 'worker' 时，内置策略的实盘实例在独立的工作线程中运行，
+ * 每个工作线程有自己的依赖注入容器和事件循环（按 shardSize 分片）。
+ * 注册表中的执行器被替换为路由代理，执行器调用通过消息转发到实例所在的工作线程；
+ * 工作线程崩溃或心跳超时时只影响该线程上的实例，其余实例继续运行。
+ */
+
+import 'reflect-metadata';
+import { injectable, inject } from 'tsyringe';
+import { Worker } from 'worker_threads';
+import path from 'path';
+import { TYPES, ILoggerService, IConfigService, IEventBus, IWalletService, IGasService } from '../../../types/interfaces';
+import { EVENTS } from '../../../infrastructure/EventBus';
+import { StrategyIsolationConfig, StrategyWorkerInfo, StrategyConfigChange } from '../../../types/strategy';
+import { StrategyRegistry, IStrategyExecutor, ExecutorStatus, RecoveryResult, StopLossResult } from '../StrategyRegistry';
+import { StrategyJournal } from '../storage/StrategyJournal';
+import { StrategyPerformanceService } from '../StrategyPerformanceService';
+import { RiskBudgetService } from '../RiskBudgetService';
+import { PaperTradingService } from '../../business/PaperTradingService';
+import { WORKER_EXECUTOR_TOKENS, StrategyWorkerMethod, StrategyWorkerData, MainToWorkerMessage, WorkerToMainMessage } from './types';
+
+interface PendingCall {
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+interface WorkerHandle {
+    workerId: string;
+    worker: Worker;
+    status: StrategyWorkerInfo['status'];
+    ready: Promise<void>;
+    instances: Map<string, string>;          // instanceId -> 策略类型
+    statuses: Map<string, ExecutorStatus>;   // 最近一次心跳返回的执行器状态
+    pending: Map<number, PendingCall>;
+    startedAt: number;
+    pingSentAt: number | null;               // 未响应的心跳发送时间
+    lastHeartbeatAt?: number;
+    heartbeatLatencyMs?: number;
+    syncedState: string | null;              // 已同步运行时状态的指纹
+    idleTimer: NodeJS.Timeout | null;
+    terminating: boolean;
+}
+
+// 路由方式：assign 分配工作线程并保持；transient 临时分配，调用后释放；release 调用后释放（未分配时跳过）
+type RouteMode = 'assign' | 'transient' | 'release';
+
+@injectable()
+export class StrategyWorkerPool {
+    private config: StrategyIsolationConfig;
+    private workers: Map<string, WorkerHandle> = new Map();
+    private assignments: Map<string, WorkerHandle> = new Map();
+    private instanceConfigs: Map<string, any> = new Map();
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+    private subscriptions: string[] = [];
+    private workerCounter = 0;
+    private messageCounter = 0;
+    private initialized = false;
+
+    // 回调由StrategyManager设置，避免循环依赖
+    private stopInstanceCallback?: (instanceId: string) => Promise<void>;
+    private workerFailureCallback?: (instanceIds: string[], reason: string) => Promise<void>;
+
+    // 主线程运行时状态变化的事件：收到后立即同步给所有工作线程
+    private static readonly STATE_EVENTS = [
+        'risk.budget.update',        // 新资金投入暂停/解除
+        'kill-switch.update',        // 一键平仓开始/结束（紧急优先费用模式）
+        EVENTS.WALLET_CONNECTED,
+        EVENTS.WALLET_DISCONNECTED
+    ];
+
+    // 工作线程中需要转发到主线程事件总线的事件
+    private static readonly FORWARDED_EVENTS = [
+        'strategy.status.update',
+        'strategy.smart-stop-loss.update',
+        'position:created',
+        'position:closed',
+        'fees:harvested',
+        'fees:pool-harvested'
+    ];
+
+    private static readonly DEFAULT_CONFIG: StrategyIsolationConfig = {
+        mode: 'inline',
+        shardSize: 1,
+        strategyTypes: Object.keys(WORKER_EXECUTOR_TOKENS),
+        heartbeatInterval: 10000,
+        heartbeatTimeout: 30000,
+        callTimeout: 300000,
+        startupTimeout: 120000,
+        idleTimeout: 60000,
+        maxOldGenerationSizeMb: 1024
+    };
+
+    constructor(
+        @inject(TYPES.LoggerService) private logger: ILoggerService,
+        @inject(TYPES.ConfigService) private configService: IConfigService,
+        @inject(TYPES.EventBus) private eventBus: IEventBus,
+        @inject(TYPES.StrategyRegistry) private registry: StrategyRegistry,
+        @inject(TYPES.StrategyJournal) private journal: StrategyJournal,
+        @inject(TYPES.StrategyPerformanceService) private performance: StrategyPerformanceService,
+        @inject(TYPES.RiskBudgetService) private riskBudget: RiskBudgetService,
+        @inject(TYPES.WalletService) private walletService: IWalletService,
+        @inject(TYPES.GasService) private gasService: IGasService,
+        @inject(PaperTradingService) private paperTradingService: PaperTradingService
+    ) {
+        this.config = { ...StrategyWorkerPool.DEFAULT_CONFIG };
+    }
+
+    // 设置停止实例回调（工作线程中的执行器请求停止实例时调用）
+    setStopInstanceCallback(callback: (instanceId: string) => Promise<void>): void {
+        this.stopInstanceCallback = callback;
+    }
+
+    // 设置工作线程失效回调（崩溃/心跳超时时，参数为该线程上的实例）
+    setWorkerFailureCallback(callback: (instanceIds: string[], reason: string) => Promise<void>): void {
+        this.workerFailureCallback = callback;
+    }
+
+    /**
+     * 🚀 读取配置；worker模式下把注册表中的内置执行器替换为路由代理
+     * 必须在执行器注册之后、加载策略实例之前调用
+     */
+    async initialize(): Promise<void> {
+        if (this.initialized) return;
+
+        this.config = { ...this.config, ...this.configService.get<Partial<StrategyIsolationConfig>>('strategy.isolation', {}) };
+        this.config.shardSize = Math.max(1, Math.floor(this.config.shardSize));
+        this.initialized = true;
+
+        if (!this.isEnabled()) {
+            return;
+        }
+
+        const isolatedTypes: string[] = [];
+        for (const type of this.config.strategyTypes) {
+            const executor = this.registry.getExecutor(type);
+            if (!WORKER_EXECUTOR_TOKENS[type] || !executor) {
+                await this.logger.logSystem('WARN', `[StrategyWorkerPool] 策略类型不支持在工作线程运行，保留在主线程: ${type}`);
+                continue;
+            }
+            await this.registry.register(type, this.wrapExecutor(type, executor));
+            isolatedTypes.push(type);
+        }
+
+        this.heartbeatTimer = setInterval(() => {
+            this.checkHeartbeats().catch(error =>
+                this.logger.logError('strategy-worker-pool', '[StrategyWorkerPool] 心跳检查失败', error as Error)
+            );
+        }, this.config.heartbeatInterval);
+        this.subscriptions = StrategyWorkerPool.STATE_EVENTS.map(eventType =>
+            this.eventBus.subscribe(eventType, () => this.syncAllWorkers())
+        );
+
+        await this.logger.logSystem('INFO', `[StrategyWorkerPool] 🧵 工作线程隔离已启用 (类型: ${isolatedTypes.join(', ')}, 每线程实例数: ${this.config.shardSize})`);
+    }
+
+    async shutdown(): Promise<void> {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+        this.subscriptions.forEach(id => this.eventBus.unsubscribe(id));
+        this.subscriptions = [];
+
+        for (const handle of Array.from(this.workers.values())) {
+            await this.terminateWorker(handle, '策略工作线程池已关闭');
+        }
+        this.assignments.clear();
+        this.initialized = false;
+    }
+
+    isEnabled(): boolean {
+        return this.config.mode === 'worker';
+    }
+
+    getConfig(): StrategyIsolationConfig {
+        return { ...this.config, strategyTypes: [...this.config.strategyTypes] };
+    }
+
+    getWorkers(): StrategyWorkerInfo[] {
+        return Array.from(this.workers.values()).map(handle => ({
+            workerId: handle.workerId,
+            threadId: handle.worker.threadId,
+            status: handle.status,
+            instanceIds: Array.from(handle.instances.keys()),
+            startedAt: handle.startedAt,
+            ...(handle.lastHeartbeatAt !== undefined && { lastHeartbeatAt: handle.lastHeartbeatAt }),
+            ...(handle.heartbeatLatencyMs !== undefined && { heartbeatLatencyMs: handle.heartbeatLatencyMs }),
+            pendingCalls: handle.pending.size
+        }));
+    }
+
+    /**
+     * 🔀 创建路由代理：实盘实例的调用转发到工作线程，模拟盘实例（虚拟账本在主线程）由原执行器处理
+     * 代理只暴露原执行器实现了的可选方法，StrategyManager 的能力检测保持不变
+     */
+    private wrapExecutor(type: string, executor: IStrategyExecutor): IStrategyExecutor {
+        const local = executor as IStrategyExecutor & Record<string, any>;
+        const isolated = (instanceId: string) => !this.paperTradingService.isPaperInstance(instanceId);
+        const route = (method: StrategyWorkerMethod, mode: RouteMode) =>
+            (instanceId: string, ...args: unknown[]): Promise<any> => isolated(instanceId)
+                ? this.invoke(instanceId, type, method, [instanceId, ...args], mode)
+                : local[method](instanceId, ...args);
+
+        const wrapped: IStrategyExecutor & Record<string, unknown> = {
+            getType: () => local.getType(),
+            getVersion: () => local.getVersion(),
+            getConfigSchema: () => local.getConfigSchema(),
+            initialize: (config: any) => local.initialize(config),
+            execute: route('execute', 'assign'),
+            cleanup: route('cleanup', 'release'),
+            getStatus: (instanceId: string): ExecutorStatus => {
+                if (!isolated(instanceId)) {
+                    return local.getStatus(instanceId);
+                }
+                return this.assignments.get(instanceId)?.statuses.get(instanceId) || { isRunning: false };
+            }
+        };
+
+        if (typeof local.stop === 'function') {
+            wrapped.stop = route('stop', 'release');
+        }
+        if (typeof local.setInstanceConfig === 'function') {
+            // 主线程执行器同样保存配置（用于校验），工作线程在分配实例时收到最新配置
+            wrapped.setInstanceConfig = (instanceId: string, config: any): void => {
+                local.setInstanceConfig(instanceId, config);
+                if (!isolated(instanceId)) return;
+
+                this.instanceConfigs.set(instanceId, config);
+                const handle = this.assignments.get(instanceId);
+                if (handle) {
+                    this.call(handle, type, 'setInstanceConfig', [instanceId, config]).catch(error =>
+                        this.logger.logError('strategy-worker-pool', `[StrategyWorkerPool] 同步实例配置失败: ${instanceId}`, error as Error)
+                    );
+                }
+            };
+        }
+        if (typeof local.applyHotConfig === 'function') {
+            wrapped.applyHotConfig = (instanceId: string, config: any, changes: StrategyConfigChange[]): Promise<void> => {
+                if (!isolated(instanceId)) {
+                    return local.applyHotConfig(instanceId, config, changes);
+                }
+                this.instanceConfigs.set(instanceId, config);
+                return this.invoke(instanceId, type, 'applyHotConfig', [instanceId, config, changes], 'transient') as Promise<void>;
+            };
+        }
+        if (typeof local.executeManualStopLoss === 'function') {
+            wrapped.executeManualStopLoss = route('executeManualStopLoss', 'transient') as (instanceId: string) => Promise<StopLossResult>;
+        }
+        if (typeof local.recoverInstance === 'function') {
+            wrapped.recoverInstance = route('recoverInstance', 'assign') as (instanceId: string) => Promise<RecoveryResult>;
+        }
+
+        return wrapped;
+    }
+
+    /**
+     * 把执行器调用转发到实例所在的工作线程
+     */
+    private async invoke(instanceId: string, type: string, method: StrategyWorkerMethod, args: unknown[], mode: RouteMode): Promise<unknown> {
+        let handle = this.assignments.get(instanceId);
+        const wasAssigned = !!handle;
+        if (!handle) {
+            // 实例不在任何工作线程上运行，没有需要停止或清理的状态
+            if (mode === 'release') return undefined;
+            handle = await this.assign(instanceId, type);
+        }
+
+        let keepAssigned = mode === 'assign' || (mode === 'transient' && wasAssigned);
+        try {
+            const result = await this.call(handle, type, method, args);
+            // 恢复未接管头寸时实例不会继续运行
+            if (method === 'recoverInstance' && (result as RecoveryResult | undefined)?.status !== 'recovered' && !wasAssigned) {
+                keepAssigned = false;
+            }
+            return result;
+        } catch (error) {
+            if (method === 'recoverInstance' && !wasAssigned) {
+                keepAssigned = false;
+            }
+            throw error;
+        } finally {
+            if (!keepAssigned) {
+                this.release(instanceId);
+            }
+        }
+    }
+
+    /**
+     * 为实例分配工作线程（优先填满已有线程），并同步实例配置
+     */
+    private async assign(instanceId: string, type: string): Promise<WorkerHandle> {
+        let handle = Array.from(this.workers.values())
+            .find(worker => worker.status !== 'failed' && !worker.terminating && worker.instances.size < this.config.shardSize);
+        if (!handle) {
+            handle = this.spawnWorker();
+        }
+
+        handle.instances.set(instanceId, type);
+        this.assignments.set(instanceId, handle);
+        if (handle.idleTimer) {
+            clearTimeout(handle.idleTimer);
+            handle.idleTimer = null;
+        }
+
+        try {
+            await handle.ready;
+        } catch (error) {
+            this.release(instanceId);
+            throw error;
+        }
+
+        const config = this.instanceConfigs.get(instanceId);
+        if (config) {
+            await this.call(handle, type, 'setInstanceConfig', [instanceId, config]);
+        }
+
+        await this.logger.logSystem('INFO', `[StrategyWorkerPool] 实例 ${instanceId} 分配到工作线程 ${handle.workerId} (线程实例数: ${handle.instances.size}/${this.config.shardSize})`);
+        return handle;
+    }
+
+    /**
+     * 释放实例；工作线程空闲超过 idleTimeout 后退出
+     */
+    private release(instanceId: string): void {
+        const handle = this.assignments.get(instanceId);
+        if (!handle) return;
+
+        this.assignments.delete(instanceId);
+        handle.instances.delete(instanceId);
+        handle.statuses.delete(instanceId);
+
+        if (handle.instances.size === 0 && !handle.idleTimer && handle.status !== 'failed') {
+            handle.idleTimer = setTimeout(() => {
+                handle.idleTimer = null;
+                if (handle.instances.size === 0) {
+                    this.terminateWorker(handle, '工作线程空闲').catch(() => { /* 已记录 */ });
+                }
+            }, this.config.idleTimeout);
+        }
+    }
+
+    private spawnWorker(): WorkerHandle {
+        const workerId = `worker_${++this.workerCounter}`;
+        const workerData: StrategyWorkerData = {
+            workerId,
+            strategyTypes: this.config.strategyTypes.filter(type => WORKER_EXECUTOR_TOKENS[type]),
+            forwardedEvents: StrategyWorkerPool.FORWARDED_EVENTS
+        };
+        const worker = this.createWorker(workerData);
+
+        let markReady!: () => void;
+        let markFailed!: (error: Error) => void;
+        const ready = new Promise<void>((resolve, reject) => {
+            markReady = resolve;
+            markFailed = reject;
+        });
+        // 启动失败由等待ready的调用方处理，这里避免未处理的拒绝
+        ready.catch(() => { /* 由调用方处理 */ });
+
+        const handle: WorkerHandle = {
+            workerId,
+            worker,
+            status: 'starting',
+            ready,
+            instances: new Map(),
+            statuses: new Map(),
+            pending: new Map(),
+            startedAt: Date.now(),
+            pingSentAt: null,
+            syncedState: null,
+            idleTimer: null,
+            terminating: false
+        };
+        this.workers.set(workerId, handle);
+
+        const startupTimer = setTimeout(() => {
+            const error = new Error(`策略工作线程启动超时: ${workerId} (${this.config.startupTimeout}ms)`);
+            markFailed(error);
+            this.failWorker(handle, error.message).catch(() => { /* 已记录 */ });
+        }, this.config.startupTimeout);
+
+        worker.on('message', (message: WorkerToMainMessage) => {
+            if (message.kind === 'ready') {
+                clearTimeout(startupTimer);
+                handle.status = 'ready';
+                this.syncState(handle);
+                markReady();
+                this.logger.logSystem('INFO', `[StrategyWorkerPool] 工作线程已就绪: ${workerId} (threadId: ${worker.threadId})`);
+                return;
+            }
+            this.handleMessage(handle, message).catch(error =>
+                this.logger.logError('strategy-worker-pool', `[StrategyWorkerPool] 处理工作线程消息失败: ${workerId} ${message.kind}`, error as Error)
+            );
+        });
+        worker.on('error', error => {
+            clearTimeout(startupTimer);
+            markFailed(error);
+            this.failWorker(handle, `未捕获的异常: ${error.message}`).catch(() => { /* 已记录 */ });
+        });
+        worker.on('exit', code => {
+            clearTimeout(startupTimer);
+            const error = new Error(`策略工作线程已退出: ${workerId} (退出码: ${code})`);
+            markFailed(error);
+            if (handle.terminating) {
+                this.workers.delete(workerId);
+                return;
+            }
+            this.failWorker(handle, error.message).catch(() => { /* 已记录 */ });
+        });
+
+        this.logger.logSystem('INFO', `[StrategyWorkerPool] 启动工作线程: ${workerId}`);
+        return handle;
+    }
+
+    private createWorker(workerData: StrategyWorkerData): Worker {
+        const entry = path.join(__dirname, `strategy-worker${path.extname(__filename)}`);
+        const options = {
+            workerData,
+            resourceLimits: { maxOldGenerationSizeMb: this.config.maxOldGenerationSizeMb }
+        };
+
+        // 开发模式（ts-node）下工作线程需要自行注册TypeScript编译
+        if (entry.endsWith('.ts')) {
+            return new Worker(`require('ts-node').register({ transpileOnly: true }); require(${JSON.stringify(entry)});`, { ...options, eval: true });
+        }
+        return new Worker(entry, options);
+    }
+
+    private async handleMessage(handle: WorkerHandle, message: WorkerToMainMessage): Promise<void> {
+        switch (message.kind) {
+            case 'result': {
+                const pending = handle.pending.get(message.id);
+                if (!pending) return;
+                handle.pending.delete(message.id);
+                clearTimeout(pending.timer);
+                if (message.error !== undefined) {
+                    pending.reject(new Error(message.error));
+                } else {
+                    pending.resolve(message.result);
+                }
+                return;
+            }
+
+            case 'pong':
+                if (handle.pingSentAt !== null) {
+                    handle.heartbeatLatencyMs = Date.now() - handle.pingSentAt;
+                }
+                handle.pingSentAt = null;
+                handle.lastHeartbeatAt = Date.now();
+                for (const [instanceId, status] of Object.entries(message.statuses)) {
+                    if (handle.instances.has(instanceId)) {
+                        handle.statuses.set(instanceId, status);
+                    }
+                }
+                return;
+
+            case 'event':
+                await this.eventBus.publish(message.event, message.data, 'StrategyWorker');
+                return;
+
+            case 'host-call': {
+                let reply: MainToWorkerMessage;
+                try {
+                    const result = await this.handleHostCall(message.method, message.args);
+                    reply = { kind: 'host-result', id: message.id, result };
+                } catch (error) {
+                    reply = { kind: 'host-result', id: message.id, error: error instanceof Error ? error.message : String(error) };
+                }
+                this.post(handle, reply);
+                return;
+            }
+        }
+    }
+
+    /**
+     * 工作线程调用主线程服务：事件日志和操作历史的序号由主线程统一分配
+     */
+    private async handleHostCall(method: string, args: unknown[]): Promise<unknown> {
+        switch (method) {
+            case 'journal.append':
+                return await this.journal.append(...(args as Parameters<StrategyJournal['append']>));
+            case 'performance.record':
+                return await this.performance.record(...(args as Parameters<StrategyPerformanceService['record']>));
+            case 'manager.stopInstance':
+                if (!this.stopInstanceCallback) {
+                    throw new Error('停止实例回调未设置');
+                }
+                return await this.stopInstanceCallback(args[0] as string);
+            default:
+                throw new Error(`不支持的主线程调用: ${method}`);
+        }
+    }
+
+    private call(handle: WorkerHandle, type: string, method: StrategyWorkerMethod, args: unknown[]): Promise<unknown> {
+        if (handle.status === 'failed' || handle.terminating) {
+            return Promise.reject(new Error(`策略工作线程不可用: ${handle.workerId}`));
+        }
+
+        // 调用前同步钱包/暂停/紧急模式，保证一键平仓等操作使用主线程的最新状态
+        this.syncState(handle);
+
+        const id = ++this.messageCounter;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                handle.pending.delete(id);
+                reject(new Error(`策略工作线程调用超时: ${method} (${this.config.callTimeout}ms)`));
+            }, this.config.callTimeout);
+            handle.pending.set(id, { resolve, reject, timer });
+            this.post(handle, { kind: 'call', id, type, method, args });
+        });
+    }
+
+    /**
+     * 暂停/一键平仓/钱包状态变化时立即同步所有工作线程，不等下一次调用或心跳
+     */
+    private syncAllWorkers(): void {
+        for (const handle of Array.from(this.workers.values())) {
+            this.syncState(handle);
+        }
+    }
+
+    /**
+     * 把主线程的运行时状态同步给工作线程（只在变化时发送）
+     */
+    private syncState(handle: WorkerHandle): void {
+        if (handle.status !== 'ready') return;
+
+        const keypair = this.walletService.isWalletUnlocked() ? this.walletService.getCurrentKeypair() : null;
+        const halt = this.riskBudget.getHalt();
+        const emergencyMode = this.gasService.isEmergencyModeActive();
+        const fingerprint = JSON.stringify([keypair?.publicKey.toBase58() || null, halt, emergencyMode]);
+        if (fingerprint === handle.syncedState) return;
+
+        this.post(handle, {
+            kind: 'sync',
+            state: {
+                walletSecretKey: keypair ? Uint8Array.from(keypair.secretKey) : null,
+                halt,
+                emergencyMode
+            }
+        });
+        handle.syncedState = fingerprint;
+    }
+
+    /**
+     * 💓 心跳：超过 heartbeatTimeout 未响应的工作线程视为卡死并终止
+     */
+    private async checkHeartbeats(): Promise<void> {
+        const now = Date.now();
+        for (const handle of Array.from(this.workers.values())) {
+            if (handle.status !== 'ready' || handle.terminating) continue;
+
+            if (handle.pingSentAt !== null) {
+                if (now - handle.pingSentAt > this.config.heartbeatTimeout) {
+                    await this.failWorker(handle, `心跳超时 (${Math.round((now - handle.pingSentAt) / 1000)}秒未响应)`);
+                }
+                continue;
+            }
+
+            this.syncState(handle);
+            handle.pingSentAt = now;
+            this.post(handle, {
+                kind: 'ping',
+                id: ++this.messageCounter,
+                instances: Array.from(handle.instances.entries()).map(([instanceId, type]) => ({ instanceId, type }))
+            });
+        }
+    }
+
+    /**
+     * 💥 工作线程崩溃/卡死：终止线程，拒绝未完成的调用，通知StrategyManager处理受影响的实例
+     */
+    private async failWorker(handle: WorkerHandle, reason: string): Promise<void> {
+        if (handle.status === 'failed') return;
+
+        const wasReady = handle.status === 'ready';
+        handle.status = 'failed';
+        if (handle.idleTimer) {
+            clearTimeout(handle.idleTimer);
+            handle.idleTimer = null;
+        }
+        this.rejectPending(handle, `策略工作线程已失效: ${reason}`);
+
+        const instanceIds = Array.from(handle.instances.keys());
+        instanceIds.forEach(instanceId => this.assignments.delete(instanceId));
+        handle.instances.clear();
+        this.workers.delete(handle.workerId);
+
+        handle.terminating = true;
+        await handle.worker.terminate().catch(() => undefined);
+
+        await this.logger.logError('strategy-worker-pool',
+            `[StrategyWorkerPool] 💥 工作线程失效: ${handle.workerId} - ${reason} (受影响实例: ${instanceIds.join(', ') || '无'})`,
+            new Error(reason));
+
+        if (!wasReady || instanceIds.length === 0) return;
+
+        if (this.workerFailureCallback) {
+            try {
+                await this.workerFailureCallback(instanceIds, reason);
+            } catch (error) {
+                await this.logger.logError('strategy-worker-pool', '[StrategyWorkerPool] 处理工作线程失效失败', error as Error);
+            }
+        }
+        for (const instanceId of instanceIds) {
+            await this.eventBus.publish('strategy.status.update', {
+                instanceId,
+                status: 'error',
+                reason: 'worker_failed',
+                message: `策略工作线程失效: ${reason}`,
+                timestamp: Date.now()
+            }, 'StrategyWorkerPool');
+        }
+    }
+
+    private async terminateWorker(handle: WorkerHandle, reason: string): Promise<void> {
+        if (handle.terminating) return;
+
+        handle.terminating = true;
+        if (handle.idleTimer) {
+            clearTimeout(handle.idleTimer);
+            handle.idleTimer = null;
+        }
+        this.rejectPending(handle, reason);
+        Array.from(handle.instances.keys()).forEach(instanceId => this.assignments.delete(instanceId));
+        handle.instances.clear();
+
+        await handle.worker.terminate().catch(() => undefined);
+        this.workers.delete(handle.workerId);
+        await this.logger.logSystem('INFO', `[StrategyWorkerPool] 工作线程已退出: ${handle.workerId} (${reason})`);
+    }
+
+    private rejectPending(handle: WorkerHandle, reason: string): void {
+        for (const pending of handle.pending.values()) {
+            clearTimeout(pending.timer);
+            pending.reject(new Error(reason));
+        }
+        handle.pending.clear();
+    }
+
+    private post(handle: WorkerHandle, message: MainToWorkerMessage): void {
+        try {
+            handle.worker.postMessage(message);
+        } catch (error) {
+            this.logger.logError('strategy-worker-pool', `[StrategyWorkerPool] 发送消息失败: ${handle.workerId} ${message.kind}`, error as Error);
+        }
+    }
+}
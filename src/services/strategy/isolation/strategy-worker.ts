@@ -0,0 +1,243 @@
+/**
+ * 🧵 策略工作线程入口
+ *
+ * 由 StrategyWorkerPool 启动。每个工作线程初始化自己的依赖注入容器和区块链/外部服务，
+ * 解析内置策略执行器，执行主线程转发的调用并回传结果。
+ * 事件日志、操作历史和停止实例转发给主线程处理，保证序号和实例状态只由主线程维护。
+ */
+
+import 'reflect-metadata';
+import { parentPort, workerData } from 'worker_threads';
+import { container } from 'tsyringe';
+import { diContainer } from '../../../di/container';
+import { TYPES, ILoggerService, IConfigService, IEventBus, IGasService } from '../../../types/interfaces';
+import { IStrategyExecutor, ExecutorStatus } from '../StrategyRegistry';
+import { StrategyJournal, StrategyJournalEntry, StrategyJournalEntryType } from '../storage/StrategyJournal';
+import { StrategyOperationHistory } from '../storage/StrategyOperationHistory';
+import { StrategyPerformanceService, StrategyOperationInput } from '../StrategyPerformanceService';
+import { RiskBudgetService } from '../RiskBudgetService';
+import { PaperTradingService } from '../../business/PaperTradingService';
+import { WalletService } from '../../blockchain/WalletService';
+import { StrategyOperationType } from '../../../types/strategy';
+import { WORKER_EXECUTOR_TOKENS, StrategyWorkerData, StrategyWorkerHostMethod, StrategyWorkerRuntimeState, MainToWorkerMessage, WorkerToMainMessage } from './types';
+
+type HostCaller = (method: StrategyWorkerHostMethod, args: unknown[]) => Promise<unknown>;
+
+/**
+ * 事件日志：写入转发到主线程，读取（崩溃恢复的状态快照）直接读文件
+ */
+class HostStrategyJournal extends StrategyJournal {
+    constructor(private workerLogger: ILoggerService, private callHost: HostCaller) {
+        super(workerLogger);
+    }
+
+    override async append(instanceId: string, type: StrategyJournalEntryType, event: string, data?: any): Promise<StrategyJournalEntry | null> {
+        try {
+            return await this.callHost('journal.append', [instanceId, type, event, data]) as StrategyJournalEntry | null;
+        } catch (error) {
+            await this.workerLogger.logError('strategy-worker', `[StrategyWorker] 转发事件日志失败: ${instanceId} ${event}`, error as Error);
+            return null;
+        }
+    }
+}
+
+/**
+ * 操作历史：记录转发到主线程（盈亏快照由主线程的事件订阅维护）
+ */
+class HostStrategyPerformanceService extends StrategyPerformanceService {
+    constructor(
+        private workerLogger: ILoggerService,
+        eventBus: IEventBus,
+        history: StrategyOperationHistory,
+        paperTradingService: PaperTradingService,
+        private callHost: HostCaller
+    ) {
+        super(workerLogger, eventBus, history, paperTradingService);
+    }
+
+    override async record(instanceId: string, type: StrategyOperationType, input: StrategyOperationInput): Promise<void> {
+        try {
+            await this.callHost('performance.record', [instanceId, type, input]);
+        } catch (error) {
+            await this.workerLogger.logError('strategy-worker', `[StrategyWorker] 转发操作记录失败: ${instanceId} ${type}`, error as Error);
+        }
+    }
+}
+
+class StrategyWorkerRuntime {
+    private executors: Map<string, IStrategyExecutor> = new Map();
+    private hostCalls: Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }> = new Map();
+    private hostCallCounter = 0;
+    private logger!: ILoggerService;
+
+    constructor(private data: StrategyWorkerData) { }
+
+    async start(): Promise<void> {
+        parentPort!.on('message', (message: MainToWorkerMessage) => {
+            this.handleMessage(message).catch(error =>
+                this.logger?.logError('strategy-worker', `[StrategyWorker] 处理消息失败: ${message.kind}`, error as Error)
+            );
+        });
+
+        diContainer.initialize();
+        this.logger = container.resolve<ILoggerService>(TYPES.LoggerService);
+        await container.resolve<IConfigService>(TYPES.ConfigService).load();
+
+        // 需要由主线程统一维护的服务
+        const callHost: HostCaller = (method, args) => this.callHost(method, args);
+        container.registerInstance(TYPES.StrategyJournal, new HostStrategyJournal(this.logger, callHost));
+        container.registerInstance(TYPES.StrategyPerformanceService, new HostStrategyPerformanceService(
+            this.logger,
+            container.resolve<IEventBus>(TYPES.EventBus),
+            container.resolve<StrategyOperationHistory>(TYPES.StrategyOperationHistory),
+            container.resolve(PaperTradingService),
+            callHost
+        ));
+        container.registerInstance(TYPES.StrategyManager, {
+            stopInstance: (instanceId: string) => callHost('manager.stopInstance', [instanceId])
+        });
+
+        await this.initializeServices();
+
+        for (const type of this.data.strategyTypes) {
+            const token = WORKER_EXECUTOR_TOKENS[type];
+            if (token) {
+                this.executors.set(type, container.resolve<IStrategyExecutor>(token));
+            }
+        }
+
+        const eventBus = container.resolve<IEventBus>(TYPES.EventBus);
+        for (const event of this.data.forwardedEvents) {
+            eventBus.subscribe(event, (data: any) => {
+                try {
+                    this.post({ kind: 'event', event, data: StrategyWorkerRuntime.toMessageData(data) });
+                } catch (error) {
+                    this.logger.logSystem('WARN', `[StrategyWorker] 事件无法转发到主线程: ${event} - ${(error as Error).message}`);
+                }
+            });
+        }
+
+        await this.logger.logSystem('INFO', `[StrategyWorker] 🧵 工作线程 ${this.data.workerId} 已就绪 (类型: ${Array.from(this.executors.keys()).join(', ')})`);
+        this.post({ kind: 'ready' });
+    }
+
+    /**
+     * 初始化执行器依赖的区块链和外部服务（与API服务器启动时相同）
+     */
+    private async initializeServices(): Promise<void> {
+        const services: [string, symbol][] = [
+            ['wallet', TYPES.WalletService],
+            ['solanaWeb3', TYPES.SolanaWeb3Service],
+            ['multiRPC', TYPES.MultiRPCService],
+            ['gas', TYPES.GasService],
+            ['jupiter', TYPES.JupiterService],
+            ['meteora', TYPES.MeteoraService],
+            ['helius', TYPES.HeliusService]
+        ];
+
+        for (const [name, token] of services) {
+            try {
+                const service = container.resolve<any>(token);
+                if (typeof service.initialize === 'function') {
+                    await service.initialize({});
+                }
+            } catch (error) {
+                await this.logger.logError('strategy-worker', `[StrategyWorker] ⚠️ ${name} 服务初始化失败`, error as Error);
+            }
+        }
+
+        // GasService 需要定时更新优先费用
+        const gasService = container.resolve<IGasService>(TYPES.GasService);
+        await gasService.start();
+    }
+
+    private async handleMessage(message: MainToWorkerMessage): Promise<void> {
+        switch (message.kind) {
+            case 'call': {
+                let reply: WorkerToMainMessage;
+                try {
+                    const executor = this.executors.get(message.type) as (IStrategyExecutor & Record<string, any>) | undefined;
+                    if (!executor) {
+                        throw new Error(`工作线程不支持的策略类型: ${message.type}`);
+                    }
+                    if (typeof executor[message.method] !== 'function') {
+                        throw new Error(`策略类型 ${message.type} 不支持 ${message.method}`);
+                    }
+                    const result = await executor[message.method](...message.args);
+                    reply = { kind: 'result', id: message.id, result: StrategyWorkerRuntime.toMessageData(result) };
+                } catch (error) {
+                    reply = { kind: 'result', id: message.id, error: error instanceof Error ? error.message : String(error) };
+                }
+                this.post(reply);
+                return;
+            }
+
+            case 'sync':
+                this.applyRuntimeState(message.state);
+                return;
+
+            case 'ping': {
+                const statuses: Record<string, ExecutorStatus> = {};
+                for (const { instanceId, type } of message.instances) {
+                    const executor = this.executors.get(type);
+                    if (executor) {
+                        statuses[instanceId] = StrategyWorkerRuntime.toMessageData(executor.getStatus(instanceId)) as ExecutorStatus;
+                    }
+                }
+                this.post({ kind: 'pong', id: message.id, statuses });
+                return;
+            }
+
+            case 'host-result': {
+                const pending = this.hostCalls.get(message.id);
+                if (!pending) return;
+                this.hostCalls.delete(message.id);
+                if (message.error !== undefined) {
+                    pending.reject(new Error(message.error));
+                } else {
+                    pending.resolve(message.result);
+                }
+                return;
+            }
+        }
+    }
+
+    private applyRuntimeState(state: StrategyWorkerRuntimeState): void {
+        container.resolve<WalletService>(TYPES.WalletService).syncKeypair(state.walletSecretKey);
+        container.resolve<RiskBudgetService>(TYPES.RiskBudgetService).syncHalt(state.halt);
+
+        const gasService = container.resolve<IGasService>(TYPES.GasService);
+        if (state.emergencyMode && !gasService.isEmergencyModeActive()) {
+            gasService.activateEmergencyMode().catch(() => undefined);
+        } else if (!state.emergencyMode) {
+            gasService.deactivateEmergencyMode();
+        }
+    }
+
+    private callHost(method: StrategyWorkerHostMethod, args: unknown[]): Promise<unknown> {
+        const id = ++this.hostCallCounter;
+        return new Promise((resolve, reject) => {
+            this.hostCalls.set(id, { resolve, reject });
+            this.post({ kind: 'host-call', id, method, args: args.map(arg => StrategyWorkerRuntime.toMessageData(arg)) });
+        });
+    }
+
+    private post(message: WorkerToMainMessage): void {
+        parentPort!.postMessage(message);
+    }
+
+    /**
+     * 转换为可以跨线程传递的纯数据（去掉函数和类实例，BigInt转为字符串）
+     */
+    private static toMessageData(value: unknown): unknown {
+        if (value === undefined) return undefined;
+        return JSON.parse(JSON.stringify(value, (_key, item) => typeof item === 'bigint' ? item.toString() : item));
+    }
+}
+
+if (parentPort) {
+    new StrategyWorkerRuntime(workerData as StrategyWorkerData).start().catch(error => {
+        console.error('❌ [StrategyWorker] 工作线程启动失败:', error);
+        process.exit(1);
+    });
+}
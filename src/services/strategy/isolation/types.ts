@@ -0,0 +1,58 @@
+/**
+ * 策略工作线程消息协议
+ *
+ * 主线程 → 工作线程：执行器调用、运行时状态同步、心跳
+ * 工作线程 → 主线程：调用结果、事件转发、宿主服务调用（事件日志/操作历史/停止实例）
+ */
+
+import { TYPES } from '../../../types/interfaces';
+import { DeploymentHalt } from '../RiskBudgetService';
+import { ExecutorStatus } from '../StrategyRegistry';
+
+// 可以在工作线程运行的内置策略类型（插件策略只在主线程加载）
+export const WORKER_EXECUTOR_TOKENS: Record<string, symbol> = {
+    'chain_position': TYPES.ChainPositionExecutor,
+    'simple-y': TYPES.SimpleYExecutor,
+    'dual-position': TYPES.DualPositionExecutor,
+    'price-trigger': TYPES.PriceTriggerExecutor
+};
+
+// 主线程可以转发给工作线程执行器的方法
+export type StrategyWorkerMethod =
+    | 'execute'
+    | 'cleanup'
+    | 'stop'
+    | 'setInstanceConfig'
+    | 'applyHotConfig'
+    | 'executeManualStopLoss'
+    | 'recoverInstance';
+
+// 工作线程可以调用的主线程服务
+export type StrategyWorkerHostMethod = 'journal.append' | 'performance.record' | 'manager.stopInstance';
+
+// 主线程同步给工作线程的运行时状态
+export interface StrategyWorkerRuntimeState {
+    walletSecretKey: Uint8Array | null;      // 主线程钱包已解锁时的私钥（锁定时为null）
+    halt: DeploymentHalt | null;             // 风险预算/一键平仓的新资金投入暂停状态
+    emergencyMode: boolean;                  // 一键平仓期间的紧急优先费用模式
+}
+
+// 工作线程启动参数（workerData）
+export interface StrategyWorkerData {
+    workerId: string;
+    strategyTypes: string[];
+    forwardedEvents: string[];
+}
+
+export type MainToWorkerMessage =
+    | { kind: 'call'; id: number; type: string; method: StrategyWorkerMethod; args: unknown[] }
+    | { kind: 'sync'; state: StrategyWorkerRuntimeState }
+    | { kind: 'ping'; id: number; instances: { instanceId: string; type: string }[] }
+    | { kind: 'host-result'; id: number; result?: unknown; error?: string };
+
+export type WorkerToMainMessage =
+    | { kind: 'ready' }
+    | { kind: 'result'; id: number; result?: unknown; error?: string }
+    | { kind: 'pong'; id: number; statuses: Record<string, ExecutorStatus> }
+    | { kind: 'event'; event: string; data: unknown }
+    | { kind: 'host-call'; id: number; method: StrategyWorkerHostMethod; args: unknown[] };
@@ -0,0 +1,109 @@
+import 'reflect-metadata';
+import { injectable, inject } from 'tsyringe';
+import { TYPES, ILoggerService } from '../../../types/interfaces';
+import { StrategyConfigVersion } from '../../../types/strategy';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * 🗂️ 策略配置版本历史
+ *
+ * 每个实例一个 JSON 文件（data/strategies/config-history/<instanceId>.json），
+ * 保存全部配置版本，用于查看变更记录和回滚。
+ */
+@injectable()
+export class StrategyConfigHistory {
+    private historyPath: string;
+    private initialized = false;
+    private writeQueues: Map<string, Promise<void>> = new Map(); // 🔒 同一实例的写入串行化
+
+    constructor(
+        @inject(TYPES.LoggerService) private logger: ILoggerService
+    ) {
+        this.historyPath = path.join(process.cwd(), 'data', 'strategies', 'config-history');
+    }
+
+    async initialize(): Promise<void> {
+        if (this.initialized) return;
+
+        await fs.mkdir(this.historyPath, { recursive: true });
+        this.initialized = true;
+        await this.logger.logSystem('INFO', `[StrategyConfigHistory] 配置版本历史初始化完成: ${this.historyPath}`);
+    }
+
+    /**
+     * 追加一个配置版本（版本号自动递增）
+     */
+    async append(instanceId: string, version: Omit<StrategyConfigVersion, 'version' | 'createdAt'>): Promise<StrategyConfigVersion> {
+        const previous = this.writeQueues.get(instanceId) || Promise.resolve();
+        let record: StrategyConfigVersion | null = null;
+
+        const current = previous.then(async () => {
+            if (!this.initialized) {
+                await this.initialize();
+            }
+
+            const versions = await this.getVersions(instanceId);
+            record = {
+                ...version,
+                version: versions.length > 0 ? versions[versions.length - 1]!.version + 1 : 1,
+                createdAt: Date.now()
+            };
+            versions.push(record);
+
+            // 🔒 原子写入：先写临时文件，再重命名
+            const filePath = this.getHistoryFilePath(instanceId);
+            const tempPath = filePath + '.tmp';
+            await fs.writeFile(tempPath, JSON.stringify(versions, null, 2), 'utf-8');
+            await fs.rename(tempPath, filePath);
+        });
+
+        // 失败时不阻塞后续写入
+        this.writeQueues.set(instanceId, current.catch(() => undefined));
+        try {
+            await current;
+        } catch (error) {
+            await this.logger.logError('strategy-config-history', `[StrategyConfigHistory] 保存配置版本失败: ${instanceId}`, error as Error);
+            throw error;
+        }
+        return record!;
+    }
+
+    /**
+     * 获取全部配置版本（按版本号升序）
+     */
+    async getVersions(instanceId: string): Promise<StrategyConfigVersion[]> {
+        try {
+            const content = await fs.readFile(this.getHistoryFilePath(instanceId), 'utf-8');
+            return JSON.parse(content) as StrategyConfigVersion[];
+        } catch (error) {
+            if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+    }
+
+    async getVersion(instanceId: string, version: number): Promise<StrategyConfigVersion | null> {
+        const versions = await this.getVersions(instanceId);
+        return versions.find(v => v.version === version) || null;
+    }
+
+    async deleteHistory(instanceId: string): Promise<void> {
+        await this.writeQueues.get(instanceId);
+        this.writeQueues.delete(instanceId);
+
+        try {
+            await fs.unlink(this.getHistoryFilePath(instanceId));
+        } catch (error) {
+            if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+                return;
+            }
+            await this.logger.logError('strategy-config-history', `[StrategyConfigHistory] 删除配置版本历史失败: ${instanceId}`, error as Error);
+        }
+    }
+
+    private getHistoryFilePath(instanceId: string): string {
+        return path.join(this.historyPath, `${instanceId}.json`);
+    }
+}
@@ -0,0 +1,57 @@
+import 'reflect-metadata';
+import { injectable, inject } from 'tsyringe';
+import { TYPES, ILoggerService } from '../../../types/interfaces';
+import { StrategyGroup } from '../../../types/strategy';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * 🗃️ 策略分组存储
+ *
+ * 所有分组保存在一个 JSON 文件中（data/strategy-groups.json），
+ * 不放在 data/strategies 下，避免被当作策略实例加载。
+ */
+@injectable()
+export class StrategyGroupStorage {
+    private filePath: string;
+    private writeQueue: Promise<void> = Promise.resolve(); // 🔒 写入串行化
+
+    constructor(
+        @inject(TYPES.LoggerService) private logger: ILoggerService
+    ) {
+        this.filePath = path.join(process.cwd(), 'data', 'strategy-groups.json');
+    }
+
+    async loadGroups(): Promise<StrategyGroup[]> {
+        try {
+            const content = await fs.readFile(this.filePath, 'utf-8');
+            return JSON.parse(content) as StrategyGroup[];
+        } catch (error) {
+            if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+                return [];
+            }
+            await this.logger.logError('strategy-group-storage', '[StrategyGroupStorage] 加载策略分组失败', error as Error);
+            return [];
+        }
+    }
+
+    async saveGroups(groups: StrategyGroup[]): Promise<void> {
+        const content = JSON.stringify(groups, null, 2);
+        const current = this.writeQueue.then(async () => {
+            // 🔒 原子写入：先写临时文件，再重命名
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            const tempPath = this.filePath + '.tmp';
+            await fs.writeFile(tempPath, content, 'utf-8');
+            await fs.rename(tempPath, this.filePath);
+        });
+
+        // 失败时不阻塞后续写入
+        this.writeQueue = current.catch(() => undefined);
+        try {
+            await current;
+        } catch (error) {
+            await this.logger.logError('strategy-group-storage', '[StrategyGroupStorage] 保存策略分组失败', error as Error);
+            throw error;
+        }
+    }
+}
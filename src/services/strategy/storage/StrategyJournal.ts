@@ -0,0 +1,166 @@
+import 'reflect-metadata';
+import { injectable, inject } from 'tsyringe';
+import { TYPES, ILoggerService } from '../../../types/interfaces';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * 日志条目类型
+ * - status: 策略实例状态变化（启动/暂停/恢复/停止）
+ * - state:  执行器状态快照（恢复时以最后一条快照为准）
+ * - action: 链上操作记录（创建/关闭头寸、代币交换）
+ * - recovery: 崩溃恢复结果
+ * - config: 配置更新/回滚
+ */
+export type StrategyJournalEntryType = 'status' | 'state' | 'action' | 'recovery' | 'config';
+
+export interface StrategyJournalEntry {
+    seq: number;
+    timestamp: number;
+    instanceId: string;
+    type: StrategyJournalEntryType;
+    event: string;
+    data?: any;
+}
+
+/**
+ * 📓 策略实例事件日志
+ *
+ * 每个实例一个只追加的 JSONL 文件（data/strategies/journal/<instanceId>.jsonl），
+ * 每次追加后 fsync，进程崩溃时最多丢失写到一半的最后一行，读取时跳过无法解析的行。
+ */
+@injectable()
+export class StrategyJournal {
+    private journalPath: string;
+    private initialized = false;
+    private sequences: Map<string, number> = new Map();
+    private writeQueues: Map<string, Promise<void>> = new Map(); // 🔒 同一实例的写入串行化
+
+    constructor(
+        @inject(TYPES.LoggerService) private logger: ILoggerService
+    ) {
+        this.journalPath = path.join(process.cwd(), 'data', 'strategies', 'journal');
+    }
+
+    async initialize(): Promise<void> {
+        if (this.initialized) return;
+
+        await fs.mkdir(this.journalPath, { recursive: true });
+        this.initialized = true;
+        await this.logger.logSystem('INFO', `[StrategyJournal] 事件日志初始化完成: ${this.journalPath}`);
+    }
+
+    /**
+     * 追加一条日志（写入失败只记录错误，不影响策略执行）
+     */
+    async append(instanceId: string, type: StrategyJournalEntryType, event: string, data?: any): Promise<StrategyJournalEntry | null> {
+        const previous = this.writeQueues.get(instanceId) || Promise.resolve();
+        let entry: StrategyJournalEntry | null = null;
+
+        const current = previous.then(async () => {
+            try {
+                if (!this.initialized) {
+                    await this.initialize();
+                }
+
+                const seq = (await this.getLastSequence(instanceId)) + 1;
+                entry = {
+                    seq,
+                    timestamp: Date.now(),
+                    instanceId,
+                    type,
+                    event,
+                    ...(data !== undefined && { data })
+                };
+
+                const handle = await fs.open(this.getJournalFilePath(instanceId), 'a');
+                try {
+                    await handle.appendFile(JSON.stringify(entry) + '\n', 'utf-8');
+                    await handle.sync();
+                } finally {
+                    await handle.close();
+                }
+
+                this.sequences.set(instanceId, seq);
+            } catch (error) {
+                entry = null;
+                await this.logger.logError('strategy-journal', `[StrategyJournal] 写入事件日志失败: ${instanceId} ${event}`, error as Error);
+            }
+        });
+
+        this.writeQueues.set(instanceId, current);
+        await current;
+        if (this.writeQueues.get(instanceId) === current) {
+            this.writeQueues.delete(instanceId);
+        }
+        return entry;
+    }
+
+    /**
+     * 读取日志（按seq升序）
+     */
+    async read(instanceId: string, options: { limit?: number; type?: StrategyJournalEntryType } = {}): Promise<StrategyJournalEntry[]> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.getJournalFilePath(instanceId), 'utf-8');
+        } catch (error) {
+            if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const entries: StrategyJournalEntry[] = [];
+        for (const line of content.split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                const entry = JSON.parse(line) as StrategyJournalEntry;
+                if (!options.type || entry.type === options.type) {
+                    entries.push(entry);
+                }
+            } catch (error) {
+                // 崩溃时写到一半的行，直接跳过
+            }
+        }
+
+        return options.limit && options.limit > 0 ? entries.slice(-options.limit) : entries;
+    }
+
+    /**
+     * 获取最后一条状态快照
+     */
+    async getLastSnapshot(instanceId: string): Promise<StrategyJournalEntry | null> {
+        const snapshots = await this.read(instanceId, { type: 'state' });
+        return snapshots.length > 0 ? snapshots[snapshots.length - 1]! : null;
+    }
+
+    async deleteJournal(instanceId: string): Promise<void> {
+        await this.writeQueues.get(instanceId);
+        this.sequences.delete(instanceId);
+
+        try {
+            await fs.unlink(this.getJournalFilePath(instanceId));
+        } catch (error) {
+            if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+                return;
+            }
+            await this.logger.logError('strategy-journal', `[StrategyJournal] 删除事件日志失败: ${instanceId}`, error as Error);
+        }
+    }
+
+    private async getLastSequence(instanceId: string): Promise<number> {
+        const cached = this.sequences.get(instanceId);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const entries = await this.read(instanceId);
+        const last = entries.length > 0 ? entries[entries.length - 1]!.seq : 0;
+        this.sequences.set(instanceId, last);
+        return last;
+    }
+
+    private getJournalFilePath(instanceId: string): string {
+        return path.join(this.journalPath, `${instanceId}.jsonl`);
+    }
+}
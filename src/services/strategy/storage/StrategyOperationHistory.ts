@@ -0,0 +1,130 @@
+import 'reflect-metadata';
+import { injectable, inject } from 'tsyringe';
+import { TYPES, ILoggerService } from '../../../types/interfaces';
+import { StrategyOperationRecord } from '../../../types/strategy';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * 📒 策略实例操作历史
+ *
+ * 每个实例一个只追加的 JSONL 文件（data/strategies/operations/<instanceId>.jsonl），
+ * 记录创建/关闭头寸、代币兑换、收益提取、止损和头寸重建，写入方式与 StrategyJournal 相同。
+ */
+@injectable()
+export class StrategyOperationHistory {
+    private historyPath: string;
+    private initialized = false;
+    private sequences: Map<string, number> = new Map();
+    private writeQueues: Map<string, Promise<void>> = new Map(); // 🔒 同一实例的写入串行化
+
+    constructor(
+        @inject(TYPES.LoggerService) private logger: ILoggerService
+    ) {
+        this.historyPath = path.join(process.cwd(), 'data', 'strategies', 'operations');
+    }
+
+    async initialize(): Promise<void> {
+        if (this.initialized) return;
+
+        await fs.mkdir(this.historyPath, { recursive: true });
+        this.initialized = true;
+        await this.logger.logSystem('INFO', `[StrategyOperationHistory] 操作历史初始化完成: ${this.historyPath}`);
+    }
+
+    /**
+     * 追加一条操作记录（写入失败只记录错误，不影响策略执行）
+     */
+    async append(record: Omit<StrategyOperationRecord, 'seq'>): Promise<StrategyOperationRecord | null> {
+        const instanceId = record.instanceId;
+        const previous = this.writeQueues.get(instanceId) || Promise.resolve();
+        let entry: StrategyOperationRecord | null = null;
+
+        const current = previous.then(async () => {
+            try {
+                if (!this.initialized) {
+                    await this.initialize();
+                }
+
+                const seq = (await this.getLastSequence(instanceId)) + 1;
+                entry = { seq, ...record };
+
+                const handle = await fs.open(this.getHistoryFilePath(instanceId), 'a');
+                try {
+                    await handle.appendFile(JSON.stringify(entry) + '\n', 'utf-8');
+                    await handle.sync();
+                } finally {
+                    await handle.close();
+                }
+
+                this.sequences.set(instanceId, seq);
+            } catch (error) {
+                entry = null;
+                await this.logger.logError('strategy-operation-history', `[StrategyOperationHistory] 写入操作历史失败: ${instanceId} ${record.type}`, error as Error);
+            }
+        });
+
+        this.writeQueues.set(instanceId, current);
+        await current;
+        if (this.writeQueues.get(instanceId) === current) {
+            this.writeQueues.delete(instanceId);
+        }
+        return entry;
+    }
+
+    /**
+     * 读取全部操作记录（按seq升序）
+     */
+    async read(instanceId: string): Promise<StrategyOperationRecord[]> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.getHistoryFilePath(instanceId), 'utf-8');
+        } catch (error) {
+            if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const records: StrategyOperationRecord[] = [];
+        for (const line of content.split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                records.push(JSON.parse(line) as StrategyOperationRecord);
+            } catch (error) {
+                // 崩溃时写到一半的行，直接跳过
+            }
+        }
+        return records;
+    }
+
+    async deleteHistory(instanceId: string): Promise<void> {
+        await this.writeQueues.get(instanceId);
+        this.sequences.delete(instanceId);
+
+        try {
+            await fs.unlink(this.getHistoryFilePath(instanceId));
+        } catch (error) {
+            if (error && typeof error === 'object' && 'code' in error && error.code === 'ENOENT') {
+                return;
+            }
+            await this.logger.logError('strategy-operation-history', `[StrategyOperationHistory] 删除操作历史失败: ${instanceId}`, error as Error);
+        }
+    }
+
+    private async getLastSequence(instanceId: string): Promise<number> {
+        const cached = this.sequences.get(instanceId);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const records = await this.read(instanceId);
+        const last = records.length > 0 ? records[records.length - 1]!.seq : 0;
+        this.sequences.set(instanceId, last);
+        return last;
+    }
+
+    private getHistoryFilePath(instanceId: string): string {
+        return path.join(this.historyPath, `${instanceId}.jsonl`);
+    }
+}
@@ -186,6 +186,7 @@ export interface PositionSetupParams {
     poolAddress: string;              // 池子地址
     positionAddresses: string[];      // 头寸地址数组
     initialInvestmentAmount: string;  // 初始投入Y代币数量
+    monitoredRange?: [number, number]; // 智能止损使用的监控范围，未设置时取所有头寸的合并范围
 
     // 可选配置参数
     config?: Partial<AnalyticsConfig>;
@@ -236,6 +237,21 @@ export interface AnalyticsReport {
 
     // 警报状态
     alerts: AnalyticsAlert[];
+
+    // 对冲统计（未发生对冲时不设置）
+    hedging?: HedgeStatistics;
+}
+
+/**
+ * 对冲统计 - 卖出头寸中累积的X代币，对冲成本单独统计
+ */
+export interface HedgeStatistics {
+    hedgeCount: number;          // 对冲次数
+    totalInputX: number;         // 累计卖出的X代币
+    totalOutputY: number;        // 累计得到的Y代币
+    totalCostY: number;          // 累计对冲成本：卖出时按池子价格计算的X价值 - 实际得到的Y（含滑点和兑换手续费）
+    lastHedgeAt: number | null;  // 最近一次对冲时间
+    unsoldX?: number;            // 已从头寸移除但兑换失败的X代币，每个监控周期重试卖出
 }
 
 /**
@@ -0,0 +1,69 @@
+/**
+ * 认证与权限类型定义
+ * API和Socket.IO使用同一套JWT令牌，按角色控制访问范围
+ */
+
+/**
+ * 用户角色（权限从低到高）
+ * - viewer: 只读查看仪表盘
+ * - operator: 控制策略、头寸和爬虫
+ * - admin: 钱包导入/删除、配置变更和用户管理
+ */
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'operator', 'admin'];
+
+/**
+ * 持久化的操作员账户（data/auth-users.json）
+ */
+export interface AuthUserRecord {
+    username: string;
+    passwordHash: string;       // bcrypt哈希
+    role: UserRole;
+    disabled: boolean;
+    tokenVersion: number;       // 修改密码、角色或禁用时递增，使已签发的令牌失效
+    createdAt: number;
+    updatedAt: number;
+    lastLoginAt?: number;
+}
+
+/**
+ * 对外暴露的用户信息（不含密码哈希）
+ */
+export interface AuthUser {
+    username: string;
+    role: UserRole;
+    disabled: boolean;
+    createdAt: number;
+    updatedAt: number;
+    lastLoginAt?: number;
+}
+
+/**
+ * JWT载荷
+ */
+export interface AuthTokenPayload {
+    sub: string;                // 用户名
+    role: UserRole;
+    ver: number;                // 对应 AuthUserRecord.tokenVersion
+}
+
+/**
+ * 登录结果
+ */
+export interface AuthLoginResult {
+    token: string;
+    expiresIn: string;
+    user: AuthUser;
+}
+
+/**
+ * 认证配置（config/default.json 的 auth 节点）
+ */
+export interface AuthSettings {
+    enabled: boolean;           // 关闭后所有请求按admin处理（仅限本地开发）
+    jwtSecret: string;          // 为空时使用环境变量JWT_SECRET或自动生成并保存到data/
+    tokenExpiresIn: string;     // 例如 "12h"
+    bcryptRounds: number;
+    minPasswordLength: number;
+}
@@ -0,0 +1,133 @@
+/**
+ * 回测系统类型定义
+ * 离线回放池子历史数据，评估策略配置的收益表现
+ */
+
+// ================== 历史数据结构 ==================
+
+/**
+ * 池子历史快照（按时间顺序记录）
+ */
+export interface PoolHistorySnapshot {
+    timestamp: number;              // 快照时间（毫秒）
+    activeBin: number;              // 活跃bin ID
+    price: number;                  // 活跃bin价格（Y/X）
+    fees?: number;                  // 上一快照到本快照期间池子产生的LP手续费（Y代币价值）
+    activeBinLiquidity?: number;    // 活跃bin中其他LP的流动性（Y代币价值），用于计算手续费份额
+}
+
+/**
+ * 池子历史文件
+ */
+export interface PoolHistoryFile {
+    poolAddress: string;
+    binStep: number;                // bin步长（基点）
+    tokenX?: string;
+    tokenY?: string;
+    snapshots: PoolHistorySnapshot[];
+}
+
+// ================== 回测配置 ==================
+
+/**
+ * 支持回测的策略类型（与StrategyRegistry中注册的类型一致）
+ */
+export type BacktestStrategyType = 'chain_position' | 'simple-y';
+
+/**
+ * 单个回测配置
+ */
+export interface BacktestRunConfig {
+    name: string;                           // 配置名称（用于报告对比）
+    strategyType: BacktestStrategyType;
+    config: Record<string, any>;            // ChainPositionConfig 或 SimpleYConfig
+}
+
+/**
+ * 模拟成本参数
+ */
+export interface BacktestSimulationOptions {
+    initialBalanceY?: number;       // 初始Y代币余额，默认等于positionAmount
+    swapFeeBps: number;             // 兑换手续费（基点）
+    swapSlippageBps: number;        // 兑换滑点（基点）
+    transactionCostY: number;       // 单笔交易成本（Y代币价值，含gas和优先费）
+    defaultFeeShare: number;        // 缺少activeBinLiquidity时使用的手续费份额（0-1）
+}
+
+/**
+ * 回测配置文件
+ */
+export interface BacktestConfigFile {
+    options?: Partial<BacktestSimulationOptions>;
+    runs: BacktestRunConfig[];
+}
+
+// ================== 回测结果 ==================
+
+/**
+ * 回测事件类型
+ */
+export type BacktestEventType =
+    | 'POSITION_CREATED'
+    | 'POSITION_CLOSED'
+    | 'SWAP_EXECUTED'
+    | 'YIELD_EXTRACTED'
+    | 'RECREATION'
+    | 'STOP_LOSS'
+    | 'PARTIAL_EXIT'
+    | 'STRATEGY_STOPPED';
+
+/**
+ * 回测事件记录
+ */
+export interface BacktestEvent {
+    timestamp: number;
+    type: BacktestEventType;
+    activeBin: number;
+    price: number;
+    details: Record<string, any>;
+}
+
+/**
+ * 净值曲线点
+ */
+export interface BacktestEquityPoint {
+    timestamp: number;
+    price: number;
+    activeBin: number;
+    totalValueY: number;
+}
+
+/**
+ * 单个配置的PnL报告
+ */
+export interface BacktestReport {
+    name: string;
+    strategyType: BacktestStrategyType;
+    poolAddress: string;
+    startTime: number;
+    endTime: number;
+    snapshotCount: number;
+
+    initialValueY: number;          // 初始总价值（Y代币）
+    finalValueY: number;            // 结束总价值（Y代币，剩余X按最后价格计价）
+    netPnL: number;
+    netPnLPercentage: number;
+    holdValueY: number;             // 基准：持有Y不动的价值
+    maxDrawdownPercentage: number;
+
+    feesEarned: number;             // 累计手续费收入
+    swapCosts: number;              // 兑换手续费+滑点损失
+    transactionCosts: number;       // 交易成本合计
+    timeInRangePercentage: number;  // 活跃bin位于头寸范围内的时间占比
+
+    positionsCreated: number;
+    recreations: Record<string, number>;    // 按重建类型统计
+    stopLossTriggered: number;
+    partialExits: number;
+    yieldExtractions: number;
+    stoppedReason: string | null;   // 策略提前停止的原因
+
+    events: BacktestEvent[];
+    equityCurve: BacktestEquityPoint[];
+}
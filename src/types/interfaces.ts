@@ -4,7 +4,7 @@
  * 基于PancakeSwap V3架构的模块化接口设计
  */
 
-import { Connection, Keypair, PublicKey, Transaction, VersionedTransaction, SendOptions } from '@solana/web3.js';
+import { Connection, Keypair, PublicKey, Transaction, VersionedTransaction, SendOptions, AccountInfo, ParsedAccountData } from '@solana/web3.js';
 const anchor = require('@coral-xyz/anchor');
 const { BN: AnchorBN } = anchor;
 
@@ -18,6 +18,7 @@ export const TYPES = {
     EventBus: Symbol.for('EventBus'),
     LoggerService: Symbol.for('LoggerService'),
     ConfigService: Symbol.for('ConfigService'),
+    AuthService: Symbol.for('AuthService'),
     StateService: Symbol.for('StateService'),
     CacheService: Symbol.for('CacheService'),
 
@@ -59,9 +60,23 @@ export const TYPES = {
     StrategyRegistry: Symbol.for('StrategyRegistry'),
     StrategyScheduler: Symbol.for('StrategyScheduler'),
     StrategyStorage: Symbol.for('StrategyStorage'),
+    StrategyJournal: Symbol.for('StrategyJournal'),
+    StrategyOperationHistory: Symbol.for('StrategyOperationHistory'),
+    StrategyPerformanceService: Symbol.for('StrategyPerformanceService'),
+    StrategyConfigHistory: Symbol.for('StrategyConfigHistory'),
+    StrategyGroupStorage: Symbol.for('StrategyGroupStorage'),
+    StrategyGroupReporter: Symbol.for('StrategyGroupReporter'),
     SimpleYExecutor: Symbol.for('SimpleYExecutor'),
     ChainPositionExecutor: Symbol.for('ChainPositionExecutor'),
+    DualPositionExecutor: Symbol.for('DualPositionExecutor'),
+    PriceTriggerExecutor: Symbol.for('PriceTriggerExecutor'),
     StrategyHealthChecker: Symbol.for('StrategyHealthChecker'),
+    StrategyRotationController: Symbol.for('StrategyRotationController'),
+    RiskBudgetService: Symbol.for('RiskBudgetService'),
+    KillSwitchService: Symbol.for('KillSwitchService'),
+    StrategyBatchService: Symbol.for('StrategyBatchService'),
+    StrategyPluginLoader: Symbol.for('StrategyPluginLoader'),
+    StrategyWorkerPool: Symbol.for('StrategyWorkerPool'),
 
     // 旧架构已完全移除
 
@@ -239,6 +254,10 @@ export interface ISolanaWeb3Service extends IService {
         unitsConsumed?: number;
     }>;
     getLatestBlockhash(): Promise<{ blockhash: string; lastValidBlockHeight: number } | null>;
+    getProgramAccounts(programId: PublicKey, configOrCommitment?: any): Promise<Array<{
+        pubkey: PublicKey;
+        account: AccountInfo<Buffer | ParsedAccountData>;
+    }> | null>;
 }
 
 export interface IMultiRPCService extends IService {
@@ -319,6 +338,7 @@ export interface IWalletService extends IService {
     getSolBalance(): Promise<number>;
     unlock(password: string): Promise<boolean>;
     getCurrentKeypair(): Keypair | null;
+    setUnlockCallback(callback: () => Promise<void>): void;
 }
 
 // ==== 头寸相关接口 ====
@@ -361,6 +381,7 @@ export interface PositionResult {
 export interface IPositionManager extends IService {
     createPosition(params: CreatePositionParams): Promise<PositionResult>;
     closePosition(positionAddress: string, password?: string): Promise<PositionResult>;
+    removeLiquidity(positionAddress: string, percentage: number, binRange?: [number, number], password?: string): Promise<PositionResult>;
     getPosition(positionAddress: string): Promise<PositionInfo | null>;
     getUserPositions(userAddress: string): Promise<PositionInfo[]>;
     validatePosition(positionAddress: string): Promise<boolean>;
@@ -379,6 +400,7 @@ export interface IPositionManager extends IService {
             upperBinId: number;
             totalXAmount: string;
             totalYAmount: string;
+            activeBinXAmount?: string;  // 活跃bin中的X代币（原子单位）
             fees: {
                 feeX: string;
                 feeY: string;
@@ -459,11 +481,14 @@ export interface CreateYPositionParams extends CreatePositionParams {
     binRange: number;
     activeBin: number;
     strategy?: string;
+    liquidityMode?: 'spot' | 'bidask' | 'curve'; // 流动性分布，默认bidask
+    xAmount?: string;                             // 双边头寸同时存入的X代币（原子单位），默认不存入X
 }
 
 export interface CreateXPositionParams extends CreatePositionParams {
     binRange: number;
     activeBin: number;
+    liquidityMode?: 'spot' | 'bidask' | 'curve'; // 流动性分布，默认bidask
 }
 
 // 扩展CreatePositionParams接口
@@ -532,10 +557,11 @@ export interface IMeteoraService extends IService {
         userAddress: string,
         positionAddress: string,
         binIds: number[],
-        slippageTolerance?: number
-    ): Promise<Transaction>;
+        bps?: number
+    ): Promise<Transaction[]>;
     getUserPositions(userAddress: string, poolAddress?: string): Promise<any[]>;
     calculateBinPrice(poolAddress: string, binId: number): Promise<number>;
+    getPoolReserves(poolAddress: string): Promise<PoolReserves>;
     // 优化方法 - 一次性获取价格和bin信息
     getPoolPriceAndBin?(poolAddress: string): Promise<{
         activeBin: number;
@@ -658,6 +684,17 @@ export interface PoolInfo {
     };
 }
 
+export interface PoolReserves {
+    address: string;
+    tokenX: string;
+    tokenY: string;
+    tokenXDecimals: number;
+    tokenYDecimals: number;
+    reserveX: string;               // 原始数量（最小单位）
+    reserveY: string;               // 原始数量（最小单位）
+    baseFeeRatePercentage: number;  // 基础手续费率（%）
+}
+
 export interface IDLMMMonitorService extends IService {
     getActiveBin(poolAddress: string): Promise<number>;
     getPoolInfo(poolAddress: string): Promise<PoolInfo>;
@@ -902,6 +939,11 @@ export interface IGasService extends IService {
     activateStopLossModeManually(): void;
     deactivateStopLossMode(): void;
 
+    // 🚨 紧急模式控制（全局一键平仓）
+    activateEmergencyMode(): Promise<number>;
+    deactivateEmergencyMode(): void;
+    isEmergencyModeActive(): boolean;
+
     // 🚨 新增：智能费用调整方法
     getEmergencyPriorityFeeAfterTimeout(): Promise<number>;
     getSmartPriorityFee(hasRecentFailures?: boolean): Promise<number>;
@@ -0,0 +1,99 @@
+/**
+ * 模拟盘交易类型定义
+ * paper模式的策略实例使用虚拟账户，所有交易记入本地账本，不发送链上交易
+ */
+
+import { LiquiditySegment, LiquidityRemoval } from '../services/backtest/SimulatedPosition';
+
+/**
+ * 策略实例交易模式
+ */
+export type TradingMode = 'live' | 'paper';
+
+/**
+ * 模拟盘参数（config/default.json 中的 paperTrading 节点）
+ */
+export interface PaperTradingSettings {
+    estimatedFeeApr: number;        // 头寸处于范围内时的估算年化手续费率（0.5 = 50%）
+    fallbackSwapCostBps: number;    // Jupiter报价不可用时按池子价格成交的成本（基点）
+}
+
+/**
+ * 虚拟头寸
+ */
+export interface PaperPosition {
+    address: string;
+    poolAddress: string;
+    lowerBinId: number;
+    upperBinId: number;
+    segments: LiquiditySegment[];   // 流动性分段（按创建时的活跃bin分配）
+    removals?: LiquidityRemoval[];  // 按bin范围部分移除的流动性（按顺序应用）
+    referenceBin: number;           // 创建时的活跃bin
+    referencePrice: number;         // 创建时的活跃价格
+    binStep: number;
+    pendingFeeY: number;            // 未提取的手续费（Y代币）
+    lastFeeAccrualAt: number;
+    createdAt: number;
+}
+
+/**
+ * 账本记录类型
+ */
+export type PaperLedgerEntryType =
+    | 'ACCOUNT_OPENED'
+    | 'POSITION_CREATED'
+    | 'POSITION_CLOSED'
+    | 'LIQUIDITY_REMOVED'
+    | 'SWAP'
+    | 'FEES_HARVESTED';
+
+/**
+ * 账本记录
+ */
+export interface PaperLedgerEntry {
+    timestamp: number;
+    type: PaperLedgerEntryType;
+    signature: string;              // 模拟交易签名（paper_前缀）
+    balanceX: number;               // 操作后的虚拟X余额
+    balanceY: number;               // 操作后的虚拟Y余额
+    details: Record<string, any>;
+}
+
+/**
+ * 虚拟账户（每个paper实例一个）
+ */
+export interface PaperAccount {
+    instanceId: string;
+    poolAddress: string;
+    tokenXMint: string;
+    tokenYMint: string;
+    tokenXDecimals: number;
+    tokenYDecimals: number;
+    initialBalanceY: number;
+    balanceX: number;
+    balanceY: number;
+    positions: Record<string, PaperPosition>;
+    ledger: PaperLedgerEntry[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * 虚拟账户概览
+ */
+export interface PaperAccountSummary {
+    instanceId: string;
+    poolAddress: string;
+    activeBin: number;
+    currentPrice: number;
+    balanceX: number;
+    balanceY: number;
+    openPositions: string[];
+    positionValueY: number;         // 头寸当前价值（Y代币计价）
+    pendingFeesY: number;
+    totalValueY: number;            // 余额 + 头寸 + 未提取手续费
+    initialBalanceY: number;
+    pnlY: number;
+    pnlPercentage: number;
+    recentLedger: PaperLedgerEntry[];
+}
@@ -3,6 +3,8 @@
  * 基于 solmeteor.ai 网站的数据结构设计
  */
 
+import { TradingMode, PaperAccountSummary } from './paper-trading-types';
+
 // ================== 池数据结构 ==================
 
 /**
@@ -60,8 +62,16 @@ export interface RawPoolData {
     // 元数据
     scrapedAt: number;               // 抓取时间戳
     url?: string;                    // 原始URL
+    sources?: PoolDataSource[];      // 数据来源（多来源合并后记录全部来源）
 }
 
+/**
+ * 池数据来源
+ * - web: 抓取 solmeteor.ai 页面
+ * - onchain: 通过Meteora程序账户枚举DLMM池，指标由链上快照计算
+ */
+export type PoolDataSource = 'web' | 'onchain';
+
 /**
  * 处理后的池数据
  */
@@ -148,15 +158,40 @@ export interface PoolFilterConfig {
  */
 export interface CrawlerConfig {
     enabled: boolean;                // 是否启用爬虫
+    baseUrl: string;                 // 池列表页面地址
     intervalMinutes: number;         // 爬取间隔（分钟）
     maxPages: number;                // 最大抓取页数
     requestDelay: number;            // 请求延迟（毫秒）
     timeout: number;                 // 请求超时（毫秒）
     retryCount: number;              // 重试次数
     userAgent: string;               // 用户代理
+    sources: PoolDataSource[];       // 启用的数据来源（按优先级排列）
+    onChain: OnChainDiscoveryConfig; // 链上发现配置
     isRunning?: boolean;             // 爬虫是否处于运行状态（可选）
 }
 
+/**
+ * 链上池发现配置
+ */
+export interface OnChainDiscoveryConfig {
+    quoteMints: string[];            // 只枚举以这些代币为Y代币的池（默认WSOL）
+    maxPools: number;                // 每轮按最近交易时间取前N个池
+    minLiquidityUsd: number;         // 低于该流动性的池不输出
+    snapshotRetentionHours: number;  // 快照保留时间（决定最长的统计窗口）
+}
+
+/**
+ * 链上池快照（每轮爬取记录一次，用于计算价格变化、交易量和费用窗口）
+ */
+export interface OnChainPoolSnapshot {
+    timestamp: number;
+    activeBin: number;
+    price: number;                   // Y/X 价格
+    reserveX: number;                // X储备（UI单位）
+    reserveY: number;                // Y储备（UI单位）
+    priceYUsd: number;               // Y代币美元价格
+}
+
 /**
  * 爬虫状态
  */
@@ -193,6 +228,88 @@ export interface QualifiedPoolRecord {
     rating: number;                  // 用户评分（1-5）
     notes: string;                   // 用户备注
     status: 'new' | 'reviewed' | 'ignored' | 'favorited';
+    strategies?: PoolStrategyLink[]; // 从该池启动的策略实例（有关联策略的记录不会被自动清理）
+}
+
+// ================== 从合格池启动策略 ==================
+
+/**
+ * 可从合格池一键启动的策略类型
+ */
+export type LaunchableStrategyType = 'chain_position' | 'simple-y';
+
+/**
+ * 根据池数据推导的策略参数
+ */
+export interface PoolStrategyDefaults {
+    strategyType: LaunchableStrategyType;
+    binStep: number;                 // 池的bin步长（以链上数据为准）
+    positionAmount: number;          // 投入金额（Y代币）
+    binRange: number;                // bin范围
+    slippageBps: number;             // 滑点（基点）
+    volatilityPct: number;           // 估算的24小时波动幅度（%）
+    notes: string[];                 // 推导说明
+}
+
+/**
+ * 启动请求（未提供的参数使用推导值）
+ */
+export interface PoolStrategyLaunchRequest {
+    strategyType: LaunchableStrategyType;
+    name?: string;
+    mode?: TradingMode;
+    positionAmount?: number;
+    binRange?: number;
+    slippageBps?: number;
+    autoStart?: boolean;
+    config?: Record<string, any>;    // 额外的策略配置（覆盖默认配置）
+}
+
+/**
+ * 合格池与策略实例的关联记录
+ */
+export interface PoolStrategyLink {
+    instanceId: string;
+    strategyType: LaunchableStrategyType;
+    name: string;
+    mode: TradingMode;
+    launchedAt: number;
+    params: {
+        positionAmount: number;
+        binRange: number;
+        slippageBps: number;
+    };
+    // 启动时的池指标，用于和策略表现对比
+    poolSnapshot: {
+        liquidity: number;
+        apr24h: number;
+        volume24h: number;
+        binStep: number;
+        score: number;
+    };
+}
+
+/**
+ * 关联策略的当前状态
+ */
+export interface PoolStrategyLinkStatus extends PoolStrategyLink {
+    status: string;                  // 策略状态，实例已删除时为 'deleted'
+    startedAt?: Date;
+    stoppedAt?: Date;
+    error?: string;
+    paperAccount?: PaperAccountSummary; // 模拟盘账户（仅paper模式）
+}
+
+/**
+ * 启动结果
+ */
+export interface PoolStrategyLaunchResult {
+    instanceId: string;
+    started: boolean;
+    startError?: string;
+    defaults: PoolStrategyDefaults;
+    config: Record<string, any>;
+    link: PoolStrategyLink;
 }
 
 /**
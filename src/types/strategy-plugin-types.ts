@@ -0,0 +1,98 @@
+/**
+ * 🔌 策略插件类型定义
+ *
+ * 插件是放在插件目录（config: strategy.plugins.directory）中的 CommonJS 模块，
+ * 导出 StrategyPluginModule（module.exports 或 default 导出），启动时由 StrategyPluginLoader 加载并注册到 StrategyRegistry。
+ * 插件只能通过 StrategyPluginContext 访问头寸、兑换、分析和日志服务，拿不到钱包密钥。
+ */
+
+import { IStrategyExecutor } from '../services/strategy/StrategyRegistry';
+import { PositionResult, SwapResult, PoolInfo } from './interfaces';
+import { MarketData } from '../services/modules/SmartStopLossModule';
+import { YieldStatistics } from './analytics-types';
+
+// 插件导出的模块
+export interface StrategyPluginModule {
+    apiVersion: number;              // 插件接口版本，必须等于 STRATEGY_PLUGIN_API_VERSION
+    name: string;                    // 插件名称（唯一）
+    version: string;                 // 插件版本（x.y.z）
+    description?: string;
+    createExecutor(context: StrategyPluginContext): IStrategyExecutor | Promise<IStrategyExecutor>;
+}
+
+// 插件可用的日志接口
+export interface StrategyPluginLogger {
+    info(message: string, data?: any): Promise<void>;
+    warn(message: string, data?: any): Promise<void>;
+    error(message: string, error?: Error): Promise<void>;
+    // 写入实例日志（logs/strategies/<instanceId>）
+    forInstance(instanceId: string): {
+        operation(message: string, details?: any): Promise<void>;
+        monitoring(metric: string, value: any): Promise<void>;
+        error(message: string, error?: Error): Promise<void>;
+    };
+}
+
+/**
+ * 插件服务门面
+ * 所有需要 instanceId 的操作只允许作用于该插件注册的策略类型的实例；
+ * 模拟盘实例的头寸和兑换自动走虚拟账本
+ */
+export interface StrategyPluginContext {
+    readonly pluginName: string;
+    readonly settings: Readonly<Record<string, any>>;   // strategy.plugins.settings.<插件名>
+    readonly logger: StrategyPluginLogger;
+
+    readonly market: {
+        getActiveBin(poolAddress: string): Promise<number>;
+        getPoolInfo(poolAddress: string): Promise<PoolInfo>;
+        getPoolPriceAndBin(poolAddress: string): Promise<{ activeBin: number; activePrice: number; binStep: number }>;
+        getTokenPrices(mints: string[]): Promise<Record<string, number>>;
+    };
+
+    readonly positions: {
+        createYPosition(instanceId: string, params: StrategyPluginPositionParams): Promise<PositionResult>;
+        createXPosition(instanceId: string, params: StrategyPluginPositionParams): Promise<PositionResult>;
+        closePosition(instanceId: string, positionAddress: string): Promise<PositionResult>;
+        getPositionInfo(instanceId: string, positionAddress: string): Promise<any>;
+    };
+
+    readonly swaps: {
+        // amount 为原子单位
+        swap(instanceId: string, params: { inputMint: string; outputMint: string; amount: string; slippageBps: number }): Promise<SwapResult>;
+    };
+
+    readonly analytics: {
+        setupMonitoring(instanceId: string, params: { poolAddress: string; positionAddresses: string[]; initialInvestmentAmount: string }): Promise<void>;
+        getMarketData(instanceId: string): Promise<MarketData>;
+        getYieldStatistics(instanceId: string): Promise<YieldStatistics>;
+        stopMonitoring(instanceId: string): Promise<void>;
+    };
+
+    readonly events: {
+        // 广播策略状态（Socket.IO strategy:status-update）
+        publishStatus(instanceId: string, data: Record<string, any>): Promise<void>;
+    };
+
+    isPaperInstance(instanceId: string): boolean;
+}
+
+export interface StrategyPluginPositionParams {
+    poolAddress: string;
+    lowerBinId: number;
+    upperBinId: number;
+    amount: string;                  // Y头寸为人类可读数量，X头寸为X代币原子单位（与 XPositionManager 一致）
+    slippageBps?: number;
+}
+
+// 插件加载结果
+export interface StrategyPluginRecord {
+    name: string;
+    file: string;
+    status: 'loaded' | 'failed';
+    version?: string;
+    description?: string;
+    strategyType?: string;
+    error?: string;
+    loadedAt: number;
+}
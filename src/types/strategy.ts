@@ -109,6 +109,276 @@ export interface StrategyOperationResult {
     error?: string;
 }
 
+// ============ 策略参数Schema（由执行器声明，用于配置校验和前端表单） ============
+
+export type StrategyParameterType = 'string' | 'number' | 'boolean' | 'select' | 'object';
+
+// 单个参数定义
+export interface StrategyParameterSchema {
+    name: string;
+    type: StrategyParameterType;
+    description: string;
+    required?: boolean;
+    default?: any;
+    min?: number;
+    max?: number;
+    step?: number;
+    integer?: boolean;
+    numericString?: boolean;                 // number类型同时接受数字字符串（兼容以字符串保存的旧配置）
+    pattern?: string;                        // string类型的正则
+    options?: { value: string; label: string }[];   // select类型的可选值
+    help?: string;
+    hot?: boolean;                           // 运行中修改可立即生效（object类型的子参数继承该标记）
+    parameters?: StrategyParameterSchema[];  // object类型的子参数
+}
+
+// 执行器声明的配置Schema
+export interface StrategyConfigSchema {
+    name: string;
+    description: string;
+    parameters: StrategyParameterSchema[];
+}
+
+// /api/strategy/templates 返回的策略模板
+export interface StrategyTemplate extends StrategyConfigSchema {
+    id: string;
+    version: string;
+}
+
+// 配置字段级变更（path为点分路径，如 positionRecreation.marketOpportunity.profitThreshold）
+export interface StrategyConfigChange {
+    path: string;
+    oldValue?: any;
+    newValue?: any;
+    hot: boolean;                            // false表示需要重启策略才能生效
+}
+
+// 配置版本（每次创建、更新、回滚都会新增一个版本）
+export interface StrategyConfigVersion {
+    version: number;
+    config: any;
+    source: 'create' | 'update' | 'rollback';
+    changes: StrategyConfigChange[];
+    createdAt: number;
+    rollbackOf?: number;                     // 回滚到的目标版本号
+    updatedBy?: string;
+}
+
+// 配置更新结果
+export interface StrategyConfigUpdateResult {
+    instanceId: string;
+    version: number;
+    changes: StrategyConfigChange[];
+    appliedHot: boolean;                     // 是否已热更新到运行中的执行器
+}
+
+// ============ 策略触发器（定时/条件启停） ============
+
+export type StrategyTriggerAction = 'start' | 'stop';
+
+// 触发条件
+export type StrategyTriggerCondition =
+    | { type: 'time'; at: number }                                          // 到达指定时间（毫秒时间戳）
+    | { type: 'cron'; expression: string }                                  // cron表达式匹配时重复触发
+    | { type: 'price'; poolAddress: string; above?: number; below?: number } // 池价格进入 [above, below] 区间
+    | { type: 'after_instance'; instanceId: string };                       // 指定实例停止后
+
+export type StrategyTriggerStatus = 'pending' | 'fired' | 'cancelled' | 'failed';
+
+export interface StrategyTrigger {
+    id: string;
+    instanceId: string;
+    action: StrategyTriggerAction;
+    condition: StrategyTriggerCondition;
+    status: StrategyTriggerStatus;           // cron触发器触发后保持pending
+    createdAt: number;
+    createdBy?: string;
+    lastCheckedAt?: number;
+    lastFiredAt?: number;
+    lastResult?: 'executed' | 'skipped' | 'failed';   // skipped: 触发时实例已处于目标状态
+    fireCount: number;
+    lastPrice?: number;                      // price触发器最近一次检查到的价格
+    error?: string;
+}
+
+// ============ 策略分组 ============
+
+// 策略分组（一个实例可以属于多个分组）
+export interface StrategyGroup {
+    id: string;
+    name: string;                            // 分组名称（唯一）
+    description?: string;
+    instanceIds: string[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+// 分组批量操作
+export type StrategyGroupOperation = 'start' | 'stop' | 'pause' | 'resume' | 'stop_loss';
+
+export interface StrategyGroupOperationResult {
+    groupId: string;
+    operation: StrategyGroupOperation;
+    succeeded: number;
+    failed: number;
+    skipped: number;                         // 实例状态不适用（如启动已运行的实例）
+    results: {
+        instanceId: string;
+        result: 'success' | 'failed' | 'skipped';
+        status?: string;                     // 操作后的实例状态
+        error?: string;
+    }[];
+}
+
+// 分组成员报告
+export interface StrategyGroupMemberReport {
+    instanceId: string;
+    name: string;
+    type: string;
+    status: string;
+    mode?: string;
+    capitalDeployed: number;                 // 投入资金（Y代币，仅运行中/暂停的实例）
+    positionValue?: number;                  // 头寸当前价值（Y代币）
+    netPnL?: number;                         // 净盈亏（Y代币）
+    netPnLPercentage?: number;
+    extractedYield?: number;                 // 已提取收益（Y代币）
+    pendingYield?: number;                   // 未提取收益（Y代币）
+    health: 'healthy' | 'warning' | 'critical' | 'error' | 'unknown';
+    healthIssues: number;
+    dataUpdatedAt?: number;                  // 盈亏数据时间
+}
+
+// 分组汇总报告
+export interface StrategyGroupReport {
+    groupId: string;
+    name: string;
+    generatedAt: number;
+    totals: {
+        instances: number;
+        byStatus: Record<string, number>;
+        capitalDeployed: number;
+        positionValue: number;
+        netPnL: number;
+        netPnLPercentage: number;            // 净盈亏 / 投入资金
+        extractedYield: number;
+        pendingYield: number;
+    };
+    health: Record<StrategyGroupMemberReport['health'], number>;
+    members: StrategyGroupMemberReport[];
+}
+
+// ============ 策略操作历史与绩效 ============
+
+export type StrategyOperationType = 'position_created' | 'position_closed' | 'swap' | 'yield_extraction' | 'stop_loss' | 'recreation' | 'roll' | 'partial_exit' | 'hedge';
+
+// 单条操作记录
+export interface StrategyOperationRecord {
+    seq: number;
+    timestamp: number;
+    instanceId: string;
+    type: StrategyOperationType;
+    success: boolean;
+    positionAddresses?: string[];
+    closedPositionAddresses?: string[];      // 滚动时关闭的头寸（positionAddresses为新建的头寸）
+    signature?: string;
+    amount?: string;                         // 创建头寸投入 / 提取收益 / 插件兑换输入价值（Y代币）
+    inputAmount?: string;                    // 兑换输入（人类可读数量，插件兑换为原子单位）
+    outputAmount?: string;                   // 兑换输出（原子单位，与兑换结果一致）
+    exitPercentage?: number;                 // 部分止损/对冲移除的流动性比例(%)
+    reason?: string;
+    error?: string;
+    cost?: {
+        gasUsed?: number;                    // 交易结果中的gasUsed（部分交易未返回时不记录）
+        priceImpact?: number;                // 兑换结果中的priceImpact
+    };
+    pnl?: {                                  // 记录时实例的盈亏快照（来自分析服务）
+        netPnL: number;
+        netPnLPercentage: number;
+        positionValue: number;
+    };
+    paper?: boolean;
+}
+
+// 由操作历史计算的绩效指标
+export interface StrategyPerformanceMetrics {
+    totalReturn: number;                     // 最近一次盈亏快照的净收益率(%)
+    netPnL: number;                          // 最近一次盈亏快照的净盈亏（Y代币）
+    maxDrawdown: number;                     // 盈亏快照序列的最大回撤(%)
+    winRate: number;                         // 盈利交易占比(%)
+    avgProfit: number;                       // 每笔交易平均盈亏（Y代币）
+    totalTrades: number;                     // 已完成交易数（从建仓到全部头寸关闭为一笔）
+    openTrade: boolean;                      // 是否有未平仓交易
+    operations: Record<StrategyOperationType, number>;
+    failedOperations: number;
+    extractedYield: number;                  // 已提取收益（Y代币）
+    costs: {
+        totalGasUsed: number;
+        avgPriceImpact: number;
+    };
+    firstOperationAt?: number;
+    lastOperationAt?: number;
+}
+
+// 操作历史分页
+export interface StrategyOperationPage {
+    records: StrategyOperationRecord[];
+    total: number;
+    page: number;
+    pageSize: number;
+}
+
+// ============ 策略工作线程隔离 ============
+
+// strategy.isolation 配置
+export interface StrategyIsolationConfig {
+    mode: 'inline' | 'worker';              // inline: 所有实例在主线程运行；worker: 实例在工作线程运行
+    shardSize: number;                       // 每个工作线程承载的实例数
+    strategyTypes: string[];                 // 在工作线程运行的策略类型（模拟盘实例和插件策略始终在主线程）
+    heartbeatInterval: number;               // 心跳间隔（毫秒）
+    heartbeatTimeout: number;                // 超过该时间未响应心跳视为卡死（毫秒）
+    callTimeout: number;                     // 单次调用超时（毫秒）
+    startupTimeout: number;                  // 工作线程启动超时（毫秒）
+    idleTimeout: number;                     // 没有实例后保留工作线程的时间（毫秒）
+    maxOldGenerationSizeMb: number;          // 工作线程堆内存上限
+}
+
+// 工作线程运行状态
+export interface StrategyWorkerInfo {
+    workerId: string;
+    threadId: number;
+    status: 'starting' | 'ready' | 'failed';
+    instanceIds: string[];
+    startedAt: number;
+    lastHeartbeatAt?: number;
+    heartbeatLatencyMs?: number;             // 最近一次心跳往返耗时，反映工作线程事件循环延迟
+    pendingCalls: number;
+}
+
+// ============ 钱包解锁后自动恢复 ============
+
+// strategy.autoResume 配置
+export interface StrategyAutoResumeConfig {
+    enabled: boolean;
+    staggerMs: number;                       // 相邻两个实例恢复之间的间隔（毫秒）
+}
+
+// 单个实例的自动恢复结果
+export interface StrategyAutoResumeResult {
+    instanceId: string;
+    result: 'resumed' | 'failed' | 'skipped';
+    status: string;                          // 处理后的实例状态
+    reason?: string;
+    at: number;
+}
+
+// 一轮自动恢复的报告（通过 strategy.auto-resume.update 事件推送）
+export interface StrategyAutoResumeReport {
+    startedAt: number;
+    completedAt?: number;
+    instanceIds: string[];                   // 本轮计划恢复的实例（按恢复顺序）
+    results: StrategyAutoResumeResult[];
+}
+
 // ============ 简单Y头寸策略专用类型定义 ============
 
 // 简单Y策略配置接口
@@ -0,0 +1,147 @@
+/**
+ * 🧩 池数据解析器 + 筛选引擎
+ * 使用 test/fixtures 下保存的页面验证解析结果和筛选判断，不访问网络
+ */
+
+import 'reflect-metadata';
+import fs from 'fs';
+import path from 'path';
+import { PoolDataParser } from '../../src/services/crawler/PoolDataParser';
+import { PoolFilterEngine } from '../../src/services/crawler/PoolFilterEngine';
+import { PoolFilterConfig } from '../../src/types/pool-crawler-types';
+
+const readFixture = (name: string): string =>
+    fs.readFileSync(path.join(__dirname, '..', 'fixtures', name), 'utf-8');
+
+describe('PoolDataParser', () => {
+    const parser = new PoolDataParser();
+
+    describe('渲染后的池列表表格', () => {
+        it('按表头解析各列，跳过没有池地址的行和导航表格', async () => {
+            const pools = await parser.parsePoolData(readFixture('solmeteor-pool-table.html'), 'https://solmeteor.ai/pools');
+
+            expect(pools.map(pool => pool.poolAddress)).toEqual([
+                'MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA',
+                'b8dLcukC7edhDQ7cn5d4gEYkbUrMWeWQLGsCmrG6dLaY',
+                'yNoVKf58ZTBqNAYT3j5qcdsyuMNmPfYetW5v6JXmj54o'
+            ]);
+
+            const [bonk, wif, jup] = pools;
+            expect(bonk).toMatchObject({
+                rank: 1,
+                tokenPair: 'BONK-SOL',
+                meteorScore: 87.5,
+                liquidity: 26100,
+                age: '2 mo',
+                fdv: 1.2e9,
+                binStep: 100,
+                url: 'https://solmeteor.ai/pools'
+            });
+            expect(bonk!.apr).toEqual({ '5m': 0.35, '1h': 4.2, '6h': 0, '24h': 56.78, '7d': 0 });
+            expect(bonk!.priceChange['1h']).toBe(-1.5);
+            expect(bonk!.priceChange['24h']).toBe(-16.68);
+            expect(bonk!.fees['24h']).toBe(14800);
+            expect(bonk!.volume['1h']).toBe(120000);
+            expect(bonk!.volume['24h']).toBe(2.5e6);
+
+            // 池地址取自行属性，代币对中的空格转为短横线
+            expect(wif).toMatchObject({ rank: 2, tokenPair: 'WIF-SOL', liquidity: 850000, age: '13 hrs', fees: expect.objectContaining({ '24h': 3200 }) });
+            expect(wif!.priceChange['1h']).toBe(2.3);
+
+            // "—" 解析为0
+            expect(jup).toMatchObject({ tokenPair: 'JUP-USDC', fdv: 0, liquidity: 5.2e6 });
+            expect(jup!.apr['5m']).toBe(0);
+            expect(pools.every(pool => parser.validatePoolData(pool))).toBe(true);
+        });
+    });
+
+    describe('页面内嵌的 __NEXT_DATA__ JSON', () => {
+        it('找到池数组并归一化字段别名和嵌套的时间段', async () => {
+            const pools = await parser.parsePoolData(readFixture('solmeteor-next-data.html'));
+
+            expect(pools).toHaveLength(2);
+            const [popcat, pengu] = pools;
+            expect(popcat).toMatchObject({
+                rank: 1,
+                poolAddress: 'mLidkuVKnRyjP2WPBg8Y4ErK9pGSSxY6BVScJy9uUxcJ',
+                tokenPair: 'POPCAT-SOL',
+                meteorScore: 91.2,
+                liquidity: 1.5e6,
+                age: '3 days',
+                fdv: 4.2e8,
+                binStep: 100
+            });
+            expect(popcat!.apr).toEqual({ '5m': 0.8, '1h': 6.1, '6h': 22.4, '24h': 88.3, '7d': 310.5 });
+            expect(popcat!.volume).toEqual({ '5m': 0, '1h': 180000, '6h': 0, '24h': 4.1e6, '7d': 0 });
+            expect(popcat!.fees['24h']).toBe(32500);
+            expect(popcat!.priceChange['1h']).toBe(-2.4);
+
+            expect(pengu).toMatchObject({ tokenPair: 'PENGU-USDC', liquidity: 98000, fdv: 2.1e9, binStep: 25 });
+            expect(pengu!.volume['24h']).toBe(260000);
+        });
+
+        it('同样的数据直接作为JSON响应时结果一致', async () => {
+            const html = readFixture('solmeteor-next-data.html');
+            const json = html.substring(html.indexOf('{', html.indexOf('__NEXT_DATA__')), html.lastIndexOf('}') + 1);
+
+            const fromHtml = await parser.parsePoolData(html);
+            const fromJson = await parser.parsePoolData(json);
+            const withoutTimestamp = (pools: typeof fromHtml) => pools.map(({ scrapedAt, ...rest }) => rest);
+            expect(withoutTimestamp(fromJson)).toEqual(withoutTimestamp(fromHtml));
+        });
+    });
+
+    it('空内容返回空数组', async () => {
+        await expect(parser.parsePoolData('   ')).resolves.toEqual([]);
+    });
+});
+
+describe('PoolFilterEngine', () => {
+    const parser = new PoolDataParser();
+    const engine = new PoolFilterEngine();
+
+    const buildFilters = (overrides: Partial<PoolFilterConfig>): PoolFilterConfig => ({
+        ...engine.getDefaultFilters(),
+        ...overrides
+    });
+
+    it('对解析出的池按启用的条件和代币名单判断是否合格', async () => {
+        const pools = await parser.parsePoolData(readFixture('solmeteor-pool-table.html'));
+        const defaults = engine.getDefaultFilters();
+        const filters = buildFilters({
+            liquidity: { enabled: true, min: 20000 },
+            apr: { ...defaults.apr, '24h': { enabled: true, min: 10 } },
+            tokenBlacklist: ['wif']
+        });
+
+        const processed = engine.applyFilters(pools, filters);
+        const byPair = Object.fromEntries(processed.map(pool => [pool.tokenPair, pool]));
+
+        expect(byPair['BONK-SOL']).toMatchObject({
+            isQualified: true,
+            matchedFilters: ['liquidity', 'apr.24h'],
+            tokens: { tokenA: 'BONK', tokenB: 'SOL' },
+            ageInHours: 1440
+        });
+        // 数值条件都满足，但在黑名单中
+        expect(byPair['WIF-SOL']).toMatchObject({ isQualified: false, matchedFilters: ['liquidity', 'apr.24h'], ageInHours: 13 });
+        // APR不满足
+        expect(byPair['JUP-USDC']).toMatchObject({ isQualified: false, matchedFilters: ['liquidity'], ageInHours: 0.75 });
+    });
+
+    it('白名单和年龄上限同时生效', async () => {
+        const pools = await parser.parsePoolData(readFixture('solmeteor-next-data.html'));
+        const filters = buildFilters({
+            ageInHours: { enabled: true, max: 48 },
+            tokenWhitelist: ['USDC']
+        });
+
+        const qualified = engine.applyFilters(pools, filters).filter(pool => pool.isQualified);
+        expect(qualified.map(pool => pool.tokenPair)).toEqual(['PENGU-USDC']);
+    });
+
+    it('没有启用任何数值条件时不合格', async () => {
+        const pools = await parser.parsePoolData(readFixture('solmeteor-pool-table.html'));
+        expect(engine.applyFilters(pools, engine.getDefaultFilters()).some(pool => pool.isQualified)).toBe(false);
+    });
+});
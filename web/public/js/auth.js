@@ -0,0 +1,207 @@
+/**
+ * 🔐 前端认证
+ * - 保存登录令牌，自动为 /api 请求附加 Authorization 头
+ * - 收到401时弹出登录框，登录成功后刷新页面
+ * - Socket.IO连接通过 window.dlmmAuth.getToken() 获取同一令牌
+ */
+
+(function () {
+    const TOKEN_KEY = 'dlmm_auth_token';
+    const USER_KEY = 'dlmm_auth_user';
+    const originalFetch = window.fetch.bind(window);
+
+    function getApiBaseUrl() {
+        return window.dlmmConfig ? window.dlmmConfig.getApiBaseUrl() : window.location.origin;
+    }
+
+    class DLMMAuth {
+        constructor() {
+            this.enabled = true;
+            this.loginPromise = null;
+        }
+
+        getToken() {
+            return localStorage.getItem(TOKEN_KEY);
+        }
+
+        getUser() {
+            try {
+                return JSON.parse(localStorage.getItem(USER_KEY) || 'null');
+            } catch (error) {
+                return null;
+            }
+        }
+
+        hasRole(role) {
+            if (!this.enabled) return true;
+            const levels = { viewer: 1, operator: 2, admin: 3 };
+            const user = this.getUser();
+            return !!user && levels[user.role] >= levels[role];
+        }
+
+        /**
+         * 页面加载时检查认证状态，未登录则显示登录框
+         */
+        async init() {
+            try {
+                const response = await originalFetch(`${getApiBaseUrl()}/api/auth/status`, { headers: this.buildHeaders() });
+                const result = await response.json();
+                this.enabled = result.data?.enabled !== false;
+                if (!this.enabled) return;
+
+                if (result.data?.user) {
+                    localStorage.setItem(USER_KEY, JSON.stringify(result.data.user));
+                    this.renderUserBadge();
+                } else {
+                    this.clear();
+                    await this.showLogin();
+                }
+            } catch (error) {
+                console.warn('⚠️ 认证状态检查失败:', error);
+            }
+        }
+
+        async login(username, password) {
+            const response = await originalFetch(`${getApiBaseUrl()}/api/auth/login`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ username, password })
+            });
+            const result = await response.json();
+            if (!response.ok || !result.success) {
+                throw new Error(result.error || '登录失败');
+            }
+
+            localStorage.setItem(TOKEN_KEY, result.data.token);
+            localStorage.setItem(USER_KEY, JSON.stringify(result.data.user));
+            return result.data.user;
+        }
+
+        logout() {
+            this.clear();
+            window.location.reload();
+        }
+
+        clear() {
+            localStorage.removeItem(TOKEN_KEY);
+            localStorage.removeItem(USER_KEY);
+        }
+
+        buildHeaders(headers) {
+            const merged = new Headers(headers || {});
+            const token = this.getToken();
+            if (token && !merged.has('Authorization')) {
+                merged.set('Authorization', `Bearer ${token}`);
+            }
+            return merged;
+        }
+
+        /**
+         * 显示登录框（多个请求同时401时只显示一次）
+         */
+        showLogin(message) {
+            if (this.loginPromise) return this.loginPromise;
+
+            this.loginPromise = new Promise(resolve => {
+                const overlay = document.createElement('div');
+                overlay.id = 'dlmm-auth-overlay';
+                overlay.style.cssText = 'position:fixed;inset:0;z-index:100000;display:flex;align-items:center;justify-content:center;background:rgba(0,0,0,0.6);';
+                overlay.innerHTML = `
+                    <form style="background:#1e1e2e;color:#eee;padding:24px;border-radius:8px;min-width:300px;display:flex;flex-direction:column;gap:12px;font-family:sans-serif;">
+                        <h3 style="margin:0;">🔐 登录 DLMM 管理系统</h3>
+                        <input name="username" placeholder="用户名" autocomplete="username" required style="padding:8px;">
+                        <input name="password" type="password" placeholder="密码" autocomplete="current-password" required style="padding:8px;">
+                        <div class="auth-error" style="color:#ff6b6b;font-size:13px;min-height:16px;"></div>
+                        <button type="submit" style="padding:8px;cursor:pointer;">登录</button>
+                    </form>`;
+
+                const form = overlay.querySelector('form');
+                const errorEl = overlay.querySelector('.auth-error');
+                if (message) errorEl.textContent = message;
+
+                form.addEventListener('submit', async (event) => {
+                    event.preventDefault();
+                    errorEl.textContent = '';
+                    try {
+                        await this.login(form.username.value.trim(), form.password.value);
+                        resolve();
+                        window.location.reload();
+                    } catch (error) {
+                        errorEl.textContent = error.message;
+                    }
+                });
+
+                const mount = () => document.body.appendChild(overlay);
+                document.body ? mount() : document.addEventListener('DOMContentLoaded', mount);
+            });
+
+            return this.loginPromise;
+        }
+
+        /**
+         * 右下角显示当前用户和退出按钮
+         */
+        renderUserBadge() {
+            const user = this.getUser();
+            if (!user) return;
+
+            const render = () => {
+                if (document.getElementById('dlmm-auth-badge')) return;
+                const badge = document.createElement('div');
+                badge.id = 'dlmm-auth-badge';
+                badge.style.cssText = 'position:fixed;right:12px;bottom:12px;z-index:9999;padding:6px 10px;border-radius:6px;background:rgba(0,0,0,0.6);color:#eee;font-size:12px;';
+                badge.textContent = `👤 ${user.username} (${user.role}) `;
+
+                const logoutLink = document.createElement('a');
+                logoutLink.href = '#';
+                logoutLink.textContent = '退出';
+                logoutLink.style.color = '#7aa2f7';
+                logoutLink.addEventListener('click', (event) => {
+                    event.preventDefault();
+                    this.logout();
+                });
+                badge.appendChild(logoutLink);
+                document.body.appendChild(badge);
+            };
+            document.body ? render() : document.addEventListener('DOMContentLoaded', render);
+        }
+    }
+
+    const auth = new DLMMAuth();
+    window.dlmmAuth = auth;
+
+    /**
+     * 判断请求是否发往本系统API（只给页面同源或配置的API地址附加令牌）
+     */
+    function isApiRequest(url) {
+        try {
+            const target = new URL(url, window.location.href);
+            const apiOrigin = new URL(getApiBaseUrl(), window.location.href).origin;
+            return (target.origin === window.location.origin || target.origin === apiOrigin)
+                && target.pathname.startsWith('/api/');
+        } catch (error) {
+            return false;
+        }
+    }
+
+    // 包装fetch：为API请求附加令牌，401时提示重新登录
+    window.fetch = async function (input, init = {}) {
+        const url = input instanceof Request ? input.url : String(input);
+        if (!isApiRequest(url)) {
+            return originalFetch(input, init);
+        }
+
+        const response = await originalFetch(input, {
+            ...init,
+            headers: auth.buildHeaders(init.headers || (input instanceof Request ? input.headers : undefined))
+        });
+
+        if (response.status === 401 && auth.enabled && !url.includes('/api/auth/login')) {
+            auth.clear();
+            auth.showLogin('登录已过期，请重新登录');
+        }
+        return response;
+    };
+
+    auth.init();
+})();
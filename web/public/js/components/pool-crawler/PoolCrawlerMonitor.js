@@ -527,6 +527,8 @@ class PoolCrawlerMonitor {
             return new Promise((resolve, reject) => {
                 this.socket = io(this.socketUrl, {
                     transports: ['websocket', 'polling'],
+                    // 🔐 每次（重）连接时读取最新的登录令牌
+                    auth: (cb) => cb({ token: window.dlmmAuth?.getToken() }),
                     timeout: 10000,
                     reconnection: true,
                     reconnectionAttempts: this.maxReconnectAttempts,
@@ -57,6 +57,9 @@ class ChainPositionCreator {
         this.errors = {};
         this.isSubmitting = false;
 
+        // 后端策略模板中的字段范围（加载失败时使用本地规则）
+        this.templateRules = {};
+
         // API服务
         this.apiService = window.apiService;
         this.eventBus = window.EventBus;
@@ -87,6 +90,43 @@ class ChainPositionCreator {
 
         // 🔧 渲染完成后立即同步表单值，确保默认值正确填充
         this.syncFormValues();
+
+        // 📋 加载后端策略模板，校验范围与服务端保持一致
+        this.loadTemplateRules();
+    }
+
+    /**
+     * 从 /api/strategy/templates 加载连锁头寸策略的参数范围
+     */
+    async loadTemplateRules() {
+        try {
+            const response = await fetch('/api/strategy/templates');
+            const result = await response.json();
+            const template = result.success && Array.isArray(result.data)
+                ? result.data.find(t => t.id === 'chain_position')
+                : null;
+
+            if (template) {
+                this.templateRules = this.flattenTemplateParameters(template.parameters);
+            }
+        } catch (error) {
+            console.warn('⚠️ 加载策略模板失败，使用本地校验规则:', error);
+        }
+    }
+
+    /**
+     * 将嵌套参数展开为点分字段名（如 stopLoss.observationPeriodMinutes）
+     */
+    flattenTemplateParameters(parameters, prefix = '', rules = {}) {
+        (parameters || []).forEach(param => {
+            const fieldName = prefix + param.name;
+            if (param.type === 'object') {
+                this.flattenTemplateParameters(param.parameters, `${fieldName}.`, rules);
+            } else if (param.type === 'number') {
+                rules[fieldName] = { min: param.min, max: param.max };
+            }
+        });
+        return rules;
     }
 
     /**
@@ -1063,7 +1103,18 @@ class ChainPositionCreator {
             'positionRecreation.dynamicProfitRecreation.profitThresholdTier4': { required: false, type: 'number', min: 2, max: 15 }
         };
 
-        return rules[fieldName] || {};
+        const rule = rules[fieldName] || {};
+        const templateRule = this.templateRules[fieldName];
+        if (!templateRule || rule.type !== 'number') {
+            return rule;
+        }
+
+        // 以后端模板的范围为准
+        return {
+            ...rule,
+            min: templateRule.min,
+            max: templateRule.max
+        };
     }
 
     /**
@@ -1417,7 +1468,7 @@ class ChainPositionCreator {
                 this.clearSavedFormData();
 
             } else {
-                throw new Error(result.message || '策略创建失败');
+                throw new Error(result.error || result.message || '策略创建失败');
             }
 
         } catch (error) {
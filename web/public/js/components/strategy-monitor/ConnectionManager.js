@@ -130,6 +130,8 @@ class ConnectionManager {
             // 创建Socket.IO连接
             this.socket = io(wsUrl, {
                 ...socketConfig,
+                // 🔐 每次（重）连接时读取最新的登录令牌
+                auth: (cb) => cb({ token: window.dlmmAuth?.getToken() }),
                 reconnectionAttempts: this.options.maxReconnectAttempts,
                 reconnectionDelay: this.options.reconnectInterval
             });
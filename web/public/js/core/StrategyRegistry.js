@@ -143,31 +143,10 @@ class StrategyRegistry {
 
     /**
      * 加载默认策略模板（后备方案）
+     * 参数定义以服务端执行器声明的Schema为准，本地不再维护模板副本，避免与服务端不一致
      */
     loadDefaultTemplates() {
-        const defaultTemplates = [
-            {
-                id: 'simple_y',
-                name: '简单Y头寸策略',
-                description: '在指定价格范围内建立Y头寸的策略',
-                version: '1.0.0',
-                parameters: [
-                    { name: 'poolAddress', type: 'string', required: true, description: '池子地址' },
-                    { name: 'yAmount', type: 'number', required: true, description: 'Y代币投入金额' },
-                    { name: 'binRange', type: 'number', required: false, default: 69, description: 'Bin范围(1-69)' },
-                    { name: 'stopLossCount', type: 'number', required: false, default: 1, description: '止损触发次数' },
-                    { name: 'stopLossBinOffset', type: 'number', required: false, default: 35, description: '止损Bin偏移' },
-                    { name: 'upwardTimeout', type: 'number', required: false, default: 300, description: '向上超时时间(秒)' },
-                    { name: 'downwardTimeout', type: 'number', required: false, default: 60, description: '向下超时时间(秒)' }
-                ]
-            }
-        ];
-
-        defaultTemplates.forEach(template => {
-            this.templates.set(template.id, template);
-        });
-
-        console.log('📋 加载默认策略模板');
+        console.warn('⚠️ 策略模板不可用，请检查服务端 /api/strategy/templates');
     }
 
     /**